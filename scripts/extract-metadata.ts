@@ -264,6 +264,14 @@ interface ExtractionStats {
   licenseCodes: number;
   securityPolicies: number;
   macros: number;
+  workflowTypes: number;
+  workflowApprovals: number;
+  workflowTasks: number;
+  workflowCategories: number;
+  tiles: number;
+  kpis: number;
+  aggregateMeasurements: number;
+  aggregateDimensions: number;
   errors: number;
 }
 
@@ -450,6 +458,15 @@ const AOT_EXTRACTORS: AotExtractor[] = [
   { dirs: ['AxLicenseCode'], run: (c, [dir]) => extractLicenseCodes(c.parser, dir, c.modelName, c.stats, c.isCustom) },
   { dirs: ['AxSecurityPolicy'], run: (c, [dir]) => extractSecurityPolicies(c.parser, dir, c.modelName, c.stats, c.isCustom) },
   { dirs: ['AxMacroDictionary'], run: (c, [dir]) => extractMacros(c.parser, dir, c.modelName, c.stats, c.isCustom) },
+
+  { dirs: ['AxWorkflowType'], run: (c, [dir]) => extractWorkflowTypes(c.parser, dir, c.modelName, c.stats, c.isCustom) },
+  { dirs: ['AxWorkflowApproval'], run: (c, [dir]) => extractWorkflowApprovals(c.parser, dir, c.modelName, c.stats, c.isCustom) },
+  { dirs: ['AxWorkflowTask'], run: (c, [dir]) => extractWorkflowTasks(c.parser, dir, c.modelName, c.stats, c.isCustom) },
+  { dirs: ['AxWorkflowCategory'], run: (c, [dir]) => extractWorkflowCategories(c.parser, dir, c.modelName, c.stats, c.isCustom) },
+  { dirs: ['AxTile'], run: (c, [dir]) => extractTiles(c.parser, dir, c.modelName, c.stats, c.isCustom) },
+  { dirs: ['AxKPI'], run: (c, [dir]) => extractKpis(c.parser, dir, c.modelName, c.stats, c.isCustom) },
+  { dirs: ['AxAggregateMeasurement'], run: (c, [dir]) => extractAggregateMeasurements(c.parser, dir, c.modelName, c.stats, c.isCustom) },
+  { dirs: ['AxAggregateDimension'], run: (c, [dir]) => extractAggregateDimensions(c.parser, dir, c.modelName, c.stats, c.isCustom) },
 ];
 
 /** Every AOT folder the extractors read - the progress denominator. Derived, never edited. */
@@ -611,6 +628,14 @@ async function extractMetadata() {
     licenseCodes: 0,
     securityPolicies: 0,
     macros: 0,
+    workflowTypes: 0,
+    workflowApprovals: 0,
+    workflowTasks: 0,
+    workflowCategories: 0,
+    tiles: 0,
+    kpis: 0,
+    aggregateMeasurements: 0,
+    aggregateDimensions: 0,
     errors: 0,
   };
 
@@ -921,6 +946,14 @@ async function extractMetadata() {
     ['License codes', stats.licenseCodes],
     ['Security policies', stats.securityPolicies],
     ['Macros', stats.macros],
+    ['Workflow types', stats.workflowTypes],
+    ['Workflow approvals', stats.workflowApprovals],
+    ['Workflow tasks', stats.workflowTasks],
+    ['Workflow categories', stats.workflowCategories],
+    ['Tiles', stats.tiles],
+    ['KPIs', stats.kpis],
+    ['Aggregate measurements', stats.aggregateMeasurements],
+    ['Aggregate dimensions', stats.aggregateDimensions],
   ];
   const statLabelWidth = Math.max(...statRows.map(([label]) => label.length)) + 2;
   for (const [label, value] of statRows) {
@@ -1662,6 +1695,46 @@ async function extractMacros(parser: XppMetadataParser, dirPath: string, modelNa
     (f) => parser.parseMacroFile(f), stats, isCustom, 'Macros');
 }
 
+async function extractWorkflowTypes(parser: XppMetadataParser, dirPath: string, modelName: string, stats: ExtractionStats, isCustom = false) {
+  await extractSimpleType(dirPath, modelName, 'workflow-types', 'workflow-type', 'workflowTypes',
+    (f) => parser.parseWorkflowTypeFile(f), stats, isCustom, 'Workflow types');
+}
+
+async function extractWorkflowApprovals(parser: XppMetadataParser, dirPath: string, modelName: string, stats: ExtractionStats, isCustom = false) {
+  await extractSimpleType(dirPath, modelName, 'workflow-approvals', 'workflow-approval', 'workflowApprovals',
+    (f) => parser.parseWorkflowElementFile(f, 'approval'), stats, isCustom, 'Workflow approvals');
+}
+
+async function extractWorkflowTasks(parser: XppMetadataParser, dirPath: string, modelName: string, stats: ExtractionStats, isCustom = false) {
+  await extractSimpleType(dirPath, modelName, 'workflow-tasks', 'workflow-task', 'workflowTasks',
+    (f) => parser.parseWorkflowElementFile(f, 'task'), stats, isCustom, 'Workflow tasks');
+}
+
+async function extractWorkflowCategories(parser: XppMetadataParser, dirPath: string, modelName: string, stats: ExtractionStats, isCustom = false) {
+  await extractSimpleType(dirPath, modelName, 'workflow-categories', 'workflow-category', 'workflowCategories',
+    (f) => parser.parseWorkflowCategoryFile(f), stats, isCustom, 'Workflow categories');
+}
+
+async function extractTiles(parser: XppMetadataParser, dirPath: string, modelName: string, stats: ExtractionStats, isCustom = false) {
+  await extractSimpleType(dirPath, modelName, 'tiles', 'tile', 'tiles',
+    (f) => parser.parseTileFile(f), stats, isCustom, 'Tiles');
+}
+
+async function extractKpis(parser: XppMetadataParser, dirPath: string, modelName: string, stats: ExtractionStats, isCustom = false) {
+  await extractSimpleType(dirPath, modelName, 'kpis', 'kpi', 'kpis',
+    (f) => parser.parseKpiFile(f), stats, isCustom, 'KPIs');
+}
+
+async function extractAggregateMeasurements(parser: XppMetadataParser, dirPath: string, modelName: string, stats: ExtractionStats, isCustom = false) {
+  await extractSimpleType(dirPath, modelName, 'aggregate-measurements', 'aggregate-measurement', 'aggregateMeasurements',
+    (f) => parser.parseAggregateMeasurementFile(f), stats, isCustom, 'Aggregate measurements');
+}
+
+async function extractAggregateDimensions(parser: XppMetadataParser, dirPath: string, modelName: string, stats: ExtractionStats, isCustom = false) {
+  await extractSimpleType(dirPath, modelName, 'aggregate-dimensions', 'aggregate-dimension', 'aggregateDimensions',
+    (f) => parser.parseAggregateDimensionFile(f), stats, isCustom, 'Aggregate dimensions');
+}
+
 // Run extraction only when invoked as a script: tests import this module for
 // EXTRACTED_AOT_DIRS/mapModelDirs/countModelXmlFiles and must not trigger a full run.
 const invokedAsScript = process.argv[1] !== undefined
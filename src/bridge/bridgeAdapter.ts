@@ -121,7 +121,7 @@ function formatTable(t: BridgeTableInfo, methodOffset: number, fieldsOffset = 0,
   out += `\n## Indexes (${t.indexes.length})\n\n`;
   for (const idx of t.indexes) {
     const unique = !idx.allowDuplicates ? ' **(unique)**' : '';
-    const fieldNames = idx.fields.map((f: any) => typeof f === 'string' ? f : f.dataField ?? f.name).join(', ');
+    const fieldNames = idx.fields.map(f => (f.includedColumn ? `${f.dataField} (included)` : f.dataField)).join(', ');
     out += `- **${idx.name}**: [${fieldNames}]${unique}\n`;
   }
 
@@ -716,6 +716,27 @@ function parseLabelSource(sourcePath: string): ParsedLabelSource {
   return { type, objectName, detail };
 }
 
+/**
+ * The raw where-used rows for one xref path, for a caller that aggregates them
+ * itself (analyze_code impact). `null` when the bridge cannot answer — no xref
+ * DB, a thrown call, or an in-band error — never an empty list standing in for
+ * a failure.
+ */
+export async function bridgeReferenceRows(
+  bridge: BridgeClient | undefined,
+  target: string,
+): Promise<BridgeReferenceInfo[] | null> {
+  if (!bridge?.isReady || !bridge.xrefAvailable) return null;
+  try {
+    const r = await bridge.findReferences(target);
+    if (r?.error) return null;
+    return r?.references ?? [];
+  } catch (e) {
+    recordBridgeFailure(`findReferences(${target})`, e);
+    return null;
+  }
+}
+
 /**
  * Format label where-used results, grouped by source object type. Unlike the
  * default (caller/method-oriented) formatter, this makes the object-type spread
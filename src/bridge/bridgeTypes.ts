@@ -79,7 +79,13 @@ export interface BridgeFieldInfo {
 export interface BridgeIndexInfo {
   name: string;
   allowDuplicates: boolean;
-  fields: string[];
+  alternateKey?: boolean;
+  fields: BridgeIndexFieldInfo[];
+}
+
+export interface BridgeIndexFieldInfo {
+  dataField: string;
+  includedColumn: boolean;
 }
 
 export interface BridgeRelationInfo {
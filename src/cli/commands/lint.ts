@@ -0,0 +1,92 @@
+/**
+ * `d365fo-mcp lint [model]` — the validate_code(mode="syntax") rules over a
+ * whole model, offline, for Linux build agents that have no xppbp.exe.
+ *
+ * The model is looked up under `--root` (a PackagesLocalDirectory, or the
+ * Metadata folder of a repo checkout); without one, under the target's
+ * configured package paths and then the scanned PackagesLocalDirectory. A path
+ * to the model folder itself works too.
+ *
+ * Output goes to stdout, or to `--output`; nothing else is written there, so
+ * `--format sarif > lint.sarif` is a valid log. Exit codes: 0 when no finding
+ * is an error, 1 when one is or the model cannot be found — a pipeline gates
+ * on that without parsing the report.
+ */
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { settingByPath } from '../../config/settings.js';
+import { findPackagesRoot } from '../../utils/packagesRoot.js';
+import {
+  formatReport,
+  lintModel,
+  LINT_FORMATS,
+  resolveModelDir,
+  type LintFormat,
+} from '../lint/modelLint.js';
+import { readPath, readSetting } from '../settingsStore.js';
+import { pickTarget, rootTarget } from '../target.js';
+import { p } from '../ui.js';
+
+interface LintOptions {
+  format?: string;
+  root?: string[];
+  output?: string;
+  instance?: string;
+}
+
+const PACKAGE_ROOT_SETTINGS = [
+  'environment.customPackagesPath',
+  'environment.packagePath',
+  'environment.microsoftPackagesPath',
+] as const;
+
+export async function lintCommand(model: string | undefined, opts: LintOptions = {}): Promise<void> {
+  const format = (opts.format ?? 'text') as LintFormat;
+  if (!LINT_FORMATS.includes(format)) {
+    p.log.error(`Unknown format "${opts.format}". Use one of: ${LINT_FORMATS.join(', ')}.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  // pickTarget asks when instances exist and no name is given — a CI run must
+  // never stop at a prompt, so only an explicit --instance goes through it.
+  const target = opts.instance ? await pickTarget(opts.instance, 'Lint which configuration?') : rootTarget();
+  const modelName = model ?? (readSetting(target.store, settingByPath('workspace.modelName')!) as string | undefined);
+  if (!modelName) {
+    p.log.error('Usage: d365fo-mcp lint <model> [--format sarif|json|text] [--root <dir>…] [--output <file>]');
+    p.log.info('No model given and workspace.modelName is not configured.');
+    process.exitCode = 1;
+    return;
+  }
+
+  const configuredRoots = PACKAGE_ROOT_SETTINGS
+    .map(key => readSetting(target.store, settingByPath(key)!))
+    .filter((v): v is string => typeof v === 'string' && v.length > 0);
+  const roots = opts.root?.length
+    ? opts.root.map(r => path.resolve(r))
+    : [...configuredRoots, ...[findPackagesRoot()].filter((r): r is string => r !== null)];
+
+  const modelDir = await resolveModelDir(modelName, roots);
+  if (!modelDir) {
+    p.log.error(`Model "${modelName}" not found under: ${roots.join(', ') || '(no package root configured)'}`);
+    p.log.info('   fix: pass --root <PackagesLocalDirectory or the repo\'s Metadata folder>, or the model folder itself.');
+    process.exitCode = 1;
+    return;
+  }
+
+  const rulePacks = readSetting(target.store, settingByPath('behavior.rulePacks')!) as string[] | undefined;
+  const workspace = readPath(target.store, settingByPath('workspace.path')!, process.cwd());
+  // The folder name, not the argument: it is the model's own casing, and the
+  // model's name when the argument was a path.
+  const report = lintModel(path.basename(modelDir), modelDir, { paths: rulePacks, workspace });
+
+  const text = formatReport(report, format, process.cwd());
+  if (opts.output) {
+    fs.writeFileSync(opts.output, text);
+    p.log.info(`${report.findings.length} finding(s) in ${report.files} object(s) → ${opts.output}`);
+  } else {
+    process.stdout.write(text);
+  }
+
+  if (report.findings.some(f => f.severity === 'error')) process.exitCode = 1;
+}
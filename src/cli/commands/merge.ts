@@ -0,0 +1,110 @@
+/**
+ * `d365fo-mcp merge <base> <ours> <theirs>` — three-way merge of an AOT XML
+ * file by element instead of by line, the merge d365fo_file(action="merge")
+ * runs.
+ *
+ * The argument order is git's merge-driver order, so it plugs in as one:
+ *
+ *   git config merge.d365fo.driver "d365fo-mcp merge %O %A %B"
+ *   echo "**\/Ax*\/**\/*.xml merge=d365fo" >> .gitattributes
+ *
+ * The pattern keeps the driver on the AOT folders (AxTable, AxClass, …) of a
+ * metadata tree; descriptors, label files and anything else in the repo merge
+ * the way they always did.
+ *
+ * The result replaces <ours> (or goes to `--output`). Exit codes, as git
+ * expects of a driver: 0 when merged, 1 when a conflict is left. A conflict is
+ * written into the result between git's `<<<<<<<` / `=======` / `>>>>>>>`
+ * lines, the conflicting element whole on each side, and listed on stderr
+ * (`--json` for the structured list) — git then leaves the file conflicted as
+ * it would after its own merge. `--prefer` resolves every conflict to one side
+ * instead. A file that is not AOT XML on every side gets git's line merge
+ * (`git merge-file`), markers and all.
+ */
+import * as fs from 'node:fs';
+import { spawnSync } from 'node:child_process';
+import { mergeAotXml, renderAotMergeConflict, type AotMergeSide } from '../../utils/aotXmlMerge.js';
+import { p } from '../ui.js';
+
+interface MergeOptions {
+  output?: string;
+  prefer?: string;
+  json?: boolean;
+}
+
+/**
+ * git's own line merge of the three files: the merged text and its conflict
+ * count, or null when git could not run. `--ours`/`--theirs` settle conflicts
+ * the way --prefer does for AOT XML.
+ */
+function mergeFileByLine(base: string, ours: string, theirs: string, prefer?: AotMergeSide): { text: string; conflicts: number } | null {
+  const args = ['merge-file', '-p', '-L', 'ours', '-L', 'base', '-L', 'theirs'];
+  if (prefer) args.push(`--${prefer}`);
+  const run = spawnSync('git', [...args, ours, base, theirs], { encoding: 'utf-8', maxBuffer: 256 * 1024 * 1024 });
+  // The exit status is the number of conflicts; git reports an error as a negative one (255).
+  if (run.error || run.status === null || run.status > 127) {
+    p.log.error(`git merge-file failed: ${run.error?.message ?? run.stderr.trim()}`);
+    return null;
+  }
+  return { text: run.stdout, conflicts: run.status };
+}
+
+export async function mergeCommand(base: string, ours: string, theirs: string, opts: MergeOptions = {}): Promise<void> {
+  if (opts.prefer !== undefined && opts.prefer !== 'ours' && opts.prefer !== 'theirs') {
+    p.log.error(`Unknown --prefer "${opts.prefer}". Use ours or theirs.`);
+    process.exitCode = 1;
+    return;
+  }
+  const prefer = opts.prefer as AotMergeSide | undefined;
+  const target = opts.output ?? ours;
+
+  const read = (file: string): string | null => {
+    try {
+      return fs.readFileSync(file, 'utf-8');
+    } catch (e) {
+      p.log.error(`Cannot read ${file}: ${(e as Error).message}`);
+      return null;
+    }
+  };
+  // git passes an empty base file for a path both branches added.
+  const baseText = read(base);
+  const oursText = read(ours);
+  const theirsText = read(theirs);
+  if (baseText === null || oursText === null || theirsText === null) {
+    process.exitCode = 1;
+    return;
+  }
+
+  const result = mergeAotXml(baseText.trim() === '' ? null : baseText, oursText, theirsText, prefer, true);
+  if (!result) {
+    const byLine = mergeFileByLine(base, ours, theirs, prefer);
+    if (!byLine) {
+      process.exitCode = 1;
+      return;
+    }
+    fs.writeFileSync(target, byLine.text, 'utf-8');
+    if (byLine.conflicts > 0) {
+      p.log.warn(`${ours}: not AOT XML of the same object type on every side — merged by line, ${byLine.conflicts} conflict(s) marked in ${target}.`);
+      process.exitCode = 1;
+    } else if (!opts.json) {
+      p.log.info(`${ours}: not AOT XML of the same object type on every side — merged by line → ${target}`);
+    }
+    return;
+  }
+
+  const unresolved = result.conflicts.length > 0 && !prefer;
+  if (opts.json) {
+    process.stdout.write(`${JSON.stringify({ objectType: result.objectType, objectName: result.objectName, conflicts: result.conflicts }, null, 2)}\n`);
+  } else if (result.conflicts.length > 0) {
+    p.log.warn(`${result.conflicts.length} conflict(s) in ${result.objectType} ${result.objectName}${unresolved ? '' : ` — resolved to ${prefer}`}:`);
+    for (const conflict of result.conflicts) process.stderr.write(`${renderAotMergeConflict(conflict)}\n`);
+  }
+
+  fs.writeFileSync(target, result.merged, 'utf-8');
+  if (unresolved) {
+    p.log.error(`Conflicts marked in ${target}. Resolve them by hand, or re-run with --prefer ours|theirs.`);
+    process.exitCode = 1;
+    return;
+  }
+  if (!opts.json) p.log.info(`Merged ${result.objectType} ${result.objectName} → ${target}`);
+}
@@ -0,0 +1,78 @@
+/**
+ * `d365fo-mcp report <bp|build> <log…>` — a saved xppbp output or xppc log as
+ * SARIF, JUnit XML or JSON, for a pipeline that ran the tools itself.
+ *
+ * The same parsers and the same renderer as run_bp_check / build_d365fo_project
+ * with `outputFormat`, so the Tests and Code Analysis tabs show what an agent
+ * would have been shown. One run per log file, named after the file (or
+ * `--model` for a single one).
+ *
+ * Output goes to stdout, or to `--output`. Exit codes: 0 when the report was
+ * written — the findings are the pipeline's to gate on, through the tab it
+ * publishes them to — and 1 when an argument is wrong or a log is unreadable.
+ */
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { parseXppcDiagnostics } from '../../tools/sdlc/buildProject.js';
+import {
+  bpDiagnostics,
+  DIAGNOSTIC_OUTPUT_FORMATS,
+  isDiagnosticOutputFormat,
+  renderDiagnosticReport,
+  xppcDiagnostics,
+  type DiagnosticRun,
+} from '../../tools/sdlc/diagnosticReport.js';
+import { parseBpFindings } from '../../tools/sdlc/runBpCheck.js';
+import { p } from '../ui.js';
+
+export const REPORT_KINDS = ['bp', 'build'] as const;
+type ReportKind = typeof REPORT_KINDS[number];
+
+interface ReportOptions {
+  format?: string;
+  output?: string;
+  model?: string;
+}
+
+export async function reportCommand(kind: string, logs: string[], opts: ReportOptions = {}): Promise<void> {
+  if (!(REPORT_KINDS as readonly string[]).includes(kind) || logs.length === 0) {
+    p.log.error('Usage: d365fo-mcp report <bp|build> <log...> [--format sarif|junit|json] [--model <name>] [--output <file>]');
+    process.exitCode = 1;
+    return;
+  }
+  const format = opts.format ?? 'sarif';
+  if (!isDiagnosticOutputFormat(format)) {
+    p.log.error(`Unknown format "${opts.format}". Use one of: ${DIAGNOSTIC_OUTPUT_FORMATS.join(', ')}.`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const runs: DiagnosticRun[] = [];
+  for (const log of logs) {
+    let content: string;
+    try {
+      content = fs.readFileSync(log, 'utf-8');
+    } catch (e) {
+      p.log.error(`Cannot read ${log}: ${(e as Error).message}`);
+      process.exitCode = 1;
+      return;
+    }
+    const name = logs.length === 1 && opts.model ? opts.model : path.basename(log, path.extname(log));
+    runs.push({
+      name,
+      diagnostics: (kind as ReportKind) === 'bp'
+        ? bpDiagnostics(parseBpFindings(content), name)
+        : xppcDiagnostics(parseXppcDiagnostics(content), name),
+    });
+  }
+
+  const model = opts.model ?? runs[0].name;
+  const text = renderDiagnosticReport({ tool: kind === 'bp' ? 'xppbp' : 'xppc', model, runs }, format);
+  if (opts.output) {
+    fs.writeFileSync(opts.output, text);
+    const count = runs.reduce((n, r) => n + r.diagnostics.length, 0);
+    p.log.info(`${count} finding(s) from ${runs.length} log(s) → ${opts.output}`);
+  } else {
+    process.stdout.write(text);
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * `d365fo-mcp security-diff <before> <after>` — per-role effective-access diff
+ * between two symbol databases, e.g. copies of the index taken before and after
+ * `build-database` on a platform update or an ISV upgrade.
+ *
+ *   d365fo-mcp security-diff before.db after.db
+ *   d365fo-mcp security-diff before.db after.db --format json -o security-diff.json
+ *
+ * Neither database is written. Exit codes: 0 when the diff was produced —
+ * changed or not, the report is for review — and 1 when a database cannot be
+ * opened or holds no security data.
+ */
+import * as fs from 'node:fs';
+import {
+  diffSecuritySnapshots,
+  formatSecurityDiff,
+  SECURITY_DIFF_FORMATS,
+  type SecurityDiffFormat,
+} from '../security/securityDiff.js';
+import { p } from '../ui.js';
+
+interface SecurityDiffOptions {
+  format?: string;
+  output?: string;
+}
+
+export async function securityDiffCommand(before: string, after: string, opts: SecurityDiffOptions = {}): Promise<void> {
+  const format = (opts.format ?? 'text') as SecurityDiffFormat;
+  if (!SECURITY_DIFF_FORMATS.includes(format)) {
+    p.log.error(`Unknown format "${opts.format}". Use one of: ${SECURITY_DIFF_FORMATS.join(', ')}.`);
+    process.exitCode = 1;
+    return;
+  }
+  for (const file of [before, after]) {
+    if (!fs.existsSync(file)) {
+      p.log.error(`No database at ${file}.`);
+      process.exitCode = 1;
+      return;
+    }
+  }
+
+  let report;
+  try {
+    report = await diffSecuritySnapshots(before, after);
+  } catch (e) {
+    p.log.error((e as Error).message);
+    process.exitCode = 1;
+    return;
+  }
+
+  const text = formatSecurityDiff(report, format);
+  if (opts.output) {
+    fs.writeFileSync(opts.output, text);
+    p.log.info(`${report.roles.length} role(s) with changed access → ${opts.output}`);
+  } else {
+    process.stdout.write(text);
+  }
+}
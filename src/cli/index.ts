@@ -16,6 +16,10 @@
  *   d365fo-mcp start [name]     run the root server or an instance
  *   d365fo-mcp update [--yes]   git pull + npm install + build (+ bridge/index)
  *   d365fo-mcp index [name]     rebuild the metadata index (--all: all instances)
+ *   d365fo-mcp lint [model]     offline BP lint of a whole model (text, JSON or SARIF)
+ *   d365fo-mcp report <kind> …  xppbp output / xppc log → SARIF, JUnit or JSON
+ *   d365fo-mcp merge <b> <o> <t> three-way AOT XML merge by element (git merge driver)
+ *   d365fo-mcp security-diff <a> <b> per-role effective-access diff of two index databases
  *   d365fo-mcp instance …       add | list | run | rebuild | upgrade
  */
 import { Command } from 'commander';
@@ -24,6 +28,10 @@ import { connectCommand } from './commands/connect.js';
 import { doctorCommand } from './commands/doctor.js';
 import { indexCommand } from './commands/indexCmd.js';
 import { instanceAddCommand, instanceListCommand, instanceUpgradeCommand } from './commands/instance.js';
+import { lintCommand } from './commands/lint.js';
+import { mergeCommand } from './commands/merge.js';
+import { reportCommand } from './commands/report.js';
+import { securityDiffCommand } from './commands/securityDiff.js';
 import { sessionCommand } from './commands/session.js';
 import { setupCommand } from './commands/setup.js';
 import { startCommand } from './commands/start.js';
@@ -33,6 +41,9 @@ import { isFullInstall } from './context.js';
 import { VERSION } from '../version.js';
 import { listInstances } from './instances.js';
 import { KNOWN_FORMATS } from './session/sessionLog.js';
+import { LINT_FORMATS } from './lint/modelLint.js';
+import { DIAGNOSTIC_OUTPUT_FORMATS } from '../tools/sdlc/diagnosticReport.js';
+import { SECURITY_DIFF_FORMATS } from './security/securityDiff.js';
 
 const program = new Command();
 
@@ -90,6 +101,46 @@ program.command('index')
   .description('Rebuild the metadata index (extract + build database)')
   .action(indexCommand);
 
+program.command('lint')
+  .argument('[model]', 'model name, or the path of the model folder (default: workspace.modelName)')
+  .option('--format <format>', `${LINT_FORMATS.join(' | ')} (default text)`)
+  .option('--root <dir...>', 'where to look for the model: PackagesLocalDirectory or a repo\'s Metadata folder')
+  .option('-o, --output <file>', 'write the report to a file instead of stdout')
+  .option('-i, --instance <name>', 'read the package paths and rule packs of an instance')
+  .description('Run the validate_code syntax rules over every class, table and form of a model (CI-friendly)')
+  .action((model: string | undefined, opts: { format?: string; root?: string[]; output?: string; instance?: string }) =>
+    lintCommand(model, opts));
+
+program.command('report')
+  .argument('<kind>', 'bp (xppbp output) | build (xppc log)')
+  .argument('<log...>', 'the saved output or log files, one run each')
+  .option('--format <format>', `${DIAGNOSTIC_OUTPUT_FORMATS.join(' | ')} (default sarif)`)
+  .option('-m, --model <name>', 'model the report is about (default: the log file\'s name)')
+  .option('-o, --output <file>', 'write the report to a file instead of stdout')
+  .description('Convert BP check or build output into a pipeline report for the Tests / Code Analysis tabs')
+  .action((kind: string, logs: string[], opts: { format?: string; model?: string; output?: string }) =>
+    reportCommand(kind, logs, opts));
+
+program.command('merge')
+  .argument('<base>', 'common ancestor (git: %O; empty when both branches added the file)')
+  .argument('<ours>', 'our version — replaced by the result (git: %A)')
+  .argument('<theirs>', 'their version (git: %B)')
+  .option('-o, --output <file>', 'write the result here instead of over <ours>')
+  .option('--prefer <side>', 'ours | theirs — resolve every conflict to this side')
+  .option('--json', 'print the conflicts as JSON')
+  .description('Three-way merge of an AOT XML file by element — usable as a git merge driver')
+  .action((base: string, ours: string, theirs: string, opts: { output?: string; prefer?: string; json?: boolean }) =>
+    mergeCommand(base, ours, theirs, opts));
+
+program.command('security-diff')
+  .argument('<before>', 'symbol database before the change (a copy of xpp-metadata.db)')
+  .argument('<after>', 'symbol database after the change')
+  .option('--format <format>', `${SECURITY_DIFF_FORMATS.join(' | ')} (default text)`)
+  .option('-o, --output <file>', 'write the report to a file instead of stdout')
+  .description('Per-role effective-access diff between two index builds: entry points gained, lost or regranted')
+  .action((before: string, after: string, opts: { format?: string; output?: string }) =>
+    securityDiffCommand(before, after, opts));
+
 const instance = program.command('instance').description('Manage multi-instance setups (Scenario F)');
 instance.command('add')
   .argument('[name]', 'instance name')
@@ -0,0 +1,163 @@
+/**
+ * Offline lint of a whole model — the validate_code(mode="syntax") rules run
+ * over every class, table and form of a model on disk, for CI agents where
+ * xppbp.exe is not available.
+ *
+ * Each object's XML goes through runRules as `xml-table`: the X++ rules see the
+ * method sources at their own offsets (so a line is a line of the file), as
+ * members of the class the <Declaration> opens — so the CoC rules fire on an
+ * [ExtensionOf] class — and the table-only XML rules gate themselves on
+ * `<AxTable>`, so they stay quiet on a class or a form. Rule packs run too,
+ * scoped to the model as at write time.
+ */
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { runRules, type ValidationViolation } from '../../tools/analysis/validateXpp.js';
+import { loadRulePacks, type RulePackSource } from '../../tools/analysis/rulePacks.js';
+import { PackageResolver } from '../../utils/packageResolver.js';
+import { toSarifLog } from '../../utils/sarif.js';
+import { VERSION } from '../../version.js';
+
+/** The AOT folders whose objects are linted. */
+export const LINTED_FOLDERS = ['AxClass', 'AxTable', 'AxForm'] as const;
+
+export type LintFormat = 'sarif' | 'json' | 'text';
+export const LINT_FORMATS: readonly LintFormat[] = ['sarif', 'json', 'text'];
+
+export interface LintFinding extends ValidationViolation {
+  /** Absolute path of the object's XML. */
+  file: string;
+}
+
+export interface ModelLintReport {
+  model: string;
+  modelDir: string;
+  /** Object files read. */
+  files: number;
+  findings: LintFinding[];
+  /** Rule packs, or files, that were skipped — and why. */
+  problems: string[];
+}
+
+/**
+ * The model's folder: `model` itself when it is a directory that holds one of
+ * the linted folders, otherwise `<root>/<package>/<model>` from the first root
+ * that has it (descriptor first, then folder scan — see PackageResolver).
+ */
+export async function resolveModelDir(model: string, roots: string[]): Promise<string | null> {
+  const direct = path.resolve(model);
+  if (LINTED_FOLDERS.some(folder => fs.existsSync(path.join(direct, folder)))) return direct;
+  const resolved = await new PackageResolver(roots).resolve(model);
+  if (!resolved) return null;
+  const dir = path.join(resolved.rootPath, resolved.packageName, resolved.modelName);
+  return fs.existsSync(dir) ? dir : null;
+}
+
+/** Every object XML of the linted folders, folder by folder, each in name order. */
+export function modelObjectFiles(modelDir: string): string[] {
+  const files: string[] = [];
+  for (const folder of LINTED_FOLDERS) {
+    let names: string[];
+    try {
+      names = fs.readdirSync(path.join(modelDir, folder));
+    } catch {
+      continue;
+    }
+    for (const name of names.filter(n => n.toLowerCase().endsWith('.xml')).sort()) {
+      files.push(path.join(modelDir, folder, name));
+    }
+  }
+  return files;
+}
+
+export function lintModel(model: string, modelDir: string, packSource?: RulePackSource): ModelLintReport {
+  const packs = loadRulePacks(model, packSource);
+  const findings: LintFinding[] = [];
+  const problems = [...packs.problems];
+  const files = modelObjectFiles(modelDir);
+  for (const file of files) {
+    let xml: string;
+    try {
+      // Visual Studio saves the metadata with a byte-order mark.
+      xml = fs.readFileSync(file, 'utf8').replace(/^\uFEFF/, '');
+    } catch (err) {
+      problems.push(`${file}: ${err instanceof Error ? err.message : String(err)}`);
+      continue;
+    }
+    const violations = runRules(xml, 'xml-table', undefined, packs.rules);
+    // Rule order is the order the rules run in; a reader goes down the file.
+    for (const violation of violations.sort((a, b) => (a.line ?? 0) - (b.line ?? 0))) {
+      findings.push({ ...violation, file });
+    }
+  }
+  return { model, modelDir, files: files.length, findings, problems };
+}
+
+// Output
+
+export function formatSarif(report: ModelLintReport, baseDir: string): string {
+  const ruleDescriptions: Record<string, string> = {};
+  for (const f of report.findings) ruleDescriptions[f.rule] ??= f.fix;
+  const log = toSarifLog(
+    report.findings.map(f => ({
+      ruleId: f.rule,
+      level: f.severity,
+      message: `${f.excerpt ? `${f.excerpt} — ` : ''}${f.fix}`,
+      file: f.file,
+      line: f.line,
+    })),
+    {
+      name: 'd365fo-mcp lint',
+      version: VERSION,
+      informationUri: 'https://github.com/dynamics365ninja/d365fo-mcp-server',
+      ruleDescriptions,
+    },
+    baseDir,
+  );
+  return `${JSON.stringify(log, null, 2)}\n`;
+}
+
+/**
+ * The tracking contract, as for `session --json`: schemaVersion changes when a
+ * consumer would have to be updated.
+ */
+export function formatJson(report: ModelLintReport, baseDir: string): string {
+  return `${JSON.stringify({
+    schemaVersion: 1,
+    model: report.model,
+    modelDir: report.modelDir,
+    files: report.files,
+    errors: report.findings.filter(f => f.severity === 'error').length,
+    warnings: report.findings.filter(f => f.severity === 'warning').length,
+    findings: report.findings.map(f => ({ ...f, file: displayPath(f.file, baseDir) })),
+    problems: report.problems,
+  }, null, 2)}\n`;
+}
+
+/** One line per finding, `file(line): severity RULE: excerpt`, the shape compilers print. */
+export function formatText(report: ModelLintReport, baseDir: string): string {
+  const lines = report.findings.map(f =>
+    `${displayPath(f.file, baseDir)}${f.line ? `(${f.line})` : ''}: ${f.severity} ${f.rule}: ` +
+    `${f.excerpt ? `${f.excerpt} — ` : ''}${f.fix}`,
+  );
+  for (const problem of report.problems) lines.push(`skipped: ${problem}`);
+  const errors = report.findings.filter(f => f.severity === 'error').length;
+  lines.push(
+    `${report.model}: ${report.files} object(s), ${errors} error(s), ` +
+    `${report.findings.length - errors} warning(s).`,
+  );
+  return `${lines.join('\n')}\n`;
+}
+
+function displayPath(file: string, baseDir: string): string {
+  const relative = path.relative(baseDir, file);
+  return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative : file;
+}
+
+export function formatReport(report: ModelLintReport, format: LintFormat, baseDir: string): string {
+  switch (format) {
+    case 'sarif': return formatSarif(report, baseDir);
+    case 'json': return formatJson(report, baseDir);
+    case 'text': return formatText(report, baseDir);
+  }
+}
@@ -0,0 +1,292 @@
+/**
+ * Security diff between two symbol databases — what a platform update, an ISV
+ * upgrade or a rebuild changed in who can reach what.
+ *
+ * Each side is loaded as the Role → Duty → Privilege → Entry point graph the
+ * SoD check walks (security_info(mode="sod")), extensions folded in. Every
+ * role's effective access is the union of the grants on every entry point it
+ * reaches, and the two are compared role by role: entry points newly reachable,
+ * no longer reachable, and reachable with other grants. The structural changes
+ * behind them — privileges a duty gained or lost, duties a role gained or lost,
+ * entry points a privilege gained or lost — are listed underneath.
+ *
+ * What role files (direct privileges, sub-roles) and role and duty extensions
+ * add comes from each database's security_links rows, written when it was
+ * built — never from the XML on disk, which is the "after" state for both
+ * sides when two snapshots of one machine are compared. A database built
+ * before security_links has no such rows; then those links are left out of
+ * both sides, and the report says so, rather than compared one-sided.
+ * Entry-point license types are not indexed; write grants gained are flagged as
+ * the changes that usually move a role's license requirement.
+ */
+import Database from '../../database/sqlite.js';
+import { grantsOf, sortGrants } from '../../tools/readers/securityMatrixInfo.js';
+import {
+  loadSecurityGraph, roleAndSubRoles, type SecurityGraph, type SecurityLinkSource,
+} from '../../tools/readers/securitySodInfo.js';
+
+export type SecurityDiffFormat = 'text' | 'json';
+export const SECURITY_DIFF_FORMATS: readonly SecurityDiffFormat[] = ['text', 'json'];
+
+/** Grants beyond reading — the ones that lift a user license from view to maintain. */
+const WRITE_PERMISSIONS = new Set(['Update', 'Create', 'Correct', 'Delete']);
+
+export interface EntryPointAccess {
+  entryPoint: string;
+  objectType: string;
+  grants: string[];
+}
+
+export interface EntryPointAccessChange {
+  entryPoint: string;
+  objectType: string;
+  before: string[];
+  after: string[];
+}
+
+export interface RoleAccessDiff {
+  role: string;
+  model: string;
+  status: 'added' | 'removed' | 'changed';
+  gained: EntryPointAccess[];
+  lost: EntryPointAccess[];
+  changed: EntryPointAccessChange[];
+  /** A write grant this role did not have before, on any entry point. */
+  gainsWrite: boolean;
+}
+
+/** Members one security object gained and lost. */
+export interface MemberDiff {
+  name: string;
+  added: string[];
+  removed: string[];
+}
+
+export interface SecuritySnapshotSummary {
+  path: string;
+  roles: number;
+  /** The database holds the role-file and extension links (security_links). */
+  linksIndexed: boolean;
+}
+
+export interface SecurityDiffReport {
+  before: SecuritySnapshotSummary;
+  after: SecuritySnapshotSummary;
+  roles: RoleAccessDiff[];
+  /** Duty → privileges. */
+  duties: MemberDiff[];
+  /** Role → duties, privileges granted to the role directly and sub-roles. */
+  roleMembers: MemberDiff[];
+  /** Privilege → entry points with their grants. */
+  privileges: MemberDiff[];
+  /**
+   * Role-file and extension links are in both graphs. False when either
+   * database predates security_links: they are then left out of both.
+   */
+  linksCompared: boolean;
+}
+
+const entryKey = (objectType: string, entryPoint: string) => `${objectType}\0${entryPoint}`;
+
+/**
+ * Every entry point a role reaches, through its duties, its own privileges and
+ * those of its sub-roles, with the union of the grants.
+ */
+export function effectiveAccess(graph: SecurityGraph, role: string): Map<string, EntryPointAccess> {
+  const out = new Map<string, EntryPointAccess>();
+  const privileges = roleAndSubRoles(graph, role).flatMap(member => [
+    ...(graph.roleDuties.get(member.role) ?? []).flatMap(duty => graph.dutyPrivileges.get(duty.name) ?? []),
+    ...(graph.rolePrivileges.get(member.role) ?? []),
+  ]);
+  for (const privilege of new Set(privileges.map(p => p.name))) {
+    for (const ep of graph.privilegeEntries.get(privilege) ?? []) {
+      const key = entryKey(ep.object_type ?? '', ep.entry_point_name);
+      const current = out.get(key);
+      const grants = grantsOf(ep.access_level);
+      if (current) current.grants = sortGrants([...current.grants, ...grants]);
+      else out.set(key, { entryPoint: ep.entry_point_name, objectType: ep.object_type ?? '', grants });
+    }
+  }
+  return out;
+}
+
+const byEntryPoint = <T extends { entryPoint: string; objectType: string }>(a: T, b: T) =>
+  a.entryPoint.localeCompare(b.entryPoint) || a.objectType.localeCompare(b.objectType);
+
+function diffRole(role: string, before: SecurityGraph, after: SecurityGraph): RoleAccessDiff | null {
+  const inBefore = before.roles.has(role);
+  const inAfter = after.roles.has(role);
+  const was = inBefore ? effectiveAccess(before, role) : new Map<string, EntryPointAccess>();
+  const now = inAfter ? effectiveAccess(after, role) : new Map<string, EntryPointAccess>();
+
+  const gained = [...now].filter(([key]) => !was.has(key)).map(([, access]) => access).sort(byEntryPoint);
+  const lost = [...was].filter(([key]) => !now.has(key)).map(([, access]) => access).sort(byEntryPoint);
+  const changed: EntryPointAccessChange[] = [];
+  for (const [key, access] of now) {
+    const previous = was.get(key);
+    if (previous && previous.grants.join() !== access.grants.join()) {
+      changed.push({ entryPoint: access.entryPoint, objectType: access.objectType, before: previous.grants, after: access.grants });
+    }
+  }
+  changed.sort(byEntryPoint);
+  if (inBefore && inAfter && gained.length === 0 && lost.length === 0 && changed.length === 0) return null;
+
+  const gainsWrite = gained.some(a => a.grants.some(g => WRITE_PERMISSIONS.has(g)))
+    || changed.some(c => c.after.some(g => WRITE_PERMISSIONS.has(g) && !c.before.includes(g)));
+  return {
+    role,
+    model: after.roles.get(role) || before.roles.get(role) || '',
+    status: !inBefore ? 'added' : !inAfter ? 'removed' : 'changed',
+    gained,
+    lost,
+    changed,
+    gainsWrite,
+  };
+}
+
+/** Added and removed members per key, over the keys of both maps. */
+function diffMembers(before: Map<string, string[]>, after: Map<string, string[]>): MemberDiff[] {
+  const out: MemberDiff[] = [];
+  for (const name of [...new Set([...before.keys(), ...after.keys()])].sort((a, b) => a.localeCompare(b))) {
+    const was = new Set(before.get(name) ?? []);
+    const now = new Set(after.get(name) ?? []);
+    const added = [...now].filter(m => !was.has(m)).sort((a, b) => a.localeCompare(b));
+    const removed = [...was].filter(m => !now.has(m)).sort((a, b) => a.localeCompare(b));
+    if (added.length > 0 || removed.length > 0) out.push({ name, added, removed });
+  }
+  return out;
+}
+
+const names = (map: Map<string, Array<{ name: string }>>) =>
+  new Map([...map].map(([key, list]) => [key, list.map(g => g.name)]));
+
+function roleMembersOf(graph: SecurityGraph): Map<string, string[]> {
+  const out = names(graph.roleDuties);
+  for (const [role, privileges] of graph.rolePrivileges) {
+    out.set(role, [...(out.get(role) ?? []), ...privileges.map(p => `privilege ${p.name}`)]);
+  }
+  for (const [role, subRoles] of graph.subRoles) {
+    out.set(role, [...(out.get(role) ?? []), ...subRoles.map(r => `sub-role ${r.name}`)]);
+  }
+  return out;
+}
+
+const privilegeEntriesOf = (graph: SecurityGraph) => new Map([...graph.privilegeEntries].map(([privilege, entries]) => [
+  privilege,
+  entries.map(ep => `${ep.entry_point_name} (${ep.object_type || '?'}) ${grantsOf(ep.access_level).join(', ') || 'no grant'}`),
+]));
+
+/** The two graphs compared — per-role effective access first, then the structure behind it. */
+export function diffSecurityGraphs(
+  before: SecurityGraph,
+  after: SecurityGraph,
+  summaries: { before: SecuritySnapshotSummary; after: SecuritySnapshotSummary },
+): SecurityDiffReport {
+  const roles = [...new Set([...before.roles.keys(), ...after.roles.keys()])]
+    .sort((a, b) => a.localeCompare(b))
+    .map(role => diffRole(role, before, after))
+    .filter((d): d is RoleAccessDiff => d !== null);
+  return {
+    ...summaries,
+    linksCompared: summaries.before.linksIndexed && summaries.after.linksIndexed,
+    roles,
+    duties: diffMembers(names(before.dutyPrivileges), names(after.dutyPrivileges)),
+    roleMembers: diffMembers(roleMembersOf(before), roleMembersOf(after)),
+    privileges: diffMembers(privilegeEntriesOf(before), privilegeEntriesOf(after)),
+  };
+}
+
+/**
+ * One database's security graph, the role-file and extension links taken from
+ * its own security_links rows (or left out with links='none'). Throws when the
+ * file does not open or holds no role → duty rows: an index built without
+ * security metadata would otherwise read as "every role lost everything".
+ */
+export async function loadSecuritySnapshot(
+  dbPath: string,
+  links: SecurityLinkSource = 'index',
+): Promise<{ graph: SecurityGraph; summary: SecuritySnapshotSummary }> {
+  const db = new Database(dbPath, { readonly: true });
+  try {
+    const { graph, indexedRoleDuties, linksIndexed } = await loadSecurityGraph(db, links);
+    if (indexedRoleDuties === 0) {
+      throw new Error(`${dbPath} has no role → duty rows — it was built without security metadata (AxSecurityRole/Duty/Privilege).`);
+    }
+    return { graph, summary: { path: dbPath, roles: graph.roles.size, linksIndexed } };
+  } finally {
+    db.close();
+  }
+}
+
+export async function diffSecuritySnapshots(beforePath: string, afterPath: string): Promise<SecurityDiffReport> {
+  let before = await loadSecuritySnapshot(beforePath);
+  let after = await loadSecuritySnapshot(afterPath);
+  // One side without links would show all of them as gained or lost.
+  if (before.summary.linksIndexed !== after.summary.linksIndexed) {
+    if (before.summary.linksIndexed) before = { ...(await loadSecuritySnapshot(beforePath, 'none')), summary: before.summary };
+    else after = { ...(await loadSecuritySnapshot(afterPath, 'none')), summary: after.summary };
+  }
+  return diffSecurityGraphs(before.graph, after.graph, { before: before.summary, after: after.summary });
+}
+
+const access = (a: EntryPointAccess) => `${a.entryPoint} [${a.objectType || '?'}] ${a.grants.join(', ') || 'no grant'}`;
+
+function memberSection(title: string, diffs: MemberDiff[]): string {
+  if (diffs.length === 0) return '';
+  let out = `\n${title}\n`;
+  for (const d of diffs) {
+    out += `  ${d.name}\n`;
+    for (const m of d.added) out += `    + ${m}\n`;
+    for (const m of d.removed) out += `    − ${m}\n`;
+  }
+  return out;
+}
+
+export function formatSecurityDiffText(report: SecurityDiffReport): string {
+  const added = report.roles.filter(r => r.status === 'added').length;
+  const removed = report.roles.filter(r => r.status === 'removed').length;
+  const changed = report.roles.filter(r => r.status === 'changed').length;
+  const writers = report.roles.filter(r => r.gainsWrite && r.status !== 'removed');
+
+  let out = `Security diff: ${report.before.path} → ${report.after.path}\n`;
+  out += `Roles: ${report.before.roles} → ${report.after.roles} (${added} added, ${removed} removed); ` +
+    `${changed} existing role(s) with changed effective access.\n`;
+  if (!report.linksCompared) {
+    const older = [report.before, report.after].filter(side => !side.linksIndexed).map(side => side.path);
+    out += `⚠️ ${older.join(' and ')} predate${older.length === 1 ? 's' : ''} the security_links table — privileges ` +
+      'granted on a role directly, sub-roles and role/duty extensions are left out of BOTH sides and NOT compared. ' +
+      'Rebuild the database to compare them.\n';
+  }
+  if (writers.length > 0) {
+    out += `⚠️ Write access gained by ${writers.length} role(s): ${writers.map(r => r.role).join(', ')}. ` +
+      'Entry-point license types are not indexed — check the license impact of these before deploying.\n';
+  }
+  if (report.roles.length === 0 && report.duties.length === 0 && report.roleMembers.length === 0 && report.privileges.length === 0) {
+    out += '\nNo security change.\n';
+  }
+
+  if (report.roles.length > 0) {
+    out += '\nEffective access by role\n';
+    for (const r of report.roles) {
+      const status = r.status === 'added' ? ' — new role' : r.status === 'removed' ? ' — role removed' : '';
+      out += `  ${r.role}${r.model ? ` (${r.model})` : ''}${status}${r.gainsWrite && r.status !== 'removed' ? ' ⚠️ write' : ''}\n`;
+      if (r.status === 'removed') {
+        out += `    − ${r.lost.length} entry point(s) no longer reachable\n`;
+        continue;
+      }
+      for (const a of r.gained) out += `    + ${access(a)}\n`;
+      for (const a of r.lost) out += `    − ${access(a)}\n`;
+      for (const c of r.changed) {
+        out += `    ~ ${c.entryPoint} [${c.objectType || '?'}] ${c.before.join(', ') || 'no grant'} → ${c.after.join(', ') || 'no grant'}\n`;
+      }
+    }
+  }
+  out += memberSection('Duties → privileges', report.duties);
+  out += memberSection('Roles → duties, privileges and sub-roles', report.roleMembers);
+  out += memberSection('Privileges → entry points', report.privileges);
+  return out;
+}
+
+export function formatSecurityDiff(report: SecurityDiffReport, format: SecurityDiffFormat): string {
+  return format === 'json' ? `${JSON.stringify(report, null, 2)}\n` : formatSecurityDiffText(report);
+}
@@ -809,6 +809,20 @@ export const SETTINGS: Setting[] = [
       'before generating code. Strongly recommended for agent use; adds one extra call per write.',
     default: false,
   },
+  {
+    path: 'behavior.rulePacks',
+    env: 'D365FO_RULE_PACKS',
+    section: 'behavior',
+    tier: 'advanced',
+    type: 'list',
+    label: 'Custom validation rule packs',
+    description:
+      'Comma-separated rule-pack files or directories (JSON, or TS/JS with a default export), relative to the ' +
+      'workspace. Their rules run next to the built-in ones in validate_code(mode="syntax") and on every X++ write; ' +
+      'each pack can enable or disable itself, or single rules, per model. Unset, `.d365fo-mcp/rules/` in the ' +
+      'workspace is used when it exists. Format: [Rule packs](RULE_PACKS.md).',
+    placeholder: 'tools/d365-rules,tools/naming.rules.json',
+  },
 
   // ── azure ────────────────────────────────────────────────────────────────
   {
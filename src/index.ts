@@ -8,7 +8,7 @@
 // evaluated before the configuration exists (see src/bootstrapEnv.ts).
 import './bootstrapEnv.js';
 import { fileURLToPath } from 'url';
-import { dirname, resolve } from 'path';
+import { dirname, join, resolve } from 'path';
 import express from 'express';
 import compression from 'compression';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
@@ -28,6 +28,7 @@ import { setInitializeParams } from './utils/stdioSessionInfo.js';
 import { setModelObjectNameSource } from './utils/modelPrefixInference.js';
 import { trackBridgeStartup } from './bridge/bridgeReadiness.js';
 import { createShutdownCoordinator } from './utils/gracefulShutdown.js';
+import { setChangeJournalRoot } from './workspace/changeJournal.js';
 import { box, kv, sectionTitle, statusLine, spread, c, glyph, sanitize, supportsUnicode, log, shortPath, startupWarnings } from './utils/terminalUi.js';
 import * as fs from 'fs/promises';
 import * as fsSync from 'node:fs';
@@ -184,6 +185,9 @@ const shutdownCoordinator = createShutdownCoordinator({
 const onShutdown = shutdownCoordinator.onShutdown;
 
 async function initializeServices() {
+  // The undo journal lives next to the databases, so it survives a restart with them.
+  setChangeJournalRoot(join(dirname(DB_PATH), 'journal'));
+
   // -----------------------------------------------------------------------
   // write-only mode: skip all database/symbol work — the LOCAL_TOOLS set
   // (src/server/serverMode.ts; d365fo_file, build_d365fo_project,
@@ -823,7 +827,7 @@ async function main() {
           { name: 'search',                       desc: 'Search 584K+ symbols: single, batch (queries[]) or scope=extensions' },
         ]},
         { icon: '🏷️ ', category: 'Label Management', tools: [
-          { name: 'labels',                       desc: 'Unified label ops: action=search|info|create|rename (read/write)' },
+          { name: 'labels',                       desc: 'Unified label ops: action=search|info|create|rename|gaps|audit|extract (read/write)' },
         ]},
         { icon: '📊', category: 'Advanced Object Info', tools: [
           { name: 'get_object_info',              desc: 'Read one object (objectType, name) or many in one call (objects[]): class/table/form/query/view/enum/edt/report/data-entity/menu-item/service/map/config-key/security-policy/macro' },
@@ -831,7 +835,7 @@ async function main() {
         ]},
         { icon: '🧠', category: 'Intelligent Code Generation', tools: [
           { name: 'get_knowledge',                desc: 'kind=knowledge|error — X++ rulebook/patterns or D365FO error diagnosis' },
-          { name: 'analyze_code',                 desc: 'Learn from the codebase: mode=patterns|implementations|completeness|api-usage' },
+          { name: 'analyze_code',                 desc: 'Learn from the codebase: mode=patterns|implementations|completeness|api-usage|impact' },
         ]},
         { icon: '🎨', category: 'Smart Object Generation', tools: [
           { name: 'generate_object',                     desc: 'mode=pattern (named X++ skeleton) | scaffold (whole table/form/report)' },
@@ -843,7 +847,7 @@ async function main() {
           { name: 'object_patterns',                     desc: 'domain=table|form — table field/index patterns, or form-pattern toolkit (analyze/spec/validate)' },
         ]},
         { icon: '🔐', category: 'Security & Extensions', tools: [
-          { name: 'security_info',                desc: 'mode=artifact|coverage — Privilege/Duty/Role chain, or who can access an object' },
+          { name: 'security_info',                desc: 'mode=artifact|coverage|sod|matrix — Privilege/Duty/Role chain, who can access an object, SoD conflicts, or a role\'s permission matrix' },
           { name: 'extension_info',                desc: 'mode=coc|events|table-merge|points|strategy — CoC/event-handler/extension analysis + strategy advice' },
           { name: 'validate_object_naming',       desc: 'Validate proposed extensions and object names against D365FO conventions' },
           { name: 'get_workspace_info',           desc: 'Detected workspace paths, model name, project file, and server mode' },
@@ -858,7 +862,7 @@ async function main() {
         ]},
         { icon: '🔄', category: 'Code Review & Source Control', tools: [
           { name: 'review_workspace_changes',     desc: 'AI-based D365FO code review on uncommitted X++ changes (git diff)' },
-          { name: 'undo_last_modification',       desc: 'Safely revert last file change: checkout HEAD or delete untracked file' },
+          { name: 'undo_last_modification',       desc: 'Undo the last N writes or back to a checkpoint (durable journal), or git-revert one file' },
         ]},
         { icon: '🧪', category: 'Code Quality & Grounding', tools: [
           { name: 'validate_code',                     desc: 'mode=syntax (offline BP validator, SEL/COC/BP/TTS/XML) | references (semantic symbol resolver vs index)' },
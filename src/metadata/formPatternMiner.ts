@@ -88,6 +88,13 @@ const PROPERTY_KEYS = [
   'ShowRowLabels',
   'WidthMode',
   'HeightMode',
+  // Tile buttons on a workspace name the AxTile they render; indexed so a
+  // tile can list the workspaces that place it.
+  'Tile',
+  // Menu function buttons and form parts open a menu item — the entry point
+  // security grants, and (for a part) the route to the part form.
+  'MenuItemName',
+  'MenuItemType',
 ];
 
 function asString(value: unknown): string | undefined {
@@ -111,9 +111,13 @@ export function parseLabelFile(
 /**
  * Discover all AxLabelFile resources for a model.
  * Returns an array of { labelFileId, language, filePath }.
+ *
+ * `allLanguages` ignores LABEL_LANGUAGES — that setting sizes the index, and a
+ * caller comparing the files on disk needs every locale the model ships.
  */
 export async function discoverLabelFiles(
   modelDir: string,  // e.g. K:\AosService\PackagesLocalDirectory\MyPackage\MyModel
+  opts?: { allLanguages?: boolean },
 ): Promise<Array<{ labelFileId: string; language: string; filePath: string }>> {
   const results: Array<{ labelFileId: string; language: string; filePath: string }> = [];
 
@@ -128,7 +132,7 @@ export async function discoverLabelFiles(
 
   // Restrict indexing to configured languages to keep the label table small; LABEL_LANGUAGES=all indexes everything.
   const langConfig = process.env.LABEL_LANGUAGES || DEFAULT_LABEL_LANGUAGES;
-  const SUPPORTED_LANGUAGES = langConfig.toLowerCase() === 'all'
+  const SUPPORTED_LANGUAGES = opts?.allLanguages || langConfig.toLowerCase() === 'all'
     ? null  // null = index all languages
     : new Set(langConfig.split(',').map(l => l.trim()));
 
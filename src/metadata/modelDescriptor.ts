@@ -30,6 +30,38 @@ export function parseModuleReferences(descriptorXml: string): string[] {
     .filter(Boolean);
 }
 
+/**
+ * `packageName` appended to a descriptor's `<ModuleReferences>`, in the
+ * indentation of the entries already there. The descriptor comes back unchanged
+ * when it already lists the package (any case), and null when it has no
+ * `<ModuleReferences>` element to add to — a descriptor this cannot read is not
+ * one to rewrite.
+ */
+export function addModuleReference(descriptorXml: string, packageName: string): string | null {
+  if (parseModuleReferences(descriptorXml).some(r => r.toLowerCase() === packageName.toLowerCase())) {
+    return descriptorXml;
+  }
+  const entry = (indent: string) => `${indent}<d2p1:string>${packageName}</d2p1:string>`;
+  const last = /([ \t]*)<d2p1:string>[^<]*<\/d2p1:string>(?![\s\S]*<d2p1:string>)/.exec(descriptorXml);
+  if (last) {
+    const at = last.index + last[0].length;
+    const eol = descriptorXml.includes('\r\n') ? '\r\n' : '\n';
+    return descriptorXml.slice(0, at) + eol + entry(last[1]) + descriptorXml.slice(at);
+  }
+  // No entries yet: `<ModuleReferences … />` or an empty element.
+  const element = /([ \t]*)<ModuleReferences\b([^>]*?)\s*(\/>|>\s*<\/ModuleReferences>)/.exec(descriptorXml);
+  if (!element) return null;
+  const [whole, indent, attrs] = element;
+  const eol = descriptorXml.includes('\r\n') ? '\r\n' : '\n';
+  const ns = attrs.includes('xmlns:d2p1') || /<AxModelInfo\b[^>]*xmlns:d2p1/.test(descriptorXml)
+    ? attrs
+    : `${attrs} xmlns:d2p1="http://schemas.microsoft.com/2003/10/Serialization/Arrays"`;
+  const child = indent.includes('\t') ? `${indent}\t` : `${indent}  `;
+  return descriptorXml.slice(0, element.index) +
+    `${indent}<ModuleReferences${ns}>${eol}${entry(child)}${eol}${indent}</ModuleReferences>` +
+    descriptorXml.slice(element.index + whole.length);
+}
+
 /**
  * Read a model's direct module references, or null when it has no readable
  * descriptor — which callers must treat as unknown, never as "references nothing".
@@ -73,7 +105,7 @@ export interface ModelVisibility {
  * layout and costs one stat; ISV models inside a differently-named package fall
  * back to a single bounded sweep of the root's package folders.
  */
-function findDescriptor(packagesRoot: string, modelName: string): { file: string; pkg: string } | null {
+export function findModelDescriptor(packagesRoot: string, modelName: string): { file: string; pkg: string } | null {
   const direct = path.join(packagesRoot, modelName, 'Descriptor', `${modelName}.xml`);
   if (existsSync(direct)) return { file: direct, pkg: modelName };
   let entries: string[];
@@ -117,7 +149,7 @@ export function buildModelVisibility(
   modelName: string | null | undefined,
 ): ModelVisibility | null {
   if (!packagesRoot || !modelName) return null;
-  const found = findDescriptor(packagesRoot, modelName);
+  const found = findModelDescriptor(packagesRoot, modelName);
   if (!found) return null;
 
   let refs: string[];
@@ -43,6 +43,18 @@ export interface ExtensionMetadataRecord {
   model: string;
 }
 
+/** The links one security object's own file, or one extension of it, adds — see security_links. */
+export interface SecurityLinksRecord {
+  ownerType: 'role' | 'duty';
+  ownerName: string;
+  /** The extension the links come from; absent for the object's own file. */
+  via?: string;
+  duties?: string[];
+  privileges?: string[];
+  subRoles?: string[];
+  model: string;
+}
+
 export class XppSymbolIndex {
   public db: Database; // Public for direct pragma access in build scripts
   public labelsDb: Database; // Separate DB for labels (performance optimization)
@@ -628,6 +640,25 @@ export class XppSymbolIndex {
       CREATE INDEX IF NOT EXISTS idx_srd_model ON security_role_duties(model);
     `);
 
+    // Security links the two tables above do not hold: privileges granted on a
+    // role directly and its sub-roles, from the role file, and the duties,
+    // privileges and sub-roles a role or duty extension adds (via = the
+    // extension). Stored at build time so each database keeps its own copy —
+    // security-diff compares two builds without reading today's XML into both.
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS security_links (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        owner_type TEXT NOT NULL,
+        owner_name TEXT NOT NULL,
+        link_type TEXT NOT NULL,
+        member_name TEXT NOT NULL,
+        via TEXT,
+        model TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_sl_owner ON security_links(owner_name);
+      CREATE INDEX IF NOT EXISTS idx_sl_model ON security_links(model);
+    `);
+
     // Menu item targets
 
     this.db.exec(`
@@ -770,6 +801,141 @@ export class XppSymbolIndex {
       CREATE INDEX IF NOT EXISTS idx_md_model ON macro_defines(model);
     `);
 
+    // Workflow types
+    // AxWorkflowType → document class, category and driving menu items. Indexed
+    // by document class and submit menu item so "which workflow type uses this
+    // document / submit action" is one lookup instead of a disk scan.
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS workflow_types (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        type_name TEXT NOT NULL,
+        category TEXT,
+        document_class TEXT,
+        document_menu_item TEXT,
+        submit_menu_item TEXT,
+        cancel_menu_item TEXT,
+        resubmit_menu_item TEXT,
+        event_handlers TEXT,
+        label TEXT,
+        model TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_wft_type ON workflow_types(type_name);
+      CREATE INDEX IF NOT EXISTS idx_wft_document ON workflow_types(document_class);
+      CREATE INDEX IF NOT EXISTS idx_wft_submit ON workflow_types(submit_menu_item);
+      CREATE INDEX IF NOT EXISTS idx_wft_model ON workflow_types(model);
+    `);
+
+    // Workflow elements
+    // AxWorkflowApproval / AxWorkflowTask → their document class, event handlers
+    // and outcomes (each outcome is bound to an action menu item), plus the
+    // AxWorkflowType supported-element links that attach them to a type.
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS workflow_elements (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        element_name TEXT NOT NULL,
+        element_kind TEXT NOT NULL,
+        document_class TEXT,
+        event_handlers TEXT,
+        outcomes TEXT,
+        label TEXT,
+        model TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_wfe_element ON workflow_elements(element_name);
+      CREATE INDEX IF NOT EXISTS idx_wfe_model ON workflow_elements(model);
+
+      CREATE TABLE IF NOT EXISTS workflow_type_elements (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        type_name TEXT NOT NULL,
+        element_name TEXT NOT NULL,
+        element_type TEXT,
+        model TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_wfte_type ON workflow_type_elements(type_name);
+      CREATE INDEX IF NOT EXISTS idx_wfte_element ON workflow_type_elements(element_name);
+      CREATE INDEX IF NOT EXISTS idx_wfte_model ON workflow_type_elements(model);
+    `);
+
+    // Tiles and KPIs
+    // AxTile → the menu item it opens, the query it counts and the KPI it shows;
+    // AxKPI → the aggregate measurement and Measure/MeasureGroup it scores.
+    // form_tile_controls records each tile button on a form, which is how a
+    // workspace places a tile — the tile itself carries no layout.
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS tiles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        tile_name TEXT NOT NULL,
+        tile_type TEXT,
+        menu_item_name TEXT,
+        menu_item_type TEXT,
+        query_name TEXT,
+        kpi_name TEXT,
+        size TEXT,
+        label TEXT,
+        model TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_tiles_name ON tiles(tile_name);
+      CREATE INDEX IF NOT EXISTS idx_tiles_menu_item ON tiles(menu_item_name);
+      CREATE INDEX IF NOT EXISTS idx_tiles_query ON tiles(query_name);
+      CREATE INDEX IF NOT EXISTS idx_tiles_model ON tiles(model);
+
+      CREATE TABLE IF NOT EXISTS kpis (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        kpi_name TEXT NOT NULL,
+        measurement TEXT,
+        measure TEXT,
+        measure_group TEXT,
+        goal TEXT,
+        scoring_pattern TEXT,
+        label TEXT,
+        model TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_kpis_name ON kpis(kpi_name);
+      CREATE INDEX IF NOT EXISTS idx_kpis_measurement ON kpis(measurement);
+      CREATE INDEX IF NOT EXISTS idx_kpis_model ON kpis(model);
+
+      CREATE TABLE IF NOT EXISTS form_tile_controls (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        form_name TEXT NOT NULL,
+        control_name TEXT NOT NULL,
+        tile_name TEXT NOT NULL,
+        model TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_ftc_tile ON form_tile_controls(tile_name);
+      CREATE INDEX IF NOT EXISTS idx_ftc_form ON form_tile_controls(form_name);
+      CREATE INDEX IF NOT EXISTS idx_ftc_model ON form_tile_controls(model);
+    `);
+
+    // Aggregate measurements and dimensions
+    // One row per measure group (bound table + measures/attributes as JSON) and
+    // per shared dimension, indexed by table so "which measurement reads this
+    // entity" is one lookup.
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS aggregate_measure_groups (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        measurement_name TEXT NOT NULL,
+        group_name TEXT NOT NULL,
+        table_name TEXT,
+        measures TEXT,
+        attributes TEXT,
+        model TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_amg_measurement ON aggregate_measure_groups(measurement_name);
+      CREATE INDEX IF NOT EXISTS idx_amg_table ON aggregate_measure_groups(table_name);
+      CREATE INDEX IF NOT EXISTS idx_amg_model ON aggregate_measure_groups(model);
+
+      CREATE TABLE IF NOT EXISTS aggregate_dimensions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        dimension_name TEXT NOT NULL,
+        table_name TEXT,
+        attributes TEXT,
+        label TEXT,
+        model TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_aggdim_name ON aggregate_dimensions(dimension_name);
+      CREATE INDEX IF NOT EXISTS idx_aggdim_table ON aggregate_dimensions(table_name);
+      CREATE INDEX IF NOT EXISTS idx_aggdim_model ON aggregate_dimensions(model);
+    `);
+
     this.ensureFilePathIndexes();
   }
 
@@ -2142,6 +2308,32 @@ export class XppSymbolIndex {
         const macrosPath = path.join(modelPath, 'macros');
         if (fs.existsSync(macrosPath)) this.indexMacros(macrosPath, model);
 
+        // Workflow artifacts
+        const workflowTypesPath = path.join(modelPath, 'workflow-types');
+        if (fs.existsSync(workflowTypesPath)) this.indexWorkflowTypes(workflowTypesPath, model);
+
+        const workflowApprovalsPath = path.join(modelPath, 'workflow-approvals');
+        if (fs.existsSync(workflowApprovalsPath)) this.indexWorkflowElements(workflowApprovalsPath, model, 'approval');
+
+        const workflowTasksPath = path.join(modelPath, 'workflow-tasks');
+        if (fs.existsSync(workflowTasksPath)) this.indexWorkflowElements(workflowTasksPath, model, 'task');
+
+        const workflowCategoriesPath = path.join(modelPath, 'workflow-categories');
+        if (fs.existsSync(workflowCategoriesPath)) this.indexWorkflowCategories(workflowCategoriesPath, model);
+
+        // Tiles, KPIs and the aggregate measurements they read
+        const tilesPath = path.join(modelPath, 'tiles');
+        if (fs.existsSync(tilesPath)) this.indexTiles(tilesPath, model);
+
+        const kpisPath = path.join(modelPath, 'kpis');
+        if (fs.existsSync(kpisPath)) this.indexKpis(kpisPath, model);
+
+        const aggregateMeasurementsPath = path.join(modelPath, 'aggregate-measurements');
+        if (fs.existsSync(aggregateMeasurementsPath)) this.indexAggregateMeasurements(aggregateMeasurementsPath, model);
+
+        const aggregateDimensionsPath = path.join(modelPath, 'aggregate-dimensions');
+        if (fs.existsSync(aggregateDimensionsPath)) this.indexAggregateDimensions(aggregateDimensionsPath, model);
+
         // Flush buffered property_stats observations (batch write — much faster than
         // per-field upserts scattered across the transaction)
         this.flushPropertyStats();
@@ -2359,7 +2551,10 @@ export class XppSymbolIndex {
               name: field.name,
               type: 'field',
               parentName: tableData.name,
-              signature: field.type,
+              // The EDT/EnumType, as update_symbol_index stores it — the base type
+              // (String, Real, …) answers neither "which fields use this EDT" nor
+              // what to declare a variable holding the field as.
+              signature: field.extendedDataType || field.enumType || field.type,
               filePath: sourceFilePath,
               model,
             });
@@ -2594,6 +2789,22 @@ export class XppSymbolIndex {
           }
         }
 
+        // Tile buttons anywhere in the design tree — how a workspace places a tile.
+        if (Array.isArray(formData.design)) {
+          const tileStmt = this.db.prepare(`
+            INSERT INTO form_tile_controls (form_name, control_name, tile_name, model)
+            VALUES (?, ?, ?, ?)
+          `);
+          const visit = (controls: any[]): void => {
+            for (const control of controls) {
+              const tile = control?.properties?.Tile;
+              if (tile) tileStmt.run(formName, control.name ?? '', tile, model);
+              if (Array.isArray(control?.children)) visit(control.children);
+            }
+          };
+          visit(formData.design);
+        }
+
         // Index form datasources to new table
         if (formData.dataSources && Array.isArray(formData.dataSources)) {
           const stmt = this.db.prepare(`
@@ -2825,6 +3036,7 @@ export class XppSymbolIndex {
         for (const duty of duties) {
           insertDuty.run(name, duty, model);
         }
+        this.replaceSecurityLinks({ ownerType: 'role', ownerName: name, privileges: data.privileges, subRoles: data.subRoles, model });
       } catch (error) {
         log.warn(`Skipped security-role ${file}: ${error instanceof Error ? error.message : error}`);
       }
@@ -3082,6 +3294,281 @@ export class XppSymbolIndex {
     }
   }
 
+  private indexWorkflowTypes(dirPath: string, model: string): void {
+    const files = fs.readdirSync(dirPath).filter(f => f.endsWith('.json'));
+    const insertType = this.db.prepare(`
+      INSERT INTO workflow_types
+        (type_name, category, document_class, document_menu_item, submit_menu_item,
+         cancel_menu_item, resubmit_menu_item, event_handlers, label, model)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertElement = this.db.prepare(`
+      INSERT INTO workflow_type_elements (type_name, element_name, element_type, model)
+      VALUES (?, ?, ?, ?)
+    `);
+    for (const file of files) {
+      try {
+        const filePath = path.join(dirPath, file);
+        const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        const name = data.name || path.basename(file, '.json');
+        const handlers = Array.isArray(data.eventHandlers) ? data.eventHandlers : [];
+        // signature carries the document class; tags carry the category and menu
+        // items so a search for any of them (FTS) surfaces the workflow type.
+        const tags = [data.category, data.documentMenuItem, data.submitMenuItem, data.cancelMenuItem, data.resubmitMenuItem]
+          .filter(Boolean).join(', ');
+        this.addSymbol({
+          name,
+          type: 'workflow-type',
+          filePath: data.sourcePath || filePath,
+          model,
+          description: data.label || undefined,
+          signature: data.document || undefined,
+          tags: tags || undefined,
+        });
+        insertType.run(
+          name,
+          data.category || null,
+          data.document || null,
+          data.documentMenuItem || null,
+          data.submitMenuItem || null,
+          data.cancelMenuItem || null,
+          data.resubmitMenuItem || null,
+          handlers.length > 0 ? JSON.stringify(handlers) : null,
+          data.label || null,
+          model,
+        );
+        if (Array.isArray(data.supportedElements)) {
+          for (const e of data.supportedElements) {
+            if (!e?.name) continue;
+            insertElement.run(name, e.name, e.elementType || null, model);
+          }
+        }
+      } catch (error) {
+        log.warn(`Skipped workflow-type ${file}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  private indexWorkflowElements(dirPath: string, model: string, kind: 'approval' | 'task'): void {
+    const files = fs.readdirSync(dirPath).filter(f => f.endsWith('.json'));
+    const symbolType = `workflow-${kind}` as const;
+    const insertElement = this.db.prepare(`
+      INSERT INTO workflow_elements
+        (element_name, element_kind, document_class, event_handlers, outcomes, label, model)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const file of files) {
+      try {
+        const filePath = path.join(dirPath, file);
+        const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        const name = data.name || path.basename(file, '.json');
+        const handlers = Array.isArray(data.eventHandlers) ? data.eventHandlers : [];
+        const outcomes = Array.isArray(data.outcomes) ? data.outcomes : [];
+        // tags carry the outcome action menu items for the same FTS reason as types.
+        const tags = outcomes.map((o: any) => o?.actionMenuItem).filter(Boolean).join(', ');
+        this.addSymbol({
+          name,
+          type: symbolType,
+          filePath: data.sourcePath || filePath,
+          model,
+          description: data.label || undefined,
+          signature: data.document || undefined,
+          tags: tags || undefined,
+        });
+        insertElement.run(
+          name,
+          kind,
+          data.document || null,
+          handlers.length > 0 ? JSON.stringify(handlers) : null,
+          outcomes.length > 0 ? JSON.stringify(outcomes) : null,
+          data.label || null,
+          model,
+        );
+      } catch (error) {
+        log.warn(`Skipped workflow-${kind} ${file}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  private indexWorkflowCategories(dirPath: string, model: string): void {
+    const files = fs.readdirSync(dirPath).filter(f => f.endsWith('.json'));
+    for (const file of files) {
+      try {
+        const filePath = path.join(dirPath, file);
+        const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        const name = data.name || path.basename(file, '.json');
+        // signature carries the module, the one property a category adds.
+        this.addSymbol({
+          name,
+          type: 'workflow-category',
+          filePath: data.sourcePath || filePath,
+          model,
+          description: data.label || undefined,
+          signature: data.module || undefined,
+        });
+      } catch (error) {
+        log.warn(`Skipped workflow-category ${file}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  private indexTiles(dirPath: string, model: string): void {
+    const files = fs.readdirSync(dirPath).filter(f => f.endsWith('.json'));
+    const insertTile = this.db.prepare(`
+      INSERT INTO tiles
+        (tile_name, tile_type, menu_item_name, menu_item_type, query_name, kpi_name, size, label, model)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const file of files) {
+      try {
+        const filePath = path.join(dirPath, file);
+        const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        const name = data.name || path.basename(file, '.json');
+        // signature carries the query; tags the menu item and KPI so a search
+        // for either surfaces the tile.
+        const tags = [data.menuItemName, data.kpi].filter(Boolean).join(', ');
+        this.addSymbol({
+          name,
+          type: 'tile',
+          filePath: data.sourcePath || filePath,
+          model,
+          description: data.label || undefined,
+          signature: data.query || undefined,
+          tags: tags || undefined,
+        });
+        insertTile.run(
+          name,
+          data.tileType || null,
+          data.menuItemName || null,
+          data.menuItemType || null,
+          data.query || null,
+          data.kpi || null,
+          data.size || null,
+          data.label || null,
+          model,
+        );
+      } catch (error) {
+        log.warn(`Skipped tile ${file}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  private indexKpis(dirPath: string, model: string): void {
+    const files = fs.readdirSync(dirPath).filter(f => f.endsWith('.json'));
+    const insertKpi = this.db.prepare(`
+      INSERT INTO kpis
+        (kpi_name, measurement, measure, measure_group, goal, scoring_pattern, label, model)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const file of files) {
+      try {
+        const filePath = path.join(dirPath, file);
+        const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        const name = data.name || path.basename(file, '.json');
+        // signature carries the measurement; tags the measure and measure group.
+        const tags = [data.measure, data.measureGroup].filter(Boolean).join(', ');
+        this.addSymbol({
+          name,
+          type: 'kpi',
+          filePath: data.sourcePath || filePath,
+          model,
+          description: data.label || undefined,
+          signature: data.measurement || undefined,
+          tags: tags || undefined,
+        });
+        insertKpi.run(
+          name,
+          data.measurement || null,
+          data.measure || null,
+          data.measureGroup || null,
+          data.goal || null,
+          data.scoringPattern || null,
+          data.label || null,
+          model,
+        );
+      } catch (error) {
+        log.warn(`Skipped kpi ${file}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  private indexAggregateMeasurements(dirPath: string, model: string): void {
+    const files = fs.readdirSync(dirPath).filter(f => f.endsWith('.json'));
+    const insertGroup = this.db.prepare(`
+      INSERT INTO aggregate_measure_groups
+        (measurement_name, group_name, table_name, measures, attributes, model)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    for (const file of files) {
+      try {
+        const filePath = path.join(dirPath, file);
+        const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        const name = data.name || path.basename(file, '.json');
+        const groups = Array.isArray(data.measureGroups) ? data.measureGroups : [];
+        // tags carry the measure group names and their bound tables.
+        const tags = groups.flatMap((g: any) => [g?.name, g?.table]).filter(Boolean).join(', ');
+        this.addSymbol({
+          name,
+          type: 'aggregate-measurement',
+          filePath: data.sourcePath || filePath,
+          model,
+          description: data.label || undefined,
+          signature: data.usage || undefined,
+          tags: tags || undefined,
+        });
+        for (const g of groups) {
+          if (!g?.name) continue;
+          const measures = Array.isArray(g.measures) ? g.measures : [];
+          const attributes = Array.isArray(g.attributes) ? g.attributes : [];
+          insertGroup.run(
+            name,
+            g.name,
+            g.table || null,
+            measures.length > 0 ? JSON.stringify(measures) : null,
+            attributes.length > 0 ? JSON.stringify(attributes) : null,
+            model,
+          );
+        }
+      } catch (error) {
+        log.warn(`Skipped aggregate-measurement ${file}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  private indexAggregateDimensions(dirPath: string, model: string): void {
+    const files = fs.readdirSync(dirPath).filter(f => f.endsWith('.json'));
+    const insertDimension = this.db.prepare(`
+      INSERT INTO aggregate_dimensions (dimension_name, table_name, attributes, label, model)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    for (const file of files) {
+      try {
+        const filePath = path.join(dirPath, file);
+        const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        const name = data.name || path.basename(file, '.json');
+        const attributes = Array.isArray(data.attributes) ? data.attributes : [];
+        // signature carries the bound table, the dimension's one binding.
+        this.addSymbol({
+          name,
+          type: 'aggregate-dimension',
+          filePath: data.sourcePath || filePath,
+          model,
+          description: data.label || undefined,
+          signature: data.table || undefined,
+        });
+        insertDimension.run(
+          name,
+          data.table || null,
+          attributes.length > 0 ? JSON.stringify(attributes) : null,
+          data.label || null,
+          model,
+        );
+      } catch (error) {
+        log.warn(`Skipped aggregate-dimension ${file}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
   private indexExtensions(dirPath: string, model: string, extensionType: string): void {
     const files = fs.readdirSync(dirPath).filter(f => f.endsWith('.json'));
     const insertMeta = this.db.prepare(`
@@ -3120,6 +3607,17 @@ export class XppSymbolIndex {
           data.eventSubscriptions ? JSON.stringify(data.eventSubscriptions) : null,
           model
         );
+        if ((extensionType === 'security-role-extension' || extensionType === 'security-duty-extension') && baseObjectName) {
+          this.replaceSecurityLinks({
+            ownerType: extensionType === 'security-role-extension' ? 'role' : 'duty',
+            ownerName: baseObjectName,
+            via: name,
+            duties: data.duties,
+            privileges: data.privileges,
+            subRoles: data.subRoles,
+            model,
+          });
+        }
       } catch (error) {
         log.warn(`Skipped ${extensionType} ${file}: ${error instanceof Error ? error.message : error}`);
       }
@@ -3165,6 +3663,31 @@ export class XppSymbolIndex {
     })();
   }
 
+  /**
+   * Replace the security_links rows of one role or duty file, or of one
+   * extension of it (`via`). The full build and the incremental reindex both
+   * write through here, so the two agree on the rows.
+   */
+  replaceSecurityLinks(record: SecurityLinksRecord): void {
+    const insert = this.db.prepare(`
+      INSERT INTO security_links (owner_type, owner_name, link_type, member_name, via, model)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const via = record.via ?? null;
+    this.db.transaction(() => {
+      this.db.prepare(`
+        DELETE FROM security_links WHERE owner_type = ? AND owner_name = ? AND via IS ? AND model = ?
+      `).run(record.ownerType, record.ownerName, via, record.model);
+      for (const [linkType, members] of [
+        ['duty', record.duties], ['privilege', record.privileges], ['sub-role', record.subRoles],
+      ] as const) {
+        for (const member of members ?? []) {
+          if (member) insert.run(record.ownerType, record.ownerName, linkType, member, via, record.model);
+        }
+      }
+    })();
+  }
+
   /** Drop the extension_metadata row(s) for one extension. Returns rows removed. */
   removeExtensionMetadata(extensionName: string, extensionType: string, model: string): number {
     try {
@@ -3960,6 +4483,7 @@ export class XppSymbolIndex {
     this.db.exec('DELETE FROM security_privilege_entries');
     this.db.exec('DELETE FROM security_duty_privileges');
     this.db.exec('DELETE FROM security_role_duties');
+    this.db.exec('DELETE FROM security_links');
     this.db.exec('DELETE FROM menu_item_targets');
     this.db.exec('DELETE FROM extension_metadata');
     this.db.exec('DELETE FROM service_operations');
@@ -3967,6 +4491,14 @@ export class XppSymbolIndex {
     this.db.exec('DELETE FROM map_mappings');
     this.db.exec('DELETE FROM security_policies');
     this.db.exec('DELETE FROM macro_defines');
+    this.db.exec('DELETE FROM workflow_types');
+    this.db.exec('DELETE FROM workflow_elements');
+    this.db.exec('DELETE FROM workflow_type_elements');
+    this.db.exec('DELETE FROM tiles');
+    this.db.exec('DELETE FROM kpis');
+    this.db.exec('DELETE FROM form_tile_controls');
+    this.db.exec('DELETE FROM aggregate_measure_groups');
+    this.db.exec('DELETE FROM aggregate_dimensions');
     this.db.exec('DELETE FROM property_stats');
     this.vacuum();
   }
@@ -4001,6 +4533,7 @@ export class XppSymbolIndex {
       this.db.prepare(`DELETE FROM security_privilege_entries WHERE model IN (${placeholders})`).run(...modelNames);
       this.db.prepare(`DELETE FROM security_duty_privileges WHERE model IN (${placeholders})`).run(...modelNames);
       this.db.prepare(`DELETE FROM security_role_duties WHERE model IN (${placeholders})`).run(...modelNames);
+      this.db.prepare(`DELETE FROM security_links WHERE model IN (${placeholders})`).run(...modelNames);
       this.db.prepare(`DELETE FROM menu_item_targets WHERE model IN (${placeholders})`).run(...modelNames);
       this.db.prepare(`DELETE FROM extension_metadata WHERE model IN (${placeholders})`).run(...modelNames);
       this.db.prepare(`DELETE FROM service_operations WHERE model IN (${placeholders})`).run(...modelNames);
@@ -4008,6 +4541,14 @@ export class XppSymbolIndex {
       this.db.prepare(`DELETE FROM map_mappings WHERE model IN (${placeholders})`).run(...modelNames);
       this.db.prepare(`DELETE FROM security_policies WHERE model IN (${placeholders})`).run(...modelNames);
       this.db.prepare(`DELETE FROM macro_defines WHERE model IN (${placeholders})`).run(...modelNames);
+      this.db.prepare(`DELETE FROM workflow_types WHERE model IN (${placeholders})`).run(...modelNames);
+      this.db.prepare(`DELETE FROM workflow_elements WHERE model IN (${placeholders})`).run(...modelNames);
+      this.db.prepare(`DELETE FROM workflow_type_elements WHERE model IN (${placeholders})`).run(...modelNames);
+      this.db.prepare(`DELETE FROM tiles WHERE model IN (${placeholders})`).run(...modelNames);
+      this.db.prepare(`DELETE FROM kpis WHERE model IN (${placeholders})`).run(...modelNames);
+      this.db.prepare(`DELETE FROM form_tile_controls WHERE model IN (${placeholders})`).run(...modelNames);
+      this.db.prepare(`DELETE FROM aggregate_measure_groups WHERE model IN (${placeholders})`).run(...modelNames);
+      this.db.prepare(`DELETE FROM aggregate_dimensions WHERE model IN (${placeholders})`).run(...modelNames);
       this.db.prepare(`DELETE FROM property_stats WHERE model IN (${placeholders})`).run(...modelNames);
     });
     deleteAll();
@@ -4642,6 +5183,26 @@ export class XppSymbolIndex {
     return this.labelsDb.prepare(sql).all(...params) as any[];
   }
 
+  /**
+   * Every label a model owns in one language, ordered by label file and ID.
+   * A seek on idx_labels_model; the language is compared lowercased because
+   * Linux-unzipped trees index `en-us`.
+   */
+  getModelLabels(
+    model: string,
+    opts: { language?: string; labelFileId?: string } = {},
+  ): Array<{ labelId: string; labelFileId: string; text: string }> {
+    const params: string[] = [model, (opts.language ?? 'en-US').toLowerCase()];
+    let sql = `
+      SELECT label_id AS labelId, label_file_id AS labelFileId, text
+      FROM labels
+      WHERE model = ? AND LOWER(language) = ?
+    `;
+    if (opts.labelFileId) { sql += ` AND label_file_id = ? COLLATE NOCASE`; params.push(opts.labelFileId); }
+    sql += ` ORDER BY label_file_id, label_id`;
+    return this.labelsDb.prepare(sql).all(...params) as any[];
+  }
+
   /**
    * Remove all labels for the given models (used during incremental rebuild)
    */
@@ -166,7 +166,9 @@ export interface XppSymbol {
       | 'menu-item-display-extension' | 'menu-item-action-extension'
       | 'menu-item-output-extension'
       | 'menu' | 'service' | 'service-group'
-      | 'map' | 'configuration-key' | 'license-code' | 'security-policy' | 'macro';
+      | 'map' | 'configuration-key' | 'license-code' | 'security-policy' | 'macro'
+      | 'workflow-type' | 'workflow-approval' | 'workflow-task' | 'workflow-category'
+      | 'tile' | 'kpi' | 'aggregate-measurement' | 'aggregate-dimension';
   parentName?: string;
   signature?: string;
   filePath: string;
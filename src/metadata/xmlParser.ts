@@ -68,6 +68,21 @@ export function extensionMembersFrom(
   return { addedMethods, cocMethods, eventSubscriptions };
 }
 
+/**
+ * `<Name>` of every reference under a security container — `<Duties>`,
+ * `<Privileges>` or `<SubRoles>` of a role, a duty or their extensions. The
+ * reference element is not always the documented one (see #34), so any child
+ * element counts; the parser merges attributes in, and those are skipped.
+ */
+function securityReferenceNames(container: any): string[] {
+  if (!container || typeof container !== 'object') return [];
+  return Object.entries(container)
+    .filter(([key]) => key !== 'xmlns' && !key.includes(':'))
+    .flatMap(([, refs]) => (Array.isArray(refs) ? refs : [refs]))
+    .map((r: any) => (typeof r === 'string' ? r : r?.Name || ''))
+    .filter(Boolean);
+}
+
 export interface XppClassExtensionRecord extends XppExtensionMembers {
   name: string;
   baseObjectName: string;
@@ -872,6 +887,9 @@ export class XppMetadataParser {
     description?: string;
     sourcePath: string;
     duties: string[];
+    /** Privileges granted on the role itself, without a duty. */
+    privileges: string[];
+    subRoles: string[];
   }>> {
     try {
       const content = await fs.readFile(filePath, 'utf-8');
@@ -895,7 +913,14 @@ export class XppMetadataParser {
         .map((d: any) => (typeof d === 'string' ? d : d.Name || ''))
         .filter(Boolean);
 
-      return { success: true, data: { name, label, description, sourcePath: filePath, duties } };
+      return {
+        success: true,
+        data: {
+          name, label, description, sourcePath: filePath, duties,
+          privileges: securityReferenceNames(root.Privileges),
+          subRoles: securityReferenceNames(root.SubRoles),
+        },
+      };
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
     }
@@ -951,6 +976,10 @@ export class XppMetadataParser {
     addedIndexes: string[];
     cocMethods: string[];
     eventSubscriptions: string[];
+    /** What a role or duty extension adds to its base — security extensions only. */
+    duties?: string[];
+    privileges?: string[];
+    subRoles?: string[];
   }>> {
     try {
       const content = await fs.readFile(filePath, 'utf-8');
@@ -1047,6 +1076,12 @@ export class XppMetadataParser {
           addedIndexes,
           cocMethods,
           eventSubscriptions,
+          ...(extensionType === 'security-role-extension' && {
+            duties: securityReferenceNames(root.Duties),
+            privileges: securityReferenceNames(root.Privileges),
+            subRoles: securityReferenceNames(root.SubRoles),
+          }),
+          ...(extensionType === 'security-duty-extension' && { privileges: securityReferenceNames(root.Privileges) }),
         },
       };
     } catch (error) {
@@ -1249,6 +1284,301 @@ export class XppMetadataParser {
     }
   }
 
+  /**
+   * Parse an AxWorkflowType file: the document class and category it binds,
+   * the menu items that drive it (document / submit / cancel / resubmit), its
+   * type-level event handlers, and the approvals and tasks it supports.
+   */
+  async parseWorkflowTypeFile(filePath: string): Promise<XppParseResult<{
+    name: string;
+    label?: string;
+    category?: string;
+    document?: string;
+    documentMenuItem?: string;
+    submitMenuItem?: string;
+    cancelMenuItem?: string;
+    resubmitMenuItem?: string;
+    eventHandlers: { event: string; handler: string }[];
+    supportedElements: { name: string; elementType: string }[];
+    sourcePath: string;
+  }>> {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      const parsed = await this.parser.parseStringPromise(content);
+      const root = parsed?.AxWorkflowType;
+      if (!root) return { success: false, error: 'Not an AxWorkflowType file' };
+
+      const supportedElements = this.ensureArray<any>(root.SupportedElements?.AxWorkflowTypeSupportedElement)
+        .map((e: any) => ({ name: e.ElementName || e.Name || '', elementType: e.Type || '' }))
+        .filter((e: { name: string }) => e.name);
+
+      return {
+        success: true,
+        data: {
+          name: root.Name || '',
+          label: root.Label || undefined,
+          category: root.Category || undefined,
+          document: root.Document || undefined,
+          documentMenuItem: root.DocumentMenuItem || undefined,
+          submitMenuItem: root.SubmitToWorkflowMenuItem || undefined,
+          cancelMenuItem: root.CancelMenuItem || undefined,
+          resubmitMenuItem: root.ResubmitMenuItem || undefined,
+          eventHandlers: this.workflowEventHandlers(root),
+          supportedElements,
+          sourcePath: filePath,
+        },
+      };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Parse an AxWorkflowApproval or AxWorkflowTask file. Both carry the same
+   * shape — a document class, element-level event handlers and a list of
+   * outcomes, each bound to the action menu item a user clicks — and differ
+   * only in the outcome element name, so one parser reads either.
+   */
+  async parseWorkflowElementFile(filePath: string, kind: 'approval' | 'task'): Promise<XppParseResult<{
+    name: string;
+    label?: string;
+    document?: string;
+    documentMenuItem?: string;
+    eventHandlers: { event: string; handler: string }[];
+    outcomes: { name: string; outcomeType?: string; actionMenuItem?: string; eventHandler?: string }[];
+    sourcePath: string;
+  }>> {
+    const rootName = kind === 'approval' ? 'AxWorkflowApproval' : 'AxWorkflowTask';
+    const outcomeName = kind === 'approval' ? 'AxWorkflowApprovalOutcome' : 'AxWorkflowTaskOutcome';
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      const parsed = await this.parser.parseStringPromise(content);
+      const root = parsed?.[rootName];
+      if (!root) return { success: false, error: `Not an ${rootName} file` };
+
+      const outcomes = this.ensureArray<any>(root.Outcomes?.[outcomeName])
+        .map((o: any) => ({
+          name: o.Name || '',
+          outcomeType: o.Type || undefined,
+          actionMenuItem: o.ActionMenuItem || undefined,
+          eventHandler: o.EventHandler || undefined,
+        }))
+        .filter((o: { name: string }) => o.name);
+
+      return {
+        success: true,
+        data: {
+          name: root.Name || '',
+          label: root.Label || undefined,
+          document: root.Document || undefined,
+          documentMenuItem: root.DocumentMenuItem || undefined,
+          eventHandlers: this.workflowEventHandlers(root),
+          outcomes,
+          sourcePath: filePath,
+        },
+      };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /** Parse an AxWorkflowCategory file: label + the module the category belongs to. */
+  async parseWorkflowCategoryFile(filePath: string): Promise<XppParseResult<{
+    name: string;
+    label?: string;
+    module?: string;
+    sourcePath: string;
+  }>> {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      const parsed = await this.parser.parseStringPromise(content);
+      const root = parsed?.AxWorkflowCategory;
+      if (!root) return { success: false, error: 'Not an AxWorkflowCategory file' };
+      return {
+        success: true,
+        data: { name: root.Name || '', label: root.Label || undefined, module: root.Module || undefined, sourcePath: filePath },
+      };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * The `*EventHandler` properties of a workflow element, in document order.
+   * Read by suffix rather than a fixed list: types, approvals and tasks each
+   * carry a different subset (Started, Completed, Canceled/Cancelled,
+   * ChangeRequested, Returned, …) and the spelling of Cancel varies by release.
+   */
+  private workflowEventHandlers(root: any): { event: string; handler: string }[] {
+    return Object.entries(root)
+      .filter(([key, value]) => key.endsWith('EventHandler') && typeof value === 'string' && value)
+      .map(([key, value]) => ({ event: key.replace(/EventHandler$/, ''), handler: value as string }));
+  }
+
+  /**
+   * Parse an AxTile file: the menu item a click opens, the query whose row
+   * count the tile displays (absent on a link tile) and the KPI a KPI tile
+   * renders. Older files carry the kind as <Type>, newer ones as <TileType>.
+   */
+  async parseTileFile(filePath: string): Promise<XppParseResult<{
+    name: string;
+    label?: string;
+    tileType?: string;
+    menuItemName?: string;
+    menuItemType?: string;
+    query?: string;
+    kpi?: string;
+    size?: string;
+    sourcePath: string;
+  }>> {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      const parsed = await this.parser.parseStringPromise(content);
+      const root = parsed?.AxTile;
+      if (!root) return { success: false, error: 'Not an AxTile file' };
+      return {
+        success: true,
+        data: {
+          name: root.Name || '',
+          label: root.Label || undefined,
+          tileType: root.TileType || root.Type || undefined,
+          menuItemName: root.MenuItemName || undefined,
+          menuItemType: root.MenuItemType || undefined,
+          query: root.Query || undefined,
+          kpi: root.KPI || undefined,
+          size: root.Size || undefined,
+          sourcePath: filePath,
+        },
+      };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Parse an AxKPI file: the aggregate measurement it reads and the
+   * Measure/MeasureGroup pair it scores. The platform nests the pair under
+   * <Value> and the goal under <Goal><Value>; the flat <Measure>/<Goal> form
+   * written by older tooling is accepted too.
+   */
+  async parseKpiFile(filePath: string): Promise<XppParseResult<{
+    name: string;
+    label?: string;
+    measurement?: string;
+    measure?: string;
+    measureGroup?: string;
+    goal?: string;
+    scoringPattern?: string;
+    sourcePath: string;
+  }>> {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      const parsed = await this.parser.parseStringPromise(content);
+      const root = parsed?.AxKPI;
+      if (!root) return { success: false, error: 'Not an AxKPI file' };
+      const value = root.Value && typeof root.Value === 'object' ? root.Value : {};
+      const goal = root.Goal && typeof root.Goal === 'object' ? root.Goal.Value : root.Goal;
+      return {
+        success: true,
+        data: {
+          name: root.Name || '',
+          label: root.Label || undefined,
+          measurement: root.Measurement || undefined,
+          measure: value.Measure || root.Measure || undefined,
+          measureGroup: value.MeasureGroup || root.MeasureGroup || undefined,
+          goal: typeof goal === 'string' && goal ? goal : undefined,
+          scoringPattern: root.ScoringPattern || undefined,
+          sourcePath: filePath,
+        },
+      };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Parse an AxAggregateMeasurement file: each measure group with the table it
+   * is bound to, its measures (field + default aggregate) and its dimension
+   * attributes (name + key fields).
+   */
+  async parseAggregateMeasurementFile(filePath: string): Promise<XppParseResult<{
+    name: string;
+    label?: string;
+    usage?: string;
+    measureGroups: {
+      name: string;
+      table?: string;
+      measures: { name: string; field?: string; defaultAggregate?: string }[];
+      attributes: { name: string; keyFields: string[] }[];
+    }[];
+    sourcePath: string;
+  }>> {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      const parsed = await this.parser.parseStringPromise(content);
+      const root = parsed?.AxAggregateMeasurement;
+      if (!root) return { success: false, error: 'Not an AxAggregateMeasurement file' };
+
+      const measureGroups = this.ensureArray<any>(root.MeasureGroups?.AxMeasureGroup)
+        .map((g: any) => ({
+          name: g.Name || '',
+          table: g.Table || undefined,
+          measures: this.ensureArray<any>(g.Measures?.AxMeasure)
+            .map((m: any) => ({ name: m.Name || '', field: m.Field || undefined, defaultAggregate: m.DefaultAggregate || undefined }))
+            .filter((m: { name: string }) => m.name),
+          attributes: this.aggregateAttributes(g),
+        }))
+        .filter((g: { name: string }) => g.name);
+
+      return {
+        success: true,
+        data: { name: root.Name || '', label: root.Label || undefined, usage: root.Usage || undefined, measureGroups, sourcePath: filePath },
+      };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /** Parse an AxAggregateDimension file: the table it is bound to and its attributes. */
+  async parseAggregateDimensionFile(filePath: string): Promise<XppParseResult<{
+    name: string;
+    label?: string;
+    table?: string;
+    attributes: { name: string; keyFields: string[] }[];
+    sourcePath: string;
+  }>> {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      const parsed = await this.parser.parseStringPromise(content);
+      const root = parsed?.AxAggregateDimension;
+      if (!root) return { success: false, error: 'Not an AxAggregateDimension file' };
+      return {
+        success: true,
+        data: {
+          name: root.Name || '',
+          label: root.Label || undefined,
+          table: root.Table || undefined,
+          attributes: this.aggregateAttributes(root),
+          sourcePath: filePath,
+        },
+      };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /** Attributes > AxDimensionAttribute > KeyFields > AxDimensionFieldReference > DimensionField. */
+  private aggregateAttributes(node: any): { name: string; keyFields: string[] }[] {
+    return this.ensureArray<any>(node.Attributes?.AxDimensionAttribute)
+      .map((a: any) => ({
+        name: a.Name || '',
+        keyFields: this.ensureArray<any>(a.KeyFields?.AxDimensionFieldReference)
+          .map((k: any) => k.DimensionField)
+          .filter((f: unknown): f is string => typeof f === 'string' && f.length > 0),
+      }))
+      .filter((a: { name: string }) => a.name);
+  }
+
   /**
    * Parse an AxServiceGroup file: member services and deployment flag.
    */
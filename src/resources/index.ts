@@ -13,6 +13,7 @@
  *   • workspace://stats          — symbol-index + workspace statistics (JSON)
  *   • workspace://files          — list of X++ files in the workspace (JSON)
  *   • workspace://recent-changes — uncommitted X++ changes vs HEAD (JSON)
+ *   • workspace://semantic-changes — the same changes read item by item (JSON)
  */
 
 import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
@@ -24,6 +25,7 @@ import {
 import type { XppServerContext } from '../types/context.js';
 import { isClassUri, readClassSource, CLASS_URI_PREFIX } from './classResource.js';
 import { buildContextSnapshot } from '../workspace/contextSnapshot.js';
+import { collectSemanticChanges } from '../workspace/semanticChanges.js';
 
 const WORKSPACE_RESOURCES = [
   {
@@ -62,6 +64,15 @@ const WORKSPACE_RESOURCES = [
     description: 'Uncommitted X++ object files (vs HEAD + untracked). Empty when not a git repo.',
     mimeType: 'application/json',
   },
+  {
+    uri: 'workspace://semantic-changes',
+    name: 'Semantic Workspace Changes',
+    description:
+      'Uncommitted AOT changes item by item — fields, indexes, methods (with an ' +
+      'X++ diff), controls and properties added, removed, changed or moved — ' +
+      'without element reordering, CDATA whitespace or GUID churn.',
+    mimeType: 'application/json',
+  },
 ] as const;
 
 function json(uri: string, data: unknown) {
@@ -167,6 +178,12 @@ export function registerResources(server: Server, context: XppServerContext): vo
             uncommittedFiles: snapshot.uncommittedFiles,
             generatedAt: snapshot.generatedAt,
           });
+
+        case 'workspace://semantic-changes':
+          return json(uri, {
+            workspacePath: snapshot.workspacePath,
+            ...(await collectSemanticChanges(snapshot.workspacePath)),
+          });
       }
     }
 
@@ -55,7 +55,7 @@ export const TOOL_ANNOTATIONS: Record<string, ToolAnnotations> = {
 
   // Object inspection
   get_object_info:                  read('Read object info'),
-  security_info:                    read('Security info (artifact/coverage)'),
+  security_info:                    read('Security info (artifact/coverage/sod/matrix)'),
 
   // Analysis & guidance
   analyze_code:                     read('Analyze code (patterns/impl/completeness/API)'),
@@ -11,13 +11,14 @@ export const analyzeCodeTool = {
       '• patterns → common classes/methods/dependencies for a scenario (call BEFORE generate_object(mode="pattern")).\n' +
       '• implementations → real implementation examples of a similar method (actual code).\n' +
       '• completeness → missing standard methods on a class (find/exist/validate gaps).\n' +
-      '• api-usage → how an API/class is initialized and called in practice.',
+      '• api-usage → how an API/class is initialized and called in practice.\n' +
+      '• impact → what changing an EDT, field or method breaks, transitively.',
     inputSchema: {
       type: 'object',
       properties: {
         mode: {
           type: 'string',
-          enum: ['patterns', 'implementations', 'completeness', 'api-usage'],
+          enum: ['patterns', 'implementations', 'completeness', 'api-usage', 'impact'],
           description: 'Which analysis to run.',
         },
         // mode=patterns
@@ -43,6 +44,8 @@ export const analyzeCodeTool = {
         // mode=api-usage
         apiName: { type: 'string', description: '[api-usage] REQUIRED. Name of the API/class to get usage patterns for.' },
         context: { type: 'string', description: '[api-usage] Optional context to filter patterns (e.g., "initialization", "validation").' },
+        // mode=impact
+        target: { type: 'string', description: '[impact] REQUIRED. EDT, "Table.field" or "Owner.method".' },
         // shared
         limit: { type: 'number', description: '[patterns] Maximum number of pattern examples to return', default: 5 },
       },
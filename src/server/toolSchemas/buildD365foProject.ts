@@ -41,6 +41,11 @@ export const buildD365foProjectTool = {
           type: 'number',
           description: 'Maximum time (ms) to block when wait:true before returning a "still running" snapshot. Defaults to 30 minutes. The build itself continues in the background.',
         },
+        outputFormat: {
+          type: 'string',
+          enum: ['sarif', 'junit', 'json'],
+          description: 'CI pipeline report instead of the readable summary.',
+        },
       },
       required: [],
     },
@@ -17,8 +17,12 @@ export const d365foFileTool = {
     name: 'd365fo_file',
     description: `Create, modify, delete, or generate a D365FO AOT object. Choose an \`action\`:
 • create → write a NEW object file into PackagesLocalDirectory (UTF-8 BOM, auto-added to .rnrproj). THE WRITE STEP — incomplete until isError=false; ⚠️/❌ = failure. Extensions: objectName="Base.PrefixExtension".
-• modify → edit an EXISTING object. APPLIES IMMEDIATELY, no dry-run — confirm with the user first; revert with undo_last_modification. Needs \`operation\`.
+• modify → edit an EXISTING object. APPLIES IMMEDIATELY — params.dryRun=true returns the diff (not for enum-value, relation, field-group, mapping, full-text, data-source ops or field edits past add-field); confirm with the user first; revert with undo_last_modification. Needs \`operation\`.
 • delete → remove an object's XML from disk AND un-register it from every .rnrproj of the model that lists it. IRREVERSIBLE — confirm with the user first. Reports ❌ when the object is not found, never a silent no-op.
+• changeset → changes[] of create/modify/label writes across objects, ALL rolled back if one fails (op-spec topic="changeset").
+• merge → 3-way merge of conflicting AOT XML by element (topic="merge").
+• rename → a class/table/edt/enum and its references (topic="rename").
+• move → an object to another custom model (topic="move").
 • generate → XML as TEXT only, no write (Azure/Linux fallback). Try create first. create/modify/delete need Windows.
 📖 Parameters are NOT inlined here: get_knowledge(kind="op-spec", topic="<operation>"|"<objectType>") returns the contract for the one you picked — pass its values nested in \`params\` (modify) / \`properties\` (create), along with any packageName/packagePath/solutionPath/workspacePath override.
 Model + prefix auto-applied. Classes: member vars inside the class { }, methods after the closing }.`,
@@ -27,8 +31,8 @@ Model + prefix auto-applied. Classes: member vars inside the class { }, methods
       properties: {
         action: {
           type: 'string',
-          enum: ['create', 'modify', 'delete', 'generate'],
-          description: 'One of the four modes described above.',
+          enum: ['create', 'modify', 'delete', 'generate', 'changeset', 'merge', 'rename', 'move'],
+          description: 'One of the eight modes described above.',
         },
         objectType: {
           type: 'string',
@@ -18,24 +18,25 @@ export const generateObjectTool = {
     description:
       'Generate X++/AOT code. Choose a `mode`:\n' +
       '• pattern → a named X++ skeleton from the pattern enum (text only, no write). Call analyze_code(mode="patterns") first, then generate_object(mode="pattern"), then d365fo_file(action="create").\n' +
-      '• scaffold → pattern-aware whole-object generation (table/form/report) with intelligent field/index/relation or form-pattern suggestions; set objectType.\n' +
+      '• scaffold → pattern-aware whole-object generation (table/form/report/data-entity) with intelligent field/index/relation or form-pattern suggestions; set objectType.\n' +
       '• find-methods → find()/findRecId()/exists() for a table (text), keyed on its primary/unique index.\n' +
       '• relation-xpp → a table\'s relation(s) → X++ select + QueryBuildRange (text).\n' +
       '• fields → field names → AxTableField XML with auto-resolved EDTs + optional field group.\n' +
       '• table-relation → EDT-referencing fields → AxTableRelation XML (inverse of relation-xpp).\n' +
-      '📖 Mode parameters are NOT inlined here: get_knowledge(kind="op-spec", topic="<mode>") — "scaffold:table"/"scaffold:form"/"scaffold:report" for the scaffolds — returns the contract; pass its values nested in `params`.\n' +
+      '• security → View/Maintain privileges, duty and role extension for a form or menu item, as one d365fo_file changeset.\n' +
+      '📖 Mode parameters are NOT inlined here: get_knowledge(kind="op-spec", topic="<mode>") — "scaffold:<objectType>" for the scaffolds — returns the contract; pass its values nested in `params`.\n' +
       'For a single existing object definition\'s XML use d365fo_file(action="generate") instead.',
     inputSchema: {
       type: 'object',
       properties: {
         mode: {
           type: 'string',
-          enum: ['pattern', 'scaffold', 'find-methods', 'relation-xpp', 'fields', 'table-relation'],
+          enum: ['pattern', 'scaffold', 'find-methods', 'relation-xpp', 'fields', 'table-relation', 'security'],
           description: 'pattern = X++ skeleton; scaffold = whole table/form/report (set objectType); find-methods/relation-xpp/fields/table-relation = X++/XML helpers for an existing table.',
         },
         name: {
           type: 'string',
-          description: 'REQUIRED. [pattern] element name (extensions: base element; form-datasource/control-extension: the FORM name). [scaffold] object name WITHOUT model prefix. [other modes] the existing table.',
+          description: 'REQUIRED. [pattern] element name (extensions: base element; form-datasource/control-extension: the FORM name). [scaffold] object name WITHOUT model prefix. [security] the form or its display menu item. [other modes] the existing table.',
         },
         modelName: { type: 'string', description: 'Model name (auto-detected). NEVER use placeholders like "MyModel".' },
         pattern: {
@@ -52,7 +53,7 @@ export const generateObjectTool = {
         },
         objectType: {
           type: 'string',
-          enum: ['table', 'form', 'report'],
+          enum: ['table', 'form', 'report', 'data-entity'],
           description: '[scaffold] REQUIRED. Kind of object to generate.',
         },
         params: {
@@ -13,6 +13,9 @@ export const labelsTool = {
       '• create → add a new label to an AxLabelFile across every language .label.txt (write). Label IDs describe MEANING — never add a model prefix; target the model\'s ORIGINAL label file, never an …_Extension… file. Pass createIfMissing=true to reuse an existing label instead of reporting it — one call, no search first. Bulk: pass labels:[{labelId, translations}, …] with shared labelFileId/model at top level.\n' +
       '• update → overwrite the text of an EXISTING label; same args as create with corrected translations[] (write).\n' +
       '• rename → rename a label ID across .label.txt + X++ + XML + index. Use dryRun=true first (write).\n' +
+      '• gaps → missing/untranslated/orphaned IDs per language vs en-US; format="xliff" exports, xliff= imports (write).\n' +
+      '• audit → a model\'s unused labels, duplicate texts and hardcoded strings (with an exact @SYS match).\n' +
+      '• extract → move a class/form\'s hardcoded strings into labels, rewrite its source; one diff (write).\n' +
       'Write plumbing (paths, languages, sortLabels, allowExtensionLabelFile…) is auto-resolved; ' +
       'override it via get_knowledge(kind="op-spec", topic="labels").',
     inputSchema: {
@@ -25,17 +28,17 @@ export const labelsTool = {
         },
         action: {
           type: 'string',
-          enum: ['search', 'info', 'create', 'update', 'rename', 'list', 'list-files'],
+          enum: ['search', 'info', 'create', 'update', 'rename', 'gaps', 'audit', 'extract', 'list', 'list-files'],
           description: 'Label operation to perform. "list"/"list-files" are aliases of "info" (lists label files).',
         },
         // shared filters
         model: {
           type: 'string',
-          description: '[search|info|create|update|rename] Model that owns the label file (e.g. ContosoExt).',
+          description: '[search|info|create|update|rename|gaps|audit|extract] Model that owns the label file (e.g. ContosoExt).',
         },
         labelFileId: {
           type: 'string',
-          description: '[search|info|create|update|rename] AxLabelFile ID (e.g. ContosoExt, SYS). For action=info with no labelId, returns the physical .label.txt path per language. For create/update/rename use the model\'s ORIGINAL label file, not an extension (…_Extension…). For a NEW label file this ID is the MODEL name, never the bare EXTENSION_PREFIX.',
+          description: '[search|info|create|update|rename|gaps|extract] AxLabelFile ID (e.g. ContosoExt, SYS). For action=info with no labelId, returns the physical .label.txt path per language. For create/update/rename use the model\'s ORIGINAL label file, not an extension (…_Extension…). For a NEW label file this ID is the MODEL name, never the bare EXTENSION_PREFIX.',
         },
         language: {
           type: 'string',
@@ -45,7 +48,7 @@ export const labelsTool = {
           type: 'number',
           description: '[search] Max labels listed (default 10, alias `limit`); a truncated set reports how many more matched.',
         },
-        limit: { type: 'number', description: '[search] Alias of maxResults.' },
+        limit: { type: 'number', description: '[search] Alias of maxResults. [gaps|audit] IDs per section.' },
         verbose: {
           type: 'boolean',
           description: '[search] Default one line per label; true = full multi-line block.',
@@ -111,8 +114,13 @@ export const labelsTool = {
         },
         dryRun: {
           type: 'boolean',
-          description: '[rename] Preview changes without writing anything (default: false). Use this first!',
+          description: '[rename|extract] Preview changes without writing anything (default: false). Use this first!',
         },
+        objectType: { type: 'string', enum: ['class', 'form'], description: '[extract] REQUIRED.' },
+        objectName: { type: 'string', description: '[extract] REQUIRED. Class or form name.' },
+        format: { type: 'string', enum: ['text', 'xliff'], description: '[gaps] xliff = XLIFF 1.2 export.' },
+        outputPath: { type: 'string', description: '[gaps] Export file.' },
+        xliff: { type: 'string', description: '[gaps] XLIFF to import (content or path).' },
       },
       required: ['action'],
     },
@@ -7,6 +7,7 @@
 export const reviewWorkspaceChangesTool = {
     name: 'review_workspace_changes',
     description: 'Code review of uncommitted X++ changes (git diff HEAD): BP violations, missing labels, CoC patterns. ' +
+      'AOT XML comes as a semantic diff (fields, indexes, methods + X++ diff, moved controls). ' +
       'Windows/local mode only. NOT for verifying writes (use verify_d365fo_project + get_object_info instead). ' +
       'If the diff looks truncated, do NOT read .xml/.xpp via built-in tools — proceed with the visible portion or narrow the scope.',
     inputSchema: {
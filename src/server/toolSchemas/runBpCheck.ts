@@ -27,6 +27,7 @@ export const runBpCheckTool = {
         targetElementType: { type: 'string', description: 'Element type for targetFilter. Looked up in the symbol index if omitted; ambiguous or unknown names error rather than being assumed to be a class.' },
         modelName: { type: 'string', description: 'Model name to check. Auto-detected from .mcp.json if omitted.' },
         packagePath: { type: 'string', description: 'PackagesLocalDirectory root path. Auto-detected from .mcp.json if omitted.' },
+        outputFormat: { type: 'string', enum: ['sarif', 'junit', 'json'], description: 'CI pipeline report instead of the readable summary.' },
       },
       required: [],
     },
@@ -9,14 +9,16 @@ export const securityInfoTool = {
     description:
       'D365FO security lookup. Choose a `mode`:\n' +
       '• artifact → details + full hierarchy of a named privilege/duty/role (Role → Duties → Privileges → Entry Points).\n' +
-      '• coverage → reverse chain for an object: which privileges/duties/roles grant access (object → menu items → privileges → duties → roles).',
+      '• coverage → reverse chain for an object: which privileges/duties/roles grant access (object → menu items → privileges → duties → roles).\n' +
+      '• sod → segregation-of-duties: every role (with role/duty extensions) against conflict rules from a repo JSON file; lists each conflicting role with the privilege paths behind it.\n' +
+      '• matrix → one role\'s effective permissions as CSV: entry point, max access, granting paths, security policies.',
     inputSchema: {
       type: 'object',
       properties: {
         mode: {
           type: 'string',
-          enum: ['artifact', 'coverage'],
-          description: 'artifact = look up a named privilege/duty/role; coverage = who can access an object.',
+          enum: ['artifact', 'coverage', 'sod', 'matrix'],
+          description: 'artifact = look up a named privilege/duty/role; coverage = who can access an object; sod = SoD conflict check; matrix = permission matrix of a role.',
         },
         // mode=artifact
         name: { type: 'string', description: '[artifact] REQUIRED. Name of the security privilege, duty, or role' },
@@ -34,6 +36,10 @@ export const securityInfoTool = {
           description: '[coverage] Type of the object (default: auto-detect)',
           default: 'auto',
         },
+        // mode=sod
+        rulesPath: { type: 'string', description: '[sod] Rule file (default: .d365fo-mcp/sod-rules.json in the workspace)' },
+        // mode=matrix
+        role: { type: 'string', description: '[matrix] REQUIRED. Security role name' },
       },
       required: ['mode'],
     },
@@ -6,12 +6,18 @@
 
 export const undoLastModificationTool = {
     name: 'undo_last_modification',
-    description: 'Safely roll back incorrectly generated code by restoring a file to its last committed state. If the file is tracked by git, runs git checkout HEAD — this discards ALL uncommitted changes to the file, not just the most recent edit (the "last modification" name is historical). If the file is untracked (newly created), deletes it.\n\nAlso re-syncs the symbol/label index to the restored content — prefer this over a manual git revert or editor undo, which leave the index stale and (for .xml/.xpp) can desync the VS 2022 in-memory model.\n\n⚠️ Local companion tool: available only in write-only/local mode (Windows VM).',
+    description: 'Roll back write-tool changes. Without filePath it uses the change journal — per model, on disk, so it survives restarts and works outside git: steps=N undoes the last N changes, toCheckpoint rolls back to a named checkpoint, checkpoint sets one, history=true lists them. Refuses over edits made outside the journal unless force=true.\n\nWith filePath: git checkout HEAD of that file (discards ALL its uncommitted changes) or deletes it if untracked and created this session.\n\nRe-syncs the symbol/label index — prefer this over a manual revert.\n\n⚠️ Local companion tool: write-only/local mode only (Windows VM).',
     inputSchema: {
       type: 'object',
       properties: {
-        filePath: { type: 'string', description: 'Absolute path to the file to restore to HEAD (or delete, if untracked)' },
+        filePath: { type: 'string', description: 'Restore one file via git instead of the journal' },
+        steps: { type: 'number', description: 'Changes to undo (default 1)' },
+        toCheckpoint: { type: 'string', description: 'Undo back to this checkpoint' },
+        checkpoint: { type: 'string', description: 'Set a checkpoint with this name' },
+        history: { type: 'boolean', description: 'List the journal' },
+        limit: { type: 'number', description: 'history entries (default 20)' },
+        model: { type: 'string', description: 'Journal model (default: configured)' },
+        force: { type: 'boolean', description: 'Undo over outside edits' },
       },
-      required: ['filePath'],
     },
   };
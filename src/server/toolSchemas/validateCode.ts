@@ -33,6 +33,10 @@ export const validateCodeTool = {
           type: 'string',
           description: 'Optional: owning class/table name, used in diagnostic messages.',
         },
+        fix: {
+          type: 'boolean',
+          description: '[syntax] Apply mechanical fixes (SEL001, COC001/002, BP004, XML006); returns fixed source + unified diff.',
+        },
       },
       required: ['mode', 'code'],
     },
@@ -6,6 +6,7 @@
  *   • implementations → real implementations of a similar method
  *   • completeness    → missing standard methods on a class
  *   • api-usage       → how an API is initialized and called
+ *   • impact          → what a change to an EDT, field or method reaches
  *
  * Handler files stay where they are — only the MCP surface is consolidated.
  */
@@ -17,8 +18,9 @@ import { analyzeCodePatternsTool } from '../knowledge/analyzePatterns.js';
 import { suggestMethodImplementationTool } from '../smart/suggestImplementation.js';
 import { analyzeClassCompletenessTool } from './analyzeCompleteness.js';
 import { getApiUsagePatternsTool } from '../knowledge/apiUsagePatterns.js';
+import { analyzeImpactTool } from './impactAnalysis.js';
 
-export const ANALYZE_MODES = ['patterns', 'implementations', 'completeness', 'api-usage'] as const;
+export const ANALYZE_MODES = ['patterns', 'implementations', 'completeness', 'api-usage', 'impact'] as const;
 export type AnalyzeMode = (typeof ANALYZE_MODES)[number];
 
 type AnalyzeTool = (request: CallToolRequest, context: XppServerContext) => Promise<any>;
@@ -28,13 +30,15 @@ const ANALYZE_DISPATCH: Record<AnalyzeMode, { tool: AnalyzeTool; toolName: strin
   implementations: { tool: suggestMethodImplementationTool, toolName: 'suggest_method_implementation' },
   completeness:    { tool: analyzeClassCompletenessTool,    toolName: 'analyze_class_completeness' },
   'api-usage':     { tool: getApiUsagePatternsTool,         toolName: 'get_api_usage_patterns' },
+  impact:          { tool: analyzeImpactTool,               toolName: 'analyze_impact' },
 };
 
 const AnalyzeCodeArgsSchema = z
   .object({
     mode: z.enum(ANALYZE_MODES).describe(
       'patterns (scenario → common classes/methods), implementations (className+methodName → real examples), ' +
-      'completeness (className → missing standard methods), api-usage (apiName → init/call patterns).',
+      'completeness (className → missing standard methods), api-usage (apiName → init/call patterns), ' +
+      'impact (target → what a change to it reaches).',
     ),
   })
   .passthrough();
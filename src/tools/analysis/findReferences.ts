@@ -28,7 +28,7 @@ const FindReferencesArgsSchema = z.object({
  * the xref path "/<Container>/<Owner>/<Methods|Fields>/<member>" is built from.
  * Enums are intentionally absent: their values are not methods or fields here.
  */
-const TYPE_TO_XREF_CONTAINER: Record<string, string> = {
+export const TYPE_TO_XREF_CONTAINER: Record<string, string> = {
   table: 'Tables',
   class: 'Classes',
   form: 'Forms',
@@ -0,0 +1,542 @@
+/**
+ * analyze_code(mode="impact") — what a change to an EDT, a table field or a
+ * method reaches, found before the refactor instead of by the build after it.
+ *
+ * find_references answers "who names this"; a refactor needs the transitive
+ * answer. Changing an EDT's string size changes every EDT extending it, every
+ * field typed by any of them, every data entity mapping those fields, every
+ * relation constrained on them, every form showing their tables, and every
+ * caller of a method returning the type. The walk:
+ *
+ *   EDT ─ edt_metadata.extends ──────────▶ derived EDTs
+ *       ─ field signature ───────────────▶ table fields ─┬─ entity DataField ─▶ data entities
+ *       ─ method signature ──────────────▶ methods       ├─ table_relations ──▶ relations
+ *                                             │          ├─ form_datasources ─▶ forms
+ *                                             ▼          └─ X++ `.field` ─────▶ code (field target)
+ *                                          callers (xref bridge, else by name)
+ *
+ * Each group says what joined it to the target, because the joins differ in
+ * strength: a derived EDT is certain, an entity matched by its DataField name
+ * is a candidate — the index does not record an entity field's data source.
+ * Groups are ranked by how directly the change reaches them, and within each,
+ * custom objects (the ones to fix) come before standard ones (the ones to
+ * check compile).
+ */
+
+import type { CallToolRequest } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import type { XppServerContext } from '../../types/context.js';
+import type { BridgeClient } from '../../bridge/bridgeClient.js';
+import { bridgeReferenceRows } from '../../bridge/bridgeAdapter.js';
+import { detectObjectTypeInDb } from '../../utils/metadataResolver.js';
+import { isCustomModel } from '../../utils/modelClassifier.js';
+import { canonicalSymbolName } from '../../utils/symbolLookup.js';
+import { TYPE_TO_XREF_CONTAINER } from './findReferences.js';
+
+const ImpactArgsSchema = z.object({
+  target: z.string().min(1).describe('EDT name, "Table.field", or "Owner.method".'),
+  targetType: z.enum(['edt', 'field', 'method']).optional()
+    .describe('Only needed when the name is ambiguous — a table field and a method of the same name.'),
+  limit: z.number().int().positive().optional().default(50).describe('Items shown per group.'),
+});
+
+export type ImpactTargetKind = 'edt' | 'field' | 'method';
+
+export type ImpactGroupKey =
+  | 'edts' | 'fields' | 'entities' | 'relations' | 'forms' | 'methods' | 'callers' | 'code';
+
+export interface ImpactItem {
+  object: string;
+  member?: string;
+  model: string;
+  /** What it is reached through, e.g. "extends CustAccount" or "relation CustTable". */
+  via?: string;
+  custom: boolean;
+}
+
+export interface ImpactGroup {
+  key: ImpactGroupKey;
+  title: string;
+  /** How the group was joined to the target — how far to trust it. */
+  basis: string;
+  items: ImpactItem[];
+}
+
+export interface ImpactReport {
+  target: string;
+  kind: ImpactTargetKind;
+  groups: ImpactGroup[];
+  /** Caps that were hit and joins that could not be made, in plain words. */
+  notes: string[];
+}
+
+/** Group order is rank order: the nearer the change, the earlier. */
+const GROUPS: Record<ImpactGroupKey, { title: string; basis: string }> = {
+  edts: {
+    title: 'Derived EDTs',
+    basis: 'edt_metadata.extends, transitively. They inherit the change unless they override the property.',
+  },
+  fields: {
+    title: 'Table fields',
+    basis: 'Typed by the EDT or one derived from it. A size change is a database sync on each table.',
+  },
+  entities: {
+    title: 'Data entity fields',
+    basis: 'DataField names one of the fields. The index does not record an entity field\'s data source — confirm the entity maps that table.',
+  },
+  relations: {
+    title: 'Table relations',
+    basis: 'table_relations constraints on the field, in either direction.',
+  },
+  forms: {
+    title: 'Forms',
+    basis: 'form_datasources on the table. Controls are not indexed; any control bound to the field is on one of these.',
+  },
+  methods: {
+    title: 'Methods returning the type',
+    basis: 'Method signatures whose return type is the EDT or one derived from it.',
+  },
+  callers: {
+    title: 'X++ callers',
+    basis: '',
+  },
+  code: {
+    title: 'X++ field access',
+    basis: 'Method source containing `.<field>` — by name, so same-named fields of other tables match too.',
+  },
+};
+
+/** Bridge where-used calls per report; each is a round trip to the xref DB. */
+const MAX_CALLER_LOOKUPS = 10;
+/** Fields followed into entities, relations and forms. */
+const MAX_FIELDS_FOLLOWED = 200;
+const MAX_DERIVED_EDTS = 500;
+
+type Db = any;
+
+// ── Queries ───────────────────────────────────────────────────────────────────
+
+/** `{column} : "term"` rows of one symbol type, or null when there is no FTS table. */
+function ftsCandidates(db: Db, column: string, term: string, type: string, limit: number): any[] | null {
+  const safe = term.replace(/["\(\)\\]/g, '').trim();
+  if (!safe) return [];
+  try {
+    return db.prepare(
+      `SELECT id, name, parent_name, signature, model, source_snippet FROM symbols
+        WHERE type = ?
+          AND id IN (SELECT rowid FROM symbols_fts WHERE symbols_fts MATCH ?)
+        LIMIT ?`,
+    ).all(type, `{${column}} : "${safe}"`, limit) as any[];
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The EDT's indexed casing. Exact probe first, then the name as the symbol
+ * index has it — `edt_name = ? COLLATE NOCASE` would scan edt_metadata.
+ */
+function canonicalEdt(db: Db, name: string): string | null {
+  try {
+    const probe = db.prepare('SELECT edt_name FROM edt_metadata WHERE edt_name = ? LIMIT 1');
+    if (probe.get(name)) return name;
+    const canonical = canonicalSymbolName(db, name, ['edt']);
+    return canonical && probe.get(canonical) ? canonical : null;
+  } catch {
+    return null;
+  }
+}
+
+/** A field or method row, after canonicalizing the owner so the lookup stays on idx_parent_type_name. */
+function memberRow(db: Db, owner: string, member: string, type: 'field' | 'method'): any | null {
+  try {
+    const parent = canonicalSymbolName(db, owner) ?? owner;
+    return db.prepare(
+      `SELECT name, parent_name, signature, model FROM symbols
+        WHERE parent_name = ? AND type = ? AND name = ? COLLATE NOCASE LIMIT 1`,
+    ).get(parent, type, member) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/** Breadth-first over edt_metadata.extends, so nearer descendants come first. */
+function derivedEdts(db: Db, root: string, notes: string[]): Array<{ name: string; model: string; parent: string }> {
+  const found: Array<{ name: string; model: string; parent: string }> = [];
+  const seen = new Set([root.toLowerCase()]);
+  const queue = [root];
+  let stmt;
+  try {
+    stmt = db.prepare('SELECT edt_name, model FROM edt_metadata WHERE extends = ?');
+  } catch {
+    return found;
+  }
+  while (queue.length > 0) {
+    const parent = queue.shift()!;
+    for (const row of stmt.all(parent) as Array<{ edt_name: string; model: string }>) {
+      if (seen.has(row.edt_name.toLowerCase())) continue;
+      seen.add(row.edt_name.toLowerCase());
+      if (found.length >= MAX_DERIVED_EDTS) {
+        notes.push(`More than ${MAX_DERIVED_EDTS} derived EDTs — the walk stopped there.`);
+        return found;
+      }
+      found.push({ name: row.edt_name, model: row.model, parent });
+      queue.push(row.edt_name);
+    }
+  }
+  return found;
+}
+
+function isViewName(db: Db, name: string): boolean {
+  try {
+    return !!db.prepare(`SELECT 1 FROM symbols WHERE type = 'view' AND name = ? LIMIT 1`).get(name);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * `type='field'` rows whose signature is `value` (case-insensitively, as X++
+ * compares type names), split into table and view/entity fields: a table
+ * field's signature is its EDT, a view field's is the field it maps.
+ */
+function fieldsWithSignature(db: Db, value: string): { tables: any[]; views: any[] } {
+  let rows = ftsCandidates(db, 'signature', value, 'field', 5000);
+  if (rows === null) {
+    try {
+      rows = db.prepare(
+        `SELECT name, parent_name, signature, model FROM symbols
+          WHERE type = 'field' AND signature = ? COLLATE NOCASE LIMIT 5000`,
+      ).all(value) as any[];
+    } catch {
+      rows = [];
+    }
+  }
+  const exact = rows.filter(r => (r.signature ?? '').toLowerCase() === value.toLowerCase());
+  const viewCache = new Map<string, boolean>();
+  const isView = (name: string) => {
+    if (!viewCache.has(name)) viewCache.set(name, isViewName(db, name));
+    return viewCache.get(name)!;
+  };
+  return {
+    tables: exact.filter(r => !isView(r.parent_name)),
+    views: exact.filter(r => isView(r.parent_name)),
+  };
+}
+
+/** Methods whose rendered signature (`<ReturnType> name(…)`) opens with `typeName`. */
+function methodsReturning(db: Db, typeName: string): any[] {
+  let rows = ftsCandidates(db, 'signature', typeName, 'method', 5000);
+  if (rows === null) {
+    try {
+      rows = db.prepare(
+        `SELECT name, parent_name, signature, model FROM symbols
+          WHERE type = 'method' AND signature LIKE ? LIMIT 5000`,
+      ).all(`${typeName} %`) as any[];
+    } catch {
+      rows = [];
+    }
+  }
+  const prefix = `${typeName.toLowerCase()} `;
+  return rows.filter(r => (r.signature ?? '').toLowerCase().startsWith(prefix));
+}
+
+function relationsOn(db: Db, table: string, field: string): ImpactItem[] {
+  let rows: any[];
+  try {
+    rows = db.prepare(
+      `SELECT source_table, target_table, relation_name, constraint_fields, model FROM table_relations
+        WHERE source_table = ? OR target_table = ?`,
+    ).all(table, table) as any[];
+  } catch {
+    return [];
+  }
+  const items: ImpactItem[] = [];
+  const f = field.toLowerCase();
+  for (const row of rows) {
+    let constraints: Array<{ field?: string; relatedField?: string }> = [];
+    try {
+      constraints = JSON.parse(row.constraint_fields ?? '[]');
+    } catch { /* unparseable row — no constraint to match */ }
+    const hit = constraints.some(c =>
+      (row.source_table === table && c.field?.toLowerCase() === f)
+      || (row.target_table === table && c.relatedField?.toLowerCase() === f));
+    if (!hit) continue;
+    items.push({
+      object: row.source_table,
+      member: row.relation_name,
+      model: row.model,
+      via: row.source_table === table ? `→ ${row.target_table}` : `on ${table}.${field}`,
+      custom: isCustomModel(row.model),
+    });
+  }
+  return items;
+}
+
+function formsOn(db: Db, table: string): ImpactItem[] {
+  try {
+    return (db.prepare(
+      'SELECT DISTINCT form_name, datasource_name, model FROM form_datasources WHERE table_name = ?',
+    ).all(table) as any[]).map(r => ({
+      object: r.form_name,
+      member: r.datasource_name,
+      model: r.model,
+      via: `data source on ${table}`,
+      custom: isCustomModel(r.model),
+    }));
+  } catch {
+    return [];
+  }
+}
+
+/** Method sources that contain `pattern`, found through the source_snippet FTS column. */
+function sourcesMatching(db: Db, term: string, pattern: RegExp, exclude?: { owner: string; name: string }): ImpactItem[] {
+  const rows = ftsCandidates(db, 'source_snippet', term, 'method', 500) ?? [];
+  return rows
+    .filter(r => pattern.test(r.source_snippet ?? ''))
+    .filter(r => !(exclude
+      && r.name?.toLowerCase() === exclude.name.toLowerCase()
+      && r.parent_name?.toLowerCase() === exclude.owner.toLowerCase()))
+    .map(r => ({
+      object: r.parent_name ?? r.name,
+      member: r.parent_name ? r.name : undefined,
+      model: r.model,
+      custom: isCustomModel(r.model),
+    }));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Callers of `owner.method`: the xref bridge, scoped to the declaring type,
+ * when it can answer; otherwise calls by name in the indexed sources.
+ */
+async function callersOf(
+  db: Db,
+  bridge: BridgeClient | undefined,
+  owner: string,
+  method: string,
+): Promise<{ items: ImpactItem[]; byName: boolean }> {
+  const containers = [...new Set(detectObjectTypeInDb(db, owner)
+    .map(t => TYPE_TO_XREF_CONTAINER[t.type])
+    .filter(Boolean))];
+  if (containers.length > 0) {
+    const items: ImpactItem[] = [];
+    let answered = true;
+    for (const container of containers) {
+      const rows = await bridgeReferenceRows(bridge, `/${container}/${owner}/Methods/${method}`);
+      if (rows === null) {
+        answered = false;
+        break;
+      }
+      for (const r of rows) {
+        const model = r.sourceModule ?? 'unknown';
+        items.push({
+          object: r.callerClass ?? r.sourcePath,
+          member: r.callerMethod,
+          model,
+          via: `calls ${owner}.${method}`,
+          custom: isCustomModel(model),
+        });
+      }
+    }
+    if (answered) return { items, byName: false };
+  }
+  const call = new RegExp(`(?:\\.|::)${escapeRegExp(method)}\\s*\\(`);
+  return {
+    items: sourcesMatching(db, method, call, { owner, name: method }).map(i => ({ ...i, via: `calls ${method}()` })),
+    byName: true,
+  };
+}
+
+// ── Walk ──────────────────────────────────────────────────────────────────────
+
+interface ResolvedTarget {
+  kind: ImpactTargetKind;
+  /** Canonical display name: `CustAccount`, `CustTable.AccountNum`, `CustTable.find`. */
+  name: string;
+  owner?: string;
+  member?: string;
+}
+
+function resolveTarget(db: Db, target: string, targetType?: ImpactTargetKind): ResolvedTarget | string {
+  const clean = target.replace(/\(.*$/, '').trim();
+  const dot = clean.lastIndexOf('.');
+  if (targetType === 'edt' || (!targetType && dot < 0)) {
+    const edt = canonicalEdt(db, clean);
+    if (edt) return { kind: 'edt', name: edt };
+    return `EDT "${clean}" is not in the index. For a field or a method, qualify it: "Table.field", "Owner.method".`;
+  }
+  if (dot < 0) return `A ${targetType} target needs its owner: "Owner.${clean}".`;
+  const owner = clean.slice(0, dot);
+  const member = clean.slice(dot + 1);
+  for (const type of targetType ? [targetType] : (['field', 'method'] as const)) {
+    const row = memberRow(db, owner, member, type);
+    if (row) return { kind: type, name: `${row.parent_name}.${row.name}`, owner: row.parent_name, member: row.name };
+  }
+  return `No ${targetType ?? 'field or method'} "${member}" on "${owner}" in the index.`;
+}
+
+function dedupe(items: ImpactItem[]): ImpactItem[] {
+  const seen = new Set<string>();
+  return items.filter(i => {
+    const key = `${i.object}|${i.member ?? ''}`.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/** Custom before standard, then by object and member name. */
+function rank(items: ImpactItem[]): ImpactItem[] {
+  return dedupe(items).sort((a, b) =>
+    Number(b.custom) - Number(a.custom)
+    || a.object.localeCompare(b.object)
+    || (a.member ?? '').localeCompare(b.member ?? ''));
+}
+
+export async function buildImpactReport(
+  db: Db,
+  bridge: BridgeClient | undefined,
+  target: string,
+  targetType?: ImpactTargetKind,
+): Promise<ImpactReport | { error: string }> {
+  const resolved = resolveTarget(db, target, targetType);
+  if (typeof resolved === 'string') return { error: resolved };
+
+  const notes: string[] = [];
+  const found: Partial<Record<ImpactGroupKey, ImpactItem[]>> = {};
+  const add = (key: ImpactGroupKey, items: ImpactItem[]) => {
+    found[key] = [...(found[key] ?? []), ...items];
+  };
+
+  let fields: Array<{ table: string; field: string }> = [];
+  let methods: Array<{ owner: string; name: string }> = [];
+
+  if (resolved.kind === 'edt') {
+    const derived = derivedEdts(db, resolved.name, notes);
+    add('edts', derived.map(d => ({
+      object: d.name, model: d.model, via: `extends ${d.parent}`, custom: isCustomModel(d.model),
+    })));
+    for (const edt of [resolved.name, ...derived.map(d => d.name)]) {
+      const typed = fieldsWithSignature(db, edt).tables;
+      add('fields', typed.map(r => ({
+        object: r.parent_name, member: r.name, model: r.model, via: `typed ${edt}`, custom: isCustomModel(r.model),
+      })));
+      fields.push(...typed.map(r => ({ table: r.parent_name, field: r.name })));
+      const returning = methodsReturning(db, edt);
+      add('methods', returning.map(r => ({
+        object: r.parent_name, member: r.name, model: r.model, via: `returns ${edt}`, custom: isCustomModel(r.model),
+      })));
+      methods.push(...returning.map(r => ({ owner: r.parent_name, name: r.name })));
+    }
+  } else if (resolved.kind === 'field') {
+    fields = [{ table: resolved.owner!, field: resolved.member! }];
+  } else {
+    methods = [{ owner: resolved.owner!, name: resolved.member! }];
+  }
+
+  if (fields.length > MAX_FIELDS_FOLLOWED) {
+    notes.push(`${fields.length} fields — entities, relations and forms followed for the first ${MAX_FIELDS_FOLLOWED}.`);
+    fields = fields.slice(0, MAX_FIELDS_FOLLOWED);
+  }
+  const tablesSeen = new Set<string>();
+  for (const { table, field } of fields) {
+    add('entities', fieldsWithSignature(db, field).views.map(r => ({
+      object: r.parent_name, member: r.name, model: r.model, via: `DataField ${field}`, custom: isCustomModel(r.model),
+    })));
+    add('relations', relationsOn(db, table, field));
+    if (!tablesSeen.has(table.toLowerCase())) {
+      tablesSeen.add(table.toLowerCase());
+      add('forms', formsOn(db, table));
+    }
+  }
+  if (resolved.kind === 'field') {
+    const access = new RegExp(`\\.${escapeRegExp(resolved.member!)}\\b`);
+    add('code', sourcesMatching(db, resolved.member!, access).map(i => ({ ...i, via: `.${resolved.member}` })));
+  }
+
+  let callersByName = false;
+  if (methods.length > MAX_CALLER_LOOKUPS) {
+    notes.push(`${methods.length} methods return the type — callers looked up for the first ${MAX_CALLER_LOOKUPS}.`);
+  }
+  for (const m of methods.slice(0, MAX_CALLER_LOOKUPS)) {
+    const { items, byName } = await callersOf(db, bridge, m.owner, m.name);
+    callersByName ||= byName;
+    add('callers', items);
+  }
+
+  const groups = (Object.keys(GROUPS) as ImpactGroupKey[])
+    .filter(key => (found[key]?.length ?? 0) > 0)
+    .map(key => ({
+      key,
+      title: GROUPS[key].title,
+      basis: key === 'callers'
+        ? (callersByName
+          ? 'Calls by method name in the indexed sources — the xref bridge was not available, so same-named methods of other types match too.'
+          : 'DYNAMICSXREFDB where-used, scoped to the declaring type.')
+        : GROUPS[key].basis,
+      items: rank(found[key]!),
+    }));
+  return { target: resolved.name, kind: resolved.kind, groups, notes };
+}
+
+// ── Rendering ────────────────────────────────────────────────────────────────
+
+const KIND_LABEL: Record<ImpactTargetKind, string> = { edt: 'EDT', field: 'field', method: 'method' };
+
+function renderItem(i: ImpactItem): string {
+  const name = i.member ? `${i.object}.${i.member}` : i.object;
+  return `- \`${name}\` (${i.model})${i.via ? ` — ${i.via}` : ''}`;
+}
+
+export function formatImpactReport(report: ImpactReport, limit: number): string {
+  const objects = new Map<string, boolean>();
+  for (const g of report.groups) for (const i of g.items) objects.set(i.object.toLowerCase(), i.custom);
+  const custom = [...objects.values()].filter(Boolean).length;
+
+  const lines = [
+    `# Impact of changing \`${report.target}\` (${KIND_LABEL[report.kind]})`,
+    '',
+    `**Blast radius:** ${objects.size} object(s) — ${custom} custom, ${objects.size - custom} standard`,
+    '_Groups are ranked by how directly the change reaches them; custom objects, the ones to fix, come first in each._',
+  ];
+  if (report.groups.length === 0) {
+    lines.push('', 'Nothing in the index depends on it. Objects created this session and not yet indexed are not seen — update_symbol_index them first.');
+  }
+  report.groups.forEach((g, n) => {
+    const c = g.items.filter(i => i.custom).length;
+    lines.push('', `## ${n + 1}. ${g.title} (${g.items.length} — ${c} custom, ${g.items.length - c} standard)`, `_${g.basis}_`);
+    const shown = g.items.slice(0, limit);
+    const customShown = shown.filter(i => i.custom);
+    const standardShown = shown.filter(i => !i.custom);
+    if (customShown.length > 0) lines.push('**Custom**', ...customShown.map(renderItem));
+    if (standardShown.length > 0) lines.push('**Standard**', ...standardShown.map(renderItem));
+    if (g.items.length > shown.length) lines.push(`_… and ${g.items.length - shown.length} more — raise \`limit\` to see them._`);
+  });
+  if (report.notes.length > 0) lines.push('', '## Notes', ...report.notes.map(n => `- ${n}`));
+  return `${lines.join('\n')}\n`;
+}
+
+export async function analyzeImpactTool(request: CallToolRequest, context: XppServerContext) {
+  try {
+    const args = ImpactArgsSchema.parse(request.params.arguments);
+    const report = await buildImpactReport(
+      context.symbolIndex.getReadDb(), context.bridge, args.target, args.targetType,
+    );
+    if ('error' in report) {
+      return { content: [{ type: 'text', text: `❌ ${report.error}` }], isError: true };
+    }
+    return { content: [{ type: 'text', text: formatImpactReport(report, args.limit) }] };
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Error analyzing impact: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      }],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,299 @@
+/**
+ * Label Audit Tool
+ * Finds the label debt of one model:
+ *  1. Unused labels — in the model's label files, referenced by nothing
+ *  2. Duplicate texts — several IDs of the model carrying the same en-US text
+ *  3. Hardcoded strings — <Label>/<HelpText>/<Caption> values and
+ *     info()/warning()/error()/checkFailed() arguments that are literal text
+ *     instead of an `@File:Id` reference, each with an existing label proposed
+ *     when one has exactly that text
+ *
+ * The model's labels come from the label index; the references from the
+ * model's own XML on disk (one pass, every AOT folder), and — for the labels
+ * nothing in the model references — from the cross-reference DB through the
+ * bridge, which also sees references from other models. Without the bridge a
+ * label used only by another model is reported as unused, and the report says so.
+ */
+
+import type { CallToolRequest } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { XppServerContext } from '../../types/context.js';
+import type { XppSymbolIndex } from '../../metadata/symbolIndex.js';
+import type { BridgeClient } from '../../bridge/bridgeClient.js';
+import { bridgeReferenceRows } from '../../bridge/bridgeAdapter.js';
+import { mapWithConcurrency } from '../../utils/concurrency.js';
+import { formatLabelReference } from '../../utils/labelReference.js';
+import { isCustomModel } from '../../utils/modelClassifier.js';
+import { hardcodedMessagesInXml } from './validateXpp.js';
+import { resolveLabelModelDir } from './labelGaps.js';
+
+const LabelAuditArgsSchema = z.object({
+  model: z.string().describe('Model to audit (e.g. ContosoExt)'),
+  labelFileId: z.string().optional().describe('Audit only the labels of this label file'),
+  limit: z.number().int().positive().optional().default(25).describe('Entries listed per section'),
+  packageName: z.string().optional().describe('Package name for the model. Auto-resolved if omitted.'),
+  packagePath: z.string().optional().describe('Root packages path. Auto-detected if omitted.'),
+});
+
+/** XML properties whose value is user-facing text — a literal there fails BPErrorLabelIsText. */
+const LABEL_PROPERTIES = ['Label', 'HelpText', 'Caption'] as const;
+
+/** Cross-reference lookups per audit; each is one bridge round trip. */
+const MAX_XREF_LOOKUPS = 300;
+const XREF_CONCURRENCY = 4;
+
+const LABEL_REF = /@([A-Za-z_][A-Za-z0-9_]*):([A-Za-z_][A-Za-z0-9_]*)/g;
+
+export interface HardcodedString {
+  /** `AxForm/ConDemoForm` — the AOT folder and object. */
+  object: string;
+  line: number;
+  /** `<Caption>` for a property, the call excerpt for X++. */
+  where: string;
+  text: string;
+  /** An existing label with exactly this text, standard @SYS first. */
+  proposal?: string;
+}
+
+export interface LabelAuditReport {
+  model: string;
+  labelCount: number;
+  unused: Array<{ ref: string; text: string }>;
+  duplicates: Array<{ text: string; refs: string[]; keep: string }>;
+  hardcoded: HardcodedString[];
+  /** How "referenced" was established — the caveat the unused list depends on. */
+  basis: string;
+  /** Object files read. */
+  files: number;
+}
+
+/** Every object XML under the model folder, label resources excluded. */
+async function objectFiles(dir: string): Promise<string[]> {
+  const out: string[] = [];
+  let entries: import('fs').Dirent[];
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return out;
+  }
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name.toLowerCase() !== 'axlabelfile') out.push(...(await objectFiles(full)));
+    } else if (entry.name.toLowerCase().endsWith('.xml')) {
+      out.push(full);
+    }
+  }
+  return out;
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function lineAt(text: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset; i++) if (text.charCodeAt(i) === 10) line++;
+  return line;
+}
+
+/** The label references and the hardcoded strings of one object's XML. */
+export function scanObjectXml(xml: string, object: string): { refs: string[]; hardcoded: HardcodedString[] } {
+  const refs = [...xml.matchAll(LABEL_REF)].map(m => `${m[1]}:${m[2]}`);
+  const hardcoded: HardcodedString[] = [];
+  const props = new RegExp(`<(${LABEL_PROPERTIES.join('|')})>([^<]+)</\\1>`, 'g');
+  for (const m of xml.matchAll(props)) {
+    const text = unescapeXml(m[2]).trim();
+    // A reference, or text with nothing to translate ("%1", "-").
+    if (text.startsWith('@') || !/\p{L}/u.test(text)) continue;
+    hardcoded.push({ object, line: lineAt(xml, m.index ?? 0), where: `<${m[1]}>`, text });
+  }
+  if (xml.includes('<Source>')) {
+    for (const msg of hardcodedMessagesInXml(xml)) {
+      if (!/\p{L}/u.test(msg.text)) continue;
+      hardcoded.push({ object, line: msg.line, where: msg.excerpt, text: msg.text });
+    }
+  }
+  return { refs, hardcoded };
+}
+
+/**
+ * An existing label whose en-US text is exactly `text`: from SYS first, then any
+ * other standard label file, then the audited model's own.
+ */
+export function proposeLabel(symbolIndex: XppSymbolIndex, text: string, model: string): string | undefined {
+  let hits: ReturnType<XppSymbolIndex['searchLabels']>;
+  try {
+    hits = symbolIndex.searchLabels(text, { language: 'en-US', limit: 50 });
+  } catch {
+    return undefined;
+  }
+  const exact = hits.filter(h => h.text.trim() === text);
+  const rank = (h: (typeof exact)[number]) =>
+    h.labelFileId.toUpperCase() === 'SYS' ? 0 : !isCustomModel(h.model) ? 1 : h.model === model ? 2 : 3;
+  const best = exact.filter(h => rank(h) < 3).sort((a, b) => rank(a) - rank(b))[0];
+  return best ? formatLabelReference(best.labelFileId, best.labelId) : undefined;
+}
+
+export async function buildLabelAudit(
+  symbolIndex: XppSymbolIndex,
+  bridge: BridgeClient | undefined,
+  modelDir: string,
+  args: { model: string; labelFileId?: string },
+): Promise<LabelAuditReport> {
+  const { model } = args;
+  const labels = symbolIndex.getModelLabels(model, { labelFileId: args.labelFileId });
+
+  // 1. One pass over the model's objects: references and literals together.
+  const referenced = new Set<string>();
+  const hardcoded: HardcodedString[] = [];
+  const files = await objectFiles(modelDir);
+  for (const file of files) {
+    const xml = await fs.readFile(file, 'utf-8');
+    const object = `${path.basename(path.dirname(file))}/${path.basename(file, path.extname(file))}`;
+    const scan = scanObjectXml(xml, object);
+    for (const ref of scan.refs) referenced.add(ref);
+    hardcoded.push(...scan.hardcoded);
+  }
+
+  // 2. What the model does not reference itself, the xref DB may see elsewhere.
+  const key = (l: { labelFileId: string; labelId: string }) => `${l.labelFileId}:${l.labelId}`;
+  const candidates = labels.filter(l => !referenced.has(key(l)));
+  let basis = `referenced = an \`@File:Id\` in this model's ${files.length} object file(s)`;
+  let unusedLabels = candidates;
+  const xrefLive = bridge?.isReady && bridge.xrefAvailable;
+  if (xrefLive && candidates.length > 0) {
+    const checked = candidates.slice(0, MAX_XREF_LOOKUPS);
+    const rows = await mapWithConcurrency(checked, XREF_CONCURRENCY,
+      l => bridgeReferenceRows(bridge, `/Labels/@${key(l)}`));
+    unusedLabels = checked.filter((_, i) => rows[i] !== null && rows[i]!.length === 0);
+    const unanswered = rows.filter(r => r === null).length;
+    basis += ' or in the cross-reference DB (every model)';
+    if (unanswered > 0) basis += `; ${unanswered} xref lookup(s) failed and are left out`;
+    if (candidates.length > checked.length) {
+      basis += `; only the first ${MAX_XREF_LOOKUPS} of ${candidates.length} candidates were checked in xref`;
+    }
+  } else if (candidates.length > 0) {
+    basis += '. The xref bridge was not available, so a label used only by ANOTHER model is listed here too';
+  }
+  const unused = unusedLabels.map(l => ({ ref: formatLabelReference(l.labelFileId, l.labelId), text: l.text }));
+
+  // 3. Duplicate texts — case and surrounding space do not make a second label.
+  const byText = new Map<string, typeof labels>();
+  for (const l of labels) {
+    const norm = l.text.trim().toLowerCase();
+    if (!/\p{L}/u.test(norm)) continue;
+    if (!byText.has(norm)) byText.set(norm, []);
+    byText.get(norm)!.push(l);
+  }
+  const duplicates = [...byText.values()]
+    .filter(group => group.length > 1)
+    .map(group => {
+      const keep = group.find(l => referenced.has(key(l))) ?? group[0];
+      return {
+        text: group[0].text.trim(),
+        refs: group.map(l => formatLabelReference(l.labelFileId, l.labelId)),
+        keep: formatLabelReference(keep.labelFileId, keep.labelId),
+      };
+    })
+    .sort((a, b) => b.refs.length - a.refs.length || a.text.localeCompare(b.text));
+
+  // 4. A proposal per distinct literal, looked up once.
+  const proposals = new Map<string, string | undefined>();
+  for (const h of hardcoded) {
+    if (!proposals.has(h.text)) proposals.set(h.text, proposeLabel(symbolIndex, h.text, model));
+    const proposal = proposals.get(h.text);
+    if (proposal) h.proposal = proposal;
+  }
+
+  return { model, labelCount: labels.length, unused, duplicates, hardcoded, basis, files: files.length };
+}
+
+function section<T>(
+  lines: string[],
+  title: string,
+  items: T[],
+  limit: number,
+  render: (item: T) => string,
+  note?: string,
+): void {
+  lines.push(`## ${title} (${items.length})`, '');
+  if (items.length === 0) {
+    lines.push('_None._', '');
+    return;
+  }
+  if (note) lines.push(`_${note}_`, '');
+  lines.push(...items.slice(0, limit).map(render));
+  if (items.length > limit) lines.push(`_… and ${items.length - limit} more — raise \`limit\` to see them._`);
+  lines.push('');
+}
+
+export function formatLabelAudit(report: LabelAuditReport, limit: number): string {
+  const lines: string[] = [
+    `# Label audit — ${report.model}`,
+    '',
+    `**${report.labelCount}** label(s) in en-US · **${report.unused.length}** unused · ` +
+    `**${report.duplicates.length}** duplicate text(s) · **${report.hardcoded.length}** hardcoded string(s)`,
+    '',
+  ];
+  if (report.labelCount === 0) {
+    lines.push(`⚠️ No labels of ${report.model} are in the label index — the unused and duplicate checks had ` +
+      'nothing to read. Run build-database with INCLUDE_LABELS=true.', '');
+  }
+
+  section(lines, '1. Unused labels', report.unused, limit, u => `- \`${u.ref}\` — "${u.text}"`,
+    `Basis: ${report.basis}.`);
+
+  section(lines, '2. Duplicate texts', report.duplicates, limit,
+    d => `- "${d.text}" — ${d.refs.map(r => `\`${r}\``).join(', ')} → keep \`${d.keep}\``);
+
+  section(lines, '3. Hardcoded strings', report.hardcoded, limit, h =>
+    `- ${h.object}:${h.line} \`${h.where}\` "${h.text}" → ` +
+    (h.proposal ? `\`${h.proposal}\`` : 'no label has this exact text — labels(action="create")'));
+
+  if (report.unused.length + report.duplicates.length + report.hardcoded.length > 0) {
+    lines.push(
+      '💡 Remove an unused label only after a build: a reference assembled at runtime (strFmt of an ID) ' +
+      'is invisible to both the scan and the xref DB. Merge a duplicate by pointing the spare ID\'s ' +
+      'references (find_references targetType="label") at the kept one, then delete the spare.',
+    );
+  }
+  return lines.join('\n');
+}
+
+export async function labelAuditTool(request: CallToolRequest, context: XppServerContext) {
+  try {
+    const parsed = LabelAuditArgsSchema.safeParse(request.params.arguments ?? {});
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+      return {
+        content: [{ type: 'text', text: `❌ labels(action="audit"): invalid arguments — ${issues}.\nExample: labels(action="audit", model="ContosoExt")` }],
+        isError: true,
+      };
+    }
+    const args = parsed.data;
+    const modelDir = await resolveLabelModelDir(args);
+    try {
+      await fs.access(modelDir);
+    } catch {
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Model folder not found: ${modelDir}\n\nThe audit reads the model's XML on disk — check model, packageName and packagePath.`,
+        }],
+        isError: true,
+      };
+    }
+    const report = await buildLabelAudit(context.symbolIndex, context.bridge, modelDir, args);
+    return { content: [{ type: 'text', text: formatLabelAudit(report, args.limit) }] };
+  } catch (err) {
+    return {
+      content: [{ type: 'text', text: `Error auditing labels: ${err instanceof Error ? err.message : String(err)}` }],
+      isError: true,
+    };
+  }
+}
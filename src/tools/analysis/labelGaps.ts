@@ -0,0 +1,352 @@
+/**
+ * Label Gaps Tool
+ * Compares every language .label.txt of a model against the source language
+ * and reports what translators still owe:
+ *  - missing    — in the source language, absent from the target
+ *  - identical  — present, but still the source text copied verbatim
+ *  - orphaned   — in the target, absent from the source (a renamed or deleted label)
+ *
+ * The files on disk are compared, not the index: LABEL_LANGUAGES usually keeps
+ * the index to one or two locales, and a gap report that only sees en-US has
+ * nothing to compare.
+ *
+ * format="xliff" exports the missing and identical labels as XLIFF 1.2 for
+ * offline translation; `xliff` imports the translated document back through
+ * createLabelTool, so sorting, EOL preservation, the cross-model guard and the
+ * index update are the same as for a hand-written labels(action="update").
+ */
+
+import type { CallToolRequest } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { XppServerContext } from '../../types/context.js';
+import { getConfigManager } from '../../utils/configManager.js';
+import { defaultPackagesRoot } from '../../utils/packagesRoot.js';
+import { PackageResolver } from '../../utils/packageResolver.js';
+import { buildXliff, parseXliff, type XliffFile } from '../../utils/xliff.js';
+import { discoverLabelFiles, parseLabelFile, type ParsedLabel } from '../../metadata/labelParser.js';
+import { createLabelTool, type SingleLabelRunner } from '../write/createLabel.js';
+
+const LabelGapsArgsSchema = z.object({
+  model: z.string().describe('Model whose label files are compared (e.g. ContosoExt)'),
+  labelFileId: z.string().optional().describe('Compare only this label file. Default: every label file of the model.'),
+  sourceLanguage: z.string().optional().default('en-US').describe('Language the others are compared against (default en-US)'),
+  languages: z.array(z.string()).optional().describe('Target languages to compare. Default: every language on disk.'),
+  format: z.enum(['text', 'xliff']).optional().default('text')
+    .describe('text = gap report; xliff = the missing and identical labels as an XLIFF 1.2 document'),
+  outputPath: z.string().optional().describe('[xliff] Write the XLIFF document to this file instead of returning it'),
+  xliff: z.string().optional().describe('Import: a translated XLIFF document, or the path to one'),
+  limit: z.number().int().positive().optional().default(20).describe('Label IDs listed per category and language'),
+  packageName: z.string().optional().describe('Package name for the model. Auto-resolved if omitted.'),
+  packagePath: z.string().optional().describe('Root packages path. Auto-detected if omitted.'),
+});
+
+type LabelGapsArgs = z.infer<typeof LabelGapsArgsSchema>;
+
+export interface LanguageGaps {
+  language: string;
+  /** Source-language labels absent from this language. */
+  missing: ParsedLabel[];
+  /** Source-language labels whose text this language still carries verbatim. */
+  identical: ParsedLabel[];
+  /** Label IDs this language has and the source language does not. */
+  orphaned: string[];
+}
+
+export interface LabelFileGaps {
+  labelFileId: string;
+  sourceCount: number;
+  /** Null when the label file has no source-language file to compare against. */
+  languages: LanguageGaps[] | null;
+}
+
+/** XLIFF states that mean "not translated yet" — such a unit is not imported. */
+const UNTRANSLATED_STATES = new Set(['new', 'needs-translation']);
+
+/**
+ * Compare one language of a label file against its source language.
+ *
+ * A text with no letter in it ("%1", "-", "%1 / %2") reads the same in every
+ * language, so it is not reported as untranslated.
+ */
+export function compareLabelLanguage(source: ParsedLabel[], target: ParsedLabel[], language: string): LanguageGaps {
+  const targetById = new Map(target.map(l => [l.labelId, l]));
+  const sourceIds = new Set(source.map(l => l.labelId));
+  const missing: ParsedLabel[] = [];
+  const identical: ParsedLabel[] = [];
+  for (const label of source) {
+    const translated = targetById.get(label.labelId);
+    if (!translated) missing.push(label);
+    else if (translated.text === label.text && /\p{L}/u.test(label.text)) identical.push(label);
+  }
+  const orphaned = target.filter(l => !sourceIds.has(l.labelId)).map(l => l.labelId);
+  return { language, missing, identical, orphaned };
+}
+
+/** Read and compare every label file of a model directory. */
+export async function collectLabelGaps(
+  modelDir: string,
+  model: string,
+  opts: { labelFileId?: string; sourceLanguage: string; languages?: string[] },
+): Promise<LabelFileGaps[]> {
+  const files = await discoverLabelFiles(modelDir, { allLanguages: true });
+  const wanted = opts.languages?.map(l => l.toLowerCase());
+  const byFile = new Map<string, Map<string, ParsedLabel[]>>();
+  for (const f of files) {
+    if (opts.labelFileId && f.labelFileId.toLowerCase() !== opts.labelFileId.toLowerCase()) continue;
+    const content = await fs.readFile(f.filePath, 'utf-8');
+    const labels = parseLabelFile(content.replace(/^\uFEFF/, ''), f.labelFileId, model, f.language, f.filePath);
+    if (!byFile.has(f.labelFileId)) byFile.set(f.labelFileId, new Map());
+    byFile.get(f.labelFileId)!.set(f.language, labels);
+  }
+
+  const result: LabelFileGaps[] = [];
+  for (const [labelFileId, langs] of [...byFile].sort(([a], [b]) => a.localeCompare(b))) {
+    const sourceKey = [...langs.keys()].find(l => l.toLowerCase() === opts.sourceLanguage.toLowerCase());
+    if (!sourceKey) {
+      result.push({ labelFileId, sourceCount: 0, languages: null });
+      continue;
+    }
+    const source = langs.get(sourceKey)!;
+    const languages = [...langs.keys()]
+      .filter(l => l !== sourceKey && (!wanted || wanted.includes(l.toLowerCase())))
+      .sort()
+      .map(l => compareLabelLanguage(source, langs.get(l)!, l));
+    result.push({ labelFileId, sourceCount: source.length, languages });
+  }
+  return result;
+}
+
+/** The missing and identical labels as XLIFF files — one per label file and language. */
+export function gapsToXliff(gaps: LabelFileGaps[], sourceLanguage: string): XliffFile[] {
+  const files: XliffFile[] = [];
+  for (const file of gaps) {
+    for (const lang of file.languages ?? []) {
+      const units = [
+        ...lang.missing.map(l => ({ id: l.labelId, source: l.text, note: l.comment })),
+        // Pre-filled with the copied text so a translator sees what is on disk today.
+        ...lang.identical.map(l => ({
+          id: l.labelId, source: l.text, target: l.text, state: 'needs-translation', note: l.comment,
+        })),
+      ].sort((a, b) => a.id.localeCompare(b.id));
+      if (units.length === 0) continue;
+      files.push({ original: file.labelFileId, sourceLanguage, targetLanguage: lang.language, units });
+    }
+  }
+  return files;
+}
+
+/**
+ * Write the translated units of an XLIFF document into the model, one
+ * labels(action="update") per label, scoped to the unit's target language.
+ * A failed label does not stop the import.
+ */
+export async function importLabelXliff(
+  files: XliffFile[],
+  shared: Record<string, unknown>,
+  context: XppServerContext,
+  runSingle: SingleLabelRunner = createLabelTool,
+): Promise<{ content: Array<{ type: 'text'; text: string }>; isError?: boolean }> {
+  const lines: string[] = [];
+  let written = 0;
+  let failed = 0;
+  let skipped = 0;
+
+  for (const file of files) {
+    if (!file.original || !file.targetLanguage) {
+      lines.push(`🔴 <file original="${file.original}" target-language="${file.targetLanguage}">: ` +
+        'needs both attributes to know which .label.txt it belongs to — skipped.');
+      failed += file.units.length;
+      continue;
+    }
+    for (const unit of file.units) {
+      if (!unit.target || (unit.state && UNTRANSLATED_STATES.has(unit.state))) {
+        skipped++;
+        continue;
+      }
+      const res = await runSingle({
+        method: 'tools/call',
+        params: {
+          name: 'create_label',
+          arguments: {
+            ...shared,
+            labelId: unit.id,
+            labelFileId: file.original,
+            translations: [{ language: file.targetLanguage, text: unit.target, ...(unit.note ? { comment: unit.note } : {}) }],
+            languages: [file.targetLanguage],
+            overwriteExisting: true,
+            // The language file already exists in the project — one .rnrproj
+            // check per imported label buys nothing.
+            addToProject: false,
+          },
+        },
+      }, context);
+      const first = (res?.content?.[0]?.text ?? '(no output)').split('\n')[0];
+      if (res?.isError) {
+        failed++;
+        lines.push(`🔴 ${file.original}/${file.targetLanguage} ${unit.id}: ${first}`);
+      } else {
+        written++;
+      }
+    }
+  }
+
+  const header =
+    `${failed === 0 ? '✅' : '⚠️'} labels(action="gaps", xliff=…): ${written} written, ${failed} failed, ` +
+    `${skipped} skipped (no target or state "needs-translation").`;
+  return {
+    content: [{ type: 'text', text: [header, ...(lines.length > 0 ? ['', ...lines] : [])].join('\n') }],
+    ...(failed > 0 ? { isError: true } : {}),
+  };
+}
+
+/** Same resolution as labels(action="create"): explicit package → UDE descriptor scan → package == model. */
+export async function resolveLabelModelDir(
+  args: { model: string; packageName?: string; packagePath?: string },
+): Promise<string> {
+  const configManager = getConfigManager();
+  const envType = await configManager.getDevEnvironmentType();
+  let packagePath: string;
+  let packageName: string;
+  if (args.packageName) {
+    packageName = args.packageName;
+    const customPath = envType === 'ude' ? await configManager.getCustomPackagesPath() : null;
+    packagePath = args.packagePath || customPath || configManager.getPackagePath() || defaultPackagesRoot();
+  } else if (envType === 'ude') {
+    const customPath = await configManager.getCustomPackagesPath();
+    const msPath = await configManager.getMicrosoftPackagesPath();
+    const resolved = await new PackageResolver([customPath, msPath].filter(Boolean) as string[]).resolve(args.model);
+    packageName = resolved?.packageName || args.model;
+    packagePath = resolved?.rootPath || args.packagePath || customPath || defaultPackagesRoot();
+  } else {
+    packagePath = args.packagePath || configManager.getPackagePath() || defaultPackagesRoot();
+    packageName = args.model;
+  }
+  return path.join(packagePath, packageName, args.model);
+}
+
+function idList(labels: string[], limit: number): string {
+  const shown = labels.slice(0, limit).join(', ');
+  return labels.length > limit ? `${shown}, … (+${labels.length - limit})` : shown;
+}
+
+function renderGapReport(gaps: LabelFileGaps[], args: LabelGapsArgs): string {
+  const { model, sourceLanguage, limit } = args;
+  const lines: string[] = [`# Label translation gaps — ${model} (source: ${sourceLanguage})`, ''];
+  let open = 0;
+  for (const file of gaps) {
+    if (!file.languages) {
+      lines.push(`## ${file.labelFileId} — no ${sourceLanguage} file, nothing to compare against`, '');
+      continue;
+    }
+    lines.push(`## ${file.labelFileId} — ${file.sourceCount} label(s) in ${sourceLanguage}`, '');
+    if (file.languages.length === 0) {
+      lines.push(`_No other language to compare._`, '');
+      continue;
+    }
+    lines.push(`| Language | Missing | Same as ${sourceLanguage} | Orphaned |`, '|---|---|---|---|');
+    for (const l of file.languages) {
+      lines.push(`| ${l.language} | ${l.missing.length} | ${l.identical.length} | ${l.orphaned.length} |`);
+    }
+    lines.push('');
+    for (const l of file.languages) {
+      if (l.missing.length + l.identical.length + l.orphaned.length === 0) continue;
+      open += l.missing.length + l.identical.length;
+      lines.push(`### ${l.language}`);
+      if (l.missing.length > 0) lines.push(`- Missing: ${idList(l.missing.map(m => m.labelId), limit)}`);
+      if (l.identical.length > 0) lines.push(`- Same as ${sourceLanguage}: ${idList(l.identical.map(m => m.labelId), limit)}`);
+      if (l.orphaned.length > 0) lines.push(`- Orphaned (not in ${sourceLanguage}): ${idList(l.orphaned, limit)}`);
+      lines.push('');
+    }
+  }
+  if (open > 0) {
+    lines.push(
+      `💡 labels(action="gaps", model="${model}", format="xliff", outputPath="…\\\\${model}.xlf") exports the ` +
+      `${open} missing/untranslated label(s) for a translator; labels(action="gaps", model="${model}", xliff="<path>") ` +
+      'writes the translated file back.',
+    );
+  } else {
+    lines.push('✅ Every language carries every label, translated.');
+  }
+  return lines.join('\n');
+}
+
+export async function labelGapsTool(request: CallToolRequest, context: XppServerContext) {
+  try {
+    const parsed = LabelGapsArgsSchema.safeParse(request.params.arguments ?? {});
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ labels(action="gaps"): invalid arguments — ${issues}.\n` +
+            `Example: labels(action="gaps", model="ContosoExt")`,
+        }],
+        isError: true,
+      };
+    }
+    const args = parsed.data;
+
+    // Import: the document's own <file> attributes say where each unit goes.
+    if (args.xliff !== undefined) {
+      const xml = args.xliff.trimStart().startsWith('<') ? args.xliff : await fs.readFile(args.xliff, 'utf-8');
+      let files: XliffFile[];
+      try {
+        files = await parseXliff(xml.replace(/^\uFEFF/, ''));
+      } catch (e) {
+        return {
+          content: [{ type: 'text', text: `❌ labels(action="gaps"): cannot read the XLIFF — ${(e as Error).message}. Nothing was written.` }],
+          isError: true,
+        };
+      }
+      const shared: Record<string, unknown> = { model: args.model };
+      if (args.packageName) shared.packageName = args.packageName;
+      if (args.packagePath) shared.packagePath = args.packagePath;
+      return importLabelXliff(files, shared, context);
+    }
+
+    const modelDir = await resolveLabelModelDir(args);
+    const gaps = await collectLabelGaps(modelDir, args.model, args);
+    if (gaps.length === 0) {
+      return {
+        content: [{
+          type: 'text',
+          text: `No .label.txt files${args.labelFileId ? ` for label file "${args.labelFileId}"` : ''} found under\n` +
+            `  ${path.join(modelDir, 'AxLabelFile', 'LabelResources')}\n\n` +
+            'Check model, packageName and packagePath — this action reads the files on disk, not the index.',
+        }],
+        isError: true,
+      };
+    }
+
+    if (args.format === 'xliff') {
+      const files = gapsToXliff(gaps, args.sourceLanguage);
+      const units = files.reduce((n, f) => n + f.units.length, 0);
+      if (units === 0) {
+        return { content: [{ type: 'text', text: `✅ Nothing to export — every language of ${args.model} carries every label, translated.` }] };
+      }
+      const xml = buildXliff(files);
+      const summary = `${units} label(s) in ${files.length} file/language pair(s): ` +
+        files.map(f => `${f.original}/${f.targetLanguage} (${f.units.length})`).join(', ');
+      if (args.outputPath) {
+        await fs.writeFile(args.outputPath, xml, 'utf-8');
+        return {
+          content: [{
+            type: 'text',
+            text: `✅ XLIFF written to ${args.outputPath}\n${summary}\n\n` +
+              `Re-import once translated: labels(action="gaps", model="${args.model}", xliff="${args.outputPath}")`,
+          }],
+        };
+      }
+      return { content: [{ type: 'text', text: `${summary}\n\n\`\`\`xml\n${xml}\`\`\`` }] };
+    }
+
+    return { content: [{ type: 'text', text: renderGapReport(gaps, args) }] };
+  } catch (err) {
+    return {
+      content: [{ type: 'text', text: `Error comparing label files: ${err instanceof Error ? err.message : String(err)}` }],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,532 @@
+/**
+ * Custom validation rule packs — a team's house rules, run next to the built-in
+ * SEL/COC/BP/XML set by validate_code(mode="syntax") and the write-time gate.
+ *
+ * A pack is a JSON file (or a TS/JS module whose default export has the same
+ * shape) checked into the team's repository:
+ *
+ *   {
+ *     "prefix": "CON",
+ *     "disabledModels": ["ContosoLegacy"],
+ *     "rules": [
+ *       { "id": "CON001", "severity": "warning", "fix": "…",
+ *         "ast": { "kind": "SelectQuery", "name": "^InventTrans$", "empty": ["fields"] } },
+ *       { "id": "CON002", "severity": "error", "fix": "…",
+ *         "ast": { "kind": "Method", "name": "^main$", "hasNot": { "kind": "Call", "name": "^caller$" } } },
+ *       { "id": "CON003", "severity": "warning", "fix": "…", "pattern": "\\bdoUpdate\\s*\\(" },
+ *       { "id": "CON004", "severity": "warning", "fix": "…",
+ *         "xpath": "//AxTableField[not(Label)]" }
+ *     ]
+ *   }
+ *
+ * Each rule matches one of three ways: `pattern`, a regex over the X++ source;
+ * `ast`, a query over the tree from utils/xppParser.ts; or `xpath`, a small
+ * XPath subset over the XML (child and descendant steps, `*`, and predicates
+ * on a child element: `[Child]`, `[not(Child)]`, `[Child='v']`, `[Child!='v']`).
+ *
+ * Where packs come from: the files and directories listed in D365FO_RULE_PACKS,
+ * relative paths resolved against the workspace; unset, `.d365fo-mcp/rules/`
+ * under the workspace. JSON packs are re-read when they change; a TS/JS module
+ * is loaded once per process.
+ *
+ * A broken pack never breaks validation: the pack (or the one bad rule) is
+ * skipped and the reason comes back in `problems` for validate_code to print.
+ */
+
+import * as fs from 'node:fs';
+import { createRequire } from 'node:module';
+import { extname, isAbsolute, join, resolve } from 'node:path';
+import { z } from 'zod';
+import { getConfigManager } from '../../utils/configManager.js';
+import { parseNodes, textValueOf, type XmlNode } from '../../utils/xmlNodeTree.js';
+import {
+  calleeName,
+  walkXpp,
+  type XppCompilationUnit,
+  type XppNode,
+} from '../../utils/xppParser.js';
+import { FORM_PATTERN_RULE_IDS } from '../../validation/formPatternValidator.js';
+import { BUILTIN_RULE_IDS as XPP_RULE_IDS, type ValidationViolation } from './validateXpp.js';
+
+// Schema
+
+/** Prefixes of the built-in rules — a pack may not claim one. */
+const RESERVED_PREFIXES = ['SEL', 'COC', 'BP', 'FN', 'TTS', 'XML'];
+
+/**
+ * Whether `id` is a built-in rule's. The prefix check alone lets a pack with
+ * prefix "CO" define COC001, so every pack rule id is checked here too. Read at
+ * call time: validateXpp.ts imports this module, so its list is not initialised
+ * yet while this one loads.
+ */
+function isBuiltinRuleId(id: string): boolean {
+  return (XPP_RULE_IDS as readonly string[]).includes(id) || (FORM_PATTERN_RULE_IDS as readonly string[]).includes(id);
+}
+
+const PACK_FILE_EXTENSIONS = new Set(['.json', '.ts', '.mts', '.js', '.mjs', '.cjs']);
+
+/** Default pack directory, relative to the workspace. */
+const DEFAULT_PACK_DIR = join('.d365fo-mcp', 'rules');
+
+export interface AstQuery {
+  /** Node kind from xppParser.ts — Call, Method, Class, SelectQuery, WhileSelect, … */
+  kind: XppNode['kind'];
+  /** Regex on the node's name: a call's callee, a method's or class's name, a select's table, a type. */
+  name?: string;
+  /** Regex on the node's source text. */
+  text?: string;
+  /** Regex per string property, e.g. `{ "extends": "^RunBaseBatch$" }` on a Class. */
+  props?: Record<string, string>;
+  /** Properties that must be absent or empty, e.g. `["fields"]` for `select *`. */
+  empty?: string[];
+  /** Only inside a node of this kind. */
+  inside?: XppNode['kind'];
+  /** Never inside a node of this kind. */
+  notInside?: XppNode['kind'];
+  /** Only when a descendant matches this query. */
+  has?: AstQuery;
+  /** Only when no descendant matches this query. */
+  hasNot?: AstQuery;
+}
+
+const astQuerySchema: z.ZodType<AstQuery> = z.lazy(() => z.object({
+  kind: z.string() as z.ZodType<XppNode['kind']>,
+  name: z.string().optional(),
+  text: z.string().optional(),
+  props: z.record(z.string(), z.string()).optional(),
+  empty: z.array(z.string()).optional(),
+  inside: (z.string() as z.ZodType<XppNode['kind']>).optional(),
+  notInside: (z.string() as z.ZodType<XppNode['kind']>).optional(),
+  has: astQuerySchema.optional(),
+  hasNot: astQuerySchema.optional(),
+}).strict());
+
+const modelScope = {
+  /** Run only for these models. */
+  enabledModels: z.array(z.string()).optional(),
+  /** Never run for these models. */
+  disabledModels: z.array(z.string()).optional(),
+};
+
+const packRuleSchema = z.object({
+  id: z.string().regex(/^[A-Z][A-Z0-9_]*\d+$/, 'rule ids look like CON001'),
+  severity: z.enum(['error', 'warning']),
+  fix: z.string().min(1),
+  pattern: z.string().optional(),
+  /** Regex flags for `pattern`; `g` and `m` are always added. */
+  flags: z.string().regex(/^[imsu]*$/).optional(),
+  ast: astQuerySchema.optional(),
+  xpath: z.string().optional(),
+  /** Where a `pattern` looks: the X++ source (default) or the XML text. */
+  appliesTo: z.enum(['xpp', 'xml']).optional(),
+  ...modelScope,
+}).strict().refine(
+  r => [r.pattern, r.ast, r.xpath].filter(m => m !== undefined).length === 1,
+  'a rule has exactly one of pattern, ast or xpath',
+);
+
+const rulePackSchema = z.object({
+  prefix: z.string().regex(/^[A-Z][A-Z0-9_]{1,9}$/, 'prefix is 2–10 upper-case letters or digits'),
+  description: z.string().optional(),
+  rules: z.array(z.unknown()),
+  ...modelScope,
+}).strict();
+
+export type PackRuleDefinition = z.infer<typeof packRuleSchema>;
+export type RulePack = Omit<z.infer<typeof rulePackSchema>, 'rules'> & { rules: PackRuleDefinition[] };
+
+/** A rule ready to run: its matcher compiled, its pack's model scope folded in. */
+export interface PackRule {
+  id: string;
+  severity: 'error' | 'warning';
+  fix: string;
+  /** File the rule came from, for diagnostics. */
+  source: string;
+  match:
+    | { by: 'pattern'; regex: RegExp; target: 'xpp' | 'xml' }
+    | { by: 'ast'; query: CompiledAstQuery }
+    | { by: 'xpath'; steps: XPathStep[] };
+}
+
+export interface LoadedRulePacks {
+  rules: PackRule[];
+  /** One line per pack or rule that was skipped, and why. */
+  problems: string[];
+}
+
+// Loading
+
+interface CachedPack {
+  mtimeMs: number;
+  rules: Array<PackRule & { enabledModels?: string[]; disabledModels?: string[] }>;
+  problems: string[];
+}
+
+const packCache = new Map<string, CachedPack>();
+
+/**
+ * Where to look for packs when the caller is not the server — the CLI's lint
+ * reads both from the target's settings instead of the process configuration.
+ */
+export interface RulePackSource {
+  /** Pack files and directories, as in D365FO_RULE_PACKS. */
+  paths?: string[];
+  /** The workspace relative paths resolve against; it also holds the default directory. */
+  workspace?: string;
+}
+
+/** Pack files named by D365FO_RULE_PACKS, or found in the workspace's default directory. */
+function packFiles(source?: RulePackSource): string[] {
+  let workspace = source?.workspace;
+  if (workspace === undefined) {
+    try {
+      workspace = getConfigManager().getContext()?.workspacePath;
+    } catch {
+      workspace = undefined;
+    }
+  }
+  const configured = (source?.paths ?? (process.env.D365FO_RULE_PACKS ?? '').split(','))
+    .map(p => p.trim())
+    .filter(Boolean);
+  const entries = configured.length > 0
+    ? configured.map(p => (isAbsolute(p) || !workspace ? resolve(p) : resolve(workspace, p)))
+    : workspace ? [join(workspace, DEFAULT_PACK_DIR)] : [];
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    try {
+      const stat = fs.statSync(entry);
+      if (stat.isDirectory()) {
+        for (const name of fs.readdirSync(entry).sort()) {
+          if (PACK_FILE_EXTENSIONS.has(extname(name).toLowerCase()) && !name.endsWith('.d.ts')) {
+            files.push(join(entry, name));
+          }
+        }
+      } else {
+        files.push(entry);
+      }
+    } catch {
+      // A configured path that does not exist is reported; the default directory is optional.
+      if (configured.length > 0) files.push(entry);
+    }
+  }
+  return files;
+}
+
+function readPackFile(file: string): unknown {
+  if (extname(file).toLowerCase() === '.json') {
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  }
+  // Node strips TypeScript types natively, so a .ts pack loads like a .js one.
+  const loaded = createRequire(import.meta.url)(file) as { default?: unknown };
+  return loaded && typeof loaded === 'object' && 'default' in loaded ? loaded.default : loaded;
+}
+
+/** `g` and `m` plus the rule's own flags (default `i`), each once — `gmm` does not compile. */
+function regexFlags(flags: string | undefined): string {
+  return [...new Set(`gm${flags ?? 'i'}`)].join('');
+}
+
+function compilePack(file: string, raw: unknown): CachedPack {
+  const problems: string[] = [];
+  const rules: CachedPack['rules'] = [];
+  const pack = rulePackSchema.safeParse(raw);
+  if (!pack.success) {
+    return { mtimeMs: 0, rules, problems: [`${file}: ${pack.error.issues.map(i => `${i.path.join('.') || 'pack'} — ${i.message}`).join('; ')}`] };
+  }
+  const { prefix } = pack.data;
+  if (RESERVED_PREFIXES.some(r => prefix.startsWith(r))) {
+    return { mtimeMs: 0, rules, problems: [`${file}: prefix "${prefix}" collides with the built-in ${RESERVED_PREFIXES.join('/')} rules`] };
+  }
+
+  pack.data.rules.forEach((entry, i) => {
+    const parsed = packRuleSchema.safeParse(entry);
+    if (!parsed.success) {
+      problems.push(`${file}: rules[${i}] — ${parsed.error.issues.map(x => `${x.path.join('.') || 'rule'}: ${x.message}`).join('; ')}`);
+      return;
+    }
+    const rule = parsed.data;
+    if (!rule.id.startsWith(prefix)) {
+      problems.push(`${file}: rule ${rule.id} does not start with the pack prefix "${prefix}"`);
+      return;
+    }
+    if (isBuiltinRuleId(rule.id)) {
+      problems.push(`${file}: rule ${rule.id} is a built-in rule id — skipped`);
+      return;
+    }
+    try {
+      rules.push({
+        id: rule.id,
+        severity: rule.severity,
+        fix: rule.fix,
+        source: file,
+        match: rule.pattern !== undefined
+          ? { by: 'pattern', regex: new RegExp(rule.pattern, regexFlags(rule.flags)), target: rule.appliesTo ?? 'xpp' }
+          : rule.ast !== undefined
+            ? { by: 'ast', query: compileAstQuery(rule.ast) }
+            : { by: 'xpath', steps: parseXPath(rule.xpath ?? '') },
+        // A rule's own scope replaces its pack's.
+        enabledModels: rule.enabledModels ?? pack.data.enabledModels,
+        disabledModels: rule.disabledModels ?? pack.data.disabledModels,
+      });
+    } catch (error) {
+      problems.push(`${file}: rule ${rule.id} — ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+  return { mtimeMs: 0, rules, problems };
+}
+
+function loadPackFile(file: string): CachedPack {
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(file).mtimeMs;
+  } catch {
+    return { mtimeMs: 0, rules: [], problems: [`${file}: rule pack not found`] };
+  }
+  const cached = packCache.get(file);
+  // A module pack is in the require cache for good; only JSON can be re-read.
+  if (cached && (cached.mtimeMs === mtimeMs || extname(file).toLowerCase() !== '.json')) return cached;
+
+  let compiled: CachedPack;
+  try {
+    compiled = compilePack(file, readPackFile(file));
+  } catch (error) {
+    compiled = { mtimeMs: 0, rules: [], problems: [`${file}: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+  compiled.mtimeMs = mtimeMs;
+  packCache.set(file, compiled);
+  return compiled;
+}
+
+/**
+ * The pack rules that apply to `model` (the configured model when omitted).
+ * A rule scoped with enabledModels does not run when no model is known.
+ */
+export function loadRulePacks(model?: string, source?: RulePackSource): LoadedRulePacks {
+  let target = model;
+  if (target === undefined) {
+    try {
+      target = getConfigManager().getModelName() ?? undefined;
+    } catch {
+      target = undefined;
+    }
+  }
+  const lower = target?.toLowerCase();
+  const inList = (list: string[] | undefined) => list?.some(m => m.toLowerCase() === lower) ?? false;
+
+  const rules: PackRule[] = [];
+  const problems: string[] = [];
+  const seen = new Map<string, string>();
+  for (const file of packFiles(source)) {
+    const pack = loadPackFile(file);
+    problems.push(...pack.problems);
+    for (const { enabledModels, disabledModels, ...rule } of pack.rules) {
+      const first = seen.get(rule.id);
+      if (first) {
+        problems.push(`${file}: rule ${rule.id} is already defined in ${first} — skipped`);
+        continue;
+      }
+      seen.set(rule.id, file);
+      if (enabledModels && !inList(enabledModels)) continue;
+      if (disabledModels && inList(disabledModels)) continue;
+      rules.push(rule);
+    }
+  }
+  return { rules, problems };
+}
+
+// AST queries
+
+interface CompiledAstQuery {
+  kind: XppNode['kind'];
+  name?: RegExp;
+  text?: RegExp;
+  props: Array<[string, RegExp]>;
+  empty: string[];
+  inside?: XppNode['kind'];
+  notInside?: XppNode['kind'];
+  has?: CompiledAstQuery;
+  hasNot?: CompiledAstQuery;
+}
+
+function compileAstQuery(query: AstQuery): CompiledAstQuery {
+  // X++ names are case-insensitive, so every regex here is too.
+  const regex = (source: string | undefined) => (source === undefined ? undefined : new RegExp(source, 'i'));
+  return {
+    kind: query.kind,
+    name: regex(query.name),
+    text: regex(query.text),
+    props: Object.entries(query.props ?? {}).map(([key, source]) => [key, new RegExp(source, 'i')]),
+    empty: query.empty ?? [],
+    inside: query.inside,
+    notInside: query.notInside,
+    has: query.has ? compileAstQuery(query.has) : undefined,
+    hasNot: query.hasNot ? compileAstQuery(query.hasNot) : undefined,
+  };
+}
+
+/** The name a query's `name` regex is held against. */
+function nameOf(node: XppNode): string | undefined {
+  switch (node.kind) {
+    case 'Call': return calleeName(node);
+    case 'SelectQuery': return node.table;
+    case 'New':
+    case 'Cast':
+    case 'LocalDeclaration':
+    case 'FieldDeclaration':
+      return node.type.name;
+    default:
+      return 'name' in node && typeof node.name === 'string' ? node.name : undefined;
+  }
+}
+
+function matchesNode(query: CompiledAstQuery, node: XppNode, ancestors: readonly XppNode[], code: string): boolean {
+  if (node.kind !== query.kind) return false;
+  if (query.name && !query.name.test(nameOf(node) ?? '')) return false;
+  if (query.text && !query.text.test(code.slice(node.start, node.end))) return false;
+  const record = node as unknown as Record<string, unknown>;
+  for (const [key, regex] of query.props) {
+    const value = record[key];
+    if (typeof value !== 'string' || !regex.test(value)) return false;
+  }
+  for (const key of query.empty) {
+    const value = record[key];
+    if (value !== undefined && !(Array.isArray(value) && value.length === 0)) return false;
+  }
+  if (query.inside && !ancestors.some(a => a.kind === query.inside)) return false;
+  if (query.notInside && ancestors.some(a => a.kind === query.notInside)) return false;
+  if (query.has && !hasDescendant(query.has, node, code)) return false;
+  if (query.hasNot && hasDescendant(query.hasNot, node, code)) return false;
+  return true;
+}
+
+function hasDescendant(query: CompiledAstQuery, root: XppNode, code: string): boolean {
+  let found = false;
+  walkXpp(root, (node, ancestors) => {
+    if (found) return false;
+    if (node !== root && matchesNode(query, node, ancestors, code)) found = true;
+    return !found;
+  });
+  return found;
+}
+
+// XPath subset
+
+interface XPathStep {
+  descendant: boolean;
+  /** Element name, or '*'. */
+  name: string;
+  predicates: Array<(xml: string, node: XmlNode) => boolean>;
+}
+
+function parsePredicate(text: string): (xml: string, node: XmlNode) => boolean {
+  const negated = /^not\(\s*(.+?)\s*\)$/.exec(text);
+  if (negated) {
+    const inner = parsePredicate(negated[1]);
+    return (xml, node) => !inner(xml, node);
+  }
+  const compare = /^([\w.]+)\s*(!=|=)\s*(['"])(.*)\3$/.exec(text);
+  if (compare) {
+    const [, child, op, , value] = compare;
+    return (xml, node) => {
+      const hit = node.children.find(c => c.name === child);
+      const equal = hit !== undefined && textValueOf(xml, hit) === value;
+      return op === '=' ? equal : !equal;
+    };
+  }
+  if (/^[\w.]+$/.test(text)) return (_xml, node) => node.children.some(c => c.name === text);
+  throw new Error(`unsupported XPath predicate [${text}]`);
+}
+
+function parseXPath(expression: string): XPathStep[] {
+  const steps: XPathStep[] = [];
+  const re = /(\/\/|\/)?([\w.]+|\*)((?:\[[^\]]+\])*)/gy;
+  const source = expression.trim();
+  let m: RegExpExecArray | null;
+  let last = 0;
+  while (last < source.length && (m = re.exec(source)) !== null) {
+    steps.push({
+      // A relative path matches anywhere, like a leading `//`.
+      descendant: m[1] === '//' || (m[1] === undefined && steps.length === 0),
+      name: m[2],
+      predicates: [...m[3].matchAll(/\[([^\]]+)\]/g)].map(p => parsePredicate(p[1].trim())),
+    });
+    last = re.lastIndex;
+  }
+  if (steps.length === 0 || last !== source.length) throw new Error(`unsupported XPath "${expression}"`);
+  return steps;
+}
+
+function evaluateXPath(steps: XPathStep[], xml: string, root: XmlNode): XmlNode[] {
+  const descendants = (node: XmlNode): XmlNode[] => node.children.flatMap(c => [c, ...descendants(c)]);
+  // The document node: its only child is the root element.
+  let current: XmlNode[] = [{ ...root, name: '#document', children: [root] }];
+  for (const step of steps) {
+    const next = new Set<XmlNode>();
+    for (const node of current) {
+      for (const candidate of step.descendant ? descendants(node) : node.children) {
+        if (step.name !== '*' && candidate.name !== step.name) continue;
+        if (step.predicates.every(p => p(xml, candidate))) next.add(candidate);
+      }
+    }
+    current = [...next];
+  }
+  return current.sort((a, b) => a.start - b.start);
+}
+
+// Runner
+
+export interface PackRuleTarget {
+  /** The X++ to check, and its parse — absent for XML that carries no X++. */
+  xpp?: { code: string; unit: XppCompilationUnit };
+  /** The XML document, when the input is XML. */
+  xml?: string;
+}
+
+const lineAt = (text: string, index: number): number => text.slice(0, index).split('\n').length;
+const lineText = (text: string, line: number): string => text.split('\n')[line - 1]?.trim() ?? '';
+
+export function runPackRules(rules: readonly PackRule[], target: PackRuleTarget): ValidationViolation[] {
+  const violations: ValidationViolation[] = [];
+  let xmlRoot: XmlNode | null | undefined;
+
+  const report = (rule: PackRule, text: string, line: number, excerpt?: string) => {
+    violations.push({
+      rule: rule.id,
+      severity: rule.severity,
+      line,
+      excerpt: excerpt ?? lineText(text, line),
+      fix: rule.fix,
+    });
+  };
+
+  for (const rule of rules) {
+    const { match } = rule;
+    if (match.by === 'pattern') {
+      const text = match.target === 'xml' ? target.xml : target.xpp?.code;
+      if (text === undefined) continue;
+      match.regex.lastIndex = 0;
+      const reported = new Set<number>();
+      for (const m of text.matchAll(match.regex)) {
+        const line = lineAt(text, m.index ?? 0);
+        if (reported.has(line)) continue;
+        reported.add(line);
+        report(rule, text, line);
+      }
+    } else if (match.by === 'ast') {
+      const xpp = target.xpp;
+      if (!xpp) continue;
+      walkXpp(xpp.unit, (node, ancestors) => {
+        if (matchesNode(match.query, node, ancestors, xpp.code)) report(rule, xpp.code, node.line);
+      });
+    } else {
+      if (target.xml === undefined) continue;
+      if (xmlRoot === undefined) xmlRoot = parseNodes(target.xml);
+      if (!xmlRoot) continue; // unbalanced XML — nothing to say about its shape
+      for (const node of evaluateXPath(match.steps, target.xml, xmlRoot)) {
+        report(rule, target.xml, lineAt(target.xml, node.start));
+      }
+    }
+  }
+  return violations;
+}
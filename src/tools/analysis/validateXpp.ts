@@ -28,8 +28,10 @@
  *   XML006  AxTable elements out of canonical order (silently dropped by the AOT)
  *   XML007  Table-level property that does not exist in the AxTable model
  *
- * Keyword scans run against a comment/string-masked copy of the source
- * (maskStringsAndComments) to avoid false positives inside literals/comments.
+ * The X++ rules read the AST from utils/xppParser.ts, parsed once per call, so
+ * nothing in a string literal or comment can match, a where clause ends where
+ * the select grammar says it does, and a `return` or `next` is judged by the
+ * statement it sits in rather than by the lines around it.
  *
  * Data-driven property rules (thresholds mined from STANDARD models into the
  * property_stats table during build-database; static defaults when no stats):
@@ -37,6 +39,13 @@
  *   XML003  AxTable missing <TableGroup> (suggests the most common standard values)
  *   XML004  AxTableField without <ExtendedDataType>/<EnumType>
  *   XML005  AxTable missing <ClusteredIndex> (only when standard usage ≥ threshold)
+ *
+ * A team's own rules — regex, AST query or XPath, under their own ID prefix —
+ * come from rule packs in the workspace (rulePacks.ts) and run after these.
+ *
+ * With `fix: true` the rules whose fix is mechanical — SEL001, COC001, COC002,
+ * BP004 and XML006 — are applied first (fixViolations), and the report covers
+ * what is left, after the rewritten source and its diff.
  */
 
 import { z } from 'zod';
@@ -45,6 +54,24 @@ import {
   AX_TABLE_NON_EXISTENT_PROPERTIES,
   axTableElementRank,
 } from '../../utils/axTablePropertyOrder.js';
+import {
+  calleeName,
+  classesOf,
+  globalCallName,
+  parseXpp,
+  selectQueriesOf,
+  walkXpp,
+  type XppCall,
+  type XppClass,
+  type XppCompilationUnit,
+  type XppExpression,
+  type XppMember,
+  type XppMethod,
+  type XppNode,
+  type XppSelectQuery,
+} from '../../utils/xppParser.js';
+import { unifiedDiff } from '../../utils/unifiedDiff.js';
+import { loadRulePacks, runPackRules, type PackRule } from './rulePacks.js';
 
 // Schema
 
@@ -58,6 +85,9 @@ export const validateXppArgsSchema = z.object({
   context: z.string().optional().describe(
     'Optional: owning class/table name, used in diagnostic messages.'
   ),
+  fix: z.boolean().optional().default(false).describe(
+    'Apply the mechanical fixes (SEL001, COC001, COC002, BP004, XML006) and return the rewritten source with a unified diff.'
+  ),
 });
 
 // This handler has no schema of its own — it is reached through a unified
@@ -76,152 +106,188 @@ export interface ValidationViolation {
   fix: string;
 }
 
+/**
+ * Ids of the rules above. A rule's violations are typed against this list, so
+ * a new rule does not compile until its id is here — and rulePacks.ts reads it
+ * to keep a pack from claiming a built-in id.
+ */
+export const BUILTIN_RULE_IDS = [
+  'SEL001', 'SEL002', 'SEL003', 'SEL004', 'SEL005',
+  'COC001', 'COC002', 'COC003', 'COC004', 'COC005', 'COC006',
+  'BP001', 'BP002', 'BP003', 'BP004', 'BP005',
+  'FN001', 'TTS001',
+  'XML001', 'XML002', 'XML003', 'XML004', 'XML005', 'XML006', 'XML007',
+] as const;
+
+type BuiltinRuleId = (typeof BUILTIN_RULE_IDS)[number];
+
+/** A violation of one of the built-in rules. */
+interface BuiltinViolation extends ValidationViolation {
+  rule: BuiltinRuleId;
+}
+
 // Helpers
 
 function lineNumber(code: string, index: number): number {
   return code.slice(0, index).split('\n').length;
 }
 
-/**
- * Lightweight tokenizer-lite: returns a copy of `code` with the CONTENT of string
- * literals, line comments (//…) and block comments (/* … *\/) replaced by spaces,
- * preserving every newline (so line numbers stay correct) and overall length (so
- * offsets stay correct). Keyword/regex scans run against this masked text to avoid
- * false positives from keywords that appear inside strings or comments.
- */
-export function maskStringsAndComments(code: string): string {
-  const out = code.split('');
-  const n = code.length;
-  let i = 0;
-  type State = 'code' | 'line' | 'block' | 'string';
-  let state: State = 'code';
-  while (i < n) {
-    const c = code[i];
-    const c2 = i + 1 < n ? code[i + 1] : '';
-    if (state === 'code') {
-      if (c === '/' && c2 === '/') { state = 'line'; i += 2; continue; }
-      if (c === '/' && c2 === '*') { state = 'block'; i += 2; continue; }
-      if (c === '"') { state = 'string'; i++; continue; }
-      i++;
-    } else if (state === 'line') {
-      if (c === '\n') { state = 'code'; i++; continue; }
-      out[i] = ' '; i++;
-    } else if (state === 'block') {
-      if (c === '*' && c2 === '/') { out[i] = ' '; out[i + 1] = ' '; state = 'code'; i += 2; continue; }
-      if (c !== '\n') out[i] = ' ';
-      i++;
-    } else { // string
-      if (c === '\\') { out[i] = ' '; if (c2 && c2 !== '\n') out[i + 1] = ' '; i += 2; continue; }
-      if (c === '"') { state = 'code'; i++; continue; }
-      if (c !== '\n') out[i] = ' ';
-      i++;
-    }
-  }
-  return out.join('');
+/** Source handed to the X++ rules: the text, its lines and the parse of it. */
+interface XppRuleInput {
+  code: string;
+  lines: string[];
+  unit: XppCompilationUnit;
+}
+
+function ruleInput(code: string): XppRuleInput {
+  return { code, lines: code.split('\n'), unit: parseXpp(code) };
+}
+
+/** Trimmed text of a 1-based line — the excerpt most rules report. */
+function lineExcerpt(input: XppRuleInput, line: number): string {
+  return input.lines[line - 1]?.trim() ?? '';
+}
+
+function sourceOf(input: XppRuleInput, node: XppNode): string {
+  return input.code.slice(node.start, node.end);
+}
+
+/** Every node of one kind, in source order. */
+function nodesOfKind<K extends XppNode['kind']>(root: XppNode, kind: K): Array<Extract<XppNode, { kind: K }>> {
+  const found: Array<Extract<XppNode, { kind: K }>> = [];
+  walkXpp(root, node => {
+    if (node.kind === kind) found.push(node as Extract<XppNode, { kind: K }>);
+  });
+  return found;
+}
+
+/** A select's conditions — its where clause and any stray one after a join. */
+function conditionsOf(query: XppSelectQuery): XppExpression[] {
+  return [...(query.where ? [query.where] : []), ...query.misplacedWhere];
+}
+
+/** The query of a select and those of its joins. */
+function queryAndJoins(query: XppSelectQuery): XppSelectQuery[] {
+  return [query, ...query.joins.map(j => j.query)];
+}
+
+/** `[ExtensionOf(tableStr(X))]` → 'tablestr'; undefined on a class that extends nothing. */
+function extensionOfKind(cls: XppClass): string | undefined {
+  const attribute = cls.attributes.find(a => a.name.toLowerCase() === 'extensionof');
+  if (!attribute) return undefined;
+  const target = attribute.args[0];
+  return target?.kind === 'Call' ? globalCallName(target)?.toLowerCase() ?? '' : '';
+}
+
+function extensionClasses(input: XppRuleInput): XppClass[] {
+  return classesOf(input.unit).filter(c => extensionOfKind(c) !== undefined);
+}
+
+function tableExtensionClasses(input: XppRuleInput): XppClass[] {
+  return classesOf(input.unit).filter(c => extensionOfKind(c) === 'tablestr');
+}
+
+function methodsOf(cls: XppClass): XppMethod[] {
+  return cls.members.filter((m): m is XppMethod => m.kind === 'Method' && !m.isDelegate);
 }
 
 /**
- * Find all regex matches in code and map them to violations.
- * @param skipIfComment — skip match when the line starts with // (already commented out)
+ * Whether the method wraps its base — calls `next <sameName>(…)`. An extension
+ * class also holds its own helpers, and those are ordinary methods.
  */
-function matchAll(
-  code: string,
-  pattern: RegExp,
-  rule: string,
-  severity: 'error' | 'warning',
-  fix: string,
-  skipIfComment = true,
-): ValidationViolation[] {
-  const lines = code.split('\n');
-  const violations: ValidationViolation[] = [];
-  let match: RegExpExecArray | null;
-  // Always use a fresh regex with 'g' flag to avoid state contamination
-  const re = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
-  while ((match = re.exec(code)) !== null) {
-    const lineIdx = lineNumber(code, match.index) - 1;
-    const lineText = lines[lineIdx]?.trimStart() ?? '';
-    if (skipIfComment && (lineText.startsWith('//') || lineText.startsWith('*'))) continue;
-    violations.push({
-      rule,
-      severity,
-      line: lineIdx + 1,
-      excerpt: match[0].trim(),
-      fix,
-    });
-  }
-  return violations;
+function wrapsNext(method: XppMethod): boolean {
+  if (!method.body) return false;
+  const name = method.name.toLowerCase();
+  let found = false;
+  walkXpp(method.body, node => {
+    if (node.kind === 'Next' && node.name.toLowerCase() === name) found = true;
+  });
+  return found;
 }
 
+const isThisMember = (e: XppExpression, name: string): boolean =>
+  e.kind === 'Member' && e.object.kind === 'This' && e.name.toLowerCase() === name;
+
 // Rule implementations
 
 /** SEL001 — today() is deprecated; use DateTimeUtil::getToday(...). */
-function checkTodayDeprecated(code: string): ValidationViolation[] {
-  return matchAll(
-    code,
-    /\btoday\s*\(\s*\)/gi,
-    'SEL001',
-    'error',
-    'Replace today() with DateTimeUtil::getToday(DateTimeUtil::getUserPreferredTimeZone()). ' +
-    'today() ignores user time zone and fails BPUpgradeCodeToday.',
-  );
+function checkTodayDeprecated(input: XppRuleInput): BuiltinViolation[] {
+  return nodesOfKind(input.unit, 'Call')
+    .filter(call => globalCallName(call)?.toLowerCase() === 'today' && call.args.length === 0)
+    .map(call => ({
+      rule: 'SEL001',
+      severity: 'error' as const,
+      line: call.line,
+      excerpt: sourceOf(input, call),
+      fix: 'Replace today() with DateTimeUtil::getToday(DateTimeUtil::getUserPreferredTimeZone()). ' +
+        'today() ignores user time zone and fails BPUpgradeCodeToday.',
+    }));
 }
 
 /** SEL002 — forceLiterals is forbidden (SQL injection). */
-function checkForceLiterals(code: string): ValidationViolation[] {
-  return matchAll(
-    code,
-    /\bforceLiterals\b/gi,
-    'SEL002',
-    'error',
-    'Remove forceLiterals. Use forcePlaceholders (default for non-join selects) or omit. ' +
-    'forceLiterals exposes the query to SQL injection.',
-  );
+function checkForceLiterals(input: XppRuleInput): BuiltinViolation[] {
+  return nodesOfKind(input.unit, 'FindOption')
+    .filter(option => option.name.toLowerCase() === 'forceliterals')
+    .map(option => ({
+      rule: 'SEL002',
+      severity: 'error' as const,
+      line: option.line,
+      excerpt: option.name,
+      fix: 'Remove forceLiterals. Use forcePlaceholders (default for non-join selects) or omit. ' +
+        'forceLiterals exposes the query to SQL injection.',
+    }));
 }
 
 /**
  * SEL003 — crossCompany on a joined buffer instead of the driving (outer) buffer.
  * Pattern: "join crossCompany tableName" — crossCompany must appear on the outer select.
  */
-function checkCrossCompanyPlacement(code: string): ValidationViolation[] {
-  return matchAll(
-    code,
-    /\bjoin\s+crossCompany\b/gi,
-    'SEL003',
-    'error',
-    'Move crossCompany to the outer select (driving buffer): "select crossCompany tableBuffer join …". ' +
-    'crossCompany is a query-level option, not a per-join option.',
-  );
+function checkCrossCompanyPlacement(input: XppRuleInput): BuiltinViolation[] {
+  const violations: BuiltinViolation[] = [];
+  for (const join of nodesOfKind(input.unit, 'Join')) {
+    const option = join.query.options.find(o => o.name.toLowerCase() === 'crosscompany');
+    if (!option) continue;
+    violations.push({
+      rule: 'SEL003',
+      severity: 'error',
+      line: join.line,
+      excerpt: `join ${option.name}`,
+      fix: 'Move crossCompany to the outer select (driving buffer): "select crossCompany tableBuffer join …". ' +
+        'crossCompany is a query-level option, not a per-join option.',
+    });
+  }
+  return violations;
 }
 
 /**
  * SEL004 — Nested while select (N+1 anti-pattern).
- * Heuristic: two or more "while select" in the same code block without a join.
+ *
+ * A `while select` inside the body of another. Read off the AST: two loops one
+ * after the other are not nested, and a join somewhere else in the snippet
+ * does not make a nested pair any cheaper — the line-based heuristic this
+ * replaced got both wrong. A loop inside a lambda or local function is not
+ * counted against the loop that declares it.
  */
-function checkNestedWhileSelect(code: string): ValidationViolation[] {
-  const violations: ValidationViolation[] = [];
-  const masked = maskStringsAndComments(code);
-  const lines = masked.split('\n');
-  const whileSelectLines: number[] = [];
-  lines.forEach((l, i) => {
-    if (/\bwhile\s+select\b/i.test(l) && !l.trimStart().startsWith('//')) {
-      whileSelectLines.push(i + 1);
-    }
-  });
-  if (whileSelectLines.length >= 2) {
-    // Only flag when there's no nearby "join" keyword (rough heuristic)
-    const hasJoin = /\bjoin\b/i.test(masked);
-    if (!hasJoin) {
+function checkNestedWhileSelect(input: XppRuleInput): BuiltinViolation[] {
+  const violations: BuiltinViolation[] = [];
+  walkXpp(input.unit, (node, ancestors) => {
+    if (node.kind !== 'WhileSelect') return;
+    for (let i = ancestors.length - 1; i >= 0; i--) {
+      const outer = ancestors[i];
+      if (outer.kind === 'Lambda' || outer.kind === 'LocalFunction' || outer.kind === 'Method') return;
+      if (outer.kind !== 'WhileSelect') continue;
       violations.push({
         rule: 'SEL004',
         severity: 'warning',
-        line: whileSelectLines[1],
-        excerpt: `while select at lines ${whileSelectLines.join(', ')}`,
+        line: node.line,
+        excerpt: `while select at lines ${outer.line}, ${node.line}`,
         fix: 'Replace nested while select with a join in a single while select, or ' +
           'pre-load the inner data into a Map/temp table. ' +
           'Nested while select causes N+1 database queries (BPCheckNestedLoopinCode).',
       });
+      return;
     }
-  }
+  });
   return violations;
 }
 
@@ -240,96 +306,80 @@ const INTRINSIC_FUNCTIONS = new Set([
   'menuitemoutputstr', 'varstr', 'con2str', 'int2str', 'num2str',
 ]);
 
-function checkFunctionInWhere(code: string): ValidationViolation[] {
-  const violations: ValidationViolation[] = [];
-  // Scan masked text so function-like tokens inside strings/comments aren't flagged.
-  const lines = maskStringsAndComments(code).split('\n');
-  // `inWhere` tracks an open where-clause spanning multiple lines; it must close at
-  // the clause's actual boundary (`;` or `{`), otherwise later unrelated code gets
-  // misattributed to "inside where clause".
-  let inWhere = false;
-  lines.forEach((rawLine, i) => {
-    const line = rawLine.trimStart();
-    if (line.startsWith('//') || line.startsWith('*')) return;
-
-    // Scan starts right after `where` if a new clause starts here, otherwise from line start.
-    let scanStart = 0;
-    if (!inWhere) {
-      const whereMatch = /\bwhere\b/i.exec(rawLine);
-      if (!whereMatch) return;
-      inWhere = true;
-      scanStart = whereMatch.index + whereMatch[0].length;
-    }
-
-    // Clause ends at the first `;` or `{` at/after scanStart — don't scan past it.
-    const rest = rawLine.slice(scanStart);
-    const endMatch = /[;{]/.exec(rest);
-    const scanSegment = endMatch ? rest.slice(0, endMatch.index) : rest;
-
-    // Find function calls (word followed by '(') that are not intrinsics
-    const callPattern = /\b([a-zA-Z_]\w*)\s*\(/g;
-    let m: RegExpExecArray | null;
-    while ((m = callPattern.exec(scanSegment)) !== null) {
-      const fnName = m[1].toLowerCase();
-      if (INTRINSIC_FUNCTIONS.has(fnName)) continue;
-      // Skip common X++ keywords
-      if (['if', 'while', 'for', 'switch', 'catch', 'str', 'int', 'new', 'where'].includes(fnName)) continue;
-      violations.push({
-        rule: 'SEL005',
-        severity: 'warning',
-        line: i + 1,
-        excerpt: `${m[1]}(...) inside where clause`,
-        fix: `Assign the result of ${m[1]}() to a local variable BEFORE the select statement, ` +
-          'then use the variable in the where clause. ' +
-          'Function calls in where clauses prevent index usage and may cause unexpected results.',
-      });
-      break; // one violation per line is enough
+/**
+ * The clause is the parsed where expression of each select and each of its
+ * joins, so it ends where the grammar says: a `sum(Qty)` in the NEXT join's
+ * field list, or the call after a `(select …).RecId` on the same line, is not
+ * inside it.
+ */
+function checkFunctionInWhere(input: XppRuleInput): BuiltinViolation[] {
+  const violations: BuiltinViolation[] = [];
+  const reported = new Set<number>();
+  const report = (call: XppCall) => {
+    const name = calleeName(call);
+    if (!name || INTRINSIC_FUNCTIONS.has(name.toLowerCase())) return;
+    // Conversion keywords that read like calls
+    if (['str', 'int', 'new'].includes(name.toLowerCase())) return;
+    if (reported.has(call.line)) return;
+    reported.add(call.line); // one violation per line is enough
+    violations.push({
+      rule: 'SEL005',
+      severity: 'warning',
+      line: call.line,
+      excerpt: `${name}(...) inside where clause`,
+      fix: `Assign the result of ${name}() to a local variable BEFORE the select statement, ` +
+        'then use the variable in the where clause. ' +
+        'Function calls in where clauses prevent index usage and may cause unexpected results.',
+    });
+  };
+  for (const root of selectQueriesOf(input.unit)) {
+    for (const query of queryAndJoins(root)) {
+      for (const condition of conditionsOf(query)) {
+        walkXpp(condition, node => {
+          // A subquery or a lambda body is not this clause.
+          if (node.kind === 'SelectExpression' || node.kind === 'Lambda') return false;
+          if (node.kind === 'Call') report(node);
+          return true;
+        });
+      }
     }
-
-    if (endMatch) inWhere = false;
-  });
+  }
   return violations;
 }
 
 /**
  * COC001 — Default parameter value copied into CoC wrapper signature.
- * Detects: inside an [ExtensionOf] class, any method whose parameter list
- * contains "= " (assignment default).
- * Pattern: public <type> <method>(...= ...) inside [ExtensionOf(...)] final class
+ * Detects: inside an [ExtensionOf] class, a method that calls `next` on itself
+ * with a parameter that carries a default value. A helper that calls no `next`
+ * keeps its defaults.
+ *
+ * Read off the parsed signature, so neither the access modifier (optional in
+ * X++, and deliberately stripped by get_method's CoC template — the single most
+ * likely source of this defect) nor a signature wrapped over several lines
+ * hides it, and a call such as strFmt("a = %1", x) is never a declaration.
  */
-function checkCocDefaultParam(code: string): ValidationViolation[] {
-  const violations: ValidationViolation[] = [];
-  if (!/\[ExtensionOf\s*\(/i.test(code)) return violations;
-
-  const lines = code.split('\n');
-  lines.forEach((rawLine, i) => {
-    if (rawLine.trimStart().startsWith('//')) return;
-    // Method-like line with a default param: "public Foo method(Type _p = val)".
-    // The second alternative catches declarations with NO access modifier (legal
-    // X++ — members default to public). get_method's CoC template deliberately
-    // strips access modifiers, so a modifier-only regex misses the single most
-    // likely source of this defect: an agent pasting that template verbatim.
-    // It is anchored to a whole-line declaration (no trailing ';') so that call
-    // statements containing '=' inside parens — strFmt("a = %1", x) — don't match.
-    const withModifier = /\b(public|protected|private|internal)\b.*\([^)]*=\s*[^,)]+\)/.test(rawLine);
-    const bareDeclaration =
-      /^\s*(?:(?:static|final|abstract|display|edit|server|client)\s+)*[A-Za-z_]\w*\s+[A-Za-z_]\w*\s*\([^)]*=\s*[^,)]+\)\s*$/.test(rawLine);
-    if (withModifier || bareDeclaration) {
+function checkCocDefaultParam(input: XppRuleInput): BuiltinViolation[] {
+  const violations: BuiltinViolation[] = [];
+  for (const cls of extensionClasses(input)) {
+    for (const method of methodsOf(cls)) {
       // Skip constructors (new()) — defaults there are intentional
-      if (/\bnew\s*\(/.test(rawLine)) return;
+      if (method.name.toLowerCase() === 'new') continue;
       // Skip parm* accessor methods (standard DataContract pattern: parmX(T _v = v))
-      if (/\bparm[A-Z]/.test(rawLine)) return;
+      if (/^parm[A-Z]/.test(method.name)) continue;
+      if (!wrapsNext(method)) continue;
+      const defaulted = method.parameters.find(p => p.defaultValue);
+      if (!defaulted) continue;
       violations.push({
         rule: 'COC001',
         severity: 'error',
-        line: i + 1,
-        excerpt: rawLine.trim(),
+        line: defaulted.line,
+        excerpt: lineExcerpt(input, defaulted.line),
         fix: 'Remove default parameter values from CoC wrapper signatures. ' +
           'The base method\'s defaults are already in effect when calling next. ' +
           'Example: "public void salute(str message)" NOT "public void salute(str message = \\"Hi\\")".',
       });
     }
-  });
+  }
   return violations;
 }
 
@@ -337,67 +387,39 @@ function checkCocDefaultParam(code: string): ValidationViolation[] {
  * COC002 — [ExtensionOf] class not declared final.
  * Extension classes MUST be final.
  */
-function checkExtensionOfNotFinal(code: string): ValidationViolation[] {
-  const violations: ValidationViolation[] = [];
-  const lines = code.split('\n');
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    if (!line.includes('[ExtensionOf') && !line.includes('[extensionof')) continue;
-    // Look ahead up to 3 lines for the class declaration
-    for (let j = i; j <= Math.min(i + 3, lines.length - 1); j++) {
-      const declLine = lines[j];
-      if (/\bclass\b/i.test(declLine)) {
-        if (!/\bfinal\b/i.test(declLine)) {
-          violations.push({
-            rule: 'COC002',
-            severity: 'error',
-            line: j + 1,
-            excerpt: declLine.trim(),
-            fix: 'Extension classes must be declared final: "[ExtensionOf(...)] final class MyClass_Extension". ' +
-              'Without final the compiler will reject the file.',
-          });
-        }
-        break;
-      }
-    }
-  }
-  return violations;
+function checkExtensionOfNotFinal(input: XppRuleInput): BuiltinViolation[] {
+  return extensionClasses(input)
+    .filter(cls => !cls.modifiers.includes('final'))
+    .map(cls => ({
+      rule: 'COC002',
+      severity: 'error' as const,
+      line: cls.keywordLine,
+      excerpt: lineExcerpt(input, cls.keywordLine),
+      fix: 'Extension classes must be declared final: "[ExtensionOf(...)] final class MyClass_Extension". ' +
+        'Without final the compiler will reject the file.',
+    }));
 }
 
 /**
  * COC003 — [ExtensionOf] class name not ending in _Extension.
  */
-function checkExtensionOfNaming(code: string): ValidationViolation[] {
-  const violations: ValidationViolation[] = [];
-  const lines = code.split('\n');
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    if (!line.includes('[ExtensionOf') && !line.includes('[extensionof')) continue;
-    for (let j = i; j <= Math.min(i + 3, lines.length - 1); j++) {
-      const declLine = lines[j];
-      const m = /\bclass\s+(\w+)/i.exec(declLine);
-      if (m) {
-        if (!m[1].endsWith('_Extension')) {
-          violations.push({
-            rule: 'COC003',
-            severity: 'error',
-            line: j + 1,
-            excerpt: declLine.trim(),
-            fix: `Rename class to "${m[1]}_Extension". ` +
-              'Extension classes must end with _Extension per MS naming guidelines.',
-          });
-        }
-        break;
-      }
-    }
-  }
-  return violations;
+function checkExtensionOfNaming(input: XppRuleInput): BuiltinViolation[] {
+  return extensionClasses(input)
+    .filter(cls => cls.name && !cls.name.endsWith('_Extension'))
+    .map(cls => ({
+      rule: 'COC003',
+      severity: 'error' as const,
+      line: cls.keywordLine,
+      excerpt: lineExcerpt(input, cls.keywordLine),
+      fix: `Rename class to "${cls.name}_Extension". ` +
+        'Extension classes must end with _Extension per MS naming guidelines.',
+    }));
 }
 
 /** Global functions, not members of `Common` — unqualified on a table buffer. */
-const GLOBAL_FUNCTIONS_NOT_ON_TABLE = [
-  'checkFailed', 'error', 'warning', 'info', 'strFmt', 'setPrefix', 'funcName',
-];
+const GLOBAL_FUNCTIONS_NOT_ON_TABLE = new Set([
+  'checkfailed', 'error', 'warning', 'info', 'strfmt', 'setprefix', 'funcname',
+]);
 
 /**
  * COC005 — a Global function called as `this.<fn>()` on a table buffer.
@@ -409,36 +431,33 @@ const GLOBAL_FUNCTIONS_NOT_ON_TABLE = [
  * Scoped to `[ExtensionOf(tableStr(...))]` — on a RunBase descendant the same
  * call is legal.
  */
-function checkGlobalFunctionOnTableBuffer(code: string): ValidationViolation[] {
-  const violations: ValidationViolation[] = [];
-  if (!/\[ExtensionOf\s*\(\s*tableStr\s*\(/i.test(code)) return violations;
-
-  const lines = code.split('\n');
-  const masked = maskStringsAndComments(code).split('\n');
-  const pattern = new RegExp(
-    `\\bthis\\s*\\.\\s*(${GLOBAL_FUNCTIONS_NOT_ON_TABLE.join('|')})\\s*\\(`,
-    'gi',
-  );
+function checkGlobalFunctionOnTableBuffer(input: XppRuleInput): BuiltinViolation[] {
+  const violations: BuiltinViolation[] = [];
+  const reported = new Set<number>();
 
-  masked.forEach((clean, i) => {
-    pattern.lastIndex = 0;
-    const m = pattern.exec(clean);
-    if (!m) return;
-    const fn = m[1];
-    violations.push({
-      rule: 'COC005',
-      severity: 'error',
-      line: i + 1,
-      excerpt: lines[i].trim(),
-      fix:
-        `"${fn}" is a Global function, not a method of the table buffer. The compiler rejects ` +
-        `"this.${fn}(…)" with "Table '<name>' does not contain a definition for method '${fn}'". ` +
-        `Call it unqualified: "${fn}(…)"` +
-        (fn === 'checkFailed'
-          ? ' — the idiom in a validateWrite wrapper is "ret = checkFailed(\'@Model:LabelId\');".'
-          : '.'),
-    });
-  });
+  for (const cls of tableExtensionClasses(input)) {
+    for (const call of nodesOfKind(cls, 'Call')) {
+      const callee = call.callee;
+      if (callee.kind !== 'Member' || callee.object.kind !== 'This') continue;
+      if (!GLOBAL_FUNCTIONS_NOT_ON_TABLE.has(callee.name.toLowerCase())) continue;
+      if (reported.has(call.line)) continue;
+      reported.add(call.line);
+      const fn = callee.name;
+      violations.push({
+        rule: 'COC005',
+        severity: 'error',
+        line: call.line,
+        excerpt: lineExcerpt(input, call.line),
+        fix:
+          `"${fn}" is a Global function, not a method of the table buffer. The compiler rejects ` +
+          `"this.${fn}(…)" with "Table '<name>' does not contain a definition for method '${fn}'". ` +
+          `Call it unqualified: "${fn}(…)"` +
+          (fn === 'checkFailed'
+            ? ' — the idiom in a validateWrite wrapper is "ret = checkFailed(\'@Model:LabelId\');".'
+            : '.'),
+      });
+    }
+  }
 
   return violations;
 }
@@ -465,23 +484,18 @@ function checkGlobalFunctionOnTableBuffer(code: string): ValidationViolation[] {
  * severity 'warning' — the code runs and returns the right answer in the common
  * case. It is a round trip and a semantic drift, not a broken build.
  */
-function checkRecordReReadInTableCoc(code: string): ValidationViolation[] {
-  const violations: ValidationViolation[] = [];
-  if (!/\[ExtensionOf\s*\(\s*tableStr\s*\(/i.test(code)) return violations;
-
-  const masked = maskStringsAndComments(code);
-  const lines = code.split('\n');
+function checkRecordReReadInTableCoc(input: XppRuleInput): BuiltinViolation[] {
+  const violations: BuiltinViolation[] = [];
   const reported = new Set<number>();
 
-  const report = (offset: number, excerptSuffix: string, spelling: string) => {
-    const lineNo = lineNumber(masked, offset);
-    if (reported.has(lineNo)) return;
-    reported.add(lineNo);
+  const report = (line: number, spelling: string) => {
+    if (reported.has(line)) return;
+    reported.add(line);
     violations.push({
       rule: 'COC006',
       severity: 'warning',
-      line: lineNo,
-      excerpt: lines[lineNo - 1]?.trim() ?? excerptSuffix,
+      line,
+      excerpt: lineExcerpt(input, line),
       fix:
         `This re-reads the record the buffer already holds. Inside a table CoC, ${spelling} ` +
         'the pre-image is `this.orig()` — already in memory, filled when the record was fetched — ' +
@@ -492,33 +506,47 @@ function checkRecordReReadInTableCoc(code: string): ValidationViolation[] {
     });
   };
 
-  // A select whose where clause ties another buffer's RecId to this one's. The
-  // where clause is usually on its own line, so the statement — up to its ';' or
-  // the '{' of a while select — is the unit to scan, not the line.
-  const selectRe = /\bselect\b/gi;
-  const sameRecId =
-    /(?:\w+\s*\.\s*RecId\s*==\s*this\s*\.\s*RecId)|(?:this\s*\.\s*RecId\s*==\s*\w+\s*\.\s*RecId)/i;
-  let m: RegExpExecArray | null;
-  while ((m = selectRe.exec(masked)) !== null) {
-    const semi = masked.indexOf(';', m.index);
-    const brace = masked.indexOf('{', m.index);
-    const ends = [semi, brace].filter(i => i !== -1);
-    const end = ends.length > 0 ? Math.min(...ends) : masked.length;
-    const span = masked.slice(m.index, end);
-    const hit = sameRecId.exec(span);
-    if (hit) report(m.index + hit.index, hit[0], 'a select on the same table is never the way to it —');
-  }
+  const otherRecId = (e: XppExpression): boolean =>
+    e.kind === 'Member' && e.object.kind !== 'This' && e.name.toLowerCase() === 'recid';
+
+  for (const cls of tableExtensionClasses(input)) {
+    // A select whose where clause ties another buffer's RecId to this one's —
+    // wherever in the (usually multi-line) clause the comparison sits.
+    for (const root of selectQueriesOf(cls)) {
+      for (const query of queryAndJoins(root)) {
+        for (const condition of conditionsOf(query)) {
+          walkXpp(condition, node => {
+            if (node.kind !== 'Binary' || node.operator !== '==') return;
+            const sameRecord =
+              (otherRecId(node.left) && isThisMember(node.right, 'recid')) ||
+              (isThisMember(node.left, 'recid') && otherRecId(node.right));
+            if (sameRecord) report(node.line, 'a select on the same table is never the way to it —');
+          });
+        }
+      }
+    }
 
-  // The same fetch spelled as a static find.
-  const findRe = /\b\w+\s*::\s*find\w*\s*\(([^)]*)\)/gi;
-  while ((m = findRe.exec(masked)) !== null) {
-    if (!/\bthis\s*\.\s*RecId\b/i.test(m[1])) continue;
-    report(m.index, m[0], 'a find() on your own RecId is never the way to it —');
+    // The same fetch spelled as a static find.
+    for (const call of nodesOfKind(cls, 'Call')) {
+      if (call.callee.kind !== 'StaticMember' || !/^find/i.test(call.callee.name)) continue;
+      const passesOwnRecId = call.args.some(arg => {
+        let found = false;
+        walkXpp(arg, node => {
+          if (node.kind === 'Member' && isThisMember(node, 'recid')) found = true;
+        });
+        return found;
+      });
+      if (passesOwnRecId) report(call.line, 'a find() on your own RecId is never the way to it —');
+    }
   }
 
+  violations.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
   return violations;
 }
 
+/** Calls whose text reaches the user — the message builders BP001/BP005 watch. */
+const INFOLOG_CALLS = new Set(['info', 'warning', 'error', 'checkfailed']);
+
 /**
  * BP005 — an enum's SYMBOL feeding user-facing text.
  *
@@ -536,54 +564,42 @@ function checkRecordReReadInTableCoc(code: string): ValidationViolation[] {
  * correct for a log line, a filename or a comparison key, and it is the only safe thing
  * to persist for an extensible enum, whose integers are assigned at deployment time.
  *
- * Matched over the call's whole argument span: in a wrapped
+ * Matched over the call's whole argument tree: in a wrapped
  * `checkFailed(strFmt("@M:Id",\n enum2Symbol(a),\n enum2Symbol(b)))` the message
  * builder and the symbol call never share a line, which a per-line scan misses.
  */
-function checkEnumSymbolInMessage(code: string): ValidationViolation[] {
-  const violations: ValidationViolation[] = [];
-  const masked = maskStringsAndComments(code);
-  const lines = code.split('\n');
+function checkEnumSymbolInMessage(input: XppRuleInput): BuiltinViolation[] {
+  const violations: BuiltinViolation[] = [];
   const reported = new Set<number>();
 
-  const callRe = /\b(?:info|warning|error|checkFailed|strFmt)\s*\(/g;
-  let m: RegExpExecArray | null;
-  while ((m = callRe.exec(masked)) !== null) {
-    // Walk from the opening paren to its match so nested calls and multi-line
-    // argument lists are one span.
-    let depth = 0;
-    let end = m.index + m[0].length - 1;
-    for (; end < masked.length; end++) {
-      const ch = masked[end];
-      if (ch === '(') depth++;
-      else if (ch === ')') {
-        depth--;
-        if (depth === 0) break;
+  for (const call of nodesOfKind(input.unit, 'Call')) {
+    const builder = globalCallName(call)?.toLowerCase();
+    if (!builder || !(INFOLOG_CALLS.has(builder) || builder === 'strfmt')) continue;
+
+    for (const arg of call.args) {
+      // Both spellings: the Global wrapper and the DictEnum method it delegates to.
+      for (const inner of nodesOfKind(arg, 'Call')) {
+        const isSymbol =
+          globalCallName(inner)?.toLowerCase() === 'enum2symbol' ||
+          (inner.callee.kind === 'Member' && inner.callee.name.toLowerCase() === 'value2symbol');
+        if (!isSymbol || reported.has(inner.line)) continue;
+        reported.add(inner.line);
+        violations.push({
+          rule: 'BP005',
+          severity: 'warning',
+          line: inner.line,
+          excerpt: lineExcerpt(input, inner.line),
+          fix:
+            'This prints the enum\'s AOT name, which is never translated — the message stays English in ' +
+            'every locale. Use enum2str(value) when the enum type is known at compile time; when it is ' +
+            'only known at runtime, new DictEnum(enumId).value2Label(value). Keep the symbol for logs, ' +
+            'filenames and anything persisted.',
+        });
       }
     }
-    const span = masked.slice(m.index, Math.min(end + 1, masked.length));
-
-    // Both spellings: the Global wrapper and the DictEnum method it delegates to.
-    const inner = /(?:\benum2Symbol|\.\s*value2Symbol)\s*\(/gi;
-    let hit: RegExpExecArray | null;
-    while ((hit = inner.exec(span)) !== null) {
-      const lineNo = lineNumber(masked, m.index + hit.index);
-      if (reported.has(lineNo)) continue;
-      reported.add(lineNo);
-      violations.push({
-        rule: 'BP005',
-        severity: 'warning',
-        line: lineNo,
-        excerpt: lines[lineNo - 1].trim(),
-        fix:
-          'This prints the enum\'s AOT name, which is never translated — the message stays English in ' +
-          'every locale. Use enum2str(value) when the enum type is known at compile time; when it is ' +
-          'only known at runtime, new DictEnum(enumId).value2Label(value). Keep the symbol for logs, ' +
-          'filenames and anything persisted.',
-      });
-    }
   }
 
+  violations.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
   return violations;
 }
 
@@ -605,36 +621,6 @@ const FIXED_ARITY_BUILTINS: Record<string, { name: string; arity: number; note:
   enumnum:     { name: 'enumNum',     arity: 1, note: 'enumNum(MyEnum) — the enum TYPE name alone, not a value' },
 };
 
-/**
- * Arguments in the call whose '(' sits at `open`, or null when the parentheses
- * never close — a snippet cut mid-call is not something to have an opinion about.
- *
- * Counts top-level commas only, so a nested call or an indexer contributes none.
- * Runs on masked source, where a comma inside a string literal is already a space.
- */
-function countCallArguments(masked: string, open: number): number | null {
-  let parens = 0;
-  let brackets = 0;
-  let commas = 0;
-  let hasContent = false;
-
-  for (let i = open; i < masked.length; i++) {
-    const ch = masked[i];
-    if (ch === '(') { parens++; continue; }
-    if (ch === ')') {
-      parens--;
-      if (parens === 0) return hasContent ? commas + 1 : 0;
-      continue;
-    }
-    if (ch === '[') { brackets++; continue; }
-    if (ch === ']') { brackets--; continue; }
-    if (parens === 1 && brackets === 0 && ch === ',') { commas++; continue; }
-    if (!/\s/.test(ch)) hasContent = true;
-  }
-
-  return null;
-}
-
 /**
  * FN001 — a fixed-arity built-in called with the wrong number of arguments.
  *
@@ -649,30 +635,26 @@ function countCallArguments(masked: string, open: number): number | null {
  * Runs on every write through inlineXppValidation, which is the point: the reply
  * to the d365fo_file call that creates the CoC class already carries the finding.
  *
+ * Only a bare call is the global — `something.enum2Str(…)` is a method on another
+ * type — and a call whose parentheses never close is a snippet cut mid-call, not
+ * something to have an opinion about.
+ *
  * severity 'error' — this is a compile failure, not a preference.
  */
-function checkBuiltinArity(code: string): ValidationViolation[] {
-  const violations: ValidationViolation[] = [];
-  const masked = maskStringsAndComments(code);
-  const lines = code.split('\n');
-
-  const callRe = /\b([A-Za-z_]\w*)\s*\(/g;
-  let m: RegExpExecArray | null;
-  while ((m = callRe.exec(masked)) !== null) {
-    const spec = FIXED_ARITY_BUILTINS[m[1].toLowerCase()];
-    if (!spec) continue;
-    // `something.enum2Str(…)` is a method on another type, not the global.
-    if (masked.slice(0, m.index).trimEnd().endsWith('.')) continue;
+function checkBuiltinArity(input: XppRuleInput): BuiltinViolation[] {
+  const violations: BuiltinViolation[] = [];
 
-    const actual = countCallArguments(masked, m.index + m[0].length - 1);
-    if (actual === null || actual === spec.arity) continue;
+  for (const call of nodesOfKind(input.unit, 'Call')) {
+    const spec = FIXED_ARITY_BUILTINS[globalCallName(call)?.toLowerCase() ?? ''];
+    if (!spec || !call.closed) continue;
+    const actual = call.args.length;
+    if (actual === spec.arity) continue;
 
-    const lineNo = lineNumber(masked, m.index);
     violations.push({
       rule: 'FN001',
       severity: 'error',
-      line: lineNo,
-      excerpt: lines[lineNo - 1].trim(),
+      line: call.line,
+      excerpt: lineExcerpt(input, call.line),
       fix:
         `${spec.name} takes ${spec.arity} argument(s); ${actual} given. xppc rejects this with ` +
         `"'${spec.name}' expects ${spec.arity} argument(s), but ${actual} specified". ${spec.note}.`,
@@ -682,6 +664,11 @@ function checkBuiltinArity(code: string): ValidationViolation[] {
   return violations;
 }
 
+/** Statements and expressions a `next` inside of is not reached unconditionally. */
+const CONDITIONAL_CONTEXTS = new Set<XppNode['kind']>([
+  'If', 'While', 'DoWhile', 'For', 'Switch', 'WhileSelect', 'Conditional', 'Lambda', 'LocalFunction',
+]);
+
 /**
  * COC004 — `next` not reached exactly once and unconditionally (compiler SYS10028).
  *
@@ -690,37 +677,45 @@ function checkBuiltinArity(code: string): ValidationViolation[] {
  * looks completely reasonable as ordinary X++ — `if (ret) { ret = next foo(); }` is
  * how you would write a short-circuit anywhere else — and neither run_bp_check nor
  * the reference checks catch it, because xppbp does not diagnose it and every symbol
- * in the method resolves fine. Only a build did, which meant it was only ever found
+ * in the method resolved fine. Only a build did, which meant it was only ever found
  * by whoever remembered to run one.
  *
- * Brace depths are counted on the masked copy, so a '{' inside a literal or a doc
- * comment cannot shift the method boundaries.
+ * Read off the method's AST. A `next` is conditional when any statement between
+ * it and the method body branches or loops, when it is an operand of `&&`/`||`
+ * or `?:` (short-circuited), or when it sits in a lambda or local function,
+ * which runs whenever its delegate fires. try/catch/finally do not count: the
+ * compiler accepts `next` there since PU21. A `return` inside a lambda handed to
+ * a delegate returns from the lambda, so it cannot skip the `next` below it.
  */
-function checkCocNextUnconditional(code: string): ValidationViolation[] {
-  const violations: ValidationViolation[] = [];
-  if (!/\[ExtensionOf\s*\(/i.test(code)) return violations;
-
-  const lines = code.split('\n');
-  const masked = maskStringsAndComments(code).split('\n');
-  const METHOD_DECL =
-    /^\s*(?:(?:public|protected|private|internal|static|final|display|edit|server|client)\s+)*[A-Za-z_]\w*\s+([A-Za-z_]\w*)\s*\([^;]*\)\s*$/;
-
-  let depth = 0;
-  let classBodyDepth: number | null = null;
-  // The method currently being walked, if any.
-  let method: { name: string; bodyDepth: number; nexts: Array<{ line: number; excerpt: string; conditional: boolean }>; earlyReturn: number | null } | null = null;
-
-  const closeMethod = (): void => {
-    if (!method) return;
-    const { name, nexts, earlyReturn } = method;
+function checkCocNextUnconditional(input: XppRuleInput): BuiltinViolation[] {
+  const violations: BuiltinViolation[] = [];
+
+  for (const cls of extensionClasses(input)) {
+    for (const method of methodsOf(cls)) {
+      if (!method.body || method.name.toLowerCase() === 'new') continue;
+      const { name } = method;
+      const nexts: Array<{ line: number; start: number; conditional: boolean }> = [];
+      const returns: Array<{ line: number; end: number }> = [];
+
+      walkXpp(method.body, (node, ancestors) => {
+        if (node.kind === 'Next' && node.name.toLowerCase() === name.toLowerCase()) {
+          const conditional = ancestors.some(a =>
+            CONDITIONAL_CONTEXTS.has(a.kind) ||
+            (a.kind === 'Binary' && (a.operator === '&&' || a.operator === '||')));
+          nexts.push({ line: node.line, start: node.start, conditional });
+        } else if (node.kind === 'Return' &&
+          !ancestors.some(a => a.kind === 'Lambda' || a.kind === 'LocalFunction')) {
+          returns.push({ line: node.line, end: node.end });
+        }
+      });
 
-    for (const n of nexts) {
-      if (n.conditional) {
+      for (const n of nexts) {
+        if (!n.conditional) continue;
         violations.push({
           rule: 'COC004',
           severity: 'error',
           line: n.line,
-          excerpt: n.excerpt,
+          excerpt: lineExcerpt(input, n.line),
           fix:
             `"next ${name}" is inside a conditional block. The compiler rejects this with ` +
             'SYS10028 "Call to \'next\' should be done only once and unconditionally". ' +
@@ -728,79 +723,34 @@ function checkCocNextUnconditional(code: string): ValidationViolation[] {
             'business rule afterwards and use "ret = checkFailed(\'@Model:Label\')" to fail the write.',
         });
       }
-    }
-
-    if (nexts.length > 1) {
-      violations.push({
-        rule: 'COC004',
-        severity: 'error',
-        line: nexts[1].line,
-        excerpt: nexts[1].excerpt,
-        fix:
-          `"next ${name}" is called ${nexts.length} times in one CoC method; SYS10028 allows exactly one. ` +
-          'Store the single result in a local and reuse it.',
-      });
-    }
-
-    if (earlyReturn !== null && nexts.length > 0 && earlyReturn < nexts[0].line) {
-      violations.push({
-        rule: 'COC004',
-        severity: 'error',
-        line: earlyReturn,
-        excerpt: lines[earlyReturn - 1].trim(),
-        fix:
-          `This "return" can skip "next ${name}" below it, so the call is not unconditional (SYS10028). ` +
-          `Call "next ${name}" first, then let the rule decide the return value.`,
-      });
-    }
-
-    method = null;
-  };
 
-  for (let i = 0; i < lines.length; i++) {
-    const clean = masked[i] ?? '';
-    const depthAtLineStart = depth;
-
-    if (classBodyDepth === null && /\bclass\b/i.test(clean) && clean.includes('{')) {
-      classBodyDepth = depthAtLineStart + 1;
-    } else if (classBodyDepth === null && /\bclass\b/i.test(clean)) {
-      // Brace on the following line — the class body opens one deeper than here.
-      classBodyDepth = depthAtLineStart + 1;
-    }
-
-    if (method) {
-      const nextCall = new RegExp(`\\bnext\\s+${method.name}\\b`).exec(clean);
-      if (nextCall) {
-        method.nexts.push({
-          line: i + 1,
-          excerpt: lines[i].trim(),
-          // Deeper than the method body means it sits inside if/while/switch/try;
-          // the same-line form "if (ret) ret = next foo();" never opens a block.
-          conditional: depthAtLineStart > method.bodyDepth || /\b(if|while|for|switch|case)\b/.test(clean),
+      if (nexts.length > 1) {
+        violations.push({
+          rule: 'COC004',
+          severity: 'error',
+          line: nexts[1].line,
+          excerpt: lineExcerpt(input, nexts[1].line),
+          fix:
+            `"next ${name}" is called ${nexts.length} times in one CoC method; SYS10028 allows exactly one. ` +
+            'Store the single result in a local and reuse it.',
         });
-      } else if (
-        method.earlyReturn === null &&
-        depthAtLineStart > method.bodyDepth &&
-        /\breturn\b/.test(clean)
-      ) {
-        method.earlyReturn = i + 1;
-      }
-    } else if (classBodyDepth !== null && depthAtLineStart === classBodyDepth) {
-      const decl = METHOD_DECL.exec(clean);
-      if (decl && !/\bnew\s*\(/.test(clean)) {
-        method = { name: decl[1], bodyDepth: classBodyDepth + 1, nexts: [], earlyReturn: null };
       }
-    }
 
-    for (const ch of clean) {
-      if (ch === '{') depth++;
-      else if (ch === '}') {
-        depth--;
-        if (method && depth < method.bodyDepth) closeMethod();
+      // A return wholly before the first next — `return next foo();` contains it.
+      const earlyReturn = nexts.length > 0 ? returns.find(r => r.end <= nexts[0].start) : undefined;
+      if (earlyReturn) {
+        violations.push({
+          rule: 'COC004',
+          severity: 'error',
+          line: earlyReturn.line,
+          excerpt: lineExcerpt(input, earlyReturn.line),
+          fix:
+            `This "return" can skip "next ${name}" below it, so the call is not unconditional (SYS10028). ` +
+            `Call "next ${name}" first, then let the rule decide the return value.`,
+        });
       }
     }
   }
-  closeMethod();
 
   return violations;
 }
@@ -810,45 +760,66 @@ function checkCocNextUnconditional(code: string): ValidationViolation[] {
  * Flags: info("literal") — must use label @Module:LabelId.
  * Excludes strFmt(labelRef, ...) and calls where the first arg is a label ref (@...).
  */
-function checkHardcodedStrings(code: string): ValidationViolation[] {
-  const violations: ValidationViolation[] = [];
-  const lines = code.split('\n');
-  lines.forEach((rawLine, i) => {
-    const line = rawLine.trimStart();
-    if (line.startsWith('//') || line.startsWith('*')) return;
-    // Match: info("...") / warning("...") / error("...") / checkFailed("...")
-    // where the first argument is a raw string (not starting with @)
-    const pattern = /\b(?:info|warning|error|checkFailed)\s*\(\s*"(?!@)([^"]{1,200})"/gi;
-    let m: RegExpExecArray | null;
-    while ((m = pattern.exec(rawLine)) !== null) {
-      violations.push({
-        rule: 'BP001',
-        severity: 'error',
-        line: i + 1,
-        excerpt: m[0].trim(),
-        fix: 'Replace the hardcoded string with a label reference: info("@ModelName:LabelId"). ' +
-          'Call labels(action="search") to find an existing label, or labels(action="create") if none exists. ' +
-          'Hardcoded strings fail BPErrorLabelIsText.',
-      });
-    }
-  });
-  return violations;
+function checkHardcodedStrings(input: XppRuleInput): BuiltinViolation[] {
+  return hardcodedMessages(input).map(m => ({
+    rule: 'BP001',
+    severity: 'error' as const,
+    line: m.line,
+    excerpt: m.excerpt,
+    fix: 'Replace the hardcoded string with a label reference: info("@ModelName:LabelId"). ' +
+      'Call labels(action="search") to find an existing label, or labels(action="create") if none exists. ' +
+      'Hardcoded strings fail BPErrorLabelIsText.',
+  }));
+}
+
+/** One infolog call BP001 flags: where it is and the literal text it carries. */
+export interface HardcodedMessage {
+  line: number;
+  excerpt: string;
+  text: string;
+}
+
+function hardcodedMessages(input: XppRuleInput): HardcodedMessage[] {
+  const found: HardcodedMessage[] = [];
+  for (const call of nodesOfKind(input.unit, 'Call')) {
+    if (!INFOLOG_CALLS.has(globalCallName(call)?.toLowerCase() ?? '')) continue;
+    const first = call.args[0];
+    if (first?.kind !== 'Literal' || first.literalKind !== 'string') continue;
+    // The text between the quotes; a verbatim @"…" is still literal text.
+    const text = first.raw.replace(/^@?["']|["']$/g, '');
+    if (text.length === 0 || text.startsWith('@')) continue;
+    found.push({ line: call.line, excerpt: input.code.slice(call.start, first.end).trim(), text });
+  }
+  return found;
+}
+
+/**
+ * The literals BP001 flags in an object's XML, with their text — for the label
+ * audit, which proposes an existing label for each. Lines are lines of the file.
+ */
+export function hardcodedMessagesInXml(xml: string): HardcodedMessage[] {
+  return hardcodedMessages(ruleInput(xppSourceRegions(xml)));
 }
 
 /**
  * BP002 — doInsert/doUpdate/doDelete usage outside a comment that marks it as intentional.
  * These bypass insert/update/delete overrides and event handlers.
  */
-function checkDoMethods(code: string): ValidationViolation[] {
-  return matchAll(
-    code,
-    /\.\s*do(?:Insert|Update|Delete)\s*\(\s*\)/gi,
-    'BP002',
-    'warning',
-    'doInsert/doUpdate/doDelete bypasses overridden methods and event handlers. ' +
-    'Use insert()/update()/delete() in production code. ' +
-    'Reserve do* variants for data-fix / migration scripts and add a comment explaining why.',
-  );
+function checkDoMethods(input: XppRuleInput): BuiltinViolation[] {
+  return nodesOfKind(input.unit, 'Call')
+    .filter(call =>
+      call.callee.kind === 'Member' &&
+      ['doinsert', 'doupdate', 'dodelete'].includes(call.callee.name.toLowerCase()) &&
+      call.args.length === 0)
+    .map(call => ({
+      rule: 'BP002',
+      severity: 'warning' as const,
+      line: call.line,
+      excerpt: `.${(call.callee as XppMember).name}()`,
+      fix: 'doInsert/doUpdate/doDelete bypasses overridden methods and event handlers. ' +
+        'Use insert()/update()/delete() in production code. ' +
+        'Reserve do* variants for data-fix / migration scripts and add a comment explaining why.',
+    }));
 }
 
 /**
@@ -858,14 +829,15 @@ function checkDoMethods(code: string): ValidationViolation[] {
  *   /// methodName.
  *   /// ClassName class
  *   /// TODO: Add class description here.
+ *
+ * Reads the lexer's comments, so a `///` inside a string literal is not a doc comment.
  */
-function checkGenericDocComment(code: string): ValidationViolation[] {
-  const violations: ValidationViolation[] = [];
-  const lines = code.split('\n');
-  // Look for <summary> blocks whose content is just "Foo class" or "foo."
-  for (let i = 0; i < lines.length; i++) {
-    const l = lines[i].trim();
-    if (!l.startsWith('///')) continue;
+function checkGenericDocComment(input: XppRuleInput): BuiltinViolation[] {
+  const violations: BuiltinViolation[] = [];
+  for (const comment of input.unit.comments) {
+    const l = comment.text.trim();
+    if (comment.block || !l.startsWith('///')) continue;
+    const i = comment.line - 1;
     // Detect "/// SomeName class." or "/// SomeName class" patterns
     if (/^\/\/\/\s+\w+\s+(?:class|method|table|form|enum|edt|query|view)\.?\s*$/i.test(l)) {
       violations.push({
@@ -881,8 +853,8 @@ function checkGenericDocComment(code: string): ValidationViolation[] {
     // Detect single-word comment that exactly matches the next class/method name
     // e.g.: /// validateWrite.  followed by  public boolean validateWrite()
     const singleWord = /^\/\/\/\s+(\w+)\.?\s*$/.exec(l);
-    if (singleWord && i + 1 < lines.length) {
-      const nextCode = lines[i + 1].trim();
+    if (singleWord && i + 1 < input.lines.length) {
+      const nextCode = input.lines[i + 1].trim();
       if (nextCode.includes(singleWord[1] + '(') || nextCode.includes(singleWord[1] + ' ')) {
         violations.push({
           rule: 'BP003',
@@ -897,15 +869,14 @@ function checkGenericDocComment(code: string): ValidationViolation[] {
   }
   return violations;
 }
-
 /**
  * XML001 — AxTable XML missing an index with <AlternateKey>Yes</AlternateKey>.
  * Warning, not error: xppbp raises BPCheckAlternateKeyAbsent as a warning and the
  * table still builds. As an error it made a legitimately single-index table
  * unsatisfiable (eval #7).
  */
-function checkMissingAlternateKey(code: string): ValidationViolation[] {
-  const violations: ValidationViolation[] = [];
+function checkMissingAlternateKey(code: string): BuiltinViolation[] {
+  const violations: BuiltinViolation[] = [];
   // A table EXTENSION inherits the base table's alternate key — it must not be
   // required to declare its own. Only full AxTable definitions need one.
   if (/<AxTableExtension[\s>]/.test(code)) return violations;
@@ -926,22 +897,21 @@ function checkMissingAlternateKey(code: string): ValidationViolation[] {
 
 /**
  * TTS001 — Unbalanced ttsbegin / ttscommit.
- * Counts (on masked code) ttsbegin vs ttscommit. A mismatch usually means a
+ * Counts the parsed ttsbegin vs ttscommit statements. A mismatch usually means a
  * missing commit (transaction left open) or a stray commit. ttsabort lives in
  * catch blocks and is not required to balance the static count.
  */
-function checkUnbalancedTts(code: string): ValidationViolation[] {
-  const masked = maskStringsAndComments(code);
-  const begins = (masked.match(/\bttsbegin\b/gi) ?? []).length;
-  const commits = (masked.match(/\bttscommit\b/gi) ?? []).length;
-  if (begins === 0 && commits === 0) return [];
-  if (begins === commits) return [];
-  const firstIdx = masked.search(/\bttsbegin\b/i);
+function checkUnbalancedTts(input: XppRuleInput): BuiltinViolation[] {
+  const tts = nodesOfKind(input.unit, 'Tts');
+  const begins = tts.filter(t => t.keyword === 'ttsbegin');
+  const commits = tts.filter(t => t.keyword === 'ttscommit').length;
+  if (begins.length === 0 && commits === 0) return [];
+  if (begins.length === commits) return [];
   return [{
     rule: 'TTS001',
     severity: 'warning',
-    line: firstIdx >= 0 ? lineNumber(code, firstIdx) : undefined,
-    excerpt: `ttsbegin × ${begins}, ttscommit × ${commits}`,
+    line: begins[0]?.line,
+    excerpt: `ttsbegin × ${begins.length}, ttscommit × ${commits}`,
     fix: 'Balance every ttsbegin with a matching ttscommit (and ttsabort in the catch). ' +
       'An unmatched ttsbegin leaves the transaction open; an unmatched ttscommit will throw at runtime.',
   }];
@@ -951,15 +921,15 @@ function checkUnbalancedTts(code: string): ValidationViolation[] {
  * BP004 — Developer-only statements left in code (pause / print).
  * These block the AOS / write to the console and must not ship.
  */
-function checkDevArtifacts(code: string): ValidationViolation[] {
-  return matchAll(
-    maskStringsAndComments(code),
-    /\b(?:pause|print)\b/g,
-    'BP004',
-    'warning',
-    'Remove developer-only statements (pause / print) before shipping. ' +
-    'Use the Infolog (info/warning) or telemetry for diagnostics instead.',
-  );
+function checkDevArtifacts(input: XppRuleInput): BuiltinViolation[] {
+  return nodesOfKind(input.unit, 'DevOutput').map(statement => ({
+    rule: 'BP004',
+    severity: 'warning' as const,
+    line: statement.line,
+    excerpt: input.code.slice(statement.start, statement.start + statement.keyword.length),
+    fix: 'Remove developer-only statements (pause / print) before shipping. ' +
+      'Use the Infolog (info/warning) or telemetry for diagnostics instead.',
+  }));
 }
 
 // Data-driven property rules (XML002-XML005)
@@ -1015,8 +985,8 @@ function tableHeaderSegment(code: string): string {
 }
 
 /** XML002/XML003/XML005 — table-level property presence. */
-function checkTableProperties(code: string, stats?: PropertyStatsProvider): ValidationViolation[] {
-  const violations: ValidationViolation[] = [];
+function checkTableProperties(code: string, stats?: PropertyStatsProvider): BuiltinViolation[] {
+  const violations: BuiltinViolation[] = [];
   if (!/<AxTable[\s>]/i.test(code)) return violations;
   const header = tableHeaderSegment(code);
 
@@ -1066,8 +1036,8 @@ function checkTableProperties(code: string, stats?: PropertyStatsProvider): Vali
 }
 
 /** XML004 — every AxTableField should carry an EDT (or EnumType for enums). */
-function checkFieldEdt(code: string, stats?: PropertyStatsProvider): ValidationViolation[] {
-  const violations: ValidationViolation[] = [];
+function checkFieldEdt(code: string, stats?: PropertyStatsProvider): BuiltinViolation[] {
+  const violations: BuiltinViolation[] = [];
   if (!/<AxTableField[\s>]/i.test(code)) return violations;
   const rule = propertyRuleApplies(stats, 'AxTableField', 'ExtendedDataType');
   if (!rule.applies) return violations;
@@ -1091,7 +1061,7 @@ function checkFieldEdt(code: string, stats?: PropertyStatsProvider): ValidationV
 
 // Runner
 
-const XPP_RULES = [
+const XPP_RULES: Array<(input: XppRuleInput) => BuiltinViolation[]> = [
   checkTodayDeprecated,
   checkForceLiterals,
   checkCrossCompanyPlacement,
@@ -1112,8 +1082,15 @@ const XPP_RULES = [
   checkDevArtifacts,
 ];
 
+/** A direct child of the document root: its name and its span, closing tag included. */
+interface RootChild {
+  name: string;
+  start: number;
+  end: number;
+}
+
 /**
- * Collect the names of the direct children of the document root, in document order.
+ * Collect the direct children of the document root, in document order.
  *
  * Skips CDATA / comments / PIs in a single forward scan rather than stripping them with
  * chained `.replace()`. Two reasons that matters: removing one region can splice its
@@ -1122,8 +1099,9 @@ const XPP_RULES = [
  * Skipping in place can do neither. CDATA is what makes this necessary in the first place:
  * X++ inside `<Source><![CDATA[…]]></Source>` is full of `<` that would read as tags.
  */
-function rootChildElements(xml: string): string[] {
-  const out: string[] = [];
+function rootChildren(xml: string): RootChild[] {
+  const out: RootChild[] = [];
+  let open: RootChild | undefined;
   let depth = 0;
   let i = 0;
 
@@ -1151,17 +1129,29 @@ function rootChildElements(xml: string): string[] {
       i = lt + 1;
       continue;
     }
+    i = lt + m[0].length;
     if (m[1] === '/') {
       depth--;
+      if (depth === 1 && open) {
+        open.end = i;
+        open = undefined;
+      }
     } else {
-      if (depth === 1) out.push(m[2]);
+      if (depth === 1) {
+        const child = { name: m[2], start: lt, end: i };
+        out.push(child);
+        if (m[4] !== '/') open = child;
+      }
       if (m[4] !== '/') depth++;
     }
-    i = lt + m[0].length;
   }
   return out;
 }
 
+function rootChildElements(xml: string): string[] {
+  return rootChildren(xml).map(c => c.name);
+}
+
 /**
  * XML006 — AxTable elements out of canonical order.
  *
@@ -1171,12 +1161,12 @@ function rootChildElements(xml: string): string[] {
  * the file, and this validator used to answer "no violations" on exactly that
  * document (docs/eval-sweep-findings-2026-07-21.md #13).
  */
-function checkTableElementOrder(code: string): ValidationViolation[] {
+function checkTableElementOrder(code: string): BuiltinViolation[] {
   if (!/<AxTable[\s>]/.test(code)) return [];
   const children = rootChildElements(code).filter(
     n => axTableElementRank(n) !== Number.MAX_SAFE_INTEGER,
   );
-  const violations: ValidationViolation[] = [];
+  const violations: BuiltinViolation[] = [];
   for (let i = 1; i < children.length; i++) {
     const prev = children[i - 1];
     const cur = children[i];
@@ -1202,9 +1192,9 @@ function checkTableElementOrder(code: string): ValidationViolation[] {
  * `<AlternateKey>` at table level is the common one: it reads naturally, is
  * accepted by every writer, and does nothing at all (findings #13).
  */
-function checkNonExistentTableProperties(code: string): ValidationViolation[] {
+function checkNonExistentTableProperties(code: string): BuiltinViolation[] {
   if (!/<AxTable[\s>]/.test(code)) return [];
-  const violations: ValidationViolation[] = [];
+  const violations: BuiltinViolation[] = [];
   for (const name of new Set(rootChildElements(code))) {
     const explanation = AX_TABLE_NON_EXISTENT_PROPERTIES[name];
     if (!explanation) continue;
@@ -1230,23 +1220,78 @@ const XML_PROPERTY_RULES = [
   checkFieldEdt,
 ];
 
+/**
+ * The X++ an AxTable carries, at its original offsets: everything outside the
+ * <Source>/<Declaration> bodies is blanked (newlines kept, so lines still match
+ * the file), CDATA markers are blanked and the common entities are decoded
+ * into same-length text. The XML around the methods is not X++ and parsing it
+ * as X++ only produces noise.
+ *
+ * The methods of an AOT class sit after its <Declaration>, whose body closes
+ * with `}` — so the rules would see them outside the class and every rule
+ * gated on the class (the CoC rules on an [ExtensionOf] class) would stay
+ * silent. That closing brace is blanked and appended after the last method
+ * instead, the way withClassContext rebuilds a snippet's class: the methods
+ * parse as members, and every offset inside the file is unchanged.
+ */
+function xppSourceRegions(xml: string): string {
+  const blank = (text: string) => text.replace(/[^\n]/g, ' ');
+  const decode = (text: string) => text
+    .replace(/<!\[CDATA\[|\]\]>/g, m => blank(m))
+    .replace(/&lt;/g, '<   ')
+    .replace(/&gt;/g, '>   ')
+    .replace(/&amp;/g, '&    ')
+    .replace(/&quot;/g, '"     ')
+    .replace(/&apos;/g, "'     ");
+  let out = '';
+  let last = 0;
+  let deferredBrace = false;
+  for (const m of xml.matchAll(/(<(Source|Declaration)>)([\s\S]*?)(<\/\2>)/g)) {
+    const bodyStart = (m.index ?? 0) + m[1].length;
+    let body = decode(m[3]);
+    if (m[2] === 'Declaration' && last === 0) {
+      const close = body.lastIndexOf('}');
+      if (close !== -1 && /\bclass\s+\w+/i.test(body)) {
+        body = `${body.slice(0, close)} ${body.slice(close + 1)}`;
+        deferredBrace = true;
+      }
+    }
+    out += blank(xml.slice(last, bodyStart)) + body;
+    last = bodyStart + m[3].length;
+  }
+  return out + blank(xml.slice(last)) + (deferredBrace ? '\n}' : '');
+}
+
+/**
+ * Run the built-in rules for `codeType`, then any custom pack rules (see
+ * rulePacks.ts) the caller loaded — on the same parse, so a pack's AST query
+ * sees exactly the tree the built-ins do.
+ */
 export function runRules(
   code: string,
   codeType: 'xpp' | 'xml-table' | 'xml-any',
   stats?: PropertyStatsProvider,
+  packRules: readonly PackRule[] = [],
 ): ValidationViolation[] {
   const violations: ValidationViolation[] = [];
   if (codeType === 'xpp') {
+    const input = ruleInput(code);
     for (const rule of XPP_RULES) {
-      violations.push(...rule(code));
+      violations.push(...rule(input));
     }
+    violations.push(...runPackRules(packRules, { xpp: input }));
   } else if (codeType === 'xml-table') {
-    for (const rule of [...XPP_RULES, ...XML_RULES]) {
+    const input = ruleInput(xppSourceRegions(code));
+    for (const rule of XPP_RULES) {
+      violations.push(...rule(input));
+    }
+    for (const rule of XML_RULES) {
       violations.push(...rule(code));
     }
     for (const rule of XML_PROPERTY_RULES) {
       violations.push(...rule(code, stats));
     }
+    violations.push(...runPackRules(packRules, { xpp: input, xml: code }));
   } else {
     for (const rule of XML_RULES) {
       violations.push(...rule(code));
@@ -1254,12 +1299,214 @@ export function runRules(
     for (const rule of XML_PROPERTY_RULES) {
       violations.push(...rule(code, stats));
     }
+    violations.push(...runPackRules(packRules, { xml: code }));
   }
   return violations;
 }
 
+// Auto-fix
+
+/** One mechanical edit: `[start, end)` of the source becomes `text`. */
+interface SourceEdit {
+  rule: string;
+  start: number;
+  end: number;
+  text: string;
+  /** What the edit does, for the report. */
+  summary: string;
+}
+
+/** An edit that `fixViolations` applied, located in the source it was given. */
+export interface AppliedFix {
+  rule: string;
+  line: number;
+  summary: string;
+}
+
+const TODAY_REPLACEMENT = 'DateTimeUtil::getToday(DateTimeUtil::getUserPreferredTimeZone())';
+
+/** SEL001 — each `today()` becomes the time-zone-aware call. */
+function fixTodayDeprecated(input: XppRuleInput): SourceEdit[] {
+  return nodesOfKind(input.unit, 'Call')
+    .filter(call => globalCallName(call)?.toLowerCase() === 'today' && call.args.length === 0)
+    .map(call => ({
+      rule: 'SEL001',
+      start: call.start,
+      end: call.end,
+      text: TODAY_REPLACEMENT,
+      summary: `${sourceOf(input, call)} → DateTimeUtil::getToday(...)`,
+    }));
+}
+
+/**
+ * COC001 — drop every default value from a wrapper's parameters, `= ` and the
+ * space before it included. The same methods as the check are skipped.
+ */
+function fixCocDefaultParam(input: XppRuleInput): SourceEdit[] {
+  const edits: SourceEdit[] = [];
+  for (const cls of extensionClasses(input)) {
+    for (const method of methodsOf(cls)) {
+      if (method.name.toLowerCase() === 'new' || /^parm[A-Z]/.test(method.name) || !wrapsNext(method)) continue;
+      for (const parameter of method.parameters) {
+        if (!parameter.defaultValue) continue;
+        let start = input.code.lastIndexOf('=', parameter.defaultValue.start);
+        if (start < parameter.start) continue;
+        while (start > parameter.start && /\s/.test(input.code[start - 1])) start--;
+        edits.push({
+          rule: 'COC001',
+          start,
+          end: parameter.defaultValue.end,
+          text: '',
+          summary: `removed the default value of ${parameter.name} in ${method.name}()`,
+        });
+      }
+    }
+  }
+  return edits;
+}
+
+/** COC002 — `final` goes in front of the `class` keyword. */
+function fixExtensionOfNotFinal(input: XppRuleInput): SourceEdit[] {
+  return extensionClasses(input)
+    .filter(cls => !cls.isInterface && !cls.modifiers.includes('final'))
+    .map(cls => ({
+      rule: 'COC002',
+      start: cls.keywordStart,
+      end: cls.keywordStart,
+      text: 'final ',
+      summary: `declared ${cls.name} final`,
+    }));
+}
+
+/**
+ * BP004 — remove `pause;` / `print …;`, and its line when nothing else is on
+ * it. Only a statement in a statement list is removed: deleting the body of a
+ * brace-less `if (x) print x;` would hand the `if` the next statement.
+ */
+function fixDevArtifacts(input: XppRuleInput): SourceEdit[] {
+  const edits: SourceEdit[] = [];
+  walkXpp(input.unit, (node, ancestors) => {
+    if (node.kind !== 'DevOutput') return;
+    const parent = ancestors[ancestors.length - 1]?.kind;
+    if (parent !== 'Block' && parent !== 'SwitchCase' && parent !== 'CompilationUnit') return;
+    const lineStart = input.code.lastIndexOf('\n', node.start - 1) + 1;
+    const newline = input.code.indexOf('\n', node.end);
+    const lineEnd = newline === -1 ? input.code.length : newline;
+    const alone = input.code.slice(lineStart, node.start).trim() === '' &&
+      input.code.slice(node.end, lineEnd).trim() === '';
+    let end = node.end;
+    while (end < lineEnd && /[ \t]/.test(input.code[end])) end++;
+    edits.push({
+      rule: 'BP004',
+      start: alone ? lineStart : node.start,
+      end: alone ? Math.min(lineEnd + 1, input.code.length) : end,
+      text: '',
+      summary: `removed ${node.keyword}`,
+    });
+  });
+  return edits;
+}
+
+const XPP_FIXERS: Array<(input: XppRuleInput) => SourceEdit[]> = [
+  fixTodayDeprecated,
+  fixCocDefaultParam,
+  fixExtensionOfNotFinal,
+  fixDevArtifacts,
+];
+
+/**
+ * XML006 — put the AxTable root elements in AX_TABLE_ELEMENT_ORDER. Known
+ * elements are sorted among the positions known elements held; an element the
+ * order does not list keeps its place, as does the whitespace between them.
+ */
+function fixTableElementOrder(code: string): SourceEdit[] {
+  if (checkTableElementOrder(code).length === 0) return [];
+  const known = rootChildren(code).filter(c => axTableElementRank(c.name) !== Number.MAX_SAFE_INTEGER);
+  const textOf = (c: RootChild) => code.slice(c.start, c.end);
+  // An element that never closes has no span to move.
+  if (known.some(c => !/(\/>|<\/[\w.-]+>)$/.test(textOf(c)))) return [];
+  const sorted = [...known].sort((x, y) => axTableElementRank(x.name) - axTableElementRank(y.name));
+  const first = known[0];
+  const last = known[known.length - 1];
+  let text = '';
+  for (let i = 0; i < known.length; i++) {
+    text += textOf(sorted[i]);
+    if (i < known.length - 1) text += code.slice(known[i].end, known[i + 1].start);
+  }
+  return [{
+    rule: 'XML006',
+    start: first.start,
+    end: last.end,
+    text,
+    summary: 'reordered the AxTable elements into canonical order',
+  }];
+}
+
+/** Apply edits back to front; one that overlaps an edit already taken is dropped. */
+function applyEdits(code: string, edits: SourceEdit[]): { code: string; applied: AppliedFix[] } {
+  const ordered = [...edits].sort((x, y) => y.start - x.start || y.end - x.end);
+  const applied: AppliedFix[] = [];
+  let out = code;
+  let floor = Number.POSITIVE_INFINITY;
+  for (const edit of ordered) {
+    if (edit.end > floor) continue;
+    out = out.slice(0, edit.start) + edit.text + out.slice(edit.end);
+    floor = edit.start;
+    applied.push({ rule: edit.rule, line: lineNumber(code, edit.start), summary: edit.summary });
+  }
+  return { code: out, applied: applied.reverse() };
+}
+
+/**
+ * Apply the mechanical fixes: SEL001, COC001, COC002, BP004 and, for AxTable
+ * XML, XML006. The X++ of an `xml-table` document is fixed in place — its
+ * parse is at the file's own offsets (xppSourceRegions) — and the elements are
+ * reordered after that, so the two never compete for the same span. Every
+ * other rule is left for the caller; run the rules again on the result.
+ */
+export function fixViolations(
+  code: string,
+  codeType: 'xpp' | 'xml-table' | 'xml-any',
+): { code: string; applied: AppliedFix[] } {
+  if (codeType === 'xml-any') return { code, applied: [] };
+  const input = ruleInput(codeType === 'xpp' ? code : xppSourceRegions(code));
+  const xpp = applyEdits(code, XPP_FIXERS.flatMap(fixer => fixer(input)));
+  if (codeType === 'xpp') return xpp;
+  const xml = applyEdits(xpp.code, fixTableElementOrder(xpp.code));
+  return { code: xml.code, applied: [...xpp.applied, ...xml.applied] };
+}
+
 // Tool handler
 
+/** The fix report: what changed, the diff and the whole rewritten source. */
+function formatFixes(
+  applied: AppliedFix[],
+  before: string,
+  after: string,
+  codeType: 'xpp' | 'xml-table' | 'xml-any',
+): string {
+  if (applied.length === 0) {
+    return '🔧 Auto-fix: nothing mechanically fixable — the source is unchanged.\n\n';
+  }
+  return [
+    `🔧 Auto-fix: applied ${applied.length} fix(es).`,
+    ...applied.map(f => `   • [${f.rule}] (line ${f.line}) ${f.summary}`),
+    '',
+    '```diff',
+    unifiedDiff(before, after, { fromFile: 'original', toFile: 'fixed' }),
+    '```',
+    '',
+    'Fixed source:',
+    '',
+    `\`\`\`${codeType === 'xpp' ? 'xpp' : 'xml'}`,
+    after,
+    '```',
+    '',
+    '',
+  ].join('\n');
+}
+
+
 export async function validateXppTool(
   request: any,
   serverContext?: { symbolIndex?: PropertyStatsProvider },
@@ -1273,11 +1520,18 @@ export async function validateXppTool(
     };
   }
 
-  const { code, codeType = 'xpp', context } = parsed.data;
+  const { codeType = 'xpp', context, fix } = parsed.data;
   const stats = typeof serverContext?.symbolIndex?.getPropertyPresenceRatio === 'function'
     ? serverContext.symbolIndex
     : undefined;
-  const violations = runRules(code, codeType, stats);
+  const fixed = fix ? fixViolations(parsed.data.code, codeType) : undefined;
+  const code = fixed?.code ?? parsed.data.code;
+  const fixNote = fixed ? formatFixes(fixed.applied, parsed.data.code, code, codeType) : '';
+  const packs = loadRulePacks();
+  const violations = runRules(code, codeType, stats, packs.rules);
+  const packNote = packs.problems.length > 0
+    ? `\n\n⚠️ Rule pack problems — these were skipped:\n${packs.problems.map(p => `   • ${p}`).join('\n')}`
+    : '';
 
   const errors = violations.filter(v => v.severity === 'error');
   const warnings = violations.filter(v => v.severity === 'warning');
@@ -1286,18 +1540,23 @@ export async function validateXppTool(
     return {
       content: [{
         type: 'text',
-        text: `✅ validate_code(syntax): no violations found${context ? ` in ${context}` : ''}.\n` +
+        text: fixNote +
+          `✅ validate_code(syntax): no violations found${context ? ` in ${context}` : ''}` +
+          `${fixed ? ' after the fixes' : ''}.\n` +
           `Checked ${XPP_RULES.length + (codeType !== 'xpp' ? XML_RULES.length + XML_PROPERTY_RULES.length : 0)} rule groups` +
-          `${codeType !== 'xpp' && stats ? ' (property rules driven by mined standard-model statistics)' : ''}.`,
+          `${codeType !== 'xpp' && stats ? ' (property rules driven by mined standard-model statistics)' : ''}` +
+          `${packs.rules.length > 0 ? ` and ${packs.rules.length} custom rule-pack rule(s)` : ''}.${packNote}`,
       }],
     };
   }
 
   const lines: string[] = [];
+  if (fixNote) lines.push(fixNote.trimEnd(), '');
   lines.push(
     `${errors.length > 0 ? '❌' : '⚠️'} validate_code(syntax): ` +
     `${errors.length} error(s), ${warnings.length} warning(s)` +
-    (context ? ` in ${context}` : ''),
+    (context ? ` in ${context}` : '') +
+    (fixed ? ' left after the fixes' : ''),
   );
   lines.push('');
 
@@ -1316,6 +1575,7 @@ export async function validateXppTool(
       ? '⛔ Fix all errors before calling d365fo_file(action="create") or d365fo_file(action="modify").'
       : '⚠️  Address warnings where practical, then proceed.',
   );
+  if (packNote) lines.push('', packNote.trim());
 
   return {
     isError: errors.length > 0,
@@ -6,6 +6,14 @@
  *   • create   → write a NEW AOT object file into PackagesLocalDirectory (write)
  *   • modify   → edit an EXISTING object via IMetadataProvider (write)
  *   • delete   → remove an object's XML and its .rnrproj registration (write)
+ *   • changeset → several create/modify/label writes across objects, rolled back
+ *                 as a unit when one fails (write; see write/changeSet.ts)
+ *   • merge    → three-way merge of a conflicting AOT XML file by element, not
+ *                by line (write; see write/mergeD365File.ts)
+ *   • rename   → rename a class/table/EDT/enum and every reference to it across
+ *                the model (write; see write/renameObject.ts)
+ *   • move     → move an object, its extensions and labels to another custom
+ *                model (write; see write/moveObject.ts)
  *
  * Like `labels`, this mixes a read-capable action (generate works on Azure
  * read-only) with write actions that need local Windows-VM filesystem access;
@@ -21,9 +29,16 @@ import { handleGenerateD365Xml } from './xml/generateD365Xml.js';
 import { handleCreateD365File } from './write/createD365File.js';
 import { handleDeleteD365File } from './write/deleteD365File.js';
 import { modifyD365FileTool } from './write/modifyD365File.js';
+import { changeSetTool } from './write/changeSet.js';
+import { mergeD365FileTool } from './write/mergeD365File.js';
+import { renameObjectTool } from './write/renameObject.js';
+import { moveObjectTool } from './write/moveObject.js';
+import {
+  bridgeOnlyPreviewRefusal, previewKind, previewWrites, renderPreview,
+} from './write/writePreview.js';
 import { resetRecentPrepares } from './prepare/prepare.js';
 
-export const D365_FILE_ACTIONS = ['generate', 'create', 'modify', 'delete'] as const;
+export const D365_FILE_ACTIONS = ['generate', 'create', 'modify', 'delete', 'changeset', 'merge', 'rename', 'move'] as const;
 export type D365FileAction = (typeof D365_FILE_ACTIONS)[number];
 
 const D365FileArgsSchema = z
@@ -31,7 +46,11 @@ const D365FileArgsSchema = z
     action: z.enum(D365_FILE_ACTIONS).describe(
       'generate → XML text only (no file written, Azure/Linux fallback); ' +
       'create → write a NEW object file (Windows); modify → edit an EXISTING object (Windows); ' +
-      'delete → remove an object file and its project registration (Windows).',
+      'delete → remove an object file and its project registration (Windows); ' +
+      'changeset → several create/modify/label writes across objects, all or nothing (Windows); ' +
+      'merge → three-way merge of a conflicting AOT XML file by element (Windows); ' +
+      'rename → rename a class/table/EDT/enum and its references across the model (Windows); ' +
+      'move → move an object with its extensions and labels to another custom model (Windows).',
     ),
     // Operation-specific parameters may arrive nested in `params` (the published
     // schema advertises only this object) — they are flattened before dispatch.
@@ -174,6 +193,37 @@ async function runModifyBatch(
   };
 }
 
+/**
+ * operations[] with dryRun=true: the batch runs as a whole and is previewed as
+ * one diff — per-entry previews would each start from the unmodified file, and a
+ * range removal would never see the range added two entries earlier. Refused up
+ * front when any entry is an operation that cannot be previewed.
+ */
+async function previewModifyBatch(rest: Record<string, unknown>, context: XppServerContext): Promise<any> {
+  const { dryRun: _dryRun, ...batch } = rest;
+  let spliced = false;
+  for (const entry of batch.operations as unknown[]) {
+    if (!entry || typeof entry !== 'object' || !(entry as any).operation) continue; // reported by runModifyBatch
+    const { operation, objectType = (entry as any).params?.objectType ?? batch.objectType } = entry as Record<string, unknown>;
+    const kind = previewKind(String(operation), String(objectType));
+    if (kind === 'spliced') spliced = true;
+    if (!kind) {
+      return {
+        content: [{ type: 'text', text: `❌ ${bridgeOnlyPreviewRefusal(String(operation), String(objectType))}` }],
+        isError: true,
+      };
+    }
+  }
+  const { result, diffs } = await previewWrites(() => runModifyBatch(batch, context));
+  const count = Array.isArray(batch.operations) ? batch.operations.length : 0;
+  return renderPreview(
+    `${count} operation(s) on ${String(batch.objectType)} "${String(batch.objectName ?? batch.filePath)}"`,
+    result,
+    diffs,
+    spliced,
+  );
+}
+
 export async function d365foFileTool(request: CallToolRequest, context: XppServerContext) {
   const parsed = D365FileArgsSchema.safeParse(request.params.arguments ?? {});
   if (!parsed.success) {
@@ -196,7 +246,7 @@ export async function d365foFileTool(request: CallToolRequest, context: XppServe
   // A write changes the AOT out from under anything prepare aggregated earlier, so
   // the remembered answers stop being answers. Cleared before the write rather than
   // after: a handler that throws half-way has still touched disk.
-  if (action === 'create' || action === 'modify' || action === 'delete') {
+  if (action !== 'generate') {
     resetRecentPrepares();
   }
 
@@ -205,13 +255,25 @@ export async function d365foFileTool(request: CallToolRequest, context: XppServe
   }
   if (action === 'modify') {
     if (Array.isArray(rest.operations)) {
-      return runModifyBatch(rest, context);
+      return rest.dryRun === true ? previewModifyBatch(rest, context) : runModifyBatch(rest, context);
     }
     return modifyD365FileTool(subRequest('modify_d365fo_file', rest), context);
   }
   if (action === 'delete') {
     return handleDeleteD365File(subRequest('delete_d365fo_file', rest), context);
   }
+  if (action === 'changeset') {
+    return changeSetTool(rest, context);
+  }
+  if (action === 'merge') {
+    return mergeD365FileTool(rest, context);
+  }
+  if (action === 'rename') {
+    return renameObjectTool(rest, context);
+  }
+  if (action === 'move') {
+    return moveObjectTool(rest, context);
+  }
   // generate: handler takes the request only (no context).
   return handleGenerateD365Xml(subRequest('generate_d365fo_xml', rest));
 }
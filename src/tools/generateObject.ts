@@ -1,17 +1,18 @@
 /**
  * Generate Tool — unified code generator.
  *
- * Six modes, discriminated by `mode` (the dispatch switch below is the
+ * Seven modes, discriminated by `mode` (the dispatch switch below is the
  * authority — keep this list in step with it):
  *   • pattern        → named X++ skeleton from a pattern enum (text only, no write)
- *   • scaffold       → pattern-aware whole-object generation: table/form/report
+ *   • scaffold       → pattern-aware whole-object generation: table/form/report/data-entity
  *   • find-methods   → find / findRecId / exists for a table
  *   • relation-xpp   → a table's relations rendered as X++ select/query
  *   • fields         → field list → AxTableField XML, with EDT inference
  *   • table-relation → EDT-referencing fields → AxTableRelation XML
+ *   • security       → least-privilege privileges + duty + role extension for a form
  *
  * The first two absorbed the retired generate_code and generate_smart tools;
- * the other four were added later and were invisible in this header for long
+ * the other five were added later and were invisible in this header for long
  * enough that a reader could reasonably conclude they did not exist.
  *
  * Param names of the underlying handlers do not collide and none of their
@@ -33,6 +34,7 @@ import { codeGenTool } from './smart/codeGen.js';
 import { generateSmartTool } from './smart/generateSmart.js';
 import { generateFindMethodsTool } from './smart/generateFindMethods.js';
 import { generateRelationXppTool } from './smart/generateRelationXpp.js';
+import { generateSecurityScaffoldTool } from './smart/generateSecurityScaffold.js';
 import { generateTableFieldsTool } from './xml/generateTableFields.js';
 import { generateTableRelationTool } from './xml/generateTableRelation.js';
 import {
@@ -93,8 +95,10 @@ export async function generateObjectTool(request: CallToolRequest, context: XppS
       return generateTableFieldsTool(request, context);
     case 'table-relation':
       return generateTableRelationTool(request, context);
+    case 'security':
+      return generateSecurityScaffoldTool(request, context);
     default:
-      return err(`generate_object: unknown mode "${mode}". Use "pattern" (named X++ skeleton, text only), "scaffold" (whole table/form/report), "find-methods" (find/findRecId/exists for a table), "relation-xpp" (table relations → X++ select/query), "fields" (field list → AxTableField XML with auto-EDT), or "table-relation" (EDT-referencing fields → AxTableRelation XML). Per-mode parameters: get_knowledge(kind="op-spec", topic="<mode>").`);
+      return err(`generate_object: unknown mode "${mode}". Use "pattern" (named X++ skeleton, text only), "scaffold" (whole table/form/report), "find-methods" (find/findRecId/exists for a table), "relation-xpp" (table relations → X++ select/query), "fields" (field list → AxTableField XML with auto-EDT), "table-relation" (EDT-referencing fields → AxTableRelation XML), or "security" (privileges + duty + role extension for a form, as one change set). Per-mode parameters: get_knowledge(kind="op-spec", topic="<mode>").`);
   }
 }
 
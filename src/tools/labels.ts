@@ -21,13 +21,16 @@ import { mapWithConcurrency } from '../utils/concurrency.js';
 import {
   recordLabelSearchCall, repeatSearchNotice, searchBudgetNotice,
 } from './analysis/labelSearchHistory.js';
+import { labelAuditTool } from './analysis/labelAudit.js';
+import { labelGapsTool } from './analysis/labelGaps.js';
 import { getLabelInfoTool } from './readers/getLabelInfo.js';
 import { createLabelTool } from './write/createLabel.js';
+import { labelExtractTool } from './write/labelExtract.js';
 import { renameLabelTool } from './write/renameLabel.js';
 
 export type LabelsTool = (request: CallToolRequest, context: XppServerContext) => Promise<any>;
 
-export const LABEL_ACTIONS = ['search', 'info', 'create', 'update', 'rename'] as const;
+export const LABEL_ACTIONS = ['search', 'info', 'create', 'update', 'rename', 'gaps', 'audit', 'extract'] as const;
 export type LabelAction = (typeof LABEL_ACTIONS)[number];
 
 interface LabelDispatch {
@@ -42,6 +45,9 @@ export const LABEL_DISPATCH: Record<LabelAction, LabelDispatch> = {
   // update reuses create with overwriteExisting forced true (see below); same args as create.
   update: { tool: createLabelTool,  toolName: 'create_label' },
   rename: { tool: renameLabelTool,  toolName: 'rename_label' },
+  gaps:   { tool: labelGapsTool,    toolName: 'label_gaps' },
+  audit:  { tool: labelAuditTool,   toolName: 'label_audit' },
+  extract: { tool: labelExtractTool, toolName: 'label_extract' },
 };
 
 const LabelsArgsSchema = z
@@ -50,7 +56,10 @@ const LabelsArgsSchema = z
       'Which label operation to run: ' +
       'search (full-text query, read), info (translations for a label ID or list of label files, read), ' +
       'create (add a NEW label to an AxLabelFile, write), update (overwrite the text of an EXISTING label, ' +
-      'e.g. fix a wrong translation, write), rename (rename a label ID across .label.txt + X++ + XML, write).',
+      'e.g. fix a wrong translation, write), rename (rename a label ID across .label.txt + X++ + XML, write), ' +
+      'gaps (untranslated labels per language, XLIFF export/import), ' +
+      'audit (unused labels, duplicate texts, hardcoded strings of a model, read), ' +
+      'extract (move a class/form\'s hardcoded strings into labels and rewrite its source, write).',
     ),
   })
   .passthrough();
@@ -62,6 +71,9 @@ const ACTION_ALIASES: Record<string, LabelAction> = {
   add: 'create', 'create-label': 'create', 'new': 'create',
   edit: 'update', 'update-label': 'update', 'set': 'update', 'overwrite': 'update',
   'rename-label': 'rename',
+  'translation-gaps': 'gaps', 'missing-translations': 'gaps',
+  'unused': 'audit', 'label-audit': 'audit', 'hardcoded': 'audit',
+  'extract-labels': 'extract', 'externalize': 'extract',
 };
 
 /** There is no dedicated "create label file" action — action=create auto-creates a missing AxLabelFile as a side effect. */
@@ -111,7 +123,9 @@ export async function labelsTool(request: CallToolRequest, context: XppServerCon
         text:
           `❌ labels: invalid arguments — action must be one of: ${LABEL_ACTIONS.join(', ')} ` +
           `(got "${rawArgs.action ?? ''}"). search=find labels, info=translations / list label files, ` +
-          `create=add a new label, update=fix an existing label's text, rename=rename a label ID.`,
+          `create=add a new label, update=fix an existing label's text, rename=rename a label ID, ` +
+          `gaps=untranslated labels per language, audit=unused/duplicate/hardcoded labels, ` +
+          `extract=move an object's hardcoded strings into labels.`,
       }],
       isError: true,
     };
@@ -0,0 +1,188 @@
+/**
+ * Get Aggregate Measurement / Dimension Info Tools
+ * Read an AxAggregateMeasurement or an AxAggregateDimension from the SQLite
+ * index. A measurement lists each measure group with the table it is bound to,
+ * its measures (field + default aggregate) and dimension attributes, plus the
+ * KPIs that score it. A dimension shows its bound table and attributes, plus
+ * the measure groups on the same table. Azure-safe READ tools.
+ */
+
+import type { CallToolRequest } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import type { XppServerContext } from '../../types/context.js';
+import { lookupSymbolNocase } from '../../utils/symbolLookup.js';
+
+const GetAggregateMeasurementInfoArgsSchema = z.object({
+  measurementName: z.string().describe('Name of the AxAggregateMeasurement'),
+});
+
+const GetAggregateDimensionInfoArgsSchema = z.object({
+  dimensionName: z.string().describe('Name of the AxAggregateDimension'),
+});
+
+type Measure = { name: string; field?: string; defaultAggregate?: string };
+type Attribute = { name: string; keyFields?: string[] };
+
+function parseJsonArray<T>(raw: string | undefined): T[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function attributeLines(attributes: Attribute[]): string[] {
+  return attributes.map(a => {
+    const keys = a.keyFields ?? [];
+    return `- ${a.name}${keys.length > 0 ? ` — key ${keys.map(k => `\`${k}\``).join(', ')}` : ''}`;
+  });
+}
+
+export async function getAggregateMeasurementInfoTool(request: CallToolRequest, context: XppServerContext) {
+  try {
+    const { measurementName } = GetAggregateMeasurementInfoArgsSchema.parse(request.params.arguments);
+    const db = context.symbolIndex.getReadDb();
+
+    // Case-insensitive by AOT semantics, index-safe by construction (#686).
+    const symbol = lookupSymbolNocase(db, measurementName, ['aggregate-measurement']);
+    if (!symbol) {
+      return {
+        content: [{ type: 'text', text: `Aggregate measurement "${measurementName}" not found.\n\nTip: run extract-metadata + build-database to index AxAggregateMeasurement objects, or search(query="${measurementName}").` }],
+        isError: true,
+      };
+    }
+
+    // Side tables are keyed by the canonical name — pass symbol.name. A KPI or
+    // a dimension writes the names it refers to in its own casing, so lookups
+    // compare without case, as the AOT does.
+    const groups = db.prepare(
+      `SELECT group_name, table_name, measures, attributes FROM aggregate_measure_groups
+       WHERE measurement_name = ? COLLATE NOCASE ORDER BY group_name`
+    ).all(symbol.name) as { group_name: string; table_name?: string; measures?: string; attributes?: string }[];
+
+    // The measurement's own label and usage ride on its symbols row.
+    const header = db.prepare(
+      `SELECT description, signature FROM symbols WHERE name = ? AND type = 'aggregate-measurement' AND parent_name IS NULL LIMIT 1`
+    ).get(symbol.name) as { description?: string; signature?: string } | undefined;
+
+    const lines: string[] = [];
+    lines.push(`# AxAggregateMeasurement: \`${symbol.name}\``);
+    lines.push('');
+    lines.push(`**Model:** ${symbol.model}`);
+    if (header?.description) lines.push(`**Label:** ${header.description}`);
+    if (header?.signature) lines.push(`**Usage:** ${header.signature}`);
+    lines.push(`**File:** \`${symbol.file_path}\``);
+    lines.push('');
+
+    lines.push(`## Measure groups (${groups.length})`);
+    lines.push('');
+    if (groups.length === 0) {
+      lines.push('*(no measure groups indexed — run extract-metadata + build-database, or read it with options {"include":"xml"})*');
+      lines.push('');
+    }
+    for (const g of groups) {
+      lines.push(`### \`${g.group_name}\` → table ${g.table_name ? `\`${g.table_name}\`` : '— none'}`);
+      const measures = parseJsonArray<Measure>(g.measures);
+      if (measures.length > 0) {
+        lines.push('');
+        lines.push('| Measure | Field | Aggregate |');
+        lines.push('|---------|-------|-----------|');
+        for (const m of measures) {
+          lines.push(`| ${m.name} | ${m.field ? `\`${m.field}\`` : '—'} | ${m.defaultAggregate || 'Sum'} |`);
+        }
+      }
+      const attributes = parseJsonArray<Attribute>(g.attributes);
+      if (attributes.length > 0) {
+        lines.push('');
+        lines.push('Attributes:');
+        lines.push(...attributeLines(attributes));
+      }
+      lines.push('');
+    }
+
+    const kpis = db.prepare(
+      `SELECT kpi_name, measure_group, measure, model FROM kpis WHERE measurement = ? COLLATE NOCASE ORDER BY kpi_name`
+    ).all(symbol.name) as { kpi_name: string; measure_group?: string; measure?: string; model: string }[];
+    lines.push(`## KPIs (${kpis.length})`);
+    lines.push('');
+    if (kpis.length === 0) {
+      lines.push('*(no indexed KPI scores this measurement)*');
+    } else {
+      for (const k of kpis) {
+        lines.push(`- \`${k.kpi_name}\` — ${k.measure_group ?? '?'}.${k.measure ?? '?'} (${k.model})`);
+      }
+    }
+
+    return { content: [{ type: 'text', text: lines.join('\n') }] };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `❌ Error getting aggregate measurement info: ${error instanceof Error ? error.message : 'Unknown error'}` }],
+      isError: true,
+    };
+  }
+}
+
+export async function getAggregateDimensionInfoTool(request: CallToolRequest, context: XppServerContext) {
+  try {
+    const { dimensionName } = GetAggregateDimensionInfoArgsSchema.parse(request.params.arguments);
+    const db = context.symbolIndex.getReadDb();
+
+    const symbol = lookupSymbolNocase(db, dimensionName, ['aggregate-dimension']);
+    if (!symbol) {
+      return {
+        content: [{ type: 'text', text: `Aggregate dimension "${dimensionName}" not found.\n\nTip: run extract-metadata + build-database to index AxAggregateDimension objects, or search(query="${dimensionName}").` }],
+        isError: true,
+      };
+    }
+
+    const dimension = db.prepare(
+      `SELECT table_name, attributes, label FROM aggregate_dimensions WHERE dimension_name = ? COLLATE NOCASE LIMIT 1`
+    ).get(symbol.name) as { table_name?: string; attributes?: string; label?: string } | undefined;
+
+    const lines: string[] = [];
+    lines.push(`# AxAggregateDimension: \`${symbol.name}\``);
+    lines.push('');
+    lines.push(`**Model:** ${symbol.model}`);
+    if (dimension?.label) lines.push(`**Label:** ${dimension.label}`);
+    lines.push(`**File:** \`${symbol.file_path}\``);
+
+    if (!dimension) {
+      lines.push('');
+      lines.push('*(dimension details not indexed — run extract-metadata + build-database, or read it with options {"include":"xml"})*');
+      return { content: [{ type: 'text', text: lines.join('\n') }] };
+    }
+
+    lines.push(`**Table:** ${dimension.table_name ? `\`${dimension.table_name}\`` : '— none'}`);
+    lines.push('');
+
+    const attributes = parseJsonArray<Attribute>(dimension.attributes);
+    lines.push(`## Attributes (${attributes.length})`);
+    lines.push('');
+    if (attributes.length === 0) {
+      lines.push('*(no attributes indexed)*');
+    } else {
+      lines.push(...attributeLines(attributes));
+    }
+
+    if (dimension.table_name) {
+      const groups = db.prepare(
+        `SELECT measurement_name, group_name FROM aggregate_measure_groups WHERE table_name = ? COLLATE NOCASE ORDER BY measurement_name, group_name`
+      ).all(dimension.table_name) as { measurement_name: string; group_name: string }[];
+      if (groups.length > 0) {
+        lines.push('');
+        lines.push(`## Measure groups on \`${dimension.table_name}\` (${groups.length})`);
+        lines.push('');
+        for (const g of groups) lines.push(`- \`${g.measurement_name}\` / ${g.group_name}`);
+      }
+    }
+
+    return { content: [{ type: 'text', text: lines.join('\n') }] };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `❌ Error getting aggregate dimension info: ${error instanceof Error ? error.message : 'Unknown error'}` }],
+      isError: true,
+    };
+  }
+}
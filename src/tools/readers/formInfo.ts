@@ -17,6 +17,7 @@ import { tryBridgeForm } from '../../bridge/bridgeAdapter.js';
 import { readIndexedXml } from '../../utils/indexedXmlLookup.js';
 import { describeBridgeStartup } from '../../bridge/bridgeReadiness.js';
 import { assertWritePathAllowed } from '../../utils/pathContainment.js';
+import { formatWorkspaceForm } from './formWorkspaceInfo.js';
 import {
   createControlBudget, chargeControl, chargeSkippedSubtree, controlsFooter,
   DEFAULT_MAX_CONTROLS, type ControlBudget,
@@ -46,6 +47,11 @@ const GetFormInfoArgsSchema = z.object({
     `Cap on how many controls the tree renders (default ${DEFAULT_MAX_CONTROLS}). ` +
     'Prefer searchControl over raising this — a platform form has >1000 controls.'
   ),
+  mode: z.enum(['standard', 'workspace']).optional().default('standard').describe(
+    'standard=controls, datasources and methods; workspace=rebuild a Workspace-pattern form as its tiles ' +
+    '(with count query), list panels (part form + datasource) and link groups, flagging any tile or part ' +
+    'no role reaches'
+  ),
 });
 
 interface FormControl {
@@ -117,9 +123,34 @@ export async function getFormInfoTool(request: CallToolRequest, context: XppServ
           isError: true,
         };
       }
+      if (args.mode === 'workspace') {
+        return await formatWorkspaceForm(formName, 'Unknown', xmlContent, context.symbolIndex.getReadDb());
+      }
       return await parseAndFormatForm(formName, 'Unknown', xmlContent, includeControls, includeDataSources, includeMethods, searchControl, maxControls);
     }
 
+    // Workspace mode needs the design XML itself (tile, part and menu item
+    // properties), which the bridge's rendered tree does not carry — read the
+    // indexed file and resolve the links against the symbol index.
+    if (args.mode === 'workspace') {
+      const db = context.symbolIndex.getReadDb();
+      const indexed = await readIndexedXml(db, formName, ['form'], args.modelName);
+      if (indexed) {
+        try {
+          return await formatWorkspaceForm(indexed.ref.name, indexed.ref.model, indexed.xml, db);
+        } catch { /* not a usable AxForm XML — fall through to the error below */ }
+      }
+      return {
+        content: [{
+          type: 'text',
+          text: `Form "${formName}" not found in the index or its XML could not be read.\n\n` +
+            `Workspace mode reads the form XML from disk. Pass the explicit filePath:\n` +
+            `  get_object_info(objectType="form", name="${formName}", options={mode:"workspace", filePath:"<absolute path to .xml>"})`,
+        }],
+        isError: true,
+      };
+    }
+
     const bridgeResult = await tryBridgeForm(context.bridge, formName, maxControls);
     if (bridgeResult) return bridgeResult;
 
@@ -0,0 +1,249 @@
+/**
+ * Workspace view of a form — get_object_info(objectType="form", options={mode:"workspace"}).
+ *
+ * An operational workspace is a form on the Workspace pattern whose design is
+ * three kinds of sub-container: tile buttons (each rendering an AxTile), list
+ * panels (a form part opening a part form, or a grid bound to a datasource)
+ * and link groups (menu function buttons). The plain form reader dumps that as
+ * a control tree; this rebuilds it as the workspace a user sees, resolves each
+ * tile and part against the index, and flags every tile or part whose menu
+ * item no indexed role reaches — following the security_info(mode="coverage")
+ * chain menu item → privilege → duty → role, so such an entry point is hidden
+ * for every role.
+ */
+
+import { Parser } from '../../utils/xml.js';
+import { walkFormDesign, type FormControlNode } from '../../metadata/formPatternMiner.js';
+import { privilegesByEntryPoint, rolesByPrivilege, type PrivilegeGrant } from './securityCoverageInfo.js';
+
+type Db = {
+  prepare(sql: string): { get(...p: unknown[]): unknown; all(...p: unknown[]): unknown[] };
+};
+
+interface TileEntry {
+  control: string;
+  tile: string;
+  query?: string;
+  menuItem?: string;
+  indexed: boolean;
+}
+
+interface ListPanelEntry {
+  control: string;
+  kind: 'part' | 'grid';
+  menuItem?: string;
+  partForm?: string;
+  dataSource?: string;
+  table?: string;
+}
+
+interface LinkGroupEntry {
+  group: string;
+  links: { name: string; menuItem: string; menuItemType?: string }[];
+}
+
+const PART_TYPES = new Set(['Part', 'FormPart']);
+
+/** Container controls never treated as workspace sections (the action pane is toolbar, not content). */
+const SKIPPED_SUBTREES = new Set(['ActionPane']);
+
+function collectSections(controls: FormControlNode[]): { tiles: TileEntry[]; panels: ListPanelEntry[]; links: LinkGroupEntry[] } {
+  const tiles: TileEntry[] = [];
+  const panels: ListPanelEntry[] = [];
+  const links: LinkGroupEntry[] = [];
+
+  const visit = (nodes: FormControlNode[]): void => {
+    for (const node of nodes) {
+      if (SKIPPED_SUBTREES.has(node.type)) continue;
+
+      if (node.properties.Tile || node.type === 'TileButton') {
+        tiles.push({ control: node.name, tile: node.properties.Tile ?? '', indexed: false });
+      } else if (PART_TYPES.has(node.type)) {
+        panels.push({
+          control: node.name,
+          kind: 'part',
+          menuItem: node.properties.MenuItemName,
+          dataSource: node.properties.DataSource,
+        });
+      } else if (node.type === 'Grid' && node.properties.DataSource) {
+        panels.push({ control: node.name, kind: 'grid', dataSource: node.properties.DataSource });
+      }
+
+      const groupLinks = node.children
+        .filter(c => c.type === 'MenuFunctionButton' && c.properties.MenuItemName)
+        .map(c => ({ name: c.name, menuItem: c.properties.MenuItemName, menuItemType: c.properties.MenuItemType }));
+      if (groupLinks.length > 0) links.push({ group: node.name, links: groupLinks });
+
+      visit(node.children);
+    }
+  };
+  visit(controls);
+  return { tiles, panels, links };
+}
+
+/** Datasource name → table, from the form's top-level <DataSources>. */
+function dataSourceTables(axForm: any): Map<string, string> {
+  const tables = new Map<string, string>();
+  const raw = axForm?.DataSources?.AxFormDataSource;
+  for (const ds of Array.isArray(raw) ? raw : raw ? [raw] : []) {
+    if (typeof ds?.Name === 'string' && typeof ds?.Table === 'string') tables.set(ds.Name, ds.Table);
+  }
+  return tables;
+}
+
+/**
+ * A menu item's place in the coverage chain: the privileges granting it, and
+ * those of them some role reaches through a duty.
+ */
+interface EntryPointSecurity {
+  granted: PrivilegeGrant[];
+  reached: PrivilegeGrant[];
+}
+
+function entryPointSecurity(
+  menuItem: string,
+  grants: Map<string, PrivilegeGrant[]>,
+  roles: Map<string, string[]>,
+): EntryPointSecurity {
+  const granted = grants.get(menuItem) ?? [];
+  return { granted, reached: granted.filter(g => roles.has(g.privilege_name)) };
+}
+
+function securityCell(security: EntryPointSecurity | undefined): string {
+  if (!security) return '— (no menu item)';
+  const { granted, reached } = security;
+  if (granted.length === 0) return '⚠️ no privilege';
+  if (reached.length === 0) return `⚠️ \`${granted[0].privilege_name}\` in no role`;
+  const first = `✅ \`${reached[0].privilege_name}\``;
+  return granted.length > 1 ? `${first} (+${granted.length - 1})` : first;
+}
+
+/** Why an entry point reaches no role — undefined when one does. */
+function unreachableReason(security: EntryPointSecurity): string | undefined {
+  if (security.granted.length === 0) return 'no privilege grants it';
+  if (security.reached.length === 0) {
+    return `${security.granted.map(g => `\`${g.privilege_name}\``).join(', ')} in no duty of any role`;
+  }
+  return undefined;
+}
+
+const code = (value: string | undefined): string => (value ? `\`${value}\`` : '—');
+
+/**
+ * Render the workspace reconstruction of one form. Throws on XML that is not
+ * an AxForm so the caller can fall through to its not-found message.
+ */
+export async function formatWorkspaceForm(formName: string, modelName: string, xmlContent: string, db: Db) {
+  const parser = new Parser({ explicitArray: false, mergeAttrs: true, trim: true });
+  const parsed = await parser.parseStringPromise(xmlContent);
+  const axForm = parsed?.AxForm;
+  if (!axForm) throw new Error('Invalid AxForm XML structure');
+
+  // Design > Controls on platform XML; Design > AxFormDesign > Controls on older tooling output.
+  const design = walkFormDesign(axForm.Design?.AxFormDesign ?? axForm.Design);
+  const { tiles, panels, links } = collectSections(design.controls);
+  const tables = dataSourceTables(axForm);
+
+  const tileStmt = db.prepare(`SELECT query_name, menu_item_name FROM tiles WHERE tile_name = ? LIMIT 1`);
+  for (const t of tiles) {
+    const row = t.tile ? tileStmt.get(t.tile) as { query_name?: string; menu_item_name?: string } | undefined : undefined;
+    if (row) {
+      t.indexed = true;
+      t.query = row.query_name ?? undefined;
+      t.menuItem = row.menu_item_name ?? undefined;
+    }
+  }
+
+  const targetStmt = db.prepare(`SELECT target_object FROM menu_item_targets WHERE menu_item_name = ? LIMIT 1`);
+  for (const p of panels) {
+    if (p.menuItem) {
+      const target = targetStmt.get(p.menuItem) as { target_object?: string } | undefined;
+      p.partForm = target?.target_object ?? undefined;
+    }
+    if (p.dataSource) p.table = tables.get(p.dataSource);
+  }
+
+  const entryPoints = [...new Set([
+    ...tiles.map(t => t.menuItem),
+    ...panels.filter(p => p.kind === 'part').map(p => p.menuItem),
+  ].filter((m): m is string => !!m))];
+  // The chain security_info(mode="coverage") follows: menu item → privilege → duty → role.
+  const grants = privilegesByEntryPoint(db, entryPoints);
+  const roles = rolesByPrivilege(db, [...new Set([...grants.values()].flat().map(g => g.privilege_name))]);
+  const security = (menuItem: string | undefined) =>
+    menuItem ? entryPointSecurity(menuItem, grants, roles) : undefined;
+
+  const lines: string[] = [];
+  lines.push(`# Workspace: \`${formName}\``);
+  lines.push('');
+  lines.push(`**Model:** ${modelName}`);
+  const pattern = design.pattern ?? design.style;
+  lines.push(`**Pattern:** ${pattern ? `${pattern}${design.patternVersion ? ` ${design.patternVersion}` : ''}` : '— none'}`);
+  if (!pattern || !/workspace/i.test(pattern)) {
+    lines.push('');
+    lines.push('⚠️ This form is not on a Workspace pattern — the sections below are whatever tile buttons, parts, grids and menu buttons its design holds.');
+  }
+  lines.push('');
+
+  lines.push(`## Tiles (${tiles.length})`);
+  lines.push('');
+  if (tiles.length === 0) {
+    lines.push('*(no tile buttons)*');
+  } else {
+    lines.push('| Tile button | Tile | Count query | Menu item | Security |');
+    lines.push('|-------------|------|-------------|-----------|----------|');
+    for (const t of tiles) {
+      const cell = t.indexed ? securityCell(security(t.menuItem)) : '? (tile not indexed)';
+      lines.push(`| ${t.control} | ${code(t.tile)} | ${t.indexed ? code(t.query) : '?'} | ${t.indexed ? code(t.menuItem) : '?'} | ${cell} |`);
+    }
+  }
+  lines.push('');
+
+  lines.push(`## List panels (${panels.length})`);
+  lines.push('');
+  if (panels.length === 0) {
+    lines.push('*(no form parts or grids)*');
+  } else {
+    lines.push('| Control | Kind | Part form | Menu item | Data source | Security |');
+    lines.push('|---------|------|-----------|-----------|-------------|----------|');
+    for (const p of panels) {
+      const dataSource = p.dataSource ? `${p.dataSource}${p.table ? ` (\`${p.table}\`)` : ''}` : '—';
+      const cell = p.kind === 'part' ? securityCell(security(p.menuItem)) : '— (secured with the workspace)';
+      lines.push(`| ${p.control} | ${p.kind} | ${code(p.partForm)} | ${code(p.menuItem)} | ${dataSource} | ${cell} |`);
+    }
+  }
+  lines.push('');
+
+  lines.push(`## Link groups (${links.length})`);
+  lines.push('');
+  if (links.length === 0) {
+    lines.push('*(no menu function buttons outside the action pane)*');
+    lines.push('');
+  }
+  for (const g of links) {
+    lines.push(`### ${g.group}`);
+    for (const l of g.links) {
+      lines.push(`- \`${l.menuItem}\`${l.menuItemType ? ` (${l.menuItemType})` : ''} — button ${l.name}`);
+    }
+    lines.push('');
+  }
+
+  const unreachable: string[] = [];
+  const flag = (what: string, menuItem: string | undefined) => {
+    const reason = menuItem ? unreachableReason(security(menuItem)!) : undefined;
+    if (reason) unreachable.push(`${what} (menu item \`${menuItem}\`) — ${reason}`);
+  };
+  for (const t of tiles) if (t.indexed) flag(`tile \`${t.tile}\``, t.menuItem);
+  for (const p of panels) if (p.kind === 'part') flag(`part \`${p.control}\``, p.menuItem);
+  if (unreachable.length > 0) {
+    lines.push(`## ⚠️ Not reachable by any role (${unreachable.length})`);
+    lines.push('');
+    for (const u of unreachable) lines.push(`- ${u}`);
+    lines.push('');
+    lines.push('No indexed role reaches these menu items through a duty and a privilege, so the tile or part is hidden for every role. ' +
+      'Grant each through a privilege in a duty the workspace\'s roles already carry, ' +
+      'then confirm with security_info(mode="coverage", objectName=<menu item>).');
+  }
+
+  return { content: [{ type: 'text', text: lines.join('\n') }] };
+}
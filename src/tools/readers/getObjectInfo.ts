@@ -29,7 +29,8 @@ const MAX_OBJECTS = 10;
 
 const OBJECT_TYPE_DESCRIPTION =
   'Kind of object to read: class, table, form, query, view, enum, edt, report, ' +
-  'data-entity, menu-item, service, map, config-key, security-policy, macro. ' +
+  'data-entity, menu-item, service, map, config-key, security-policy, macro, workflow-type, ' +
+  'tile, kpi, aggregate-measurement, aggregate-dimension. ' +
   'Extension types list every extension of a base object: table-extension, ' +
   'form-extension, enum-extension, edt-extension, data-entity-extension, class-extension. ' +
   'For any *-extension the name may be either the full extension name ' +
@@ -28,6 +28,9 @@ import { getMapInfoTool } from './mapInfo.js';
 import { getConfigKeyInfoTool } from './configKeyInfo.js';
 import { getSecurityPolicyInfoTool } from './securityPolicyInfo.js';
 import { getMacroInfoTool } from './macroInfo.js';
+import { getWorkflowTypeInfoTool } from './workflowTypeInfo.js';
+import { getTileInfoTool, getKpiInfoTool } from './tileInfo.js';
+import { getAggregateMeasurementInfoTool, getAggregateDimensionInfoTool } from './aggregateMeasurementInfo.js';
 import { tableExtensionInfoTool, formExtensionInfoTool, enumExtensionInfoTool, edtExtensionInfoTool, dataEntityExtensionInfoTool, classExtensionInfoTool } from './tableExtensionInfo.js';
 
 export type InfoTool = (request: CallToolRequest, context: XppServerContext) => Promise<any>;
@@ -87,6 +90,11 @@ export const READER_DISPATCH: Record<string, ReaderDispatch> = {
   'config-key':         { tool: getConfigKeyInfoTool,     toolName: 'get_config_key_info',        buildArgs: byName('name') },
   'security-policy':    { tool: getSecurityPolicyInfoTool,toolName: 'get_security_policy_info',   buildArgs: byName('policyName') },
   'macro':              { tool: getMacroInfoTool,         toolName: 'get_macro_info',             buildArgs: byName('macroName') },
+  'workflow-type':      { tool: getWorkflowTypeInfoTool,  toolName: 'get_workflow_type_info',     buildArgs: byName('workflowTypeName') },
+  'tile':               { tool: getTileInfoTool,          toolName: 'get_tile_info',              buildArgs: byName('tileName') },
+  'kpi':                { tool: getKpiInfoTool,           toolName: 'get_kpi_info',               buildArgs: byName('kpiName') },
+  'aggregate-measurement': { tool: getAggregateMeasurementInfoTool, toolName: 'get_aggregate_measurement_info', buildArgs: byName('measurementName') },
+  'aggregate-dimension':   { tool: getAggregateDimensionInfoTool,   toolName: 'get_aggregate_dimension_info',   buildArgs: byName('dimensionName') },
   'table-extension':         { tool: tableExtensionInfoTool,       toolName: 'get_table_extension_info',        buildArgs: byBaseName('tableName') },
   'form-extension':          { tool: formExtensionInfoTool,        toolName: 'get_form_extension_info',         buildArgs: byBaseName('baseName') },
   'enum-extension':          { tool: enumExtensionInfoTool,        toolName: 'get_enum_extension_info',         buildArgs: byBaseName('baseName') },
@@ -99,6 +107,7 @@ export const READER_DISPATCH: Record<string, ReaderDispatch> = {
 export const OBJECT_INFO_TYPES = [
   'class', 'table', 'form', 'query', 'view', 'enum', 'edt', 'report',
   'data-entity', 'menu-item', 'service', 'map', 'config-key', 'security-policy', 'macro',
+  'workflow-type', 'tile', 'kpi', 'aggregate-measurement', 'aggregate-dimension',
   // Extension types
   'table-extension', 'class-extension', 'form-extension', 'enum-extension',
   'edt-extension', 'data-entity-extension',
@@ -46,6 +46,76 @@ function policiesIndexed(db: { prepare(sql: string): { get(...p: unknown[]): unk
   return db.prepare('SELECT 1 FROM security_policies LIMIT 1').get() !== undefined;
 }
 
+/** One privilege entry point grant, as read from security_privilege_entries. */
+export interface PrivilegeGrant {
+  entry_point_name: string;
+  privilege_name: string;
+  object_type: string;
+  access_level: string;
+}
+
+/**
+ * The first link of the coverage chain — which privileges grant each menu item
+ * — in one batched query. An entry point absent from the map is granted by no
+ * indexed privilege, i.e. unreachable for every role. Shared with readers that
+ * flag unreachable entry points (the workspace view of get_object_info(form)).
+ */
+export function privilegesByEntryPoint(
+  db: { prepare(sql: string): { all(...p: unknown[]): unknown[] } },
+  menuItemNames: readonly string[],
+): Map<string, PrivilegeGrant[]> {
+  const byEntryPoint = new Map<string, PrivilegeGrant[]>();
+  if (menuItemNames.length === 0) return byEntryPoint;
+  const placeholders = menuItemNames.map(() => '?').join(',');
+  const rows = db.prepare(
+    `SELECT DISTINCT entry_point_name, privilege_name, object_type, access_level
+     FROM security_privilege_entries
+     WHERE entry_point_name IN (${placeholders})
+     ORDER BY entry_point_name, privilege_name`
+  ).all(...menuItemNames) as PrivilegeGrant[];
+  for (const row of rows) {
+    if (!byEntryPoint.has(row.entry_point_name)) byEntryPoint.set(row.entry_point_name, []);
+    byEntryPoint.get(row.entry_point_name)!.push(row);
+  }
+  return byEntryPoint;
+}
+
+/**
+ * The rest of the coverage chain for a set of privileges — privilege → duty →
+ * role, one batched query per link. A privilege absent from the map sits in
+ * no duty of any indexed role, so the entry points it grants reach nobody.
+ */
+export function rolesByPrivilege(
+  db: { prepare(sql: string): { all(...p: unknown[]): unknown[] } },
+  privilegeNames: readonly string[],
+): Map<string, string[]> {
+  const byPrivilege = new Map<string, string[]>();
+  if (privilegeNames.length === 0) return byPrivilege;
+  const dutyRows = db.prepare(
+    `SELECT DISTINCT privilege_name, duty_name FROM security_duty_privileges
+     WHERE privilege_name IN (${privilegeNames.map(() => '?').join(',')})`
+  ).all(...privilegeNames) as Array<{ privilege_name: string; duty_name: string }>;
+  const duties = [...new Set(dutyRows.map(d => d.duty_name))];
+  if (duties.length === 0) return byPrivilege;
+  const roleRows = db.prepare(
+    `SELECT DISTINCT duty_name, role_name FROM security_role_duties
+     WHERE duty_name IN (${duties.map(() => '?').join(',')})
+     ORDER BY role_name`
+  ).all(...duties) as Array<{ duty_name: string; role_name: string }>;
+  const rolesByDuty = new Map<string, string[]>();
+  for (const r of roleRows) {
+    if (!rolesByDuty.has(r.duty_name)) rolesByDuty.set(r.duty_name, []);
+    rolesByDuty.get(r.duty_name)!.push(r.role_name);
+  }
+  for (const d of dutyRows) {
+    const roles = rolesByDuty.get(d.duty_name);
+    if (!roles) continue;
+    const known = byPrivilege.get(d.privilege_name) ?? [];
+    byPrivilege.set(d.privilege_name, [...new Set([...known, ...roles])].sort());
+  }
+  return byPrivilege;
+}
+
 export async function securityCoverageInfoTool(request: CallToolRequest, context: XppServerContext) {
   try {
     const args = SecurityCoverageInfoArgsSchema.parse(request.params.arguments);
@@ -151,20 +221,8 @@ export async function securityCoverageInfoTool(request: CallToolRequest, context
     // Batch-fetch entire privilege→duty→role chain in 3 queries (avoids per-privilege/per-duty round-trips).
 
     // All privileges for all menu items at once
-    const miNames = menuItems.map(mi => mi.menu_item_name);
-    const miPH = miNames.map(() => '?').join(',');
-    const allPrivEntries = db.prepare(
-      `SELECT DISTINCT entry_point_name, privilege_name, object_type, access_level
-       FROM security_privilege_entries
-       WHERE entry_point_name IN (${miPH})
-       ORDER BY entry_point_name, privilege_name`
-    ).all(...miNames) as any[];
-
-    const privilegesByMi = new Map<string, any[]>();
-    for (const pe of allPrivEntries) {
-      if (!privilegesByMi.has(pe.entry_point_name)) privilegesByMi.set(pe.entry_point_name, []);
-      privilegesByMi.get(pe.entry_point_name)!.push(pe);
-    }
+    const privilegesByMi = privilegesByEntryPoint(db, menuItems.map(mi => mi.menu_item_name));
+    const allPrivEntries = [...privilegesByMi.values()].flat();
 
     // All duties for all privilege names at once
     const allPrivNames = [...new Set(allPrivEntries.map(pe => pe.privilege_name))];
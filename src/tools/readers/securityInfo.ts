@@ -5,6 +5,8 @@
  *   • artifact → details + full hierarchy of a privilege/duty/role
  *                (Role → Duties → Privileges → Entry Points)
  *   • coverage → reverse chain: which roles/duties/privileges cover an object
+ *   • sod      → segregation-of-duties conflicts of every role against a rule file
+ *   • matrix   → flat effective-permission matrix of one role, as CSV
  *
  * Handler files stay where they are — only the MCP surface is consolidated.
  */
@@ -13,8 +15,10 @@ import type { CallToolRequest } from '@modelcontextprotocol/sdk/types.js';
 import type { XppServerContext } from '../../types/context.js';
 import { securityArtifactInfoTool } from './securityArtifactInfo.js';
 import { securityCoverageInfoTool } from './securityCoverageInfo.js';
+import { securityMatrixInfoTool } from './securityMatrixInfo.js';
+import { securitySodInfoTool } from './securitySodInfo.js';
 
-export const SECURITY_MODES = ['artifact', 'coverage'] as const;
+export const SECURITY_MODES = ['artifact', 'coverage', 'sod', 'matrix'] as const;
 export type SecurityMode = (typeof SECURITY_MODES)[number];
 
 function subRequest(name: string, args: Record<string, unknown>): CallToolRequest {
@@ -42,6 +46,13 @@ export async function securityInfoTool(request: CallToolRequest, context: XppSer
       if (!a.objectName) return err('security_info(mode="coverage") requires `objectName` (the form/table/class/menu-item name).');
       return securityCoverageInfoTool(subRequest('get_security_coverage_for_object', rest), context);
 
+    case 'sod':
+      return securitySodInfoTool(subRequest('get_security_sod_conflicts', rest), context);
+
+    case 'matrix':
+      if (!a.role) return err('security_info(mode="matrix") requires `role` (the security role name).');
+      return securityMatrixInfoTool(subRequest('get_security_permission_matrix', rest), context);
+
     default:
       return err(`security_info: unknown mode "${mode ?? '(missing)'}". Use one of: ${SECURITY_MODES.join(', ')}.`);
   }
@@ -0,0 +1,232 @@
+/**
+ * Security Matrix Info Tool
+ * The flat effective-permission matrix of one role, for auditors: every entry
+ * point the role reaches — menu items, service operations, data entities —
+ * with the highest access granted, all grants, and every Duty → Privilege path
+ * that grants it. Emitted as CSV, one row per entry point, so it pastes into a
+ * spreadsheet as is.
+ *
+ * What the role gets is gathered the way the AOT composes it, from the graph the
+ * SoD check walks (loadSecurityGraph): duties from the security index,
+ * privileges granted directly in the role file, what role and duty extensions
+ * add, and all of that again for every sub-role, which a path names as
+ * `sub-role X >`. Row-level constraints come from the indexed AxSecurityPolicy
+ * objects whose primary table is a data source of the entry point's form.
+ */
+
+import type { CallToolRequest } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import type { XppServerContext } from '../../types/context.js';
+import { lookupSymbolNocase } from '../../utils/symbolLookup.js';
+import { ENTRY_POINT_GRANTS } from '../xml/securityPrivilegeXml.js';
+import { securityPoliciesOnTables } from './securityPolicyInfo.js';
+import { loadSecurityGraph, roleAndSubRoles } from './securitySodInfo.js';
+
+const SecurityMatrixInfoArgsSchema = z.object({
+  role: z.string().describe('Name of the AxSecurityRole'),
+});
+
+/** Grants that write; the highest one granted is the row's access level. */
+const WRITE_GRANTS = ['Update', 'Create', 'Correct', 'Delete'];
+
+const grantRank = (grant: string) => {
+  const i = (ENTRY_POINT_GRANTS as readonly string[]).indexOf(grant);
+  return i < 0 ? ENTRY_POINT_GRANTS.length : i;
+};
+
+/** Distinct grants in serializer order — Read, Update, Create, Correct, Delete, Invoke. */
+export function sortGrants(grants: Iterable<string>): string[] {
+  return [...new Set(grants)].sort((a, b) => grantRank(a) - grantRank(b) || a.localeCompare(b));
+}
+
+/**
+ * Grants of one indexed access level: `Read:Allow,Delete:Allow` from the
+ * `<Grant>` element, or a bare permission name from older extractions.
+ */
+export function grantsOf(accessLevel: string | null | undefined): string[] {
+  const level = accessLevel?.trim();
+  if (!level) return [];
+  if (!level.includes(':')) return [level];
+  return sortGrants(level.split(',')
+    .map(part => part.split(':').map(s => s.trim()))
+    .filter(([, value]) => /^allow$/i.test(value ?? ''))
+    .map(([grant]) => grant));
+}
+
+/** The highest grant: the strongest write, else Invoke, else Read. */
+export function maxAccess(grants: readonly string[]): string {
+  const writes = grants.filter(g => WRITE_GRANTS.includes(g));
+  if (writes.length > 0) return writes.reduce((a, b) => (grantRank(b) > grantRank(a) ? b : a));
+  if (grants.includes('Invoke')) return 'Invoke';
+  return grants.includes('Read') ? 'Read' : (grants[0] ?? '');
+}
+
+export interface MatrixRow {
+  entryPoint: string;
+  objectType: string;
+  /** The form, class or report a menu item opens. */
+  target: string;
+  grants: string[];
+  /**
+   * `Duty > Privilege`, `(role) > Privilege`, `sub-role X > Duty > Privilege`;
+   * `(via X)` marks an extension's contribution.
+   */
+  paths: string[];
+  policies: string[];
+}
+
+/** A CSV field: quoted when it holds a separator, a quote or a line break. */
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+const via = (name: string, ext?: string) => (ext ? `${name} (via ${ext})` : name);
+
+type Db = ReturnType<XppServerContext['symbolIndex']['getReadDb']>;
+
+/** Rows of a table the database may predate — absent reads as empty. */
+function rowsOf<T>(db: Db, sql: string, ...params: unknown[]): T[] {
+  try {
+    return db.prepare(sql).all(...params) as T[];
+  } catch {
+    return [];
+  }
+}
+
+function err(text: string) {
+  return { content: [{ type: 'text' as const, text }], isError: true };
+}
+
+export async function securityMatrixInfoTool(request: CallToolRequest, context: XppServerContext) {
+  try {
+    const args = SecurityMatrixInfoArgsSchema.parse(request.params.arguments ?? {});
+    const db = context.symbolIndex.getReadDb();
+
+    const hit = lookupSymbolNocase(db, args.role, ['security-role']);
+    const role = hit?.name
+      ?? (rowsOf<{ role_name: string }>(db,
+        'SELECT role_name FROM security_role_duties WHERE role_name = ? COLLATE NOCASE LIMIT 1', args.role)[0]?.role_name);
+    if (!role) {
+      return err(`Security role "${args.role}" not found in the index. Check the name with search(query="${args.role}", type="security-role").`);
+    }
+
+    // Role → sub-roles → duties and direct privileges, extensions folded in — the graph the SoD check walks.
+    const { graph, unread, unreadRoles } = await loadSecurityGraph(db);
+    const members = roleAndSubRoles(graph, role);
+    const reached = new Set(members.map(m => m.role.toLowerCase()));
+    const duties = new Set<string>();
+    const extensionsRead = new Set<string>();
+    let grantsFound = false;
+
+    // Privilege → the paths that grant it.
+    const privilegePaths = new Map<string, string[]>();
+    const addPath = (privilege: string, path: string) => {
+      const list = privilegePaths.get(privilege);
+      if (list) list.push(path);
+      else privilegePaths.set(privilege, [path]);
+    };
+    for (const member of members) {
+      const prefix = member.steps.map(s => `${s} > `).join('');
+      for (const p of graph.rolePrivileges.get(member.role) ?? []) {
+        grantsFound = true;
+        if (p.via) extensionsRead.add(p.via);
+        addPath(p.name, `${prefix || '(role) > '}${via(p.name, p.via)}`);
+      }
+      for (const duty of graph.roleDuties.get(member.role) ?? []) {
+        grantsFound = true;
+        duties.add(duty.name);
+        reached.add(duty.name.toLowerCase());
+        if (duty.via) extensionsRead.add(duty.via);
+        const dutyStep = `${prefix}${via(duty.name, duty.via)}`;
+        for (const p of graph.dutyPrivileges.get(duty.name) ?? []) {
+          if (p.via) extensionsRead.add(p.via);
+          addPath(p.name, `${dutyStep} > ${via(p.name, p.via)}`);
+        }
+      }
+      for (const sub of graph.subRoles.get(member.role) ?? []) if (sub.via) extensionsRead.add(sub.via);
+    }
+    // Extensions are named <Base>.<Suffix>; only those of a role or duty the matrix reaches matter here.
+    const unreadHere = unread.filter(name => reached.has(name.split('.')[0].toLowerCase()));
+    const unreadRoleFiles = members.map(m => m.role).filter(name => unreadRoles.includes(name));
+    const notIndexed = members.slice(1).map(m => m.role).filter(name => !graph.roles.has(name));
+
+    // Privilege → entry points, merged per entry point.
+    const rows = new Map<string, MatrixRow>();
+    for (const [privilege, paths] of privilegePaths) {
+      for (const ep of rowsOf<{ entry_point_name: string; object_type: string | null; access_level: string | null }>(db,
+        'SELECT DISTINCT entry_point_name, object_type, access_level FROM security_privilege_entries WHERE privilege_name = ?', privilege)) {
+        const key = `${ep.object_type ?? ''}\0${ep.entry_point_name}`;
+        let row = rows.get(key);
+        if (!row) {
+          row = { entryPoint: ep.entry_point_name, objectType: ep.object_type ?? '', target: '', grants: [], paths: [], policies: [] };
+          rows.set(key, row);
+        }
+        row.grants = sortGrants([...row.grants, ...grantsOf(ep.access_level)]);
+        row.paths = [...new Set([...row.paths, ...paths])];
+      }
+    }
+    const matrix = [...rows.values()].sort((a, b) => a.objectType.localeCompare(b.objectType) || a.entryPoint.localeCompare(b.entryPoint));
+
+    // Menu item → target, form → data source tables → policies.
+    const menuItems = matrix.filter(r => r.objectType.startsWith('MenuItem')).map(r => r.entryPoint);
+    const targets = new Map<string, { target: string; type: string | null }>();
+    if (menuItems.length > 0) {
+      for (const t of rowsOf<{ menu_item_name: string; target_object: string | null; target_type: string | null }>(db,
+        `SELECT menu_item_name, target_object, target_type FROM menu_item_targets
+         WHERE menu_item_name IN (${menuItems.map(() => '?').join(',')})`, ...menuItems)) {
+        if (t.target_object && !targets.has(t.menu_item_name)) targets.set(t.menu_item_name, { target: t.target_object, type: t.target_type });
+      }
+    }
+    const forms = [...new Set([...targets.values()].filter(t => !t.type || /form/i.test(t.type)).map(t => t.target))];
+    const formTables = new Map<string, string[]>();
+    if (forms.length > 0) {
+      for (const r of rowsOf<{ form_name: string; table_name: string }>(db,
+        `SELECT DISTINCT form_name, table_name FROM form_datasources WHERE form_name IN (${forms.map(() => '?').join(',')})`, ...forms)) {
+        formTables.set(r.form_name, [...(formTables.get(r.form_name) ?? []), r.table_name]);
+      }
+    }
+    const policies = securityPoliciesOnTables(db, [...new Set([...formTables.values()].flat())]);
+    for (const row of matrix) {
+      const target = targets.get(row.entryPoint);
+      row.target = target?.target ?? '';
+      for (const table of (target && formTables.get(target.target)) ?? []) {
+        for (const policy of policies?.get(table) ?? []) {
+          row.policies.push(`${policy.policy_name} on ${table} [${policy.operation || 'AllOperations'}]`);
+        }
+      }
+      row.policies = [...new Set(row.policies)];
+    }
+
+    const roleModel = hit?.model ? ` (${hit.model})` : '';
+    let output = `Effective permission matrix — role ${role}${roleModel}: ${matrix.length} entry point(s) ` +
+      `through ${duties.size} duty(ies) and ${privilegePaths.size} privilege(s)\n`;
+    if (!grantsFound) {
+      output += `⚠️ NO DATA — no duty or privilege of ${role} is in the index or its files. This is NOT an empty role; ` +
+        `rebuild the metadata database, or run update_symbol_index on the AxSecurityRole file.\n`;
+      return { content: [{ type: 'text', text: output }] };
+    }
+    if (members.length > 1) output += `Sub-roles merged: ${members.slice(1).map(m => m.role).join(', ')}\n`;
+    if (extensionsRead.size > 0) output += `Extensions merged: ${[...extensionsRead].sort((a, b) => a.localeCompare(b)).join(', ')}\n`;
+    if (unreadHere.length > 0) output += `⚠️ NOT merged (XML not readable): ${unreadHere.join(', ')}\n`;
+    if (unreadRoleFiles.length > 0) {
+      output += `⚠️ Role file(s) not readable here: ${unreadRoleFiles.join(', ')} — privileges granted directly on ` +
+        `them and their sub-roles are not included.\n`;
+    }
+    if (notIndexed.length > 0) output += `⚠️ Sub-role(s) not in the index: ${notIndexed.join(', ')}\n`;
+    output += policies === null
+      ? `⚠️ Security policies are not indexed — the SecurityPolicies column is unknown, not empty.\n`
+      : `SecurityPolicies: policies whose primary table is a data source of the entry point's form. Which roles a ` +
+        `policy applies to (its ContextType) is not indexed — check each one.\n`;
+
+    const header = ['Role', 'EntryPoint', 'ObjectType', 'Target', 'MaxAccess', 'Grants', 'Paths', 'SecurityPolicies'];
+    const lines = [header.join(',')];
+    for (const row of matrix) {
+      lines.push([role, row.entryPoint, row.objectType, row.target, maxAccess(row.grants), row.grants.join(';'),
+        row.paths.join(' | '), row.policies.join(' | ')].map(csvField).join(','));
+    }
+    output += `\n\`\`\`csv\n${lines.join('\n')}\n\`\`\`\n`;
+    return { content: [{ type: 'text', text: output }] };
+  } catch (error) {
+    return err(`Error building the permission matrix: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
@@ -13,6 +13,40 @@ const GetSecurityPolicyInfoArgsSchema = z.object({
   policyName: z.string().describe('Name of the AxSecurityPolicy (e.g. "DMFMyDefinitionGroups")'),
 });
 
+/** One indexed AxSecurityPolicy, as the matrix of security_info lists it. */
+export interface SecurityPolicyRow {
+  policy_name: string;
+  primary_table: string;
+  operation: string | null;
+  constrained_table: number;
+}
+
+/**
+ * Policies whose primary table is one of `tables`, per table — or null when
+ * no policy is indexed at all, which is "unknown", not "unconstrained" (#690).
+ */
+export function securityPoliciesOnTables(
+  db: { prepare(sql: string): { all(...p: unknown[]): unknown[]; get(...p: unknown[]): unknown } },
+  tables: readonly string[],
+): Map<string, SecurityPolicyRow[]> | null {
+  try {
+    if (db.prepare('SELECT 1 FROM security_policies LIMIT 1').get() === undefined) return null;
+  } catch {
+    return null;
+  }
+  const byTable = new Map<string, SecurityPolicyRow[]>();
+  if (tables.length === 0) return byTable;
+  const rows = db.prepare(
+    `SELECT policy_name, primary_table, operation, constrained_table FROM security_policies
+     WHERE primary_table IN (${tables.map(() => '?').join(',')}) ORDER BY policy_name`
+  ).all(...tables) as SecurityPolicyRow[];
+  for (const row of rows) {
+    if (!byTable.has(row.primary_table)) byTable.set(row.primary_table, []);
+    byTable.get(row.primary_table)!.push(row);
+  }
+  return byTable;
+}
+
 export async function getSecurityPolicyInfoTool(request: CallToolRequest, context: XppServerContext) {
   try {
     const { policyName } = GetSecurityPolicyInfoArgsSchema.parse(request.params.arguments);
@@ -0,0 +1,444 @@
+/**
+ * Security SoD Info Tool
+ * Segregation-of-duties check over the security index: every role is walked
+ * down Role → Duty → Privilege → Entry point and tested against a team's
+ * conflict rules ("no role may both maintain vendors and approve vendor
+ * payments"). A role conflicts when it reaches both sides of a rule; the report
+ * names each such role with the paths that reach either side.
+ *
+ * Rules are a JSON file checked into the team's repository — by default
+ * `.d365fo-mcp/sod-rules.json` under the workspace, next to the rule packs:
+ *
+ *   {
+ *     "rules": [
+ *       { "id": "SOD001", "description": "Maintain vendors vs approve vendor payments",
+ *         "severity": "high", "exemptRoles": ["SystemAdministrator"],
+ *         "sides": [
+ *           { "name": "Maintain vendors", "privileges": ["VendTableMaintain"], "entryPoints": ["VendTable*"] },
+ *           { "name": "Approve vendor payments", "duties": ["VendPaymentApprove*"] } ] }
+ *     ]
+ *   }
+ *
+ * A side lists duties, privileges and/or entry points; `*` matches any run of
+ * characters and names compare case-insensitively.
+ *
+ * Role and duty extensions add duties and privileges that security_role_duties
+ * and security_duty_privileges do not hold — they are read from the extension
+ * XML the symbol index points at. So are the privileges granted directly in an
+ * AxSecurityRole file and its <SubRoles>, which the index has no table for; a
+ * role reaches everything its sub-roles reach, sub-role by sub-role. A role or
+ * extension whose file cannot be read is listed as not evaluated rather than
+ * silently dropped.
+ */
+
+import type { CallToolRequest } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'node:fs';
+import { isAbsolute, join, resolve } from 'node:path';
+import { z } from 'zod';
+import type { XppServerContext } from '../../types/context.js';
+import { getConfigManager } from '../../utils/configManager.js';
+
+const SecuritySodInfoArgsSchema = z.object({
+  rulesPath: z.string().optional()
+    .describe('SoD rule file; relative paths resolve against the workspace (default: .d365fo-mcp/sod-rules.json)'),
+});
+
+/** Default rule file, relative to the workspace. */
+const DEFAULT_RULES_FILE = join('.d365fo-mcp', 'sod-rules.json');
+
+/** Paths listed per side of a conflicting role before the rest are counted. */
+const MAX_PATHS_PER_SIDE = 5;
+
+const sodSideSchema = z.object({
+  name: z.string().min(1),
+  duties: z.array(z.string()).optional(),
+  privileges: z.array(z.string()).optional(),
+  entryPoints: z.array(z.string()).optional(),
+}).strict().refine(
+  s => (s.duties?.length ?? 0) + (s.privileges?.length ?? 0) + (s.entryPoints?.length ?? 0) > 0,
+  'a side lists at least one duty, privilege or entry point',
+);
+
+const sodRuleSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().min(1),
+  severity: z.enum(['high', 'medium', 'low']).optional(),
+  /** Roles the auditors accept the conflict for — reported, not flagged. */
+  exemptRoles: z.array(z.string()).optional(),
+  sides: z.tuple([sodSideSchema, sodSideSchema]),
+}).strict();
+
+const sodRuleFileSchema = z.object({
+  description: z.string().optional(),
+  rules: z.array(sodRuleSchema).min(1),
+}).strict();
+
+export type SodSide = z.infer<typeof sodSideSchema>;
+export type SodRule = z.infer<typeof sodRuleSchema>;
+
+/** One granted link, and the extension that grants it when it is not the object itself. */
+interface Grant {
+  name: string;
+  via?: string;
+}
+
+interface EntryPointGrant {
+  entry_point_name: string;
+  object_type: string;
+  access_level: string;
+}
+
+/** The Role → Duty → Privilege → Entry point graph, extensions folded in. */
+export interface SecurityGraph {
+  /** Role name → model, for every role the index knows. */
+  roles: Map<string, string>;
+  roleDuties: Map<string, Grant[]>;
+  /** Privileges granted on the role itself, without a duty — by the role file or an extension. */
+  rolePrivileges: Map<string, Grant[]>;
+  /** The role's <SubRoles>, from the role file or an extension. */
+  subRoles: Map<string, Grant[]>;
+  dutyPrivileges: Map<string, Grant[]>;
+  privilegeEntries: Map<string, EntryPointGrant[]>;
+}
+
+/** One role reaching one side of a rule, as printable paths. */
+export interface SodConflict {
+  role: string;
+  model: string;
+  paths: [string[], string[]];
+}
+
+export interface SodRuleResult {
+  rule: SodRule;
+  conflicts: SodConflict[];
+  /** Conflicting roles the rule exempts. */
+  exempted: string[];
+}
+
+/** `*` wildcards, whole name, any case. */
+function namePattern(patterns: readonly string[] | undefined): (name: string) => boolean {
+  if (!patterns || patterns.length === 0) return () => false;
+  const regexes = patterns.map(p => new RegExp(
+    `^${p.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i'));
+  return name => regexes.some(r => r.test(name));
+}
+
+const push = <T>(map: Map<string, T[]>, key: string, value: T) => {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+};
+
+const step = (g: Grant) => (g.via ? `${g.name} (via ${g.via})` : g.name);
+
+/**
+ * `role` and every role below it through <SubRoles>, each with the sub-role
+ * steps that lead there. A sub-role reached twice — or a cycle back to a role
+ * already on the list — is not walked again.
+ */
+export function roleAndSubRoles(graph: SecurityGraph, role: string): Array<{ role: string; steps: string[] }> {
+  const out: Array<{ role: string; steps: string[] }> = [];
+  const seen = new Set<string>();
+  const visit = (name: string, steps: string[]) => {
+    if (seen.has(name.toLowerCase())) return;
+    seen.add(name.toLowerCase());
+    out.push({ role: name, steps });
+    for (const sub of graph.subRoles.get(name) ?? []) visit(sub.name, [...steps, `sub-role ${step(sub)}`]);
+  };
+  visit(role, []);
+  return out;
+}
+
+/**
+ * Every path from `role` that reaches `side`, printed `Role → Duty → Privilege
+ * → Entry point [access]` and cut at the first link the side names — a duty
+ * match does not list the duty's privileges.
+ */
+function pathsToSide(graph: SecurityGraph, role: string, side: SodSide): string[] {
+  const dutyMatches = namePattern(side.duties);
+  const privilegeMatches = namePattern(side.privileges);
+  const entryPointMatches = namePattern(side.entryPoints);
+  const out: string[] = [];
+
+  const fromPrivilege = (prefix: string, privilege: Grant) => {
+    const at = `${prefix} → ${step(privilege)}`;
+    if (privilegeMatches(privilege.name)) {
+      out.push(at);
+      return;
+    }
+    for (const ep of graph.privilegeEntries.get(privilege.name) ?? []) {
+      if (entryPointMatches(ep.entry_point_name)) {
+        out.push(`${at} → ${ep.entry_point_name}${ep.access_level ? ` [${ep.access_level}]` : ''}`);
+      }
+    }
+  };
+
+  for (const member of roleAndSubRoles(graph, role)) {
+    const prefix = [role, ...member.steps].join(' → ');
+    for (const duty of graph.roleDuties.get(member.role) ?? []) {
+      const at = `${prefix} → ${step(duty)}`;
+      if (dutyMatches(duty.name)) {
+        out.push(at);
+        continue;
+      }
+      for (const privilege of graph.dutyPrivileges.get(duty.name) ?? []) fromPrivilege(at, privilege);
+    }
+    for (const privilege of graph.rolePrivileges.get(member.role) ?? []) fromPrivilege(prefix, privilege);
+  }
+  return [...new Set(out)];
+}
+
+/** Each rule against every role of the graph. */
+export function evaluateSodRules(graph: SecurityGraph, rules: readonly SodRule[]): SodRuleResult[] {
+  const roles = [...graph.roles.keys()].sort((a, b) => a.localeCompare(b));
+  return rules.map(rule => {
+    const exempt = namePattern(rule.exemptRoles);
+    const conflicts: SodConflict[] = [];
+    const exempted: string[] = [];
+    for (const role of roles) {
+      const first = pathsToSide(graph, role, rule.sides[0]);
+      if (first.length === 0) continue;
+      const second = pathsToSide(graph, role, rule.sides[1]);
+      if (second.length === 0) continue;
+      if (exempt(role)) exempted.push(role);
+      else conflicts.push({ role, model: graph.roles.get(role) ?? '', paths: [first, second] });
+    }
+    return { rule, conflicts, exempted };
+  });
+}
+
+/** Names under `<container>` in a role, duty or extension file — `<Duties>`, `<Privileges>` or `<SubRoles>`. */
+export function referencedNames(xml: string, container: string): string[] {
+  const block = new RegExp(`<${container}>([\\s\\S]*?)</${container}>`).exec(xml)?.[1] ?? '';
+  return [...block.matchAll(/<Name>([^<]+)<\/Name>/g)].map(m => m[1].trim()).filter(Boolean);
+}
+
+/** An AOT file's XML, or null when the path is not an XML file that reads. */
+export async function readSecurityXml(filePath: string | null | undefined): Promise<string | null> {
+  if (!filePath?.toLowerCase().endsWith('.xml')) return null;
+  try {
+    return await fs.promises.readFile(filePath, 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+type Db = { prepare(sql: string): { all(...p: unknown[]): unknown[] } };
+
+/** Rows of a table the database may predate — absent reads as empty. */
+function rowsOf<T>(db: Db, sql: string): T[] {
+  try {
+    return db.prepare(sql).all() as T[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Where loadSecurityGraph takes the links of the role files and the role and
+ * duty extensions from: their XML as it is on disk now, the security_links rows
+ * the database was built with, or nowhere.
+ */
+export type SecurityLinkSource = 'files' | 'index' | 'none';
+
+/**
+ * The indexed graph plus what the role files and the role and duty extensions
+ * add — read from their XML by default. Returns the role files and the
+ * extensions it could not read alongside.
+ */
+export async function loadSecurityGraph(
+  db: Db,
+  links: SecurityLinkSource = 'files',
+): Promise<{
+  graph: SecurityGraph;
+  indexedRoleDuties: number;
+  unread: string[];
+  extensions: number;
+  unreadRoles: string[];
+  roleFiles: number;
+  /**
+   * links='index': the database holds security_links rows. A build from before
+   * the table has none — a real AOT always has sub-roles or direct privileges.
+   */
+  linksIndexed: boolean;
+}> {
+  const graph: SecurityGraph = {
+    roles: new Map(),
+    roleDuties: new Map(),
+    rolePrivileges: new Map(),
+    subRoles: new Map(),
+    dutyPrivileges: new Map(),
+    privilegeEntries: new Map(),
+  };
+
+  const roleRows = rowsOf<{ name: string; model: string; file_path: string | null }>(db,
+    `SELECT name, model, file_path FROM symbols WHERE type = 'security-role' ORDER BY name`);
+  for (const r of roleRows) graph.roles.set(r.name, r.model ?? '');
+  for (const r of rowsOf<{ role_name: string; duty_name: string; model: string }>(db,
+    'SELECT DISTINCT role_name, duty_name, model FROM security_role_duties')) {
+    if (!graph.roles.has(r.role_name)) graph.roles.set(r.role_name, r.model ?? '');
+    push(graph.roleDuties, r.role_name, { name: r.duty_name });
+  }
+  const indexedRoleDuties = graph.roleDuties.size;
+  for (const r of rowsOf<{ duty_name: string; privilege_name: string }>(db,
+    'SELECT DISTINCT duty_name, privilege_name FROM security_duty_privileges')) {
+    push(graph.dutyPrivileges, r.duty_name, { name: r.privilege_name });
+  }
+  for (const r of rowsOf<EntryPointGrant & { privilege_name: string }>(db,
+    `SELECT DISTINCT privilege_name, entry_point_name, object_type, access_level FROM security_privilege_entries`)) {
+    push(graph.privilegeEntries, r.privilege_name, r);
+  }
+
+  const unreadRoles: string[] = [];
+  const unread: string[] = [];
+  const result = { graph, indexedRoleDuties, unread, extensions: 0, unreadRoles, roleFiles: roleRows.length, linksIndexed: false };
+  if (links === 'none') return result;
+  if (links === 'index') {
+    const rows = rowsOf<{ owner_type: string; owner_name: string; link_type: string; member_name: string; via: string | null }>(db,
+      'SELECT DISTINCT owner_type, owner_name, link_type, member_name, via FROM security_links ORDER BY owner_name, via, member_name');
+    for (const r of rows) {
+      const grant: Grant = r.via ? { name: r.member_name, via: r.via } : { name: r.member_name };
+      if (r.owner_type === 'duty') {
+        if (r.link_type === 'privilege') push(graph.dutyPrivileges, r.owner_name, grant);
+        continue;
+      }
+      if (!graph.roles.has(r.owner_name)) graph.roles.set(r.owner_name, '');
+      if (r.link_type === 'duty') push(graph.roleDuties, r.owner_name, grant);
+      else if (r.link_type === 'privilege') push(graph.rolePrivileges, r.owner_name, grant);
+      else if (r.link_type === 'sub-role') push(graph.subRoles, r.owner_name, grant);
+    }
+    result.linksIndexed = rows.length > 0;
+    result.extensions = new Set(rows.filter(r => r.via).map(r => r.via)).size;
+    return result;
+  }
+
+  // Direct privileges and sub-roles live only in the role file.
+  const roleXml = await Promise.all(roleRows.map(r => readSecurityXml(r.file_path)));
+  roleRows.forEach((r, i) => {
+    const xml = roleXml[i];
+    if (xml === null) {
+      unreadRoles.push(r.name);
+      return;
+    }
+    for (const priv of referencedNames(xml, 'Privileges')) push(graph.rolePrivileges, r.name, { name: priv });
+    for (const sub of referencedNames(xml, 'SubRoles')) push(graph.subRoles, r.name, { name: sub });
+  });
+
+  const extensions = rowsOf<{ name: string; type: string; parent_name: string | null; file_path: string | null }>(db,
+    `SELECT name, type, parent_name, file_path FROM symbols
+     WHERE type IN ('security-role-extension', 'security-duty-extension') ORDER BY name`);
+  result.extensions = extensions.length;
+  await Promise.all(extensions.map(async ext => {
+    const base = ext.parent_name || ext.name.split('.')[0];
+    const xml = await readSecurityXml(ext.file_path);
+    if (xml === null) {
+      unread.push(ext.name);
+      return;
+    }
+    if (ext.type === 'security-role-extension') {
+      if (!graph.roles.has(base)) graph.roles.set(base, '');
+      for (const duty of referencedNames(xml, 'Duties')) push(graph.roleDuties, base, { name: duty, via: ext.name });
+      for (const priv of referencedNames(xml, 'Privileges')) push(graph.rolePrivileges, base, { name: priv, via: ext.name });
+      for (const sub of referencedNames(xml, 'SubRoles')) push(graph.subRoles, base, { name: sub, via: ext.name });
+    } else {
+      for (const priv of referencedNames(xml, 'Privileges')) push(graph.dutyPrivileges, base, { name: priv, via: ext.name });
+    }
+  }));
+  unread.sort((a, b) => a.localeCompare(b));
+  return result;
+}
+
+const RULE_FILE_EXAMPLE =
+  `{ "rules": [ { "id": "SOD001", "description": "Maintain vendors vs approve vendor payments",\n` +
+  `    "sides": [ { "name": "Maintain vendors", "privileges": ["VendTableMaintain"] },\n` +
+  `               { "name": "Approve vendor payments", "duties": ["VendPaymentApprove*"] } ] } ] }`;
+
+/** The rule file `rulesPath` names, or the workspace default. */
+function rulesFile(rulesPath: string | undefined): string | undefined {
+  let workspace: string | undefined;
+  try {
+    workspace = getConfigManager().getContext()?.workspacePath;
+  } catch {
+    workspace = undefined;
+  }
+  if (rulesPath) return isAbsolute(rulesPath) || !workspace ? resolve(rulesPath) : resolve(workspace, rulesPath);
+  return workspace ? join(workspace, DEFAULT_RULES_FILE) : undefined;
+}
+
+function err(text: string) {
+  return { content: [{ type: 'text' as const, text }], isError: true };
+}
+
+export async function securitySodInfoTool(request: CallToolRequest, context: XppServerContext) {
+  try {
+    const args = SecuritySodInfoArgsSchema.parse(request.params.arguments ?? {});
+    const file = rulesFile(args.rulesPath);
+    if (!file) {
+      return err(`security_info(mode="sod") needs \`rulesPath\` — no workspace is known to find ${DEFAULT_RULES_FILE} in.`);
+    }
+    let raw: string;
+    try {
+      raw = await fs.promises.readFile(file, 'utf-8');
+    } catch {
+      return err(`No SoD rule file at ${file}. Create it (or pass \`rulesPath\`) in this shape:\n${RULE_FILE_EXAMPLE}`);
+    }
+    let parsed: z.infer<typeof sodRuleFileSchema>;
+    try {
+      parsed = sodRuleFileSchema.parse(JSON.parse(raw.replace(/^\uFEFF/, '')));
+    } catch (e) {
+      const detail = e instanceof z.ZodError
+        ? e.issues.map(i => `  • ${i.path.join('.') || '(root)'}: ${i.message}`).join('\n')
+        : `  • ${e instanceof Error ? e.message : String(e)}`;
+      return err(`Invalid SoD rule file ${file}:\n${detail}`);
+    }
+
+    const db = context.symbolIndex.getReadDb();
+    const { graph, indexedRoleDuties, unread, extensions, unreadRoles, roleFiles } = await loadSecurityGraph(db);
+
+    let output = `Segregation of duties — ${parsed.rules.length} rule(s) from ${file}, ${graph.roles.size} role(s) evaluated\n\n`;
+
+    // Same honesty as mode="artifact" (#34): with no role → duty rows the index
+    // cannot tell "no conflicts" from "no data".
+    if (indexedRoleDuties === 0) {
+      output += `⚠️ NO DATA — the security_role_duties index is empty, so no role reaches anything and no conflict ` +
+        `can be found. This is NOT a clean result. Rebuild the metadata database, or run update_symbol_index on the ` +
+        `AxSecurityRole files.\n`;
+      return { content: [{ type: 'text', text: output }] };
+    }
+
+    const results = evaluateSodRules(graph, parsed.rules);
+    for (const { rule, conflicts, exempted } of results) {
+      const head = `${rule.id} — ${rule.description} [${rule.severity ?? 'high'}]`;
+      if (conflicts.length === 0) {
+        output += `✅ ${head}: no conflicting role\n`;
+      } else {
+        output += `❌ ${head}: ${conflicts.length} conflicting role(s)\n`;
+        for (const c of conflicts) {
+          output += `  ${c.role}${c.model ? ` (${c.model})` : ''}\n`;
+          c.paths.forEach((paths, i) => {
+            output += `    ${rule.sides[i].name}:\n`;
+            for (const p of paths.slice(0, MAX_PATHS_PER_SIDE)) output += `      ${p}\n`;
+            if (paths.length > MAX_PATHS_PER_SIDE) output += `      (+${paths.length - MAX_PATHS_PER_SIDE} more)\n`;
+          });
+        }
+      }
+      if (exempted.length > 0) output += `  Exempt by rule: ${exempted.join(', ')}\n`;
+      output += '\n';
+    }
+
+    const conflicting = new Set(results.flatMap(r => r.conflicts.map(c => c.role)));
+    output += `Summary: ${conflicting.size} role(s) in conflict across ${results.filter(r => r.conflicts.length > 0).length} rule(s)\n`;
+    if (extensions > 0) {
+      output += `Role/duty extensions: ${extensions - unread.length} of ${extensions} read`;
+      output += unread.length > 0 ? ` — NOT evaluated (XML not readable): ${unread.join(', ')}\n` : '\n';
+    }
+    if (roleFiles > 0) {
+      output += `Role files (direct privileges, sub-roles): ${roleFiles - unreadRoles.length} of ${roleFiles} read`;
+      output += unreadRoles.length > 0 ? ` — NOT evaluated (XML not readable): ${unreadRoles.join(', ')}\n` : '\n';
+    }
+
+    return { content: [{ type: 'text', text: output }] };
+  } catch (error) {
+    return err(`Error evaluating SoD rules: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
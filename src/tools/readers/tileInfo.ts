@@ -0,0 +1,222 @@
+/**
+ * Get Tile / KPI Info Tools
+ * Read an AxTile or an AxKPI from the SQLite index. A tile shows the menu item
+ * a click opens (and the object behind it), the query whose row count it
+ * displays, the KPI it renders and every workspace form that places it through
+ * a tile button. A KPI shows the aggregate measurement and Measure/MeasureGroup
+ * it scores, resolved against the indexed measurement, plus the tiles showing
+ * it. Azure-safe READ tools.
+ */
+
+import type { CallToolRequest } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import type { XppServerContext } from '../../types/context.js';
+import { lookupSymbolNocase } from '../../utils/symbolLookup.js';
+
+const GetTileInfoArgsSchema = z.object({
+  tileName: z.string().describe('Name of the AxTile (e.g. "CustCollectionsOpenCasesTile")'),
+});
+
+const GetKpiInfoArgsSchema = z.object({
+  kpiName: z.string().describe('Name of the AxKPI'),
+});
+
+interface TileRow {
+  tile_name: string;
+  tile_type?: string;
+  menu_item_name?: string;
+  menu_item_type?: string;
+  query_name?: string;
+  kpi_name?: string;
+  size?: string;
+  label?: string;
+}
+
+interface KpiRow {
+  kpi_name: string;
+  measurement?: string;
+  measure?: string;
+  measure_group?: string;
+  goal?: string;
+  scoring_pattern?: string;
+  label?: string;
+}
+
+type Measure = { name: string; field?: string; defaultAggregate?: string };
+
+function parseJsonArray<T>(raw: string | undefined): T[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+const code = (value: string | undefined): string => (value ? `\`${value}\`` : '— none');
+
+export async function getTileInfoTool(request: CallToolRequest, context: XppServerContext) {
+  try {
+    const { tileName } = GetTileInfoArgsSchema.parse(request.params.arguments);
+    const db = context.symbolIndex.getReadDb();
+
+    // Case-insensitive by AOT semantics, index-safe by construction (#686).
+    const symbol = lookupSymbolNocase(db, tileName, ['tile']);
+    if (!symbol) {
+      return {
+        content: [{ type: 'text', text: `Tile "${tileName}" not found.\n\nTip: run extract-metadata + build-database to index AxTile objects, or search(query="${tileName}").` }],
+        isError: true,
+      };
+    }
+
+    // Side tables are keyed by the canonical name — pass symbol.name. A name
+    // one object writes of another keeps that object's own casing, so every
+    // lookup below compares without case, as the AOT does.
+    const tile = db.prepare(
+      `SELECT tile_name, tile_type, menu_item_name, menu_item_type, query_name, kpi_name, size, label
+       FROM tiles WHERE tile_name = ? COLLATE NOCASE LIMIT 1`
+    ).get(symbol.name) as TileRow | undefined;
+
+    const lines: string[] = [];
+    lines.push(`# AxTile: \`${symbol.name}\``);
+    lines.push('');
+    lines.push(`**Model:** ${symbol.model}`);
+    if (tile?.label) lines.push(`**Label:** ${tile.label}`);
+    lines.push(`**File:** \`${symbol.file_path}\``);
+
+    if (!tile) {
+      // A bare symbol row (e.g. from update_symbol_index) carries no detail.
+      lines.push('');
+      lines.push('*(tile details not indexed — run extract-metadata + build-database, or read it with options {"include":"xml"})*');
+      return { content: [{ type: 'text', text: lines.join('\n') }] };
+    }
+
+    if (tile.tile_type) lines.push(`**Type:** ${tile.tile_type}`);
+    if (tile.size) lines.push(`**Size:** ${tile.size}`);
+    lines.push('');
+
+    lines.push('## Bindings');
+    lines.push('');
+    if (tile.menu_item_name) {
+      const target = db.prepare(
+        `SELECT target_object, target_type FROM menu_item_targets WHERE menu_item_name = ? COLLATE NOCASE LIMIT 1`
+      ).get(tile.menu_item_name) as { target_object?: string; target_type?: string } | undefined;
+      const opens = target?.target_object ? ` → opens ${target.target_type ?? 'object'} \`${target.target_object}\`` : '';
+      lines.push(`- Menu item: \`${tile.menu_item_name}\`${tile.menu_item_type ? ` (${tile.menu_item_type})` : ''}${opens}`);
+    } else {
+      lines.push('- Menu item: — none (the tile does not navigate)');
+    }
+    lines.push(tile.query_name
+      ? `- Count query: \`${tile.query_name}\``
+      : '- Count query: — none (link tile, no count)');
+    if (tile.kpi_name) lines.push(`- KPI: \`${tile.kpi_name}\``);
+    lines.push('');
+
+    const placements = db.prepare(
+      `SELECT form_name, control_name, model FROM form_tile_controls WHERE tile_name = ? COLLATE NOCASE ORDER BY form_name, control_name`
+    ).all(symbol.name) as { form_name: string; control_name: string; model: string }[];
+
+    lines.push(`## Workspaces (${placements.length})`);
+    lines.push('');
+    if (placements.length === 0) {
+      lines.push('*(no indexed form places this tile — it is unused, or the workspace lives in a model that was not built)*');
+    } else {
+      lines.push('| Form | Tile button | Model |');
+      lines.push('|------|-------------|-------|');
+      for (const p of placements) lines.push(`| \`${p.form_name}\` | ${p.control_name} | ${p.model} |`);
+    }
+
+    return { content: [{ type: 'text', text: lines.join('\n') }] };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `❌ Error getting tile info: ${error instanceof Error ? error.message : 'Unknown error'}` }],
+      isError: true,
+    };
+  }
+}
+
+export async function getKpiInfoTool(request: CallToolRequest, context: XppServerContext) {
+  try {
+    const { kpiName } = GetKpiInfoArgsSchema.parse(request.params.arguments);
+    const db = context.symbolIndex.getReadDb();
+
+    const symbol = lookupSymbolNocase(db, kpiName, ['kpi']);
+    if (!symbol) {
+      return {
+        content: [{ type: 'text', text: `KPI "${kpiName}" not found.\n\nTip: run extract-metadata + build-database to index AxKPI objects, or search(query="${kpiName}").` }],
+        isError: true,
+      };
+    }
+
+    const kpi = db.prepare(
+      `SELECT kpi_name, measurement, measure, measure_group, goal, scoring_pattern, label
+       FROM kpis WHERE kpi_name = ? COLLATE NOCASE LIMIT 1`
+    ).get(symbol.name) as KpiRow | undefined;
+
+    const lines: string[] = [];
+    lines.push(`# AxKPI: \`${symbol.name}\``);
+    lines.push('');
+    lines.push(`**Model:** ${symbol.model}`);
+    if (kpi?.label) lines.push(`**Label:** ${kpi.label}`);
+    lines.push(`**File:** \`${symbol.file_path}\``);
+
+    if (!kpi) {
+      lines.push('');
+      lines.push('*(KPI details not indexed — run extract-metadata + build-database, or read it with options {"include":"xml"})*');
+      return { content: [{ type: 'text', text: lines.join('\n') }] };
+    }
+
+    if (kpi.goal) lines.push(`**Goal:** ${kpi.goal}`);
+    if (kpi.scoring_pattern) lines.push(`**Scoring pattern:** ${kpi.scoring_pattern}`);
+    lines.push('');
+
+    lines.push('## Measure binding');
+    lines.push('');
+    lines.push(`- Aggregate measurement: ${code(kpi.measurement)}`);
+    lines.push(`- Measure group: ${code(kpi.measure_group)}`);
+    lines.push(`- Measure: ${code(kpi.measure)}`);
+
+    if (kpi.measurement && kpi.measure_group) {
+      // Resolve the pair against the measurement — a KPI whose measure or group
+      // was renamed still compiles but never resolves at runtime. Names compare
+      // without case: the KPI may spell them differently from the measurement.
+      const group = db.prepare(
+        `SELECT table_name, measures FROM aggregate_measure_groups
+         WHERE measurement_name = ? COLLATE NOCASE AND group_name = ? COLLATE NOCASE LIMIT 1`
+      ).get(kpi.measurement, kpi.measure_group) as { table_name?: string; measures?: string } | undefined;
+      if (!group) {
+        lines.push('');
+        lines.push(`⚠️ Measure group \`${kpi.measure_group}\` is not indexed on \`${kpi.measurement}\` — the measurement lives in a model that was not built, or the KPI points at a group that no longer exists.`);
+      } else {
+        const measure = parseJsonArray<Measure>(group.measures).find(m => m.name.toLowerCase() === kpi.measure?.toLowerCase());
+        if (group.table_name) lines.push(`- Fact table: \`${group.table_name}\``);
+        if (measure) {
+          lines.push(`- Measure field: ${code(measure.field)}${measure.defaultAggregate ? ` (${measure.defaultAggregate})` : ''}`);
+        } else if (kpi.measure) {
+          lines.push('');
+          lines.push(`⚠️ Measure \`${kpi.measure}\` does not exist in measure group \`${kpi.measure_group}\`.`);
+        }
+      }
+    }
+    lines.push('');
+
+    const tiles = db.prepare(
+      `SELECT tile_name, model FROM tiles WHERE kpi_name = ? COLLATE NOCASE ORDER BY tile_name`
+    ).all(symbol.name) as { tile_name: string; model: string }[];
+    lines.push(`## Tiles showing this KPI (${tiles.length})`);
+    lines.push('');
+    if (tiles.length === 0) {
+      lines.push('*(no indexed tile renders this KPI)*');
+    } else {
+      for (const t of tiles) lines.push(`- \`${t.tile_name}\` (${t.model})`);
+    }
+
+    return { content: [{ type: 'text', text: lines.join('\n') }] };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `❌ Error getting KPI info: ${error instanceof Error ? error.message : 'Unknown error'}` }],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Get Workflow Type Info Tool
+ * Reads an AxWorkflowType from the SQLite index: the document class and
+ * category it binds, the menu items that drive it (document / submit / cancel /
+ * resubmit), its event handlers, and every approval and task it supports with
+ * their outcomes and action menu items. Azure-safe READ tool.
+ *
+ * When the name is not a workflow type but a document class or menu item that
+ * one references, the reader answers the reverse question instead — which
+ * workflow type(s) use it — since that is what the caller was asking.
+ */
+
+import type { CallToolRequest } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import type { XppServerContext } from '../../types/context.js';
+import { lookupSymbolNocase } from '../../utils/symbolLookup.js';
+
+const GetWorkflowTypeInfoArgsSchema = z.object({
+  workflowTypeName: z.string().describe('Name of the AxWorkflowType (e.g. "PurchReqReview"), or a document class / menu item to find the workflow types that use it'),
+});
+
+interface WorkflowTypeRow {
+  type_name: string;
+  category?: string;
+  document_class?: string;
+  document_menu_item?: string;
+  submit_menu_item?: string;
+  cancel_menu_item?: string;
+  resubmit_menu_item?: string;
+  event_handlers?: string;
+  label?: string;
+  model: string;
+}
+
+interface WorkflowElementRow {
+  element_name: string;
+  element_kind: string;
+  document_class?: string;
+  event_handlers?: string;
+  outcomes?: string;
+  label?: string;
+}
+
+type EventHandler = { event: string; handler: string };
+type Outcome = { name: string; outcomeType?: string; actionMenuItem?: string; eventHandler?: string };
+
+function parseJsonArray<T>(raw: string | undefined): T[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+const code = (value: string | undefined): string => (value ? `\`${value}\`` : '— none');
+
+export async function getWorkflowTypeInfoTool(request: CallToolRequest, context: XppServerContext) {
+  try {
+    const { workflowTypeName } = GetWorkflowTypeInfoArgsSchema.parse(request.params.arguments);
+    const db = context.symbolIndex.getReadDb();
+
+    // Case-insensitive by AOT semantics, index-safe by construction (#686).
+    const symbol = lookupSymbolNocase(db, workflowTypeName, ['workflow-type']);
+
+    if (!symbol) {
+      // Reverse lookup: the name may be the document class or a menu item of a
+      // workflow type. AOT names are case-insensitive, so each probe compares
+      // NOCASE; workflow_types is a narrow side table, so the scan stays cheap.
+      const users = db.prepare(
+        `SELECT type_name, document_class, submit_menu_item, document_menu_item, cancel_menu_item,
+                resubmit_menu_item, model
+         FROM workflow_types
+         WHERE document_class = ? COLLATE NOCASE OR submit_menu_item = ? COLLATE NOCASE
+            OR document_menu_item = ? COLLATE NOCASE OR cancel_menu_item = ? COLLATE NOCASE
+            OR resubmit_menu_item = ? COLLATE NOCASE
+         ORDER BY type_name`
+      ).all(workflowTypeName, workflowTypeName, workflowTypeName, workflowTypeName, workflowTypeName) as WorkflowTypeRow[];
+
+      if (users.length > 0) {
+        const lines: string[] = [];
+        lines.push(`# Workflow types using \`${workflowTypeName}\``);
+        lines.push('');
+        lines.push(`\`${workflowTypeName}\` is not an AxWorkflowType; it is referenced by ${users.length} workflow type(s):`);
+        lines.push('');
+        lines.push('| Workflow type | Role | Model |');
+        lines.push('|---------------|------|-------|');
+        for (const u of users) {
+          const roles: string[] = [];
+          const is = (value: string | undefined) => value?.toLowerCase() === workflowTypeName.toLowerCase();
+          if (is(u.document_class)) roles.push('document class');
+          if (is(u.submit_menu_item)) roles.push('submit menu item');
+          if (is(u.document_menu_item)) roles.push('document menu item');
+          if (is(u.cancel_menu_item)) roles.push('cancel menu item');
+          if (is(u.resubmit_menu_item)) roles.push('resubmit menu item');
+          lines.push(`| \`${u.type_name}\` | ${roles.join(', ')} | ${u.model} |`);
+        }
+        lines.push('');
+        lines.push('Read one with get_object_info(objectType="workflow-type", name=<type>).');
+        return { content: [{ type: 'text', text: lines.join('\n') }] };
+      }
+
+      return {
+        content: [{ type: 'text', text: `Workflow type "${workflowTypeName}" not found.\n\nTip: run extract-metadata + build-database to index AxWorkflowType objects, or search(query="${workflowTypeName}") for approvals, tasks and categories.` }],
+        isError: true,
+      };
+    }
+
+    // Side tables are keyed by the canonical name — pass symbol.name.
+    const wf = db.prepare(
+      `SELECT type_name, category, document_class, document_menu_item, submit_menu_item,
+              cancel_menu_item, resubmit_menu_item, event_handlers, label, model
+       FROM workflow_types WHERE type_name = ? LIMIT 1`
+    ).get(symbol.name) as WorkflowTypeRow | undefined;
+
+    const supported = db.prepare(
+      `SELECT element_name, element_type FROM workflow_type_elements WHERE type_name = ? ORDER BY element_type, element_name`
+    ).all(symbol.name) as { element_name: string; element_type?: string }[];
+
+    const lines: string[] = [];
+    lines.push(`# AxWorkflowType: \`${symbol.name}\``);
+    lines.push('');
+    lines.push(`**Model:** ${symbol.model}`);
+    if (wf?.label) lines.push(`**Label:** ${wf.label}`);
+    lines.push(`**File:** \`${symbol.file_path}\``);
+
+    if (!wf) {
+      // A bare symbol row (e.g. from update_symbol_index) carries no detail.
+      lines.push('');
+      lines.push('*(workflow type details not indexed — run extract-metadata + build-database, or read it with options {"include":"xml"})*');
+      return { content: [{ type: 'text', text: lines.join('\n') }] };
+    }
+
+    lines.push(`**Document class:** ${code(wf.document_class)}`);
+    lines.push(`**Category:** ${code(wf.category)}`);
+    lines.push('');
+
+    lines.push('## Menu items');
+    lines.push('');
+    lines.push(`- Document: ${code(wf.document_menu_item)}`);
+    lines.push(`- Submit to workflow: ${code(wf.submit_menu_item)}`);
+    lines.push(`- Cancel: ${code(wf.cancel_menu_item)}`);
+    lines.push(`- Resubmit: ${code(wf.resubmit_menu_item)}`);
+    lines.push('');
+
+    const handlers = parseJsonArray<EventHandler>(wf.event_handlers);
+    lines.push(`## Event handlers (${handlers.length})`);
+    lines.push('');
+    if (handlers.length === 0) {
+      lines.push('*(no event handlers indexed)*');
+    } else {
+      for (const h of handlers) lines.push(`- ${h.event}: \`${h.handler}\``);
+    }
+    lines.push('');
+
+    lines.push(`## Supported elements (${supported.length})`);
+    lines.push('');
+    if (supported.length === 0) {
+      lines.push('*(no approvals or tasks indexed for this type)*');
+      return { content: [{ type: 'text', text: lines.join('\n') }] };
+    }
+
+    const elementStmt = db.prepare(
+      `SELECT element_name, element_kind, document_class, event_handlers, outcomes, label
+       FROM workflow_elements WHERE element_name = ? LIMIT 1`
+    );
+    for (const s of supported) {
+      const element = elementStmt.get(s.element_name) as WorkflowElementRow | undefined;
+      lines.push(`### ${s.element_type || element?.element_kind || 'Element'}: \`${s.element_name}\``);
+      if (!element) {
+        lines.push('*(not indexed — the element may live in a model that was not built)*');
+        lines.push('');
+        continue;
+      }
+      if (element.label) lines.push(`**Label:** ${element.label}`);
+      if (element.document_class && element.document_class !== wf.document_class) {
+        lines.push(`**Document class:** \`${element.document_class}\` ⚠️ differs from the type's document class`);
+      }
+      const outcomes = parseJsonArray<Outcome>(element.outcomes);
+      if (outcomes.length > 0) {
+        lines.push('');
+        lines.push('| Outcome | Type | Action menu item | Event handler |');
+        lines.push('|---------|------|------------------|---------------|');
+        for (const o of outcomes) {
+          lines.push(`| ${o.name} | ${o.outcomeType || '—'} | ${code(o.actionMenuItem)} | ${code(o.eventHandler)} |`);
+        }
+      }
+      const elementHandlers = parseJsonArray<EventHandler>(element.event_handlers);
+      if (elementHandlers.length > 0) {
+        lines.push('');
+        lines.push(`Event handlers: ${elementHandlers.map(h => `${h.event} → \`${h.handler}\``).join(', ')}`);
+      }
+      lines.push('');
+    }
+
+    return { content: [{ type: 'text', text: lines.join('\n') }] };
+  } catch (error) {
+    return {
+      content: [{ type: 'text', text: `❌ Error getting workflow type info: ${error instanceof Error ? error.message : 'Unknown error'}` }],
+      isError: true,
+    };
+  }
+}
@@ -14,6 +14,14 @@ import { generateRuntimeMetadata } from '../xml/generateMetadata.js';
 import { compileModelLabels, type CompileLabelsResult } from '../write/compileLabels.js';
 import { readModuleReferences } from '../../metadata/modelDescriptor.js';
 import { recordBuild } from '../../utils/buildMarker.js';
+import {
+  DIAGNOSTIC_OUTPUT_FORMATS,
+  isDiagnosticOutputFormat,
+  renderDiagnosticReport,
+  xppcDiagnostics,
+  type DiagnosticOutputFormat,
+  type DiagnosticRun,
+} from './diagnosticReport.js';
 import type { ProgressReporter } from '../../utils/progressReporter.js';
 
 const execFileAsync = util.promisify(execFile);
@@ -946,11 +954,38 @@ async function renderFinishedBuildResult(
   targetModel: string,
   /** Where to leave the last-build note; omitted when no symbol index is attached. */
   dataDir?: string,
+  /** A pipeline report instead of the readable one. */
+  outputFormat?: DiagnosticOutputFormat,
 ): Promise<{ content: Array<{ type: string; text: string }>; isError?: boolean }> {
   const succeeded  = finalState.status === 'succeeded';
   const isQueued   = !!(finalState.buildQueue && finalState.buildQueue.length > 1);
   const allResults = finalState.queueResults ?? [];
 
+  // The note run_bp_check and verify_d365fo_project read, so a green verdict from a
+  // tool that compiles nothing can say whether anything ever did.
+  if (dataDir && !isQueued) {
+    recordBuild(dataDir, targetModel, {
+      builtAt: new Date().toISOString(),
+      fullBuild: !!finalState.fullBuild,
+      succeeded,
+    });
+  }
+
+  if (outputFormat) {
+    // Every model's whole log: warnings count here even when the build passed.
+    const logs = isQueued
+      ? allResults.map(r => ({ model: r.modelName, logFile: r.logFile }))
+      : [{ model: targetModel, logFile: finalState.logFile }];
+    const runs: DiagnosticRun[] = [];
+    for (const { model, logFile } of logs) {
+      runs.push({ name: model, diagnostics: xppcDiagnostics(parseXppcDiagnostics(await readWholeLog(logFile)), model) });
+    }
+    return {
+      content: [{ type: 'text', text: renderDiagnosticReport({ tool: 'xppc', model: targetModel, runs }, outputFormat) }],
+      ...(succeeded ? {} : { isError: true }),
+    };
+  }
+
   if (isQueued) {
     const totalDuration = allResults.reduce((sum, r) => sum + r.duration, 0);
     const statusIcon    = succeeded ? '✅ Build complete' : '❌ Build failed';
@@ -995,16 +1030,6 @@ async function renderFinishedBuildResult(
   const structured    = succeeded ? '' : formatStructuredDiagnostics(parsed);
   const unexplained   = succeeded ? '' : renderUnexplainedFailure(parsed, wholeLog);
 
-  // The note run_bp_check and verify_d365fo_project read, so a green verdict from a
-  // tool that compiles nothing can say whether anything ever did.
-  if (dataDir) {
-    recordBuild(dataDir, targetModel, {
-      builtAt: new Date().toISOString(),
-      fullBuild: !!finalState.fullBuild,
-      succeeded,
-    });
-  }
-
   return {
     content: [{
       type: 'text',
@@ -1166,6 +1191,16 @@ function renderWaitTimeoutGuidance(elapsedSec: number, timeoutMs: number): strin
 export const buildProjectTool = async (params: any, context: any, onProgress?: ProgressReporter) => {
   const dataDir: string | undefined = context?.symbolIndex?.dataDir;
   try {
+    const outputFormat = params.outputFormat as DiagnosticOutputFormat | undefined;
+    if (outputFormat !== undefined && !isDiagnosticOutputFormat(outputFormat)) {
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ Unknown outputFormat "${outputFormat}". Use one of: ${DIAGNOSTIC_OUTPUT_FORMATS.join(', ')} — or omit it for the readable report.`,
+        }],
+        isError: true,
+      };
+    }
     const force                 = params.force                === true;
     const fullBuild             = params.fullBuild            === true;
     // Disabled: rebuilding referenced models drags in every custom/ISV
@@ -1319,7 +1354,7 @@ export const buildProjectTool = async (params: any, context: any, onProgress?: P
           );
           if (wait.outcome === 'finished' && wait.state) {
             await clearBuildState(targetModel, customPackagesPath);
-            return await renderFinishedBuildResult(wait.state, targetModel, dataDir);
+            return await renderFinishedBuildResult(wait.state, targetModel, dataDir, outputFormat);
           }
           const tailLog = await readLogTail(existingState.logFile);
           if (wait.outcome === 'orphaned') {
@@ -1389,7 +1424,8 @@ export const buildProjectTool = async (params: any, context: any, onProgress?: P
       );
       await clearBuildState(targetModel, customPackagesPath);
       if (stillCurrent) {
-        const result = await renderFinishedBuildResult(existingState, targetModel, dataDir);
+        const result = await renderFinishedBuildResult(existingState, targetModel, dataDir, outputFormat);
+        if (outputFormat) return result;
         // Say plainly that nothing was compiled just now, so a reader can never
         // mistake a collected result for a fresh one.
         const collected =
@@ -1522,7 +1558,7 @@ export const buildProjectTool = async (params: any, context: any, onProgress?: P
       );
       if (wait.outcome === 'finished' && wait.state) {
         await clearBuildState(targetModel, customPackagesPath);
-        return await renderFinishedBuildResult(wait.state, targetModel, dataDir);
+        return await renderFinishedBuildResult(wait.state, targetModel, dataDir, outputFormat);
       }
       const elapsed = Math.round((Date.now() - startedAt) / 1000);
       const tailLog = await readLogTail(wait.state?.logFile ?? firstLogFile);
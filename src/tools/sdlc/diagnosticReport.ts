@@ -0,0 +1,176 @@
+/**
+ * Machine-readable reports of run_bp_check and build_d365fo_project results —
+ * SARIF for a pipeline's code-analysis tab, JUnit for its test tab, JSON for
+ * anything else.
+ *
+ * Built from what the tools' own parsers already produce (parseBpFindings,
+ * parseXppcDiagnostics), so a pipeline that publishes these sees exactly the
+ * findings the agent was shown. Both the tools' `outputFormat` option and
+ * `d365fo-mcp report`, which converts a saved xppbp output or xppc log, render
+ * through here.
+ *
+ * Types only are imported from the two tools: they import this module, and a
+ * runtime import back would be a cycle.
+ */
+
+import { toJUnitXml, type JUnitCase } from '../../utils/junit.js';
+import { toSarifLog } from '../../utils/sarif.js';
+import type { XppcDiagnostic } from './buildProject.js';
+import type { ParsedBpFinding } from './runBpCheck.js';
+
+export const DIAGNOSTIC_OUTPUT_FORMATS = ['sarif', 'junit', 'json'] as const;
+export type DiagnosticOutputFormat = typeof DIAGNOSTIC_OUTPUT_FORMATS[number];
+
+export function isDiagnosticOutputFormat(value: unknown): value is DiagnosticOutputFormat {
+  return typeof value === 'string' && (DIAGNOSTIC_OUTPUT_FORMATS as readonly string[]).includes(value);
+}
+
+/** One finding of either tool, in the shape every format is written from. */
+export interface ToolDiagnostic {
+  rule: string;
+  severity: 'error' | 'warning' | 'note';
+  message: string;
+  /** The object it is about — the JUnit test case it lands in. */
+  object: string;
+  /** The object's XML, when the tool printed it. */
+  file?: string;
+  /** `Model/Object/member` for a compiler diagnostic, which names no file. */
+  logicalLocation?: string;
+  /** Within `member` for xppc; xppbp's plain-text lines carry none. */
+  line?: number;
+  column?: number;
+}
+
+/** One BP-check run, or one model's compile. */
+export interface DiagnosticRun {
+  /** The object checked, or the model for a whole-model run and a build. */
+  name: string;
+  diagnostics: ToolDiagnostic[];
+  /** Why the run checked nothing; the run is reported as failed. */
+  notRun?: string;
+}
+
+export interface DiagnosticReport {
+  tool: 'xppbp' | 'xppc';
+  model: string;
+  runs: DiagnosticRun[];
+}
+
+/** Rule when xppc names none — its lines carry a severity and an element kind only. */
+const XPPC_RULE = { error: 'XppcError', warning: 'XppcWarning' } as const;
+
+/** `…\AxTable\ConDemoTicket.xml` → ConDemoTicket; `dynamics://SecurityPrivilege/X` → X. */
+function objectOfTarget(target: string): string | undefined {
+  const file = /[\\/]Ax[A-Za-z]+[\\/]([^\\/]+)\.xml$/i.exec(target);
+  if (file) return file[1];
+  const dynamics = /^dynamics:\/\/[^/]+\/([^/\s]+)/.exec(target);
+  return dynamics?.[1];
+}
+
+/**
+ * `fallbackObject` is what was checked; a finding whose target names another
+ * object (an unscoped run) is filed under that one instead.
+ */
+export function bpDiagnostics(findings: ParsedBpFinding[], fallbackObject: string): ToolDiagnostic[] {
+  return findings.map(f => ({
+    // `BPError: LocalVariableNotUsed` — the target is the only name the line has.
+    rule: f.moniker ?? (/^\w+$/.test(f.target) ? f.target : 'BPCheck'),
+    severity: f.severity,
+    message: f.description ? `${f.description} (${f.target})` : f.target,
+    object: objectOfTarget(f.target) ?? fallbackObject,
+    ...(/\.xml$/i.test(f.target) && !f.target.startsWith('dynamics:') ? { file: f.target } : {}),
+  }));
+}
+
+export function xppcDiagnostics(diagnostics: XppcDiagnostic[], model: string): ToolDiagnostic[] {
+  return diagnostics.map(d => {
+    const location = [d.model, d.object, d.member].filter(Boolean).join('/');
+    const position = d.line !== undefined ? ` [${d.line},${d.column ?? 0}]` : '';
+    return {
+      rule: XPPC_RULE[d.severity],
+      severity: d.severity,
+      message: `${d.kind ? `${d.kind} ` : ''}${location ? `${location}${position}: ` : ''}${d.message}`,
+      object: d.object ?? model,
+      ...(location ? { logicalLocation: location } : {}),
+      ...(d.line !== undefined ? { line: d.line, column: d.column } : {}),
+    };
+  });
+}
+
+function allDiagnostics(report: DiagnosticReport): ToolDiagnostic[] {
+  return report.runs.flatMap(r => [
+    ...(r.notRun ? [{ rule: 'NotChecked', severity: 'error' as const, message: r.notRun, object: r.name }] : []),
+    ...r.diagnostics,
+  ]);
+}
+
+function renderSarif(report: DiagnosticReport): string {
+  const diagnostics = allDiagnostics(report);
+  const log = toSarifLog(
+    diagnostics.map(d => ({
+      ruleId: d.rule,
+      level: d.severity,
+      message: d.message,
+      file: d.file,
+      // A compiler line is within the method, not the file, so it stays in
+      // the message rather than becoming a region of the file.
+      logicalLocation: d.file ? undefined : d.logicalLocation ?? d.object,
+    })),
+    // The driver is the Microsoft tool that found these, and its output does
+    // not say which version it is.
+    { name: report.tool },
+  );
+  return `${JSON.stringify(log, null, 2)}\n`;
+}
+
+/**
+ * One suite per run and one case per object in it: an object with an error
+ * fails, its warnings and notes go to the case's output. A run with nothing to
+ * report is one passing case, so a clean check still shows in the tab.
+ */
+function renderJUnit(report: DiagnosticReport): string {
+  const suites = report.runs.map(run => {
+    const byObject = new Map<string, ToolDiagnostic[]>();
+    for (const d of run.diagnostics) byObject.set(d.object, [...(byObject.get(d.object) ?? []), d]);
+    const classname = `${report.tool}.${report.model}`;
+    const cases: JUnitCase[] = [...byObject].map(([object, diagnostics]) => {
+      const other = diagnostics.filter(d => d.severity !== 'error');
+      return {
+        name: object,
+        classname,
+        failures: diagnostics
+          .filter(d => d.severity === 'error')
+          .map(d => ({ message: `${d.rule}: ${d.message}`, type: d.rule })),
+        ...(other.length > 0 ? { systemOut: other.map(d => `${d.severity} ${d.rule}: ${d.message}`).join('\n') } : {}),
+      };
+    });
+    if (run.notRun) {
+      cases.unshift({ name: run.name, classname, failures: [{ message: `NotChecked: ${run.notRun}`, type: 'NotChecked' }] });
+    } else if (cases.length === 0) {
+      cases.push({ name: run.name, classname, failures: [] });
+    }
+    return { name: `${report.tool} ${run.name}`, cases };
+  });
+  return toJUnitXml(suites);
+}
+
+/** schemaVersion changes when a consumer would have to be updated, as for `session --json`. */
+function renderJson(report: DiagnosticReport): string {
+  const diagnostics = allDiagnostics(report);
+  return `${JSON.stringify({
+    schemaVersion: 1,
+    tool: report.tool,
+    model: report.model,
+    errors: diagnostics.filter(d => d.severity === 'error').length,
+    warnings: diagnostics.filter(d => d.severity === 'warning').length,
+    runs: report.runs,
+  }, null, 2)}\n`;
+}
+
+export function renderDiagnosticReport(report: DiagnosticReport, format: DiagnosticOutputFormat): string {
+  switch (format) {
+    case 'sarif': return renderSarif(report);
+    case 'junit': return renderJUnit(report);
+    case 'json': return renderJson(report);
+  }
+}
@@ -1,6 +1,7 @@
 import { execFile } from 'child_process';
 import util from 'util';
 import path from 'path';
+import { collectSemanticChanges, renderSemanticFileChange } from '../../workspace/semanticChanges.js';
 
 const execFileAsync = util.promisify(execFile);
 
@@ -42,6 +43,17 @@ function extractChangedFiles(diff: string, repoRoot: string): string[] {
   return paths;
 }
 
+/**
+ * The diff split per file, keyed by the repo-relative path on its
+ * "diff --git a/… b/…" header.
+ */
+function splitDiffByFile(diff: string): Array<{ path: string; text: string }> {
+  return diff.split(/^(?=diff --git )/m).filter(chunk => chunk.trim()).map(chunk => {
+    const header = /^diff --git a\/(.+?) b\/(.+)$/m.exec(chunk);
+    return { path: header ? header[2] : '', text: chunk };
+  });
+}
+
 export const reviewWorkspaceChangesTool = async (params: any, _context: any) => {
   const { directoryPath } = params;
   try {
@@ -67,8 +79,25 @@ export const reviewWorkspaceChangesTool = async (params: any, _context: any) =>
         `For untracked (newly created) files, the tool deletes the file entirely.`;
     }
 
+    // AOT XML is reviewed item by item: reordered elements, re-indented CDATA and
+    // regenerated GUIDs would otherwise bury the one field that was added. Files
+    // the semantic diff cannot read keep their line diff.
+    const chunks = splitDiffByFile(stdout);
+    const semantic = await collectSemanticChanges(
+      repoRoot,
+      chunks.map(c => c.path).filter(p => p.toLowerCase().endsWith('.xml')),
+    );
+    const readable = new Map(semantic.files.filter(f => f.objectType).map(f => [f.path, f]));
+    let semanticSection = '';
+    if (readable.size > 0) {
+      semanticSection = 'Code Review Target (Semantic AOT changes):\n' +
+        [...readable.values()].map(f => renderSemanticFileChange(f).join('\n')).join('\n\n') + '\n\n';
+    }
+    const rawDiff = chunks.filter(c => !readable.has(c.path)).map(c => c.text).join('');
+    const rawSection = rawDiff.trim() ? 'Code Review Target (Git Diff):\n' + rawDiff : '';
+
     return {
-      content: [{ type: 'text', text: 'Code Review Target (Git Diff):\n' + stdout + undoSection }]
+      content: [{ type: 'text', text: (semanticSection + rawSection).trimEnd() + undoSection }]
     };
   } catch (error: any) {
     return {
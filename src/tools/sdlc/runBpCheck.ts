@@ -9,6 +9,12 @@ import { lookupSymbolsNocase, lookupSymbolNocase, type DbLike } from '../../util
 import { compileModelLabels } from '../write/compileLabels.js';
 import { buildFreshness, type BuildFreshnessStatus } from '../../utils/buildMarker.js';
 import { validateMoniker, BP_MONIKER_CATALOG } from '../../knowledge/bpMonikers/index.js';
+import {
+  bpDiagnostics,
+  DIAGNOSTIC_OUTPUT_FORMATS,
+  isDiagnosticOutputFormat,
+  renderDiagnosticReport,
+} from './diagnosticReport.js';
 
 const execFileAsync = util.promisify(execFile);
 
@@ -178,6 +184,8 @@ export interface ParsedBpFinding {
   description: string | null;
   /** False for a moniker xppbp printed that the catalog does not recognise at all — worth a second look, not necessarily wrong. */
   knownMoniker: boolean;
+  /** From the name's family — BPError…, BPWarning…, BPInfo… — which is all the line says about it. */
+  severity: 'error' | 'warning' | 'note';
 }
 
 // xppbp's plain-text mode prints one finding per line as `<Moniker>: <target>`.
@@ -202,6 +210,14 @@ const FINDING_LINE = /^\s*(BP[A-Za-z0-9]+)\s*:\s*(.+?)\s*$/;
 // the extracted catalog: none of these appears as a moniker in its own right.
 const BARE_PREFIXES = new Set(['bperror', 'bpwarning', 'bpinfo', 'bpcheck']);
 
+/** BPError… is an error and BPInfo… a note; anything else — BPWarning…, BPCheck… — a warning. */
+function severityOf(name: string): ParsedBpFinding['severity'] {
+  const lower = name.toLowerCase();
+  if (lower.startsWith('bperror')) return 'error';
+  if (lower.startsWith('bpinfo')) return 'note';
+  return 'warning';
+}
+
 /**
  * Pull `{moniker, target}` out of every plain-text finding line in a BP check's
  * raw output, and cross-reference each moniker against the extracted catalog
@@ -218,10 +234,11 @@ export function parseBpFindings(output: string): ParsedBpFinding[] {
     const match = rawLine.match(FINDING_LINE);
     if (!match) continue;
     const [, name, target] = match;
+    const severity = severityOf(name);
     if (BARE_PREFIXES.has(name.toLowerCase())) {
       // Severity prefix only — the rule is not named on this line, so there is
       // nothing to cross-reference and nothing to flag as unrecognised.
-      findings.push({ moniker: null, target, description: null, knownMoniker: false });
+      findings.push({ moniker: null, target, description: null, knownMoniker: false, severity });
       continue;
     }
     const validation = validateMoniker(name);
@@ -230,6 +247,7 @@ export function parseBpFindings(output: string): ParsedBpFinding[] {
       target,
       description: validation.entry?.description ?? null,
       knownMoniker: validation.found,
+      severity,
     });
   }
   return findings;
@@ -392,6 +410,14 @@ export const runBpCheckTool = async (params: any, context: any) => {
       };
     }
 
+    const outputFormat = params?.outputFormat;
+    if (outputFormat !== undefined && !isDiagnosticOutputFormat(outputFormat)) {
+      return {
+        content: [{ type: 'text', text: `❌ Unknown outputFormat "${outputFormat}". Use one of: ${DIAGNOSTIC_OUTPUT_FORMATS.join(', ')} — or omit it for the readable report.` }],
+        isError: true
+      };
+    }
+
     const configManager = getConfigManager();
     await configManager.ensureLoaded();
 
@@ -654,6 +680,22 @@ export const runBpCheckTool = async (params: any, context: any) => {
       || /^Warnings:\s*[1-9]/m.test(output)
       || /^Errors:\s*[1-9]/m.test(output);
 
+    // A pipeline asked for a file, not for prose: the same findings, one
+    // run per object, and a run that never happened reported as failed.
+    if (outputFormat) {
+      const runs = runTargets.map((target, i) => {
+        const name = target?.name ?? modelName;
+        const notRun = describeNonRun(combinedByTarget[i], target?.name);
+        return notRun
+          ? { name, diagnostics: [], notRun }
+          : { name, diagnostics: bpDiagnostics(parseBpFindings(combinedByTarget[i]), name) };
+      });
+      return {
+        content: [{ type: 'text', text: renderDiagnosticReport({ tool: 'xppbp', model: modelName, runs }, outputFormat) }],
+        ...(runs.some(r => r.notRun) ? { isError: true } : {}),
+      };
+    }
+
     const header = `Model: ${modelName}` + (resolvedProjectPath ? `\nProject: ${resolvedProjectPath}` : '');
 
     // A clean xppbp run is routinely read as "the task is done". It is not a compile:
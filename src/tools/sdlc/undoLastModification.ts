@@ -7,6 +7,12 @@ import type { XppServerContext } from '../../types/context.js';
 import { bridgeRefreshProvider } from '../../bridge/index.js';
 import { isFileUnderRoot } from '../../utils/pathContainment.js';
 import { lookupCreatedArtifact, forgetCreatedArtifact, type CreatedArtifact } from '../../workspace/createdArtifactLedger.js';
+import {
+  addCheckpoint, getChangeJournalRoot, listJournalModels, liveChanges,
+  readJournal, readJournalBlob, recordUndo, sha256, type ChangeEntry, type JournalEntry,
+} from '../../workspace/changeJournal.js';
+import { writeFileAtomic } from '../../utils/atomicFileWrite.js';
+import { getConfigManager } from '../../utils/configManager.js';
 
 const execFileAsync = util.promisify(execFile);
 
@@ -68,7 +74,9 @@ export function toRepoRelative(repoRoot: string, absolutePath: string): string {
 // aggregated toolSchemas array into the ListTools response.
 
 export const undoLastModificationTool = async (params: any, context: XppServerContext) => {
-  const { filePath } = params;
+  const { filePath } = params ?? {};
+  // Without a file, the call is about the change journal: steps, a checkpoint, the history.
+  if (filePath === undefined) return journalUndoTool(params ?? {}, context);
   try {
     if (!filePath || typeof filePath !== 'string') {
       return {
@@ -257,10 +265,10 @@ async function removeFromProjectSafe(entry: CreatedArtifact): Promise<void> {
 
 /**
  * Clean up the symbol index, label index, and bridge after a file is reverted or
- * deleted by undo_last_modification. Deleted files: remove stale symbols + labels.
- * Reverted files: re-index from the restored content.
+ * deleted by undo_last_modification or a change-set rollback. Deleted files:
+ * remove stale symbols + labels. Reverted files: re-index from the restored content.
  */
-async function cleanupIndexAfterUndo(
+export async function cleanupIndexAfterUndo(
   context: XppServerContext,
   filePath: string,
   action: 'deleted' | 'reverted',
@@ -290,3 +298,182 @@ async function cleanupIndexAfterUndo(
     console.error(`[undo] Index cleanup failed (non-fatal): ${e}`);
   }
 }
+
+// ── Change journal ───────────────────────────────────────────────────────────
+// The durable, multi-step undo (workspace/changeJournal.ts): every write tool call
+// is one journal entry holding the pre-image of each file it touched, so it can
+// be undone after a restart and outside git, N steps or back to a checkpoint.
+
+type ToolResult = { content: Array<{ type: string; text: string }>; isError?: boolean };
+
+function fail(text: string): ToolResult {
+  return { content: [{ type: 'text', text }], isError: true };
+}
+
+/** The model whose journal a call means: explicit, the configured one, or the only one there is. */
+async function resolveJournalModel(model: unknown): Promise<string | { error: string }> {
+  if (typeof model === 'string' && model.trim()) return model.trim();
+  const configured = getConfigManager().getModelName();
+  if (configured) return configured;
+  const models = await listJournalModels();
+  if (models.length === 1) return models[0];
+  return {
+    error: models.length === 0
+      ? 'The change journal is empty — no write has been recorded yet.'
+      : `Several models have a change journal (${models.join(', ')}) — pass model="<name>".`,
+  };
+}
+
+function describeEntry(entry: JournalEntry): string {
+  const when = entry.at.replace('T', ' ').slice(0, 19);
+  if (entry.kind === 'checkpoint') return `🔖 ${when} checkpoint "${entry.name}"`;
+  if (entry.kind === 'undo') return `⏪ ${when} undo of ${entry.undid.length} change(s)`;
+  const files = entry.files.map(f => `${path.basename(f.path)}${f.before === null ? ' (new)' : f.after === null ? ' (deleted)' : ''}`);
+  return `\`${entry.id}\` ${when} ${entry.summary || entry.tool} — ${files.join(', ')}`;
+}
+
+function renderHistory(model: string, entries: JournalEntry[], limit: number): string {
+  const undone = new Set(entries.flatMap(e => (e.kind === 'undo' ? e.undid : [])));
+  const shown = entries.slice(-limit).reverse();
+  const lines = [
+    `# Change history — ${model}`,
+    '',
+    `${liveChanges(entries).length} change(s) can be undone · journal: ${path.join(getChangeJournalRoot()!, model)}`,
+    '',
+    ...shown.map(e => `- ${describeEntry(e)}${e.kind === 'change' && undone.has(e.id) ? ' · undone' : ''}`),
+  ];
+  if (entries.length > shown.length) lines.push(`- _… ${entries.length - shown.length} older entr(ies) — raise \`limit\`._`);
+  if (entries.length === 0) lines.push('_No change recorded yet._');
+  lines.push('', 'Undo: undo_last_modification(steps=N) or undo_last_modification(toCheckpoint="<name>").');
+  return lines.join('\n');
+}
+
+/**
+ * Files an undo of `changes` (newest first) would hit in a state it does not
+ * expect: the file on disk is no longer what the change left behind, so
+ * restoring the pre-image would discard an edit the journal never saw.
+ */
+async function findUndoConflicts(changes: ChangeEntry[]): Promise<string[]> {
+  const state = new Map<string, string | null>();
+  const conflicts: string[] = [];
+  for (const change of changes) {
+    for (const file of change.files) {
+      if (!state.has(file.path)) {
+        let content: string | null = null;
+        try {
+          content = await fsp.readFile(file.path, 'utf-8');
+        } catch { /* absent */ }
+        state.set(file.path, content === null ? null : sha256(content));
+      }
+      if (state.get(file.path) !== file.after) {
+        conflicts.push(`${file.path} — changed since ${change.summary || change.tool} (${change.id})`);
+      }
+      state.set(file.path, file.before);
+    }
+  }
+  return conflicts;
+}
+
+async function undoJournalChanges(
+  model: string,
+  changes: ChangeEntry[],
+  force: boolean,
+  context: XppServerContext,
+): Promise<ToolResult> {
+  if (changes.length === 0) return fail(`Nothing to undo in ${model} — every recorded change is already undone.`);
+
+  const conflicts = await findUndoConflicts(changes);
+  if (conflicts.length > 0 && !force) {
+    return fail(
+      `⛔ Undo refused — ${conflicts.length} file(s) were edited outside the journal after the change:\n` +
+      conflicts.map(c => `  • ${c}`).join('\n') +
+      `\n\nRestoring would discard those edits. Nothing was written. Pass force=true to restore anyway.`,
+    );
+  }
+  // Every pre-image must be readable before the first file is touched.
+  const blobs = new Map<string, string>();
+  for (const file of changes.flatMap(c => c.files)) {
+    if (file.before === null || blobs.has(file.before)) continue;
+    const content = await readJournalBlob(model, file.before);
+    if (content === null) return fail(`The pre-image of ${file.path} is missing from the journal — nothing was restored.`);
+    blobs.set(file.before, content);
+  }
+
+  const restored = new Map<string, 'reverted' | 'deleted'>();
+  for (const change of changes) {
+    for (const file of change.files) {
+      if (file.before === null) {
+        await fsp.rm(file.path, { force: true });
+        forgetCreatedArtifact(file.path);
+        restored.set(file.path, 'deleted');
+      } else {
+        await fsp.mkdir(path.dirname(file.path), { recursive: true });
+        await writeFileAtomic(file.path, blobs.get(file.before)!);
+        restored.set(file.path, 'reverted');
+      }
+    }
+  }
+  await recordUndo(model, changes.map(c => c.id));
+  for (const [file, action] of restored) {
+    if (!file.toLowerCase().endsWith('.rnrproj')) await cleanupIndexAfterUndo(context, file, action);
+  }
+
+  return {
+    content: [{
+      type: 'text',
+      text: [
+        `✅ Undid ${changes.length} change(s) in ${model}${force && conflicts.length > 0 ? ` (forced over ${conflicts.length} conflict(s))` : ''}:`,
+        ...changes.map(c => `  • ${describeEntry(c)}`),
+        '',
+        `Files: ${[...restored].map(([f, a]) => `${path.basename(f)} (${a === 'deleted' ? 'deleted' : 'restored'})`).join(', ')}`,
+        'Symbol index updated to reflect the restored state.',
+      ].join('\n'),
+    }],
+  };
+}
+
+async function journalUndoTool(params: Record<string, unknown>, context: XppServerContext): Promise<ToolResult> {
+  try {
+    if (!getChangeJournalRoot()) {
+      return fail('The change journal is off in this server — pass filePath to undo one file through git.');
+    }
+    const model = await resolveJournalModel(params.model);
+    if (typeof model !== 'string') return fail(model.error);
+
+    if (typeof params.checkpoint === 'string') {
+      const name = params.checkpoint.trim();
+      if (!name) return fail('checkpoint needs a name, e.g. checkpoint="before-refactor".');
+      await addCheckpoint(model, name);
+      return { content: [{ type: 'text', text: `🔖 Checkpoint "${name}" set in ${model}. Roll back to it with undo_last_modification(toCheckpoint="${name}").` }] };
+    }
+
+    const entries = await readJournal(model);
+    if (params.history === true) {
+      const limit = typeof params.limit === 'number' && params.limit > 0 ? Math.floor(params.limit) : 20;
+      return { content: [{ type: 'text', text: renderHistory(model, entries, limit) }] };
+    }
+
+    const live = liveChanges(entries);
+    const force = params.force === true;
+    if (typeof params.toCheckpoint === 'string') {
+      const at = entries.map(e => e.kind === 'checkpoint' && e.name === params.toCheckpoint).lastIndexOf(true);
+      if (at === -1) {
+        const names = [...new Set(entries.flatMap(e => (e.kind === 'checkpoint' ? [e.name] : [])))];
+        return fail(`No checkpoint "${params.toCheckpoint}" in ${model}.` +
+          (names.length > 0 ? ` Known: ${names.join(', ')}.` : ' None has been set.'));
+      }
+      const after = new Set(entries.slice(at + 1).map(e => e.id));
+      return await undoJournalChanges(model, live.filter(c => after.has(c.id)).reverse(), force, context);
+    }
+
+    const steps = params.steps === undefined ? 1 : Number(params.steps);
+    if (!Number.isInteger(steps) || steps < 1) return fail(`steps must be a positive whole number (got ${String(params.steps)}).`);
+    if (live.length === 0) return fail(`Nothing to undo in ${model} — every recorded change is already undone.`);
+    if (steps > live.length) {
+      return fail(`Only ${live.length} change(s) in ${model} can be undone — steps=${steps} asks for more. Nothing was written.`);
+    }
+    return await undoJournalChanges(model, live.slice(-steps).reverse(), force, context);
+  } catch (error: any) {
+    return fail('Error undoing from the change journal: ' + error.message);
+  }
+}
@@ -55,6 +55,14 @@ const AOT_FOLDER_TYPE_MAP: Record<string, XppSymbol['type']> = {
   'axmenuitemdisplayextension': 'menu-item-display-extension',
   'axmenuitemoutput': 'menu-item-output',
   'axmenuitemoutputextension': 'menu-item-output-extension',
+  'axworkflowtype': 'workflow-type',
+  'axworkflowapproval': 'workflow-approval',
+  'axworkflowtask': 'workflow-task',
+  'axworkflowcategory': 'workflow-category',
+  'axtile': 'tile',
+  'axkpi': 'kpi',
+  'axaggregatemeasurement': 'aggregate-measurement',
+  'axaggregatedimension': 'aggregate-dimension',
 };
 
 /**
@@ -62,7 +70,7 @@ const AOT_FOLDER_TYPE_MAP: Record<string, XppSymbol['type']> = {
  * Pattern: {packagesRoot}\{package}\{model}\Ax{Type}\{Name}.xml
  * or:      {packagesRoot}\{model}\{model}\Ax{Type}\{Name}.xml
  */
-/** Any AOT element folder, mapped or not (AxMenu, AxWorkflowType, …). */
+/** Any AOT element folder, mapped or not (AxMenu, AxWorkflowProvider, …). */
 const AOT_FOLDER_PATTERN = /^ax[a-z]/i;
 
 /**
@@ -108,8 +116,8 @@ function extractModelFromPath(filePath: string): string | null {
  * #34: the old expression was `AOT_FOLDER_TYPE_MAP[folder] ?? 'class'`, which
  * turned every unmapped AOT folder into a CLASS — an AxMenu was indexed as
  * `type=class`, poisoning search and every type-scoped lookup. A folder we can
- * name but not map now yields its own derived type (`AxWorkflowType` →
- * `workflowtype`) instead of a confident lie; `class` remains the fallback only
+ * name but not map now yields its own derived type (`AxWorkflowProvider` →
+ * `workflowprovider`) instead of a confident lie; `class` remains the fallback only
  * when the path carries no AOT folder at all.
  */
 export function classifyAotFolder(aotFolder: string): XppSymbol['type'] {
@@ -316,7 +324,8 @@ async function refreshOnly(context: XppServerContext) {
  * that tool at all.
  */
 /**
- * Refresh the extension_metadata row for one Ax*Extension file.
+ * Refresh the extension_metadata row for one Ax*Extension file, and for a role
+ * or duty extension the security_links rows it adds.
  *
  * Returns the identity the caller needs for the symbol row, or null when the
  * file does not parse as an extension — in which case the caller falls back to
@@ -343,6 +352,17 @@ async function reindexExtensionMetadata(
     eventSubscriptions: data.eventSubscriptions,
     model,
   });
+  if ((objectType === 'security-role-extension' || objectType === 'security-duty-extension') && data.baseObjectName) {
+    symbolIndex.replaceSecurityLinks?.({
+      ownerType: objectType === 'security-role-extension' ? 'role' : 'duty',
+      ownerName: data.baseObjectName,
+      via: data.name,
+      duties: data.duties,
+      privileges: data.privileges,
+      subRoles: data.subRoles,
+      model,
+    });
+  }
   return { name: data.name, baseObjectName: data.baseObjectName };
 }
 
@@ -769,7 +789,8 @@ export async function indexOneFile(
         tx();
       }
     } else if (objectType === 'security-role') {
-      // Populates security_role_duties — see security-privilege branch above.
+      // Populates security_role_duties and the role file's security_links — see
+      // security-privilege branch above.
       const result = await parser.parseSecurityRoleFile(filePath);
       if (result.success && result.data) {
         const roleData = result.data;
@@ -792,6 +813,13 @@ export async function indexOneFile(
           insertDuty.run(roleData.name ?? objectName, duty, model);
           insertedCount++;
         }
+        symbolIndex.replaceSecurityLinks?.({
+          ownerType: 'role',
+          ownerName: roleData.name ?? objectName,
+          privileges: roleData.privileges,
+          subRoles: roleData.subRoles,
+          model,
+        });
       } else {
         tx();
       }
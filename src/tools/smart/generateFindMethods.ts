@@ -204,7 +204,8 @@ export async function generateFindMethodsTool(
           indexes: t.indexes.map((i) => ({
             name: i.name,
             allowDuplicates: i.allowDuplicates,
-            fields: i.fields,
+            // Included columns are stored with the index, not part of its key.
+            fields: i.fields.filter((f) => !f.includedColumn).map((f) => f.dataField),
           })),
         };
       }
@@ -0,0 +1,320 @@
+/**
+ * Security scaffold generator — `generate_object(mode="security")`.
+ *
+ * Given a form or its display menu item, proposes the least-privilege security
+ * for it in one go instead of three separate d365fo_file(action="create") calls:
+ *  - a View privilege: Read on the form's display menu item(s) and on the
+ *    output menu items (reports) the form offers;
+ *  - a Maintain privilege whose grant on the form follows its data sources —
+ *    Update/Create/Delete only where some data source allows editing, creating
+ *    or deleting (form_datasources) — plus the action menu items the form runs.
+ *    A read-only form without actions gets no Maintain privilege at all;
+ *  - a duty grouping the two, and the role it is attached to: a new role
+ *    extension, the model's existing extension of that role, or the role itself
+ *    when the role lives in the same model.
+ *
+ * Display menu items on the form are not granted: they open other forms, and
+ * those are secured by their own privileges.
+ *
+ * Output is text — the XML of every object for review, and one
+ * d365fo_file(action="changeset") call that writes them as a unit.
+ */
+
+import type { CallToolRequest } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs';
+import { z } from 'zod';
+import { walkFormDesign, type FormControlNode } from '../../metadata/formPatternMiner.js';
+import type { XppServerContext } from '../../types/context.js';
+import { getConfigManager } from '../../utils/configManager.js';
+import { normalizeObjectName } from '../../utils/objectNaming.js';
+import { lookupSymbolNocase, type DbLike } from '../../utils/symbolLookup.js';
+import { Parser } from '../../utils/xml.js';
+import {
+  addSecurityReference,
+  buildAxSecurityDutyXml,
+  buildAxSecurityRoleExtensionXml,
+} from '../xml/securityDutyRoleXml.js';
+import {
+  buildAxSecurityPrivilegeXml,
+  type EntryPointGrant,
+  type SecurityEntryPointSpec,
+} from '../xml/securityPrivilegeXml.js';
+
+const SecurityScaffoldArgsSchema = z.object({
+  name: z.string().describe('The form, or a display menu item opening it.'),
+  modelName: z.string().optional(),
+  role: z.string().optional().describe('Role to attach the duty to (default: the role suggested from related forms).'),
+});
+
+type MenuItemKind = 'display' | 'action' | 'output';
+
+const ENTRY_POINT_TYPE: Record<MenuItemKind, string> = {
+  display: 'MenuItemDisplay',
+  action: 'MenuItemAction',
+  output: 'MenuItemOutput',
+};
+
+/** menu_item_targets stores the kind as 'display', 'menu-item-display' or 'MenuItemDisplay'. */
+function menuItemKind(type: string | null | undefined): MenuItemKind | undefined {
+  const kind = (type ?? '').toLowerCase().replace(/^menu-?item-?/, '');
+  return kind === 'display' || kind === 'action' || kind === 'output' ? kind : undefined;
+}
+
+export interface FormDataSourceAccess {
+  datasource_name: string;
+  table_name: string;
+  allow_edit: number;
+  allow_create: number;
+  allow_delete: number;
+}
+
+export interface SecurityGrantPlan {
+  view: SecurityEntryPointSpec[];
+  /** null when nothing beyond View is grantable — a read-only form without actions. */
+  maintain: SecurityEntryPointSpec[] | null;
+}
+
+/**
+ * Grants per entry point. Display items: Read in View; Read plus whatever the
+ * data sources allow in Maintain — all of Update/Create/Delete when no data
+ * source is known. Output items: Read in both. Action items: Maintain only,
+ * with Delete, the grant standard privileges give an action menu item.
+ */
+export function planSecurityGrants(
+  displayItems: readonly string[],
+  formItems: ReadonlyArray<{ name: string; kind: MenuItemKind }>,
+  dataSources: readonly FormDataSourceAccess[],
+): SecurityGrantPlan {
+  const writes: EntryPointGrant[] = dataSources.length === 0
+    ? ['Update', 'Create', 'Delete']
+    : [
+        ...(dataSources.some(d => d.allow_edit) ? ['Update' as const] : []),
+        ...(dataSources.some(d => d.allow_create) ? ['Create' as const] : []),
+        ...(dataSources.some(d => d.allow_delete) ? ['Delete' as const] : []),
+      ];
+  const outputs = formItems.filter(i => i.kind === 'output');
+  const actions = formItems.filter(i => i.kind === 'action');
+  const read = (objectName: string, kind: MenuItemKind): SecurityEntryPointSpec =>
+    ({ objectName, objectType: ENTRY_POINT_TYPE[kind], grant: ['Read'] });
+
+  const view = [...displayItems.map(d => read(d, 'display')), ...outputs.map(o => read(o.name, 'output'))];
+  if (writes.length === 0 && actions.length === 0) return { view, maintain: null };
+  return {
+    view,
+    maintain: [
+      ...displayItems.map(d => ({ objectName: d, objectType: ENTRY_POINT_TYPE.display, grant: ['Read' as const, ...writes] })),
+      ...outputs.map(o => read(o.name, 'output')),
+      ...actions.map(a => ({ objectName: a.name, objectType: ENTRY_POINT_TYPE.action, grant: ['Delete' as const] })),
+    ],
+  };
+}
+
+/** Action and output menu items the form's controls run, from the form XML. */
+async function formMenuItems(
+  formXml: string,
+  kindOf: (menuItem: string) => MenuItemKind | undefined,
+): Promise<Array<{ name: string; kind: MenuItemKind }>> {
+  const parsed = await new Parser({ explicitArray: false, mergeAttrs: true, trim: true }).parseStringPromise(formXml);
+  const axForm = parsed?.AxForm;
+  const design = walkFormDesign(axForm?.Design?.AxFormDesign ?? axForm?.Design);
+  const found = new Map<string, MenuItemKind>();
+  const visit = (nodes: FormControlNode[]) => {
+    for (const node of nodes) {
+      const menuItem = node.properties.MenuItemName;
+      if (menuItem && !found.has(menuItem)) {
+        const kind = menuItemKind(node.properties.MenuItemType) ?? kindOf(menuItem) ?? 'display';
+        if (kind !== 'display') found.set(menuItem, kind);
+      }
+      visit(node.children);
+    }
+  };
+  visit(design.controls);
+  return [...found].map(([name, kind]) => ({ name, kind }));
+}
+
+/**
+ * Roles already reaching other forms over the same tables — the role a user of
+ * this form most likely holds. Counted by distinct forms, best first.
+ */
+function suggestRoles(db: DbLike, form: string, tables: readonly string[]): Array<{ role: string; forms: number }> {
+  if (tables.length === 0) return [];
+  try {
+    return db.prepare(
+      `SELECT rd.role_name AS role, COUNT(DISTINCT fd.form_name) AS forms
+       FROM form_datasources fd
+       JOIN menu_item_targets mit ON mit.target_object = fd.form_name
+       JOIN security_privilege_entries spe ON spe.entry_point_name = mit.menu_item_name
+       JOIN security_duty_privileges sdp ON sdp.privilege_name = spe.privilege_name
+       JOIN security_role_duties rd ON rd.duty_name = sdp.duty_name
+       WHERE fd.table_name IN (${tables.map(() => '?').join(',')}) AND fd.form_name <> ?
+       GROUP BY rd.role_name
+       ORDER BY forms DESC, rd.role_name
+       LIMIT 4`,
+    ).all(...tables, form) as Array<{ role: string; forms: number }>;
+  } catch {
+    // A database without the security or form tables suggests nothing.
+    return [];
+  }
+}
+
+function err(text: string) {
+  return { content: [{ type: 'text' as const, text }], isError: true };
+}
+
+async function readIfPresent(filePath: string | null | undefined): Promise<string | undefined> {
+  if (!filePath?.toLowerCase().endsWith('.xml')) return undefined;
+  try {
+    return await fs.promises.readFile(filePath, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+const grantText = (eps: readonly SecurityEntryPointSpec[]) =>
+  eps.map(ep => `${ep.objectName} [${ep.grant.join(', ')}]`).join(', ');
+
+export async function generateSecurityScaffoldTool(request: CallToolRequest, context: XppServerContext) {
+  try {
+    const args = SecurityScaffoldArgsSchema.parse(request.params.arguments);
+    const db = context.symbolIndex.getReadDb() as DbLike;
+    const configManager = getConfigManager();
+    const model = args.modelName
+      || configManager.getModelName()
+      || (await configManager.getAutoDetectedModelName())
+      || process.env.D365FO_MODEL_NAME
+      || undefined;
+
+    // The entry point: a display menu item, or the form such items open.
+    const targets = db.prepare(
+      `SELECT menu_item_name, menu_item_type, target_object FROM menu_item_targets
+       WHERE menu_item_name = ? COLLATE NOCASE OR target_object = ? COLLATE NOCASE`,
+    ).all(args.name, args.name) as Array<{ menu_item_name: string; menu_item_type: string; target_object: string | null }>;
+    const asItem = targets.find(t => t.menu_item_name.toLowerCase() === args.name.toLowerCase());
+    if (asItem && menuItemKind(asItem.menu_item_type) !== 'display') {
+      return err(`generate_object(mode="security"): "${asItem.menu_item_name}" is an ${menuItemKind(asItem.menu_item_type) ?? asItem.menu_item_type} menu item. Pass the form it belongs to, or its display menu item — the form's action and output menu items are granted with it.`);
+    }
+    const form = asItem?.target_object
+      ?? lookupSymbolNocase(db, args.name, ['form'])?.name;
+    if (!form) {
+      return err(`generate_object(mode="security"): no form or display menu item named "${args.name}" in the index. Run update_symbol_index on it first if it was just created.`);
+    }
+    const displayItems = [...new Set(
+      db.prepare(`SELECT menu_item_name, menu_item_type FROM menu_item_targets WHERE target_object = ? COLLATE NOCASE`)
+        .all(form)
+        .filter((t: any) => menuItemKind(t.menu_item_type) === 'display')
+        .map((t: any) => t.menu_item_name as string),
+    )].sort((a, b) => a.localeCompare(b));
+    if (displayItems.length === 0) {
+      return err(`generate_object(mode="security"): no display menu item opens form "${form}", so there is no entry point to secure. Create one first — generate_object(mode="pattern", pattern="menu-item", name="${form}", params={ menuItemType: "display", targetObject: "${form}" }).`);
+    }
+    const base = asItem?.menu_item_name ?? (displayItems.find(d => d.toLowerCase() === form.toLowerCase()) ?? displayItems[0]);
+
+    const dataSources = db.prepare(
+      `SELECT datasource_name, table_name, allow_edit, allow_create, allow_delete
+       FROM form_datasources WHERE form_name = ? ORDER BY id`,
+    ).all(form) as FormDataSourceAccess[];
+
+    const notes: string[] = [];
+    const kindStmt = db.prepare(`SELECT menu_item_type FROM menu_item_targets WHERE menu_item_name = ? LIMIT 1`);
+    const formXml = await readIfPresent(lookupSymbolNocase(db, form, ['form'])?.file_path);
+    const items = formXml
+      ? await formMenuItems(formXml, mi => menuItemKind((kindStmt.get(mi) as any)?.menu_item_type))
+      : [];
+    if (!formXml) notes.push(`⚠️ The XML of form ${form} is not readable here — action and output menu items on the form are not included.`);
+    if (dataSources.length === 0) notes.push(`⚠️ No data sources of ${form} are indexed — Maintain grants Update, Create and Delete. Narrow it if the form is read-only.`);
+
+    const plan = planSecurityGrants(displayItems, items, dataSources);
+    const named = (name: string, objectType: string) => normalizeObjectName(name, objectType, model);
+    const viewName = named(`${base}View`, 'security-privilege');
+    const maintainName = plan.maintain ? named(`${base}Maintain`, 'security-privilege') : undefined;
+    const dutyName = named(`${base}Process`, 'security-duty');
+    const privileges = [viewName, ...(maintainName ? [maintainName] : [])];
+
+    const changes: Array<Record<string, unknown>> = [
+      { action: 'create', objectType: 'security-privilege', objectName: viewName, properties: { entryPoints: plan.view } },
+      ...(plan.maintain
+        ? [{ action: 'create', objectType: 'security-privilege', objectName: maintainName, properties: { entryPoints: plan.maintain } }]
+        : []),
+      { action: 'create', objectType: 'security-duty', objectName: dutyName, properties: { privileges } },
+    ];
+    const reviews: Array<{ title: string; xml: string }> = [
+      { title: `AxSecurityPrivilege/${viewName}`, xml: buildAxSecurityPrivilegeXml(viewName, { entryPoints: plan.view }) },
+      ...(plan.maintain
+        ? [{ title: `AxSecurityPrivilege/${maintainName}`, xml: buildAxSecurityPrivilegeXml(maintainName!, { entryPoints: plan.maintain }) }]
+        : []),
+      { title: `AxSecurityDuty/${dutyName}`, xml: buildAxSecurityDutyXml(dutyName, { privileges }) },
+    ];
+
+    // The role: named by the caller, else suggested from related forms.
+    const tables = [...new Set(dataSources.map(d => d.table_name))];
+    const suggestions = args.role ? [] : suggestRoles(db, form, tables);
+    const roleCandidate = args.role ?? suggestions[0]?.role;
+    const roleHit = roleCandidate ? lookupSymbolNocase(db, roleCandidate, ['security-role']) : undefined;
+    const roleName = roleHit?.name ?? roleCandidate;
+    let roleLine: string;
+    if (!roleName) {
+      roleLine = `  • role — none suggested: no indexed role reaches a form over ${tables.join(', ') || 'the same tables'}. ` +
+        `Pass params.role to attach duty ${dutyName}.`;
+    } else {
+      const why = args.role
+        ? ''
+        : ` (suggested: reaches ${suggestions[0].forms} other form(s) over ${tables.join(', ')}` +
+          `${suggestions.length > 1 ? `; also ${suggestions.slice(1).map(s => s.role).join(', ')}` : ''} — pass params.role to choose)`;
+      const existingExtension = db.prepare(
+        `SELECT name, file_path FROM symbols WHERE type = 'security-role-extension' AND parent_name = ? AND model = ? LIMIT 1`,
+      ).get(roleName, model ?? '') as { name: string; file_path: string | null } | undefined;
+      const [attachType, attachName, attachPath] = roleHit && model && roleHit.model === model
+        ? ['security-role', roleName, roleHit.file_path]
+        : existingExtension
+          ? ['security-role-extension', existingExtension.name, existingExtension.file_path]
+          : ['security-role-extension', named(roleName, 'security-role-extension'), null];
+      const current = attachPath ? await readIfPresent(attachPath) : undefined;
+      if (attachPath && current === undefined) {
+        roleLine = `  • ${attachType} ${attachName}${why} — exists but its XML is not readable here; add duty ${dutyName} to its <Duties> by hand.`;
+      } else if (current !== undefined) {
+        const updated = addSecurityReference(current, 'Duties', 'AxSecurityDutyReference', dutyName);
+        if (updated === null) {
+          roleLine = `  • ${attachType} ${attachName}${why} — has no <Duties> collection; add duty ${dutyName} by hand.`;
+        } else if (updated === current) {
+          roleLine = `  • ${attachType} ${attachName}${why} — already references duty ${dutyName}.`;
+        } else {
+          roleLine = `  • ${attachType} ${attachName}${why} — + duty ${dutyName} (the existing file, rewritten)`;
+          changes.push({ action: 'create', objectType: attachType, objectName: attachName, overwrite: true, xmlContent: updated });
+          reviews.push({ title: `${attachType === 'security-role' ? 'AxSecurityRole' : 'AxSecurityRoleExtension'}/${attachName}`, xml: updated });
+        }
+      } else {
+        roleLine = `  • role extension ${attachName}${why} — + duty ${dutyName}`;
+        changes.push({ action: 'create', objectType: attachType, objectName: attachName, properties: { duties: [dutyName] } });
+        reviews.push({ title: `AxSecurityRoleExtension/${attachName}`, xml: buildAxSecurityRoleExtensionXml(attachName, { duties: [dutyName] }) });
+      }
+    }
+
+    let output = `Security for form ${form} — entry point${displayItems.length > 1 ? 's' : ''} ${displayItems.join(', ')}` +
+      `${model ? ` (model ${model})` : ''}\n\n`;
+    if (dataSources.length > 0) {
+      output += `Data sources: ${dataSources.map(d => {
+        const can = [d.allow_edit && 'edit', d.allow_create && 'create', d.allow_delete && 'delete'].filter(Boolean);
+        return `${d.datasource_name} (${d.table_name}: ${can.length > 0 ? can.join('/') : 'read-only'})`;
+      }).join(', ')}\n`;
+    }
+    if (items.length > 0) output += `Menu items on the form: ${items.map(i => `${i.name} (${i.kind})`).join(', ')}\n`;
+    output += `\nProposed:\n`;
+    output += `  • privilege ${viewName} — ${grantText(plan.view)}\n`;
+    output += plan.maintain
+      ? `  • privilege ${maintainName} — ${grantText(plan.maintain)}\n`
+      : `  • no Maintain privilege — every data source is read-only and the form runs no action menu item\n`;
+    output += `  • duty ${dutyName} — ${privileges.join(', ')}\n`;
+    output += `${roleLine}\n`;
+    if (notes.length > 0) output += `\n${notes.join('\n')}\n`;
+
+    output += `\nApply as one change set — every file is rolled back if a step fails:\n` +
+      `d365fo_file(action="changeset", ${model ? `modelName="${model}", ` : ''}changes=${JSON.stringify(changes, null, 2)})\n`;
+    output += `\nLabels are @TODO:LabelId placeholders — create them with labels() and set properties.label on each entry.\n`;
+    output += `\nXML for review:\n`;
+    for (const r of reviews) output += `\n### ${r.title}.xml\n\`\`\`xml\n${r.xml}\n\`\`\`\n`;
+
+    return { content: [{ type: 'text', text: output }] };
+  } catch (error) {
+    return err(`Error generating security: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
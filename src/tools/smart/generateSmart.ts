@@ -8,7 +8,8 @@
  * consolidated.
  *
  * The downstream handlers take a plain args object + symbolIndex (+ bridge for
- * table) and return `{ content }`. The dispatcher unwraps the request, forwards
+ * table; the whole context for data-entity, which also parses table XML) and
+ * return `{ content }`. The dispatcher unwraps the request, forwards
  * the rest of the arguments, and re-wraps the response in the standard tool
  * result shape.
  */
@@ -19,8 +20,9 @@ import type { XppServerContext } from '../../types/context.js';
 import { handleGenerateSmartTable } from './generateSmartTable.js';
 import { handleGenerateSmartForm } from './generateSmartForm.js';
 import { handleGenerateSmartReport } from './generateSmartReport.js';
+import { handleGenerateSmartDataEntity } from './generateSmartDataEntity.js';
 
-export const GENERATE_SMART_TYPES = ['table', 'form', 'report'] as const;
+export const GENERATE_SMART_TYPES = ['table', 'form', 'report', 'data-entity'] as const;
 export type GenerateSmartType = (typeof GENERATE_SMART_TYPES)[number];
 
 type SmartHandler = (args: any, context: XppServerContext) => Promise<any>;
@@ -29,13 +31,15 @@ export const GENERATE_SMART_DISPATCH: Record<GenerateSmartType, SmartHandler> =
   table:  (args, ctx) => handleGenerateSmartTable(args, ctx.symbolIndex, ctx.bridge),
   form:   (args, ctx) => handleGenerateSmartForm(args, ctx.symbolIndex),
   report: (args, ctx) => handleGenerateSmartReport(args, ctx.symbolIndex, ctx.bridge),
+  'data-entity': (args, ctx) => handleGenerateSmartDataEntity(args, ctx),
 };
 
 const GenerateSmartArgsSchema = z
   .object({
     objectType: z.enum(GENERATE_SMART_TYPES).describe(
       'Kind of object to generate: table (AxTable + indexes + relations + methods), ' +
-      'form (controls + datasources + pattern), report (TmpTable + Contract + DP + Controller + AxReport).',
+      'form (controls + datasources + pattern), report (TmpTable + Contract + DP + Controller + AxReport), ' +
+      'data-entity (AxDataEntityView from an existing table + optional staging table and privileges).',
     ),
   })
   .passthrough();
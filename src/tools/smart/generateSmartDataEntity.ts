@@ -0,0 +1,429 @@
+/**
+ * Data entity scaffold — `generate_object(mode="scaffold", objectType="data-entity")`.
+ *
+ * Builds an AxDataEntityView from an existing table instead of a hand-picked
+ * field list:
+ *  - every table field is mapped, except RecId and the other fields the
+ *    platform adds to every table (SYSTEM_FIELDS);
+ *  - the entity key is the table's natural key — its primary index when that
+ *    is an alternate key and not RecId, else its first alternate key — or params.keyFields;
+ *  - a RecId foreign key (a table_relations constraint whose related field is
+ *    RecId) is replaced by the natural key of the referenced table, joined as
+ *    an outer-joined data source: the entity wizard's surrogate key expansion.
+ *    A key field that is such a foreign key is replaced the same way;
+ *  - params.staging adds the DMF staging table (DefinitionGroup, ExecutionId,
+ *    IsSelected, TransferStatus and the entity fields) and turns data
+ *    management on; params.privileges adds the View/Maintain privileges on the
+ *    entity.
+ *
+ * Tables are read from the bridge, else from the table's XML on disk, else
+ * from the symbol index — which carries no index metadata, so a key then needs
+ * params.keyFields. Relations come from table_relations, else from the table
+ * read.
+ *
+ * Output is text — the XML of every object for review, and one
+ * d365fo_file(action="changeset") call that writes them as a unit.
+ */
+
+import * as fs from 'fs';
+import { z } from 'zod';
+import type { XppServerContext } from '../../types/context.js';
+import { ENTITY_CATEGORIES } from '../../utils/axEnumProperties.js';
+import { getConfigManager } from '../../utils/configManager.js';
+import { normalizeObjectName } from '../../utils/objectNaming.js';
+import { SmartXmlBuilder, type TableFieldSpec } from '../../utils/smartXmlBuilder.js';
+import { lookupSymbolNocase, type DbLike } from '../../utils/symbolLookup.js';
+import { buildAxDataEntityXml, type JoinedDataSourceSpec } from '../xml/dataEntityXml.js';
+import { buildAxSecurityPrivilegeXml } from '../xml/securityPrivilegeXml.js';
+
+const DataEntityScaffoldArgsSchema = z.object({
+  fromTable: z.string().describe('The table the entity is built on.'),
+  name: z.string().optional().describe('Entity name (default: <fromTable>Entity).'),
+  label: z.string().optional(),
+  entityCategory: z.enum(ENTITY_CATEGORIES).optional(),
+  keyFields: z.array(z.string()).optional().describe('Table fields of the entity key, overriding index detection.'),
+  staging: z.boolean().optional().describe('Also emit the DMF staging table.'),
+  privileges: z.boolean().optional().describe('Also emit the View/Maintain privileges on the entity.'),
+  modelName: z.string().optional(),
+});
+
+/** Fields the platform adds to every table, lower-cased — never mapped onto an entity. */
+export const SYSTEM_FIELDS = new Set([
+  'recid', 'recversion', 'tableid', 'partition', 'dataareaid', 'instancerelationtype',
+  'createdby', 'createddatetime', 'createdtransactionid',
+  'modifiedby', 'modifieddatetime', 'modifiedtransactionid',
+]);
+
+const isSystemField = (field: string) => SYSTEM_FIELDS.has(field.toLowerCase());
+
+/** The table as the scaffold needs it, whichever source it came from. */
+export interface EntityTableShape {
+  name: string;
+  label?: string;
+  tableGroup?: string;
+  primaryIndex?: string;
+  fields: TableFieldSpec[];
+  /**
+   * [] when the source carries no index metadata (the symbol index). `unique`
+   * is the index's AlternateKey flag, from the bridge and the XML alike.
+   */
+  indexes: Array<{ name: string; unique: boolean; fields: string[] }>;
+  relations: Array<{ name: string; targetTable: string; constraints: Array<{ field?: string; relatedField?: string }> }>;
+  source: 'bridge' | 'xml' | 'index';
+}
+
+/**
+ * The table's natural key: the primary index when it is an alternate key, else
+ * the first alternate key — skipping any that contains a system field (the
+ * RecId index of a surrogate-key table). [] when none is known.
+ */
+export function naturalKey(table: EntityTableShape): string[] {
+  const usable = (i: { unique: boolean; fields: string[] }) =>
+    i.unique && i.fields.length > 0 && !i.fields.some(isSystemField);
+  const primary = table.primaryIndex
+    ? table.indexes.find(i => i.name.toLowerCase() === table.primaryIndex!.toLowerCase() && usable(i))
+    : undefined;
+  return (primary ?? table.indexes.find(usable))?.fields ?? [];
+}
+
+/** Entity category from the table group — Master unless the group says otherwise. */
+export function entityCategoryFor(tableGroup?: string): (typeof ENTITY_CATEGORIES)[number] {
+  switch ((tableGroup ?? '').toLowerCase()) {
+    case 'parameter':
+      return 'Parameters';
+    case 'group':
+    case 'reference':
+      return 'Reference';
+    case 'transaction':
+    case 'transactionheader':
+    case 'transactionline':
+    case 'worksheetheader':
+    case 'worksheetline':
+      return 'Transaction';
+    default:
+      return 'Master';
+  }
+}
+
+export interface EntityFieldPlan {
+  name: string;
+  dataField: string;
+  /** The joined data source the field is read from; absent for the root table. */
+  dataSource?: string;
+  /** Field spec for the staging table. */
+  spec: TableFieldSpec;
+}
+
+export interface SurrogateKeyExpansion {
+  /** The RecId foreign key on the root table. */
+  field: string;
+  relation: string;
+  table: string;
+  /** Entity fields that replace it, one per natural key field of the referenced table. */
+  keyFields: string[];
+}
+
+export interface DataEntityPlan {
+  fields: EntityFieldPlan[];
+  /** Entity field names of the entity key; [] when no key could be determined. */
+  key: string[];
+  joins: JoinedDataSourceSpec[];
+  expansions: SurrogateKeyExpansion[];
+  /** RecId foreign keys kept as they are — the referenced table has no known natural key. */
+  unexpanded: Array<{ field: string; table: string }>;
+  /** System fields left out. */
+  excluded: string[];
+}
+
+/** `CustTableRecId` → `CustTable`; a name that is nothing but the suffix stays. */
+const baseOfRecIdField = (field: string) => field.replace(/(Ref)?RecId$/i, '') || field;
+
+/**
+ * The entity for `table`: its fields minus the system ones, with every RecId
+ * foreign key whose referenced table has a natural key replaced by that key.
+ * `referenced` holds the tables those foreign keys point at, by name.
+ */
+export function planDataEntity(
+  table: EntityTableShape,
+  referenced: ReadonlyMap<string, EntityTableShape | undefined>,
+  keyOverride?: readonly string[],
+): DataEntityPlan {
+  const excluded = table.fields.filter(f => isSystemField(f.name)).map(f => f.name);
+  const fields: EntityFieldPlan[] = table.fields
+    .filter(f => !isSystemField(f.name))
+    .map(f => ({ name: f.name, dataField: f.name, spec: f }));
+  const taken = new Set(fields.map(f => f.name.toLowerCase()));
+
+  const joins: JoinedDataSourceSpec[] = [];
+  const expansions: SurrogateKeyExpansion[] = [];
+  const unexpanded: Array<{ field: string; table: string }> = [];
+  const replaced = new Map<string, string[]>();
+  for (const rel of table.relations) {
+    const fk = rel.constraints.find(c => c.field && c.relatedField?.toLowerCase() === 'recid')?.field;
+    if (!fk || !taken.has(fk.toLowerCase()) || replaced.has(fk.toLowerCase()) || unexpanded.some(u => u.field === fk)) continue;
+    const target = referenced.get(rel.targetTable);
+    const key = target ? naturalKey(target) : [];
+    if (key.length === 0) {
+      unexpanded.push({ field: fk, table: rel.targetTable });
+      continue;
+    }
+    let dataSource = baseOfRecIdField(fk);
+    if (dataSource.toLowerCase() === table.name.toLowerCase() || joins.some(j => j.name === dataSource)) {
+      dataSource = rel.name;
+    }
+    const keyFields: string[] = [];
+    for (const field of key) {
+      let entityField = `${baseOfRecIdField(fk)}${field}`;
+      if (taken.has(entityField.toLowerCase())) entityField = `${rel.name}${field}`;
+      taken.add(entityField.toLowerCase());
+      const spec = target!.fields.find(f => f.name.toLowerCase() === field.toLowerCase()) ?? { name: field };
+      fields.push({ name: entityField, dataField: field, dataSource, spec: { ...spec, name: entityField } });
+      keyFields.push(entityField);
+    }
+    joins.push({ name: dataSource, table: rel.targetTable, relations: [{ name: rel.name, field: fk, relatedField: 'RecId' }] });
+    expansions.push({ field: fk, relation: rel.name, table: rel.targetTable, keyFields });
+    replaced.set(fk.toLowerCase(), keyFields);
+  }
+
+  // The expanded foreign keys are reached through their joins, not mapped.
+  const mapped = fields.filter(f => f.dataSource || !replaced.has(f.name.toLowerCase()));
+  const tableKey = keyOverride && keyOverride.length > 0 ? [...keyOverride] : naturalKey(table);
+  const resolved = tableKey.map(field => replaced.get(field.toLowerCase())
+    ?? mapped.filter(f => !f.dataSource && f.name.toLowerCase() === field.toLowerCase()).map(f => f.name));
+  return {
+    fields: mapped,
+    // A key field that is not mapped (a system field, a typo) leaves no key at all.
+    key: resolved.every(k => k.length > 0) ? resolved.flat() : [],
+    joins,
+    expansions,
+    unexpanded,
+    excluded,
+  };
+}
+
+/**
+ * DMF staging table fields ahead of the entity's: the execution the row
+ * belongs to, whether it is selected, and how far it got into the target.
+ */
+const STAGING_FIELDS: TableFieldSpec[] = [
+  { name: 'DefinitionGroup', edt: 'DMFDefinitionGroupName', mandatory: true },
+  { name: 'ExecutionId', edt: 'DMFExecutionId', mandatory: true },
+  { name: 'IsSelected', enumType: 'NoYes' },
+  { name: 'TransferStatus', enumType: 'DMFTransferStatus' },
+];
+
+export function buildStagingTableXml(name: string, plan: DataEntityPlan, label?: string): string {
+  const fields = [...STAGING_FIELDS, ...plan.fields.map(f => f.spec)];
+  return new SmartXmlBuilder().buildTableXml({
+    name,
+    label,
+    tableGroup: 'Main',
+    fields,
+    indexes: [{ name: 'StagingIdx', fields: ['DefinitionGroup', 'ExecutionId', ...plan.key], unique: true, clustered: true }],
+  });
+}
+
+async function readXmlTable(context: XppServerContext, filePath: string | null | undefined): Promise<EntityTableShape | undefined> {
+  if (!filePath?.toLowerCase().endsWith('.xml') || !fs.existsSync(filePath)) return undefined;
+  const parsed = await context.parser.parseTableFile(filePath);
+  if (!parsed.success || !parsed.data) return undefined;
+  const t = parsed.data;
+  return {
+    name: t.name,
+    label: t.label !== t.name ? t.label : undefined,
+    tableGroup: t.tableGroup,
+    primaryIndex: t.primaryIndex,
+    fields: t.fields.map(f => ({ name: f.name, edt: f.extendedDataType, enumType: f.enumType, type: f.type })),
+    indexes: t.indexes.map(i => ({ name: i.name, unique: i.unique, fields: i.fields })),
+    relations: t.relations.map(r => ({ name: r.name, targetTable: r.relatedTable, constraints: r.constraints })),
+    source: 'xml',
+  };
+}
+
+/** The table from the bridge, its XML on disk, or the symbol index — in that order. */
+export async function readEntityTable(
+  context: XppServerContext,
+  db: DbLike,
+  name: string,
+): Promise<EntityTableShape | undefined> {
+  let table: EntityTableShape | undefined;
+  const bridge = context.bridge;
+  if (bridge?.isReady && bridge.metadataAvailable) {
+    try {
+      const t = await bridge.readTable(name);
+      if (t) {
+        table = {
+          name: t.name,
+          label: t.label,
+          tableGroup: t.tableGroup,
+          primaryIndex: t.primaryIndex,
+          fields: t.fields.map(f => ({ name: f.name, edt: f.extendedDataType, enumType: f.enumType, type: f.fieldType })),
+          // The key is the alternate key, as on the XML path — a non-duplicate
+          // index alone does not make one.
+          indexes: t.indexes.map(i => ({
+            name: i.name,
+            unique: i.alternateKey === true,
+            fields: i.fields.filter(f => !f.includedColumn).map(f => f.dataField),
+          })),
+          relations: t.relations.map(r => ({ name: r.name, targetTable: r.relatedTable, constraints: r.constraints })),
+          source: 'bridge',
+        };
+      }
+    } catch {
+      /* fall through to the XML and the symbol index */
+    }
+  }
+  const hit = lookupSymbolNocase(db, name, ['table']);
+  if (!table) table = await readXmlTable(context, hit?.file_path);
+  if (!table && hit) {
+    const rows = db.prepare(
+      `SELECT name, signature FROM symbols WHERE type = 'field' AND parent_name = ? ORDER BY id`,
+    ).all(hit.name) as Array<{ name: string; signature: string | null }>;
+    if (rows.length > 0) {
+      table = {
+        name: hit.name,
+        fields: rows.map(r => ({ name: r.name, edt: r.signature || undefined })),
+        indexes: [],
+        relations: [],
+        source: 'index',
+      };
+    }
+  }
+  if (!table) return undefined;
+
+  try {
+    const indexed = db.prepare(
+      `SELECT relation_name, target_table, constraint_fields FROM table_relations WHERE source_table = ?`,
+    ).all(table.name) as Array<{ relation_name: string; target_table: string; constraint_fields: string | null }>;
+    if (indexed.length > 0) {
+      table.relations = indexed.map(r => {
+        let constraints: Array<{ field?: string; relatedField?: string }> = [];
+        try {
+          constraints = JSON.parse(r.constraint_fields ?? '[]');
+        } catch { /* unparseable row — no constraint to follow */ }
+        return { name: r.relation_name, targetTable: r.target_table, constraints };
+      });
+    }
+  } catch {
+    // A database without table_relations keeps the relations of the table read.
+  }
+  return table;
+}
+
+function err(text: string) {
+  return { content: [{ type: 'text' as const, text }], isError: true };
+}
+
+const SOURCE_TEXT: Record<EntityTableShape['source'], string> = {
+  bridge: 'the bridge',
+  xml: 'its XML',
+  index: 'the symbol index (no index metadata)',
+};
+
+export async function handleGenerateSmartDataEntity(args: Record<string, unknown>, context: XppServerContext) {
+  try {
+    const parsed = DataEntityScaffoldArgsSchema.safeParse(args);
+    if (!parsed.success) {
+      return err(`❌ generate_object(scaffold:data-entity): invalid arguments — ${parsed.error.message}`);
+    }
+    const a = parsed.data;
+    const db = context.symbolIndex.getReadDb() as DbLike;
+    const configManager = getConfigManager();
+    const model = a.modelName
+      || configManager.getModelName()
+      || (await configManager.getAutoDetectedModelName())
+      || process.env.D365FO_MODEL_NAME
+      || undefined;
+
+    const table = await readEntityTable(context, db, a.fromTable);
+    if (!table) {
+      return err(`generate_object(scaffold:data-entity): table "${a.fromTable}" not found via the bridge, on disk or in the symbol index. Run update_symbol_index on it first if it was just created.`);
+    }
+    const referenced = new Map<string, EntityTableShape | undefined>();
+    for (const rel of table.relations) {
+      if (!referenced.has(rel.targetTable) && rel.constraints.some(c => c.relatedField?.toLowerCase() === 'recid')) {
+        referenced.set(rel.targetTable, await readEntityTable(context, db, rel.targetTable));
+      }
+    }
+
+    const plan = planDataEntity(table, referenced, a.keyFields);
+    if (plan.fields.length === 0) {
+      return err(`generate_object(scaffold:data-entity): table ${table.name} has no fields beyond the system ones — nothing to map.`);
+    }
+    if (plan.key.length === 0) {
+      const why = a.keyFields?.length
+        ? `keyFields ${a.keyFields.join(', ')} are not all mapped fields of ${table.name}`
+        : table.indexes.length === 0
+          ? `${table.name} was read from ${SOURCE_TEXT[table.source]}, so its indexes are unknown`
+          : `${table.name} has no alternate key other than RecId`;
+      return err(`generate_object(scaffold:data-entity): no entity key — ${why}. Pass params.keyFields with the table fields that identify a record.`);
+    }
+
+    const named = (name: string, objectType: string) => normalizeObjectName(name, objectType, model);
+    const entityName = named(a.name ?? `${table.name}Entity`, 'data-entity');
+    if (entityName.toLowerCase() === table.name.toLowerCase()) {
+      return err(`generate_object(scaffold:data-entity): entity name ${entityName} is the name of the table — AOT element names are unique across types. Pass another params.name.`);
+    }
+    const stagingName = a.staging ? named(`${entityName}Staging`, 'table') : undefined;
+    const label = a.label ?? table.label;
+    const entityCategory = a.entityCategory ?? entityCategoryFor(table.tableGroup);
+
+    const entityXml = buildAxDataEntityXml(entityName, {
+      primaryTable: table.name,
+      fields: plan.fields.map(f => ({ name: f.name, dataField: f.dataField, dataSource: f.dataSource })),
+      primaryKeyFields: plan.key,
+      entityCategory,
+      label,
+      standardStructure: true,
+      joinedDataSources: plan.joins,
+      ...(stagingName ? { dataManagementEnabled: true, dataManagementStagingTable: stagingName } : {}),
+    });
+    const reviews: Array<{ title: string; objectType: string; name: string; xml: string }> = [
+      { title: `AxDataEntityView/${entityName}`, objectType: 'data-entity', name: entityName, xml: entityXml },
+    ];
+    if (stagingName) {
+      reviews.push({ title: `AxTable/${stagingName}`, objectType: 'table', name: stagingName, xml: buildStagingTableXml(stagingName, plan, label) });
+    }
+    if (a.privileges) {
+      for (const [suffix, accessLevel] of [['View', 'view'], ['Maintain', 'maintain']] as const) {
+        const privilege = named(`${entityName}${suffix}`, 'security-privilege');
+        reviews.push({
+          title: `AxSecurityPrivilege/${privilege}`,
+          objectType: 'security-privilege',
+          name: privilege,
+          xml: buildAxSecurityPrivilegeXml(privilege, { dataEntity: entityName, accessLevel }),
+        });
+      }
+    }
+
+    let output = `Data entity ${entityName} on table ${table.name} (read from ${SOURCE_TEXT[table.source]})` +
+      `${model ? `, model ${model}` : ''}\n\n`;
+    output += `Category: ${entityCategory}\n`;
+    output += `Key: ${plan.key.join(', ')}\n`;
+    output += `Fields (${plan.fields.length}): ${plan.fields.map(f => f.dataSource ? `${f.name} (${f.dataSource}.${f.dataField})` : f.name).join(', ')}\n`;
+    if (plan.excluded.length > 0) output += `Left out (system fields): ${plan.excluded.join(', ')}\n`;
+    if (plan.expansions.length > 0) {
+      output += `Natural keys for RecId foreign keys:\n`;
+      for (const e of plan.expansions) {
+        output += `  • ${e.field} → ${e.table} (relation ${e.relation}) — mapped as ${e.keyFields.join(', ')}\n`;
+      }
+    }
+    const notes: string[] = [];
+    for (const u of plan.unexpanded) {
+      notes.push(`⚠️ ${u.field} refers to ${u.table} by RecId, and no natural key of ${u.table} is known — mapped as the RecId. Expand it by hand if ${u.table} has an alternate key.`);
+    }
+    if (stagingName) notes.push(`Staging table ${stagingName} mirrors the entity fields; regenerate it when the entity fields change.`);
+    if (notes.length > 0) output += `\n${notes.join('\n')}\n`;
+
+    const changes = reviews.map(r => ({ action: 'create', objectType: r.objectType, objectName: r.name, xmlContent: r.xml }));
+    output += `\nApply as one change set — every file is rolled back if a step fails:\n` +
+      `d365fo_file(action="changeset", ${model ? `modelName="${model}", ` : ''}changes=${JSON.stringify(changes, null, 2)})\n`;
+    if (!label) output += `\nThe entity label is its name — create a label with labels() and set it.\n`;
+    output += `\nXML for review:\n`;
+    for (const r of reviews) output += `\n### ${r.title}.xml\n\`\`\`xml\n${r.xml}\n\`\`\`\n`;
+
+    return { content: [{ type: 'text', text: output }] };
+  } catch (error) {
+    return err(`Error generating data entity: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
@@ -690,7 +690,8 @@ export const D365FO_FILE_CREATE_PROPERTY_SPECS: Record<string, string> = {
   'security-privilege':
     'label, targetObject, objectType (MenuItemDisplay|MenuItemAction|MenuItemOutput|ServiceOperation), ' +
     'accessLevel (view|read = Read only, maintain = full CRUD — nothing else is accepted; "full"/"edit" ' +
-    'used to degrade silently to Read-only), dataEntity (grants perms)',
+    'used to degrade silently to Read-only), dataEntity (grants perms), entryPoints[{objectName, objectType?, ' +
+    'grant[Read|Update|Create|Correct|Delete|Invoke]}] (several entry points, each its own grant)',
   'security-duty': 'label, privileges[]',
   'security-role': 'label, duties[], privileges[]',
   'menu-item-display': 'label, object, objectType',
@@ -759,6 +760,8 @@ export const D365FO_FILE_CORE_PARAMS: ReadonlySet<string> = new Set([
   // "peerOperations: IGNORED (not a recognised d365fo_file parameter)" — the
   // exact false warning the batch flow exists to stop producing.
   'peerOperations',
+  // dryRun and bpCheck are documented with the resolution overrides (opSpecs.ts).
+  'dryRun', 'bpCheck',
 ]);
 
 /**
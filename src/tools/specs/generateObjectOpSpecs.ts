@@ -22,7 +22,7 @@ export const GENERATE_OBJECT_PARAM_SPECS: Record<string, { type: string; descrip
     description:
       'REQUIRED. [pattern] element name (extensions: base element; form-datasource/control-extension: ' +
       'the FORM name). [scaffold] object name WITHOUT model prefix. [find-methods|relation-xpp|fields|' +
-      'table-relation] the existing table name.',
+      'table-relation] the existing table name. [security] the form, or a display menu item opening it.',
   },
   modelName: {
     type: 'string',
@@ -57,7 +57,7 @@ export const GENERATE_OBJECT_PARAM_SPECS: Record<string, { type: string; descrip
     description: 'sysoperation: service method the Controller calls (default "process").',
   },
   // mode=scaffold
-  objectType: { type: 'string (table | form | report)', description: 'REQUIRED. Kind of object to generate.' },
+  objectType: { type: 'string (table | form | report | data-entity)', description: 'REQUIRED. Kind of object to generate.' },
   label: { type: 'string', description: 'Optional label for the generated object.' },
   caption: {
     type: 'string',
@@ -131,6 +131,13 @@ export const GENERATE_OBJECT_PARAM_SPECS: Record<string, { type: string; descrip
       'Comma-separated field names; EDTs auto-suggested from the index. ⚠️ EDTs/enums created this session ' +
       'are not yet indexed — call update_symbol_index first, else those fields default to String255.',
   },
+  fromTable: { type: 'string', description: '[scaffold:data-entity] The existing table the entity is built on.' },
+  entityCategory: {
+    type: 'string',
+    description: 'Master | Configuration | Transaction | Reference | Document | Parameters (default: from the TableGroup).',
+  },
+  staging: { type: 'boolean', description: 'Also emit the DMF staging table and enable data management.' },
+  privileges: { type: 'boolean', description: 'Also emit <Entity>View and <Entity>Maintain privileges on the entity.' },
   // mode=find-methods
   keyFields: {
     type: 'array of string',
@@ -141,6 +148,13 @@ export const GENERATE_OBJECT_PARAM_SPECS: Record<string, { type: string; descrip
   // mode=relation-xpp
   relationName: { type: 'string', description: 'One relation to convert. Omit = all relations.' },
   style: { type: 'string (select | query | both)', description: 'select | query | both (default).' },
+  // mode=security
+  role: {
+    type: 'string',
+    description:
+      'Role the duty is attached to — through a role extension, or the role itself when it is in this model. ' +
+      'Omitted = the role that already reaches the most other forms over the same tables.',
+  },
   // mode=fields
   fieldGroup: {
     type: 'string',
@@ -174,7 +188,7 @@ export const GENERATE_OBJECT_MODE_SPECS: Record<string, GenerateObjectModeSpec>
     optional: ['modelName', 'projectPath', 'solutionPath', 'copyFrom'],
     note:
       'objectType selects the scaffold; ask for the one you need — topic="scaffold:table", ' +
-      '"scaffold:form" or "scaffold:report".',
+      '"scaffold:form", "scaffold:report" or "scaffold:data-entity".',
   },
   'scaffold:table': {
     required: ['name'],
@@ -199,6 +213,14 @@ export const GENERATE_OBJECT_MODE_SPECS: Record<string, GenerateObjectModeSpec>
       'generateController', 'designStyle', 'copyFrom', 'modelName', 'projectPath', 'solutionPath',
     ],
   },
+  'scaffold:data-entity': {
+    required: ['fromTable'],
+    optional: ['name', 'label', 'entityCategory', 'keyFields', 'staging', 'privileges', 'modelName'],
+    note:
+      'Text only, no write. Maps every field but RecId and the other system fields; the key is the primary ' +
+      'or first alternate-key index; a RecId foreign key is replaced by the referenced table\'s natural key ' +
+      'through a joined data source. Returns the XML and one d365fo_file(action="changeset") call.',
+  },
   'find-methods': {
     required: ['name'],
     optional: ['keyFields', 'includeExists', 'includeFindRecId'],
@@ -219,6 +241,15 @@ export const GENERATE_OBJECT_MODE_SPECS: Record<string, GenerateObjectModeSpec>
     optional: ['fields'],
     note: 'name = the existing table. fields omitted = scan every EDT-referencing field.',
   },
+  security: {
+    required: ['name'],
+    optional: ['role', 'modelName'],
+    note:
+      'Text only, no write. View = Read on the display menu item(s) and the form\'s output menu items; ' +
+      'Maintain = Read plus the Update/Create/Delete the form\'s data sources allow, and the form\'s action ' +
+      'menu items — left out for a read-only form without actions. Returns the XML and one ' +
+      'd365fo_file(action="changeset") call that writes privileges, duty and role extension as a unit.',
+  },
 };
 
 /** Required params for a mode ([] for unknown modes). */
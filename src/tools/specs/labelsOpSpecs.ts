@@ -24,9 +24,9 @@
  *  rather than to it (the payload had 124 chars of headroom). */
 export const LABELS_OVERRIDE_PARAMS: Record<string, string> = {
   packageName:
-    '[create|rename] Package name for the model. Auto-resolved if omitted.',
+    '[create|rename|gaps|audit] Package name for the model. Auto-resolved if omitted.',
   packagePath:
-    '[create|rename] Root packages path. Auto-detected from environment config if omitted.',
+    '[create|rename|gaps|audit|extract] Root packages path. Auto-detected from environment config if omitted.',
   projectPath:
     '[create] Path to the .rnrproj project file. Auto-detected from .mcp.json if omitted.',
   solutionPath:
@@ -47,7 +47,9 @@ export const LABELS_OVERRIDE_PARAMS: Record<string, string> = {
     'false = append at end).',
   languages:
     '[create] string[] — restrict which language .label.txt files are written (e.g. ["en-US"]). ' +
-    'Omitted = every language folder present in the model.',
+    'Omitted = every language folder present in the model. [gaps] the target languages compared.',
+  sourceLanguage:
+    '[gaps] Language every other .label.txt is compared against (default en-US).',
   defaultComment:
     '[create] Developer comment for languages without an explicit comment.',
   description:
@@ -66,13 +68,14 @@ export const LABELS_OVERRIDE_PARAMS: Record<string, string> = {
 /** The contract rendered for get_knowledge(kind="op-spec", topic="labels"). */
 export function renderLabelsOpSpec(): string {
   return [
-    'labels — write plumbing (action=create / action=rename)',
+    'labels — write plumbing (action=create / action=rename / action=gaps / action=audit / action=extract)',
     '',
     'These are accepted flat or nested in `params`; all are optional and',
     'auto-resolved when omitted, which is why they are not in the wire schema.',
     'The published schema already carries everything a normal call needs:',
     'action, labelId, labelFileId, model, translations[], labels[], query,',
-    'language, maxResults, verbose, oldLabelId, newLabelId, dryRun.',
+    'language, maxResults, verbose, oldLabelId, newLabelId, dryRun, format,',
+    'outputPath, xliff, objectType, objectName.',
     '',
     ...Object.entries(LABELS_OVERRIDE_PARAMS).map(([k, v]) => `  ${k}: ${v}`),
   ].join('\n');
@@ -57,6 +57,20 @@ const TOPIC_REDIRECTS: Record<string, string> = {
   delete: 'delete',
   'delete-object': 'delete',
   'remove-object': 'delete',
+  changeset: 'changeset',
+  'change-set': 'changeset',
+  changes: 'changeset',
+  merge: 'merge',
+  'merge-conflict': 'merge',
+  conflict: 'merge',
+  rename: 'rename',
+  'rename-object': 'rename',
+  'rename-class': 'rename',
+  'rename-table': 'rename',
+  move: 'move',
+  'move-object': 'move',
+  'move-to-model': 'move',
+  'split-model': 'move',
   naming: 'naming',
   prefix: 'naming',
   'object-naming': 'naming',
@@ -96,6 +110,99 @@ const REDIRECT_ANSWERS: Record<string, string> = {
     '  get_knowledge(kind="op-spec", topic="remove-control")',
     '  get_knowledge(kind="op-spec", topic="remove-entry-point")',
   ].join('\n'),
+  changeset: [
+    'd365fo_file(action="changeset", changes=[…]) — one feature\'s writes across objects, all or nothing.',
+    '',
+    'Each entry is one create, modify or label, with the parameters that call would take:',
+    '  { action: "create", objectType, objectName, properties?, sourceCode?, xmlContent?, groundingToken? }',
+    '  { action: "modify", objectType, objectName, operation, params? }',
+    '  { action: "modify", objectType, objectName, operations: [{ operation, … }, …] }',
+    '  { action: "label", labelId, labelFileId, translations: [{ language, text }] }   (labels create contract)',
+    'Top-level modelName/packagePath/projectPath are shared; an entry overrides them. Max 20 entries.',
+    '',
+    'Before anything is written, every step runs the gates its own call would: grounding for',
+    '*-extension objects, the reference gate over the X++ it carries, and the form-pattern and',
+    'form-extension shape gates over a supplied xmlContent. One refusal refuses the whole set.',
+    '',
+    'The steps then run in order through the ordinary create/modify path. When one fails — the',
+    'write itself, its inline on-disk verification, or its symbol-index upsert — every file the set',
+    'wrote (object XML, label files, the .rnrproj) is restored and the index re-synced, so nothing',
+    'from the set stays applied. Order entries so a later one can rely on an earlier one: the table',
+    'extension before the form extension that binds its field, a label before the code using it.',
+  ].join('\n'),
+  merge: [
+    'd365fo_file(action="merge") — three-way merge of an AOT XML file git could not merge by line.',
+    '',
+    'Merges by element: fields, indexes, field groups, relations, methods, data sources and',
+    'controls by name; properties and X++ bodies by value, taking the side that changed. New',
+    'AxTable root elements go by the canonical element order. X++ differing only in whitespace',
+    'and regenerated identifiers (GUIDs, FormExtensionControl… names) never conflict.',
+    '',
+    '  optional filePath (string): a file git left conflicted — base, ours and theirs are read from',
+    '      the index stages and the result is written back to it. Run `git add` afterwards.',
+    '  optional oursPath, theirsPath (string): explicit versions instead; basePath (string) too,',
+    '      unless both branches added the file. Written to outputPath, else oursPath.',
+    '  optional prefer ("ours"|"theirs"): the side a conflict resolves to.',
+    '  optional modelName, packagePath (string): for the path containment check.',
+    '',
+    'A conflict is the same element changed differently on both sides, added differently on both,',
+    'or changed on one and removed on the other. Without prefer, any conflict means nothing is',
+    'written: each comes back with its path, kind, name, reason and the three values, as text and',
+    'as JSON. Ask the user which side wins, then re-run with prefer.',
+    '',
+    'From a shell or as a git merge driver: d365fo-mcp merge <base> <ours> <theirs>.',
+  ].join('\n'),
+  rename: [
+    'd365fo_file(action="rename") — rename a class, table, EDT or enum and every reference to it.',
+    '',
+    '  REQUIRED objectType ("class"|"table"|"edt"|"enum").',
+    '  REQUIRED objectName (string): the current name.',
+    '  REQUIRED newName (string): the new name, an X++ identifier — prefix included, nothing is added.',
+    '  optional dryRun (boolean): list every file the rename would touch and write nothing. Run it first',
+    '      and show the list to the user.',
+    '  optional modelName, filePath, packagePath (string): how the object is found, as for delete.',
+    '  optional projectPath (string): a .rnrproj whose includes are renamed too (the active one otherwise).',
+    '',
+    'Rewritten, across every file of the owning model plus other custom models that reference it:',
+    '  • X++ that names the type — declarations, Old::find(), tableStr(Old), extends Old;',
+    '  • metadata that names it — data source <Table>, <RelatedTable>, <ExtendedDataType>, <EnumType>,',
+    '    an EDT\'s <Extends>, a class menu item\'s <Object>, a privilege\'s table permission;',
+    '  • objects named after it — Old.PrefixExtension, and a CoC class Old_Extension whose',
+    '    [ExtensionOf(classStr/tableStr(Old))] names it — files renamed as well;',
+    '  • the <Content Include> of every renamed file in the model\'s projects.',
+    '',
+    'Refused: an object in a standard model, a newName already taken, and ANY reference from a',
+    'standard model (cross-reference DB, or the symbol index by name without it) — that code cannot',
+    'change and would stop compiling. All files are written as one change set: a failure restores',
+    'them all, and undo_last_modification reverts the rename. Strings, comments and label text are',
+    'not rewritten; build the model afterwards.',
+  ].join('\n'),
+  move: [
+    'd365fo_file(action="move") — move an object from one custom model to another.',
+    '',
+    '  REQUIRED objectType, objectName (string): the object, as for delete.',
+    '  REQUIRED targetModel (string): the custom model it moves to — it must exist already.',
+    '  optional dryRun (boolean): list every file the move would touch and write nothing. Run it first',
+    '      and show the list to the user.',
+    '  optional includeExtensions (boolean, default true): move its extension elements and CoC classes too.',
+    '  optional reprefix (boolean, default true): swap the source model\'s prefix for the target\'s in',
+    '      the names (effective prefix of each model). For a class/table/EDT/enum every reference is',
+    '      renamed as action="rename" does; other types keep their name.',
+    '  optional moveLabels (boolean, default true): copy the labels it uses from the source model\'s',
+    '      label file into the target\'s and re-point @File:Id. The source keeps its copy.',
+    '  optional targetLabelFileId (string): the target label file, when the model has several.',
+    '  optional modelName, filePath, packagePath (string): how the object is found, as for delete.',
+    '  optional projectPath, targetProjectPath (string): the .rnrproj it leaves and joins (the source',
+    '      model\'s projects and the target\'s configured one otherwise).',
+    '',
+    'Descriptors: the target gains the source\'s module references it lacks, plus the source package',
+    'when the object still uses something that stays there. The source gains the target package when',
+    'what stays uses the object — unless that would be circular, which is reported instead.',
+    '',
+    'Both models pass the cross-model write guard. Refused: a standard model at either end, a name',
+    'the target already has. All files are written as one change set, both models are re-indexed,',
+    'and undo_last_modification reverts the move. Build both models afterwards.',
+  ].join('\n'),
   naming: [
     'Naming is not an op-spec — it is resolved per model, so ask the tools that know your model:',
     '',
@@ -149,6 +256,16 @@ const D365FO_FILE_OVERRIDE_PARAMS: Record<string, string> = {
     'instead of spending a round trip on run_bp_check afterwards. Off by default: ' +
     'xppbp needs the compiler and takes seconds, which is the wrong trade for the common case. ' +
     'The write result already carries an on-disk + .rnrproj verification without it.',
+  dryRun:
+    '[modify] true = preview: the operation runs through the same gates and XML writer, the new XML ' +
+    'is computed in memory and the reply is a unified diff — no disk write, no index or bridge update. ' +
+    'bpCheck runs the offline rules on the previewed XML. An operation the C# bridge writes is ' +
+    'previewed as the same change spliced into the XML (the real file may differ in spacing). ' +
+    'Not previewable: modify/rename/remove-field, replace-all-fields, remove-index, *-full-text-index, ' +
+    '*-table-mapping, *-relation, *-field-group, add-field-to-field-group, *-enum-value, add-data-source, ' +
+    'add-field-modification, add-control outside a form-extension, add-field outside a table, ' +
+    'table-extension or data-entity-extension. With operations[] the whole batch is previewed as one ' +
+    'diff. Show it to the user, then re-send without dryRun.',
 };
 
 /** Every topic the lookup answers, grouped for the index listing. */
@@ -179,6 +296,10 @@ export function renderOpSpecIndex(unknownTopic?: string): string {
     `  ${topics.generateModes.join(', ')}`,
     '',
     'd365fo_file(action="delete") — the contract for removing an object (topic="delete").',
+    'd365fo_file(action="changeset") — several objects written all or nothing (topic="changeset").',
+    'd365fo_file(action="merge") — a git-conflicted AOT XML file merged by element (topic="merge").',
+    'd365fo_file(action="rename") — a class/table/EDT/enum renamed with its references (topic="rename").',
+    'd365fo_file(action="move") — an object moved to another custom model (topic="move").',
     '',
     'd365fo_file resolution overrides (any action, nested in `params`):',
     ...Object.entries(D365FO_FILE_OVERRIDE_PARAMS).map(([k, v]) => `  ${k}: ${v}`),
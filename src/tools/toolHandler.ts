@@ -12,6 +12,7 @@ import {
 } from '../bridge/bridgeFailure.js';
 import type { BridgeFailure } from '../bridge/bridgeFailure.js';
 import * as debouncedRefresh from '../bridge/debouncedRefresh.js';
+import { runWithChangeScope } from '../workspace/changeJournal.js';
 import { searchUnifiedTool } from './analysis/searchUnified.js';
 import { getObjectInfoTool } from './readers/getObjectInfo.js';
 import { findReferencesTool } from './analysis/findReferences.js';
@@ -293,7 +294,7 @@ export function registerToolHandler(server: Server, context: XppServerContext):
       const reportProgress = createProgressReporter(server, extra as any);
       await reportProgress(progressMsg, 0);
 
-      return (async () => { switch (toolName) {
+      const dispatch = async () => { switch (toolName) {
       case 'search':
         return searchUnifiedTool(request, context);
       case 'get_object_info':
@@ -362,7 +363,15 @@ export function registerToolHandler(server: Server, context: XppServerContext):
           ],
           isError: true,
         };
-    } })();
+    } };
+      // Every file this call writes becomes one entry of the change journal
+      // (workspace/changeJournal.ts). Undo restores from it and records no change of its own.
+      if (toolName === 'undo_last_modification') return dispatch();
+      return runWithChangeScope({
+        tool: toolName,
+        summary: progressMsg.replace(/^[^\p{L}\p{N}]+/u, ''),
+        fallbackModel: getConfigManager().getModelName(),
+      }, dispatch);
     });
     } catch (err) {
       // Safety net: convert any thrown error into a tool result with isError:true
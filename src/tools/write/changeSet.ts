@@ -0,0 +1,273 @@
+/**
+ * Change Set — several create/modify/label writes across objects, applied as a unit.
+ *
+ * operations[] batches edits to ONE object and stops at the first failure with
+ * the earlier ones left applied, which is right for a field and its field group
+ * and wrong for a feature: a table extension, a form extension, a class
+ * extension, a privilege and their labels that only make sense together. A
+ * change set:
+ *  1. Flattens changes[] into steps — a modify entry may carry its own
+ *     operations[], one step each
+ *  2. Runs every step's gates before anything is written — grounding for
+ *     extensions, the semantic reference gate over the X++ it carries, the
+ *     form-pattern and form-extension shape gates over caller-supplied XML —
+ *     and refuses the whole set when any of them would refuse its step
+ *  3. Applies the steps in order through the ordinary create/modify/label
+ *     handlers, so every per-write guard still applies
+ *  4. Rolls every file back when a step fails, including a write whose inline
+ *     verification or index upsert failed, which alone would only be a warning
+ *
+ * The rollback restores the pre-image of every file the set touched — object
+ * XML, label files, the .rnrproj — from the change journal's captures, then
+ * re-syncs the symbol index the way undo_last_modification does.
+ */
+
+import type { CallToolRequest } from '@modelcontextprotocol/sdk/types.js';
+import * as path from 'path';
+import type { XppServerContext } from '../../types/context.js';
+import { enforceGrounding } from '../../utils/provenanceStore.js';
+import {
+  buildFormExtensionShapeError,
+  validateFormExtensionControlShape,
+} from '../../utils/formExtensionShapeValidator.js';
+import { runChangeSet, type RolledBackFile } from '../../workspace/changeJournal.js';
+import { gateOnFormPatternErrors, isFormPatternEnforceEnabled } from '../analysis/validateFormPattern.js';
+import { cleanupIndexAfterUndo } from '../sdlc/undoLastModification.js';
+import { handleCreateD365File } from './createD365File.js';
+import { createLabelTool } from './createLabel.js';
+import { INDEX_UPSERT_FAILED } from './inlineIndexUpsert.js';
+import { VERIFICATION_FAILED } from './inlineWriteVerification.js';
+import { modifyD365FileTool } from './modifyD365File.js';
+import { gateOnReferenceErrors } from './resolveReferences.js';
+
+/** Ceiling on changes[] — the same as one operations[] batch. */
+const MAX_CHANGES = 20;
+
+/** A write handler's signature, injectable so a change set is testable without a bridge. */
+export type ChangeRunner = (request: CallToolRequest, context: XppServerContext) => Promise<any>;
+
+export interface ChangeSetStep {
+  /** `#2 modify table-extension CustTable.ConExtension (add-field)` */
+  label: string;
+  action: 'create' | 'modify' | 'label';
+  /** Arguments for the step's handler, shared keys and `params` merged in. */
+  args: Record<string, unknown>;
+}
+
+interface StepResult {
+  label: string;
+  ok: boolean;
+  text: string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** An entry with its `params` wrapper unwrapped — nested values win, as in d365fo_file itself. */
+function flatten(entry: Record<string, unknown>): Record<string, unknown> {
+  const { params, ...flat } = entry;
+  return isRecord(params) ? { ...flat, ...params } : flat;
+}
+
+function subRequest(name: string, args: Record<string, unknown>): CallToolRequest {
+  return { method: 'tools/call', params: { name, arguments: args } };
+}
+
+/** Concatenated text of a tool result. */
+function resultText(result: any): string {
+  return (result?.content ?? [])
+    .filter((c: any) => c?.type === 'text' && typeof c.text === 'string')
+    .map((c: any) => c.text)
+    .join('\n')
+    .trim();
+}
+
+function stepLabel(n: number, action: string, args: Record<string, unknown>): string {
+  const name = args.objectName ?? (typeof args.filePath === 'string' ? path.win32.basename(args.filePath, '.xml') : '?');
+  return `#${n} ${action} ${String(args.objectType ?? '?')} ${String(name)}` +
+    (args.operation ? ` (${String(args.operation)})` : '');
+}
+
+/**
+ * changes[] as ordered steps. Top-level keys other than changes (modelName,
+ * packagePath, projectPath, …) are shared and an entry overrides them. Shape
+ * problems come back as text, one per entry, and nothing is planned past them.
+ */
+export function planChangeSet(rest: Record<string, unknown>): { steps: ChangeSetStep[]; problems: string[] } {
+  const { changes, ...shared } = rest;
+  if (!Array.isArray(changes) || changes.length === 0) {
+    return { steps: [], problems: ['changes[] is empty — pass at least one { action: "create"|"modify"|"label", … } entry.'] };
+  }
+  if (changes.length > MAX_CHANGES) {
+    return { steps: [], problems: [`changes[] has ${changes.length} entries, max ${MAX_CHANGES}. Split the feature across change sets.`] };
+  }
+
+  const steps: ChangeSetStep[] = [];
+  const problems: string[] = [];
+  changes.forEach((entry, i) => {
+    const at = `changes[${i}]`;
+    if (!isRecord(entry)) { problems.push(`${at}: not an object — expected { action, objectType, objectName, … }`); return; }
+    const { operations, ...args } = { ...shared, ...flatten(entry) };
+    const action = args.action;
+    if (action === 'label') {
+      if (!args.labelId) { problems.push(`${at}: a label entry needs labelId.`); return; }
+      // labels() names the model `model`; the rest of the set says modelName.
+      steps.push({ label: `#${steps.length + 1} label ${String(args.labelId)}`, action, args: { model: args.modelName, ...args } });
+      return;
+    }
+    if (action !== 'create' && action !== 'modify') {
+      problems.push(`${at}: action must be "create", "modify" or "label" (got ${JSON.stringify(action ?? null)}) — delete and generate do not run in a change set.`);
+      return;
+    }
+    if (!args.objectType) { problems.push(`${at}: objectType is required.`); return; }
+    if (!args.objectName && !(action === 'modify' && args.filePath)) { problems.push(`${at}: objectName is required.`); return; }
+
+    if (action === 'create') {
+      steps.push({ label: stepLabel(steps.length + 1, action, args), action, args });
+      return;
+    }
+    const ops = Array.isArray(operations) ? operations : [undefined];
+    const peerOperations = ops.map(op => (isRecord(op) ? String(op.operation ?? '') : '')).filter(Boolean);
+    ops.forEach((op, j) => {
+      if (op !== undefined && !isRecord(op)) { problems.push(`${at}.operations[${j}]: not an object — expected { operation, … }`); return; }
+      const stepArgs = op ? { ...args, ...flatten(op), ...(peerOperations.length > 1 ? { peerOperations } : {}) } : args;
+      if (!stepArgs.operation) { problems.push(`${at}${op ? `.operations[${j}]` : ''}: modify needs an \`operation\`.`); return; }
+      steps.push({ label: stepLabel(steps.length + 1, action, stepArgs), action, args: stepArgs });
+    });
+  });
+  return { steps, problems };
+}
+
+/**
+ * Every gate a step's own handler would refuse it at, run before the first
+ * write. The handlers run the same gates again when the step is applied; doing
+ * it here first is what keeps a refusal at step 4 from costing three rollbacks.
+ */
+export async function precheckChangeSet(steps: ChangeSetStep[], context: XppServerContext): Promise<StepResult[]> {
+  const refused: StepResult[] = [];
+  for (const { label, action, args } of steps) {
+    if (action === 'label') continue;
+    const objectType = String(args.objectType);
+    const objectName = args.objectName ? String(args.objectName) : undefined;
+    const what = `d365fo_file(action="changeset") ${label}`;
+    const gates: Array<{ isError?: boolean; content: Array<{ type: string; text: string }> } | null> = [
+      objectType.endsWith('-extension')
+        ? enforceGrounding(args.groundingToken as string | undefined, what, objectName)
+        : null,
+      gateOnReferenceErrors(
+        (args.sourceCode ?? args.methodCode ?? args.newCode) as string | undefined,
+        context.symbolIndex,
+        what,
+      ),
+    ];
+    if (action === 'create' && typeof args.xmlContent === 'string') {
+      if (objectType === 'form') gates.push((await gateOnFormPatternErrors(args.xmlContent, what)).blocked);
+      if (objectType === 'form-extension' && isFormPatternEnforceEnabled()) {
+        const problems = validateFormExtensionControlShape(args.xmlContent);
+        if (problems.length > 0) {
+          gates.push({ isError: true, content: [{ type: 'text', text: buildFormExtensionShapeError(objectName ?? '', problems) }] });
+        }
+      }
+    }
+    for (const gate of gates) {
+      if (gate) refused.push({ label, ok: false, text: resultText(gate) });
+    }
+  }
+  return refused;
+}
+
+/** Why an applied step counts as failed, or null. A write that only warned is a failure here. */
+function stepFailure(result: any, text: string): string | null {
+  if (result?.isError) return 'the write failed';
+  if (text.includes(VERIFICATION_FAILED)) return 'inline verification failed';
+  if (text.includes(INDEX_UPSERT_FAILED)) return 'the symbol index upsert failed';
+  return null;
+}
+
+function sections(results: StepResult[]): string {
+  return results.map(r => `\n\n### ${r.ok ? '✅' : '❌'} ${r.label}\n${r.text || '(no output)'}`).join('');
+}
+
+export async function changeSetTool(
+  rest: Record<string, unknown>,
+  context: XppServerContext,
+  runCreate: ChangeRunner = handleCreateD365File,
+  runModify: ChangeRunner = modifyD365FileTool,
+  runLabel: ChangeRunner = createLabelTool,
+): Promise<{ content: Array<{ type: 'text'; text: string }>; isError?: boolean }> {
+  const head = 'd365fo_file(action="changeset")';
+  const { steps, problems } = planChangeSet(rest);
+  if (problems.length > 0) {
+    return {
+      content: [{ type: 'text', text: `❌ ${head} — nothing was written:\n${problems.map(p => `  • ${p}`).join('\n')}` +
+        '\n\nContract: get_knowledge(kind="op-spec", topic="changeset").' }],
+      isError: true,
+    };
+  }
+
+  const refused = await precheckChangeSet(steps, context);
+  if (refused.length > 0) {
+    return {
+      content: [{ type: 'text', text: `❌ ${head} — ${new Set(refused.map(r => r.label)).size} of ${steps.length} ` +
+        `step(s) would be refused; nothing was written.${sections(refused)}` }],
+      isError: true,
+    };
+  }
+
+  const { result: applied, rollback } = await runChangeSet(async () => {
+    const results: StepResult[] = [];
+    for (const step of steps) {
+      let result: any;
+      try {
+        result = await (step.action === 'create'
+          ? runCreate(subRequest('create_d365fo_file', step.args), context)
+          : step.action === 'modify'
+            ? runModify(subRequest('modify_d365fo_file', step.args), context)
+            : runLabel(subRequest('create_label', step.args), context));
+      } catch (e: any) {
+        result = { content: [{ type: 'text', text: `❌ ${e?.message ?? e}` }], isError: true };
+      }
+      const text = resultText(result);
+      const reason = stepFailure(result, text);
+      results.push({ label: step.label, ok: !reason, text });
+      if (reason) return { results, reason };
+    }
+    return { results, reason: null };
+  });
+
+  const { results, reason } = applied;
+  if (!reason) {
+    const objects = new Set(steps.filter(s => s.action !== 'label')
+      .map(s => `${String(s.args.objectType)}/${String(s.args.objectName ?? s.args.filePath)}`));
+    return {
+      content: [{ type: 'text', text: `✅ ${head} — ${steps.length} step(s) applied across ${objects.size} object(s).${sections(results)}` }],
+    };
+  }
+
+  const failed = results[results.length - 1];
+  let restored: RolledBackFile[] = [];
+  let rollbackError = '';
+  try {
+    restored = await rollback();
+    for (const file of restored) {
+      if (!file.path.toLowerCase().endsWith('.rnrproj')) await cleanupIndexAfterUndo(context, file.path, file.action);
+    }
+  } catch (e: any) {
+    rollbackError = `\n\n⚠️ The rollback did not finish: ${e?.message ?? e}. ` +
+      'Check the files above with undo_last_modification(history=true) before retrying.';
+  }
+  const files = restored.map(f => `${path.basename(f.path)} (${f.action === 'deleted' ? 'deleted' : 'restored'})`);
+  return {
+    content: [{
+      type: 'text',
+      text: `❌ ${head} — ${failed.label} failed (${reason}); ` +
+        `${rollbackError ? 'rollback incomplete' : `rolled back, nothing from this change set is applied`}.` +
+        (files.length > 0 ? `\nRolled back: ${files.join(', ')}` : '') +
+        sections(results) +
+        (steps.length > results.length ? `\n\n${steps.length - results.length} later step(s) not attempted.` : '') +
+        rollbackError,
+    }],
+    isError: true,
+  };
+}
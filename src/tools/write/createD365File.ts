@@ -59,6 +59,7 @@ import { buildAxDataEntityViewExtensionXml } from '../xml/dataEntityViewExtensio
 import { buildAxMenuItemExtensionXml, type AxMenuItemExtensionRootElement } from '../xml/menuItemExtensionXml.js';
 import { buildAxServiceXml, buildAxServiceGroupXml } from '../xml/serviceXml.js';
 import { recordCreatedArtifact } from '../../workspace/createdArtifactLedger.js';
+import { captureJournalPreImage } from '../../workspace/changeJournal.js';
 import {
   reconcileTableCreateProperties,
   renderTableCreateHonestyReport,
@@ -3659,6 +3660,7 @@ export async function handleCreateD365File(
     } catch {
       // File does not exist — normal creation path
     }
+    await captureJournalPreImage(normalizedFullPath);
 
     if (fileExisted) {
       if (!args.overwrite) {
@@ -4096,7 +4098,7 @@ export async function handleCreateD365File(
                     text: `✅ Created ${args.objectType} '${finalObjectName}' via IMetadataProvider.Create() (Smart)${crossModelNotice}${renameNote}\n` +
                       `📁 ${smartResult.filePath}${projectMsg}\n` +
                       `🔧 API: ${smartResult.api ?? 'IMetaTableProvider.Create (Smart)'}${bpSummary}${honestyReport}${rawLabelWarning}${verifyNote}${indexNote}${bpNote}` +
-                      validateWrittenXpp(sourceAsWritten(args.sourceCode, finalObjectName)),
+                      validateWrittenXpp(sourceAsWritten(args.sourceCode, finalObjectName), null, actualModelName),
                   },
                 ],
               };
@@ -4195,7 +4197,7 @@ export async function handleCreateD365File(
           );
           const bpNote = await timer.time('inline BP check',
             () => runInlineBpCheck((args as any).bpCheck, args.objectType, finalObjectName, context));
-          const xppRuleNote = validateWrittenXpp(sourceAsWritten(args.sourceCode, finalObjectName));
+          const xppRuleNote = validateWrittenXpp(sourceAsWritten(args.sourceCode, finalObjectName), null, actualModelName);
 
           return {
             content: [
@@ -4578,7 +4580,7 @@ export async function handleCreateD365File(
     // Offline X++ rules on the source as written. A create hands over the whole
     // class, so the class-scoped rules (COC004, COC005) apply here — the cheap
     // moment to catch what xppbp does not and only a build would.
-    const xppRuleNote = validateWrittenXpp(sourceAsWritten(args.sourceCode, finalObjectName));
+    const xppRuleNote = validateWrittenXpp(sourceAsWritten(args.sourceCode, finalObjectName), null, actualModelName);
 
     // Return success message with file path
     return {
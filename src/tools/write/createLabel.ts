@@ -26,6 +26,7 @@ import { resolveAnchorModel } from './writeAnchorGuard.js';
 import { detectEol } from '../../utils/eolUtils.js';
 import { formatLabelReference, labelIdSpellings } from '../../utils/labelReference.js';
 import { isExtensionLabelFile } from '../../metadata/labelParser.js';
+import { captureJournalPreImage } from '../../workspace/changeJournal.js';
 import { ProjectFileManager, ProjectFileFinder } from '../../workspace/projectFile.js';
 
 const UTF8_BOM = '\uFEFF';
@@ -168,7 +169,7 @@ const CreateLabelArgsSchema = z.object({
 // Helpers
 
 /** Parse a .label.txt file into an ordered map: labelId → { text, comment } */
-function parseLabelMap(content: string): Map<string, { text: string; comment?: string }> {
+export function parseLabelMap(content: string): Map<string, { text: string; comment?: string }> {
   const map = new Map<string, { text: string; comment?: string }>();
   const lines = content.replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
   let lastId: string | null = null;
@@ -213,7 +214,7 @@ function compareLabelIdsOrdinalCI(a: string, b: string): number {
  *  When `sort` is true (default), entries are sorted alphabetically by label ID.
  *  When `sort` is false, entries are written in insertion order (existing + appended).
  *  `eol` should be the line ending detected from the existing file (defaults to CRLF for new files). */
-function serializeLabelMap(
+export function serializeLabelMap(
   map: Map<string, { text: string; comment?: string }>,
   sort = true,
   eol: '\r\n' | '\n' = '\r\n',
@@ -234,6 +235,7 @@ function serializeLabelMap(
 async function writeFileWithBom(filePath: string, content: string): Promise<void> {
   // Ensure content starts with BOM
   const contentWithBom = content.startsWith(UTF8_BOM) ? content : UTF8_BOM + content;
+  await captureJournalPreImage(filePath);
   await fs.writeFile(filePath, contentWithBom, 'utf-8');
 }
 
@@ -619,6 +621,7 @@ export async function createLabelTool(request: CallToolRequest, context: XppServ
       // Create XML descriptor
       const xmlPath = path.join(axLabelDir, `${labelFileId}_${lang}.xml`);
       try { await fs.access(xmlPath); } catch {
+        await captureJournalPreImage(xmlPath);
         await fs.writeFile(xmlPath, buildAxLabelFileXml(labelFileId, lang, resolvedPackageName, model), 'utf-8');
       }
     };
@@ -776,6 +779,7 @@ export async function createLabelTool(request: CallToolRequest, context: XppServ
       try {
         await fs.access(xmlPath);
       } catch {
+        await captureJournalPreImage(xmlPath);
         await fs.writeFile(xmlPath, buildAxLabelFileXml(labelFileId, lang, resolvedPackageName, model), 'utf-8');
       }
     }
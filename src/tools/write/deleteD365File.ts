@@ -53,6 +53,7 @@ import {
   axFolderForObjectType, resolveMembership, projectDisplayName,
 } from '../../workspace/projectMembership.js';
 import { forgetCreatedArtifact } from '../../workspace/createdArtifactLedger.js';
+import { captureJournalPreImage } from '../../workspace/changeJournal.js';
 import { crossModelWriteRefusal } from '../../utils/crossModelWriteGuard.js';
 import { enforceGrounding } from '../../utils/provenanceStore.js';
 import { resolveAnchorModel } from './writeAnchorGuard.js';
@@ -276,6 +277,7 @@ export async function handleDeleteD365File(
 
   // ── 5. Delete the file ──────────────────────────────────────────────────────
   try {
+    await captureJournalPreImage(filePath);
     await fs.unlink(filePath);
   } catch (e: any) {
     return fail(
@@ -352,6 +354,7 @@ export async function handleDeleteD365File(
         const content = raw.replace(/^﻿/, '').replace(/\r\n/g, '\n');
         const { xml, removed } = removeDiagnosticSuppressionsByPathPrefix(content, prefixes);
         if (removed.length === 0) continue;
+        await captureJournalPreImage(listPath);
         await writeFileAtomic(listPath, normalizeD365Xml(xml));
         removedMonikers.push(...removed.map(r => r.moniker));
         cleanedFiles.push(entry);
@@ -19,6 +19,9 @@
 import type { XppServerContext } from '../../types/context.js';
 import { indexOneFile } from '../sdlc/updateSymbolIndex.js';
 
+/** How a failed upsert opens its note — a change set reads it as a failed write. */
+export const INDEX_UPSERT_FAILED = '⚠️ Written, but the symbol index could not be updated';
+
 /**
  * Suffix appended to a write response, or '' when there is nothing to say.
  *
@@ -36,12 +39,12 @@ export async function upsertWrittenFileIntoIndex(
   try {
     const result = await indexOneFile(filePath, context as XppServerContext);
     if (result.isError) {
-      return `\n⚠️ Written, but the symbol index could not be updated: ${result.text}\n` +
+      return `\n${INDEX_UPSERT_FAILED}: ${result.text}\n` +
              `   Run update_symbol_index(filePath="${filePath}") before searching for it.`;
     }
     return '\n🔎 Symbol index updated in place — no update_symbol_index call needed.';
   } catch (e: any) {
-    return `\n⚠️ Written, but the symbol index could not be updated: ${e?.message ?? e}\n` +
+    return `\n${INDEX_UPSERT_FAILED}: ${e?.message ?? e}\n` +
            `   Run update_symbol_index(filePath="${filePath}") before searching for it.`;
   }
 }
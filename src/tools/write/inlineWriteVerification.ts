@@ -141,10 +141,42 @@ export async function runInlineBpCheck(
   }
 }
 
+/**
+ * bpCheck=true on a dryRun. xppbp checks the element as it is on disk, and a
+ * preview writes nothing, so the offline rule set validate_code runs is applied
+ * to the previewed XML instead. xppbp itself runs on the real write.
+ */
+export async function runPreviewBpCheck(
+  bpCheck: unknown,
+  previewedXml: string | null,
+  objectName: string,
+  context: unknown,
+): Promise<string> {
+  if (bpCheck !== true && bpCheck !== 'true') return '';
+  if (previewedXml === null) return '';
+  try {
+    const { validateXppTool } = await import('../analysis/validateXpp.js');
+    const result: any = await validateXppTool({ code: previewedXml, codeType: 'xml-table', context: objectName }, context as any);
+    const text = (result?.content ?? [])
+      .filter((c: any) => c?.type === 'text' && typeof c.text === 'string')
+      .map((c: any) => c.text)
+      .join('\n')
+      .trim();
+    return text
+      ? `\n\n### Best-practice check (bpCheck=true — offline rules on the previewed XML; xppbp runs on the real write)\n${text}`
+      : '';
+  } catch (e: any) {
+    return `\n⚠️ bpCheck requested but could not run: ${e?.message ?? e}`;
+  }
+}
+
+/** How a failed verification opens its line — a change set reads it as a failed write. */
+export const VERIFICATION_FAILED = '❌ Verification: the file is NOT on disk';
+
 /** One-line summary for a write response, or '' when there is nothing worth saying. */
 export function renderWriteVerification(v: WriteVerification): string {
   if (!v.onDisk) {
-    return `\n❌ Verification: the file is NOT on disk after a reported success — treat this write as failed.`;
+    return `\n${VERIFICATION_FAILED} after a reported success — treat this write as failed.`;
   }
   const parts = [`on disk (${v.bytes} bytes)`];
   if (v.membership?.status === 'active') parts.push('referenced by the .rnrproj');
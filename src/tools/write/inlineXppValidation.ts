@@ -1,13 +1,15 @@
 /**
- * Run the offline X++ rules (COC*, BP*, SEL*, TTS001) on the source a write is
- * carrying, so they no longer depend on the caller thinking to call
- * validate_code. Pure string analysis over text we already hold.
+ * Run the offline X++ rules (COC*, BP*, SEL*, TTS001, plus the workspace's rule
+ * packs) on the source a write is carrying, so they no longer depend on the
+ * caller thinking to call validate_code. Pure string analysis over text we
+ * already hold.
  *
  * Advisory, not blocking: a rule that refuses a write has to be right every
  * time, one that annotates it only has to be useful.
  */
 
 import { runRules, type ValidationViolation } from '../analysis/validateXpp.js';
+import { loadRulePacks } from '../analysis/rulePacks.js';
 import { decodeXmlEntitiesFromXppSource } from '../../utils/xmlEscape.js';
 
 /** Lines prepended by `withClassContext`; subtracted again before reporting. */
@@ -92,11 +94,14 @@ function render(violations: ValidationViolation[]): string {
  *                        Nothing else is inspected — never the rest of the file.
  * @param declarationXml  raw XML of the target object, when the write has one on
  *                        disk; used only to recover the enclosing class header.
+ * @param modelName       model written to — picks which custom rule packs apply;
+ *                        the configured model when omitted.
  * @returns a markdown note to append to the write's reply, or '' when clean.
  */
 export function validateWrittenXpp(
   suppliedSource: string | undefined,
   declarationXml?: string | null,
+  modelName?: string,
 ): string {
   if (!suppliedSource || suppliedSource.trim().length === 0) return '';
   // XML as "X++" is reported upstream by assertCleanXppSource.
@@ -110,7 +115,7 @@ export function validateWrittenXpp(
 
   let violations: ValidationViolation[];
   try {
-    violations = runRules(code, 'xpp');
+    violations = runRules(code, 'xpp', undefined, loadRulePacks(modelName).rules);
   } catch {
     // A lint must never be the reason a successful write reports failure.
     return '';
@@ -0,0 +1,307 @@
+/**
+ * Label Extract Tool
+ * Moves the hardcoded strings of one class or form into labels:
+ *  1. Finds the literal text — <Label>/<HelpText>/<Caption> values and
+ *     info()/warning()/error()/checkFailed() arguments — with the label audit's scan
+ *  2. Picks a label per distinct text: an existing one with exactly that text
+ *     (SYS first, see the audit), else a new ID in the model's label file,
+ *     created in every language file through the ordinary create path
+ *  3. Points the source at it through d365fo_file's own modify operations —
+ *     replace-code for X++, modify-property for a property — so the same
+ *     guards, backups and bridge-first writes apply as to any other edit
+ *
+ * One consolidated diff of the object file comes back. A literal no modify
+ * operation can address (a form control's Caption, an X++ call that repeats
+ * verbatim) still gets its label and is listed for a hand edit. dryRun plans
+ * and diffs in memory and writes nothing.
+ */
+
+import type { CallToolRequest } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { XppServerContext } from '../../types/context.js';
+import { findD365FileOnDisk } from '../../utils/objectFileLookup.js';
+import { upsertAxFormDesignProperty } from '../../utils/axFormDesignProperties.js';
+import { formatLabelReference } from '../../utils/labelReference.js';
+import { unifiedDiff } from '../../utils/unifiedDiff.js';
+import { proposeLabel, scanObjectXml, type HardcodedString } from '../analysis/labelAudit.js';
+import { createLabelTool, type SingleLabelRunner } from './createLabel.js';
+import { modifyD365FileTool } from './modifyD365File.js';
+
+const LabelExtractArgsSchema = z.object({
+  objectType: z.enum(['class', 'form']).describe('Type of the object whose literals are extracted'),
+  objectName: z.string().describe('Name of the class or form'),
+  model: z.string().describe('Model that owns the object and its label file (e.g. ContosoExt)'),
+  labelFileId: z.string().optional().describe('Label file for new labels. Defaults to the model name.'),
+  dryRun: z.boolean().optional().default(false).describe('Plan and diff without writing anything'),
+  packagePath: z.string().optional().describe('Root packages path. Auto-detected if omitted.'),
+});
+
+export type LabelExtractArgs = z.infer<typeof LabelExtractArgsSchema>;
+
+/** The modify-file signature, injectable so the extraction is testable without a bridge. */
+export type ModifyRunner = SingleLabelRunner;
+
+/** Longest label ID derived from a text; the words past it add nothing a reader needs. */
+const MAX_LABEL_ID_LENGTH = 40;
+
+export interface ExtractedLiteral extends HardcodedString {
+  /** `@File:Id` the source now points at. */
+  ref: string;
+  /** Whether `ref` is a new label this extraction creates. */
+  created: boolean;
+  /** How the source is rewritten; absent when no modify operation can address it. */
+  edit?: { operation: 'replace-code'; oldCode: string; newCode: string }
+    | { operation: 'modify-property'; propertyPath: string; propertyValue: string };
+  /** Why `edit` is absent. */
+  skipped?: string;
+}
+
+/**
+ * A label ID from the text's words: "Customers & vendors" → CustomersVendors.
+ * Numbered past `taken` (lower-cased IDs) until unique.
+ */
+export function labelIdFromText(text: string, taken: Set<string>): string {
+  const words = text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').match(/[A-Za-z0-9]+/g) ?? [];
+  let base = '';
+  for (const word of words) {
+    const next = base + word[0].toUpperCase() + word.slice(1);
+    if (next.length > MAX_LABEL_ID_LENGTH) break;
+    base = next;
+  }
+  if (!/^[A-Za-z]/.test(base)) base = `Label${base}`;
+  let id = base;
+  for (let n = 2; taken.has(id.toLowerCase()); n++) id = `${base}${n}`;
+  taken.add(id.toLowerCase());
+  return id;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function count(haystack: string, needle: string): number {
+  return haystack.split(needle).length - 1;
+}
+
+/** Lines of a form's Design-level properties — the only Caption modify-property reaches on a form. */
+function designPropertyLines(xml: string): [number, number] | null {
+  const lines = xml.split('\n');
+  const start = lines.findIndex(l => /^[ \t]*<Design>/.test(l));
+  if (start === -1) return null;
+  const end = lines.findIndex((l, i) => i > start && /^[ \t]*(<Controls[ />]|<\/Design>)/.test(l));
+  return [start + 2, end === -1 ? lines.length : end];
+}
+
+/** The edit that points one literal at `ref`, or why there is none. */
+function planEdit(
+  xml: string,
+  objectType: 'class' | 'form',
+  literal: HardcodedString,
+  ref: string,
+): Pick<ExtractedLiteral, 'edit' | 'skipped'> {
+  if (literal.where.startsWith('<')) {
+    const tag = literal.where.slice(1, -1);
+    if (objectType === 'form') {
+      const design = designPropertyLines(xml);
+      if (!design || literal.line < design[0] || literal.line > design[1]) {
+        return { skipped: `a control's ${literal.where} — no modify operation addresses control properties` };
+      }
+    } else if (count(xml, literal.where) > 1) {
+      return { skipped: `${literal.where} occurs more than once in the file` };
+    }
+    return { edit: { operation: 'modify-property', propertyPath: tag, propertyValue: ref } };
+  }
+
+  // The excerpt runs from the call to the end of the literal: `info("Customer"`.
+  const excerpt = literal.where;
+  let start = excerpt.length - literal.text.length - 2;
+  if (excerpt[start - 1] === '@') start--;
+  const rewrite = (code: string) => code.replace(excerpt, `${excerpt.slice(0, start)}"${ref}"`);
+  if (count(xml, excerpt) === 1) {
+    return { edit: { operation: 'replace-code', oldCode: excerpt, newCode: rewrite(excerpt) } };
+  }
+  // The same call twice: the whole line may still tell them apart.
+  const line = xml.split('\n')[literal.line - 1]?.trim() ?? '';
+  if (line.includes(excerpt) && count(xml, line) === 1) {
+    return { edit: { operation: 'replace-code', oldCode: line, newCode: rewrite(line) } };
+  }
+  return { skipped: `\`${excerpt}\` repeats verbatim — replace-code cannot tell the occurrences apart` };
+}
+
+/** What the edits do to the file, without writing it — the dry-run diff. */
+function applyInMemory(xml: string, literals: ExtractedLiteral[]): string {
+  let out = xml;
+  for (const { edit } of literals) {
+    if (edit?.operation === 'replace-code') {
+      out = out.replace(edit.oldCode, () => edit.newCode);
+    } else if (edit?.operation === 'modify-property') {
+      const value = escapeXml(edit.propertyValue);
+      out = upsertAxFormDesignProperty(out, edit.propertyPath, value)
+        ?? out.replace(new RegExp(`<${edit.propertyPath}>[^<]*</${edit.propertyPath}>`),
+          () => `<${edit.propertyPath}>${value}</${edit.propertyPath}>`);
+    }
+  }
+  return out;
+}
+
+/** The literals of the object, each with its label and the edit that points the source at it. */
+export function planLabelExtraction(
+  context: XppServerContext,
+  xml: string,
+  args: Pick<LabelExtractArgs, 'objectType' | 'objectName' | 'model' | 'labelFileId'>,
+): ExtractedLiteral[] {
+  const labelFileId = args.labelFileId ?? args.model;
+  const taken = new Set(
+    context.symbolIndex.getModelLabels(args.model, { labelFileId }).map(l => l.labelId.toLowerCase()),
+  );
+  const { hardcoded } = scanObjectXml(xml, `${args.objectType}:${args.objectName}`);
+
+  const byText = new Map<string, { ref: string; created: boolean }>();
+  const out: ExtractedLiteral[] = [];
+  for (const literal of hardcoded) {
+    let label = byText.get(literal.text);
+    if (!label) {
+      const existing = proposeLabel(context.symbolIndex, literal.text, args.model);
+      label = existing
+        ? { ref: existing, created: false }
+        : { ref: formatLabelReference(labelFileId, labelIdFromText(literal.text, taken)), created: true };
+      byText.set(literal.text, label);
+    }
+    out.push({ ...literal, ...label, ...planEdit(xml, args.objectType, literal, label.ref) });
+  }
+  return out;
+}
+
+function formatExtraction(
+  args: LabelExtractArgs,
+  filePath: string,
+  literals: ExtractedLiteral[],
+  diff: string,
+  failures: string[],
+): string {
+  const created = [...new Map(literals.filter(l => l.created).map(l => [l.ref, l.text])).entries()];
+  const reused = [...new Map(literals.filter(l => !l.created).map(l => [l.ref, l.text])).entries()];
+  const skipped = literals.filter(l => l.skipped);
+  const lines: string[] = [
+    `${args.dryRun ? '🔍 Dry run — nothing written' : failures.length === 0 ? '✅' : '⚠️'} ` +
+    `labels(action="extract") on ${args.objectType} ${args.objectName}: ${literals.length} hardcoded string(s), ` +
+    `${created.length} new label(s), ${reused.length} existing label(s) reused.`,
+    '',
+    `**File:** ${filePath}`,
+    '',
+  ];
+  if (created.length > 0) {
+    lines.push(`## ${args.dryRun ? 'Labels to create' : 'Labels created'}`, '',
+      ...created.map(([ref, text]) => `- \`${ref}\` = "${text}"`), '');
+  }
+  if (reused.length > 0) {
+    lines.push('## Existing labels reused', '', ...reused.map(([ref, text]) => `- \`${ref}\` — "${text}"`), '');
+  }
+  if (skipped.length > 0) {
+    lines.push('## Not rewritten — point these at the label by hand', '',
+      ...skipped.map(l => `- line ${l.line} \`${l.where}\` "${l.text}" → \`${l.ref}\` (${l.skipped})`), '');
+  }
+  if (failures.length > 0) lines.push('## Failed', '', ...failures.map(f => `- ${f}`), '');
+  lines.push(diff ? ['```diff', diff.trimEnd(), '```'].join('\n') : '_The file is unchanged._');
+  return lines.join('\n');
+}
+
+export async function labelExtractTool(
+  request: CallToolRequest,
+  context: XppServerContext,
+  runLabel: SingleLabelRunner = createLabelTool,
+  runModify: ModifyRunner = modifyD365FileTool,
+) {
+  try {
+    const parsed = LabelExtractArgsSchema.safeParse(request.params.arguments ?? {});
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ labels(action="extract"): invalid arguments — ${issues}.\n` +
+            'Example: labels(action="extract", objectType="form", objectName="ContosoDemoForm", model="ContosoExt")',
+        }],
+        isError: true,
+      };
+    }
+    const args = parsed.data;
+    const labelFileId = args.labelFileId ?? args.model;
+    const filePath = await findD365FileOnDisk(args.objectType, args.objectName, args.model, args.packagePath);
+    if (!filePath) {
+      return {
+        content: [{
+          type: 'text',
+          text: `❌ ${args.objectType} "${args.objectName}" not found in model ${args.model} — check objectName, model and packagePath.`,
+        }],
+        isError: true,
+      };
+    }
+
+    const before = await fs.readFile(filePath, 'utf-8');
+    const literals = planLabelExtraction(context, before, args);
+    const diffNames = { fromFile: `a/${path.basename(filePath)}`, toFile: `b/${path.basename(filePath)}` };
+    if (args.dryRun || literals.length === 0) {
+      const diff = unifiedDiff(before, applyInMemory(before, literals), diffNames);
+      return { content: [{ type: 'text', text: formatExtraction(args, filePath, literals, diff, []) }] };
+    }
+
+    // Labels first: a reference written before its label exists breaks the build.
+    const failures: string[] = [];
+    const failedRefs = new Set<string>();
+    const toCreate = new Map(literals.filter(l => l.created).map(l => [l.ref, l.text]));
+    for (const [ref, text] of toCreate) {
+      const res = await runLabel({
+        method: 'tools/call',
+        params: {
+          name: 'create_label',
+          arguments: {
+            labelId: ref.slice(ref.indexOf(':') + 1),
+            labelFileId,
+            model: args.model,
+            translations: [{ language: 'en-US', text }],
+            ...(args.packagePath ? { packagePath: args.packagePath } : {}),
+          },
+        },
+      }, context);
+      if (res?.isError) {
+        failedRefs.add(ref);
+        failures.push(`label \`${ref}\`: ${String(res.content?.[0]?.text ?? '').split('\n')[0]}`);
+      }
+    }
+
+    for (const literal of literals) {
+      if (!literal.edit || failedRefs.has(literal.ref)) continue;
+      const res = await runModify({
+        method: 'tools/call',
+        params: {
+          name: 'modify_d365fo_file',
+          arguments: {
+            objectType: args.objectType,
+            objectName: args.objectName,
+            modelName: args.model,
+            filePath,
+            ...(args.packagePath ? { packagePath: args.packagePath } : {}),
+            ...literal.edit,
+          },
+        },
+      }, context);
+      if (res?.isError) {
+        failures.push(`line ${literal.line} \`${literal.where}\`: ${String(res.content?.[0]?.text ?? '').split('\n')[0]}`);
+      }
+    }
+
+    const after = await fs.readFile(filePath, 'utf-8');
+    return {
+      content: [{ type: 'text', text: formatExtraction(args, filePath, literals, unifiedDiff(before, after, diffNames), failures) }],
+      ...(failures.length > 0 ? { isError: true } : {}),
+    };
+  } catch (err) {
+    return {
+      content: [{ type: 'text', text: `Error extracting labels: ${err instanceof Error ? err.message : String(err)}` }],
+      isError: true,
+    };
+  }
+}
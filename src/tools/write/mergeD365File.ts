@@ -0,0 +1,182 @@
+/**
+ * d365fo_file(action="merge") — three-way merge of a conflicting AOT XML file.
+ *
+ * git merges metadata line by line, so two branches that each add a field to
+ * the same table stop with conflict markers inside the XML even though nothing
+ * really conflicts. This runs utils/aotXmlMerge.ts over the three versions
+ * instead: collections by member name, properties by value, only a real
+ * disagreement reported.
+ *
+ * The three versions come from either
+ *   • basePath / oursPath / theirsPath — explicit files (base optional, for a
+ *     file both branches added), the result written to outputPath or oursPath;
+ *   • filePath alone — a file git left conflicted, read from the index stages
+ *     (:1: base, :2: ours, :3: theirs), the result written back to filePath.
+ *
+ * Conflicts without `prefer` write nothing: they come back, one per element,
+ * for the caller to decide. With `prefer` they are resolved to that side and
+ * listed in the report. The write itself goes through the usual guards — path
+ * containment, the change journal pre-image, the atomic write, the in-place
+ * index upsert. Staging the result (`git add`) is left to the developer.
+ */
+
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import util from 'util';
+import { z } from 'zod';
+import type { XppServerContext } from '../../types/context.js';
+import { mergeAotXml, renderAotMergeConflict, type AotMergeResult } from '../../utils/aotXmlMerge.js';
+import { assertWritePathAllowed } from '../../utils/pathContainment.js';
+import { writeFileAtomic } from '../../utils/atomicFileWrite.js';
+import { captureJournalPreImage } from '../../workspace/changeJournal.js';
+import { upsertWrittenFileIntoIndex } from './inlineIndexUpsert.js';
+
+const execFileAsync = util.promisify(execFile);
+
+const MergeD365FileArgsSchema = z.object({
+  filePath: z.string().optional(),
+  basePath: z.string().optional(),
+  oursPath: z.string().optional(),
+  theirsPath: z.string().optional(),
+  outputPath: z.string().optional(),
+  prefer: z.enum(['ours', 'theirs']).optional(),
+  modelName: z.string().optional(),
+  packagePath: z.string().optional(),
+});
+
+type MergeArgs = z.infer<typeof MergeD365FileArgsSchema>;
+
+interface MergeInputs {
+  base: string | null;
+  ours: string;
+  theirs: string;
+  /** Where the result goes. */
+  target: string;
+  /** Set when the versions came from git's conflict stages. */
+  fromGit: boolean;
+}
+
+const HEAD = 'd365fo_file(action="merge")';
+
+function fail(text: string) {
+  return { content: [{ type: 'text' as const, text }], isError: true };
+}
+
+async function gitShow(spec: string, cwd: string): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync('git', ['show', spec], {
+      cwd, windowsHide: true, maxBuffer: 1024 * 1024 * 20, timeout: 15_000,
+    });
+    return stdout;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The base, ours and theirs of a conflicted file, from git's index stages.
+ * Null when the file is not in an unmerged state (no :2: or :3: stage).
+ */
+export async function readConflictStages(filePath: string): Promise<{ base: string | null; ours: string; theirs: string } | null> {
+  const dir = path.dirname(filePath);
+  let root: string;
+  try {
+    const { stdout } = await execFileAsync('git', ['rev-parse', '--show-toplevel'], { cwd: dir, windowsHide: true, timeout: 15_000 });
+    root = stdout.trim();
+  } catch {
+    return null;
+  }
+  // git names the toplevel by its real path; resolve the file the same way.
+  const real = await fs.realpath(filePath).catch(() => filePath);
+  const rel = path.relative(await fs.realpath(root).catch(() => root), real).split(path.sep).join('/');
+  const [base, ours, theirs] = await Promise.all([1, 2, 3].map(n => gitShow(`:${n}:${rel}`, root)));
+  return ours !== null && theirs !== null ? { base, ours, theirs } : null;
+}
+
+async function resolveInputs(args: MergeArgs): Promise<MergeInputs | string> {
+  if (args.oursPath || args.theirsPath || args.basePath) {
+    if (!args.oursPath || !args.theirsPath) {
+      return `❌ ${HEAD}: pass both oursPath and theirsPath (basePath too, unless both branches added the file) — or only filePath for a file git left conflicted.`;
+    }
+    const read = (p: string) => fs.readFile(p, 'utf-8');
+    try {
+      return {
+        base: args.basePath ? await read(args.basePath) : null,
+        ours: await read(args.oursPath),
+        theirs: await read(args.theirsPath),
+        target: args.outputPath ?? args.oursPath,
+        fromGit: false,
+      };
+    } catch (e) {
+      return `❌ ${HEAD}: ${(e as Error).message}`;
+    }
+  }
+  if (!args.filePath) {
+    return `❌ ${HEAD}: pass filePath (a file git left conflicted) or oursPath + theirsPath (+ basePath). ` +
+      'get_knowledge(kind="op-spec", topic="merge") has the contract.';
+  }
+  const stages = await readConflictStages(args.filePath);
+  if (!stages) {
+    return `❌ ${HEAD}: ${args.filePath} is not conflicted in a git merge — there is no ours/theirs stage to read. ` +
+      'Pass oursPath + theirsPath (+ basePath) to merge explicit files.';
+  }
+  return { ...stages, target: args.outputPath ?? args.filePath, fromGit: true };
+}
+
+function conflictReport(result: AotMergeResult, target: string): string {
+  return [
+    `❌ ${HEAD}: ${result.conflicts.length} conflict(s) in ${result.objectType} \`${result.objectName}\` — nothing written to ${target}.`,
+    '',
+    ...result.conflicts.map(renderAotMergeConflict),
+    '',
+    'Everything else merged cleanly. Decide with the user which side each conflict keeps, then re-run with',
+    'prefer="ours"|"theirs", or edit one side and merge again.',
+    '',
+    '```json',
+    JSON.stringify(result.conflicts, null, 2),
+    '```',
+  ].join('\n');
+}
+
+export async function mergeD365FileTool(
+  rest: Record<string, unknown>,
+  context: XppServerContext,
+): Promise<{ content: Array<{ type: 'text'; text: string }>; isError?: boolean }> {
+  const parsed = MergeD365FileArgsSchema.safeParse(rest);
+  if (!parsed.success) return fail(`❌ ${HEAD}: invalid arguments — ${parsed.error.message}`);
+  const args = parsed.data;
+
+  const inputs = await resolveInputs(args);
+  if (typeof inputs === 'string') return fail(inputs);
+
+  const result = mergeAotXml(inputs.base, inputs.ours, inputs.theirs, args.prefer);
+  if (!result) {
+    return fail(
+      `❌ ${HEAD}: the versions of ${inputs.target} are not all AOT XML of the same object type ` +
+      '(a side with conflict markers or a different root element) — resolve it by hand.',
+    );
+  }
+  if (result.conflicts.length > 0 && !args.prefer) return fail(conflictReport(result, inputs.target));
+
+  const containment = await assertWritePathAllowed(inputs.target, args.modelName, {
+    extraRoots: args.packagePath ? [args.packagePath] : undefined,
+  });
+  if (!containment.ok) {
+    return fail(`❌ Refusing to write the merge to ${inputs.target}: ${containment.reason ?? 'path containment check failed'}`);
+  }
+
+  await captureJournalPreImage(inputs.target);
+  await writeFileAtomic(inputs.target, result.merged);
+  const indexNote = await upsertWrittenFileIntoIndex(inputs.target, context);
+
+  const lines = [
+    `✅ ${HEAD}: merged ${result.objectType} \`${result.objectName}\` → ${inputs.target}`,
+    result.conflicts.length === 0
+      ? 'No conflicts — both sides\' changes are in.'
+      : `${result.conflicts.length} conflict(s) resolved to ${args.prefer}:`,
+    ...result.conflicts.map(renderAotMergeConflict),
+  ];
+  if (inputs.fromGit) lines.push('', `Review it, then \`git add\` the file to mark the conflict resolved.`);
+  return { content: [{ type: 'text', text: lines.join('\n') + indexNote }] };
+}
@@ -22,7 +22,7 @@ import { isStandardModel, resolveRegularObjectPrefixToken } from '../../utils/mo
 import { normalizeObjectName } from '../../utils/objectNaming.js';
 import { resolveDbPathLocally } from '../../utils/metadataResolver.js';
 import { assertWritePathAllowed } from '../../utils/pathContainment.js';
-import { withFileLock, writeFileAtomic } from '../../utils/atomicFileWrite.js';
+import { withFileLock } from '../../utils/atomicFileWrite.js';
 import {
   bridgeValidateAfterWrite, canBridgeModify,
   bridgeAddMethod, bridgeRemoveMethod, bridgeAddField, bridgeSetProperty, bridgeReplaceCode,
@@ -53,6 +53,9 @@ import {
 } from '../../utils/axTablePropertyOrder.js';
 import { upsertAxFormDesignProperty } from '../../utils/axFormDesignProperties.js';
 import { buildAxDataEntityViewFieldXml } from '../xml/dataEntityViewExtensionXml.js';
+import { buildAxTableFieldsXml, type AxTableFieldSpec } from '../xml/tableXml.js';
+import { xppMethodSourceForXml } from '../../utils/xppFormat.js';
+import { ensureXppDocComment } from '../../utils/xppDocGen.js';
 import { enforceGrounding } from '../../utils/provenanceStore.js';
 import { gateOnReferenceErrors } from './resolveReferences.js';
 import {
@@ -64,7 +67,9 @@ import {
 } from '../analysis/validateFormPattern.js';
 import { validateEdtExtensionChange } from '../../utils/edtExtensionValidator.js';
 import { upsertWrittenFileIntoIndex } from './inlineIndexUpsert.js';
-import { verifyWrittenFile, renderWriteVerification, runInlineBpCheck, membershipOf } from './inlineWriteVerification.js';
+import {
+  verifyWrittenFile, renderWriteVerification, runInlineBpCheck, runPreviewBpCheck, membershipOf,
+} from './inlineWriteVerification.js';
 import { lintXppSelect } from '../../utils/xppSelectLint.js';
 import { validateWrittenXpp } from './inlineXppValidation.js';
 import { createPhaseTimer } from '../../utils/phaseTimer.js';
@@ -79,6 +84,16 @@ import {
   crossModelWriteRefusal, standDownNotice, baseObjectOf, type ExistingExtension,
 } from '../../utils/crossModelWriteGuard.js';
 import { resolveAnchorModel } from './writeAnchorGuard.js';
+import { captureJournalPreImage } from '../../workspace/changeJournal.js';
+import {
+  bridgeOnlyPreviewRefusal,
+  isPreviewRun,
+  previewWrites,
+  readTargetXml,
+  previewKind,
+  renderPreview,
+  writeTargetXml,
+} from './writePreview.js';
 
 
 /**
@@ -299,7 +314,7 @@ function serializedOnFile<A extends unknown[], R>(
 /** File content, CRLF- and BOM-normalised, for matching caller-supplied X++ against. */
 async function readForMatching(filePath: string): Promise<string | null> {
   try {
-    return (await fs.readFile(filePath, 'utf-8')).replace(/^﻿/, '').replace(/\r\n/g, '\n');
+    return (await readTargetXml(filePath)).replace(/^﻿/, '').replace(/\r\n/g, '\n');
   } catch {
     return null;
   }
@@ -438,7 +453,7 @@ const directXmlReplaceCode = serializedOnFile(async (
   try {
     // Files on disk are CRLF; oldCode from get_method_source is typically LF-only.
     // Normalize both to LF for matching, then normalizeD365Xml restores CRLF on write.
-    const rawContent = await fs.readFile(filePath, 'utf-8');
+    const rawContent = await readTargetXml(filePath);
     const content = rawContent.replace(/^﻿/, '').replace(/\r\n/g, '\n');
     const normOld = oldCode.replace(/\r\n/g, '\n');
     const normNew = newCode.replace(/\r\n/g, '\n');
@@ -462,7 +477,7 @@ const directXmlReplaceCode = serializedOnFile(async (
       return null; // no change made
     }
 
-    await writeFileAtomic(filePath, normalizeD365Xml(updated));
+    await writeTargetXml(filePath, normalizeD365Xml(updated));
 
     // Read back before claiming it. The bridge declining is normal here (a class
     // DECLARATION is not a method, so its Methods API never finds the snippet),
@@ -470,7 +485,7 @@ const directXmlReplaceCode = serializedOnFile(async (
     // failure — the caller re-did the same edit by hand with a plain text tool,
     // which is the AOT-XML bypass this server exists to remove. Confirming the
     // new code is on disk lets the message lead with the fact instead.
-    const after = (await fs.readFile(filePath, 'utf-8')).replace(/^﻿/, '').replace(/\r\n/g, '\n');
+    const after = (await readTargetXml(filePath)).replace(/^﻿/, '').replace(/\r\n/g, '\n');
     if (!after.includes(normNew)) {
       return {
         success: false,
@@ -511,7 +526,7 @@ const directXmlModifyProperty = serializedOnFile(async (
   reason: string,
 ): Promise<{ success: boolean; message: string } | null> => {
   try {
-    const rawContent = await fs.readFile(filePath, 'utf-8');
+    const rawContent = await readTargetXml(filePath);
     const content = rawContent.replace(/^﻿/, '');
     const escapedValue = String(propertyValue)
       .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
@@ -537,7 +552,7 @@ const directXmlModifyProperty = serializedOnFile(async (
     // occur on controls, so it sees several matches and refuses (#37).
     const formPatched = upsertAxFormDesignProperty(content, tagName, escapedValue);
     if (formPatched) {
-      await writeFileAtomic(filePath, normalizeD365Xml(formPatched));
+      await writeTargetXml(filePath, normalizeD365Xml(formPatched));
       return {
         success: true,
         message: `✅ Form Design property '${tagName}'='${propertyValue}' set via direct XML (the bridge does not support modify-property for forms). File: ${filePath}`,
@@ -571,7 +586,7 @@ const directXmlModifyProperty = serializedOnFile(async (
       if (!inserted) {
         return null; // not a table / unknown property — surface the original bridge error
       }
-      await writeFileAtomic(filePath, normalizeD365Xml(inserted));
+      await writeTargetXml(filePath, normalizeD365Xml(inserted));
       console.error(`[modify_d365fo_file] ✅ directXmlModifyProperty fallback: inserted <${tagName}> in ${filePath}`);
       return {
         success: true,
@@ -613,7 +628,7 @@ const directXmlModifyProperty = serializedOnFile(async (
       ? content.replace(openTagRe, m => `${openTagOnlyRe.exec(m)![0]}${escapedValue}</${tagName}>`)
       : content.replace(selfClosingRe, (_m, attrs) => `<${tagName}${attrs}>${escapedValue}</${tagName}>`);
 
-    await writeFileAtomic(filePath, normalizeD365Xml(updated));
+    await writeTargetXml(filePath, normalizeD365Xml(updated));
     console.error(`[modify_d365fo_file] ✅ directXmlModifyProperty fallback: set <${tagName}> in ${filePath}`);
     return {
       success: true,
@@ -638,7 +653,7 @@ const directXmlAddMenuItemToMenu = serializedOnFile(async (
   menuItemToAddType: string,
 ): Promise<{ success: boolean; message: string } | null> => {
   try {
-    const rawContent = await fs.readFile(filePath, 'utf-8');
+    const rawContent = await readTargetXml(filePath);
     const content = rawContent.replace(/^﻿/, '').replace(/\r\n/g, '\n');
 
     const typeMap: Record<string, string> = { display: 'Display', action: 'Action', output: 'Output' };
@@ -670,7 +685,7 @@ const directXmlAddMenuItemToMenu = serializedOnFile(async (
 
     if (updated === content) return null;
 
-    await writeFileAtomic(filePath, normalizeD365Xml(updated));
+    await writeTargetXml(filePath, normalizeD365Xml(updated));
     console.error(`[modify_d365fo_file] ✅ directXmlAddMenuItemToMenu: added '${menuItemToAdd}' to ${filePath}`);
     return {
       success: true,
@@ -762,7 +777,7 @@ const directXmlAddControl = serializedOnFile(async (
   positionType?: string,
 ): Promise<{ success: boolean; message: string } | null> => {
   try {
-    const rawContent = await fs.readFile(filePath, 'utf-8');
+    const rawContent = await readTargetXml(filePath);
     const content = rawContent.replace(/^﻿/, '').replace(/\r\n/g, '\n');
 
     const { iType, typeValue } = CONTROL_TYPE_TO_FORM_CONTROL[(controlType || 'String').toLowerCase()] ?? DEFAULT_FORM_CONTROL;
@@ -786,7 +801,7 @@ const directXmlAddControl = serializedOnFile(async (
         return { success: false, message: outcome.message };
     }
 
-    await writeFileAtomic(filePath, normalizeD365Xml(outcome.xml));
+    await writeTargetXml(filePath, normalizeD365Xml(outcome.xml));
     console.error(`[modify_d365fo_file] ✅ directXmlAddControl: added '${controlName}' (${iType}) to ${filePath}`);
 
     const shape = outcome.representation === 'nested'
@@ -870,7 +885,7 @@ const directXmlAddIndex = serializedOnFile(async (
   }
 
   try {
-    const rawContent = await fs.readFile(filePath, 'utf-8');
+    const rawContent = await readTargetXml(filePath);
     const content = rawContent.replace(/^﻿/, '').replace(/\r\n/g, '\n');
 
     // Only tables and table-extensions carry an <Indexes> collection — bail on any
@@ -921,7 +936,7 @@ const directXmlAddIndex = serializedOnFile(async (
 
     if (updated === content) return null;
 
-    await writeFileAtomic(filePath, normalizeD365Xml(updated));
+    await writeTargetXml(filePath, normalizeD365Xml(updated));
     console.error(`[modify_d365fo_file] ✅ directXmlAddIndex: added '${indexName}' to ${filePath}`);
     return {
       success: true,
@@ -933,6 +948,153 @@ const directXmlAddIndex = serializedOnFile(async (
   }
 });
 
+/**
+ * The text with every CDATA section blanked to spaces, offsets unchanged — so a
+ * tag scan never reads X++ like `if (a <b && c > d)` as markup.
+ */
+function maskCdata(content: string): string {
+  return content.replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, m => m.replace(/[^\n]/g, ' '));
+}
+
+/**
+ * The object's own <Methods> under its first <SourceCode>: the offset to insert at
+ * and the offsets of its <Method> elements by lowercased name. Null when there is
+ * no such collection. A form's data-source and control methods sit deeper and are
+ * not listed.
+ */
+function findObjectMethods(content: string): {
+  insertAt: number;
+  selfClosingAt?: [number, number];
+  methods: Map<string, [number, number]>;
+} | null {
+  const masked = maskCdata(content);
+  const sourceCode = masked.search(/<SourceCode>/);
+  if (sourceCode < 0) return null;
+  const open = /<Methods\s*(\/?)>/g;
+  open.lastIndex = sourceCode;
+  const m = open.exec(masked);
+  if (!m) return null;
+  if (m[1]) return { insertAt: m.index, selfClosingAt: [m.index, m.index + m[0].length], methods: new Map() };
+  const close = masked.indexOf('</Methods>', m.index);
+  if (close < 0) return null;
+  const methods = new Map<string, [number, number]>();
+  const methodRe = /[ \t]*<Method>\s*<Name>([^<]+)<\/Name>[\s\S]*?<\/Method>\n?/g;
+  methodRe.lastIndex = m.index;
+  let mm: RegExpExecArray | null;
+  while ((mm = methodRe.exec(masked)) !== null && mm.index < close) {
+    methods.set(mm[1].trim().toLowerCase(), [mm.index, mm.index + mm[0].length]);
+  }
+  return { insertAt: close, methods };
+}
+
+/**
+ * add-method (and add-display-method / add-table-method) for a dryRun.
+ *
+ * The bridge writes methods through IMetadataProvider.Update(), which cannot run
+ * without saving. A preview splices the same <Method> into the object's own
+ * <Methods> instead — the source prepared exactly as bridgeAddMethod prepares it,
+ * replacing a method of the same name as the bridge does. Methods of a form's
+ * data sources and controls (`Name.method`) are not reachable this way.
+ */
+const directXmlAddMethod = serializedOnFile(async (
+  filePath: string,
+  methodName: string,
+  sourceCode: string,
+): Promise<{ success: boolean; message: string } | null> => {
+  if (methodName.includes('.')) {
+    return {
+      success: false,
+      message: `dryRun cannot preview '${methodName}': only the object's own methods are spliced, not those of a data source or control.`,
+    };
+  }
+  try {
+    const content = (await readTargetXml(filePath)).replace(/^﻿/, '').replace(/\r\n/g, '\n');
+    const target = findObjectMethods(content);
+    if (!target) return null;
+
+    const element =
+      `\t\t\t<Method>\n` +
+      `\t\t\t\t<Name>${methodName}</Name>\n` +
+      `\t\t\t\t<Source><![CDATA[\n${xppMethodSourceForXml(ensureXppDocComment(sourceCode))}\n]]></Source>\n` +
+      `\t\t\t</Method>\n`;
+    const existing = target.methods.get(methodName.toLowerCase());
+    let updated: string;
+    if (existing) {
+      updated = content.slice(0, existing[0]) + element + content.slice(existing[1]);
+    } else if (target.selfClosingAt) {
+      const [from, to] = target.selfClosingAt;
+      updated = `${content.slice(0, from)}<Methods>\n${element}\t\t</Methods>${content.slice(to)}`;
+    } else {
+      updated = `${content.slice(0, target.insertAt)}${element.replace(/^\t\t/, '')}\t\t${content.slice(target.insertAt)}`;
+    }
+
+    await writeTargetXml(filePath, normalizeD365Xml(updated));
+    return {
+      success: true,
+      message: `✅ Method '${methodName}' ${existing ? 'replaced' : 'added'} (previewed as an XML splice). File: ${filePath}`,
+    };
+  } catch (err) {
+    console.error(`[modify_d365fo_file] directXmlAddMethod failed: ${err}`);
+    return null;
+  }
+});
+
+/** remove-method for a dryRun — the <Method> taken out of the object's own <Methods>. */
+const directXmlRemoveMethod = serializedOnFile(async (
+  filePath: string,
+  methodName: string,
+): Promise<{ success: boolean; message: string } | null> => {
+  try {
+    const content = (await readTargetXml(filePath)).replace(/^﻿/, '').replace(/\r\n/g, '\n');
+    const target = findObjectMethods(content);
+    if (!target) return null;
+    const existing = target.methods.get(methodName.toLowerCase());
+    if (!existing) {
+      return { success: false, message: `Method '${methodName}' was not found among the object's methods in ${filePath}.` };
+    }
+    await writeTargetXml(filePath, normalizeD365Xml(content.slice(0, existing[0]) + content.slice(existing[1])));
+    return { success: true, message: `✅ Method '${methodName}' removed (previewed as an XML splice). File: ${filePath}` };
+  } catch (err) {
+    console.error(`[modify_d365fo_file] directXmlRemoveMethod failed: ${err}`);
+    return null;
+  }
+});
+
+/**
+ * add-field on a table or table-extension for a dryRun — the <AxTableField> the
+ * create path writes for the same spec, appended to the top-level <Fields>. An
+ * enum field carries its <EnumType> here in one step, where the bridge sets it
+ * with a second call.
+ */
+const directXmlAddTableField = serializedOnFile(async (
+  filePath: string,
+  field: AxTableFieldSpec,
+): Promise<{ success: boolean; message: string } | null> => {
+  try {
+    const content = (await readTargetXml(filePath)).replace(/^﻿/, '').replace(/\r\n/g, '\n');
+    const root = /<AxTableExtension\b/.test(content) ? 'AxTableExtension' : /<AxTable\b/.test(content) ? 'AxTable' : null;
+    if (!root) return null;
+    const target = findTopLevelCollection(maskCdata(content), root, 'Fields');
+    if (!target) return null;
+
+    // The one-field <Fields> block the create path renders, less its wrapper.
+    const element = buildAxTableFieldsXml([field]).replace(/^\t<Fields>\n/, '').replace(/\t<\/Fields>\n$/, '').trimEnd();
+    let updated: string;
+    if ('selfClosingAt' in target) {
+      const [from, to] = target.selfClosingAt;
+      updated = `${content.slice(0, from)}<Fields>\n${element}\n\t</Fields>${content.slice(to)}`;
+    } else {
+      updated = `${content.slice(0, target.insertAt)}${element.replace(/^\t\t/, '\t')}\n\t${content.slice(target.insertAt)}`;
+    }
+
+    await writeTargetXml(filePath, normalizeD365Xml(updated));
+    return { success: true, message: `✅ Field '${field.name}' added (previewed as an XML splice). File: ${filePath}` };
+  } catch (err) {
+    console.error(`[modify_d365fo_file] directXmlAddTableField failed: ${err}`);
+    return null;
+  }
+});
+
 /**
  * The two element names a data source can carry inside a query's <DataSources>:
  * the root of the query, and a joined child. A child is NOT a nested
@@ -1173,7 +1335,7 @@ const directXmlAddQueryRange = serializedOnFile(async (
   rangeValue: string,
 ): Promise<{ success: boolean; message: string } | null> => {
   try {
-    const rawContent = await fs.readFile(filePath, 'utf-8');
+    const rawContent = await readTargetXml(filePath);
     const content = rawContent.replace(/^﻿/, '').replace(/\r\n/g, '\n');
 
     if (!/<AxDataEntityView\b/.test(content)) {
@@ -1249,7 +1411,7 @@ const directXmlAddQueryRange = serializedOnFile(async (
       content.slice(0, ds.start + ranges.start) + newRanges + content.slice(ds.start + ranges.end);
     if (updated === content) return null;
 
-    await writeFileAtomic(filePath, normalizeD365Xml(updated));
+    await writeTargetXml(filePath, normalizeD365Xml(updated));
     console.error(
       `[modify_d365fo_file] ✅ directXmlAddQueryRange: added range '${rangeName}' ` +
       `(${rangeField}=${rangeValue}) to '${dataSourceName}' in ${filePath}`,
@@ -1280,7 +1442,7 @@ const directXmlRemoveQueryRange = serializedOnFile(async (
   rangeName: string,
 ): Promise<{ success: boolean; message: string } | null> => {
   try {
-    const rawContent = await fs.readFile(filePath, 'utf-8');
+    const rawContent = await readTargetXml(filePath);
     const content = rawContent.replace(/^﻿/, '').replace(/\r\n/g, '\n');
 
     if (!/<AxDataEntityView\b/.test(content)) {
@@ -1336,7 +1498,7 @@ const directXmlRemoveQueryRange = serializedOnFile(async (
       content.slice(0, ds.start + ranges.start) + newRanges + content.slice(ds.start + ranges.end);
     if (updated === content) return null;
 
-    await writeFileAtomic(filePath, normalizeD365Xml(updated));
+    await writeTargetXml(filePath, normalizeD365Xml(updated));
     console.error(
       `[modify_d365fo_file] ✅ directXmlRemoveQueryRange: removed range '${rangeName}' ` +
       `from '${dataSourceName}' in ${filePath}`,
@@ -1484,7 +1646,7 @@ const directXmlAddDataEntityExtensionField = serializedOnFile(async (
   fieldGroupName?: string,
 ): Promise<{ success: boolean; message: string } | null> => {
   try {
-    const rawContent = await fs.readFile(filePath, 'utf-8');
+    const rawContent = await readTargetXml(filePath);
     const content = rawContent.replace(/^﻿/, '').replace(/\r\n/g, '\n');
 
     // Only data-entity extensions carry a <Fields> collection of mapped fields
@@ -1522,7 +1684,7 @@ const directXmlAddDataEntityExtensionField = serializedOnFile(async (
 
     if (updated === content) return null;
 
-    await writeFileAtomic(filePath, normalizeD365Xml(updated));
+    await writeTargetXml(filePath, normalizeD365Xml(updated));
     console.error(`[modify_d365fo_file] ✅ directXmlAddDataEntityExtensionField: added '${fieldName}' to ${filePath}`);
     return {
       success: true,
@@ -1559,7 +1721,7 @@ const directXmlDeleteAction = serializedOnFile(async (
   deleteAction: string | undefined,
 ): Promise<{ success: boolean; message: string } | null> => {
   try {
-    const rawContent = await fs.readFile(filePath, 'utf-8');
+    const rawContent = await readTargetXml(filePath);
     const content = rawContent.replace(/^﻿/, '').replace(/\r\n/g, '\n');
 
     // Only tables carry <DeleteActions> — bail on any other shape so a mis-typed
@@ -1576,7 +1738,7 @@ const directXmlDeleteAction = serializedOnFile(async (
         return { success: true, message: `✅ Delete action '${name}' not present in ${filePath} — nothing to remove.` };
       }
       const updated = content.replace(blockRe, '');
-      await writeFileAtomic(filePath, normalizeD365Xml(updated));
+      await writeTargetXml(filePath, normalizeD365Xml(updated));
       return { success: true, message: `✅ Delete action '${name}' removed. File: ${filePath}` };
     }
 
@@ -1602,7 +1764,7 @@ const directXmlDeleteAction = serializedOnFile(async (
     }
     if (updated === content) return null;
 
-    await writeFileAtomic(filePath, normalizeD365Xml(updated));
+    await writeTargetXml(filePath, normalizeD365Xml(updated));
     return {
       success: true,
       message: `✅ Delete action '${name}' (${deleteAction ?? 'Restricted'} on ${table ?? name}) added. File: ${filePath}`,
@@ -1633,7 +1795,7 @@ const directXmlRemoveControl = serializedOnFile(async (
   removeSeparator: boolean | undefined,
 ): Promise<{ success: boolean; message: string } | null> => {
   try {
-    const rawContent = await fs.readFile(filePath, 'utf-8');
+    const rawContent = await readTargetXml(filePath);
     const content = rawContent.replace(/^﻿/, '').replace(/\r\n/g, '\n');
 
     const outcome = removeFormControl(content, { controlName, removeSeparator });
@@ -1668,7 +1830,7 @@ const directXmlRemoveControl = serializedOnFile(async (
         };
     }
 
-    await writeFileAtomic(filePath, normalizeD365Xml(outcome.xml));
+    await writeTargetXml(filePath, normalizeD365Xml(outcome.xml));
     console.error(`[modify_d365fo_file] ✅ directXmlRemoveControl: removed '${controlName}' from ${filePath}`);
 
     const notes = outcome.notes.length ? '\n' + outcome.notes.map(n => `ℹ️ ${n}`).join('\n') : '';
@@ -1703,7 +1865,7 @@ const directXmlRemoveEntryPoint = serializedOnFile(async (
 ): Promise<{ success: boolean; message: string } | null> => {
   const asked = criteria.name ?? criteria.objectName ?? '(unnamed)';
   try {
-    const rawContent = await fs.readFile(filePath, 'utf-8');
+    const rawContent = await readTargetXml(filePath);
     const content = rawContent.replace(/^﻿/, '').replace(/\r\n/g, '\n');
 
     const outcome = removeSecurityEntryPoint(content, criteria);
@@ -1741,7 +1903,7 @@ const directXmlRemoveEntryPoint = serializedOnFile(async (
         };
     }
 
-    await writeFileAtomic(filePath, normalizeD365Xml(outcome.xml));
+    await writeTargetXml(filePath, normalizeD365Xml(outcome.xml));
     const { name, objectName, objectType } = outcome.removed;
     console.error(`[modify_d365fo_file] ✅ directXmlRemoveEntryPoint: removed '${name}' from ${filePath}`);
     return {
@@ -1771,7 +1933,7 @@ const directXmlRemoveDiagnosticSuppression = serializedOnFile(async (
   criteria: { path: string; moniker?: string },
 ): Promise<{ success: boolean; message: string } | null> => {
   try {
-    const rawContent = await fs.readFile(filePath, 'utf-8');
+    const rawContent = await readTargetXml(filePath);
     const content = rawContent.replace(/^﻿/, '').replace(/\r\n/g, '\n');
 
     const outcome = removeDiagnosticSuppression(content, criteria);
@@ -1807,7 +1969,7 @@ const directXmlRemoveDiagnosticSuppression = serializedOnFile(async (
         };
     }
 
-    await writeFileAtomic(filePath, normalizeD365Xml(outcome.xml));
+    await writeTargetXml(filePath, normalizeD365Xml(outcome.xml));
     const { path: removedPath, moniker } = outcome.removed;
     console.error(`[modify_d365fo_file] ✅ directXmlRemoveDiagnosticSuppression: removed '${removedPath}' (${moniker}) from ${filePath}`);
     return {
@@ -1862,7 +2024,7 @@ const directXmlAddDiagnosticSuppression = serializedOnFile(async (
     let content: string;
     let createdFresh = false;
     try {
-      const rawContent = await fs.readFile(filePath, 'utf-8');
+      const rawContent = await readTargetXml(filePath);
       content = rawContent.replace(/^﻿/, '').replace(/\r\n/g, '\n');
     } catch (readErr: any) {
       if (readErr?.code !== 'ENOENT') throw readErr;
@@ -1905,10 +2067,10 @@ const directXmlAddDiagnosticSuppression = serializedOnFile(async (
 
     // The folder exists for every model that has ever suppressed anything — and
     // for no other, which is exactly the model this branch serves.
-    if (createdFresh) {
+    if (createdFresh && !isPreviewRun()) {
       await fs.mkdir(path.win32.dirname(filePath), { recursive: true });
     }
-    await writeFileAtomic(filePath, normalizeD365Xml(outcome.xml));
+    await writeTargetXml(filePath, normalizeD365Xml(outcome.xml));
     console.error(`[modify_d365fo_file] ✅ directXmlAddDiagnosticSuppression: added '${built.xml.match(/<Path>([\s\S]*?)<\/Path>/)?.[1] ?? '?'}' to ${filePath}`);
 
     const warningText = built.warnings.length ? built.warnings.map(w => `⚠️ ${w}`).join('\n') + '\n' : '';
@@ -1968,7 +2130,7 @@ export const directXmlEnsureRelationProperties = serializedOnFile(async (
   relationshipType: string,
 ): Promise<{ applied: string[] } | null> => {
   try {
-    const rawContent = await fs.readFile(filePath, 'utf-8');
+    const rawContent = await readTargetXml(filePath);
     const content = rawContent.replace(/^﻿/, '').replace(/\r\n/g, '\n');
 
     // Locate the <AxTableRelation> block that carries this <Name>.
@@ -2012,7 +2174,7 @@ export const directXmlEnsureRelationProperties = serializedOnFile(async (
     if (applied.length === 0 || patched === block) return { applied: [] };
 
     const updated = content.replace(block, patched);
-    await writeFileAtomic(filePath, normalizeD365Xml(updated));
+    await writeTargetXml(filePath, normalizeD365Xml(updated));
     console.error(
       `[modify_d365fo_file] ✅ directXmlEnsureRelationProperties: ${applied.join(', ')} on '${relationName}' in ${filePath}`,
     );
@@ -2519,12 +2681,50 @@ const ModifyD365FileArgsSchema = z.object({
   peerOperations: z.array(z.string()).optional().describe(
     'Internal: the operation names travelling in the same operations[] batch.'
   ),
+
+  dryRun: z.boolean().optional().default(false).describe(
+    'Preview only: compute the change as an in-memory XML splice and return it as a unified diff.'
+  ),
 });
 
+/**
+ * dryRun=true — the operation runs through the same gates and XML writer, the
+ * writer's output stays in memory (see writePreview.ts), and the reply is the
+ * diff of what it would write. A bridge operation is previewed from its XML
+ * splice; one with no splice is refused.
+ */
+async function previewModification(
+  request: CallToolRequest,
+  context: XppServerContext,
+): Promise<ReturnType<typeof renderPreview>> {
+  const { dryRun: _dryRun, ...rest } = (request.params.arguments ?? {}) as Record<string, unknown>;
+  const kind = previewKind(String(rest.operation), String(rest.objectType));
+  if (!kind) {
+    return {
+      content: [{ type: 'text', text: `❌ ${bridgeOnlyPreviewRefusal(String(rest.operation), String(rest.objectType))}` }],
+      isError: true,
+    };
+  }
+  const { result, diffs } = await previewWrites<Parameters<typeof renderPreview>[1]>(() => modifyD365FileTool(
+    { ...request, params: { ...request.params, arguments: rest } },
+    context,
+  ));
+  return renderPreview(
+    `${String(rest.operation)} on ${String(rest.objectType)} "${String(rest.objectName ?? rest.filePath)}"`,
+    result,
+    diffs,
+    kind === 'spliced',
+  );
+}
+
 export async function modifyD365FileTool(request: CallToolRequest, context: XppServerContext) {
   const timer = createPhaseTimer();
   try {
     const args = ModifyD365FileArgsSchema.parse(request.params.arguments);
+    if (args.dryRun) return await previewModification(request, context);
+    // Inside previewWrites: the XML writer keeps its output in memory, and every
+    // step below that touches the disk, the index or the bridge stands down.
+    const preview = isPreviewRun();
 
     // ── Silent-parameter-drop guard (corpus cluster #35, #6) ─────────────────
     // The published schema advertises a free-form `params` object and the Zod
@@ -2957,7 +3157,11 @@ export async function modifyD365FileTool(request: CallToolRequest, context: XppS
     //    git checkout) cannot revert the change — force a backup even with
     //    createBackup=false so a bad modify is never unrecoverable. Skipped
     //    outright when the file does not exist yet: there is nothing to back up.
-    const backupNote = targetFileExists ? await ensureRecoverableModification(actualFilePath, createBackup) : '';
+    const backupNote = targetFileExists && !preview
+      ? await ensureRecoverableModification(actualFilePath, createBackup)
+      : '';
+    // The bridge and every direct-XML fallback below write this one file.
+    if (!preview) await captureJournalPreImage(actualFilePath);
 
     // 3b. Derive the authoritative object name from the resolved file path.
     //     The caller may pass objectName="RentEquipment" while the file on disk
@@ -2988,6 +3192,10 @@ export async function modifyD365FileTool(request: CallToolRequest, context: XppS
     if (!canBridgeModify(objectType, operation)) {
       throw new Error(`Operation '${operation}' on object type '${objectType}' is not supported by the bridge.`);
     }
+    // An operations[] entry reaches here without the up-front check previewModification makes.
+    if (preview && !previewKind(operation, objectType)) {
+      throw new Error(bridgeOnlyPreviewRefusal(operation, objectType));
+    }
 
     // The field name as the caller spelled it, before the prefix below rewrites it:
     // the enum-name derivation in add-field matches against the UNPREFIXED name
@@ -3034,9 +3242,14 @@ export async function modifyD365FileTool(request: CallToolRequest, context: XppS
     // an object written moments ago resolves on the FIRST attempt. Without this the
     // retry loop below would still recover — at the cost of a wasted bridge round
     // trip plus a full rebuild. Free when no write is outstanding.
-    await timer.time('provider refresh (pending writes)', () => debouncedRefresh.flush());
+    if (!preview) await timer.time('provider refresh (pending writes)', () => debouncedRefresh.flush());
 
     let bridgeResult: { success: boolean; message: string; viaXmlFallback?: boolean } | null = null;
+    // A dryRun never reaches the bridge: its writes cannot run without saving. Methods
+    // are spliced into the XML instead; operations with an XML fallback use that.
+    const addMethod = async (name: string, source: string) => preview
+      ? viaXmlFallback(await directXmlAddMethod(actualFilePath, name, source))
+      : bridgeAddMethod(context.bridge, objectType, objectName, name, source);
     /** File content captured before a replace-code, to diff the reply against. */
     let replaceCodeBefore: string | null = null;
     let _bridgeRetried = false;
@@ -3079,7 +3292,7 @@ export async function modifyD365FileTool(request: CallToolRequest, context: XppS
                   `Ensure each method has a complete signature (e.g. "public void foo()").`,
                 );
               }
-              lastResult = await bridgeAddMethod(context.bridge, objectType, objectName, mName, body);
+              lastResult = await addMethod(mName, body);
               if (!lastResult) {
                 throw new Error(
                   `Bridge add-method failed for '${mName}' (${added.length} of ${bodies.length} method(s) added successfully: ${added.join(', ') || 'none'}).`,
@@ -3092,13 +3305,7 @@ export async function modifyD365FileTool(request: CallToolRequest, context: XppS
               ? { ...lastResult, message: `Added ${added.length} methods: ${added.join(', ')}` }
               : null;
           } else if (args.methodName) {
-            bridgeResult = await bridgeAddMethod(
-              context.bridge,
-              objectType,
-              objectName,
-              args.methodName,
-              methodSource,
-            );
+            bridgeResult = await addMethod(args.methodName, methodSource);
           }
         }
         break;
@@ -3117,13 +3324,7 @@ export async function modifyD365FileTool(request: CallToolRequest, context: XppS
             `\`${(args as any).displayMethodReturnEdt}\` (stub — fill in the computation).`;
         }
         if (methodName && methodSource) {
-          bridgeResult = await bridgeAddMethod(
-            context.bridge,
-            objectType,
-            objectName,
-            methodName,
-            methodSource,
-          );
+          bridgeResult = await addMethod(methodName, methodSource);
         }
         break;
       }
@@ -3152,18 +3353,14 @@ export async function modifyD365FileTool(request: CallToolRequest, context: XppS
           methodName = (args as any).tableMethodType as string;
         }
         if (methodName && methodSource) {
-          bridgeResult = await bridgeAddMethod(
-            context.bridge,
-            objectType,
-            objectName,
-            methodName,
-            methodSource,
-          );
+          bridgeResult = await addMethod(methodName, methodSource);
         }
         break;
       }
       case 'remove-method': {
-        if (args.methodName) {
+        if (args.methodName && preview) {
+          bridgeResult = viaXmlFallback(await directXmlRemoveMethod(actualFilePath, args.methodName));
+        } else if (args.methodName) {
           bridgeResult = await bridgeRemoveMethod(
             context.bridge,
             objectType,
@@ -3197,7 +3394,7 @@ export async function modifyD365FileTool(request: CallToolRequest, context: XppS
               isError: true,
             };
           }
-          bridgeResult = await bridgeAddField(
+          bridgeResult = preview ? null : await bridgeAddField(
             context.bridge,
             objectName,
             args.fieldName,
@@ -3297,6 +3494,13 @@ export async function modifyD365FileTool(request: CallToolRequest, context: XppS
         // field does not need one. Requiring an EDT here is what used to send callers off
         // building an AxEdtEnum wrapper, guessing at <Extends>, and failing the build twice
         // before getting there. fieldType stays accepted for the rarer "enum EDT" case.
+        if (args.fieldName && enumTypeArg && preview) {
+          bridgeResult = viaXmlFallback(await directXmlAddTableField(actualFilePath, {
+            name: args.fieldName, type: 'Enum', edt: args.fieldType, enumType: enumTypeArg,
+            mandatory: args.fieldMandatory, label: args.fieldLabel,
+          }));
+          break;
+        }
         if (args.fieldName && enumTypeArg) {
           bridgeResult = await bridgeAddField(
             context.bridge,
@@ -3360,15 +3564,19 @@ export async function modifyD365FileTool(request: CallToolRequest, context: XppS
               baseType = edtName; // bridge will apply its own name heuristics
             }
           }
-          bridgeResult = await bridgeAddField(
-            context.bridge,
-            objectName,
-            args.fieldName,
-            baseType,
-            edtName,
-            args.fieldMandatory,
-            args.fieldLabel,
-          );
+          bridgeResult = preview
+            ? viaXmlFallback(await directXmlAddTableField(actualFilePath, {
+              name: args.fieldName, type: baseType, edt: edtName, mandatory: args.fieldMandatory, label: args.fieldLabel,
+            }))
+            : await bridgeAddField(
+              context.bridge,
+              objectName,
+              args.fieldName,
+              baseType,
+              edtName,
+              args.fieldMandatory,
+              args.fieldLabel,
+            );
         }
         break;
       }
@@ -3449,7 +3657,7 @@ export async function modifyD365FileTool(request: CallToolRequest, context: XppS
           // used to get a bare "expected boolean" rejection (#27). Accept both.
           const allowDuplicates = coerceNoYesFlag((args as any).indexAllowDuplicates);
           const alternateKey = coerceNoYesFlag((args as any).indexAlternateKey);
-          bridgeResult = await bridgeAddIndex(
+          bridgeResult = preview ? null : await bridgeAddIndex(
             context.bridge,
             objectName,
             (args as any).indexName,
@@ -3711,7 +3919,7 @@ export async function modifyD365FileTool(request: CallToolRequest, context: XppS
             }
           }
 
-          bridgeResult = await bridgeSetProperty(
+          bridgeResult = preview ? null : await bridgeSetProperty(
             context.bridge,
             objectType,
             objectName,
@@ -3725,7 +3933,7 @@ export async function modifyD365FileTool(request: CallToolRequest, context: XppS
           if (!bridgeResult || !bridgeResult.success) {
             const xmlFallbackResult = await directXmlModifyProperty(
               actualFilePath, args.propertyPath, String(args.propertyValue),
-              describeBridgeFallbackReason(context.bridge, objectType, 'modify-property', bridgeResult),
+              preview ? 'a dryRun previews the XML splice' : describeBridgeFallbackReason(context.bridge, objectType, 'modify-property', bridgeResult),
             );
             if (xmlFallbackResult) {
               bridgeResult = viaXmlFallback(xmlFallbackResult);
@@ -3777,7 +3985,7 @@ export async function modifyD365FileTool(request: CallToolRequest, context: XppS
           }
 
           // Try bridge first
-          bridgeResult = await bridgeReplaceCode(
+          bridgeResult = preview ? null : await bridgeReplaceCode(
             context.bridge,
             objectType,
             objectName,
@@ -3793,7 +4001,7 @@ export async function modifyD365FileTool(request: CallToolRequest, context: XppS
           if (!bridgeResult || !bridgeResult.success) {
             const xmlFallbackResult = await directXmlReplaceCode(
               actualFilePath, args.oldCode!, args.newCode!,
-              describeBridgeFallbackReason(context.bridge, objectType, 'replace-code', bridgeResult),
+              preview ? 'a dryRun previews the XML splice' : describeBridgeFallbackReason(context.bridge, objectType, 'replace-code', bridgeResult),
             );
             if (xmlFallbackResult) {
               bridgeResult = viaXmlFallback(xmlFallbackResult);
@@ -4003,7 +4211,7 @@ export async function modifyD365FileTool(request: CallToolRequest, context: XppS
       }
       case 'add-menu-item-to-menu': {
         if ((args as any).menuItemToAdd) {
-          bridgeResult = await bridgeAddMenuItemToMenu(
+          bridgeResult = preview ? null : await bridgeAddMenuItemToMenu(
             context.bridge,
             objectName,
             (args as any).menuItemToAdd,
@@ -4042,7 +4250,7 @@ export async function modifyD365FileTool(request: CallToolRequest, context: XppS
       // null — the object was likely written this session and isn't in the
       // bridge's metadata model yet (roots are fixed at startup). Refresh once
       // and re-run the operation. Afterwards the normal error path takes over.
-      if (missing.length === 0 && !_bridgeRetried && context.bridge) {
+      if (missing.length === 0 && !_bridgeRetried && context.bridge && !preview) {
         console.error(
           `[modify_d365fo_file] ⚠️ '${operation}' on '${objectName}' returned null — ` +
           `refreshing bridge provider and retrying once`,
@@ -4065,6 +4273,14 @@ export async function modifyD365FileTool(request: CallToolRequest, context: XppS
         );
       }
 
+      // A dryRun never asked the bridge: null means the splice found no place for the change.
+      if (preview) {
+        throw new Error(
+          `dryRun could not preview '${operation}': ${actualFilePath} has no element this server's XML ` +
+          `splice can patch for it. Nothing was written.`,
+        );
+      }
+
       // All required params were supplied, yet the bridge returned null (it never
       // attempted the op — e.g. provider not ready). Surface the actionable
       // same-session resolution guidance.
@@ -4143,17 +4359,19 @@ export async function modifyD365FileTool(request: CallToolRequest, context: XppS
     // pipe and can take 60s+, which would block all subsequent MCP calls.
     // See: https://github.com/dynamics365ninja/d365fo-mcp-server/issues/407
     const bridgeValidation = '';
-    bridgeValidateAfterWrite(
-      context.bridge,
-      objectType,
-      objectName,
-    ).then(validationMsg => {
-      if (validationMsg) {
-        console.error(`[modify_d365fo_file] Bridge validation: ${validationMsg}`);
-      }
-    }).catch(e => {
-      console.error(`[modify_d365fo_file] Bridge validation skipped: ${e}`);
-    });
+    if (!preview) {
+      bridgeValidateAfterWrite(
+        context.bridge,
+        objectType,
+        objectName,
+      ).then(validationMsg => {
+        if (validationMsg) {
+          console.error(`[modify_d365fo_file] Bridge validation: ${validationMsg}`);
+        }
+      }).catch(e => {
+        console.error(`[modify_d365fo_file] Bridge validation skipped: ${e}`);
+      });
+    }
 
     // Register the edited file in the ACTIVE project unless it is already there.
     //
@@ -4164,7 +4382,7 @@ export async function modifyD365FileTool(request: CallToolRequest, context: XppS
     // The previous gate stopped at 'registered somewhere', which left an edited
     // object missing from the very project it was edited in.
     let projectMessage = '';
-    if (args.addToProject) {
+    if (args.addToProject && !preview) {
       const configManager = getConfigManager();
       await configManager.ensureLoaded();
 
@@ -4200,7 +4418,7 @@ export async function modifyD365FileTool(request: CallToolRequest, context: XppS
 
     // The offline rule set on the same text. The object's <Declaration> supplies
     // the class header a method snippet lacks; without it, fewer rules apply.
-    const xppRuleNote = writtenXpp ? validateWrittenXpp(writtenXpp, afterContent) : '';
+    const xppRuleNote = writtenXpp ? validateWrittenXpp(writtenXpp, afterContent, modelName || undefined) : '';
 
     const changedLinesNote = replaceCodeBefore !== null && afterContent !== null
       ? renderChangedLines(replaceCodeBefore, afterContent)
@@ -4273,7 +4491,7 @@ export async function modifyD365FileTool(request: CallToolRequest, context: XppS
     // making the agent spend a round trip on update_symbol_index for a file this
     // process just wrote, and another on the lookup that failed for want of it,
     // was pure waste.
-    const indexNote = await timer.time('symbol index upsert',
+    const indexNote = preview ? '' : await timer.time('symbol index upsert',
       () => upsertWrittenFileIntoIndex(actualFilePath, context));
 
     // Verify the write here rather than leaving the caller to spend a
@@ -4283,24 +4501,30 @@ export async function modifyD365FileTool(request: CallToolRequest, context: XppS
     // .rnrproj check still happens (config reads are cached).
     const verifyProjectPath =
       args.projectPath || (await getConfigManager().getProjectPath()) || undefined;
-    const verifyNote = renderWriteVerification(
+    const verifyNote = preview ? '' : renderWriteVerification(
       await timer.time('write verification', () => verifyWrittenFile(
         actualFilePath,
         verifyProjectPath,
         membershipOf(objectType, objectName, modelName || getConfigManager().getModelName()),
       )),
     );
-    const bpNote = await timer.time('inline BP check',
-      () => runInlineBpCheck((args as any).bpCheck, objectType, objectName, context));
+    const bpNote = preview
+      ? await timer.time('inline BP check (preview)',
+        async () => runPreviewBpCheck(rawArgs.bpCheck, await readForMatching(actualFilePath), objectName, context))
+      : await timer.time('inline BP check',
+        () => runInlineBpCheck(rawArgs.bpCheck, objectType, objectName, context));
 
     return {
       content: [
         {
           type: 'text',
           text:
-            `✅ ${operation} on ${objectType} "${objectName}" — applied via ${bridgeResult.viaXmlFallback
-              ? "this server's XML writer (no bridge path for this operation)"
-              : 'IMetadataProvider.Update()'}${crossModelNotice}${autoCorrectNote}\n\n` +
+            `✅ ${operation} on ${objectType} "${objectName}" — applied via ${
+              preview && previewKind(operation, objectType) === 'spliced'
+                ? "this server's XML splice (the real call goes through IMetadataProvider.Update())"
+                : bridgeResult.viaXmlFallback
+                  ? "this server's XML writer (no bridge path for this operation)"
+                  : 'IMetadataProvider.Update()'}${crossModelNotice}${autoCorrectNote}\n\n` +
             `**File:** ${actualFilePath}${addControlNote}${generationNote}${bridgeValidation}${projectMessage}\n` +
             `🔧 API: ${bridgeResult.message}${changedLinesNote}${xppLintNote}${xppRuleNote}${addFieldBpNote}${fieldGroupRenderNote}${backupNote}${verifyNote}${indexNote}${bpNote}${timer.render()}` +
             (ignoredParamsWarning ? `\n\n${ignoredParamsWarning}` : '') + `\n\n` +
@@ -0,0 +1,622 @@
+/**
+ * d365fo_file(action="move") — move an object, with its extensions and labels,
+ * from one custom model to another.
+ *
+ * Splitting a model into feature models is a series of these, and by hand each
+ * one means:
+ *   • the XML moved under the target package's AOT folder — and the object's
+ *     extension elements and CoC classes with it (`includeExtensions`);
+ *   • the name re-prefixed when the target model uses another prefix
+ *     (`ConCoreWarranty` → `ConSvcWarranty`), and then every reference renamed as
+ *     d365fo_file(action="rename") would — for the types rename covers. Other
+ *     types keep their name: nothing here can find what references a form;
+ *   • labels from the source model's label file copied into the target's and
+ *     the references re-pointed (`moveLabels`). The source keeps its copy —
+ *     other objects may still use it;
+ *   • the `<Content Include>` taken out of the source model's projects and put
+ *     into the target's;
+ *   • the target descriptor given the references the object was compiled
+ *     against, and the source descriptor the target package when what stays
+ *     behind still uses the object — unless that closes a cycle, which is
+ *     reported instead of written;
+ *   • both models re-indexed.
+ *
+ * Both ends pass the cross-model write guard: a move writes into two models,
+ * and being allowed into one of them says nothing about the other. `dryRun`
+ * lists every file the move would touch. A real run writes inside a change set,
+ * so a failure half-way restores every file.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import type { XppServerContext } from '../../types/context.js';
+import type { XppSymbolIndex } from '../../metadata/symbolIndex.js';
+import { bridgeRefreshProvider } from '../../bridge/index.js';
+import { addModuleReference, findModelDescriptor, parseModuleReferences } from '../../metadata/modelDescriptor.js';
+import {
+  isExtensionOfObject, labelReferencesIn, movedExtensionName, reprefixObjectName, repointLabelReferences,
+  xppIdentifiers, type PrefixTokens,
+} from '../../utils/aotObjectMove.js';
+import { renameAotReferences, renameAotRoot, RENAME_AX_FOLDERS, type RenameableObjectType } from '../../utils/aotObjectRename.js';
+import { writeFileAtomic } from '../../utils/atomicFileWrite.js';
+import { getConfigManager } from '../../utils/configManager.js';
+import { crossModelWriteRefusal, standDownNotice, type CrossModelWriteCheck } from '../../utils/crossModelWriteGuard.js';
+import { resolveEffectivePrefix } from '../../utils/effectivePrefix.js';
+import { detectEol } from '../../utils/eolUtils.js';
+import { deriveExtensionInfix, isStandardModel, resolveRegularObjectPrefixToken } from '../../utils/modelClassifier.js';
+import { findD365FileOnDisk } from '../../utils/objectFileLookup.js';
+import { PackageResolver } from '../../utils/packageResolver.js';
+import { assertWritePathAllowed } from '../../utils/pathContainment.js';
+import { captureJournalPreImage, runChangeSet } from '../../workspace/changeJournal.js';
+import { ProjectFileManager } from '../../workspace/projectFile.js';
+import { includeKey, objectTypeForAxFolder, projectDisplayName, readProjectIncludes } from '../../workspace/projectMembership.js';
+import { parseLabelMap, serializeLabelMap } from './createLabel.js';
+import { INDEX_UPSERT_FAILED, upsertWrittenFileIntoIndex } from './inlineIndexUpsert.js';
+import { checkReferences, collectXml, modelFolders } from './renameObject.js';
+import { resolveAnchorModel } from './writeAnchorGuard.js';
+
+const MoveObjectArgsSchema = z.object({
+  objectType: z.string().min(1),
+  objectName: z.string().min(1),
+  targetModel: z.string().min(1),
+  modelName: z.string().optional(),
+  filePath: z.string().optional(),
+  packagePath: z.string().optional(),
+  includeExtensions: z.boolean().optional().default(true),
+  moveLabels: z.boolean().optional().default(true),
+  reprefix: z.boolean().optional().default(true),
+  targetLabelFileId: z.string().optional(),
+  projectPath: z.string().optional(),
+  targetProjectPath: z.string().optional(),
+  dryRun: z.boolean().optional().default(false),
+});
+
+/** Names listed in a dependency note. */
+const MAX_LISTED = 5;
+
+interface FileChange {
+  from: string;
+  /** Differs from `from` for the files that move. */
+  to: string;
+  text: string;
+  what: string;
+}
+
+interface ProjectChange {
+  project: string;
+  kind: 'remove' | 'add';
+  objectType: string;
+  axFolder: string;
+  name: string;
+  file: string;
+}
+
+type LabelEntry = Parameters<XppSymbolIndex['bulkAddLabels']>[0][number];
+
+const HEAD = 'd365fo_file(action="move")';
+
+function fail(text: string) {
+  return { content: [{ type: 'text' as const, text }], isError: true };
+}
+
+/** The rename type of an AOT folder, for the folders rename can follow references of. */
+const RENAME_TYPE_BY_FOLDER = new Map(
+  Object.entries(RENAME_AX_FOLDERS).map(([type, f]) => [f.object.toLowerCase(), type as RenameableObjectType]),
+);
+
+/** A model's label files: label file id → language → .label.txt path. */
+async function modelLabelFiles(modelDir: string): Promise<Map<string, Map<string, string>>> {
+  const out = new Map<string, Map<string, string>>();
+  const resources = path.join(modelDir, 'AxLabelFile', 'LabelResources');
+  const languages = await fs.readdir(resources).catch(() => [] as string[]);
+  for (const language of languages) {
+    const files = await fs.readdir(path.join(resources, language)).catch(() => [] as string[]);
+    for (const file of files) {
+      const m = /^(.+)\.([^.]+)\.label\.txt$/i.exec(file);
+      if (!m) continue;
+      if (!out.has(m[1])) out.set(m[1], new Map());
+      out.get(m[1])!.set(language, path.join(resources, language, file));
+    }
+  }
+  return out;
+}
+
+/** The `language` file of a label file, falling back to en-US and then to any. */
+function labelFileFor(files: Map<string, string>, language: string): string | undefined {
+  const byLower = new Map([...files].map(([l, f]) => [l.toLowerCase(), f]));
+  return byLower.get(language.toLowerCase()) ?? byLower.get('en-us') ?? [...files.values()][0];
+}
+
+function prefixTokens(model: string): PrefixTokens {
+  const { prefix } = resolveEffectivePrefix(model);
+  return { regular: resolveRegularObjectPrefixToken(model), infix: deriveExtensionInfix(prefix, model) };
+}
+
+function listed(names: string[]): string {
+  const shown = names.slice(0, MAX_LISTED).join(', ');
+  return names.length > MAX_LISTED ? `${shown} and ${names.length - MAX_LISTED} more` : shown;
+}
+
+export async function moveObjectTool(
+  rest: Record<string, unknown>,
+  context: XppServerContext | undefined,
+): Promise<{ content: Array<{ type: 'text'; text: string }>; isError?: boolean }> {
+  const parsed = MoveObjectArgsSchema.safeParse(rest);
+  if (!parsed.success) {
+    return fail(
+      `❌ ${HEAD}: invalid arguments — ${parsed.error.message}\n` +
+      'get_knowledge(kind="op-spec", topic="move") has the contract.',
+    );
+  }
+  const args = parsed.data;
+  const configManager = getConfigManager();
+
+  // ── 1. The object and both models ───────────────────────────────────────────
+  const filePath = args.filePath ?? await findD365FileOnDisk(args.objectType, args.objectName, args.modelName, args.packagePath);
+  if (!filePath) {
+    return fail(`❌ ${HEAD}: ${args.objectType} "${args.objectName}" was not found on disk — check the name and modelName.`);
+  }
+  const objectName = path.basename(filePath, '.xml');
+  const objectFolder = path.basename(path.dirname(filePath));
+
+  const extraRoots = args.packagePath ? [args.packagePath] : undefined;
+  const containment = await assertWritePathAllowed(filePath, args.modelName, { extraRoots });
+  if (!containment.ok) {
+    return fail(`❌ Refusing to move ${filePath}: ${containment.reason ?? 'path containment check failed'}`);
+  }
+  const sourceDir = path.dirname(path.dirname(filePath));
+  const sourceModel = containment.modelSegment ?? path.basename(sourceDir);
+  const sourcePackage = path.basename(path.dirname(sourceDir));
+  const sourceRoot = path.dirname(path.dirname(sourceDir));
+
+  const target = await new PackageResolver([sourceRoot, ...(args.packagePath ? [args.packagePath] : [])])
+    .resolve(args.targetModel)
+    .catch(() => null);
+  if (!target) {
+    return fail(`❌ ${HEAD}: model "${args.targetModel}" was not found under ${sourceRoot} — create it first, or pass packagePath.`);
+  }
+  const targetModel = target.modelName;
+  const targetDir = path.join(target.rootPath, target.packageName, targetModel);
+  if (targetModel.toLowerCase() === sourceModel.toLowerCase()) {
+    return fail(`❌ ${HEAD}: "${objectName}" is already in model "${targetModel}".`);
+  }
+  for (const model of [sourceModel, targetModel]) {
+    if (isStandardModel(model)) {
+      return fail(
+        `⛔ Refusing to move "${objectName}" — "${model}" is a standard Microsoft model. ` +
+        'Objects move between your own models only.',
+      );
+    }
+  }
+
+  const anchor = await resolveAnchorModel(configManager);
+  const guards: CrossModelWriteCheck[] = [
+    [sourceModel, sourcePackage],
+    [targetModel, target.packageName],
+  ].map(([owningModel, owningPackage]) => ({
+    objectName,
+    objectType: args.objectType,
+    owningModel,
+    owningPackage,
+    activeModel: anchor,
+    toolSwitchedModel: configManager.getToolProjectSwitch()?.forcedModel ?? null,
+    action: 'move' as const,
+  }));
+  for (const guard of guards) {
+    const refusal = crossModelWriteRefusal(guard);
+    if (refusal) return fail(refusal);
+  }
+
+  // ── 2. What moves, and under which names ────────────────────────────────────
+  const fromTokens = prefixTokens(sourceModel);
+  const toTokens = args.reprefix ? prefixTokens(targetModel) : fromTokens;
+  const renameType = RENAME_TYPE_BY_FOLDER.get(objectFolder.toLowerCase());
+  const reprefixed = reprefixObjectName(objectName, fromTokens, toTokens);
+  // Extension elements are referenced by nothing, so they re-prefix freely; other
+  // objects only when rename can follow their references.
+  const canRename = !!renameType || objectFolder.toLowerCase().endsWith('extension');
+  const newName = canRename ? reprefixed : objectName;
+  const notes: string[] = [];
+  if (reprefixed !== objectName && !canRename) {
+    notes.push(
+      `ℹ️ Kept the name "${objectName}": references to an ${objectFolder} cannot be followed, so it is not ` +
+      `re-prefixed to "${reprefixed}". Rename it separately if it should be.`,
+    );
+  }
+
+  const sourceFiles = await collectXml(sourceDir);
+  const texts = new Map<string, string>();
+  for (const file of sourceFiles) {
+    const xml = await fs.readFile(file, 'utf-8').catch(() => null);
+    if (xml !== null) texts.set(file, xml);
+  }
+  if (!texts.has(filePath)) return fail(`❌ ${HEAD}: ${filePath} could not be read — nothing moved.`);
+  const moving = new Map<string, string>([[filePath, newName]]);
+  if (args.includeExtensions) {
+    for (const [file, xml] of texts) {
+      const axFolder = path.basename(path.dirname(file));
+      const name = path.basename(file, '.xml');
+      if (file !== filePath && isExtensionOfObject(axFolder, name, xml, objectFolder, objectName)) {
+        moving.set(file, movedExtensionName(name, objectName, newName, fromTokens, toTokens));
+      }
+    }
+  }
+
+  const destinationOf = (file: string) =>
+    path.join(targetDir, path.basename(path.dirname(file)), `${moving.get(file)}.xml`);
+  const taken: string[] = [];
+  for (const file of moving.keys()) {
+    if (await fs.access(destinationOf(file)).then(() => true, () => false)) taken.push(`  • ${destinationOf(file)}`);
+  }
+  if (taken.length > 0) {
+    return fail([`❌ ${HEAD}: nothing moved — model "${targetModel}" already has:`, ...taken].join('\n'));
+  }
+
+  // ── 3. References, when the name changes ────────────────────────────────────
+  const rewritten = new Map<string, { text: string; what: string[] }>();
+  const edit = (file: string, text: string, what: string) => {
+    const entry = rewritten.get(file) ?? { text: texts.get(file)!, what: [] };
+    entry.text = text;
+    entry.what.push(what);
+    rewritten.set(file, entry);
+  };
+  const current = (file: string) => rewritten.get(file)?.text ?? texts.get(file)!;
+
+  let referenceSource: string | null = null;
+  if (newName !== objectName && renameType) {
+    const references = await checkReferences(context, renameType, objectName, sourceModel);
+    if (references.standard.length > 0) {
+      return fail(
+        `⛔ Refusing to move ${args.objectType} "${objectName}" under the name "${newName}" — standard models reference ` +
+        `it: ${listed(references.standard)}. Pass reprefix=false to keep the name.`,
+      );
+    }
+    referenceSource = references.source;
+    const others = await modelFolders(references.models, [sourceRoot, target.rootPath]);
+    for (const dir of [targetDir, ...others]) {
+      for (const file of await collectXml(dir)) {
+        if (texts.has(file)) continue;
+        const xml = await fs.readFile(file, 'utf-8').catch(() => null);
+        if (xml !== null) texts.set(file, xml);
+      }
+    }
+    for (const file of references.files) {
+      if (!file.toLowerCase().endsWith('.xml') || texts.has(file)) continue;
+      const xml = await fs.readFile(file, 'utf-8').catch(() => null);
+      if (xml !== null) texts.set(file, xml);
+    }
+    const caseVariantFiles: string[] = [];
+    for (const file of texts.keys()) {
+      const renamed = renameAotReferences(current(file), renameType, objectName, newName);
+      if (renamed && renamed.caseVariants > 0) caseVariantFiles.push(`${path.basename(file, '.xml')} (${renamed.caseVariants})`);
+      if (renamed && renamed.code + renamed.properties > 0) {
+        const parts: string[] = [];
+        if (renamed.properties > 0) parts.push(`${renamed.properties} propert${renamed.properties === 1 ? 'y' : 'ies'}`);
+        if (renamed.code > 0) parts.push(`${renamed.code} X++ reference${renamed.code === 1 ? '' : 's'}`);
+        edit(file, renamed.xml, parts.join(', '));
+      }
+    }
+    if (caseVariantFiles.length > 0) {
+      notes.push(
+        `⚠️ Identifiers spelled \`${objectName}\` in another casing outside a type position were left as written — ` +
+        `usually a variable named after the type: ${caseVariantFiles.join(', ')}.`,
+      );
+    }
+  }
+  for (const [file, name] of moving) {
+    const old = path.basename(file, '.xml');
+    if (name === old) continue;
+    // A CoC class declares its own name too: `final class Old_Extension`.
+    const own = path.basename(path.dirname(file)) === 'AxClass' && file !== filePath
+      ? renameAotReferences(current(file), 'class', old, name)?.xml ?? current(file)
+      : current(file);
+    const text = renameAotRoot(own, name);
+    if (text === null) return fail(`❌ ${HEAD}: ${file} has no root <Name> — nothing moved.`);
+    edit(file, text, `renamed to ${name}`);
+  }
+
+  // ── 4. Labels ───────────────────────────────────────────────────────────────
+  const labelChanges: FileChange[] = [];
+  const labelEntries: LabelEntry[] = [];
+  let labelsLeftBehind = false;
+  const sourceLabels = await modelLabelFiles(sourceDir);
+  const used = labelReferencesIn([...moving.keys()].map(current).join('\n'), [...sourceLabels.keys()]);
+  if (used.length > 0 && !args.moveLabels) {
+    labelsLeftBehind = true;
+    notes.push(`ℹ️ ${used.length} label(s) stay in "${sourceModel}" (moveLabels=false).`);
+  } else if (used.length > 0) {
+    const targetLabels = await modelLabelFiles(targetDir);
+    const targetFileId = args.targetLabelFileId ??
+      (targetLabels.size === 1 ? [...targetLabels.keys()][0] : undefined);
+    const targetFiles = targetFileId ? targetLabels.get(targetFileId) : undefined;
+    if (!targetFileId || !targetFiles) {
+      labelsLeftBehind = true;
+      notes.push(
+        targetLabels.size === 0
+          ? `⚠️ ${used.length} label(s) stay in "${sourceModel}": model "${targetModel}" has no label file yet — create one with labels(action="create"), then move the labels.`
+          : targetFileId
+            ? `⚠️ ${used.length} label(s) stay in "${sourceModel}": model "${targetModel}" has no label file "${targetFileId}".`
+            : `⚠️ ${used.length} label(s) stay in "${sourceModel}": model "${targetModel}" has several label files — pass targetLabelFileId.`,
+      );
+    } else {
+      const moved = new Set<string>();
+      const conflicts: string[] = [];
+      const sourceMaps = new Map<string, ReturnType<typeof parseLabelMap>>();
+      const sourceMap = async (file: string) => {
+        if (!sourceMaps.has(file)) sourceMaps.set(file, parseLabelMap(await fs.readFile(file, 'utf-8').catch(() => '')));
+        return sourceMaps.get(file)!;
+      };
+      const updates = new Map<string, { content: string; map: ReturnType<typeof parseLabelMap>; added: number; language: string }>();
+      for (const [language, file] of targetFiles) {
+        const content = await fs.readFile(file, 'utf-8').catch(() => '');
+        updates.set(file, { content, map: parseLabelMap(content), added: 0, language });
+      }
+      for (const { labelFileId, labelId } of used) {
+        let ok = true;
+        const additions: Array<[string, { text: string; comment?: string }]> = [];
+        for (const [file, update] of updates) {
+          const from = labelFileFor(sourceLabels.get(labelFileId)!, update.language);
+          const entry = from ? (await sourceMap(from)).get(labelId) : undefined;
+          const existing = update.map.get(labelId);
+          if (!entry) { ok = false; break; }
+          if (existing && existing.text !== entry.text) {
+            conflicts.push(`@${labelFileId}:${labelId} (${update.language})`);
+            ok = false;
+            break;
+          }
+          if (!existing) additions.push([file, { ...entry }]);
+        }
+        if (!ok) continue;
+        for (const [file, entry] of additions) {
+          const update = updates.get(file)!;
+          update.map.set(labelId, entry);
+          update.added++;
+          labelEntries.push({
+            labelId, labelFileId: targetFileId, model: targetModel, language: update.language,
+            text: entry.text, comment: entry.comment, filePath: file,
+          });
+        }
+        moved.add(`${labelFileId}:${labelId}`);
+      }
+      for (const [file, update] of updates) {
+        if (update.added === 0) continue;
+        labelChanges.push({
+          from: file,
+          to: file,
+          text: serializeLabelMap(update.map, false, update.content ? detectEol(update.content) : '\r\n'),
+          what: `${update.added} label(s) added`,
+        });
+      }
+      for (const file of moving.keys()) {
+        const repointed = repointLabelReferences(current(file), moved, targetFileId);
+        if (repointed.count > 0) edit(file, repointed.xml, `${repointed.count} label reference(s) → @${targetFileId}`);
+      }
+      if (moved.size < used.length) labelsLeftBehind = true;
+      if (conflicts.length > 0) {
+        notes.push(
+          `⚠️ Label id(s) already in "${targetFileId}" with other text, left pointing at "${sourceModel}": ${listed(conflicts)}.`,
+        );
+      }
+    }
+  }
+
+  // ── 5. Descriptors ──────────────────────────────────────────────────────────
+  const descriptorChanges: FileChange[] = [];
+  if (sourcePackage.toLowerCase() !== target.packageName.toLowerCase()) {
+    const movedNames = new Set([...moving.values()]);
+    const stay = [...texts.keys()].filter(f => !moving.has(f) && f.startsWith(sourceDir + path.sep));
+    const stayNames = new Set(stay.map(f => path.basename(f, '.xml')));
+    const movedWords = xppIdentifiers([...moving.keys()].map(current).join('\n'));
+    const needsSource = [...stayNames].filter(n => movedWords.has(n));
+    const needMoved = stay.filter(f => [...xppIdentifiers(current(f))].some(w => movedNames.has(w)))
+      .map(f => path.basename(f, '.xml'));
+
+    const sourceDescriptor = findModelDescriptor(sourceRoot, sourceModel);
+    const targetDescriptor = findModelDescriptor(target.rootPath, targetModel);
+    const sourceXml = sourceDescriptor ? await fs.readFile(sourceDescriptor.file, 'utf-8').catch(() => null) : null;
+    const targetXml = targetDescriptor ? await fs.readFile(targetDescriptor.file, 'utf-8').catch(() => null) : null;
+    const sourceRefs = sourceXml ? parseModuleReferences(sourceXml) : [];
+
+    // The object was compiled against the source's references — the target gets
+    // those it lacks, and the source package itself when the object still uses
+    // something that stays there.
+    const wanted = sourceRefs.filter(r => r.toLowerCase() !== target.packageName.toLowerCase());
+    if (needsSource.length > 0 || labelsLeftBehind) wanted.push(sourcePackage);
+    let targetRefs: string[] = [];
+    if (targetXml === null) {
+      notes.push(`⚠️ No readable descriptor for "${targetModel}" — add its module references by hand: ${wanted.join(', ') || 'none'}.`);
+    } else {
+      let text: string | null = targetXml;
+      const added: string[] = [];
+      for (const ref of wanted) {
+        const next: string | null = text === null ? null : addModuleReference(text, ref);
+        if (next !== null && next !== text) added.push(ref);
+        text = next;
+      }
+      if (text === null) {
+        notes.push(`⚠️ The descriptor of "${targetModel}" has no <ModuleReferences> — add by hand: ${wanted.join(', ')}.`);
+      } else if (added.length > 0) {
+        descriptorChanges.push({ from: targetDescriptor!.file, to: targetDescriptor!.file, text, what: `+ ModuleReferences ${added.join(', ')}` });
+      }
+      targetRefs = parseModuleReferences(text ?? targetXml);
+    }
+
+    if (needMoved.length > 0) {
+      const cycle = targetRefs.some(r => r.toLowerCase() === sourcePackage.toLowerCase());
+      if (cycle) {
+        notes.push(
+          `⚠️ "${sourceModel}" still uses what moved (${listed(needMoved)}), and "${targetModel}" references ` +
+          `"${sourcePackage}" — referencing "${target.packageName}" back would be circular, so it was not added. ` +
+          'Move those objects too, or stop them using the moved ones, before building.',
+        );
+      } else if (sourceXml === null) {
+        notes.push(`⚠️ No readable descriptor for "${sourceModel}" — add "${target.packageName}" to its module references by hand.`);
+      } else {
+        const text = addModuleReference(sourceXml, target.packageName);
+        if (text === null) {
+          notes.push(`⚠️ The descriptor of "${sourceModel}" has no <ModuleReferences> — add "${target.packageName}" by hand.`);
+        } else if (text !== sourceXml) {
+          descriptorChanges.push({
+            from: sourceDescriptor!.file, to: sourceDescriptor!.file, text,
+            what: `+ ModuleReferences ${target.packageName} (used by ${listed(needMoved)})`,
+          });
+        }
+      }
+    }
+  }
+
+  // ── 6. Projects ─────────────────────────────────────────────────────────────
+  const projectChanges: ProjectChange[] = [];
+  const sourceProjects = new Set<string>([
+    ...(args.projectPath ? [args.projectPath] : [(await configManager.getProjectPath()) ?? '']),
+    ...(configManager.getProjectsForModel?.(sourceModel) ?? []),
+  ].filter(Boolean));
+  for (const project of sourceProjects) {
+    const includes = await readProjectIncludes(project).catch(() => null);
+    if (!includes) continue;
+    for (const file of moving.keys()) {
+      const axFolder = path.basename(path.dirname(file));
+      const name = path.basename(file, '.xml');
+      if (!includes.has(includeKey(axFolder, name))) continue;
+      projectChanges.push({ project, kind: 'remove', objectType: objectTypeForAxFolder(axFolder) ?? args.objectType, axFolder, name, file });
+    }
+  }
+  const targetProject = args.targetProjectPath ?? configManager.getProjectsForModel?.(targetModel)?.[0];
+  if (targetProject) {
+    for (const file of moving.keys()) {
+      const axFolder = path.basename(path.dirname(file));
+      projectChanges.push({
+        project: targetProject, kind: 'add', objectType: objectTypeForAxFolder(axFolder) ?? args.objectType,
+        axFolder, name: moving.get(file)!, file: destinationOf(file),
+      });
+    }
+  } else {
+    notes.push(`⚠️ No project of "${targetModel}" is configured — add the moved objects to one (targetProjectPath does it).`);
+  }
+
+  // ── 7. Containment of every object written ──────────────────────────────────
+  const changes: FileChange[] = [];
+  for (const file of moving.keys()) {
+    changes.push({
+      from: file,
+      to: destinationOf(file),
+      text: current(file),
+      what: ['moved', ...(rewritten.get(file)?.what ?? [])].join('; '),
+    });
+  }
+  for (const [file, { text, what }] of rewritten) {
+    if (!moving.has(file)) changes.push({ from: file, to: file, text, what: what.join('; ') });
+  }
+  changes.push(...labelChanges, ...descriptorChanges);
+
+  const refused: string[] = [];
+  // Label files and descriptors are not AOT objects — containment judges object paths.
+  for (const change of changes.filter(c => !labelChanges.includes(c) && !descriptorChanges.includes(c))) {
+    const ok = await assertWritePathAllowed(change.to, undefined, { extraRoots: [...(extraRoots ?? []), target.rootPath] });
+    if (!ok.ok) refused.push(`  • ${change.to}: ${ok.reason ?? 'path containment check failed'}`);
+  }
+  if (refused.length > 0) {
+    return fail([`❌ ${HEAD}: nothing moved — some files it would write are outside the allowed roots:`, ...refused].join('\n'));
+  }
+
+  const shown = (f: string) =>
+    f.startsWith(sourceRoot) ? path.relative(sourceRoot, f) : f.startsWith(target.rootPath) ? path.relative(target.rootPath, f) : f;
+  const listing = (mark: string) => [
+    ...changes.map(c => `   ${mark} ${shown(c.from)}${c.to !== c.from ? ` → ${shown(c.to)}` : ''} — ${c.what}`),
+    ...projectChanges.map(p =>
+      `   ${mark} project ${projectDisplayName(p.project)} — ${p.kind === 'add' ? '+' : '−'} ${p.axFolder}\\${p.name}`),
+  ];
+  const resolution = (model: string) => {
+    const r = resolveEffectivePrefix(model);
+    return `"${r.prefix || '(none)'}" (${r.source})`;
+  };
+  const footer = [
+    args.reprefix
+      ? `Prefix: ${resolution(sourceModel)} → ${resolution(targetModel)}`
+      : 'Prefix: kept (reprefix=false).',
+    ...(newName !== objectName && renameType
+      ? [`Standard-model references: ${referenceSource === 'xref' ? 'none (cross-reference DB)' : referenceSource === 'index' ? 'none found (symbol index, by name)' : '⚠️ not checked'}`]
+      : []),
+    ...notes,
+  ];
+  const title = `${args.objectType} \`${objectName}\` ${sourceModel} → ${targetModel}` +
+    `${newName !== objectName ? ` as \`${newName}\`` : ''}`;
+
+  if (args.dryRun) {
+    return {
+      content: [{
+        type: 'text',
+        text: [
+          `🔍 DRY RUN — ${title}: ${changes.length} file(s) and ${projectChanges.length} project include(s) would change, nothing written.`,
+          '',
+          ...listing('○'),
+          '',
+          ...footer,
+          '',
+          '💡 Remove dryRun to apply the move.',
+        ].join('\n'),
+      }],
+    };
+  }
+
+  // ── 8. Write, all or nothing ────────────────────────────────────────────────
+  try {
+    await runChangeSet(async () => {
+      for (const change of changes) {
+        await fs.mkdir(path.dirname(change.to), { recursive: true });
+        await captureJournalPreImage(change.to);
+        await writeFileAtomic(change.to, change.text);
+        if (change.to !== change.from) {
+          await captureJournalPreImage(change.from);
+          await fs.unlink(change.from);
+        }
+      }
+      const projects = new ProjectFileManager();
+      for (const p of projectChanges) {
+        if (p.kind === 'remove') await projects.removeFromProject(p.project, p.objectType, p.name);
+        else await projects.addToProject(p.project, p.objectType, p.name, p.file);
+      }
+    });
+  } catch (e) {
+    return fail(`❌ ${HEAD}: the move failed and every file was restored — ${(e as Error).message}`);
+  }
+
+  // ── 9. Re-index both models ─────────────────────────────────────────────────
+  const indexFailures: string[] = [];
+  for (const change of changes) {
+    if (labelChanges.includes(change) || descriptorChanges.includes(change)) continue;
+    if (change.to !== change.from) {
+      try { context?.symbolIndex?.removeSymbolsByFile?.(change.from); } catch { /* re-indexed below */ }
+    }
+    const note = await upsertWrittenFileIntoIndex(change.to, context);
+    if (note.includes(INDEX_UPSERT_FAILED)) indexFailures.push(change.to);
+  }
+  if (labelEntries.length > 0) {
+    try {
+      context?.symbolIndex?.bulkAddLabels(labelEntries, { skipFtsRebuild: true, keepTriggers: true });
+    } catch {
+      indexFailures.push('labels');
+    }
+  }
+  try {
+    await bridgeRefreshProvider(context?.bridge);
+  } catch { /* bridge not available — nothing loaded it anyway */ }
+
+  return {
+    content: [{
+      type: 'text',
+      text: [
+        `✅ ${HEAD}: ${title} — ${changes.length} file(s) and ${projectChanges.length} project include(s) changed.`,
+        '',
+        ...listing('✔'),
+        '',
+        ...footer,
+        ...(indexFailures.length > 0
+          ? [`${INDEX_UPSERT_FAILED} for ${indexFailures.length} file(s) — run update_symbol_index for both models.`]
+          : []),
+        '💡 Build both models to confirm, and undo_last_modification reverts the whole move.',
+      ].join('\n') + guards.map(standDownNotice).join(''),
+    }],
+  };
+}
@@ -22,6 +22,7 @@ import { defaultPackagesRoot } from '../../utils/packagesRoot.js';
 import { PackageResolver } from '../../utils/packageResolver.js';
 import { detectEol } from '../../utils/eolUtils.js';
 import { isExtensionLabelFile } from '../../metadata/labelParser.js';
+import { captureJournalPreImage } from '../../workspace/changeJournal.js';
 
 const UTF8_BOM = '\uFEFF';
 
@@ -308,6 +309,7 @@ export async function renameLabelTool(request: CallToolRequest, context: XppServ
 
       labelTxtChanges.push({ file: txtPath, replacements: 1 });
       if (!dryRun) {
+        await captureJournalPreImage(txtPath);
         await fs.writeFile(txtPath, newContent, 'utf-8');
       }
     }
@@ -324,6 +326,7 @@ export async function renameLabelTool(request: CallToolRequest, context: XppServ
 
       xppChanges.push({ file: xppFile, replacements: count });
       if (!dryRun) {
+        await captureJournalPreImage(xppFile);
         await fs.writeFile(xppFile, newContent, 'utf-8');
       }
     }
@@ -343,6 +346,7 @@ export async function renameLabelTool(request: CallToolRequest, context: XppServ
 
       xmlChanges.push({ file: xmlFile, replacements: count });
       if (!dryRun) {
+        await captureJournalPreImage(xmlFile);
         await fs.writeFile(xmlFile, newContent, 'utf-8');
       }
     }
@@ -0,0 +1,382 @@
+/**
+ * d365fo_file(action="rename") — rename a class, table, EDT or enum and every
+ * reference to it.
+ *
+ * rename-field and labels(action="rename") cover a member and a label; an
+ * object rename touches far more, and by hand it means finding every one of:
+ *   • X++ that names it — declarations, `Old::find()`, `tableStr(Old)`, `extends`;
+ *   • metadata that names it — data source <Table>, <RelatedTable>, an EDT's
+ *     <Extends> or a field's <ExtendedDataType>/<EnumType>, a menu item's
+ *     <Object>, a privilege's table permission;
+ *   • objects named after it — `Old.ContosoExtension`, a CoC `Old_Extension`
+ *     class with `[ExtensionOf(classStr(Old))]`;
+ *   • the `<Content Include>` of each renamed file in the model's .rnrproj.
+ * The text side of each lives in utils/aotObjectRename.ts.
+ *
+ * Which files are read: every AOT file of the owning model, plus the files of
+ * other custom models the cross-reference DB (or, without the bridge, the
+ * symbol index — by name) reports as referencing the object. A reference from
+ * a standard Microsoft model refuses the rename outright: that code cannot be
+ * changed, and it would stop compiling.
+ *
+ * `dryRun` lists every file the rename would touch and writes nothing. A real
+ * run writes inside a change set, so a failure half-way restores every file,
+ * and each write goes through path containment and the change journal.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import type { XppServerContext } from '../../types/context.js';
+import { bridgeReferenceRows } from '../../bridge/bridgeAdapter.js';
+import { bridgeRefreshProvider } from '../../bridge/index.js';
+import {
+  derivedObjectName, renameAotReferences, renameAotRoot, renameProjectIncludes,
+  RENAME_AX_FOLDERS, RENAME_XREF_CONTAINERS, RENAMEABLE_OBJECT_TYPES, type RenameableObjectType,
+} from '../../utils/aotObjectRename.js';
+import { writeFileAtomic } from '../../utils/atomicFileWrite.js';
+import { getConfigManager } from '../../utils/configManager.js';
+import { isStandardModel } from '../../utils/modelClassifier.js';
+import { findD365FileOnDisk } from '../../utils/objectFileLookup.js';
+import { PackageResolver } from '../../utils/packageResolver.js';
+import { assertWritePathAllowed } from '../../utils/pathContainment.js';
+import { captureJournalPreImage, runChangeSet } from '../../workspace/changeJournal.js';
+import { projectDisplayName } from '../../workspace/projectMembership.js';
+import { INDEX_UPSERT_FAILED, upsertWrittenFileIntoIndex } from './inlineIndexUpsert.js';
+
+const RenameObjectArgsSchema = z.object({
+  objectType: z.enum(RENAMEABLE_OBJECT_TYPES),
+  objectName: z.string().min(1),
+  newName: z.string().regex(/^[A-Za-z][A-Za-z0-9_]*$/, 'newName must be an X++ identifier'),
+  modelName: z.string().optional(),
+  filePath: z.string().optional(),
+  packagePath: z.string().optional(),
+  projectPath: z.string().optional(),
+  dryRun: z.boolean().optional().default(false),
+});
+
+/** Standard-model references listed in a refusal. */
+const MAX_LISTED = 20;
+
+interface FileChange {
+  /** The file as it is now. */
+  from: string;
+  /** Where it is written — differs from `from` when the object itself is renamed. */
+  to: string;
+  text: string;
+  what: string;
+}
+
+export interface ReferenceCheck {
+  /** How references outside the model were looked for; null when they could not be. */
+  source: 'xref' | 'index' | null;
+  standard: string[];
+  /** Custom models other than the owner's that reference the object (xref). */
+  models: Set<string>;
+  /** Files outside the owner's model that reference the object (symbol index). */
+  files: Set<string>;
+}
+
+const HEAD = 'd365fo_file(action="rename")';
+
+function fail(text: string) {
+  return { content: [{ type: 'text' as const, text }], isError: true };
+}
+
+/** Every AOT .xml file under a model folder. */
+export async function collectXml(dir: string): Promise<string[]> {
+  const out: string[] = [];
+  let entries: import('fs').Dirent[];
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return out;
+  }
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name !== 'AxLabelFile') out.push(...(await collectXml(full)));
+    } else if (entry.name.toLowerCase().endsWith('.xml')) {
+      out.push(full);
+    }
+  }
+  return out;
+}
+
+/**
+ * Who outside the owning model references the object: the xref DB when the
+ * bridge has it, else method sources in the symbol index that name it.
+ */
+export async function checkReferences(
+  context: XppServerContext | undefined,
+  objectType: RenameableObjectType,
+  objectName: string,
+  owningModel: string,
+): Promise<ReferenceCheck> {
+  const check: ReferenceCheck = { source: null, standard: [], models: new Set(), files: new Set() };
+  const own = owningModel.toLowerCase();
+
+  const rows = await bridgeReferenceRows(context?.bridge, `/${RENAME_XREF_CONTAINERS[objectType]}/${objectName}`);
+  if (rows !== null) {
+    check.source = 'xref';
+    for (const r of rows) {
+      const model = r.sourceModule;
+      if (!model || model.toLowerCase() === own) continue;
+      if (isStandardModel(model)) check.standard.push(`${r.sourcePath} (${model})`);
+      else check.models.add(model);
+    }
+    return check;
+  }
+
+  try {
+    const db = context?.symbolIndex?.getReadDb();
+    if (!db) return check;
+    const word = new RegExp(`\\b${objectName}\\b`);
+    const hits = db.prepare(
+      `SELECT name, parent_name, model, file_path, source_snippet FROM symbols
+        WHERE id IN (SELECT rowid FROM symbols_fts WHERE symbols_fts MATCH ?) LIMIT 500`,
+    ).all(`{source_snippet} : "${objectName}"`) as any[];
+    const subclasses = objectType === 'class'
+      ? db.prepare(`SELECT name, parent_name, model, file_path FROM symbols WHERE type = 'class' AND extends_class = ?`).all(objectName) as any[]
+      : [];
+    check.source = 'index';
+    for (const r of [...hits.filter(h => word.test(h.source_snippet ?? '')), ...subclasses]) {
+      if (!r.model || String(r.model).toLowerCase() === own) continue;
+      const where = r.parent_name ? `${r.parent_name}.${r.name}` : r.name;
+      if (isStandardModel(r.model)) check.standard.push(`${where} (${r.model})`);
+      else if (r.file_path) check.files.add(r.file_path);
+    }
+  } catch {
+    check.source = null;
+  }
+  return check;
+}
+
+/** Model folders of the custom models the xref DB named, under the same packages roots. */
+export async function modelFolders(models: Set<string>, roots: string[]): Promise<string[]> {
+  if (models.size === 0) return [];
+  const resolver = new PackageResolver(roots);
+  const dirs: string[] = [];
+  for (const model of models) {
+    const resolved = await resolver.resolve(model).catch(() => null);
+    if (resolved) dirs.push(path.join(resolved.rootPath, resolved.packageName, model));
+  }
+  return dirs;
+}
+
+function describe(code: number, properties: number): string {
+  const parts: string[] = [];
+  if (properties > 0) parts.push(`${properties} propert${properties === 1 ? 'y' : 'ies'}`);
+  if (code > 0) parts.push(`${code} X++ reference${code === 1 ? '' : 's'}`);
+  return parts.join(', ');
+}
+
+export async function renameObjectTool(
+  rest: Record<string, unknown>,
+  context: XppServerContext | undefined,
+): Promise<{ content: Array<{ type: 'text'; text: string }>; isError?: boolean }> {
+  const parsed = RenameObjectArgsSchema.safeParse(rest);
+  if (!parsed.success) {
+    return fail(
+      `❌ ${HEAD}: invalid arguments — ${parsed.error.message}\n` +
+      'get_knowledge(kind="op-spec", topic="rename") has the contract.',
+    );
+  }
+  const args = parsed.data;
+  const { objectType, newName } = args;
+
+  // ── 1. The object ───────────────────────────────────────────────────────────
+  const filePath = args.filePath ?? await findD365FileOnDisk(objectType, args.objectName, args.modelName, args.packagePath);
+  if (!filePath) {
+    return fail(`❌ ${HEAD}: ${objectType} "${args.objectName}" was not found on disk — check the name and modelName.`);
+  }
+  const objectName = path.basename(filePath, '.xml');
+  if (objectName === newName) return fail(`❌ ${HEAD}: "${objectName}" already has that name.`);
+
+  const extraRoots = args.packagePath ? [args.packagePath] : undefined;
+  const containment = await assertWritePathAllowed(filePath, args.modelName, { extraRoots });
+  if (!containment.ok) {
+    return fail(`❌ Refusing to rename ${filePath}: ${containment.reason ?? 'path containment check failed'}`);
+  }
+  const modelDir = path.dirname(path.dirname(filePath));
+  const owningModel = containment.modelSegment ?? path.basename(modelDir);
+  if (isStandardModel(owningModel)) {
+    return fail(
+      `⛔ Refusing to rename "${objectName}" — it belongs to the standard Microsoft model "${owningModel}". ` +
+      'Renaming a base application object breaks the installation; extend it instead.',
+    );
+  }
+
+  const newPath = path.join(path.dirname(filePath), `${newName}.xml`);
+  if (await fs.access(newPath).then(() => true, () => false)) {
+    return fail(`❌ ${HEAD}: ${RENAME_AX_FOLDERS[objectType].object}\\${newName} already exists (${newPath}).`);
+  }
+
+  // ── 2. References outside the model ─────────────────────────────────────────
+  const references = await checkReferences(context, objectType, objectName, owningModel);
+  if (references.standard.length > 0) {
+    const shown = references.standard.slice(0, MAX_LISTED);
+    return fail([
+      `⛔ Refusing to rename ${objectType} "${objectName}" — ${references.standard.length} reference(s) from standard ` +
+      `models (${references.source === 'xref' ? 'cross-reference DB' : 'symbol index, by name'}):`,
+      ...shown.map(s => `  • ${s}`),
+      ...(references.standard.length > shown.length ? [`  … and ${references.standard.length - shown.length} more`] : []),
+      '',
+      'That code cannot be changed and would stop compiling. Keep the name, or add the new object',
+      'alongside it and move your own callers over.',
+    ].join('\n'));
+  }
+
+  // ── 3. What changes ─────────────────────────────────────────────────────────
+  const packagesRoot = path.dirname(path.dirname(modelDir));
+  const otherDirs = await modelFolders(references.models, [packagesRoot, ...(args.packagePath ? [args.packagePath] : [])]);
+  const files = new Set<string>();
+  for (const dir of [modelDir, ...otherDirs]) for (const f of await collectXml(dir)) files.add(f);
+  for (const f of references.files) if (f.toLowerCase().endsWith('.xml')) files.add(f);
+
+  const changes: FileChange[] = [];
+  const includeRenames: Array<{ axFolder: string; from: string; to: string }> = [];
+  const caseVariants: Array<{ file: string; count: number }> = [];
+  let unreadable = 0;
+  for (const file of files) {
+    const xml = await fs.readFile(file, 'utf-8').catch(() => null);
+    if (xml === null) { unreadable++; continue; }
+    const renamed = renameAotReferences(xml, objectType, objectName, newName);
+    if (!renamed) {
+      if (file === filePath) return fail(`❌ ${HEAD}: ${filePath} does not parse as AOT XML — nothing renamed.`);
+      unreadable++;
+      continue;
+    }
+    if (renamed.caseVariants > 0) caseVariants.push({ file, count: renamed.caseVariants });
+    const axFolder = path.basename(path.dirname(file));
+    const name = path.basename(file, '.xml');
+    const detail = describe(renamed.code, renamed.properties);
+    const newObjectName = file === filePath
+      ? newName
+      : derivedObjectName(axFolder, name, xml, objectType, objectName, newName);
+    if (newObjectName) {
+      // A CoC class declares its own name too: `final class Old_Extension`.
+      const own = axFolder === 'AxClass' && file !== filePath
+        ? renameAotReferences(renamed.xml, 'class', name, newObjectName)?.xml ?? renamed.xml
+        : renamed.xml;
+      const text = renameAotRoot(own, newObjectName);
+      if (text === null) return fail(`❌ ${HEAD}: ${file} has no root <Name> — nothing renamed.`);
+      changes.push({
+        from: file,
+        to: path.join(path.dirname(file), `${newObjectName}.xml`),
+        text,
+        what: `renamed to ${newObjectName}${detail ? `; ${detail}` : ''}`,
+      });
+      includeRenames.push({ axFolder, from: name, to: newObjectName });
+    } else if (renamed.code + renamed.properties > 0) {
+      changes.push({ from: file, to: file, text: renamed.xml, what: detail });
+    }
+  }
+
+  const configManager = getConfigManager();
+  const projects = new Set<string>([
+    ...(args.projectPath ? [args.projectPath] : [(await configManager.getProjectPath()) ?? '']),
+    ...(configManager.getProjectsForModel?.(owningModel) ?? []),
+  ].filter(Boolean));
+  for (const project of projects) {
+    const xml = await fs.readFile(project, 'utf-8').catch(() => null);
+    if (xml === null) continue;
+    const { xml: text, count } = renameProjectIncludes(xml, includeRenames);
+    if (count > 0) changes.push({ from: project, to: project, text, what: `${count} project include(s)` });
+  }
+
+  // Every object file written must pass the same containment the object did.
+  const refused: string[] = [];
+  for (const change of changes) {
+    if (change.to.toLowerCase().endsWith('.rnrproj')) continue;
+    const ok = await assertWritePathAllowed(change.to, undefined, { extraRoots });
+    if (!ok.ok) refused.push(`  • ${change.to}: ${ok.reason ?? 'path containment check failed'}`);
+  }
+  if (refused.length > 0) {
+    return fail([`❌ ${HEAD}: nothing renamed — some files it would write are outside the allowed roots:`, ...refused].join('\n'));
+  }
+
+  const shown = (f: string) => (f.startsWith(packagesRoot) ? path.relative(packagesRoot, f) : f);
+  const checked = references.source === 'xref'
+    ? 'none (cross-reference DB)'
+    : references.source === 'index'
+      ? 'none found (symbol index, by name — xref DB not available)'
+      : '⚠️ not checked — neither the xref DB nor the symbol index is available';
+  const listing = (mark: string) => changes.map(c =>
+    `   ${mark} ${c.to.toLowerCase().endsWith('.rnrproj') ? projectDisplayName(c.to) : shown(c.from)}` +
+    `${c.to !== c.from ? ` → ${path.basename(c.to)}` : ''} — ${c.what}`);
+  const footer = [
+    `Standard-model references: ${checked}`,
+    ...(unreadable > 0 ? [`ℹ️ ${unreadable} file(s) could not be read as AOT XML and were skipped.`] : []),
+    ...(caseVariants.length > 0
+      ? [`⚠️ Identifiers spelled \`${objectName}\` in another casing outside a type position were left as written — ` +
+        'usually a variable named after the type. Check them before building:',
+      ...caseVariants.slice(0, MAX_LISTED).map(v => `   • ${shown(v.file)} (${v.count})`),
+      ...(caseVariants.length > MAX_LISTED ? [`   … and ${caseVariants.length - MAX_LISTED} more file(s)`] : [])]
+      : []),
+    'Strings, comments, labels and other models\' unindexed code are not rewritten — search them before building.',
+  ];
+
+  if (args.dryRun) {
+    return {
+      content: [{
+        type: 'text',
+        text: [
+          `🔍 DRY RUN — ${objectType} \`${objectName}\` → \`${newName}\`: ${changes.length} file(s) would change, nothing written.`,
+          '',
+          ...listing('○'),
+          '',
+          ...footer,
+          '',
+          '💡 Remove dryRun to apply the rename.',
+        ].join('\n'),
+      }],
+    };
+  }
+
+  // ── 4. Write, all or nothing ────────────────────────────────────────────────
+  try {
+    await runChangeSet(async () => {
+      for (const change of changes) {
+        await captureJournalPreImage(change.to);
+        await writeFileAtomic(change.to, change.text);
+        if (change.to !== change.from) {
+          await captureJournalPreImage(change.from);
+          await fs.unlink(change.from);
+        }
+      }
+    });
+  } catch (e) {
+    return fail(`❌ ${HEAD}: the rename failed and every file was restored — ${(e as Error).message}`);
+  }
+
+  const indexFailures: string[] = [];
+  for (const change of changes) {
+    if (change.to.toLowerCase().endsWith('.rnrproj')) continue;
+    if (change.to !== change.from) {
+      try { context?.symbolIndex?.removeSymbolsByFile?.(change.from); } catch { /* re-indexed below */ }
+    }
+    const note = await upsertWrittenFileIntoIndex(change.to, context);
+    if (note.includes(INDEX_UPSERT_FAILED)) indexFailures.push(change.to);
+  }
+  try {
+    await bridgeRefreshProvider(context?.bridge);
+  } catch { /* bridge not available — nothing loaded it anyway */ }
+
+  return {
+    content: [{
+      type: 'text',
+      text: [
+        `✅ ${HEAD}: ${objectType} \`${objectName}\` → \`${newName}\` — ${changes.length} file(s) changed.`,
+        '',
+        ...listing('✔'),
+        '',
+        ...footer,
+        ...(indexFailures.length > 0
+          ? [`${INDEX_UPSERT_FAILED} for ${indexFailures.length} file(s) — run update_symbol_index before searching for "${newName}".`]
+          : []),
+        '💡 Build the model to confirm, and undo_last_modification reverts the whole rename.',
+      ].join('\n'),
+    }],
+  };
+}
@@ -12,8 +12,10 @@
  *     checked by the real X++ compiler, so they must exist in the index
  *   - Static member access  Type::member  (incl. arity check from signature)
  *   - Variable declarations TypeName varName — type must exist
- *   - Bound buffer access   buffer.Field / buffer.method() when the variable
- *     was declared in the snippet with a table/view type from the index
+ *   - Typed member access   expr.Field / expr.method(args) wherever the type
+ *     of expr can be inferred — declared locals and parameters, `this`, casts,
+ *     `new`, and method return types chained through calls — including the
+ *     arity of the method called
  *   - Label references      "@File:Id" and legacy "@SYS12345"
  *
  * Severity model (conservative — false blocks are worse than misses):
@@ -39,6 +41,18 @@ import {
   type ModelVisibility,
 } from '../../metadata/modelDescriptor.js';
 import { getConfigManager } from '../../utils/configManager.js';
+import {
+  globalCallName,
+  parseXpp,
+  walkXpp,
+  type XppCall,
+  type XppClass,
+  type XppExpression,
+  type XppMember,
+  type XppMethod,
+  type XppNode,
+  type XppParameter,
+} from '../../utils/xppParser.js';
 
 export const resolveReferencesArgsSchema = z.object({
   code: z.string().describe(
@@ -604,6 +618,280 @@ function collectLocals(cleaned: string): LocalScope {
   return { declaredNames, bindings };
 }
 
+/** What the typed pass knows about an expression's value. */
+interface InferredType {
+  /** Type name as declared, cast to or returned. */
+  name: string;
+  /** The class the snippet itself declares, when the value is `this` in it. */
+  declared?: XppClass;
+}
+
+/** A method found for a member call, with what the call can be held against. */
+interface ResolvedMethod {
+  returnType?: string;
+  arity?: { arity: Arity; shown: string };
+}
+
+interface TypedPassEnv {
+  deps: ResolverDeps;
+  lookupTypes(name: string): string[];
+  report(violation: ReferenceViolation): void;
+  verified(): void;
+}
+
+/** Return type of an indexed method: its stored declaration first, then its signature. */
+function returnTypeOf(method: MethodRow, methodName: string): string | undefined {
+  if (method.source) return parseXppDeclaration(method.source, methodName)?.returnType;
+  if (!method.signature) return undefined;
+  const escaped = methodName.replace(/[^\w]/g, '');
+  return new RegExp(String.raw`([A-Za-z_]\w*)\s+${escaped}\s*\(`, 'i').exec(method.signature)?.[1];
+}
+
+/**
+ * The type `this` has inside a class the snippet declares. An extension class
+ * IS its target for member access — `[ExtensionOf(tableStr(CustTable))]` makes
+ * `this.AccountNum` a CustTable field — and only table and class targets are
+ * typed: a form or data source extension's `this` is not a single type.
+ */
+function thisTypeOf(cls: XppClass): InferredType | undefined {
+  const extensionOf = cls.attributes.find(a => a.name.toLowerCase() === 'extensionof');
+  if (!extensionOf) return { name: cls.name, declared: cls };
+  const target = extensionOf.args[0];
+  if (target?.kind !== 'Call') return undefined;
+  const intrinsic = globalCallName(target)?.toLowerCase();
+  const base = target.args[0];
+  if ((intrinsic !== 'tablestr' && intrinsic !== 'classstr') || base?.kind !== 'Identifier') return undefined;
+  return { name: base.name, declared: cls };
+}
+
+/**
+ * Type inference over the parsed snippet, then a check of every member access
+ * whose receiver has a type.
+ *
+ * Types come from what the source states: declared locals and parameters, the
+ * class's own member variables, `this`, `new T()`, `x as T`, and the return
+ * type of a method the index (XppMethodInfo.returnType, read back from the
+ * stored declaration) or the snippet declares. `var` takes its initializer's
+ * type. Anything else — a global function, an EDT, a lambda parameter — has no
+ * type here, and an access on it is not checked: silence, not a guess.
+ *
+ * Only table-like and class types are held to account. A missing field on a
+ * table is an error; a missing method is a warning, as kernel methods are not
+ * all indexed; a method whose declaration is readable is also held to its
+ * arity. `this.Field` in a table extension is a warning too: the field may be
+ * one the same task is adding in XML that is not indexed yet.
+ */
+function checkTypedMemberAccess(code: string, env: TypedPassEnv): void {
+  const { deps, lookupTypes } = env;
+  const unit = parseXpp(code);
+  const reported = new Set<string>();
+  const once = (key: string): boolean => {
+    if (reported.has(key)) return false;
+    reported.add(key);
+    return true;
+  };
+
+  const kindOf = (type: InferredType): 'table' | 'class' | undefined => {
+    const types = lookupTypes(type.name);
+    if (types.some(t => TABLE_LIKE_TYPES.has(t))) return 'table';
+    // A class the snippet declares is a class whether or not it is indexed yet.
+    if (types.includes('class') || type.declared?.name === type.name) return 'class';
+    return undefined;
+  };
+
+  const ownMethod = (cls: XppClass, name: string): ResolvedMethod | undefined => {
+    const m = cls.members.find((x): x is XppMethod =>
+      x.kind === 'Method' && x.name.toLowerCase() === name.toLowerCase());
+    if (!m) return undefined;
+    const optional = m.parameters.filter(p => p.defaultValue).length;
+    return {
+      returnType: m.returnType.name,
+      arity: {
+        arity: { min: m.parameters.length - optional, max: m.parameters.length },
+        shown: renderMethodSignature({
+          name: m.name,
+          returnType: m.returnType.name,
+          parameters: m.parameters.map(p => ({
+            type: p.type.name,
+            name: p.name,
+            defaultValue: p.defaultValue ? code.slice(p.defaultValue.start, p.defaultValue.end) : undefined,
+          })),
+        }),
+      },
+    };
+  };
+
+  /** undefined: cannot tell; null: provably not there. */
+  const resolveMethod = (owner: InferredType, name: string): ResolvedMethod | null | undefined => {
+    const own = owner.declared ? ownMethod(owner.declared, name) : undefined;
+    if (own) return own;
+    const kind = kindOf(owner);
+    if (!kind) return undefined;
+    const lower = name.toLowerCase();
+    if (kind === 'table' && (lower === 'orig' || lower === 'data')) return { returnType: owner.name };
+    if ((kind === 'table' ? TABLE_BUILTIN_METHODS : OBJECT_BUILTIN_METHODS).has(lower)) return {};
+    const row = findMethod(deps, owner.name, name)
+      ?? (owner.declared?.extends ? findMethod(deps, owner.declared.extends, name) : undefined);
+    if (row) return { returnType: returnTypeOf(row, name), arity: arityOf(row, name) };
+    // A class the snippet declares and the index has never seen is known in
+    // full only when its parent is: a kernel base such as RunBase is not indexed.
+    if (owner.declared?.name === owner.name && lookupTypes(owner.name).length === 0) {
+      const parent = owner.declared.extends;
+      return !parent || lookupTypes(parent).length > 0 ? null : undefined;
+    }
+    return null;
+  };
+
+  const checkBody = (
+    body: XppNode[],
+    self: InferredType | undefined,
+    outer: Map<string, InferredType>,
+    params: XppParameter[],
+  ): void => {
+    const scope = new Map(outer);
+    for (const p of params) scope.set(p.name.toLowerCase(), { name: p.type.name });
+
+    const typeOf = (e: XppExpression, ancestors: readonly XppNode[]): InferredType | undefined => {
+      switch (e.kind) {
+        case 'Identifier': {
+          const lower = e.name.toLowerCase();
+          // A lambda parameter shadows whatever the method calls that name.
+          if (ancestors.some(a => a.kind === 'Lambda' && a.parameters.some(p => p.toLowerCase() === lower))) {
+            return undefined;
+          }
+          return scope.get(lower);
+        }
+        case 'This': return self;
+        case 'Paren': return typeOf(e.expression, ancestors);
+        case 'Cast':
+        case 'New': return { name: e.type.name };
+        case 'Call': {
+          if (e.callee.kind === 'Member') {
+            const owner = typeOf(e.callee.object, ancestors);
+            const method = owner ? resolveMethod(owner, e.callee.name) : undefined;
+            if (!method?.returnType) return undefined;
+            // `this.orig()` is still this buffer, extension methods included.
+            return method.returnType === owner?.name ? owner : { name: method.returnType };
+          }
+          if (e.callee.kind === 'StaticMember' && e.callee.owner.kind === 'Identifier') {
+            const ownerName = e.callee.owner.name;
+            if (KERNEL_TYPES.has(ownerName.toLowerCase()) || lookupTypes(ownerName).length === 0) return undefined;
+            const row = findMethod(deps, ownerName, e.callee.name);
+            const returnType = row ? returnTypeOf(row, e.callee.name) : undefined;
+            return returnType ? { name: returnType } : undefined;
+          }
+          return undefined;
+        }
+        default: return undefined;
+      }
+    };
+
+    const declare = (node: XppNode, ancestors: readonly XppNode[]) => {
+      if (node.kind !== 'LocalDeclaration') return;
+      for (const d of node.declarators) {
+        const type = node.type.name.toLowerCase() === 'var'
+          ? (d.init ? typeOf(d.init, ancestors) : undefined)
+          : { name: node.type.name };
+        if (type) scope.set(d.name.toLowerCase(), type);
+        else scope.delete(d.name.toLowerCase());
+      }
+    };
+
+    const visit = (node: XppNode, ancestors: readonly XppNode[]): boolean => {
+      // A local function is its own body, seeing this one's names.
+      if (node.kind === 'LocalFunction') {
+        if (node.method.body) checkBody([node.method.body], self, scope, node.method.parameters);
+        return false;
+      }
+      declare(node, ancestors);
+
+      if (node.kind === 'Call' && node.callee.kind === 'Member') {
+        const owner = typeOf(node.callee.object, ancestors);
+        if (owner) checkCall(node, node.callee.name, owner);
+      } else if (node.kind === 'Member') {
+        const parent = ancestors[ancestors.length - 1];
+        const isCallee = parent?.kind === 'Call' && parent.callee === node;
+        const owner = isCallee ? undefined : typeOf(node.object, ancestors);
+        if (owner) checkField(node, owner);
+      }
+      return true;
+    };
+
+    for (const root of body) walkXpp(root, visit);
+  };
+
+  const checkCall = (call: XppCall, name: string, owner: InferredType) => {
+    const method = resolveMethod(owner, name);
+    if (method === undefined) return;
+    const key = `${owner.name.toLowerCase()}.${name.toLowerCase()}()`;
+    if (method === null) {
+      if (!once(key)) return;
+      const isTable = kindOf(owner) === 'table';
+      env.report({
+        kind: 'unknown-method',
+        severity: 'warning',
+        line: call.line,
+        identifier: `${owner.name}.${name}()`,
+        detail: `Method "${name}" not found on ${owner.name} (checked builtins, inheritance, extensions). Verify with get_${isTable ? 'table' : 'class'}_info("${owner.name}").`,
+      });
+      return;
+    }
+    if (once(key)) env.verified();
+    if (!method.arity || !call.closed) return;
+    const { arity, shown } = method.arity;
+    const n = call.args.length;
+    if (n >= arity.min && n <= arity.max) return;
+    env.report({
+      kind: 'arity-mismatch',
+      severity: 'error',
+      line: call.line,
+      identifier: `${owner.name}.${name}`,
+      detail: `Call passes ${n} argument(s), but the declaration expects ${
+        arity.min === arity.max ? arity.min : `${arity.min}–${arity.max}`
+      }: ${shown}`,
+    });
+  };
+
+  const checkField = (member: XppMember, owner: InferredType) => {
+    if (kindOf(owner) !== 'table') return;
+    const key = `${owner.name.toLowerCase()}.${member.name.toLowerCase()}`;
+    if (!once(key)) return;
+    const ownField = owner.declared?.members.some(m =>
+      m.kind === 'FieldDeclaration' && m.declarators.some(d => d.name.toLowerCase() === member.name.toLowerCase()));
+    if (ownField || fieldExists(deps, owner.name, member.name)) {
+      env.verified();
+      return;
+    }
+    env.report({
+      kind: 'unknown-field',
+      severity: member.object.kind === 'This' ? 'warning' : 'error',
+      line: member.line,
+      identifier: `${owner.name}.${member.name}`,
+      detail: `Field "${member.name}" not found on ${owner.name} (checked fields, system fields, table extensions). Use get_object_info(objectType="table", name="${owner.name}").`,
+    });
+  };
+
+  const loose: XppNode[] = [];
+  for (const item of unit.body) {
+    if (item.kind === 'Class') {
+      const self = thisTypeOf(item);
+      const fields = new Map<string, InferredType>();
+      for (const m of item.members) {
+        if (m.kind !== 'FieldDeclaration') continue;
+        for (const d of m.declarators) fields.set(d.name.toLowerCase(), { name: m.type.name });
+      }
+      for (const m of item.members) {
+        if (m.kind === 'Method' && m.body) checkBody([m.body], self, fields, m.parameters);
+      }
+    } else if (item.kind === 'Method') {
+      if (item.body) checkBody([item.body], undefined, new Map(), item.parameters);
+    } else {
+      loose.push(item);
+    }
+  }
+  if (loose.length > 0) checkBody(loose, undefined, new Map(), []);
+}
+
 export function resolveXppReferences(code: string, deps: ResolverDeps): ResolveResult {
   const violations: ReferenceViolation[] = [];
   let verifiedCount = 0;
@@ -847,53 +1135,14 @@ export function resolveXppReferences(code: string, deps: ResolverDeps): ResolveR
     }
   }
 
-  // 5. Bound buffer member access var.Field / var.method()
-  for (const [varLower, typeName] of locals.bindings) {
-    const types = lookupTypes(typeName);
-    const isTableLike = types.some(t => TABLE_LIKE_TYPES.has(t));
-    const isClass = !isTableLike && types.includes('class');
-    if (!isTableLike && !isClass) continue;
-
-    const memberRe = new RegExp(String.raw`\b${varLower}\s*\.\s*([A-Za-z_]\w*)\s*(\()?`, 'gi');
-    const checkedMembers = new Set<string>();
-    for (const m of cleaned.matchAll(memberRe)) {
-      const member = m[1];
-      const isCall = m[2] === '(';
-      const key = `${member.toLowerCase()}:${isCall}`;
-      if (checkedMembers.has(key)) continue;
-      checkedMembers.add(key);
-      const line = lineOf(cleaned, m.index ?? 0);
-
-      if (isCall) {
-        const builtin = isTableLike
-          ? TABLE_BUILTIN_METHODS.has(member.toLowerCase())
-          : OBJECT_BUILTIN_METHODS.has(member.toLowerCase());
-        if (builtin || findMethod(deps, typeName, member)) {
-          verifiedCount++;
-        } else {
-          violations.push({
-            kind: 'unknown-method',
-            severity: 'warning',
-            line,
-            identifier: `${typeName}.${member}()`,
-            detail: `Method "${member}" not found on ${typeName} (checked builtins, inheritance, extensions). Verify with get_${isTableLike ? 'table' : 'class'}_info("${typeName}").`,
-          });
-        }
-      } else if (isTableLike) {
-        if (fieldExists(deps, typeName, member)) {
-          verifiedCount++;
-        } else {
-          violations.push({
-            kind: 'unknown-field',
-            severity: 'error',
-            line,
-            identifier: `${typeName}.${member}`,
-            detail: `Field "${member}" not found on ${typeName} (checked fields, system fields, table extensions). Use get_object_info(objectType="table", name="${typeName}").`,
-          });
-        }
-      }
-    }
-  }
+  // 5. Member access on a typed expression — var.Field, this.method(),
+  //    CustTable::find(x).Field, buffer.orig().method(a, b)
+  checkTypedMemberAccess(code, {
+    deps,
+    lookupTypes,
+    report: v => violations.push(v),
+    verified: () => { verifiedCount++; },
+  });
 
   return { violations, verifiedCount };
 }
@@ -1117,7 +1366,8 @@ export async function resolveReferencesTool(
         text:
           `✅ validate_code(references): all ${result.verifiedCount} reference(s) verified against the index${suffix}.\n` +
           `No hallucinated symbols detected. This is a name-existence check, not a compile: ` +
-          `arity/type compatibility, table extensions contributed by unreferenced packages, ` +
+          `argument types, members of values whose type could not be inferred, ` +
+          `table extensions contributed by unreferenced packages, ` +
           `and anything the index could not read are outside its reach. ` +
           `build_d365fo_project remains the only proof it compiles.`,
       }],
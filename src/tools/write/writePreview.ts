@@ -0,0 +1,158 @@
+/**
+ * Write preview — what a modify would do to the files, shown as a diff and never written.
+ *
+ * A preview runs the operation through its ordinary path: the same parameter
+ * checks and gates, the same XML writer. The writer reads and writes its target
+ * through readTargetXml/writeTargetXml, which during a preview keep the new
+ * content in memory — nothing reaches the disk, the symbol index or the bridge.
+ *
+ * The bridge writes through IMetadataProvider.Update(), which has no save-less
+ * form. Its operations are previewed from the XML splice this server makes for
+ * the same change — the fallback writer where one exists, a preview-only splice
+ * for methods and table fields — so the content is the same and the spacing or
+ * element order of the real write can differ. The rest are refused (see
+ * previewKind).
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { writeFileAtomic } from '../../utils/atomicFileWrite.js';
+import { unifiedDiff } from '../../utils/unifiedDiff.js';
+
+interface PreviewedFile {
+  path: string;
+  /** Content on disk when the preview started; null when the file did not exist. */
+  before: string | null;
+  after: string;
+}
+
+/** The files written so far by the preview this call runs in, by path key. */
+const previews = new AsyncLocalStorage<Map<string, PreviewedFile>>();
+
+/** Separators normalised and lowercased — on Windows these are one file. */
+function previewKey(filePath: string): string {
+  return path.resolve(filePath).replace(/\\/g, '/').toLowerCase();
+}
+
+/**
+ * Operations whose only write path is this server's XML writer, so a preview
+ * produces the same bytes the real call would. add-control has that path on a
+ * form extension only; everywhere else the bridge writes it.
+ */
+const XML_WRITER_OPERATIONS = new Set([
+  'add-delete-action', 'remove-delete-action',
+  'remove-control',
+  'remove-entry-point',
+  'add-diagnostic-suppression', 'remove-diagnostic-suppression',
+  'add-query-range', 'remove-query-range',
+]);
+
+/** Bridge operations a preview splices into the XML; add-field only on SPLICED_FIELD_TYPES. */
+const SPLICED_OPERATIONS = new Set([
+  'add-method', 'add-display-method', 'add-table-method', 'remove-method',
+  'add-field', 'add-index', 'modify-property', 'replace-code', 'add-menu-item-to-menu',
+]);
+const SPLICED_FIELD_TYPES = new Set(['table', 'table-extension', 'data-entity-extension']);
+
+/**
+ * How `operation` on `objectType` is previewed: 'written' when the XML writer is
+ * its real write path, 'spliced' when the bridge writes it and the preview is the
+ * XML splice of the same change, null when it cannot be previewed.
+ */
+export function previewKind(operation: string, objectType: string): 'written' | 'spliced' | null {
+  if (XML_WRITER_OPERATIONS.has(operation) || (operation === 'add-control' && objectType === 'form-extension')) {
+    return 'written';
+  }
+  if (!SPLICED_OPERATIONS.has(operation)) return null;
+  return operation !== 'add-field' || SPLICED_FIELD_TYPES.has(objectType) ? 'spliced' : null;
+}
+
+/** The refusal for a dryRun of an operation that cannot be previewed. */
+export function bridgeOnlyPreviewRefusal(operation: string, objectType: string): string {
+  return (
+    `dryRun is not available for '${operation}' on ${objectType}: it is written through the C# bridge ` +
+    `(IMetadataProvider.Update()), which has no save-less form, and this server has no XML splice for it. ` +
+    `Nothing was written.\n` +
+    `dryRun covers ${[...XML_WRITER_OPERATIONS, ...SPLICED_OPERATIONS].join(', ')}; ` +
+    `add-control on a form-extension only, add-field on ${[...SPLICED_FIELD_TYPES].join(', ')} only.`
+  );
+}
+
+/** True inside previewWrites — the write path must leave disk, index and bridge alone. */
+export function isPreviewRun(): boolean {
+  return previews.getStore() !== undefined;
+}
+
+/** An XML writer's target: the content previewed so far, or the file on disk. */
+export async function readTargetXml(filePath: string): Promise<string> {
+  const previewed = previews.getStore()?.get(previewKey(filePath));
+  return previewed ? previewed.after : fs.readFile(filePath, 'utf-8');
+}
+
+/** Replace an XML writer's target — in memory during a preview, atomically on disk otherwise. */
+export async function writeTargetXml(filePath: string, content: string): Promise<void> {
+  const open = previews.getStore();
+  if (!open) {
+    await writeFileAtomic(filePath, content);
+    return;
+  }
+  const key = previewKey(filePath);
+  const before = open.has(key) ? open.get(key)!.before : await fs.readFile(filePath, 'utf-8').catch(() => null);
+  open.set(key, { path: filePath, before, after: content });
+}
+
+/** A file's text as a diff should compare it: no BOM, LF line ends. */
+function normalizeForDiff(content: string | null): string {
+  return (content ?? '').replace(/^\uFEFF/, '').replace(/\r\n/g, '\n');
+}
+
+/**
+ * Run `write` as a preview and diff every file it would change against the
+ * disk. Diffs come as ```diff blocks, one per file, in write order.
+ */
+export async function previewWrites<T>(write: () => Promise<T>): Promise<{ result: T; diffs: string[] }> {
+  const written = new Map<string, PreviewedFile>();
+  const result = await previews.run(written, write);
+  const diffs = [...written.values()].map(file => {
+    const name = path.win32.basename(file.path);
+    const diff = unifiedDiff(normalizeForDiff(file.before), normalizeForDiff(file.after), {
+      fromFile: file.before === null ? '/dev/null' : `a/${name}`,
+      toFile: `b/${name}`,
+    });
+    return diff ? ['```diff', diff.trimEnd(), '```'].join('\n') : '';
+  }).filter(Boolean);
+  return { result, diffs };
+}
+
+/**
+ * The dry-run reply: the diffs, then what the previewed write said about itself.
+ * `spliced` says the bridge makes the real change, so its layout may differ.
+ */
+export function renderPreview(
+  what: string,
+  result: { content?: Array<{ text?: string }>; isError?: boolean },
+  diffs: string[],
+  spliced = false,
+): { content: Array<{ type: 'text'; text: string }>; isError?: boolean } {
+  const reported = (result.content ?? []).map(c => c.text ?? '').join('\n').trim();
+  if (result.isError) {
+    return {
+      content: [{ type: 'text', text: `🔍 Dry run — ${what} would fail; nothing was written.\n\n${reported}` }],
+      isError: true,
+    };
+  }
+  return {
+    content: [{
+      type: 'text',
+      text:
+        `🔍 Dry run — ${what}: nothing was written. Re-send without dryRun to apply.\n\n` +
+        (spliced
+          ? '_The bridge writes this change; the diff is the same change spliced into the XML, so the real ' +
+            'file may differ in spacing or element order._\n\n'
+          : '') +
+        (diffs.length > 0 ? diffs.join('\n\n') : '_The operation would leave the file unchanged._') +
+        `\n\n### What the write reported\n${reported}`,
+    }],
+  };
+}
@@ -61,6 +61,13 @@
  *                                     five standard groups. Pass [] for <FieldGroups />.
  * properties.dynamicFields         – emit <DynamicFields>Yes</DynamicFields> on the root query
  *                                     data source (after <Name>, before <Table>).
+ * properties.joinedDataSources     – [{ name, table, relations: [{ name?, field, relatedField }] }]
+ *                                     outer-joined under the root query data source. `field` is on
+ *                                     primaryTable, `relatedField` on `table`. A field whose
+ *                                     `dataSource` names one of these is mapped from it and listed
+ *                                     in its <Fields> instead of the root's — the shape of the
+ *                                     entity wizard's surrogate key expansion (a RecId foreign key
+ *                                     replaced by the referenced table's natural key).
  *
  * Without primaryTable + at least one field, this emits an inert skeleton
  * (no query) that can never function as a data entity. The skeleton branch is
@@ -166,6 +173,48 @@ function buildFieldGroupsXml(
   return `\t<FieldGroups>\n${body}\n\t</FieldGroups>\n`;
 }
 
+/** One entry of properties.joinedDataSources. */
+export interface JoinedDataSourceSpec {
+  name: string;
+  table: string;
+  relations: Array<{ name?: string; field: string; relatedField: string }>;
+}
+
+function querySourceFieldsOf(fields: Array<{ name: string; dataField?: string }>, indent: string): string {
+  return fields.map(f => `${indent}<AxQuerySimpleDataSourceField>
+${indent}\t<Name>${f.dataField || f.name}</Name>
+${indent}\t<Field>${f.dataField || f.name}</Field>
+${indent}</AxQuerySimpleDataSourceField>`).join('\n');
+}
+
+/** An outer-joined AxQuerySimpleEmbeddedDataSource under the root, related on explicit fields. */
+function buildJoinedDataSourceXml(
+  ds: JoinedDataSourceSpec,
+  joinDataSource: string,
+  fields: Array<{ name: string; dataField?: string }>,
+): string {
+  const fieldsXml = fields.length > 0
+    ? `\t\t\t\t\t\t<Fields>\n${querySourceFieldsOf(fields, '\t\t\t\t\t\t\t')}\n\t\t\t\t\t\t</Fields>\n`
+    : '\t\t\t\t\t\t<Fields />\n';
+  const relationsXml = ds.relations.map((r, i) => `\t\t\t\t\t\t\t<AxQuerySimpleDataSourceRelation>
+\t\t\t\t\t\t\t\t<Name>${r.name || `QueryDataSourceRelation${i + 1}`}</Name>
+\t\t\t\t\t\t\t\t<Field>${r.field}</Field>
+\t\t\t\t\t\t\t\t<JoinDataSource>${joinDataSource}</JoinDataSource>
+\t\t\t\t\t\t\t\t<RelatedField>${r.relatedField}</RelatedField>
+\t\t\t\t\t\t\t</AxQuerySimpleDataSourceRelation>`).join('\n');
+  return `\t\t\t\t\t<AxQuerySimpleEmbeddedDataSource>
+\t\t\t\t\t\t<Name>${ds.name}</Name>
+\t\t\t\t\t\t<Table>${ds.table}</Table>
+\t\t\t\t\t\t<DataSources />
+\t\t\t\t\t\t<DerivedDataSources />
+${fieldsXml}\t\t\t\t\t\t<Ranges />
+\t\t\t\t\t\t<JoinMode>OuterJoin</JoinMode>
+\t\t\t\t\t\t<Relations>
+${relationsXml}
+\t\t\t\t\t\t</Relations>
+\t\t\t\t\t</AxQuerySimpleEmbeddedDataSource>`;
+}
+
 function buildSourceCodeXml(
   entityName: string,
   declaration: string | undefined,
@@ -197,7 +246,7 @@ export function buildAxDataEntityXml(entityName: string, properties?: Record<str
   const entityCategory = assertKnownEnumValue(
     `Data entity '${entityName}': entityCategory`, properties?.entityCategory, ENTITY_CATEGORIES, 'Transaction');
   const primaryTable: string | undefined = properties?.primaryTable;
-  const fields: Array<{ name: string; dataField?: string }> | undefined =
+  const fields: Array<{ name: string; dataField?: string; dataSource?: string }> | undefined =
     Array.isArray(properties?.fields) ? properties.fields : undefined;
 
   // ── Opt-in additions. Every one of these must be absent from the output when
@@ -275,17 +324,23 @@ ${stateMachinesXml}\t<ViewMetadata />
 \t\t\ti:type="AxDataEntityViewMappedField">
 \t\t\t<Name>${f.name}</Name>
 \t\t\t<DataField>${f.dataField || f.name}</DataField>
-\t\t\t<DataSource>${primaryTable}</DataSource>
+\t\t\t<DataSource>${f.dataSource || primaryTable}</DataSource>
 \t\t</AxDataEntityViewField>`).join('\n');
 
   const keyFieldsXml = keyFields.map(f => `\t\t\t\t<AxDataEntityViewKeyField>
 \t\t\t\t\t<DataField>${f}</DataField>
 \t\t\t\t</AxDataEntityViewKeyField>`).join('\n');
 
-  const querySourceFieldsXml = fields.map(f => `\t\t\t\t\t<AxQuerySimpleDataSourceField>
-\t\t\t\t\t\t<Name>${f.dataField || f.name}</Name>
-\t\t\t\t\t\t<Field>${f.dataField || f.name}</Field>
-\t\t\t\t\t</AxQuerySimpleDataSourceField>`).join('\n');
+  const joined: JoinedDataSourceSpec[] =
+    Array.isArray(properties?.joinedDataSources) ? properties.joinedDataSources : [];
+  const joinedNames = new Set(joined.map(ds => ds.name));
+  const querySourceFieldsXml = querySourceFieldsOf(
+    fields.filter(f => !f.dataSource || !joinedNames.has(f.dataSource)), '\t\t\t\t\t');
+  const joinedDataSourcesXml = joined.length > 0
+    ? `\t\t\t\t<DataSources>\n${joined
+        .map(ds => buildJoinedDataSourceXml(ds, primaryTable, fields.filter(f => f.dataSource === ds.name)))
+        .join('\n')}\n\t\t\t\t</DataSources>\n`
+    : '\t\t\t\t<DataSources />\n';
 
   // On the root query data source DynamicFields sits between <Name> and <Table>.
   const dynamicFieldsXml = isYes(properties?.dynamicFields)
@@ -331,8 +386,7 @@ public class Metadata extends QueryRun
 \t\t\t<AxQuerySimpleRootDataSource>
 \t\t\t\t<Name>${primaryTable}</Name>
 ${dynamicFieldsXml}\t\t\t\t<Table>${primaryTable}</Table>
-\t\t\t\t<DataSources />
-\t\t\t\t<DerivedDataSources />
+${joinedDataSourcesXml}\t\t\t\t<DerivedDataSources />
 \t\t\t\t<Fields>
 ${querySourceFieldsXml}
 \t\t\t\t</Fields>
@@ -119,3 +119,25 @@ ${securityRefContainer('Privileges', 'AxSecurityPrivilegeReference', privileges)
 \t<PropertyModifications />
 </AxSecurityRoleExtension>`;
 }
+
+/**
+ * Add one `<childTag><Name>name</Name></childTag>` reference to `container` of an
+ * existing duty/role (or extension) file — expanding a self-closing
+ * `<Duties />`, or appending before the closing tag. Returns the XML unchanged
+ * when the name is already referenced, and null when the file has no such
+ * container to add to.
+ */
+export function addSecurityReference(xml: string, container: string, childTag: string, name: string): string | null {
+  const block = new RegExp(`<${container}>([\\s\\S]*?)</${container}>`).exec(xml);
+  if (block && new RegExp(`<Name>\\s*${name}\\s*</Name>`, 'i').test(block[1])) return xml;
+  const reference = `\t\t<${childTag}>\n\t\t\t<Name>${name}</Name>\n\t\t</${childTag}>\n`;
+  if (block && block[1].trim() !== '') {
+    // At the start of the closing tag's line, so the reference keeps the file's indentation.
+    const close = block.index + block[0].length - `</${container}>`.length;
+    const lineStart = xml.lastIndexOf('\n', close) + 1;
+    return `${xml.slice(0, lineStart)}${reference}${xml.slice(lineStart)}`;
+  }
+  const empty = new RegExp(`<${container}\\s*/>|<${container}>\\s*</${container}>`).exec(xml);
+  if (!empty) return null;
+  return `${xml.slice(0, empty.index)}<${container}>\n${reference}\t</${container}>${xml.slice(empty.index + empty[0].length)}`;
+}
@@ -18,6 +18,9 @@
  * properties.accessLevel   – 'view' | 'read' (Read only) | 'maintain' (full CRUD).
  *                            Default 'view'.
  * properties.dataEntity    – Name of the data entity to grant permissions on (optional)
+ * properties.entryPoints   – several entry points, each with its own grant:
+ *                            [{ objectName, objectType?, grant: ['Read', 'Update', …] }].
+ *                            Replaces targetObject/accessLevel for the entry points.
  */
 import { escapeXml } from '../../utils/xmlEscape.js';
 import { assertKnownEnumValue, SECURITY_ENTRY_POINT_TYPES } from '../../utils/axEnumProperties.js';
@@ -25,6 +28,39 @@ import { assertKnownEnumValue, SECURITY_ENTRY_POINT_TYPES } from '../../utils/ax
 /** The only two grant shapes this builder can emit. Anything else is a wrong privilege. */
 const ACCESS_LEVELS = ['view', 'read', 'maintain'] as const;
 
+/** <Grant> children in the order the serializer writes an entry point's grant. */
+export const ENTRY_POINT_GRANTS = ['Read', 'Update', 'Create', 'Correct', 'Delete', 'Invoke'] as const;
+export type EntryPointGrant = (typeof ENTRY_POINT_GRANTS)[number];
+
+/** One entry point of properties.entryPoints. */
+export interface SecurityEntryPointSpec {
+  objectName: string;
+  /** EntryPointType — default MenuItemDisplay. */
+  objectType?: string;
+  grant: EntryPointGrant[];
+}
+
+function entryPointXml(privilege: string, spec: SecurityEntryPointSpec): string {
+  const objType = assertKnownEnumValue(
+    `Security privilege '${privilege}': entry point '${spec.objectName}' objectType`,
+    spec.objectType,
+    SECURITY_ENTRY_POINT_TYPES,
+    'MenuItemDisplay',
+  );
+  // Same closed-set rule as accessLevel: a grant name the serializer does not
+  // know is dropped on load and the entry point grants less than it says.
+  const unknown = (spec.grant ?? []).filter(g => !(ENTRY_POINT_GRANTS as readonly string[]).includes(g));
+  if (unknown.length > 0 || !spec.grant?.length) {
+    throw new Error(
+      `Security privilege '${privilege}': entry point '${spec.objectName}' grant ${JSON.stringify(spec.grant ?? [])} ` +
+      `is not supported — nothing was written. Use one or more of ${ENTRY_POINT_GRANTS.join(', ')}.`,
+    );
+  }
+  const grantXml = ENTRY_POINT_GRANTS.filter(g => spec.grant.includes(g))
+    .map(g => `\t\t\t\t<${g}>Allow</${g}>`).join('\n');
+  return `\n\t\t<AxSecurityEntryPointReference>\n\t\t\t<Name>${spec.objectName}</Name>\n\t\t\t<Grant>\n${grantXml}\n\t\t\t</Grant>\n\t\t\t<ObjectName>${spec.objectName}</ObjectName>\n\t\t\t<ObjectType>${objType}</ObjectType>\n\t\t\t<Forms />\n\t\t</AxSecurityEntryPointReference>`;
+}
+
 export function buildAxSecurityPrivilegeXml(name: string, properties?: Record<string, any>): string {
   const label = properties?.label || '@TODO:LabelId';
   const targetObject: string | undefined = properties?.targetObject;
@@ -57,7 +93,10 @@ export function buildAxSecurityPrivilegeXml(name: string, properties?: Record<st
   const al = rawAccess;
 
   let entryPointsXml: string;
-  if (targetObject) {
+  const entryPoints: SecurityEntryPointSpec[] | undefined = properties?.entryPoints;
+  if (Array.isArray(entryPoints) && entryPoints.length > 0) {
+    entryPointsXml = `${entryPoints.map(ep => entryPointXml(name, ep)).join('')}\n\t`;
+  } else if (targetObject) {
     const grantXml = al === 'maintain'
       ? '\t\t\t\t<Read>Allow</Read>\n\t\t\t\t<Update>Allow</Update>\n\t\t\t\t<Create>Allow</Create>\n\t\t\t\t<Delete>Allow</Delete>'
       : '\t\t\t\t<Read>Allow</Read>';
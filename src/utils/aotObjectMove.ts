@@ -0,0 +1,125 @@
+/**
+ * Moving an AOT object from one custom model to another — the text side of
+ * d365fo_file(action="move"). Pure string in, string out, like
+ * aotObjectRename.ts, whose rename the move reuses when the object's prefix
+ * changes with its model.
+ *
+ * What a move rewrites besides the file's location:
+ *  - the name, when the target model uses another prefix: `ConCoreWarranty` →
+ *    `ConSvcWarranty`, and `CustTable.ConCoreExtension` → `CustTable.ConSvcExtension`;
+ *  - label references into the source model's label file, re-pointed to the
+ *    target's: `@ConCore:Warranty` → `@ConSvc:Warranty`.
+ * Which objects travel with it is isExtensionOfObject's question; which
+ * packages the two models then have to reference is the tool's, from the
+ * identifiers xppIdentifiers finds on either side.
+ */
+
+/** The two forms a model's prefix takes in a name — see applyObjectPrefix. */
+export interface PrefixTokens {
+  /** Prepended to a regular object: `ConCore`, or `CC_` for an underscore style. */
+  regular: string;
+  /** Embedded in an extension element: `CustTable.ConCoreExtension`, `CustTableConCore_Extension`. */
+  infix: string;
+}
+
+const swap = (text: string, from: string, to: string): string =>
+  from && from !== to && text.length > from.length && text.startsWith(from) ? to + text.slice(from.length) : text;
+
+/**
+ * The name an object takes in the target model. Regular objects swap the
+ * regular token; extension elements (`Base.InfixExtension`) swap the infix
+ * after the dot; a CoC class (`BaseInfix_Extension`) swaps it before
+ * `_Extension`. A name that does not carry the source's token keeps its name —
+ * it was never prefixed by that model's rule, so there is nothing to re-prefix.
+ */
+export function reprefixObjectName(name: string, from: PrefixTokens, to: PrefixTokens): string {
+  const dot = name.indexOf('.');
+  if (dot > 0) return name.slice(0, dot + 1) + swap(name.slice(dot + 1), from.infix, to.infix);
+  const coc = /^(.+)_Extension$/.exec(name)?.[1];
+  if (coc && from.infix && from.infix !== to.infix && coc.length > from.infix.length && coc.endsWith(from.infix)) {
+    return `${coc.slice(0, -from.infix.length)}${to.infix}_Extension`;
+  }
+  return swap(name, from.regular, to.regular);
+}
+
+/**
+ * The name an extension object of `base` takes once `base` becomes `newBase`
+ * and the infix moves with the model: `Base.ConCoreAudit` → `NewBase.ConSvcAudit`,
+ * `Base_Extension` → `NewBase_Extension`.
+ */
+export function movedExtensionName(
+  name: string,
+  base: string,
+  newBase: string,
+  from: PrefixTokens,
+  to: PrefixTokens,
+): string {
+  if (name.startsWith(`${base}.`)) return `${newBase}.${swap(name.slice(base.length + 1), from.infix, to.infix)}`;
+  if (name.startsWith(base)) return newBase + swap(name.slice(base.length), from.infix, to.infix);
+  return reprefixObjectName(name, from, to);
+}
+
+/**
+ * True when the file `axFolder\name` extends `objectName` (an object of the AOT
+ * folder `objectFolder`): an extension element `objectName.Something` in the
+ * `…Extension` folder, or a CoC class whose `[ExtensionOf(…Str(objectName))]`
+ * names it.
+ */
+export function isExtensionOfObject(
+  axFolder: string,
+  name: string,
+  xml: string,
+  objectFolder: string,
+  objectName: string,
+): boolean {
+  if (axFolder.toLowerCase() === `${objectFolder}Extension`.toLowerCase()) {
+    return name.toLowerCase().startsWith(`${objectName.toLowerCase()}.`);
+  }
+  if (axFolder !== 'AxClass' || name === objectName) return false;
+  const escaped = objectName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`\\[\\s*ExtensionOf\\s*\\(\\s*\\w+Str\\s*\\(\\s*${escaped}\\s*\\)\\s*\\)`).test(xml);
+}
+
+const LABEL_REFERENCE = /@([A-Za-z0-9_]+):([A-Za-z0-9_]+)/g;
+
+/** Every `@File:Id` label reference in `xml` whose file is one of `labelFileIds`, as `File:Id`. */
+export function labelReferencesIn(xml: string, labelFileIds: readonly string[]): Array<{ labelFileId: string; labelId: string }> {
+  const files = new Map(labelFileIds.map(f => [f.toLowerCase(), f]));
+  const seen = new Set<string>();
+  const out: Array<{ labelFileId: string; labelId: string }> = [];
+  for (const m of xml.matchAll(LABEL_REFERENCE)) {
+    const labelFileId = files.get(m[1].toLowerCase());
+    const key = `${m[1].toLowerCase()}:${m[2]}`;
+    if (!labelFileId || seen.has(key)) continue;
+    seen.add(key);
+    out.push({ labelFileId, labelId: m[2] });
+  }
+  return out;
+}
+
+/**
+ * `@From:Id` → `@To:Id` for every label id in `moved` (keyed `From:Id`, label
+ * file id in any case). References to other files, and ids not in `moved`, stay.
+ */
+export function repointLabelReferences(
+  xml: string,
+  moved: ReadonlySet<string>,
+  toLabelFileId: string,
+): { xml: string; count: number } {
+  const keys = new Set([...moved].map(k => k.toLowerCase()));
+  let count = 0;
+  const out = xml.replace(LABEL_REFERENCE, (whole, file: string, id: string) => {
+    if (!keys.has(`${file}:${id}`.toLowerCase())) return whole;
+    count++;
+    return `@${toLabelFileId}:${id}`;
+  });
+  return { xml: out, count };
+}
+
+/**
+ * Every identifier-shaped word in a file — the cheap answer to "does this file
+ * name that object", asked once per file rather than once per name.
+ */
+export function xppIdentifiers(text: string): Set<string> {
+  return new Set(text.match(/[A-Za-z_][A-Za-z0-9_]*/g) ?? []);
+}
@@ -0,0 +1,270 @@
+/**
+ * Renaming an AOT object inside the files that reference it — the text side of
+ * d365fo_file(action="rename"). Pure string in, string out; finding the files
+ * and writing them is the tool's job.
+ *
+ * Three kinds of reference are rewritten:
+ *  - X++ identifiers in <Source>/<Declaration> CDATA — `Old::find()`,
+ *    `tableStr(Old)`, `Old buffer;`, `extends Old`. Outside strings and
+ *    comments, and never after `.` or `::` (a field or an enum value that only
+ *    shares the name). Another casing is renamed only where a type stands, so
+ *    `Old old;` keeps its variable; the other hits are counted for the report;
+ *  - metadata properties that name the object: a data source's <Table>, a
+ *    relation's <RelatedTable>, an EDT's <Extends>, a field's <EnumType>, a menu
+ *    item's <Object> when its <ObjectType> is Class, a privilege's table
+ *    permission, and so on — see REFERENCE_PROPERTIES;
+ *  - the names that are derived from it: `Old.ContosoExtension` for table, EDT
+ *    and enum extensions, and a CoC class `Old_Extension` whose
+ *    `[ExtensionOf(…Str(Old))]` names the object.
+ *
+ * Everything is spliced at offsets (see xmlNodeTree.ts), so bytes that do not
+ * change stay as they were.
+ */
+
+import { parseNodes, textOf, type XmlNode } from './xmlNodeTree.js';
+
+export const RENAMEABLE_OBJECT_TYPES = ['class', 'table', 'edt', 'enum'] as const;
+export type RenameableObjectType = (typeof RENAMEABLE_OBJECT_TYPES)[number];
+
+/** The AOT folder of the object itself and of its extension objects. */
+export const RENAME_AX_FOLDERS: Record<RenameableObjectType, { object: string; extension: string | null }> = {
+  class: { object: 'AxClass', extension: null },
+  table: { object: 'AxTable', extension: 'AxTableExtension' },
+  edt: { object: 'AxEdt', extension: 'AxEdtExtension' },
+  enum: { object: 'AxEnum', extension: 'AxEnumExtension' },
+};
+
+/** The xref DB container of each type — `/Tables/CustTable`. */
+export const RENAME_XREF_CONTAINERS: Record<RenameableObjectType, string> = {
+  class: 'Classes',
+  table: 'Tables',
+  edt: 'ExtendedDataTypes',
+  enum: 'Enums',
+};
+
+type PropertyRule = (node: XmlNode, parent: XmlNode, xml: string) => boolean;
+
+const childText = (xml: string, parent: XmlNode, name: string): string | undefined => {
+  const child = parent.children.find(c => c.name === name);
+  return child ? textOf(xml, child).trim() : undefined;
+};
+
+/** Properties whose value is the object's name, per type. */
+const REFERENCE_PROPERTIES: Record<RenameableObjectType, PropertyRule> = {
+  class: (n, parent, xml) =>
+    n.name === 'Class' ||
+    (n.name === 'Object' && childText(xml, parent, 'ObjectType') === 'Class'),
+  table: (n, parent) =>
+    n.name === 'Table' || n.name === 'RelatedTable' || n.name === 'ReferenceTable' ||
+    (n.name === 'Extends' && parent.name === 'AxTable') ||
+    (n.name === 'Name' && parent.name === 'AxSecurityDataEntityPermission'),
+  edt: (n, parent) =>
+    n.name === 'ExtendedDataType' || (n.name === 'Extends' && parent.name === 'AxEdt'),
+  enum: n => n.name === 'EnumType',
+};
+
+const isIdentChar = (c: string | undefined): boolean => !!c && /[A-Za-z0-9_]/.test(c);
+
+/** Words that follow a table buffer in a select — `select w where …` declares nothing. */
+const SELECT_CLAUSE_WORDS = new Set(['where', 'join', 'exists', 'notexists', 'outer', 'index', 'order', 'group']);
+
+/**
+ * Whether the identifier at `[start, end)` stands where only a type can: the
+ * type of a declaration, `X::`, a `…Str(X)` argument, or after `extends`,
+ * `implements`, `as`, `is` or `new`.
+ */
+function isTypePosition(source: string, start: number, end: number): boolean {
+  const after = source.slice(end, end + 80);
+  if (/^\s*::/.test(after)) return true;
+  const before = source.slice(Math.max(0, start - 80), start);
+  // tableStr(X), classStr(X), fieldStr(X, …) — not int2Str(x), num2Str(x) or subStr(x, …).
+  const intrinsic = /\b([A-Za-z]+str)\s*\(\s*$/i.exec(before);
+  if (intrinsic && intrinsic[1].toLowerCase() !== 'substr') return true;
+  if (/\b(?:extends|implements|as|is|new)\s+$/i.test(before)) return true;
+  const declared = /^\s+([A-Za-z_]\w*)/.exec(after);
+  return !!declared && !SELECT_CLAUSE_WORDS.has(declared[1].toLowerCase());
+}
+
+/**
+ * `from` → `to` as an X++ identifier. Strings, comments, member access
+ * (`x.From`) and enum values (`E::From`) are left alone. X++ identifiers are
+ * case-insensitive, but a variable is commonly the type's name in camel case —
+ * so `from` is renamed in its own casing anywhere, in another casing only in a
+ * type position (isTypePosition). `caseVariants` counts the hits left alone.
+ */
+export function renameXppIdentifier(
+  source: string,
+  from: string,
+  to: string,
+): { text: string; count: number; caseVariants: number } {
+  const fromLower = from.toLowerCase();
+  let out = '';
+  let count = 0;
+  let caseVariants = 0;
+  let i = 0;
+  while (i < source.length) {
+    const c = source[i];
+    const next = source[i + 1];
+    if (c === '/' && next === '/') {
+      const end = source.indexOf('\n', i);
+      const stop = end === -1 ? source.length : end;
+      out += source.slice(i, stop);
+      i = stop;
+      continue;
+    }
+    if (c === '/' && next === '*') {
+      const end = source.indexOf('*/', i + 2);
+      const stop = end === -1 ? source.length : end + 2;
+      out += source.slice(i, stop);
+      i = stop;
+      continue;
+    }
+    if (c === '"' || c === "'") {
+      // @"…" is verbatim: a backslash escapes nothing.
+      const verbatim = source[i - 1] === '@';
+      let j = i + 1;
+      while (j < source.length && source[j] !== c) j += !verbatim && source[j] === '\\' ? 2 : 1;
+      out += source.slice(i, j + 1);
+      i = j + 1;
+      continue;
+    }
+    if (isIdentChar(c) && !isIdentChar(source[i - 1])) {
+      let j = i;
+      while (isIdentChar(source[j])) j++;
+      const word = source.slice(i, j);
+      const before = source.slice(Math.max(0, i - 2), i);
+      if (word.toLowerCase() === fromLower && !before.endsWith('.') && before !== '::') {
+        if (word === from || isTypePosition(source, i, j)) {
+          out += to;
+          count++;
+        } else {
+          out += word;
+          caseVariants++;
+        }
+      } else {
+        out += word;
+      }
+      i = j;
+      continue;
+    }
+    out += c;
+    i++;
+  }
+  return { text: out, count, caseVariants };
+}
+
+export interface AotRenameResult {
+  xml: string;
+  /** X++ identifiers rewritten. */
+  code: number;
+  /** X++ identifiers that match in another casing outside a type position — left as written. */
+  caseVariants: number;
+  /** Metadata properties rewritten. */
+  properties: number;
+}
+
+/**
+ * Every reference to the `objectType` named `from` in one AOT file, renamed to
+ * `to`. The file's own root <Name> is not touched — that is renameAotRoot's.
+ * Null when the file does not parse.
+ */
+export function renameAotReferences(
+  xml: string,
+  objectType: RenameableObjectType,
+  from: string,
+  to: string,
+): AotRenameResult | null {
+  const root = parseNodes(xml);
+  if (!root) return null;
+  const isReference = REFERENCE_PROPERTIES[objectType];
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+  let code = 0;
+  let caseVariants = 0;
+  let properties = 0;
+
+  const walk = (node: XmlNode, parent: XmlNode | null) => {
+    if (node.children.length === 0 && !node.selfClosing) {
+      const raw = xml.slice(node.openEnd, node.closeStart);
+      if (raw.includes('<![CDATA[')) {
+        raw.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (whole, body: string, at: number) => {
+          const renamed = renameXppIdentifier(body, from, to);
+          caseVariants += renamed.caseVariants;
+          if (renamed.count > 0) {
+            const start = node.openEnd + at + '<![CDATA['.length;
+            edits.push({ start, end: start + body.length, text: renamed.text });
+            code += renamed.count;
+          }
+          return whole;
+        });
+      } else if (parent && raw.trim() === from && isReference(node, parent, xml)) {
+        edits.push({ start: node.openEnd, end: node.closeStart, text: raw.replace(from, to) });
+        properties++;
+      }
+      return;
+    }
+    for (const child of node.children) walk(child, node);
+  };
+  walk(root, null);
+
+  let out = xml;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    out = out.slice(0, edit.start) + edit.text + out.slice(edit.end);
+  }
+  return { xml: out, code, caseVariants, properties };
+}
+
+/** The root element's <Name> set to `to`. Null when the file does not parse or has none. */
+export function renameAotRoot(xml: string, to: string): string | null {
+  const root = parseNodes(xml);
+  const name = root?.children.find(c => c.name === 'Name');
+  if (!name || name.selfClosing) return null;
+  return xml.slice(0, name.openEnd) + to + xml.slice(name.closeStart);
+}
+
+/**
+ * The new name of an object derived from the renamed one, or null when `name`
+ * is not derived from it:
+ *  - `From.ContosoExtension` in the type's extension folder;
+ *  - a class named `From…` that is a CoC extension of it (`[ExtensionOf(tableStr(From))]`).
+ */
+export function derivedObjectName(
+  axFolder: string,
+  name: string,
+  xml: string,
+  objectType: RenameableObjectType,
+  from: string,
+  to: string,
+): string | null {
+  const folders = RENAME_AX_FOLDERS[objectType];
+  if (folders.extension && axFolder === folders.extension && name.startsWith(`${from}.`)) {
+    return to + name.slice(from.length);
+  }
+  if (axFolder === 'AxClass' && objectType !== 'edt' && objectType !== 'enum' && name.startsWith(from) && name !== from) {
+    const intrinsic = objectType === 'class' ? 'classStr' : 'tableStr';
+    const extensionOf = new RegExp(`\\[\\s*ExtensionOf\\s*\\(\\s*${intrinsic}\\s*\\(\\s*${from}\\s*\\)\\s*\\)`);
+    if (extensionOf.test(xml)) return to + name.slice(from.length);
+  }
+  return null;
+}
+
+/**
+ * `<Content Include="AxTable\From" />` → `AxTable\To` in a .rnrproj, for every
+ * rename in `renames`. Either slash, any case, with or without `.xml` — the
+ * forms normalizeInclude treats as one.
+ */
+export function renameProjectIncludes(
+  project: string,
+  renames: ReadonlyArray<{ axFolder: string; from: string; to: string }>,
+): { xml: string; count: number } {
+  let count = 0;
+  let xml = project;
+  for (const { axFolder, from, to } of renames) {
+    const escaped = from.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const include = new RegExp(`(Include="${axFolder}[\\\\/])${escaped}((?:\\.xml)?")`, 'gi');
+    xml = xml.replace(include, (_m, head: string, tail: string) => {
+      count++;
+      return `${head}${to}${tail}`;
+    });
+  }
+  return { xml, count };
+}
@@ -0,0 +1,341 @@
+/**
+ * Semantic diff of two versions of an AOT metadata file.
+ *
+ * A line diff of AxTable / AxForm / AxClass XML is mostly noise for a review:
+ * the serializer reorders elements, re-indents the X++ inside <Source> CDATA
+ * and regenerates names like FormExtensionControl3k9x2… on every save, and the
+ * one field that was added sits somewhere among them. This reads both versions
+ * into named items — fields, indexes, field groups, relations, methods, data
+ * sources, controls, property modifications — and reports what happened to
+ * each item instead of to each line:
+ *
+ *   field `WarrantyDays` added — String, ExtendedDataType WarrantyDaysEdt
+ *   index `CustIdx` changed — Fields: AccountNum → AccountNum, DataAreaId
+ *   method `validateWrite` changed — body (X++ diff attached)
+ *   control `WarrantyDays` moved — GroupA → GroupB
+ *
+ * Item order, whitespace inside X++ and GUID-only churn are not changes. Order
+ * still counts inside a list of field references (index and field-group
+ * members), where it is the meaning.
+ *
+ * It works on any Ax* root, extensions included — the item shapes are the same
+ * and the rules below are generic. Unparseable input gives null, and the caller
+ * shows the line diff instead.
+ */
+
+import { unifiedDiff } from './unifiedDiff.js';
+import { parseNodes, textOf, decodeXmlText, type XmlNode } from './xmlNodeTree.js';
+
+export type AotChangeAction = 'added' | 'removed' | 'changed' | 'moved';
+
+export interface AotSemanticChange {
+  /** `field`, `index`, `method`, `control`, … — `property` for the object's own properties. */
+  kind: string;
+  /** The item's name; a nested item is `Owner.Name` (data source field `CustTable.AccountNum`). */
+  name: string;
+  action: AotChangeAction;
+  /** One line each: `ExtendedDataType: A → B`, `Fields: A → A, B`, `Grid → GroupB`. */
+  details: string[];
+  /** X++ diff of a method or declaration body that changed or was added. */
+  codeDiff?: string;
+}
+
+export interface AotSemanticDiff {
+  /** Root element of the file: AxTable, AxFormExtension, … */
+  objectType: string;
+  objectName: string;
+  changes: AotSemanticChange[];
+}
+
+/** Leaf elements that hold X++ rather than a property value. */
+const CODE_ELEMENTS = new Set(['Source', 'Declaration']);
+
+/** Properties worth naming when an item is added. */
+const SUMMARY_PROPS = [
+  'ExtendedDataType', 'EnumType', 'Table', 'RelatedTable', 'DataSource', 'DataField', 'DataGroup', 'Value', 'Label',
+];
+
+const GUID = /^\{?[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\}?$/i;
+
+/** True for a GUID value, which the designer regenerates without meaning anything by it. */
+export const isAotGuid = (value: string): boolean => GUID.test(value);
+
+/** Friendly kind for a collection member's element name; anything not listed is de-camelled. */
+const KINDS: Record<string, string> = {
+  AxTableField: 'field',
+  AxTableIndex: 'index',
+  AxTableFieldGroup: 'field group',
+  AxTableRelation: 'relation',
+  AxTableRelationConstraint: 'relation constraint',
+  AxTableDeleteAction: 'delete action',
+  AxTableFieldModification: 'field modification',
+  AxTableFieldGroupExtension: 'field group extension',
+  AxFormDataSource: 'data source',
+  AxFormDataSourceField: 'data source field',
+  AxFormDataSourceRoot: 'data source',
+  AxFormControl: 'control',
+  AxFormExtensionControl: 'control',
+  AxFormControlModification: 'control modification',
+  AxPropertyModification: 'property modification',
+  AxEnumValue: 'enum value',
+  Method: 'method',
+};
+
+interface Item {
+  kind: string;
+  name: string;
+  /** Identity across versions. Controls drop their parent from it, so a move is still the same control. */
+  key: string;
+  /** Where a control sits (its parent control, or Design); empty for other items. */
+  location: string;
+  /** Element the item was read from: AxTableField, AxFormControl, … */
+  element: string;
+  /** i:type, e.g. AxTableFieldString; empty when the element has none. */
+  type: string;
+  props: Map<string, string>;
+  lists: Map<string, string[]>;
+  code: string | null;
+}
+
+export function aotKindOf(element: string): string {
+  return KINDS[element] ?? element.replace(/^Ax/, '').replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+}
+
+const isLeaf = (n: XmlNode): boolean => n.children.length === 0;
+
+/** A leaf's value: CDATA unwrapped, entities decoded. */
+export function aotLeafText(xml: string, n: XmlNode): string {
+  const raw = textOf(xml, n);
+  return raw.includes('<![CDATA[') ? raw.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1') : decodeXmlText(raw);
+}
+
+function attr(xml: string, n: XmlNode, name: string): string {
+  const open = xml.slice(n.start, n.openEnd);
+  const match = new RegExp(`\\s${name.replace(':', '\\:')}="([^"]*)"`).exec(open);
+  return match ? match[1] : '';
+}
+
+/** A member of a collection that reads as one reference (`<AxTableIndexField><DataField>X</…>`). */
+export function aotReferenceOf(xml: string, member: XmlNode): string | null {
+  const leaves = member.children.filter(c => isLeaf(c) && textOf(xml, c) !== '');
+  if (member.children.some(c => c.name === 'Name') || leaves.length !== 1) return null;
+  return aotLeafText(xml, leaves[0]);
+}
+
+/** The item a collection member stands for; an extension control is its FormControl under its Parent. */
+export function aotMemberName(xml: string, member: XmlNode): string | null {
+  const formControl = member.children.find(c => c.name === 'FormControl');
+  const named = formControl ?? member;
+  const name = named.children.find(c => c.name === 'Name');
+  return name ? aotLeafText(xml, name) : null;
+}
+
+/**
+ * A child is a collection when every element under it has the same name and
+ * each one is either named or a single reference. Anything else (Design,
+ * SourceCode, FormControl) is structure, read into the item that holds it.
+ */
+export function isAotCollection(xml: string, node: XmlNode): boolean {
+  if (node.children.length === 0) return false;
+  const tag = node.children[0].name;
+  return node.children.every(c =>
+    c.name === tag && !isLeaf(c) && (aotMemberName(xml, c) !== null || aotReferenceOf(xml, c) !== null));
+}
+
+function newItem(kind: string, name: string, key: string, location: string, element: string, type = ''): Item {
+  return { kind, name, key, location, element, type, props: new Map(), lists: new Map(), code: null };
+}
+
+/** Read `node`'s children into `item`, adding every named member found below it to `items`. */
+function readInto(xml: string, node: XmlNode, item: Item, items: Map<string, Item>, prefix: string): void {
+  for (const child of node.children) {
+    if (isLeaf(child)) {
+      if (child.name === 'Name' && prefix === '') continue;
+      if (CODE_ELEMENTS.has(child.name)) {
+        const code = aotLeafText(xml, child);
+        // An object's own <Declaration> is an item of its own, so it reads like a method.
+        if (item.kind === 'object') addItem(items, newItem('declaration', 'classDeclaration', 'declaration|', '', ''), d => { d.code = code; });
+        else item.code = code;
+        continue;
+      }
+      if (child.name === 'Parent' && item.kind === 'control') { item.location = aotLeafText(xml, child); continue; }
+      item.props.set(prefix + child.name, aotLeafText(xml, child));
+      continue;
+    }
+    if (!isAotCollection(xml, child)) {
+      const nested = child.name === 'FormControl' || child.name === 'SourceCode' || child.name === 'Methods';
+      readInto(xml, child, item, items, nested ? prefix : `${prefix}${child.name}.`);
+      continue;
+    }
+    const references: string[] = [];
+    for (const member of child.children) {
+      const name = aotMemberName(xml, member);
+      if (name === null) { references.push(aotReferenceOf(xml, member) ?? ''); continue; }
+      const kind = aotKindOf(member.name);
+      const formControl = member.children.find(c => c.name === 'FormControl') ?? member;
+      const type = attr(xml, formControl, 'i:type');
+      const isControl = kind === 'control';
+      const owner = item.kind === 'object' || isControl ? '' : item.name;
+      const display = owner ? `${owner}.${name}` : name;
+      const sub = newItem(kind, display, isControl ? `control|${name}` : `${kind}|${display}`,
+        isControl ? (item.kind === 'control' ? item.name : 'Design') : '', member.name, type);
+      addItem(items, sub, s => readInto(xml, member, s, items, ''));
+    }
+    if (references.length > 0) item.lists.set(prefix + child.name, references);
+  }
+}
+
+/** Register `item` (first one wins on a duplicate key) and fill it in. */
+function addItem(items: Map<string, Item>, item: Item, fill: (item: Item) => void): void {
+  if (items.has(item.key)) {
+    let n = 2;
+    while (items.has(`${item.key}#${n}`)) n++;
+    item.key = `${item.key}#${n}`;
+  }
+  items.set(item.key, item);
+  fill(item);
+}
+
+function readItems(xml: string): { root: XmlNode; name: string; items: Map<string, Item> } | null {
+  const text = xml.replace(/^\uFEFF/, '');
+  const root = parseNodes(text);
+  if (!root || !root.name.startsWith('Ax')) return null;
+  const nameNode = root.children.find(c => c.name === 'Name');
+  const name = nameNode ? aotLeafText(text, nameNode) : '';
+  const items = new Map<string, Item>();
+  addItem(items, newItem('object', name, 'object|', '', ''), object => readInto(text, root, object, items, ''));
+  return { root, name, items };
+}
+
+/** X++ as a reviewer reads it: no CR, no trailing blanks, no leading or trailing empty lines. */
+function normalizeCode(code: string): string {
+  return code.replace(/\r\n/g, '\n').split('\n').map(l => l.replace(/\s+$/, '')).join('\n').replace(/^\n+|\n+$/g, '');
+}
+
+/** True when two bodies differ in whitespace only. */
+const sameCode = (a: string, b: string): boolean => a.replace(/\s+/g, ' ').trim() === b.replace(/\s+/g, ' ').trim();
+
+function formatValue(value: string | undefined): string {
+  if (value === undefined || value === '') return '(none)';
+  return value.length > 80 ? `${value.slice(0, 77)}…` : value;
+}
+
+function summary(item: Item): string[] {
+  const out: string[] = [];
+  // AxTableFieldString under AxTableField → String; AxFormCheckBoxControl → CheckBox.
+  const type = item.type.startsWith(item.element)
+    ? item.type.slice(item.element.length)
+    : item.type.replace(/^AxForm/, '').replace(/Control$/, '');
+  if (type) out.push(type);
+  else if (item.props.get('Type')) out.push(item.props.get('Type')!);
+  for (const prop of SUMMARY_PROPS) {
+    const value = item.props.get(prop);
+    if (value) out.push(`${prop} ${formatValue(value)}`);
+  }
+  for (const [list, values] of item.lists) out.push(`${list}: ${values.join(', ')}`);
+  if (item.kind === 'control' && item.location) out.push(`in ${item.location}`);
+  return out.length > 0 ? [out.join(', ')] : [];
+}
+
+function compare(before: Item, after: Item): AotSemanticChange | null {
+  const details: string[] = [];
+  let action: AotChangeAction = 'changed';
+  if (before.kind === 'control' && before.location !== after.location) {
+    action = 'moved';
+    details.push(`${before.location || '(root)'} → ${after.location || '(root)'}`);
+  }
+  if (before.type !== after.type) details.push(`type: ${formatValue(before.type)} → ${formatValue(after.type)}`);
+  for (const prop of new Set([...before.props.keys(), ...after.props.keys()])) {
+    const a = before.props.get(prop) ?? '';
+    const b = after.props.get(prop) ?? '';
+    if (a === b || (GUID.test(a) && GUID.test(b))) continue;
+    details.push(`${prop}: ${formatValue(a)} → ${formatValue(b)}`);
+  }
+  for (const list of new Set([...before.lists.keys(), ...after.lists.keys()])) {
+    const a = (before.lists.get(list) ?? []).join(', ');
+    const b = (after.lists.get(list) ?? []).join(', ');
+    if (a !== b) details.push(`${list}: ${formatValue(a)} → ${formatValue(b)}`);
+  }
+  let codeDiff: string | undefined;
+  if (before.code !== null || after.code !== null) {
+    const a = normalizeCode(before.code ?? '');
+    const b = normalizeCode(after.code ?? '');
+    if (!sameCode(a, b)) {
+      details.push('body');
+      codeDiff = unifiedDiff(a, b, { fromFile: `a/${before.name}`, toFile: `b/${after.name}` }).trimEnd();
+    }
+  }
+  if (details.length === 0) return null;
+  return { kind: after.kind, name: after.name, action, details, ...(codeDiff ? { codeDiff } : {}) };
+}
+
+/**
+ * What changed between two versions of one AOT file. `before` null is a new
+ * file, `after` null a deleted one. Null when either side does not parse as AOT
+ * XML, or the two are different kinds of object.
+ */
+export function diffAotXml(before: string | null, after: string | null): AotSemanticDiff | null {
+  const a = before === null ? null : readItems(before);
+  const b = after === null ? null : readItems(after);
+  if ((before !== null && !a) || (after !== null && !b) || (!a && !b)) return null;
+  if (a && b && a.root.name !== b.root.name) return null;
+  const objectType = (b ?? a)!.root.name;
+  const objectName = (b ?? a)!.name;
+  const itemsA = a?.items ?? new Map<string, Item>();
+  const itemsB = b?.items ?? new Map<string, Item>();
+  const changes: AotSemanticChange[] = [];
+
+  const object = (items: Map<string, Item>) => items.get('object|');
+  const objectBefore = object(itemsA);
+  const objectAfter = object(itemsB);
+  if (objectBefore && objectAfter) {
+    for (const prop of new Set([...objectBefore.props.keys(), ...objectAfter.props.keys()])) {
+      const x = objectBefore.props.get(prop) ?? '';
+      const y = objectAfter.props.get(prop) ?? '';
+      if (x === y || (GUID.test(x) && GUID.test(y))) continue;
+      changes.push({ kind: 'property', name: prop, action: 'changed', details: [`${formatValue(x)} → ${formatValue(y)}`] });
+    }
+    for (const list of new Set([...objectBefore.lists.keys(), ...objectAfter.lists.keys()])) {
+      const x = (objectBefore.lists.get(list) ?? []).join(', ');
+      const y = (objectAfter.lists.get(list) ?? []).join(', ');
+      if (x !== y) changes.push({ kind: 'property', name: list, action: 'changed', details: [`${formatValue(x)} → ${formatValue(y)}`] });
+    }
+  }
+
+  for (const [key, item] of itemsA) {
+    if (key === 'object|') continue;
+    const other = itemsB.get(key);
+    if (!other) {
+      changes.push({ kind: item.kind, name: item.name, action: 'removed', details: [] });
+      continue;
+    }
+    const change = compare(item, other);
+    if (change) changes.push(change);
+  }
+  for (const [key, item] of itemsB) {
+    if (key === 'object|' || itemsA.has(key)) continue;
+    const code = item.code === null ? '' : normalizeCode(item.code);
+    changes.push({
+      kind: item.kind,
+      name: item.name,
+      action: 'added',
+      details: summary(item),
+      ...(code ? { codeDiff: unifiedDiff('', code, { fromFile: '/dev/null', toFile: `b/${item.name}` }).trimEnd() } : {}),
+    });
+  }
+  return { objectType, objectName, changes };
+}
+
+/** One bullet per change, each X++ diff in a fenced block under its bullet. */
+export function renderAotSemanticDiff(diff: AotSemanticDiff): string[] {
+  if (diff.changes.length === 0) {
+    return ['- _No semantic change — element order, whitespace or regenerated identifiers only._'];
+  }
+  const lines: string[] = [];
+  for (const change of diff.changes) {
+    const details = change.details.length > 0 ? ` — ${change.details.join('; ')}` : '';
+    lines.push(`- ${change.kind} \`${change.name}\` ${change.action}${details}`);
+    if (change.codeDiff) lines.push('  ```diff', ...change.codeDiff.split('\n').map(l => `  ${l}`), '  ```');
+  }
+  return lines;
+}
@@ -0,0 +1,302 @@
+/**
+ * Three-way merge of AOT metadata XML.
+ *
+ * Two branches that each add a field to the same AxTable touch the same lines —
+ * the end of <Fields>, the field group, often <Indexes> — so git's line merge
+ * stops with conflict markers inside the XML, and Visual Studio will not open
+ * the file. Nothing actually conflicts: the fields have different names.
+ *
+ * This merges by element instead of by line:
+ *  - collections (fields, indexes, field groups, relations, methods, data
+ *    sources, controls, …) by member name, the way aotSemanticDiff keys them;
+ *  - properties and X++ bodies by value, taking the side that changed;
+ *  - anything else by element name, recursively.
+ *
+ * Only a true conflict is one: the same element changed differently on both
+ * sides, added differently on both, or changed on one and removed on the other.
+ * Those come back as AotMergeConflict entries and are resolved to one side —
+ * `prefer`, or ours when unset, in which case the caller should not write the
+ * result — or, with `markConflicts`, left in the output between git's
+ * `<<<<<<< ours` / `=======` / `>>>>>>> theirs` lines, each side's element
+ * whole, for a merge driver to hand back to git. X++ that differs only in whitespace and regenerated identifiers
+ * (GUIDs, FormExtensionControl… envelope names) never conflict.
+ *
+ * An element the merge takes whole is copied byte for byte from the side it
+ * came from. A new root element of an AxTable goes where AX_TABLE_ELEMENT_ORDER
+ * puts it; anything else new goes after the element it followed on its own side.
+ */
+
+import { axTableElementRank } from './axTablePropertyOrder.js';
+import {
+  aotKindOf, aotLeafText, aotMemberName, aotReferenceOf, isAotGuid,
+} from './aotSemanticDiff.js';
+import { lineIndentOf, parseNodes, type XmlNode } from './xmlNodeTree.js';
+
+export type AotMergeSide = 'ours' | 'theirs';
+
+export interface AotMergeConflict {
+  /** `Fields › WarrantyDays › ExtendedDataType` */
+  path: string;
+  /** Kind and name of the item the conflict sits in; `object` for the root. */
+  kind: string;
+  name: string;
+  reason: 'both-changed' | 'both-added' | 'changed-and-removed';
+  /** Each side's value — text for a property or X++, `(absent)` when removed. Clipped. */
+  base: string;
+  ours: string;
+  theirs: string;
+  /** The side the merged output took, or null when no side was preferred (ours is in the output). */
+  resolvedTo: AotMergeSide | null;
+}
+
+export interface AotMergeResult {
+  objectType: string;
+  objectName: string;
+  merged: string;
+  conflicts: AotMergeConflict[];
+}
+
+interface Ref {
+  xml: string;
+  node: XmlNode;
+}
+
+interface Scope {
+  path: string[];
+  kind: string;
+  name: string;
+}
+
+const CODE_ELEMENTS = new Set(['Source', 'Declaration']);
+const CONFLICT_START = '<<<<<<< ours';
+const MAX_SHOWN = 200;
+
+/** Designer-generated identifiers: equal in meaning whatever their value. */
+const isRegenerated = (value: string): boolean => isAotGuid(value) || /^FormExtensionControl\w+$/.test(value);
+
+const isLeaf = (n: XmlNode): boolean => n.children.length === 0;
+
+/**
+ * Whether two differing versions compare as values rather than as element
+ * trees. An empty element is an empty collection (`<Methods />`), which merges
+ * with a populated one member by member.
+ */
+function isValue(o: Ref, t: Ref): boolean {
+  const hasText = (r: Ref) => isLeaf(r.node) && aotLeafText(r.xml, r.node).trim() !== '';
+  return (isLeaf(o.node) && isLeaf(t.node)) || hasText(o) || hasText(t);
+}
+
+function openTag(ref: Ref): string {
+  return ref.xml.slice(ref.node.start, ref.node.openEnd);
+}
+
+/** Value-level identity: whitespace between tags never counts, whitespace inside X++ does not either. */
+function canonical(ref: Ref): string {
+  const { xml, node } = ref;
+  const tag = openTag(ref).replace(/\s*\/?>$/, '').replace(/\s+/g, ' ');
+  if (isLeaf(node)) {
+    const text = aotLeafText(xml, node);
+    return `${tag}>${CODE_ELEMENTS.has(node.name) ? text.replace(/\s+/g, ' ').trim() : text}`;
+  }
+  return `${tag}>${node.children.map(c => canonical({ xml, node: c })).join('')}`;
+}
+
+function same(a: Ref | undefined, b: Ref | undefined): boolean {
+  if (!a || !b) return a === b;
+  return canonical(a) === canonical(b);
+}
+
+function shown(ref: Ref | undefined): string {
+  if (!ref) return '(absent)';
+  const text = isLeaf(ref.node) ? aotLeafText(ref.xml, ref.node).trim() : ref.xml.slice(ref.node.start, ref.node.end);
+  return text.length > MAX_SHOWN ? `${text.slice(0, MAX_SHOWN - 1)}…` : text;
+}
+
+function verbatim(ref: Ref): string {
+  return ref.xml.slice(ref.node.start, ref.node.end);
+}
+
+/** Identity of a child within its parent: member name in a collection, element name otherwise. */
+function keysOf(xml: string, parent: XmlNode): Map<string, XmlNode> {
+  const keys = new Map<string, XmlNode>();
+  for (const child of parent.children) {
+    const member = isLeaf(child) ? null : aotMemberName(xml, child);
+    const reference = member === null && !isLeaf(child) ? aotReferenceOf(xml, child) : null;
+    const base = member !== null
+      ? `${child.name}|${member}`
+      : reference !== null ? `${child.name}|=${reference}` : child.name;
+    let key = base;
+    for (let n = 2; keys.has(key); n++) key = `${base}#${n}`;
+    keys.set(key, child);
+  }
+  return keys;
+}
+
+class Merger {
+  readonly conflicts: AotMergeConflict[] = [];
+
+  constructor(
+    private readonly prefer: AotMergeSide | undefined,
+    private readonly markConflicts = false,
+  ) {}
+
+  /** Record a conflict; the text it leaves in the output, or null for nothing. */
+  private conflict(scope: Scope, reason: AotMergeConflict['reason'], b?: Ref, o?: Ref, t?: Ref): string | null {
+    this.conflicts.push({
+      path: scope.path.join(' › '),
+      kind: scope.kind,
+      name: scope.name,
+      reason,
+      base: shown(b),
+      ours: shown(o),
+      theirs: shown(t),
+      resolvedTo: this.prefer ?? null,
+    });
+    if (this.markConflicts && !this.prefer) {
+      // Marker lines start the line; each side keeps its own indentation.
+      const side = (r?: Ref) => (r ? `${lineIndentOf(r.xml, r.node.start)}${verbatim(r)}\n` : '');
+      return `${CONFLICT_START}\n${side(o)}=======\n${side(t)}>>>>>>> theirs`;
+    }
+    const pick = this.prefer === 'theirs' ? t : o;
+    return pick ? verbatim(pick) : null;
+  }
+
+  /** Merged text of one element, or null when the merge drops it. */
+  element(b: Ref | undefined, o: Ref | undefined, t: Ref | undefined, scope: Scope): string | null {
+    if (!o && !t) return null;
+    if (!b) {
+      if (!o || !t) return verbatim((o ?? t)!);
+      if (same(o, t)) return verbatim(o);
+      if (isValue(o, t)) return this.leafConflict(scope, 'both-added', b, o, t);
+      return this.children(b, o, t, scope);
+    }
+    if (!o || !t) {
+      const kept = (o ?? t)!;
+      if (same(kept, b)) return null;
+      return this.conflict(scope, 'changed-and-removed', b, o, t);
+    }
+    if (same(o, t) || same(t, b)) return verbatim(o);
+    if (same(o, b)) return verbatim(t);
+    if (isValue(o, t)) return this.leafConflict(scope, 'both-changed', b, o, t);
+    return this.children(b, o, t, scope);
+  }
+
+  private leafConflict(scope: Scope, reason: AotMergeConflict['reason'], b: Ref | undefined, o: Ref, t: Ref): string {
+    if (isLeaf(o.node) && isLeaf(t.node) && isRegenerated(aotLeafText(o.xml, o.node)) && isRegenerated(aotLeafText(t.xml, t.node))) {
+      return verbatim(o);
+    }
+    return this.conflict(scope, reason, b, o, t)!;
+  }
+
+  /** An element present on both sides, merged child by child and rebuilt around ours' open tag. */
+  private children(b: Ref | undefined, o: Ref, t: Ref, scope: Scope): string {
+    const keysB = b ? keysOf(b.xml, b.node) : new Map<string, XmlNode>();
+    const keysO = keysOf(o.xml, o.node);
+    const keysT = keysOf(t.xml, t.node);
+    const order = this.order([...keysO.keys()], [...keysT.keys()], keysT, scope);
+
+    const parts: string[] = [];
+    for (const key of order) {
+      const pick = (keys: Map<string, XmlNode>, xml: string) => {
+        const node = keys.get(key);
+        return node ? { xml, node } : undefined;
+      };
+      const child = (keysO.get(key) ?? keysT.get(key))!;
+      const member = key.includes('|') && !key.includes('|=') ? key.slice(key.indexOf('|') + 1).replace(/#\d+$/, '') : null;
+      const childScope: Scope = member !== null
+        ? { path: [...scope.path, member], kind: aotKindOf(child.name), name: member }
+        : { ...scope, path: [...scope.path, child.name] };
+      const text = this.element(pick(keysB, b?.xml ?? ''), pick(keysO, o.xml), pick(keysT, t.xml), childScope);
+      if (text !== null) parts.push(text);
+    }
+
+    // The open tag carries i:type; take theirs when only theirs changed it.
+    const tagOf = (r: Ref) => openTag(r).replace(/\s*\/?>$/, '').replace(/\s+/g, ' ');
+    const tagSide = b && tagOf(o) === tagOf(b) && tagOf(t) !== tagOf(b) ? t : o;
+    const open = openTag(tagSide).replace(/\s*\/>$/, '>');
+    const indent = lineIndentOf(o.xml, o.node.start);
+    if (parts.length === 0) return open.replace(/>$/, ' />');
+    const childIndent = this.childIndent(o) ?? this.childIndent(t) ?? `${indent}\t`;
+    const indented = parts.map(p => (p.startsWith(CONFLICT_START) ? p : childIndent + p));
+    return `${open}\n${indented.join('\n')}\n${indent}</${o.node.name}>`;
+  }
+
+  private childIndent(ref: Ref): string | null {
+    const first = ref.node.children[0];
+    return first ? lineIndentOf(ref.xml, first.start) : null;
+  }
+
+  /**
+   * Ours' order, with each key only theirs has placed after the key it followed
+   * there (and after ours' own additions at that spot). New root elements of an AxTable go by AX_TABLE_ELEMENT_ORDER instead.
+   */
+  private order(ours: string[], theirs: string[], keysT: Map<string, XmlNode>, scope: Scope): string[] {
+    const order = [...ours];
+    const byRank = scope.path.length === 1 && scope.path[0] === 'AxTable';
+    theirs.forEach((key, i) => {
+      if (order.includes(key)) return;
+      const rank = byRank ? axTableElementRank(keysT.get(key)!.name) : Number.MAX_SAFE_INTEGER;
+      if (rank !== Number.MAX_SAFE_INTEGER) {
+        const before = order.findIndex(k => {
+          const r = axTableElementRank(k.split('|')[0]);
+          return r !== Number.MAX_SAFE_INTEGER && r > rank;
+        });
+        order.splice(before === -1 ? order.length : before, 0, key);
+        return;
+      }
+      let at = 0;
+      for (let j = i - 1; j >= 0; j--) {
+        const k = order.indexOf(theirs[j]);
+        if (k !== -1) { at = k + 1; break; }
+      }
+      // After whatever ours added at the same spot, the way a line merge would.
+      while (at < order.length && !keysT.has(order[at])) at++;
+      order.splice(at, 0, key);
+    });
+    return order;
+  }
+}
+
+function parse(xml: string): Ref | null {
+  const node = parseNodes(xml);
+  return node && node.name.startsWith('Ax') ? { xml, node } : null;
+}
+
+/**
+ * Merge `ours` and `theirs`, both descended from `base`. Null when any of the
+ * three does not parse as AOT XML or they are not the same kind of object.
+ * `base` may be null for two files added independently on both branches.
+ * `markConflicts` leaves an unresolved conflict in `merged` between markers.
+ */
+export function mergeAotXml(
+  base: string | null,
+  ours: string,
+  theirs: string,
+  prefer?: AotMergeSide,
+  markConflicts = false,
+): AotMergeResult | null {
+  const b = base === null ? undefined : parse(base.replace(/^\uFEFF/, ''));
+  const o = parse(ours.replace(/^\uFEFF/, ''));
+  const t = parse(theirs.replace(/^\uFEFF/, ''));
+  if (b === null || !o || !t) return null;
+  if (o.node.name !== t.node.name || (b && b.node.name !== o.node.name)) return null;
+
+  const nameNode = o.node.children.find(c => c.name === 'Name');
+  const objectName = nameNode ? aotLeafText(o.xml, nameNode) : '';
+  const merger = new Merger(prefer, markConflicts);
+  const root = merger.element(b, o, t, { path: [o.node.name], kind: 'object', name: objectName }) ?? verbatim(o);
+  const bom = ours.startsWith('\uFEFF') ? '\uFEFF' : '';
+  return {
+    objectType: o.node.name,
+    objectName,
+    merged: bom + o.xml.slice(0, o.node.start) + root + o.xml.slice(o.node.end),
+    conflicts: merger.conflicts,
+  };
+}
+
+/** One conflict as text — where it is, why, each side's value, and the side taken. */
+export function renderAotMergeConflict(c: AotMergeConflict): string {
+  const resolved = c.resolvedTo ? ` → took ${c.resolvedTo}` : '';
+  return `- ${c.kind} \`${c.name}\` — ${c.reason} at ${c.path}${resolved}\n` +
+    `    base: ${c.base}\n    ours: ${c.ours}\n    theirs: ${c.theirs}`;
+}
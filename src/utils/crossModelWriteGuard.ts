@@ -99,9 +99,10 @@ export interface CrossModelWriteCheck {
    * "extend it from your model instead" remedy: that is the answer for a write
    * that wanted to CHANGE a foreign object, and an extension cannot un-define
    * one, so offering it to a caller who asked to remove something is advice that
-   * cannot be followed.
+   * cannot be followed. 'move' drops that remedy too: the object ends up in one
+   * of the two models either way, and an extension from a third is not a move.
    */
-  action?: 'modify' | 'create' | 'delete';
+  action?: 'modify' | 'create' | 'delete' | 'move';
 }
 
 /**
@@ -145,6 +146,7 @@ const PAST_TENSE: Record<NonNullable<CrossModelWriteCheck['action']>, string> =
   create: 'created',
   modify: 'modified',
   delete: 'deleted',
+  move: 'moved',
 };
 
 export function standDownNotice(check: CrossModelWriteCheck): string {
@@ -304,7 +306,7 @@ export function crossModelWriteRefusal(check: CrossModelWriteCheck): string | nu
       `references in "${activeModel}" — find_references(name="${objectName}") lists them.`,
       '',
     );
-  } else if (extType) {
+  } else if (extType && verb !== 'move') {
     const existing = (check.existingExtensions ?? []).filter(e => !eq(e.name, objectName));
     lines.push(`Extend it from "${activeModel}" instead:`);
     if (existing.length > 0) {
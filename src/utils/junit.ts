@@ -0,0 +1,75 @@
+/**
+ * JUnit XML output — what the Azure DevOps "Publish Test Results" task (and
+ * every other CI test tab) reads.
+ *
+ * JUnit has no notion of a warning, so a case fails only on its failures; the
+ * warnings it carries are written to its `<system-out>`, where the test tab
+ * still shows them next to the case.
+ */
+
+import { escapeXml, escapeXmlAttr } from './xmlEscape.js';
+
+export interface JUnitFailure {
+  /** One line: the rule and where it fired. */
+  message: string;
+  /** The failure's category — the rule ID for a diagnostic. */
+  type: string;
+  /** Body of the `<failure>` element. */
+  detail?: string;
+}
+
+export interface JUnitCase {
+  name: string;
+  classname: string;
+  failures: JUnitFailure[];
+  systemOut?: string;
+}
+
+export interface JUnitSuite {
+  name: string;
+  cases: JUnitCase[];
+  /** Seconds. */
+  time?: number;
+}
+
+/** Characters XML 1.0 forbids outright — build logs do carry the odd control code. */
+function stripInvalid(text: string): string {
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: these are exactly what has to go
+  return text.replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+export function toJUnitXml(suites: JUnitSuite[]): string {
+  const count = (pick: (s: JUnitSuite) => number) => suites.reduce((n, s) => n + pick(s), 0);
+  const failed = (s: JUnitSuite) => s.cases.filter(c => c.failures.length > 0).length;
+  const attr = (value: unknown) => escapeXmlAttr(stripInvalid(String(value)));
+  const text = (value: string) => escapeXml(stripInvalid(value));
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites tests="${count(s => s.cases.length)}" failures="${count(failed)}" errors="0">`,
+  ];
+  for (const suite of suites) {
+    lines.push(
+      `  <testsuite name="${attr(suite.name)}" tests="${suite.cases.length}" failures="${failed(suite)}" ` +
+      `errors="0" skipped="0"${suite.time !== undefined ? ` time="${suite.time}"` : ''}>`,
+    );
+    for (const c of suite.cases) {
+      const open = `    <testcase name="${attr(c.name)}" classname="${attr(c.classname)}"`;
+      if (c.failures.length === 0 && !c.systemOut) {
+        lines.push(`${open} />`);
+        continue;
+      }
+      lines.push(`${open}>`);
+      for (const f of c.failures) {
+        lines.push(
+          `      <failure message="${attr(f.message)}" type="${attr(f.type)}">${text(f.detail ?? f.message)}</failure>`,
+        );
+      }
+      if (c.systemOut) lines.push(`      <system-out>${text(c.systemOut)}</system-out>`);
+      lines.push('    </testcase>');
+    }
+    lines.push('  </testsuite>');
+  }
+  lines.push('</testsuites>');
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,96 @@
+/**
+ * SARIF 2.1.0 output — the format CI code-scanning reads (GitHub code scanning,
+ * the Azure DevOps SARIF viewer, SonarQube's external-issues import).
+ *
+ * Only what those consumers show is written: one run, the rules that fired
+ * and one result per finding, located by file and line. A finding without a
+ * line is located at the file; one without a file, by its logical name. URIs are relative to `baseDir` (forward
+ * slashes, under `%SRCROOT%`) when the file is inside it, so the results map
+ * onto the checkout the pipeline uploads them from; anything else is an
+ * absolute `file://` URI.
+ */
+
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+export const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+export interface SarifFinding {
+  ruleId: string;
+  level: 'error' | 'warning' | 'note';
+  message: string;
+  /** Absolute path of the file the finding is in. */
+  file?: string;
+  /** 1-based; only with `file`. */
+  line?: number;
+  /**
+   * Where the finding is when there is no file to point at, e.g.
+   * `ContosoCore/ConAssetTable/validateWrite` for a compiler diagnostic.
+   */
+  logicalLocation?: string;
+}
+
+export interface SarifToolInfo {
+  name: string;
+  /** Omitted when the tool's own version is not known — a log read back from a file. */
+  version?: string;
+  informationUri?: string;
+  /** One-line description per rule ID, shown next to each result. */
+  ruleDescriptions?: Record<string, string>;
+}
+
+/** xppbp prints `K:\…` paths; the report may be written on another OS than the one that ran it. */
+const isWindowsPath = (file: string) => /^[A-Za-z]:[\\/]/.test(file);
+
+function artifactLocation(file: string, baseDir: string | undefined): { uri: string; uriBaseId?: string } {
+  const paths = isWindowsPath(file) ? path.win32 : path;
+  if (baseDir) {
+    const relative = paths.relative(baseDir, file);
+    if (relative && !relative.startsWith('..') && !paths.isAbsolute(relative)) {
+      return { uri: relative.split(paths.sep).map(encodeURIComponent).join('/'), uriBaseId: '%SRCROOT%' };
+    }
+  }
+  if (isWindowsPath(file) && paths !== path) {
+    return { uri: `file:///${file.split(/[\\/]/).map((s, i) => (i === 0 ? s : encodeURIComponent(s))).join('/')}` };
+  }
+  return { uri: pathToFileURL(file).href };
+}
+
+/** A complete SARIF log for one run of `tool` over `findings`. */
+export function toSarifLog(findings: SarifFinding[], tool: SarifToolInfo, baseDir?: string): object {
+  const ruleIds = [...new Set(findings.map(f => f.ruleId))].sort();
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: tool.name,
+          ...(tool.version ? { version: tool.version } : {}),
+          ...(tool.informationUri ? { informationUri: tool.informationUri } : {}),
+          rules: ruleIds.map(id => ({
+            id,
+            ...(tool.ruleDescriptions?.[id] ? { shortDescription: { text: tool.ruleDescriptions[id] } } : {}),
+          })),
+        },
+      },
+      ...(baseDir ? { originalUriBaseIds: { '%SRCROOT%': { uri: pathToFileURL(`${baseDir}${path.sep}`).href } } } : {}),
+      results: findings.map(f => ({
+        ruleId: f.ruleId,
+        ruleIndex: ruleIds.indexOf(f.ruleId),
+        level: f.level,
+        message: { text: f.message },
+        locations: f.file
+          ? [{
+            physicalLocation: {
+              artifactLocation: artifactLocation(f.file, baseDir),
+              ...(f.line ? { region: { startLine: f.line } } : {}),
+            },
+          }]
+          : f.logicalLocation
+            ? [{ logicalLocations: [{ fullyQualifiedName: f.logicalLocation }] }]
+            : [],
+      })),
+    }],
+  };
+}
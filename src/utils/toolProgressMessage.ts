@@ -36,14 +36,18 @@ export function buildProgressMessage(toolName: string, args: Record<string, any>
         default:            return `🔗 Finding CoC extensions of ${a.target ?? ''}${a.method ? `.${a.method}` : ''}`;
       }
     case 'security_info':
-      return a.mode === 'coverage'
-        ? `🔒 Reading security coverage for ${a.objectName ?? ''}`
-        : `🔒 Reading security artifact ${a.name ?? ''}`;
+      switch (a.mode) {
+        case 'coverage': return `🔒 Reading security coverage for ${a.objectName ?? ''}`;
+        case 'sod':      return '🔒 Checking roles for segregation-of-duties conflicts';
+        case 'matrix':   return `🔒 Building the permission matrix of role ${a.role ?? ''}`;
+        default:         return `🔒 Reading security artifact ${a.name ?? ''}`;
+      }
     case 'analyze_code':
       switch (a.mode) {
         case 'implementations': return `💡 Suggesting implementation for ${a.className ?? ''}.${a.methodName ?? ''}`;
         case 'completeness':    return `✅ Analyzing completeness of class ${a.className ?? ''}`;
         case 'api-usage':       return `📐 API usage patterns for ${a.apiName ?? ''}`;
+        case 'impact':          return `💥 Analyzing the impact of changing ${a.target ?? ''}`;
         default:                return `📐 Analyzing code patterns: "${a.scenario ?? ''}"`;
       }
     case 'd365fo_file':
@@ -101,13 +105,26 @@ export function buildProgressMessage(toolName: string, args: Record<string, any>
           }
         }
         case 'generate': return `🔧 Generating XML for ${a.objectType ?? 'object'} ${a.objectName ?? ''}`;
+        case 'rename': {
+          const p = { ...a, ...(a.params ?? {}) };
+          return `✏️ Renaming ${p.objectType ?? 'object'} ${p.objectName ?? ''} → ${p.newName ?? ''}`;
+        }
+        case 'move': {
+          const p = { ...a, ...(a.params ?? {}) };
+          return `📦 Moving ${p.objectType ?? 'object'} ${p.objectName ?? ''} → ${p.targetModel ?? ''}`;
+        }
         default:         return `📁 Creating ${a.objectType ?? 'object'} ${a.objectName ?? ''}`;
       }
     case 'generate_object':
       if (a.mode === 'scaffold') {
         const kind = (a.objectType as string) ?? 'object';
+        if (kind === 'data-entity') {
+          const p = { ...a, ...(a.params ?? {}) };
+          return `🏗️ Generating data-entity from table ${p.fromTable ?? ''}`;
+        }
         return `🏗️ Generating ${kind} ${a.name ?? ''}`;
       }
+      if (a.mode === 'security') return `🔐 Generating security for ${a.name ?? ''}`;
       return `🔧 Generating code pattern "${a.pattern ?? ''}" for ${a.name ?? ''}`;
     case 'object_patterns':
       if (a.domain === 'table') {
@@ -133,6 +150,12 @@ export function buildProgressMessage(toolName: string, args: Record<string, any>
           return `🏷️ Creating label ${a.labelId ?? ''}`;
         case 'rename':
           return `🏷️ Renaming label ${a.oldLabelId ?? ''} → ${a.newLabelId ?? ''}`;
+        case 'gaps':
+          return `🏷️ Comparing label translations${a.model ? ` in ${a.model}` : ''}`;
+        case 'audit':
+          return `🏷️ Auditing labels${a.model ? ` of ${a.model}` : ''}`;
+        case 'extract':
+          return `🏷️ Extracting labels${a.objectName ? ` from ${a.objectName}` : ''}`;
         default:
           return `🏷️ Label operation${action ? ` (${action})` : ''}`;
       }
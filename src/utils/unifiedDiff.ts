@@ -0,0 +1,125 @@
+/**
+ * Line-based unified diff, in the format `git diff` and `patch` read.
+ *
+ * The lines both texts share at the start and the end are set aside first;
+ * only the middle goes through the LCS table. A fix touches a handful of
+ * lines in a file of hundreds, so the table stays small. A middle too large
+ * for the table (over MAX_TABLE_CELLS) is reported as one replaced block —
+ * still a correct patch, only a coarser one.
+ */
+
+const MAX_TABLE_CELLS = 4_000_000;
+
+export interface UnifiedDiffOptions {
+  /** Name on the `---` line. Defaults to `a`. */
+  fromFile?: string;
+  /** Name on the `+++` line. Defaults to `b`. */
+  toFile?: string;
+  /** Unchanged lines shown around each change. Defaults to 3. */
+  context?: number;
+}
+
+type DiffOp = { kind: ' ' | '-' | '+'; text: string };
+
+/** Edit script for the middle section, by longest common subsequence. */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  if (a.length * b.length > MAX_TABLE_CELLS) {
+    return [
+      ...a.map(text => ({ kind: '-' as const, text })),
+      ...b.map(text => ({ kind: '+' as const, text })),
+    ];
+  }
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ kind: ' ', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      ops.push({ kind: '-', text: a[i++] });
+    } else {
+      ops.push({ kind: '+', text: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ kind: '-', text: a[i++] });
+  while (j < b.length) ops.push({ kind: '+', text: b[j++] });
+  return ops;
+}
+
+/** `start,count` of a hunk header; an empty side points at the line before it. */
+function hunkRange(start: number, count: number): string {
+  return `${count === 0 ? start - 1 : start},${count}`;
+}
+
+/**
+ * Unified diff of `before` → `after`. Empty string when they are equal.
+ * CRLF is compared as LF, so a file's line endings never show as a change.
+ */
+export function unifiedDiff(before: string, after: string, options: UnifiedDiffOptions = {}): string {
+  if (before === after) return '';
+  const context = options.context ?? 3;
+  const a = before.replace(/\r\n/g, '\n').split('\n');
+  const b = after.replace(/\r\n/g, '\n').split('\n');
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+  if (prefix === a.length && prefix === b.length) return '';
+
+  const ops: DiffOp[] = [
+    ...a.slice(0, prefix).map(text => ({ kind: ' ' as const, text })),
+    ...diffLines(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    ...a.slice(a.length - suffix).map(text => ({ kind: ' ' as const, text })),
+  ];
+
+  const out = [`--- ${options.fromFile ?? 'a'}`, `+++ ${options.toFile ?? 'b'}`];
+  // Line numbers (1-based) in `before` / `after` where each op sits.
+  const oldLine: number[] = [];
+  const newLine: number[] = [];
+  let o = 1;
+  let n = 1;
+  for (const op of ops) {
+    oldLine.push(o);
+    newLine.push(n);
+    if (op.kind !== '+') o++;
+    if (op.kind !== '-') n++;
+  }
+
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].kind === ' ') { k++; continue; }
+    const start = Math.max(0, k - context);
+    let end = k;
+    // Extend the hunk while the next change is within 2×context unchanged lines.
+    for (;;) {
+      while (end < ops.length && ops[end].kind !== ' ') end++;
+      let next = end;
+      while (next < ops.length && ops[next].kind === ' ') next++;
+      if (next < ops.length && next - end <= context * 2) { end = next; continue; }
+      end = Math.min(ops.length, end + context);
+      break;
+    }
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter(op => op.kind !== '+').length;
+    const newCount = hunk.filter(op => op.kind !== '-').length;
+    out.push(`@@ -${hunkRange(oldLine[start], oldCount)} +${hunkRange(newLine[start], newCount)} @@`);
+    for (const op of hunk) out.push(`${op.kind}${op.text}`);
+    k = end;
+  }
+  return out.join('\n');
+}
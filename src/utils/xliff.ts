@@ -0,0 +1,115 @@
+/**
+ * XLIFF 1.2 — the exchange format translation tools (Trados, memoQ, Poedit,
+ * the Multilingual App Toolkit) open without an import filter.
+ *
+ * One `<file>` per label file and target language, one `<trans-unit>` per
+ * label. The label ID is the unit's `id`, the label file ID its `original`,
+ * so a document round-trips to the `.label.txt` it came from without any
+ * side table. Only what the label gap workflow needs is modelled: source,
+ * target, its state and the developer comment as a `<note>`.
+ */
+
+import { escapeXml, escapeXmlAttr } from './xmlEscape.js';
+import { parseStringPromise } from './xml.js';
+
+export const XLIFF_NAMESPACE = 'urn:oasis:names:tc:xliff:document:1.2';
+
+export interface XliffUnit {
+  id: string;
+  source: string;
+  /** Absent when there is nothing to pre-fill. */
+  target?: string;
+  /** XLIFF 1.2 target state, e.g. `needs-translation`, `translated`, `final`. */
+  state?: string;
+  note?: string;
+}
+
+export interface XliffFile {
+  /** The label file ID. */
+  original: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  units: XliffUnit[];
+}
+
+/** Render the files as one XLIFF 1.2 document. */
+export function buildXliff(files: XliffFile[]): string {
+  const out: string[] = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    `<xliff version="1.2" xmlns="${XLIFF_NAMESPACE}">`,
+  ];
+  for (const file of files) {
+    out.push(
+      `  <file original="${escapeXmlAttr(file.original)}" source-language="${escapeXmlAttr(file.sourceLanguage)}" ` +
+      `target-language="${escapeXmlAttr(file.targetLanguage)}" datatype="plaintext">`,
+    );
+    out.push('    <body>');
+    for (const unit of file.units) {
+      out.push(`      <trans-unit id="${escapeXmlAttr(unit.id)}" resname="${escapeXmlAttr(unit.id)}" xml:space="preserve">`);
+      out.push(`        <source>${escapeXml(unit.source)}</source>`);
+      if (unit.target !== undefined) {
+        const state = unit.state ? ` state="${escapeXmlAttr(unit.state)}"` : '';
+        out.push(`        <target${state}>${escapeXml(unit.target)}</target>`);
+      }
+      if (unit.note) out.push(`        <note>${escapeXml(unit.note)}</note>`);
+      out.push('      </trans-unit>');
+    }
+    out.push('    </body>');
+    out.push('  </file>');
+  }
+  out.push('</xliff>');
+  return out.join('\n') + '\n';
+}
+
+/** Text of an element as xml2js returns it: a string, or `{ _: text, $: attrs }`. */
+function textOf(node: unknown): string {
+  if (node === undefined || node === null) return '';
+  if (typeof node === 'string') return node;
+  if (typeof node === 'object' && '_' in (node as Record<string, unknown>)) {
+    return String((node as Record<string, unknown>)._ ?? '');
+  }
+  return '';
+}
+
+function attrsOf(node: unknown): Record<string, string> {
+  return (node && typeof node === 'object' && (node as any).$) || {};
+}
+
+/**
+ * Parse an XLIFF 1.2 document back into its files. Throws on malformed XML or
+ * a root that is not `<xliff>` — the caller reports both as a bad import.
+ */
+export async function parseXliff(xml: string): Promise<XliffFile[]> {
+  const doc = await parseStringPromise(xml, { explicitArray: true });
+  const root = doc?.xliff;
+  if (!root) throw new Error('not an XLIFF document (no <xliff> root element)');
+
+  const files: XliffFile[] = [];
+  for (const file of (root.file ?? []) as unknown[]) {
+    const attrs = attrsOf(file);
+    const units: XliffUnit[] = [];
+    const bodies = ((file as any).body ?? []) as unknown[];
+    for (const body of bodies) {
+      for (const tu of ((body as any)?.['trans-unit'] ?? []) as unknown[]) {
+        const id = attrsOf(tu).id ?? attrsOf(tu).resname;
+        if (!id) continue;
+        const targetNode = (tu as any).target?.[0];
+        const note = textOf((tu as any).note?.[0]);
+        units.push({
+          id,
+          source: textOf((tu as any).source?.[0]),
+          ...(targetNode !== undefined ? { target: textOf(targetNode) } : {}),
+          ...(attrsOf(targetNode).state ? { state: attrsOf(targetNode).state } : {}),
+          ...(note ? { note } : {}),
+        });
+      }
+    }
+    files.push({
+      original: attrs.original ?? '',
+      sourceLanguage: attrs['source-language'] ?? '',
+      targetLanguage: attrs['target-language'] ?? '',
+      units,
+    });
+  }
+  return files;
+}
@@ -0,0 +1,177 @@
+/**
+ * X++ lexer — the one tokenizer the X++ rules share.
+ *
+ * Every rule used to re-tokenize on its own: validateXpp masked strings and
+ * comments into a same-length copy and ran regexes over it, xppSelectLint
+ * stripped them a second way, and neither knew where a select ended. Tokens
+ * here carry their offset and line, so a rule reporting on the AST built from
+ * them (xppParser.ts) still points at the line the caller wrote.
+ *
+ * Never throws: an unterminated string or comment runs to the end of its line
+ * (string) or of the source (comment), and any character that is not X++ comes
+ * out as a one-character punct token. Snippets, half-written methods and the
+ * occasional XML paste all lex.
+ */
+
+export type XppTokenKind = 'identifier' | 'number' | 'string' | 'punct' | 'macro' | 'eof';
+
+export interface XppToken {
+  kind: XppTokenKind;
+  /** Source text, verbatim. */
+  text: string;
+  /** Lower-cased text — X++ keywords and identifiers are case-insensitive. */
+  lower: string;
+  start: number;
+  end: number;
+  /** 1-based line of `start`. */
+  line: number;
+}
+
+export interface XppComment {
+  text: string;
+  start: number;
+  end: number;
+  line: number;
+  endLine: number;
+  block: boolean;
+}
+
+export interface XppLexResult {
+  tokens: XppToken[];
+  comments: XppComment[];
+}
+
+/** Two-character operators; any other symbol is a one-character punct token. */
+const OPERATORS = [
+  '::', '==', '!=', '<=', '>=', '&&', '||', '++', '--', '+=', '-=', '*=', '/=',
+  '=>', '<<', '>>', '|=', '&=', '^=',
+];
+
+const isIdentStart = (c: string): boolean => /[A-Za-z_]/.test(c);
+const isIdentPart = (c: string): boolean => /[A-Za-z0-9_]/.test(c);
+const isDigit = (c: string): boolean => c >= '0' && c <= '9';
+
+export function lexXpp(source: string): XppLexResult {
+  const tokens: XppToken[] = [];
+  const comments: XppComment[] = [];
+  const n = source.length;
+  let i = 0;
+  let line = 1;
+
+  /** Newlines in [from, to). */
+  const countLines = (from: number, to: number): number => {
+    let lines = 0;
+    for (let k = from; k < to; k++) if (source.charCodeAt(k) === 10) lines++;
+    return lines;
+  };
+
+  const push = (kind: XppTokenKind, start: number, end: number): void => {
+    const text = source.slice(start, end);
+    tokens.push({ kind, text, lower: text.toLowerCase(), start, end, line });
+    line += countLines(start, end);
+  };
+
+  while (i < n) {
+    const c = source[i];
+    const c2 = i + 1 < n ? source[i + 1] : '';
+
+    if (c === '\n') { line++; i++; continue; }
+    if (c === ' ' || c === '\t' || c === '\r' || c === '\f' || c === '\v' || c === '\uFEFF') { i++; continue; }
+
+    if (c === '/' && c2 === '/') {
+      const nl = source.indexOf('\n', i);
+      const end = nl === -1 ? n : nl;
+      comments.push({ text: source.slice(i, end), start: i, end, line, endLine: line, block: false });
+      i = end;
+      continue;
+    }
+    if (c === '/' && c2 === '*') {
+      const close = source.indexOf('*/', i + 2);
+      const end = close === -1 ? n : close + 2;
+      const endLine = line + countLines(i, end);
+      comments.push({ text: source.slice(i, end), start: i, end, line, endLine, block: true });
+      line = endLine;
+      i = end;
+      continue;
+    }
+
+    // Verbatim string: @"…", a doubled quote escapes, may span lines.
+    if (c === '@' && (c2 === '"' || c2 === '\'')) {
+      const quote = c2;
+      let j = i + 2;
+      while (j < n) {
+        if (source[j] === quote) {
+          if (source[j + 1] === quote) { j += 2; continue; }
+          j++;
+          break;
+        }
+        j++;
+      }
+      push('string', i, Math.min(j, n));
+      i = Math.min(j, n);
+      continue;
+    }
+
+    if (c === '"' || c === '\'') {
+      let j = i + 1;
+      while (j < n) {
+        const d = source[j];
+        if (d === '\\') { j += 2; continue; }
+        if (d === '\n') break; // unterminated — stop at the line end
+        if (d === c) { j++; break; }
+        j++;
+      }
+      const end = Math.min(j, n);
+      push('string', i, end);
+      i = end;
+      continue;
+    }
+
+    if (isDigit(c) || (c === '.' && isDigit(c2))) {
+      let j = i;
+      if (c === '0' && (c2 === 'x' || c2 === 'X')) {
+        j += 2;
+        while (j < n && /[0-9A-Fa-f]/.test(source[j])) j++;
+      } else {
+        while (j < n && (isDigit(source[j]) || source[j] === '.')) j++;
+        // Date literal: 31\12\2024.
+        while (j < n && source[j] === '\\' && isDigit(source[j + 1] ?? '')) {
+          j++;
+          while (j < n && isDigit(source[j])) j++;
+        }
+        if (j < n && (source[j] === 'e' || source[j] === 'E') && /[-+0-9]/.test(source[j + 1] ?? '')) {
+          j += 2;
+          while (j < n && isDigit(source[j])) j++;
+        }
+      }
+      while (j < n && /[uUlL]/.test(source[j])) j++;
+      push('number', i, j);
+      i = j;
+      continue;
+    }
+
+    if (isIdentStart(c)) {
+      let j = i + 1;
+      while (j < n && isIdentPart(source[j])) j++;
+      push('identifier', i, j);
+      i = j;
+      continue;
+    }
+
+    if (c === '#' && isIdentStart(c2)) {
+      let j = i + 2;
+      while (j < n && isIdentPart(source[j])) j++;
+      push('macro', i, j);
+      i = j;
+      continue;
+    }
+
+    const op = OPERATORS.find(o => source.startsWith(o, i));
+    const len = op ? op.length : 1;
+    push('punct', i, i + len);
+    i += len;
+  }
+
+  tokens.push({ kind: 'eof', text: '', lower: '', start: n, end: n, line });
+  return { tokens, comments };
+}
@@ -0,0 +1,1572 @@
+/**
+ * X++ parser — classes, methods, statements and the select grammar, as an AST.
+ *
+ * The rules in validateXpp and xppSelectLint used to ask questions of regexes
+ * that only a parse can answer: is this `while select` inside that one, where
+ * does this where clause end, is this `return` in the method or in a lambda
+ * handed to a delegate. Each answer was a line-based guess, and each guess had
+ * its false positive on file — sequential loops reported as nested, a join's
+ * `sum(Qty)` reported as a call inside the previous where, a lambda's `return`
+ * reported as skipping `next`.
+ *
+ * The select grammar follows the knowledge entry "X++ select Statement —
+ * Complete Grammar Reference":
+ *
+ *   select [FindOptions] [FieldList from] buffer [index [hint] Idx]
+ *          [order by … | group by …] [where Expr]
+ *          [ [outer|exists|notexists] join [FindOptions] [FieldList from] buffer
+ *                [where Expr] ]…
+ *
+ * A second `where` after a join's own is kept on the query as
+ * `misplacedWhere` rather than dropped — it is exactly the mistake
+ * xppSelectLint reports.
+ *
+ * Fault-tolerant by design: the input is whatever a caller pasted — a bare
+ * statement, one method, a class missing its closing brace. Nothing here
+ * throws; an unparseable stretch becomes an `Unknown` statement or a `Missing`
+ * expression and the parse carries on from the next `;` or brace. Nesting
+ * deeper than MAX_NESTING (thousands of `(` or `{`) is not followed: the rest
+ * of the input is left unparsed and a diagnostic on the unit says where.
+ */
+
+import { lexXpp, type XppComment, type XppToken } from './xppLexer.js';
+
+// ── AST ────────────────────────────────────────────────────────────────────
+
+interface XppNodeBase {
+  /** Offset of the first token. */
+  start: number;
+  /** Offset just past the last token. */
+  end: number;
+  /** 1-based line of the first token. */
+  line: number;
+}
+
+export interface XppTypeRef extends XppNodeBase {
+  kind: 'TypeRef';
+  name: string;
+}
+
+export interface XppAttribute extends XppNodeBase {
+  kind: 'Attribute';
+  name: string;
+  args: XppExpression[];
+}
+
+export interface XppParameter extends XppNodeBase {
+  kind: 'Parameter';
+  type: XppTypeRef;
+  name: string;
+  defaultValue?: XppExpression;
+}
+
+export interface XppMethod extends XppNodeBase {
+  kind: 'Method';
+  name: string;
+  returnType: XppTypeRef;
+  modifiers: string[];
+  attributes: XppAttribute[];
+  parameters: XppParameter[];
+  /** Absent on an abstract or interface method. */
+  body?: XppBlock;
+  /** `delegate void onX(…) {}` — a subscription point, not code that runs. */
+  isDelegate: boolean;
+}
+
+export interface XppDeclarator extends XppNodeBase {
+  kind: 'Declarator';
+  name: string;
+  init?: XppExpression;
+}
+
+export interface XppFieldDeclaration extends XppNodeBase {
+  kind: 'FieldDeclaration';
+  type: XppTypeRef;
+  modifiers: string[];
+  declarators: XppDeclarator[];
+}
+
+export interface XppClass extends XppNodeBase {
+  kind: 'Class';
+  name: string;
+  isInterface: boolean;
+  /** Line of the `class` keyword — where COC002/COC003 point. */
+  keywordLine: number;
+  /** Offset of the `class` keyword — where COC002's fix inserts `final`. */
+  keywordStart: number;
+  modifiers: string[];
+  attributes: XppAttribute[];
+  extends?: string;
+  implements: string[];
+  members: Array<XppMethod | XppFieldDeclaration>;
+}
+
+export interface XppBlock extends XppNodeBase {
+  kind: 'Block';
+  statements: XppStatement[];
+}
+
+export interface XppLocalDeclaration extends XppNodeBase {
+  kind: 'LocalDeclaration';
+  type: XppTypeRef;
+  declarators: XppDeclarator[];
+}
+
+export interface XppLocalFunction extends XppNodeBase {
+  kind: 'LocalFunction';
+  method: XppMethod;
+}
+
+export interface XppExpressionStatement extends XppNodeBase {
+  kind: 'ExpressionStatement';
+  expression: XppExpression;
+}
+
+export interface XppIf extends XppNodeBase {
+  kind: 'If';
+  condition: XppExpression;
+  then: XppStatement;
+  else?: XppStatement;
+}
+
+export interface XppWhile extends XppNodeBase {
+  kind: 'While';
+  condition: XppExpression;
+  body: XppStatement;
+}
+
+export interface XppDoWhile extends XppNodeBase {
+  kind: 'DoWhile';
+  body: XppStatement;
+  condition: XppExpression;
+}
+
+export interface XppFor extends XppNodeBase {
+  kind: 'For';
+  init?: XppLocalDeclaration | XppExpression;
+  condition?: XppExpression;
+  update: XppExpression[];
+  body: XppStatement;
+}
+
+export interface XppSwitchCase extends XppNodeBase {
+  kind: 'SwitchCase';
+  /** Empty for `default:`. */
+  labels: XppExpression[];
+  isDefault: boolean;
+  statements: XppStatement[];
+}
+
+export interface XppSwitch extends XppNodeBase {
+  kind: 'Switch';
+  discriminant: XppExpression;
+  cases: XppSwitchCase[];
+}
+
+export interface XppReturn extends XppNodeBase {
+  kind: 'Return';
+  value?: XppExpression;
+}
+
+export interface XppThrow extends XppNodeBase {
+  kind: 'Throw';
+  value?: XppExpression;
+}
+
+/** break / continue / retry / breakpoint. */
+export interface XppJump extends XppNodeBase {
+  kind: 'Jump';
+  keyword: string;
+}
+
+export interface XppCatch extends XppNodeBase {
+  kind: 'Catch';
+  filter?: XppLocalDeclaration | XppExpression;
+  body: XppBlock;
+}
+
+export interface XppTry extends XppNodeBase {
+  kind: 'Try';
+  block: XppBlock;
+  catches: XppCatch[];
+  finally?: XppBlock;
+}
+
+export interface XppTts extends XppNodeBase {
+  kind: 'Tts';
+  keyword: 'ttsbegin' | 'ttscommit' | 'ttsabort';
+}
+
+/** `print …;` / `pause;` — developer-only output. */
+export interface XppDevOutput extends XppNodeBase {
+  kind: 'DevOutput';
+  keyword: 'print' | 'pause';
+  args: XppExpression[];
+}
+
+export interface XppSelectStatement extends XppNodeBase {
+  kind: 'SelectStatement';
+  query: XppSelectQuery;
+}
+
+export interface XppWhileSelect extends XppNodeBase {
+  kind: 'WhileSelect';
+  query: XppSelectQuery;
+  body: XppStatement;
+}
+
+/** `next buffer;` — fetch the next record of a select. */
+export interface XppNextRecord extends XppNodeBase {
+  kind: 'NextRecord';
+  buffer: string;
+}
+
+/** insert_recordset / update_recordset / delete_from. */
+export interface XppRecordset extends XppNodeBase {
+  kind: 'Recordset';
+  keyword: 'insert_recordset' | 'update_recordset' | 'delete_from';
+  /** The target buffer with its where/joins (update_recordset, delete_from) or just the target (insert_recordset). */
+  target: XppSelectQuery;
+  /** insert_recordset only: `(Field1, Field2)` on the target. */
+  fields: XppExpression[];
+  /** insert_recordset only: the source select. */
+  source?: XppSelectQuery;
+}
+
+export interface XppChangeCompany extends XppNodeBase {
+  kind: 'ChangeCompany';
+  company: XppExpression;
+  body: XppStatement;
+}
+
+export interface XppUsing extends XppNodeBase {
+  kind: 'Using';
+  resource?: XppLocalDeclaration | XppExpression;
+  body: XppStatement;
+}
+
+export interface XppEmpty extends XppNodeBase {
+  kind: 'Empty';
+}
+
+/** Tokens the parser could not make a statement of; skipped up to the next `;` or brace. */
+export interface XppUnknown extends XppNodeBase {
+  kind: 'Unknown';
+}
+
+export type XppStatement =
+  | XppBlock | XppLocalDeclaration | XppLocalFunction | XppExpressionStatement
+  | XppIf | XppWhile | XppDoWhile | XppFor | XppSwitch | XppReturn | XppThrow | XppJump
+  | XppTry | XppTts | XppDevOutput | XppSelectStatement | XppWhileSelect | XppNextRecord
+  | XppRecordset | XppChangeCompany | XppUsing | XppEmpty | XppUnknown;
+
+export interface XppFindOption extends XppNodeBase {
+  kind: 'FindOption';
+  /** As written, e.g. `firstOnly`. */
+  name: string;
+  /** `crossCompany : container` / `validTimeState(from, to)`. */
+  args: XppExpression[];
+}
+
+export interface XppOrderItem extends XppNodeBase {
+  kind: 'OrderItem';
+  field: XppExpression;
+  direction?: 'asc' | 'desc';
+}
+
+export interface XppSelectQuery extends XppNodeBase {
+  kind: 'SelectQuery';
+  options: XppFindOption[];
+  /** `select Name, sum(Qty) from …` — empty when every field is selected. */
+  fields: XppExpression[];
+  /** The table buffer; undefined when the statement is cut off before it. */
+  table?: string;
+  index?: { name: string; hint: boolean };
+  orderBy: XppOrderItem[];
+  groupBy: XppOrderItem[];
+  where?: XppExpression;
+  /** Any `where` after the first on a joined buffer: a main-table condition placed after a join. */
+  misplacedWhere: XppExpression[];
+  /** update_recordset `setting` assignments. */
+  settings: XppExpression[];
+  joins: XppJoin[];
+}
+
+export interface XppJoin extends XppNodeBase {
+  kind: 'Join';
+  joinType: 'inner' | 'outer' | 'exists' | 'notexists';
+  query: XppSelectQuery;
+}
+
+export interface XppIdentifier extends XppNodeBase {
+  kind: 'Identifier';
+  name: string;
+}
+
+export interface XppThis extends XppNodeBase {
+  kind: 'This';
+}
+
+export interface XppLiteral extends XppNodeBase {
+  kind: 'Literal';
+  literalKind: 'string' | 'number' | 'boolean' | 'null';
+  /** Source text, quotes included for a string. */
+  raw: string;
+}
+
+export interface XppMember extends XppNodeBase {
+  kind: 'Member';
+  object: XppExpression;
+  name: string;
+}
+
+/** `Owner::name` — a static member or an enum value. */
+export interface XppStaticMember extends XppNodeBase {
+  kind: 'StaticMember';
+  owner: XppExpression;
+  name: string;
+}
+
+export interface XppCall extends XppNodeBase {
+  kind: 'Call';
+  callee: XppExpression;
+  args: XppExpression[];
+  /** False when the source ends (or a `;` / brace arrives) before the `)`. */
+  closed: boolean;
+}
+
+/** `next method(args)` — the CoC call to the wrapped method. */
+export interface XppNext extends XppNodeBase {
+  kind: 'Next';
+  name: string;
+  args: XppExpression[];
+}
+
+export interface XppNew extends XppNodeBase {
+  kind: 'New';
+  type: XppTypeRef;
+  args: XppExpression[];
+}
+
+export interface XppBinary extends XppNodeBase {
+  kind: 'Binary';
+  operator: string;
+  left: XppExpression;
+  right: XppExpression;
+}
+
+export interface XppUnary extends XppNodeBase {
+  kind: 'Unary';
+  operator: string;
+  operand: XppExpression;
+  prefix: boolean;
+}
+
+export interface XppAssign extends XppNodeBase {
+  kind: 'Assign';
+  operator: string;
+  target: XppExpression;
+  value: XppExpression;
+}
+
+export interface XppConditional extends XppNodeBase {
+  kind: 'Conditional';
+  test: XppExpression;
+  consequent: XppExpression;
+  alternate: XppExpression;
+}
+
+export interface XppIndex extends XppNodeBase {
+  kind: 'Index';
+  object: XppExpression;
+  index: XppExpression;
+}
+
+export interface XppParen extends XppNodeBase {
+  kind: 'Paren';
+  expression: XppExpression;
+}
+
+export interface XppCast extends XppNodeBase {
+  kind: 'Cast';
+  type: XppTypeRef;
+  expression: XppExpression;
+}
+
+/** `[a, b]` — a container literal (or the target of a container unpack). */
+export interface XppContainer extends XppNodeBase {
+  kind: 'Container';
+  elements: XppExpression[];
+}
+
+/** `(a, b) => …` — typically handed to a delegate or a .NET event. */
+export interface XppLambda extends XppNodeBase {
+  kind: 'Lambda';
+  parameters: string[];
+  body: XppBlock | XppExpression;
+}
+
+/** `(select firstOnly … ).Field` */
+export interface XppSelectExpression extends XppNodeBase {
+  kind: 'SelectExpression';
+  query: XppSelectQuery;
+}
+
+export interface XppMacro extends XppNodeBase {
+  kind: 'Macro';
+  name: string;
+}
+
+/** Placeholder where an expression was expected and none could be read. */
+export interface XppMissing extends XppNodeBase {
+  kind: 'Missing';
+}
+
+export type XppExpression =
+  | XppIdentifier | XppThis | XppLiteral | XppMember | XppStaticMember | XppCall | XppNext
+  | XppNew | XppBinary | XppUnary | XppAssign | XppConditional | XppIndex | XppParen | XppCast
+  | XppContainer | XppLambda | XppSelectExpression | XppMacro | XppMissing;
+
+/** Why part of the input was not parsed. */
+export interface XppDiagnostic {
+  message: string;
+  /** Offset where parsing stopped. */
+  start: number;
+  /** 1-based line where parsing stopped. */
+  line: number;
+}
+
+export interface XppCompilationUnit extends XppNodeBase {
+  kind: 'CompilationUnit';
+  /** Classes, free-standing methods and loose statements, in source order. */
+  body: Array<XppClass | XppMethod | XppStatement>;
+  comments: XppComment[];
+  diagnostics: XppDiagnostic[];
+}
+
+export type XppNode =
+  | XppCompilationUnit | XppClass | XppMethod | XppFieldDeclaration | XppDeclarator
+  | XppParameter | XppAttribute | XppTypeRef | XppStatement | XppSwitchCase | XppCatch
+  | XppSelectQuery | XppJoin | XppFindOption | XppOrderItem | XppExpression;
+
+// ── Vocabulary ─────────────────────────────────────────────────────────────
+
+const MODIFIERS = new Set([
+  'public', 'protected', 'private', 'internal', 'static', 'final', 'abstract',
+  'display', 'edit', 'server', 'client', 'extern', 'virtual',
+]);
+
+/** Words that open a statement of their own — never a type name or an operand. */
+const STATEMENT_KEYWORDS = new Set([
+  'if', 'else', 'while', 'do', 'for', 'switch', 'case', 'default', 'return', 'break',
+  'continue', 'throw', 'try', 'catch', 'finally', 'retry', 'breakpoint', 'ttsbegin',
+  'ttscommit', 'ttsabort', 'select', 'next', 'print', 'pause', 'insert_recordset',
+  'update_recordset', 'delete_from', 'changecompany', 'using', 'flush', 'class',
+  'interface', 'extends', 'implements', 'delegate', 'const', 'new', 'this',
+]);
+
+/** Words of the select grammar — where an operand cannot start. */
+const SELECT_CLAUSE_WORDS = new Set([
+  'where', 'join', 'exists', 'notexists', 'outer', 'order', 'group', 'by', 'index',
+  'hint', 'from', 'asc', 'desc', 'setting',
+]);
+
+/** FindOptions that sit between `select` and the buffer. */
+const FIND_OPTIONS = new Set([
+  'crosscompany', 'firstonly', 'firstonly1', 'firstonly10', 'firstonly100', 'firstonly1000',
+  'forupdate', 'forcenestedloop', 'forceselectorder', 'forceplaceholders', 'forceliterals',
+  'pessimisticlock', 'optimisticlock', 'repeatableread', 'validtimestate', 'nofetch',
+  'reverse', 'firstfast', 'generateonly',
+]);
+
+const WORD_OPERATORS = new Set(['like', 'in', 'is', 'as', 'div', 'mod']);
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1, '&&': 2, '|': 3, '^': 4, '&': 5,
+  '==': 6, '!=': 6,
+  '<': 7, '>': 7, '<=': 7, '>=': 7, like: 7, in: 7, is: 7, as: 7,
+  '<<': 8, '>>': 8,
+  '+': 9, '-': 9,
+  '*': 10, '/': 10, '%': 10, div: 10, mod: 10,
+};
+
+const ASSIGNMENT_OPERATORS = new Set(['=', '+=', '-=', '*=', '/=', '|=', '&=', '^=']);
+
+/**
+ * Deepest nesting of statements and expressions followed. Real code stays far
+ * below it; past it the recursion would run out of stack.
+ */
+const MAX_NESTING = 256;
+
+
+// ── Parser ─────────────────────────────────────────────────────────────────
+
+type WithoutBase<T> = Omit<T, 'kind' | 'start' | 'end' | 'line'>;
+
+/** Where a node begins — a token, or the node a postfix/binary expression grows from. */
+type NodeStart = { start: number; line: number };
+
+class XppParser {
+  private pos = 0;
+  /** Select queries being parsed; inside one, the clause words stop an operand. */
+  private selectDepth = 0;
+  /** Statements and expressions being parsed, one inside the other. */
+  private nesting = 0;
+  private readonly diagnostics: XppDiagnostic[] = [];
+
+  constructor(private readonly tokens: XppToken[]) {}
+
+  /**
+   * A word that cannot be a name here. The select clause words only count
+   * inside a select — `int index;` is an ordinary declaration.
+   */
+  private reserved(lower: string): boolean {
+    return STATEMENT_KEYWORDS.has(lower) || WORD_OPERATORS.has(lower) ||
+      (this.selectDepth > 0 && SELECT_CLAUSE_WORDS.has(lower));
+  }
+
+  // Token access
+
+  private get tok(): XppToken {
+    return this.tokens[this.pos];
+  }
+
+  private peek(offset = 1): XppToken {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private advance(): XppToken {
+    const t = this.tok;
+    if (t.kind !== 'eof') this.pos++;
+    return t;
+  }
+
+  private get atEof(): boolean {
+    return this.tok.kind === 'eof';
+  }
+
+  private isWord(t: XppToken, word: string): boolean {
+    return t.kind === 'identifier' && t.lower === word;
+  }
+
+  private atWord(word: string): boolean {
+    return this.isWord(this.tok, word);
+  }
+
+  private isPunct(t: XppToken, p: string): boolean {
+    return t.kind === 'punct' && t.text === p;
+  }
+
+  private atPunct(p: string): boolean {
+    return this.isPunct(this.tok, p);
+  }
+
+  private eatPunct(p: string): boolean {
+    if (!this.atPunct(p)) return false;
+    this.advance();
+    return true;
+  }
+
+  private eatWord(word: string): boolean {
+    if (!this.atWord(word)) return false;
+    this.advance();
+    return true;
+  }
+
+  /** A plain identifier that can name a type, variable or member. */
+  private atName(): boolean {
+    return this.tok.kind === 'identifier' && !this.reserved(this.tok.lower);
+  }
+
+  private make<T extends XppNode>(kind: T['kind'], from: NodeStart, fields: WithoutBase<T>): T {
+    const prevEnd = this.pos > 0 ? this.tokens[this.pos - 1].end : from.start;
+    return { kind, start: from.start, end: Math.max(prevEnd, from.start), line: from.line, ...fields } as T;
+  }
+
+  /** Index of the `)`/`]`/`}` closing the bracket at `from`, or -1. */
+  private matching(from: number): number {
+    const open = this.tokens[from].text;
+    const close = open === '(' ? ')' : open === '[' ? ']' : '}';
+    let depth = 0;
+    for (let k = from; k < this.tokens.length; k++) {
+      const t = this.tokens[k];
+      if (t.kind !== 'punct') continue;
+      if (t.text === open) depth++;
+      else if (t.text === close && --depth === 0) return k;
+    }
+    return -1;
+  }
+
+  /**
+   * `parse` one level deeper, or — past MAX_NESTING — give up on the rest of
+   * the input: note it, jump to the end and return `fallback()`, so every
+   * level still open unwinds without recursing further.
+   */
+  private nested<T>(parse: () => T, fallback: () => T): T {
+    if (this.nesting >= MAX_NESTING) {
+      if (!this.atEof) {
+        const t = this.tok;
+        this.diagnostics.push({
+          message: `nesting deeper than ${MAX_NESTING} levels — the rest of the input is not parsed`,
+          start: t.start,
+          line: t.line,
+        });
+        this.pos = this.tokens.length - 1;
+      }
+      return fallback();
+    }
+    this.nesting++;
+    const node = parse();
+    this.nesting--;
+    return node;
+  }
+
+  /** Skip to just past the next `;`, or up to (not over) a brace — error recovery. */
+  private recover(): void {
+    while (!this.atEof) {
+      if (this.atPunct(';')) { this.advance(); return; }
+      if (this.atPunct('{') || this.atPunct('}')) return;
+      this.advance();
+    }
+  }
+
+  // Declarations
+
+  parseUnit(comments: XppComment[]): XppCompilationUnit {
+    const first = this.tok;
+    const body: XppCompilationUnit['body'] = [];
+    while (!this.atEof) {
+      const before = this.pos;
+      if (this.atPunct('}')) {
+        this.advance(); // a brace closing nothing — an unbalanced paste
+        continue;
+      }
+      const item = this.parseTopLevel();
+      if (item) body.push(item);
+      if (this.pos === before) this.advance();
+    }
+    const unit = this.make<XppCompilationUnit>('CompilationUnit', first, { body, comments, diagnostics: this.diagnostics });
+    unit.start = 0;
+    return unit;
+  }
+
+  private parseTopLevel(): XppClass | XppMethod | XppStatement | null {
+    const from = this.tok;
+    const attributes = this.tryAttributes(true);
+    const modifiers = this.parseModifiers();
+    if (this.atWord('class') || this.atWord('interface')) return this.parseClass(from, attributes, modifiers);
+    if (this.looksLikeMethod()) return this.parseMethod(from, attributes, modifiers, false);
+    if (modifiers.length > 0 && this.looksLikeDeclaration()) {
+      const decl = this.parseLocalDeclaration(from);
+      this.eatPunct(';');
+      return decl;
+    }
+    return this.parseStatement();
+  }
+
+  /**
+   * `[Attr(args), Other]` ahead of a declaration. With `requireDeclaration`, a
+   * bracket not followed by one is a container expression and is left unread.
+   */
+  private tryAttributes(requireDeclaration: boolean): XppAttribute[] {
+    if (!this.atPunct('[') || this.peek().kind !== 'identifier') return [];
+    const save = this.pos;
+    const attributes: XppAttribute[] = [];
+    while (this.atPunct('[')) {
+      const close = this.matching(this.pos);
+      if (close === -1) break;
+      this.advance();
+      while (!this.atEof && this.pos < close) {
+        if (this.tok.kind !== 'identifier') {
+          this.pos = save;
+          return [];
+        }
+        const nameTok = this.advance();
+        const args = this.atPunct('(') ? this.parseArguments().args : [];
+        attributes.push(this.make<XppAttribute>('Attribute', nameTok, { name: nameTok.text, args }));
+        if (!this.eatPunct(',')) break;
+      }
+      if (this.pos !== close) {
+        this.pos = save;
+        return [];
+      }
+      this.advance();
+    }
+    if (requireDeclaration) {
+      const declares =
+        MODIFIERS.has(this.tok.lower) || this.atWord('class') || this.atWord('interface') ||
+        this.atWord('delegate') || this.looksLikeMethod();
+      if (!declares) {
+        this.pos = save;
+        return [];
+      }
+    }
+    return attributes;
+  }
+
+  private parseModifiers(): string[] {
+    const modifiers: string[] = [];
+    while (this.tok.kind === 'identifier' && MODIFIERS.has(this.tok.lower)) {
+      modifiers.push(this.advance().lower);
+    }
+    return modifiers;
+  }
+
+  /** Token count of a type reference starting at `at`, or 0. */
+  private typeLength(at: number): number {
+    const t = this.tokens[at];
+    if (t.kind !== 'identifier' || this.reserved(t.lower)) return 0;
+    let k = at + 1;
+    while (this.isPunct(this.tokens[k], '.') && this.tokens[k + 1]?.kind === 'identifier') k += 2;
+    return k - at;
+  }
+
+  /** `Type name(` — a method (or local function) header. */
+  private looksLikeMethod(): boolean {
+    const len = this.typeLength(this.pos);
+    if (len === 0) return false;
+    const name = this.tokens[this.pos + len];
+    return name?.kind === 'identifier' && !this.reserved(name.lower) &&
+      this.isPunct(this.tokens[this.pos + len + 1], '(');
+  }
+
+  /** `Type name;` / `Type name = …` / `Type name, other` / `Type name[10]`. */
+  private looksLikeDeclaration(): boolean {
+    const len = this.typeLength(this.pos);
+    if (len === 0) return false;
+    const name = this.tokens[this.pos + len];
+    if (name?.kind !== 'identifier' || this.reserved(name.lower)) return false;
+    const after = this.tokens[this.pos + len + 1];
+    return after.kind === 'eof' || (after.kind === 'punct' && [';', '=', ',', '['].includes(after.text));
+  }
+
+  private parseTypeRef(): XppTypeRef {
+    const from = this.tok;
+    let name = this.advance().text;
+    while (this.atPunct('.') && this.peek().kind === 'identifier') {
+      this.advance();
+      name += `.${this.advance().text}`;
+    }
+    return this.make<XppTypeRef>('TypeRef', from, { name });
+  }
+
+  private parseClass(from: XppToken, attributes: XppAttribute[], modifiers: string[]): XppClass {
+    const keyword = this.advance();
+    const name = this.tok.kind === 'identifier' ? this.advance().text : '';
+    let extendsName: string | undefined;
+    const implementsNames: string[] = [];
+    if (this.eatWord('extends') && this.tok.kind === 'identifier') extendsName = this.parseTypeRef().name;
+    if (this.eatWord('implements')) {
+      do {
+        if (this.tok.kind !== 'identifier') break;
+        implementsNames.push(this.parseTypeRef().name);
+      } while (this.eatPunct(','));
+    }
+
+    const members: XppClass['members'] = [];
+    if (this.eatPunct('{')) {
+      while (!this.atEof && !this.eatPunct('}')) {
+        const before = this.pos;
+        const member = this.parseMember();
+        if (member) members.push(member);
+        if (this.pos === before) this.advance();
+      }
+    }
+    return this.make<XppClass>('Class', from, {
+      name,
+      isInterface: keyword.lower === 'interface',
+      keywordLine: keyword.line,
+      keywordStart: keyword.start,
+      modifiers,
+      attributes,
+      extends: extendsName,
+      implements: implementsNames,
+      members,
+    });
+  }
+
+  private parseMember(): XppMethod | XppFieldDeclaration | null {
+    const from = this.tok;
+    const attributes = this.tryAttributes(false);
+    const modifiers = this.parseModifiers();
+    if (this.eatWord('delegate')) {
+      return this.looksLikeMethod() ? this.parseMethod(from, attributes, modifiers, true) : null;
+    }
+    if (this.eatWord('const')) modifiers.push('const');
+    if (this.looksLikeMethod()) return this.parseMethod(from, attributes, modifiers, false);
+    if (this.looksLikeDeclaration()) {
+      const type = this.parseTypeRef();
+      const declarators = this.parseDeclarators();
+      this.eatPunct(';');
+      return this.make<XppFieldDeclaration>('FieldDeclaration', from, { type, modifiers, declarators });
+    }
+    // Not a member — skip it, a stray brace block included.
+    if (this.atPunct('{')) this.parseBlock();
+    else this.recover();
+    return null;
+  }
+
+  private parseMethod(from: XppToken, attributes: XppAttribute[], modifiers: string[], isDelegate: boolean): XppMethod {
+    const returnType = this.parseTypeRef();
+    const name = this.advance().text;
+    const parameters = this.parseParameters();
+    let body: XppBlock | undefined;
+    if (this.atPunct('{')) body = this.parseBlock();
+    else this.eatPunct(';');
+    return this.make<XppMethod>('Method', from, { name, returnType, modifiers, attributes, parameters, body, isDelegate });
+  }
+
+  private parseParameters(): XppParameter[] {
+    const parameters: XppParameter[] = [];
+    if (!this.eatPunct('(')) return parameters;
+    while (!this.atEof && !this.eatPunct(')')) {
+      const before = this.pos;
+      this.tryAttributes(false);
+      const from = this.tok;
+      if (this.typeLength(this.pos) > 0 && this.peek(this.typeLength(this.pos)).kind === 'identifier') {
+        const type = this.parseTypeRef();
+        const name = this.advance().text;
+        const defaultValue = this.eatPunct('=') ? this.parseExpression() : undefined;
+        parameters.push(this.make<XppParameter>('Parameter', from, { type, name, defaultValue }));
+      }
+      if (this.eatPunct(',')) continue;
+      if (this.atPunct(')')) continue;
+      if (this.atPunct('{') || this.atPunct(';')) break; // header cut off
+      if (this.pos === before) this.advance();
+    }
+    return parameters;
+  }
+
+  private parseDeclarators(): XppDeclarator[] {
+    const declarators: XppDeclarator[] = [];
+    do {
+      if (this.tok.kind !== 'identifier') break;
+      const nameTok = this.advance();
+      if (this.atPunct('[')) {
+        const close = this.matching(this.pos);
+        this.pos = close === -1 ? this.pos + 1 : close + 1;
+      }
+      const init = this.eatPunct('=') ? this.parseExpression() : undefined;
+      declarators.push(this.make<XppDeclarator>('Declarator', nameTok, { name: nameTok.text, init }));
+    } while (this.eatPunct(','));
+    return declarators;
+  }
+
+  private parseLocalDeclaration(from: XppToken): XppLocalDeclaration {
+    const type = this.parseTypeRef();
+    const declarators = this.parseDeclarators();
+    return this.make<XppLocalDeclaration>('LocalDeclaration', from, { type, declarators });
+  }
+
+  // Statements
+
+  private parseBlock(): XppBlock {
+    const from = this.tok;
+    this.eatPunct('{');
+    const statements: XppStatement[] = [];
+    while (!this.atEof && !this.atPunct('}')) {
+      const before = this.pos;
+      statements.push(this.parseStatement());
+      if (this.pos === before) this.advance();
+    }
+    this.eatPunct('}');
+    return this.make<XppBlock>('Block', from, { statements });
+  }
+
+  private parseStatement(): XppStatement {
+    return this.nested(() => this.parseStatementAt(), () => this.make<XppUnknown>('Unknown', this.tok, {}));
+  }
+
+  private parseStatementAt(): XppStatement {
+    const from = this.tok;
+
+    if (this.atPunct('{')) return this.parseBlock();
+    if (this.eatPunct(';')) return this.make<XppEmpty>('Empty', from, {});
+
+    if (from.kind === 'identifier') {
+      switch (from.lower) {
+        case 'if': return this.parseIf();
+        case 'while': return this.isWord(this.peek(), 'select') ? this.parseWhileSelect() : this.parseWhile();
+        case 'do': return this.parseDoWhile();
+        case 'for': return this.parseFor();
+        case 'switch': return this.parseSwitch();
+        case 'try': return this.parseTry();
+        case 'return':
+        case 'throw': {
+          this.advance();
+          const value = this.atPunct(';') || this.atPunct('}') ? undefined : this.parseExpression();
+          this.eatPunct(';');
+          return from.lower === 'return'
+            ? this.make<XppReturn>('Return', from, { value })
+            : this.make<XppThrow>('Throw', from, { value });
+        }
+        case 'break':
+        case 'continue':
+        case 'retry':
+        case 'breakpoint':
+          this.advance();
+          this.eatPunct(';');
+          return this.make<XppJump>('Jump', from, { keyword: from.lower });
+        case 'ttsbegin':
+        case 'ttscommit':
+        case 'ttsabort':
+          this.advance();
+          this.eatPunct(';');
+          return this.make<XppTts>('Tts', from, { keyword: from.lower });
+        case 'print':
+        case 'pause': {
+          this.advance();
+          const args = this.parseExpressionList(';');
+          this.eatPunct(';');
+          return this.make<XppDevOutput>('DevOutput', from, { keyword: from.lower, args });
+        }
+        case 'select': {
+          this.advance();
+          const query = this.parseSelectQuery(from, false);
+          this.eatPunct(';');
+          return this.make<XppSelectStatement>('SelectStatement', from, { query });
+        }
+        case 'next':
+          if (this.peek().kind === 'identifier' && !this.isPunct(this.peek(2), '(')) {
+            this.advance();
+            const buffer = this.advance().text;
+            this.eatPunct(';');
+            return this.make<XppNextRecord>('NextRecord', from, { buffer });
+          }
+          break;
+        case 'insert_recordset':
+        case 'update_recordset':
+        case 'delete_from':
+          return this.parseRecordset();
+        case 'changecompany': {
+          this.advance();
+          this.eatPunct('(');
+          const company = this.parseExpression();
+          this.eatPunct(')');
+          const body = this.parseStatement();
+          return this.make<XppChangeCompany>('ChangeCompany', from, { company, body });
+        }
+        case 'using': {
+          this.advance();
+          let resource: XppUsing['resource'];
+          if (this.eatPunct('(')) {
+            resource = this.looksLikeDeclaration() ? this.parseLocalDeclaration(this.tok) : this.parseExpression();
+            this.eatPunct(')');
+          }
+          const body = this.parseStatement();
+          return this.make<XppUsing>('Using', from, { resource, body });
+        }
+        case 'else':
+        case 'case':
+        case 'default':
+        case 'catch':
+        case 'finally':
+          // Orphaned by a cut-off snippet — drop the keyword and carry on.
+          this.advance();
+          this.eatPunct(':');
+          return this.make<XppUnknown>('Unknown', from, {});
+      }
+
+      if (this.looksLikeMethod()) {
+        const close = this.matching(this.pos + this.typeLength(this.pos) + 1);
+        if (close !== -1 && this.isPunct(this.tokens[close + 1], '{')) {
+          const method = this.parseMethod(from, [], [], false);
+          return this.make<XppLocalFunction>('LocalFunction', from, { method });
+        }
+      }
+      if (this.looksLikeDeclaration()) {
+        const decl = this.parseLocalDeclaration(from);
+        this.eatPunct(';');
+        return decl;
+      }
+    }
+
+    const expression = this.parseExpression();
+    if (expression.kind === 'Missing') {
+      this.recover();
+      return this.make<XppUnknown>('Unknown', from, {});
+    }
+    this.eatPunct(';');
+    return this.make<XppExpressionStatement>('ExpressionStatement', from, { expression });
+  }
+
+  private parseParenthesized(): XppExpression {
+    this.eatPunct('(');
+    const expression = this.parseExpression();
+    this.eatPunct(')');
+    return expression;
+  }
+
+  private parseIf(): XppIf {
+    const from = this.advance();
+    const condition = this.parseParenthesized();
+    const then = this.parseStatement();
+    const elseBranch = this.eatWord('else') ? this.parseStatement() : undefined;
+    return this.make<XppIf>('If', from, { condition, then, else: elseBranch });
+  }
+
+  private parseWhile(): XppWhile {
+    const from = this.advance();
+    const condition = this.parseParenthesized();
+    const body = this.parseStatement();
+    return this.make<XppWhile>('While', from, { condition, body });
+  }
+
+  private parseWhileSelect(): XppWhileSelect {
+    const from = this.advance();
+    const selectTok = this.advance();
+    const query = this.parseSelectQuery(selectTok, false);
+    const body = this.parseStatement();
+    return this.make<XppWhileSelect>('WhileSelect', from, { query, body });
+  }
+
+  private parseDoWhile(): XppDoWhile {
+    const from = this.advance();
+    const body = this.parseStatement();
+    this.eatWord('while');
+    const condition = this.parseParenthesized();
+    this.eatPunct(';');
+    return this.make<XppDoWhile>('DoWhile', from, { body, condition });
+  }
+
+  private parseFor(): XppFor {
+    const from = this.advance();
+    this.eatPunct('(');
+    let init: XppFor['init'];
+    if (!this.atPunct(';')) {
+      init = this.looksLikeDeclaration() ? this.parseLocalDeclaration(this.tok) : this.parseExpression();
+    }
+    this.eatPunct(';');
+    const condition = this.atPunct(';') ? undefined : this.parseExpression();
+    this.eatPunct(';');
+    const update = this.parseExpressionList(')');
+    this.eatPunct(')');
+    const body = this.parseStatement();
+    return this.make<XppFor>('For', from, { init, condition, update, body });
+  }
+
+  private parseSwitch(): XppSwitch {
+    const from = this.advance();
+    const discriminant = this.parseParenthesized();
+    const cases: XppSwitchCase[] = [];
+    if (this.eatPunct('{')) {
+      while (!this.atEof && !this.atPunct('}')) {
+        const caseTok = this.tok;
+        let labels: XppExpression[] = [];
+        let isDefault = false;
+        if (this.eatWord('case')) {
+          labels = this.parseExpressionList(':');
+          this.eatPunct(':');
+        } else if (this.eatWord('default')) {
+          isDefault = true;
+          this.eatPunct(':');
+        }
+        const statements: XppStatement[] = [];
+        while (!this.atEof && !this.atPunct('}') && !this.atWord('case') && !this.atWord('default')) {
+          const before = this.pos;
+          statements.push(this.parseStatement());
+          if (this.pos === before) this.advance();
+        }
+        cases.push(this.make<XppSwitchCase>('SwitchCase', caseTok, { labels, isDefault, statements }));
+      }
+      this.eatPunct('}');
+    }
+    return this.make<XppSwitch>('Switch', from, { discriminant, cases });
+  }
+
+  private parseTry(): XppTry {
+    const from = this.advance();
+    const block = this.parseBlock();
+    const catches: XppCatch[] = [];
+    while (this.atWord('catch')) {
+      const catchTok = this.advance();
+      let filter: XppCatch['filter'];
+      if (this.eatPunct('(')) {
+        filter = this.looksLikeDeclaration() || this.isPunct(this.peek(this.typeLength(this.pos) + 1), ')')
+          ? this.parseLocalDeclarationOrExpression()
+          : this.parseExpression();
+        this.eatPunct(')');
+      }
+      const body = this.parseBlock();
+      catches.push(this.make<XppCatch>('Catch', catchTok, { filter, body }));
+    }
+    const finallyBlock = this.eatWord('finally') ? this.parseBlock() : undefined;
+    return this.make<XppTry>('Try', from, { block, catches, finally: finallyBlock });
+  }
+
+  /** `catch (System.Exception ex)` declares; `catch (Exception::Error)` does not. */
+  private parseLocalDeclarationOrExpression(): XppLocalDeclaration | XppExpression {
+    const len = this.typeLength(this.pos);
+    const name = this.peek(len);
+    if (len > 0 && name.kind === 'identifier' && !this.reserved(name.lower)) {
+      return this.parseLocalDeclaration(this.tok);
+    }
+    return this.parseExpression();
+  }
+
+  private parseRecordset(): XppRecordset {
+    const from = this.advance();
+    const keyword = from.lower as XppRecordset['keyword'];
+    if (keyword === 'insert_recordset') {
+      const targetTok = this.tok;
+      const options = this.parseFindOptions();
+      const table = this.atName() ? this.advance().text : undefined;
+      const target = this.make<XppSelectQuery>('SelectQuery', targetTok, emptyQuery({ options, table }));
+      let fields: XppExpression[] = [];
+      if (this.eatPunct('(')) {
+        fields = this.parseExpressionList(')');
+        this.eatPunct(')');
+      }
+      let source: XppSelectQuery | undefined;
+      const selectTok = this.tok;
+      if (this.eatWord('select')) source = this.parseSelectQuery(selectTok, false);
+      this.eatPunct(';');
+      return this.make<XppRecordset>('Recordset', from, { keyword, target, fields, source });
+    }
+    const target = this.parseSelectQuery(this.tok, false);
+    this.eatPunct(';');
+    return this.make<XppRecordset>('Recordset', from, { keyword, target, fields: [] });
+  }
+
+  // The select grammar
+
+  private parseFindOptions(): XppFindOption[] {
+    const options: XppFindOption[] = [];
+    while (this.tok.kind === 'identifier' && FIND_OPTIONS.has(this.tok.lower)) {
+      const optTok = this.advance();
+      let args: XppExpression[] = [];
+      if (optTok.lower === 'crosscompany' && this.eatPunct(':')) {
+        args = [this.parsePostfix(this.parsePrimary())];
+      } else if (optTok.lower === 'validtimestate' && this.atPunct('(')) {
+        args = this.parseArguments().args;
+      }
+      options.push(this.make<XppFindOption>('FindOption', optTok, { name: optTok.text, args }));
+    }
+    return options;
+  }
+
+  /** A `from` ahead at this nesting level, before anything that ends the field list. */
+  private fieldListAhead(): boolean {
+    let depth = 0;
+    for (let k = this.pos; k < this.tokens.length && k < this.pos + 200; k++) {
+      const t = this.tokens[k];
+      if (t.kind === 'eof') return false;
+      if (t.kind === 'punct') {
+        if (t.text === '(') depth++;
+        else if (t.text === ')' && --depth < 0) return false;
+        else if (depth === 0 && [';', '{', '}'].includes(t.text)) return false;
+        continue;
+      }
+      if (depth > 0 || t.kind !== 'identifier') continue;
+      if (t.lower === 'from') return true;
+      if (SELECT_CLAUSE_WORDS.has(t.lower) || STATEMENT_KEYWORDS.has(t.lower)) return false;
+    }
+    return false;
+  }
+
+  private atJoin(): boolean {
+    if (this.atWord('join')) return true;
+    return (this.atWord('outer') || this.atWord('exists') || this.atWord('notexists')) &&
+      this.isWord(this.peek(), 'join');
+  }
+
+  private parseOrderItems(): XppOrderItem[] {
+    const items: XppOrderItem[] = [];
+    do {
+      const from = this.tok;
+      if (!this.atName()) break;
+      const field = this.parsePostfix(this.parsePrimary());
+      let direction: XppOrderItem['direction'];
+      if (this.atWord('asc') || this.atWord('desc')) direction = this.advance().lower as 'asc' | 'desc';
+      items.push(this.make<XppOrderItem>('OrderItem', from, { field, direction }));
+    } while (this.eatPunct(','));
+    return items;
+  }
+
+  /** Everything after `select` (or a join keyword) up to, not including, the terminator. */
+  private parseSelectQuery(from: XppToken, isJoin: boolean): XppSelectQuery {
+    this.selectDepth++;
+    try {
+      return this.parseSelectClauses(from, isJoin);
+    } finally {
+      this.selectDepth--;
+    }
+  }
+
+  private parseSelectClauses(from: XppToken, isJoin: boolean): XppSelectQuery {
+    const options = this.parseFindOptions();
+
+    const fields: XppExpression[] = [];
+    if (this.fieldListAhead()) {
+      while (!this.atEof && !this.atWord('from')) {
+        const before = this.pos;
+        if (this.eatPunct('*')) {
+          // select * from — every field, same as no list
+        } else {
+          const field = this.parsePostfix(this.parsePrimary());
+          if (field.kind !== 'Missing') fields.push(field);
+        }
+        if (!this.eatPunct(',') && this.pos === before) this.advance();
+      }
+      this.eatWord('from');
+    }
+
+    const query = emptyQuery({ options, fields });
+    if (this.atName() || this.atWord('this')) query.table = this.advance().text;
+
+    for (;;) {
+      if (this.atWord('index')) {
+        this.advance();
+        const hint = this.eatWord('hint');
+        if (this.tok.kind === 'identifier') query.index = { name: this.advance().text, hint };
+      } else if (this.atWord('order') || this.atWord('group')) {
+        const which = this.advance().lower;
+        this.eatWord('by');
+        const items = this.parseOrderItems();
+        if (which === 'order') query.orderBy.push(...items);
+        else query.groupBy.push(...items);
+      } else if (this.atWord('where')) {
+        this.advance();
+        const condition = this.parseExpression();
+        if (query.where === undefined && query.joins.length === 0) query.where = condition;
+        else query.misplacedWhere.push(condition);
+      } else if (this.atWord('setting')) {
+        this.advance();
+        query.settings.push(...this.parseExpressionList(''));
+      } else if (this.atJoin()) {
+        if (isJoin) break; // the next join belongs to the driving select
+        const joinTok = this.tok;
+        const joinType = this.atWord('join') ? 'inner' : this.tok.lower as XppJoin['joinType'];
+        if (joinType !== 'inner') this.advance();
+        this.advance();
+        const joined = this.parseSelectQuery(this.tok, true);
+        query.joins.push(this.make<XppJoin>('Join', joinTok, { joinType, query: joined }));
+      } else {
+        break;
+      }
+    }
+
+    return this.make<XppSelectQuery>('SelectQuery', from, query);
+  }
+
+  // Expressions
+
+  /** Comma-separated expressions up to (not over) `terminator`, a `;` or a brace. */
+  private parseExpressionList(terminator: string): XppExpression[] {
+    const items: XppExpression[] = [];
+    while (!this.atEof && !this.atPunct(terminator) && !this.atPunct(';') && !this.atPunct('{') && !this.atPunct('}')) {
+      const expression = this.parseExpression();
+      if (expression.kind === 'Missing') break;
+      items.push(expression);
+      if (!this.eatPunct(',')) break;
+    }
+    return items;
+  }
+
+  private parseArguments(): { args: XppExpression[]; closed: boolean } {
+    this.eatPunct('(');
+    const args: XppExpression[] = [];
+    while (!this.atEof) {
+      if (this.eatPunct(')')) return { args, closed: true };
+      if (this.atPunct(';') || this.atPunct('{') || this.atPunct('}')) break;
+      const before = this.pos;
+      const arg = this.parseExpression();
+      if (arg.kind !== 'Missing') args.push(arg);
+      if (this.eatPunct(',')) continue;
+      if (this.pos === before) this.advance();
+    }
+    return { args, closed: false };
+  }
+
+  parseExpression(): XppExpression {
+    return this.parseAssignment();
+  }
+
+  private parseAssignment(): XppExpression {
+    return this.nested(() => this.parseAssignmentAt(), () => this.missing());
+  }
+
+  private parseAssignmentAt(): XppExpression {
+    const from = this.tok;
+    const target = this.parseConditional();
+    if (this.tok.kind === 'punct' && ASSIGNMENT_OPERATORS.has(this.tok.text) && target.kind !== 'Missing') {
+      const operator = this.advance().text;
+      const value = this.parseAssignment();
+      return this.make<XppAssign>('Assign', from, { operator, target, value });
+    }
+    return target;
+  }
+
+  private parseConditional(): XppExpression {
+    const from = this.tok;
+    const test = this.parseBinary(1);
+    if (!this.atPunct('?') || test.kind === 'Missing') return test;
+    this.advance();
+    const consequent = this.parseAssignment();
+    this.eatPunct(':');
+    const alternate = this.parseAssignment();
+    return this.make<XppConditional>('Conditional', from, { test, consequent, alternate });
+  }
+
+  private binaryOperator(): string | undefined {
+    const t = this.tok;
+    if (t.kind === 'punct' && BINARY_PRECEDENCE[t.text] !== undefined) return t.text;
+    if (t.kind === 'identifier' && WORD_OPERATORS.has(t.lower)) return t.lower;
+    return undefined;
+  }
+
+  private parseBinary(minPrecedence: number): XppExpression {
+    const from = this.tok;
+    let left = this.parseUnary();
+    if (left.kind === 'Missing') return left;
+    for (;;) {
+      const operator = this.binaryOperator();
+      if (!operator) break;
+      const precedence = BINARY_PRECEDENCE[operator];
+      if (precedence < minPrecedence) break;
+      this.advance();
+      const right = this.parseBinary(precedence + 1);
+      left = this.make<XppBinary>('Binary', from, { operator, left, right });
+    }
+    return left;
+  }
+
+  private parseUnary(): XppExpression {
+    const from = this.tok;
+    if (from.kind === 'punct' && ['!', '-', '+', '~', '++', '--'].includes(from.text)) {
+      this.advance();
+      const operand = this.nested(() => this.parseUnary(), () => this.missing());
+      return this.make<XppUnary>('Unary', from, { operator: from.text, operand, prefix: true });
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(primary: XppExpression): XppExpression {
+    if (primary.kind === 'Missing') return primary;
+    const from: NodeStart = primary;
+    let expression = primary;
+    for (;;) {
+      if (this.atPunct('.') || this.atPunct('::')) {
+        const separator = this.advance().text;
+        const name = this.tok.kind === 'identifier' ? this.advance().text : '';
+        expression = separator === '.'
+          ? this.make<XppMember>('Member', from, { object: expression, name })
+          : this.make<XppStaticMember>('StaticMember', from, { owner: expression, name });
+      } else if (this.atPunct('(')) {
+        const { args, closed } = this.parseArguments();
+        expression = this.make<XppCall>('Call', from, { callee: expression, args, closed });
+      } else if (this.atPunct('[')) {
+        this.advance();
+        const index = this.parseExpression();
+        this.eatPunct(']');
+        expression = this.make<XppIndex>('Index', from, { object: expression, index });
+      } else if (this.atPunct('++') || this.atPunct('--')) {
+        const operator = this.advance().text;
+        expression = this.make<XppUnary>('Unary', from, { operator, operand: expression, prefix: false });
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private missing(): XppMissing {
+    const t = this.tok;
+    return { kind: 'Missing', start: t.start, end: t.start, line: t.line };
+  }
+
+  private parsePrimary(): XppExpression {
+    const from = this.tok;
+
+    if (from.kind === 'number') {
+      this.advance();
+      return this.make<XppLiteral>('Literal', from, { literalKind: 'number', raw: from.text });
+    }
+    if (from.kind === 'string') {
+      this.advance();
+      return this.make<XppLiteral>('Literal', from, { literalKind: 'string', raw: from.text });
+    }
+    if (from.kind === 'macro') {
+      this.advance();
+      return this.make<XppMacro>('Macro', from, { name: from.text.slice(1) });
+    }
+
+    if (from.kind === 'identifier') {
+      switch (from.lower) {
+        case 'true':
+        case 'false':
+          this.advance();
+          return this.make<XppLiteral>('Literal', from, { literalKind: 'boolean', raw: from.text });
+        case 'null':
+          this.advance();
+          return this.make<XppLiteral>('Literal', from, { literalKind: 'null', raw: from.text });
+        case 'this':
+          this.advance();
+          return this.make<XppThis>('This', from, {});
+        case 'new': {
+          this.advance();
+          if (this.tok.kind !== 'identifier') return this.make<XppMissing>('Missing', from, {});
+          const type = this.parseTypeRef();
+          const args = this.atPunct('(') ? this.parseArguments().args : [];
+          return this.make<XppNew>('New', from, { type, args });
+        }
+        case 'next':
+          if (this.peek().kind === 'identifier' && this.isPunct(this.peek(2), '(')) {
+            this.advance();
+            const name = this.advance().text;
+            const { args } = this.parseArguments();
+            return this.make<XppNext>('Next', from, { name, args });
+          }
+          break;
+        case 'select': {
+          this.advance();
+          const query = this.parseSelectQuery(from, false);
+          return this.make<XppSelectExpression>('SelectExpression', from, { query });
+        }
+      }
+      if (this.reserved(from.lower) && from.lower !== 'next') return this.missing();
+      this.advance();
+      if (this.atPunct('=>')) {
+        this.advance();
+        return this.make<XppLambda>('Lambda', from, { parameters: [from.text], body: this.parseLambdaBody() });
+      }
+      return this.make<XppIdentifier>('Identifier', from, { name: from.text });
+    }
+
+    if (this.atPunct('(')) {
+      const close = this.matching(this.pos);
+      if (close !== -1 && this.isPunct(this.tokens[close + 1], '=>')) {
+        const parameters = this.tokens
+          .slice(this.pos + 1, close)
+          .filter((t, k, all) => t.kind === 'identifier' && (k + 1 === all.length || this.isPunct(all[k + 1], ',')))
+          .map(t => t.text);
+        this.pos = close + 2;
+        return this.make<XppLambda>('Lambda', from, { parameters, body: this.parseLambdaBody() });
+      }
+      if (close !== -1 && this.isCast(close)) {
+        this.advance();
+        const type = this.parseTypeRef();
+        this.advance();
+        const expression = this.parseUnary();
+        return this.make<XppCast>('Cast', from, { type, expression });
+      }
+      this.advance();
+      const expression = this.parseExpression();
+      this.eatPunct(')');
+      return this.make<XppParen>('Paren', from, { expression });
+    }
+
+    if (this.atPunct('[')) {
+      this.advance();
+      const elements = this.parseExpressionList(']');
+      this.eatPunct(']');
+      return this.make<XppContainer>('Container', from, { elements });
+    }
+
+    return this.missing();
+  }
+
+  /** `(Type) operand` — a lone type name in parentheses followed by an operand. */
+  private isCast(close: number): boolean {
+    const len = this.typeLength(this.pos + 1);
+    if (len === 0 || this.pos + 1 + len !== close) return false;
+    const next = this.tokens[close + 1];
+    if (next.kind === 'identifier') return !this.reserved(next.lower) || next.lower === 'this' || next.lower === 'new';
+    return next.kind === 'number' || next.kind === 'string';
+  }
+
+  private parseLambdaBody(): XppBlock | XppExpression {
+    return this.atPunct('{') ? this.parseBlock() : this.parseAssignment();
+  }
+}
+
+/** Keys in grammar order, so a walk of the query visits its parts in source order. */
+function emptyQuery(fields: Partial<WithoutBase<XppSelectQuery>>): WithoutBase<XppSelectQuery> {
+  return {
+    options: [],
+    fields: [],
+    table: undefined,
+    index: undefined,
+    orderBy: [],
+    groupBy: [],
+    where: undefined,
+    misplacedWhere: [],
+    settings: [],
+    joins: [],
+    ...fields,
+  };
+}
+
+// ── Public surface ─────────────────────────────────────────────────────────
+
+/** Parse X++ source — a class, a method, or loose statements. Never throws. */
+export function parseXpp(source: string): XppCompilationUnit {
+  const { tokens, comments } = lexXpp(source);
+  const unit = new XppParser(tokens).parseUnit(comments);
+  unit.end = source.length;
+  return unit;
+}
+
+function isNode(value: unknown): value is XppNode {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as { kind?: unknown }).kind === 'string' &&
+    typeof (value as { start?: unknown }).start === 'number';
+}
+
+/** Direct children of a node, in declaration order of its fields. */
+export function childrenOf(node: XppNode): XppNode[] {
+  const children: XppNode[] = [];
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'comments' || key === 'diagnostics') continue;
+    if (Array.isArray(value)) {
+      for (const item of value) if (isNode(item)) children.push(item);
+    } else if (isNode(value)) {
+      children.push(value);
+    }
+  }
+  return children;
+}
+
+/**
+ * Depth-first walk. `visit` receives each node with its ancestors (outermost
+ * first); returning false skips that node's subtree.
+ */
+export function walkXpp(
+  root: XppNode,
+  visit: (node: XppNode, ancestors: readonly XppNode[]) => unknown,
+): void {
+  const ancestors: XppNode[] = [];
+  const step = (node: XppNode): void => {
+    if (visit(node, ancestors) === false) return;
+    ancestors.push(node);
+    for (const child of childrenOf(node)) step(child);
+    ancestors.pop();
+  };
+  step(root);
+}
+
+/** Every select query in the tree — statements, while selects, select expressions and recordset operations. Joins are reached through their root. */
+export function selectQueriesOf(root: XppNode): XppSelectQuery[] {
+  const queries: XppSelectQuery[] = [];
+  walkXpp(root, (node, ancestors) => {
+    if (node.kind === 'SelectQuery' && ancestors[ancestors.length - 1]?.kind !== 'Join') queries.push(node);
+  });
+  return queries;
+}
+
+/** Classes declared at the top level of a compilation unit. */
+export function classesOf(unit: XppCompilationUnit): XppClass[] {
+  return unit.body.filter((item): item is XppClass => item.kind === 'Class');
+}
+
+/** Name of a bare-identifier callee (`info(…)`), undefined for `x.info(…)` / `A::info(…)`. */
+export function globalCallName(call: XppCall): string | undefined {
+  return call.callee.kind === 'Identifier' ? call.callee.name : undefined;
+}
+
+/** Last name segment of a callee — `getToday` for `DateTimeUtil::getToday(…)`, `parmX` for `this.parmX()`. */
+export function calleeName(call: XppCall): string | undefined {
+  const c = call.callee;
+  if (c.kind === 'Identifier') return c.name;
+  if (c.kind === 'Member' || c.kind === 'StaticMember') return c.name || undefined;
+  return undefined;
+}
@@ -5,41 +5,15 @@
  *   select [field] from Main [where mainCond]
  *       [ [exists|notexists|outer] join Buf from T where joinCond ]...
  * The main WHERE must precede every join, and each join clause carries at most one where.
- * Two `where` keywords inside a single join segment means a stray where landed after
- * the join.
+ * The shared parser (xppParser.ts) reads the select by that grammar and sets aside a
+ * second where in a join clause as misplaced; that is what is reported here. Nested
+ * selects and a where clause spread over many lines are read as the statement they
+ * are, and nothing in a comment or string literal is a keyword.
  *
  * Advisory only: returns human-readable warnings, never throws or blocks.
  */
 
-/** Strip X++ line/block comments and string literals so 'where'/'join' tokens inside
- *  them don't skew the scan. */
-function stripCommentsAndStrings(s: string): string {
-  let out = '';
-  let i = 0;
-  while (i < s.length) {
-    const two = s.slice(i, i + 2);
-    if (two === '//') {
-      const nl = s.indexOf('\n', i);
-      i = nl === -1 ? s.length : nl;
-      continue;
-    }
-    if (two === '/*') {
-      const end = s.indexOf('*/', i + 2);
-      i = end === -1 ? s.length : end + 2;
-      continue;
-    }
-    if (s[i] === '"') {
-      i++;
-      while (i < s.length && s[i] !== '"') { if (s[i] === '\\') i++; i++; }
-      i++;
-      out += '""';
-      continue;
-    }
-    out += s[i];
-    i++;
-  }
-  return out;
-}
+import { parseXpp, selectQueriesOf } from './xppParser.js';
 
 /**
  * Inspect X++ source for misplaced WHERE clauses in select statements. Returns a list of
@@ -47,33 +21,22 @@ function stripCommentsAndStrings(s: string): string {
  */
 export function lintXppSelect(source: string | undefined): string[] {
   if (!source || !/\bselect\b/i.test(source)) return [];
-  const cleaned = stripCommentsAndStrings(source);
   const warnings: string[] = [];
 
-  // Each select statement spans from `select` to its terminating `;`.
-  const selectRe = /\bselect\b[\s\S]*?;/gi;
-  let m: RegExpExecArray | null;
-  while ((m = selectRe.exec(cleaned)) !== null) {
-    const stmt = m[0];
-    if (!/\bjoin\b/i.test(stmt)) continue; // only join-bearing selects can have this bug
+  for (const query of selectQueriesOf(parseXpp(source))) {
+    const misplaced = query.misplacedWhere.length > 0 ||
+      query.joins.some(join => join.query.misplacedWhere.length > 0);
+    if (!misplaced) continue;
 
-    // Segment 0 is the main-table region (its where is legal); every later segment is
-    // one join's clause and may hold at most one where.
-    const segments = stmt.split(/\bjoin\b/i);
-    for (let s = 1; s < segments.length; s++) {
-      const whereCount = (segments[s].match(/\bwhere\b/gi) ?? []).length;
-      if (whereCount >= 2) {
-        const snippet = stmt.replace(/\s+/g, ' ').trim().slice(0, 120);
-        warnings.push(
-          `⚠️ Possible X++ select error: a WHERE clause appears AFTER a join.\n` +
-          `   In X++ the main-table WHERE must come BEFORE any join, and each join has at most one WHERE.\n` +
-          `   Move the main-table condition ahead of the join:\n` +
-          `     select <field> from <Main> where <mainCond> exists join <Buf> from <T> where <joinCond>;\n` +
-          `   Statement: ${snippet}${stmt.length > 120 ? '…' : ''}`,
-        );
-        break; // one warning per statement is enough
-      }
-    }
+    const stmt = source.slice(query.start, query.end);
+    const snippet = stmt.replace(/\s+/g, ' ').trim().slice(0, 120);
+    warnings.push(
+      `⚠️ Possible X++ select error: a WHERE clause appears AFTER a join.\n` +
+      `   In X++ the main-table WHERE must come BEFORE any join, and each join has at most one WHERE.\n` +
+      `   Move the main-table condition ahead of the join:\n` +
+      `     select <field> from <Main> where <mainCond> exists join <Buf> from <T> where <joinCond>;\n` +
+      `   Statement: ${snippet}${stmt.length > 120 ? '…' : ''}`,
+    );
   }
   return warnings;
 }
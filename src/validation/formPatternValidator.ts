@@ -37,8 +37,13 @@ import {
 
 // Types
 
+/** Ids of the rules above, and FP000 for XML that is not a readable AxForm. */
+export const FORM_PATTERN_RULE_IDS = [
+  'FP000', 'FP001', 'FP002', 'FP003', 'FP004', 'FP005', 'FP006', 'FP007', 'FP008', 'FP009', 'FP010',
+] as const;
+
 export interface FormPatternViolation {
-  rule: string;
+  rule: (typeof FORM_PATTERN_RULE_IDS)[number];
   severity: 'error' | 'warning';
   /** Tree path, e.g. 'Design/Tab[TabHeader]/TabPage[General]' */
   path: string;
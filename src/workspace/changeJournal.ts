@@ -0,0 +1,355 @@
+/**
+ * Durable change journal — the pre-image of every file a write tool touches,
+ * kept on disk per model so an undo survives a server restart.
+ *
+ * Why this exists: undo_last_modification was git-based, with the in-memory
+ * createdArtifactLedger as the only answer outside a repository. In the
+ * PackagesLocalDirectory sandbox (not a git work tree) that meant a restart lost
+ * every undo, a modify could never be undone at all, and only the single last
+ * change was ever revertible.
+ *
+ * Shape. One tool call is one change: the tool handler opens a scope around it
+ * (runWithChangeScope), every writer calls captureJournalPreImage before it
+ * writes, and when the call ends the scope compares each captured file with what
+ * is on disk now. Files that really changed become one `change` entry holding
+ * their before/after hashes; the before contents go to a content-addressed blob
+ * store. Named checkpoints and undos are entries in the same append-only log, so
+ * the history is the log read back.
+ *
+ *   <root>/<model>/journal.jsonl    one JSON entry per line, oldest first
+ *   <root>/<model>/blobs/<sha256>   pre-image contents
+ *
+ * Outside a scope (CLI, eval harness, tests that call a handler directly) a
+ * capture is a no-op — the same contract as the bridge failure log — and with no
+ * root configured the journal is off entirely. Appends are single small lines,
+ * so a second server process writing the same model interleaves rather than
+ * corrupts; the after-hash check at undo time catches anything it changed.
+ *
+ * A change set (d365fo_file action="changeset") rides on the same captures: it
+ * keeps its own pre-images, journal or not, so a failed set can put every file
+ * back before the call ends — and the journal then sees no change at all.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { writeFileAtomic } from '../utils/atomicFileWrite.js';
+import { forgetCreatedArtifact, ledgerKey } from './createdArtifactLedger.js';
+
+/** Change entries kept per model; older ones and their unreferenced blobs are pruned. */
+export const JOURNAL_MAX_CHANGES = 200;
+
+const JOURNAL_FILE = 'journal.jsonl';
+const BLOB_DIR = 'blobs';
+
+export interface JournalFile {
+  /** Absolute path, as the writer passed it. */
+  path: string;
+  /** sha256 of the content before the change; null when the file did not exist. */
+  before: string | null;
+  /** sha256 of the content after the change; null when the change deleted it. */
+  after: string | null;
+}
+
+export interface ChangeEntry {
+  kind: 'change';
+  id: string;
+  at: string;
+  /** The tool call that made the change, e.g. `d365fo_file`. */
+  tool: string;
+  /** One line saying what the call was, e.g. `modify form ConDemoForm (replace-code)`. */
+  summary: string;
+  files: JournalFile[];
+}
+
+export interface CheckpointEntry {
+  kind: 'checkpoint';
+  id: string;
+  at: string;
+  name: string;
+}
+
+export interface UndoEntry {
+  kind: 'undo';
+  id: string;
+  at: string;
+  /** IDs of the change entries this undo restored. */
+  undid: string[];
+}
+
+export type JournalEntry = ChangeEntry | CheckpointEntry | UndoEntry;
+
+/** ledgerKey → the path as captured and its content then (null = absent). */
+type PreImages = Map<string, { path: string; content: string | null }>;
+
+interface ChangeScope {
+  tool: string;
+  summary: string;
+  preImages: PreImages;
+}
+
+let journalRoot: string | null = null;
+
+/** Where journals live. Set once at startup, next to the metadata databases; null turns the journal off. */
+export function setChangeJournalRoot(root: string | null): void {
+  journalRoot = root;
+}
+
+export function getChangeJournalRoot(): string | null {
+  return journalRoot;
+}
+
+const scope = new AsyncLocalStorage<ChangeScope>();
+const changeSet = new AsyncLocalStorage<PreImages>();
+
+export function sha256(content: string): string {
+  return createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+async function readOrNull(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException)?.code === 'ENOENT') return null;
+    throw e;
+  }
+}
+
+/**
+ * The model a path belongs to: the folder holding its `Ax*` type folder
+ * (`…/<Package>/<Model>/AxClass/X.xml`, `…/<Model>/AxLabelFile/LabelResources/…`).
+ * Null for anything outside a model, such as a `.rnrproj`.
+ */
+export function modelOfPath(filePath: string): string | null {
+  const parts = filePath.replace(/\\/g, '/').split('/');
+  const axIdx = parts.findIndex(p => /^Ax[A-Z]\w*$/.test(p));
+  return axIdx >= 1 ? parts[axIdx - 1] : null;
+}
+
+function newId(): string {
+  return `${Date.now().toString(36)}-${randomBytes(3).toString('hex')}`;
+}
+
+/**
+ * Run one tool call as one journal change. `fallbackModel` files the entry
+ * when none of the touched paths sits in a model folder (a project-only edit).
+ */
+export async function runWithChangeScope<T>(
+  label: { tool: string; summary: string; fallbackModel?: string | null },
+  fn: () => Promise<T>,
+): Promise<T> {
+  if (!journalRoot) return fn();
+  const current: ChangeScope = { tool: label.tool, summary: label.summary, preImages: new Map() };
+  try {
+    return await scope.run(current, fn);
+  } finally {
+    if (current.preImages.size > 0) {
+      try {
+        await commitScope(current, label.fallbackModel ?? null);
+      } catch (e) {
+        // The write itself succeeded; losing its undo record must not turn it into a failure.
+        console.error(`[changeJournal] Could not record ${label.tool} change: ${e}`);
+      }
+    }
+  }
+}
+
+/**
+ * Remember `filePath` as it is right now, before the caller writes it. Only the
+ * first capture per path in a call counts — later ones would record the call's
+ * own intermediate writes.
+ */
+export async function captureJournalPreImage(filePath: string): Promise<void> {
+  const open = [scope.getStore()?.preImages, changeSet.getStore()].filter((m): m is PreImages => !!m);
+  if (open.length === 0 || !filePath) return;
+  const key = ledgerKey(filePath);
+  const into = open.filter(m => !m.has(key));
+  if (into.length === 0) return;
+  // Reserve the slot before the read, so a concurrent capture of the same path cannot win.
+  const slot = { path: filePath, content: null as string | null };
+  for (const m of into) m.set(key, slot);
+  try {
+    slot.content = await readOrNull(filePath);
+  } catch {
+    for (const m of into) m.delete(key); // unreadable — nothing to restore it from
+  }
+}
+
+export interface RolledBackFile {
+  path: string;
+  action: 'reverted' | 'deleted';
+}
+
+/**
+ * Run `fn` with every captured write remembered, whatever the journal root. The
+ * returned rollback puts each file back as it was before its first capture —
+ * newest first, deleting the ones that did not exist — and names what it touched.
+ * A throw from `fn` rolls back before it propagates.
+ */
+export async function runChangeSet<T>(
+  fn: () => Promise<T>,
+): Promise<{ result: T; rollback: () => Promise<RolledBackFile[]> }> {
+  const preImages: PreImages = new Map();
+  const rollback = () => restorePreImages(preImages);
+  let result: T;
+  try {
+    result = await changeSet.run(preImages, fn);
+  } catch (e) {
+    await rollback();
+    throw e;
+  }
+  return { result, rollback };
+}
+
+async function restorePreImages(preImages: PreImages): Promise<RolledBackFile[]> {
+  const restored: RolledBackFile[] = [];
+  for (const { path: filePath, content } of [...preImages.values()].reverse()) {
+    if ((await readOrNull(filePath)) === content) continue;
+    if (content === null) {
+      await fs.rm(filePath, { force: true });
+      forgetCreatedArtifact(filePath);
+      restored.push({ path: filePath, action: 'deleted' });
+    } else {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await writeFileAtomic(filePath, content);
+      restored.push({ path: filePath, action: 'reverted' });
+    }
+  }
+  return restored;
+}
+
+function modelDir(model: string): string {
+  return path.join(journalRoot!, model.replace(/[<>:"/\\|?*]/g, '_'));
+}
+
+async function storeBlob(dir: string, content: string): Promise<string> {
+  const hash = sha256(content);
+  const blobPath = path.join(dir, BLOB_DIR, hash);
+  try {
+    await fs.access(blobPath);
+  } catch {
+    await fs.mkdir(path.dirname(blobPath), { recursive: true });
+    await writeFileAtomic(blobPath, content);
+  }
+  return hash;
+}
+
+/** Content of a stored pre-image; null when the blob is gone. */
+export async function readJournalBlob(model: string, hash: string): Promise<string | null> {
+  return readOrNull(path.join(modelDir(model), BLOB_DIR, hash));
+}
+
+async function commitScope(current: ChangeScope, fallbackModel: string | null): Promise<void> {
+  const files: Array<JournalFile & { content: string | null }> = [];
+  for (const { path: filePath, content } of current.preImages.values()) {
+    const now = await readOrNull(filePath);
+    if (now === content) continue;
+    files.push({
+      path: filePath,
+      before: content === null ? null : sha256(content),
+      after: now === null ? null : sha256(now),
+      content,
+    });
+  }
+  if (files.length === 0) return;
+
+  const model = files.map(f => modelOfPath(f.path)).find(m => m) ?? fallbackModel ?? '_workspace';
+  const dir = modelDir(model);
+  await fs.mkdir(dir, { recursive: true });
+  for (const f of files) {
+    if (f.content !== null) await storeBlob(dir, f.content);
+  }
+  await appendJournalEntry(model, {
+    kind: 'change',
+    id: newId(),
+    at: new Date().toISOString(),
+    tool: current.tool,
+    summary: current.summary,
+    files: files.map(({ content: _content, ...f }) => f),
+  });
+}
+
+/** Every entry of the model's journal, oldest first. A torn last line is skipped. */
+export async function readJournal(model: string): Promise<JournalEntry[]> {
+  if (!journalRoot) return [];
+  const raw = await readOrNull(path.join(modelDir(model), JOURNAL_FILE));
+  if (!raw) return [];
+  const entries: JournalEntry[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as JournalEntry);
+    } catch { /* a line another process was still writing */ }
+  }
+  return entries;
+}
+
+/** Models that have a journal, for a caller that was not told which one. */
+export async function listJournalModels(): Promise<string[]> {
+  if (!journalRoot) return [];
+  try {
+    const entries = await fs.readdir(journalRoot, { withFileTypes: true });
+    return entries.filter(e => e.isDirectory()).map(e => e.name).sort();
+  } catch {
+    return [];
+  }
+}
+
+async function appendJournalEntry(
+  model: string,
+  entry: JournalEntry,
+): Promise<void> {
+  if (!journalRoot) throw new Error('the change journal is not configured');
+  const dir = modelDir(model);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.appendFile(path.join(dir, JOURNAL_FILE), JSON.stringify(entry) + '\n', 'utf-8');
+  if (entry.kind === 'change') await pruneJournal(model);
+}
+
+/** Record a named checkpoint; a later undo(toCheckpoint) rolls back to it. */
+export async function addCheckpoint(model: string, name: string): Promise<CheckpointEntry> {
+  const entry: CheckpointEntry = { kind: 'checkpoint', id: newId(), at: new Date().toISOString(), name };
+  await appendJournalEntry(model, entry);
+  return entry;
+}
+
+/** Record that an undo restored the pre-images of these change entries. */
+export async function recordUndo(model: string, undid: string[]): Promise<UndoEntry> {
+  const entry: UndoEntry = { kind: 'undo', id: newId(), at: new Date().toISOString(), undid };
+  await appendJournalEntry(model, entry);
+  return entry;
+}
+
+/** Change entries no undo has restored yet, oldest first. */
+export function liveChanges(entries: JournalEntry[]): ChangeEntry[] {
+  const undone = new Set(entries.flatMap(e => (e.kind === 'undo' ? e.undid : [])));
+  return entries.filter((e): e is ChangeEntry => e.kind === 'change' && !undone.has(e.id));
+}
+
+/** Drop the oldest change entries past the cap, then the blobs nothing references. */
+async function pruneJournal(model: string): Promise<void> {
+  const entries = await readJournal(model);
+  const changes = entries.filter(e => e.kind === 'change');
+  if (changes.length <= JOURNAL_MAX_CHANGES) return;
+
+  const dropped = new Set(changes.slice(0, changes.length - JOURNAL_MAX_CHANGES).map(e => e.id));
+  const oldestKept = entries.findIndex(e => e.kind === 'change' && !dropped.has(e.id));
+  const kept = entries
+    .filter((e, i) => !(e.kind === 'change' && dropped.has(e.id)) && !(e.kind === 'checkpoint' && i < oldestKept))
+    .map(e => (e.kind === 'undo' ? { ...e, undid: e.undid.filter(id => !dropped.has(id)) } : e))
+    .filter(e => e.kind !== 'undo' || e.undid.length > 0);
+  const dir = modelDir(model);
+  await writeFileAtomic(path.join(dir, JOURNAL_FILE), kept.map(e => JSON.stringify(e) + '\n').join(''));
+
+  const referenced = new Set(
+    kept.flatMap(e => (e.kind === 'change' ? e.files.map(f => f.before).filter((h): h is string => !!h) : [])),
+  );
+  let blobs: string[] = [];
+  try {
+    blobs = await fs.readdir(path.join(dir, BLOB_DIR));
+  } catch { /* no blobs yet */ }
+  for (const blob of blobs) {
+    if (!referenced.has(blob)) await fs.rm(path.join(dir, BLOB_DIR, blob), { force: true });
+  }
+}
@@ -19,6 +19,7 @@ import { Parser, Builder } from '../utils/xml.js';
 // than moved along with the classes.
 import { withFileLock } from '../utils/atomicFileWrite.js';
 import { recordCreatedProjectFolder, takeCreatedProjectFolder } from './createdArtifactLedger.js';
+import { captureJournalPreImage } from './changeJournal.js';
 import {
   axFolderForObjectType, resolveMembership, projectDisplayName, includeKey, normalizeInclude,
   type Membership,
@@ -427,6 +428,7 @@ export class ProjectFileManager {
     const updatedXml = this.builder.buildObject(project);
     // Restore UTF-8 BOM if the original file had one (VS 2022 writes .rnrproj with BOM)
     const output = hadBom ? '\uFEFF' + updatedXml : updatedXml;
+    await captureJournalPreImage(projectPath);
     for (let attempt = 0; attempt < 5; attempt++) {
       try {
         await fs.writeFile(projectPath, output, 'utf-8');
@@ -540,6 +542,7 @@ export class ProjectFileManager {
 
     const updatedXml = this.builder.buildObject(project);
     const output = hadBom ? '\uFEFF' + updatedXml : updatedXml;
+    await captureJournalPreImage(projectPath);
     for (let attempt = 0; attempt < 5; attempt++) {
       try {
         await fs.writeFile(projectPath, output, 'utf-8');
@@ -676,6 +679,7 @@ export class ProjectFileManager {
     // Write back
     const updatedXml = this.builder.buildObject(project);
     const output = hadBom ? '\uFEFF' + updatedXml : updatedXml;
+    await captureJournalPreImage(projectPath);
     for (let attempt = 0; attempt < 5; attempt++) {
       try {
         await fs.writeFile(projectPath, output, 'utf-8');
@@ -0,0 +1,105 @@
+/**
+ * Semantic workspace changes — the uncommitted AOT XML in a git workspace,
+ * read item by item (see utils/aotSemanticDiff.ts) instead of line by line.
+ *
+ * Consumed by:
+ *   • review_workspace_changes, which reviews the semantic report in place of
+ *     the raw `git diff HEAD` text for every AOT file it can read, and
+ *   • the workspace://semantic-changes resource.
+ *
+ * Best-effort like the rest of the workspace layer: a file git cannot show or
+ * the parser declines is reported as unreadable, never thrown.
+ */
+
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import util from 'util';
+import { diffAotXml, renderAotSemanticDiff, type AotSemanticChange } from '../utils/aotSemanticDiff.js';
+
+const execFileAsync = util.promisify(execFile);
+
+/** How many changed files one report reads. */
+const SEMANTIC_FILES_LIMIT = 50;
+
+export interface SemanticFileChange {
+  /** Relative to the repo root, forward slashes — as git names it. */
+  path: string;
+  status: 'added' | 'modified' | 'deleted';
+  /** Null when the file is not AOT XML the semantic diff can read; review its line diff. */
+  objectType: string | null;
+  objectName: string | null;
+  changes: AotSemanticChange[];
+}
+
+export interface SemanticChangesReport {
+  repoRoot: string | null;
+  files: SemanticFileChange[];
+  /** Changed .xml files beyond SEMANTIC_FILES_LIMIT, not read. */
+  omitted: number;
+  generatedAt: string;
+}
+
+async function gitSafe(args: string[], cwd: string): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd,
+      windowsHide: true,
+      maxBuffer: 1024 * 1024 * 10,
+      timeout: 15_000,
+    });
+    return stdout;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Semantic changes of the given files (repo-relative), or of every changed
+ * .xml file vs HEAD plus untracked ones when `relPaths` is omitted.
+ */
+export async function collectSemanticChanges(
+  directoryPath: string | null,
+  relPaths?: string[],
+): Promise<SemanticChangesReport> {
+  const generatedAt = new Date().toISOString();
+  if (relPaths && !relPaths.some(f => f.toLowerCase().endsWith('.xml'))) {
+    return { repoRoot: directoryPath, files: [], omitted: 0, generatedAt };
+  }
+  const root = directoryPath ? (await gitSafe(['rev-parse', '--show-toplevel'], directoryPath))?.trim() : null;
+  if (!root) return { repoRoot: null, files: [], omitted: 0, generatedAt };
+
+  let candidates = relPaths;
+  if (!candidates) {
+    const tracked = await gitSafe(['diff', 'HEAD', '--name-only'], root);
+    const untracked = await gitSafe(['ls-files', '--others', '--exclude-standard'], root);
+    candidates = [...new Set(`${tracked ?? ''}\n${untracked ?? ''}`.split('\n').map(l => l.trim()).filter(Boolean))];
+  }
+  const xmlFiles = candidates.filter(f => f.toLowerCase().endsWith('.xml'));
+
+  const files: SemanticFileChange[] = [];
+  for (const rel of xmlFiles.slice(0, SEMANTIC_FILES_LIMIT)) {
+    const before = await gitSafe(['show', `HEAD:${rel}`], root);
+    const after = await fs.readFile(path.join(root, rel), 'utf-8').catch(() => null);
+    if (before === null && after === null) continue;
+    const status = before === null ? 'added' : after === null ? 'deleted' : 'modified';
+    const diff = diffAotXml(before, after);
+    files.push({
+      path: rel,
+      status,
+      objectType: diff?.objectType ?? null,
+      objectName: diff?.objectName ?? null,
+      changes: diff?.changes ?? [],
+    });
+  }
+  return { repoRoot: root, files, omitted: Math.max(0, xmlFiles.length - SEMANTIC_FILES_LIMIT), generatedAt };
+}
+
+/** Markdown for one file: a heading naming the object, then its changes. */
+export function renderSemanticFileChange(file: SemanticFileChange): string[] {
+  if (!file.objectType) return [];
+  return [
+    `### ${file.objectType} \`${file.objectName}\` (${file.status}) — ${file.path}`,
+    ...renderAotSemanticDiff({ objectType: file.objectType, objectName: file.objectName ?? '', changes: file.changes }),
+  ];
+}
@@ -0,0 +1,60 @@
+/**
+ * `d365fo-mcp merge` as a git merge driver — a conflict is written into <ours>
+ * between git's markers, and a file that is not AOT XML gets git's line merge.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { mergeCommand } from '../../src/cli/commands/merge.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'merge-driver-'));
+  process.exitCode = undefined;
+});
+
+afterEach(() => {
+  process.exitCode = undefined;
+  try { fs.rmSync(dir, { recursive: true, force: true }); } catch { /* ignore */ }
+});
+
+const write = (name: string, content: string) => {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, content, 'utf-8');
+  return file;
+};
+
+const edt = (value: string) => `<?xml version="1.0" encoding="utf-8"?>
+<AxEdt xmlns:i="http://www.w3.org/2001/XMLSchema-instance" xmlns="" i:type="AxEdtString">
+\t<Name>ContosoWarrantyId</Name>
+\t<Label>${value}</Label>
+</AxEdt>
+`;
+
+describe('d365fo-mcp merge', () => {
+  it('writes a conflict into ours between markers and exits 1', async () => {
+    const ours = write('ours.xml', edt('@Contoso:Ours'));
+    await mergeCommand(write('base.xml', edt('@Contoso:Base')), ours, write('theirs.xml', edt('@Contoso:Theirs')));
+    expect(process.exitCode).toBe(1);
+    expect(fs.readFileSync(ours, 'utf-8')).toContain(
+      '<<<<<<< ours\n\t<Label>@Contoso:Ours</Label>\n=======\n\t<Label>@Contoso:Theirs</Label>\n>>>>>>> theirs\n',
+    );
+  });
+
+  it('merges a file that is not AOT XML by line', async () => {
+    const ours = write('ours.txt', 'a\nours\nc\nd\n');
+    await mergeCommand(write('base.txt', 'a\nb\nc\nd\n'), ours, write('theirs.txt', 'a\nb\nc\ntheirs\n'));
+    expect(process.exitCode).toBeUndefined();
+    expect(fs.readFileSync(ours, 'utf-8')).toBe('a\nours\nc\ntheirs\n');
+  });
+
+  it('leaves git line markers in a non-AOT file that conflicts', async () => {
+    const ours = write('ours.txt', 'ours\n');
+    await mergeCommand(write('base.txt', 'base\n'), ours, write('theirs.txt', 'theirs\n'));
+    expect(process.exitCode).toBe(1);
+    expect(fs.readFileSync(ours, 'utf-8')).toBe('<<<<<<< ours\nours\n=======\ntheirs\n>>>>>>> theirs\n');
+  });
+});
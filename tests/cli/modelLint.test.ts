@@ -0,0 +1,167 @@
+/**
+ * `d365fo-mcp lint` — the syntax rules over a model on disk, and the SARIF a
+ * CI pipeline uploads.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  formatJson,
+  formatSarif,
+  formatText,
+  lintModel,
+  modelObjectFiles,
+  resolveModelDir,
+} from '../../src/cli/lint/modelLint.js';
+
+let root: string;
+let modelDir: string;
+
+const CLASS_XML = [
+  '<?xml version="1.0" encoding="utf-8"?>',
+  '<AxClass xmlns:i="http://www.w3.org/2001/XMLSchema-instance">',
+  '\t<Name>ConAssetHelper</Name>',
+  '\t<SourceCode>',
+  '\t\t<Declaration><![CDATA[',
+  'public class ConAssetHelper',
+  '{',
+  '}',
+  ']]></Declaration>',
+  '\t\t<Methods>',
+  '\t\t\t<Method>',
+  '\t\t\t\t<Name>due</Name>',
+  '\t\t\t\t<Source><![CDATA[',
+  '    public static TransDate due()',
+  '    {',
+  '        return today();',
+  '    }',
+  ']]></Source>',
+  '\t\t\t</Method>',
+  '\t\t</Methods>',
+  '\t</SourceCode>',
+  '</AxClass>',
+].join('\n');
+
+const EXTENSION_XML = [
+  '<?xml version="1.0" encoding="utf-8"?>',
+  '<AxClass xmlns:i="http://www.w3.org/2001/XMLSchema-instance">',
+  '\t<Name>CustTableCon_Extension</Name>',
+  '\t<SourceCode>',
+  '\t\t<Declaration><![CDATA[',
+  '[ExtensionOf(tableStr(CustTable))]',
+  'final class CustTableCon_Extension',
+  '{',
+  '}',
+  ']]></Declaration>',
+  '\t\t<Methods>',
+  '\t\t\t<Method>',
+  '\t\t\t\t<Name>validateWrite</Name>',
+  '\t\t\t\t<Source><![CDATA[',
+  '    public boolean validateWrite(boolean _skip = false)',
+  '    {',
+  '        boolean ret = true;',
+  '        if (!_skip)',
+  '        {',
+  '            ret = next validateWrite(_skip);',
+  '        }',
+  '        return ret;',
+  '    }',
+  ']]></Source>',
+  '\t\t\t</Method>',
+  '\t\t</Methods>',
+  '\t</SourceCode>',
+  '</AxClass>',
+].join('\n');
+
+const TABLE_XML = [
+  '\uFEFF<?xml version="1.0" encoding="utf-8"?>',
+  '<AxTable xmlns:i="http://www.w3.org/2001/XMLSchema-instance">',
+  '\t<Name>ConAsset</Name>',
+  '\t<TableGroup>Main</TableGroup>',
+  '\t<Label>@Con:Asset</Label>',
+  '</AxTable>',
+].join('\n');
+
+beforeAll(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'model-lint-'));
+  const pkg = path.join(root, 'ContosoPkg');
+  modelDir = path.join(pkg, 'Contoso Assets');
+  fs.mkdirSync(path.join(pkg, 'Descriptor'), { recursive: true });
+  fs.writeFileSync(
+    path.join(pkg, 'Descriptor', 'ContosoAssets.xml'),
+    '<AxModelInfo><ModelModule>ContosoPkg</ModelModule><Name>Contoso Assets</Name></AxModelInfo>',
+  );
+  for (const folder of ['AxClass', 'AxTable', 'AxEnum']) fs.mkdirSync(path.join(modelDir, folder), { recursive: true });
+  fs.writeFileSync(path.join(modelDir, 'AxClass', 'ConAssetHelper.xml'), CLASS_XML);
+  fs.writeFileSync(path.join(modelDir, 'AxClass', 'CustTableCon_Extension.xml'), EXTENSION_XML);
+  fs.writeFileSync(path.join(modelDir, 'AxTable', 'ConAsset.xml'), TABLE_XML);
+  fs.writeFileSync(path.join(modelDir, 'AxEnum', 'ConAssetStatus.xml'), '<AxEnum />');
+});
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('model lint — finding the model', () => {
+  it('resolves a model name through its descriptor, case-insensitively', async () => {
+    expect(await resolveModelDir('contoso assets', [root])).toBe(modelDir);
+  });
+
+  it('takes the path of the model folder as it is', async () => {
+    expect(await resolveModelDir(modelDir, [])).toBe(modelDir);
+  });
+
+  it('returns null for a model no root has', async () => {
+    expect(await resolveModelDir('Fabrikam', [root])).toBeNull();
+  });
+
+  it('reads classes, tables and forms — not the other folders', () => {
+    expect(modelObjectFiles(modelDir).map(f => path.basename(f))).toEqual(['ConAssetHelper.xml', 'CustTableCon_Extension.xml', 'ConAsset.xml']);
+  });
+});
+
+describe('model lint — findings', () => {
+  it('locates an X++ finding on the line of the file, and an XML one in the table', () => {
+    const report = lintModel('Contoso Assets', modelDir, { paths: [], workspace: root });
+    const today = report.findings.find(f => f.rule === 'SEL001');
+    expect(today?.file).toBe(path.join(modelDir, 'AxClass', 'ConAssetHelper.xml'));
+    expect(today?.line).toBe(16);
+    const order = report.findings.find(f => f.rule === 'XML006');
+    expect(order?.file).toBe(path.join(modelDir, 'AxTable', 'ConAsset.xml'));
+    expect(report.files).toBe(3);
+  });
+
+  it('runs the CoC rules on an [ExtensionOf] class, its methods inside the class', () => {
+    const report = lintModel('Contoso Assets', modelDir, { paths: [], workspace: root });
+    const file = path.join(modelDir, 'AxClass', 'CustTableCon_Extension.xml');
+    const found = report.findings.filter(f => f.file === file).map(f => `${f.rule}@${f.line}`);
+    expect(found).toContain('COC001@15');
+    expect(found).toContain('COC004@20');
+    expect(found.some(f => f.startsWith('COC002') || f.startsWith('COC003'))).toBe(false);
+  });
+
+  it('writes SARIF 2.1.0 with URIs relative to the base directory', () => {
+    const report = lintModel('Contoso Assets', modelDir, { paths: [], workspace: root });
+    const log = JSON.parse(formatSarif(report, root));
+    expect(log.version).toBe('2.1.0');
+    const run = log.runs[0];
+    expect(run.tool.driver.rules.map((r: { id: string }) => r.id)).toContain('SEL001');
+    const result = run.results.find((r: { ruleId: string }) => r.ruleId === 'SEL001');
+    expect(result.level).toBe('error');
+    expect(result.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'ContosoPkg/Contoso%20Assets/AxClass/ConAssetHelper.xml', uriBaseId: '%SRCROOT%' },
+      region: { startLine: 16 },
+    });
+    expect(run.tool.driver.rules[result.ruleIndex].id).toBe('SEL001');
+  });
+
+  it('prints one compiler-style line per finding and a summary', () => {
+    const report = lintModel('Contoso Assets', modelDir, { paths: [], workspace: root });
+    const text = formatText(report, root);
+    expect(text).toContain(`${path.join('ContosoPkg', 'Contoso Assets', 'AxClass', 'ConAssetHelper.xml')}(16): error SEL001: today()`);
+    expect(text.trimEnd().split('\n').at(-1)).toMatch(/^Contoso Assets: 3 object\(s\), \d+ error\(s\), \d+ warning\(s\)\.$/);
+    expect(JSON.parse(formatJson(report, root)).schemaVersion).toBe(1);
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * `d365fo-mcp security-diff` — per-role effective access of two index builds,
+ * with the duty/privilege changes that caused it.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import Database from '../../src/database/sqlite.js';
+import { diffSecuritySnapshots, formatSecurityDiffText } from '../../src/cli/security/securityDiff.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'security-diff-'));
+});
+
+afterEach(() => {
+  try { fs.rmSync(dir, { recursive: true, force: true }); } catch { /* ignore */ }
+});
+
+/** A database file with the security tables and the given rows. */
+function snapshot(file: string, rows: {
+  roleDuties: Array<[string, string]>;
+  dutyPrivileges: Array<[string, string]>;
+  entries: Array<[string, string, string, string]>;
+  roleFiles?: Array<[string, string]>;
+  /** security_links rows — [owner type, owner, link type, member, via]; no table when absent. */
+  links?: Array<[string, string, string, string, string | null]>;
+}): string {
+  const dbPath = path.join(dir, file);
+  const db = new Database(dbPath);
+  db.exec(`
+    CREATE TABLE symbols (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL, type TEXT NOT NULL, parent_name TEXT,
+      signature TEXT, file_path TEXT, model TEXT, description TEXT, extends_class TEXT
+    );
+    CREATE TABLE security_role_duties (role_name TEXT, duty_name TEXT, model TEXT);
+    CREATE TABLE security_duty_privileges (duty_name TEXT, privilege_name TEXT, model TEXT);
+    CREATE TABLE security_privilege_entries (
+      privilege_name TEXT, entry_point_name TEXT, object_type TEXT, access_level TEXT, model TEXT
+    );
+  `);
+  for (const [role, duty] of rows.roleDuties) {
+    db.prepare('INSERT INTO security_role_duties VALUES (?, ?, ?)').run(role, duty, 'ApplicationSuite');
+  }
+  for (const [duty, privilege] of rows.dutyPrivileges) {
+    db.prepare('INSERT INTO security_duty_privileges VALUES (?, ?, ?)').run(duty, privilege, 'ApplicationSuite');
+  }
+  for (const [privilege, entry, type, level] of rows.entries) {
+    db.prepare('INSERT INTO security_privilege_entries VALUES (?, ?, ?, ?, ?)').run(privilege, entry, type, level, 'ApplicationSuite');
+  }
+  for (const [role, file] of rows.roleFiles ?? []) {
+    db.prepare(`INSERT INTO symbols (name, type, file_path, model) VALUES (?, 'security-role', ?, 'Contoso')`).run(role, file);
+  }
+  if (rows.links) {
+    db.exec(`CREATE TABLE security_links (
+      owner_type TEXT, owner_name TEXT, link_type TEXT, member_name TEXT, via TEXT, model TEXT)`);
+    for (const link of rows.links) db.prepare('INSERT INTO security_links VALUES (?, ?, ?, ?, ?, ?)').run(...link, 'Contoso');
+  }
+  db.close();
+  return dbPath;
+}
+
+const BEFORE = {
+  roleDuties: [['VendClerk', 'VendVendorMaintain'], ['VendClerk', 'VendInvoiceInquire'], ['LegacyRole', 'VendInvoiceInquire']] as Array<[string, string]>,
+  dutyPrivileges: [['VendVendorMaintain', 'VendTableView'], ['VendInvoiceInquire', 'VendInvoiceView']] as Array<[string, string]>,
+  entries: [
+    ['VendTableView', 'VendTable', 'MenuItemDisplay', 'Read:Allow'],
+    ['VendInvoiceView', 'VendInvoiceJournal', 'MenuItemDisplay', 'Read:Allow'],
+    ['VendInvoiceView', 'VendInvoiceArchive', 'MenuItemDisplay', 'Read:Allow'],
+  ] as Array<[string, string, string, string]>,
+};
+
+const AFTER = {
+  roleDuties: [['VendClerk', 'VendVendorMaintain'], ['VendClerk', 'VendInvoiceInquire'], ['VendApprover', 'VendPaymentApprove']] as Array<[string, string]>,
+  dutyPrivileges: [
+    ['VendVendorMaintain', 'VendTableView'], ['VendVendorMaintain', 'VendTableMaintain'],
+    ['VendInvoiceInquire', 'VendInvoiceView'], ['VendPaymentApprove', 'VendPaymApprove'],
+  ] as Array<[string, string]>,
+  entries: [
+    ['VendTableView', 'VendTable', 'MenuItemDisplay', 'Read:Allow'],
+    ['VendTableMaintain', 'VendTable', 'MenuItemDisplay', 'Read:Allow,Update:Allow,Delete:Allow'],
+    ['VendInvoiceView', 'VendInvoiceJournal', 'MenuItemDisplay', 'Read:Allow'],
+    ['VendPaymApprove', 'VendPaymApproveJournal', 'MenuItemAction', 'Invoke:Allow'],
+  ] as Array<[string, string, string, string]>,
+};
+
+describe('security-diff', () => {
+  it('reports each role\'s entry points gained, lost and regranted, and the structure behind them', async () => {
+    const report = await diffSecuritySnapshots(snapshot('before.db', BEFORE), snapshot('after.db', AFTER));
+
+    expect(report.roles.map(r => `${r.role}:${r.status}`)).toEqual(['LegacyRole:removed', 'VendApprover:added', 'VendClerk:changed']);
+    const clerk = report.roles.find(r => r.role === 'VendClerk')!;
+    expect(clerk.changed).toEqual([{ entryPoint: 'VendTable', objectType: 'MenuItemDisplay', before: ['Read'], after: ['Read', 'Update', 'Delete'] }]);
+    expect(clerk.lost).toEqual([{ entryPoint: 'VendInvoiceArchive', objectType: 'MenuItemDisplay', grants: ['Read'] }]);
+    expect(clerk.gainsWrite).toBe(true);
+    expect(report.roles.find(r => r.role === 'VendApprover')!.gainsWrite).toBe(false);
+
+    const text = formatSecurityDiffText(report);
+    expect(text).toContain('Roles: 2 → 2 (1 added, 1 removed); 1 existing role(s) with changed effective access.');
+    expect(text).toContain('⚠️ Write access gained by 1 role(s): VendClerk.');
+    expect(text).toContain(
+      '  VendClerk (ApplicationSuite) ⚠️ write\n' +
+      '    − VendInvoiceArchive [MenuItemDisplay] Read\n' +
+      '    ~ VendTable [MenuItemDisplay] Read → Read, Update, Delete\n');
+    expect(text).toContain('  VendApprover (ApplicationSuite) — new role\n    + VendPaymApproveJournal [MenuItemAction] Invoke\n');
+    expect(text).toContain('  LegacyRole (ApplicationSuite) — role removed\n    − 2 entry point(s) no longer reachable\n');
+    expect(text).toContain('Duties → privileges\n  VendPaymentApprove\n    + VendPaymApprove\n  VendVendorMaintain\n    + VendTableMaintain\n');
+    expect(text).toContain('Privileges → entry points\n');
+    expect(text).toContain('  VendInvoiceView\n    − VendInvoiceArchive (MenuItemDisplay) Read\n');
+  });
+
+  it('compares the role-file and extension links each build stored, sub-roles expanded', async () => {
+    // VendSupervisor grants VendPaymApprove directly and takes VendClerk as a sub-role; the
+    // XML on disk is not read — it says something else entirely.
+    const roleFile = path.join(dir, 'VendSupervisor.xml');
+    fs.writeFileSync(roleFile, '<AxSecurityRole>\n\t<Name>VendSupervisor</Name>\n\t<Privileges>\n' +
+      '\t\t<AxSecurityPrivilegeReference>\n\t\t\t<Name>VendInvoiceView</Name>\n\t\t</AxSecurityPrivilegeReference>\n' +
+      '\t</Privileges>\n</AxSecurityRole>', 'utf-8');
+    const supervisorLinks: Array<[string, string, string, string, string | null]> = [
+      ['role', 'VendSupervisor', 'privilege', 'VendPaymApprove', null],
+      ['role', 'VendSupervisor', 'sub-role', 'VendClerk', null],
+    ];
+    const report = await diffSecuritySnapshots(
+      snapshot('before.db', { ...BEFORE, roleFiles: [['VendSupervisor', roleFile]], links: supervisorLinks }),
+      snapshot('after.db', {
+        ...AFTER,
+        roleFiles: [['VendSupervisor', roleFile]],
+        // The upgrade ships a role extension that gives VendClerk the approval duty.
+        links: [...supervisorLinks, ['role', 'VendClerk', 'duty', 'VendPaymentApprove', 'VendClerk.ContosoExtension']],
+      }));
+
+    expect(report.linksCompared).toBe(true);
+    // The sub-role's duty change reaches the supervisor too; its direct privilege gained an entry point.
+    const supervisor = report.roles.find(r => r.role === 'VendSupervisor')!;
+    expect(supervisor.changed.map(c => c.entryPoint)).toEqual(['VendTable']);
+    expect(supervisor.lost.map(c => c.entryPoint)).toEqual(['VendInvoiceArchive']);
+    expect(supervisor.gained.map(c => c.entryPoint)).toEqual(['VendPaymApproveJournal']);
+    expect(report.roleMembers.find(m => m.name === 'VendSupervisor')).toBeUndefined();
+    // The extension's duty is in "after" only.
+    expect(report.roles.find(r => r.role === 'VendClerk')!.gained.map(c => c.entryPoint)).toEqual(['VendPaymApproveJournal']);
+    expect(report.roleMembers).toContainEqual({ name: 'VendClerk', added: ['VendPaymentApprove'], removed: [] });
+    expect(formatSecurityDiffText(report)).not.toContain('security_links');
+  });
+
+  it('leaves the links out of both sides when one database predates them', async () => {
+    const links: Array<[string, string, string, string, string | null]> = [
+      ['role', 'VendClerk', 'duty', 'VendPaymentApprove', 'VendClerk.ContosoExtension'],
+    ];
+    const report = await diffSecuritySnapshots(snapshot('before.db', BEFORE), snapshot('after.db', { ...AFTER, links }));
+
+    expect(report.linksCompared).toBe(false);
+    expect(report.roles.find(r => r.role === 'VendClerk')!.gained).toEqual([]);
+    expect(formatSecurityDiffText(report)).toContain(
+      `⚠️ ${path.join(dir, 'before.db')} predates the security_links table — privileges granted on a role directly, ` +
+      'sub-roles and role/duty extensions are left out of BOTH sides and NOT compared.');
+  });
+
+  it('reports an unchanged pair as no change and refuses a database without security data', async () => {
+    const same = await diffSecuritySnapshots(snapshot('a.db', BEFORE), snapshot('b.db', BEFORE));
+    expect(formatSecurityDiffText(same)).toContain('No security change.');
+
+    const empty = snapshot('empty.db', { roleDuties: [], dutyPrivileges: [], entries: [] });
+    await expect(diffSecuritySnapshots(empty, snapshot('c.db', BEFORE))).rejects.toThrow('has no role → duty rows');
+  });
+});
@@ -13,6 +13,7 @@ import {
   readModuleReferences,
   packagesRootFromPath,
   buildModelVisibility,
+  addModuleReference,
 } from '../../src/metadata/modelDescriptor';
 
 const descriptorXml = (refs: string[]) => `<?xml version="1.0" encoding="utf-8"?>
@@ -122,3 +123,17 @@ describe('buildModelVisibility', () => {
     });
   });
 });
+
+describe('addModuleReference', () => {
+  it('appends in the indentation of the entries, once', () => {
+    const added = addModuleReference(descriptorXml(['ApplicationSuite']), 'ContosoCore')!;
+    expect(added).toContain('    <d2p1:string>ApplicationSuite</d2p1:string>\n    <d2p1:string>ContosoCore</d2p1:string>\n  </ModuleReferences>');
+    expect(addModuleReference(added, 'contosocore')).toBe(added);
+  });
+
+  it('fills an empty element and refuses a descriptor without one', () => {
+    const empty = '<AxModelInfo>\n\t<ModuleReferences xmlns:d2p1="http://schemas.microsoft.com/2003/10/Serialization/Arrays" />\n</AxModelInfo>';
+    expect(parseModuleReferences(addModuleReference(empty, 'ContosoCore')!)).toEqual(['ContosoCore']);
+    expect(addModuleReference('<AxModelInfo />', 'ContosoCore')).toBeNull();
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Tiles, KPIs and aggregate measurements as first-class symbols.
+ *
+ * d365fo_file could create AxTile / AxKPI / AxAggregateMeasurement objects but
+ * nothing extracted or indexed existing ones, so "which workspace shows this
+ * tile" or "which measure does this KPI score" meant reading XML by hand.
+ * These tests pin the parser (platform XML shapes), the indexer (symbols row,
+ * side tables, tile buttons found in form designs) and the get_object_info
+ * readers for tile, kpi, aggregate-measurement and aggregate-dimension.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { XppMetadataParser } from '../../src/metadata/xmlParser';
+import { XppSymbolIndex } from '../../src/metadata/symbolIndex';
+import { getObjectInfoTool } from '../../src/tools/readers/getObjectInfo';
+import type { XppServerContext } from '../../src/types/context';
+
+const TILE_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxTile xmlns:i="http://www.w3.org/2001/XMLSchema-instance" xmlns="Microsoft.Dynamics.AX.Metadata.V1">
+  <Name>ConDemoOpenNotesTile</Name>
+  <Label>Open notes</Label>
+  <MenuItemName>ConDemoNoteListPage</MenuItemName>
+  <MenuItemType>Display</MenuItemType>
+  <Query>ConDemoOpenNotes</Query>
+  <Size>Wide</Size>
+</AxTile>`;
+
+const KPI_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxKPI xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+  <Name>ConDemoAvgDaysKpi</Name>
+  <Label>Average days to close</Label>
+  <Measurement>ConDemoNoteMeasure</Measurement>
+  <ScoringPattern>LessIsBetter</ScoringPattern>
+  <Goal>
+    <Value>10</Value>
+    <Ranges />
+  </Goal>
+  <Value>
+    <Measure>AvgDaysToClose</Measure>
+    <MeasureGroup>ConDemoNoteGroup</MeasureGroup>
+    <Ranges />
+  </Value>
+</AxKPI>`;
+
+const MEASUREMENT_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxAggregateMeasurement xmlns:i="http://www.w3.org/2001/XMLSchema-instance" xmlns="Microsoft.Dynamics.AX.Metadata.V2">
+  <Name>ConDemoNoteMeasure</Name>
+  <Usage>StagedEntityStore</Usage>
+  <MeasureGroups>
+    <AxMeasureGroup xmlns="">
+      <Name>ConDemoNoteGroup</Name>
+      <Table>ConDemoNoteSummaryEntity</Table>
+      <Attributes>
+        <AxDimensionAttribute>
+          <Name>NoteType</Name>
+          <KeyFields>
+            <AxDimensionFieldReference>
+              <DimensionField>NoteType</DimensionField>
+            </AxDimensionFieldReference>
+          </KeyFields>
+        </AxDimensionAttribute>
+      </Attributes>
+      <Measures>
+        <AxMeasure>
+          <Name>AvgDaysToClose</Name>
+          <DefaultAggregate>AverageOfChildren</DefaultAggregate>
+          <Field>DaysToClose</Field>
+        </AxMeasure>
+      </Measures>
+    </AxMeasureGroup>
+  </MeasureGroups>
+</AxAggregateMeasurement>`;
+
+const DIMENSION_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxAggregateDimension xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+  <Name>ConDemoNoteTypeDim</Name>
+  <Table>ConDemoNoteSummaryEntity</Table>
+  <Attributes>
+    <AxDimensionAttribute>
+      <Name>NoteType</Name>
+      <KeyFields>
+        <AxDimensionFieldReference>
+          <DimensionField>NoteType</DimensionField>
+        </AxDimensionFieldReference>
+      </KeyFields>
+    </AxDimensionAttribute>
+  </Attributes>
+</AxAggregateDimension>`;
+
+/** Extracted form JSON (parseFormFile shape) with a tile button nested in a tab. */
+const WORKSPACE_FORM = {
+  name: 'ConDemoNoteWorkspace',
+  sourcePath: 'C:\\ConDemo\\AxForm\\ConDemoNoteWorkspace.xml',
+  design: [{
+    name: 'PanoramaBody',
+    type: 'Tab',
+    properties: {},
+    children: [{
+      name: 'SummarySection',
+      type: 'TabPage',
+      properties: {},
+      children: [{ name: 'OpenNotesTileButton', type: 'TileButton', properties: { Tile: 'ConDemoOpenNotesTile' }, children: [] }],
+    }],
+  }],
+};
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tile-idx-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function writeTmp(name: string, xml: string): string {
+  const file = path.join(tmpDir, name);
+  fs.writeFileSync(file, xml, 'utf-8');
+  return file;
+}
+
+function writeJson(model: string, folder: string, data: Record<string, unknown>): void {
+  const dir = path.join(tmpDir, 'extracted', model, folder);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, `${data.name}.json`), JSON.stringify(data), 'utf-8');
+}
+
+async function buildIndex(kpiXml = KPI_XML): Promise<XppSymbolIndex> {
+  const parser = new XppMetadataParser();
+  writeJson('ConDemo', 'tiles', (await parser.parseTileFile(writeTmp('t.xml', TILE_XML))).data!);
+  writeJson('ConDemo', 'kpis', (await parser.parseKpiFile(writeTmp('k.xml', kpiXml))).data!);
+  writeJson('ConDemo', 'aggregate-measurements', (await parser.parseAggregateMeasurementFile(writeTmp('m.xml', MEASUREMENT_XML))).data!);
+  writeJson('ConDemo', 'aggregate-dimensions', (await parser.parseAggregateDimensionFile(writeTmp('d.xml', DIMENSION_XML))).data!);
+  writeJson('ConDemo', 'forms', WORKSPACE_FORM);
+
+  const index = new XppSymbolIndex(':memory:', ':memory:');
+  await index.indexMetadataDirectory(path.join(tmpDir, 'extracted'));
+  return index;
+}
+
+const ctx = (index: XppSymbolIndex): XppServerContext => ({
+  symbolIndex: index,
+  parser: {} as any,
+  cache: {} as any,
+  workspaceScanner: {} as any,
+  hybridSearch: {} as any,
+});
+
+const call = (args: Record<string, unknown>) => ({
+  method: 'tools/call' as const,
+  params: { name: 'get_object_info', arguments: args },
+});
+
+describe('tile / KPI / aggregate XML parsing', () => {
+  it('reads the menu item and count query of a tile', async () => {
+    const result = await new XppMetadataParser().parseTileFile(writeTmp('t.xml', TILE_XML));
+    expect(result.data).toMatchObject({
+      name: 'ConDemoOpenNotesTile',
+      menuItemName: 'ConDemoNoteListPage',
+      menuItemType: 'Display',
+      query: 'ConDemoOpenNotes',
+      size: 'Wide',
+    });
+  });
+
+  it('reads the nested Value and Goal of a KPI', async () => {
+    const result = await new XppMetadataParser().parseKpiFile(writeTmp('k.xml', KPI_XML));
+    expect(result.data).toMatchObject({
+      measurement: 'ConDemoNoteMeasure',
+      measure: 'AvgDaysToClose',
+      measureGroup: 'ConDemoNoteGroup',
+      goal: '10',
+      scoringPattern: 'LessIsBetter',
+    });
+  });
+
+  it('reads measure groups with measures and attribute key fields', async () => {
+    const result = await new XppMetadataParser().parseAggregateMeasurementFile(writeTmp('m.xml', MEASUREMENT_XML));
+    expect(result.data!.measureGroups).toEqual([{
+      name: 'ConDemoNoteGroup',
+      table: 'ConDemoNoteSummaryEntity',
+      measures: [{ name: 'AvgDaysToClose', field: 'DaysToClose', defaultAggregate: 'AverageOfChildren' }],
+      attributes: [{ name: 'NoteType', keyFields: ['NoteType'] }],
+    }]);
+  });
+
+  it('refuses a file of another element type', async () => {
+    const result = await new XppMetadataParser().parseKpiFile(writeTmp('t.xml', TILE_XML));
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('tile / KPI / aggregate indexing', () => {
+  it('indexes each artifact under its own symbol type', async () => {
+    const index = await buildIndex();
+    const rows = index.getReadDb()
+      .prepare(`SELECT name, type, signature FROM symbols WHERE type IN ('tile', 'kpi', 'aggregate-measurement', 'aggregate-dimension') ORDER BY type`)
+      .all() as Array<{ name: string; type: string; signature: string }>;
+
+    expect(rows).toEqual([
+      { name: 'ConDemoNoteTypeDim', type: 'aggregate-dimension', signature: 'ConDemoNoteSummaryEntity' },
+      { name: 'ConDemoNoteMeasure', type: 'aggregate-measurement', signature: 'StagedEntityStore' },
+      { name: 'ConDemoAvgDaysKpi', type: 'kpi', signature: 'ConDemoNoteMeasure' },
+      { name: 'ConDemoOpenNotesTile', type: 'tile', signature: 'ConDemoOpenNotes' },
+    ]);
+    index.close();
+  });
+
+  it('records tile buttons nested anywhere in a form design', async () => {
+    const index = await buildIndex();
+    const rows = index.getReadDb()
+      .prepare('SELECT form_name, control_name, tile_name FROM form_tile_controls')
+      .all();
+    expect(rows).toEqual([
+      { form_name: 'ConDemoNoteWorkspace', control_name: 'OpenNotesTileButton', tile_name: 'ConDemoOpenNotesTile' },
+    ]);
+    index.close();
+  });
+
+  it('clears the side tables with the model', async () => {
+    const index = await buildIndex();
+    index.clearModels(['ConDemo']);
+    const db = index.getReadDb();
+    for (const table of ['tiles', 'kpis', 'form_tile_controls', 'aggregate_measure_groups', 'aggregate_dimensions']) {
+      expect((db.prepare(`SELECT COUNT(*) AS n FROM ${table}`).get() as { n: number }).n).toBe(0);
+    }
+    index.close();
+  });
+});
+
+describe('get_object_info readers', () => {
+  it('tile: shows menu item, count query and the workspaces placing it', async () => {
+    const index = await buildIndex();
+    const res = await getObjectInfoTool(call({ objectType: 'tile', name: 'ConDemoOpenNotesTile' }), ctx(index));
+    const text = res.content[0].text;
+
+    expect(res.isError).toBeFalsy();
+    expect(text).toContain('# AxTile: `ConDemoOpenNotesTile`');
+    expect(text).toContain('- Menu item: `ConDemoNoteListPage` (Display)');
+    expect(text).toContain('- Count query: `ConDemoOpenNotes`');
+    expect(text).toContain('| `ConDemoNoteWorkspace` | OpenNotesTileButton | ConDemo |');
+    index.close();
+  });
+
+  it('kpi: resolves the measure against the measurement', async () => {
+    const index = await buildIndex();
+    const res = await getObjectInfoTool(call({ objectType: 'kpi', name: 'ConDemoAvgDaysKpi' }), ctx(index));
+    const text = res.content[0].text;
+
+    expect(res.isError).toBeFalsy();
+    expect(text).toContain('- Aggregate measurement: `ConDemoNoteMeasure`');
+    expect(text).toContain('- Fact table: `ConDemoNoteSummaryEntity`');
+    expect(text).toContain('- Measure field: `DaysToClose` (AverageOfChildren)');
+    expect(text).not.toContain('⚠️');
+    index.close();
+  });
+
+  it('kpi: resolves a measurement, group and measure written in another casing', async () => {
+    const index = await buildIndex(KPI_XML
+      .replace('<Measurement>ConDemoNoteMeasure<', '<Measurement>condemonotemeasure<')
+      .replace('<Measure>AvgDaysToClose<', '<Measure>avgDaysToClose<')
+      .replace('<MeasureGroup>ConDemoNoteGroup<', '<MeasureGroup>CONDEMONOTEGROUP<'));
+    const kpi = (await getObjectInfoTool(call({ objectType: 'kpi', name: 'ConDemoAvgDaysKpi' }), ctx(index))).content[0].text;
+    expect(kpi).toContain('- Measure field: `DaysToClose` (AverageOfChildren)');
+    expect(kpi).not.toContain('⚠️');
+
+    const measurement = (await getObjectInfoTool(call({ objectType: 'aggregate-measurement', name: 'ConDemoNoteMeasure' }), ctx(index))).content[0].text;
+    expect(measurement).toContain('## KPIs (1)');
+    index.close();
+  });
+
+  it('aggregate-measurement: lists measure groups, measures and scoring KPIs', async () => {
+    const index = await buildIndex();
+    const res = await getObjectInfoTool(call({ objectType: 'aggregate-measurement', name: 'ConDemoNoteMeasure' }), ctx(index));
+    const text = res.content[0].text;
+
+    expect(res.isError).toBeFalsy();
+    expect(text).toContain('### `ConDemoNoteGroup` → table `ConDemoNoteSummaryEntity`');
+    expect(text).toContain('| AvgDaysToClose | `DaysToClose` | AverageOfChildren |');
+    expect(text).toContain('- `ConDemoAvgDaysKpi` — ConDemoNoteGroup.AvgDaysToClose (ConDemo)');
+    index.close();
+  });
+
+  it('aggregate-dimension: shows the table, attributes and measure groups on it', async () => {
+    const index = await buildIndex();
+    const res = await getObjectInfoTool(call({ objectType: 'aggregate-dimension', name: 'ConDemoNoteTypeDim' }), ctx(index));
+    const text = res.content[0].text;
+
+    expect(res.isError).toBeFalsy();
+    expect(text).toContain('**Table:** `ConDemoNoteSummaryEntity`');
+    expect(text).toContain('- NoteType — key `NoteType`');
+    expect(text).toContain('- `ConDemoNoteMeasure` / ConDemoNoteGroup');
+    index.close();
+  });
+
+  it('reports an unknown tile as not found', async () => {
+    const index = await buildIndex();
+    const res = await getObjectInfoTool(call({ objectType: 'tile', name: 'Nope' }), ctx(index));
+    expect(res.isError).toBe(true);
+    expect(res.content[0].text).toContain('not found');
+    index.close();
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Workflow artifacts as first-class symbols.
+ *
+ * AxWorkflowType / AxWorkflowApproval / AxWorkflowTask / AxWorkflowCategory
+ * were never extracted or indexed, so nothing could answer "which workflow type
+ * uses this document class / submit menu item". These tests pin the three
+ * links of the chain: the parser reads the standard XML shapes, the indexer
+ * fills the symbols row plus the workflow side tables, and
+ * get_object_info(objectType="workflow-type") reconstructs the type with its
+ * approvals and tasks — and answers the reverse lookup.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { XppMetadataParser } from '../../src/metadata/xmlParser';
+import { XppSymbolIndex } from '../../src/metadata/symbolIndex';
+import { getObjectInfoTool } from '../../src/tools/readers/getObjectInfo';
+import type { XppServerContext } from '../../src/types/context';
+
+const WORKFLOW_TYPE_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxWorkflowType xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+  <Name>ConDemoNoteWfType</Name>
+  <Label>Note approval</Label>
+  <CancelMenuItem>ConDemoNoteWfCancel</CancelMenuItem>
+  <Category>ConDemoNoteWfCategory</Category>
+  <CompletedEventHandler>ConDemoNoteWfTypeEventHandler</CompletedEventHandler>
+  <Document>ConDemoNoteWfDocument</Document>
+  <DocumentMenuItem>ConDemoNoteTable</DocumentMenuItem>
+  <ResubmitMenuItem>ConDemoNoteWfResubmit</ResubmitMenuItem>
+  <StartedEventHandler>ConDemoNoteWfTypeEventHandler</StartedEventHandler>
+  <SubmitToWorkflowMenuItem>ConDemoNoteWfSubmit</SubmitToWorkflowMenuItem>
+  <SupportedElements>
+    <AxWorkflowTypeSupportedElement>
+      <Name>ConDemoNoteWfApproval</Name>
+      <ElementName>ConDemoNoteWfApproval</ElementName>
+      <Type>Approval</Type>
+    </AxWorkflowTypeSupportedElement>
+    <AxWorkflowTypeSupportedElement>
+      <Name>ConDemoNoteWfTask</Name>
+      <ElementName>ConDemoNoteWfTask</ElementName>
+      <Type>Task</Type>
+    </AxWorkflowTypeSupportedElement>
+  </SupportedElements>
+</AxWorkflowType>`;
+
+const WORKFLOW_APPROVAL_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxWorkflowApproval xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+  <Name>ConDemoNoteWfApproval</Name>
+  <CanceledEventHandler>ConDemoNoteWfApprovalEventHandler</CanceledEventHandler>
+  <Document>ConDemoNoteWfDocument</Document>
+  <Label>Approve note</Label>
+  <Outcomes>
+    <AxWorkflowApprovalOutcome>
+      <Name>Approve</Name>
+      <ActionMenuItem>ConDemoNoteWfApprove</ActionMenuItem>
+      <EventHandler>ConDemoNoteWfApprovalEventHandler</EventHandler>
+      <Type>Complete</Type>
+    </AxWorkflowApprovalOutcome>
+    <AxWorkflowApprovalOutcome>
+      <Name>Reject</Name>
+      <ActionMenuItem>ConDemoNoteWfReject</ActionMenuItem>
+      <Type>Return</Type>
+    </AxWorkflowApprovalOutcome>
+  </Outcomes>
+</AxWorkflowApproval>`;
+
+const WORKFLOW_CATEGORY_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxWorkflowCategory xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+  <Name>ConDemoNoteWfCategory</Name>
+  <Label>Notes</Label>
+  <Module>SalesOrder</Module>
+</AxWorkflowCategory>`;
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'wf-idx-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function writeTmp(name: string, xml: string): string {
+  const file = path.join(tmpDir, name);
+  fs.writeFileSync(file, xml, 'utf-8');
+  return file;
+}
+
+function writeJson(model: string, folder: string, data: Record<string, unknown>): void {
+  const dir = path.join(tmpDir, 'extracted', model, folder);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, `${data.name}.json`), JSON.stringify(data), 'utf-8');
+}
+
+async function buildIndex(): Promise<XppSymbolIndex> {
+  const parser = new XppMetadataParser();
+  const type = await parser.parseWorkflowTypeFile(writeTmp('t.xml', WORKFLOW_TYPE_XML));
+  const approval = await parser.parseWorkflowElementFile(writeTmp('a.xml', WORKFLOW_APPROVAL_XML), 'approval');
+  const category = await parser.parseWorkflowCategoryFile(writeTmp('c.xml', WORKFLOW_CATEGORY_XML));
+  writeJson('ConDemo', 'workflow-types', type.data!);
+  writeJson('ConDemo', 'workflow-approvals', approval.data!);
+  writeJson('ConDemo', 'workflow-categories', category.data!);
+
+  const index = new XppSymbolIndex(':memory:', ':memory:');
+  await index.indexMetadataDirectory(path.join(tmpDir, 'extracted'));
+  return index;
+}
+
+const ctx = (index: XppSymbolIndex): XppServerContext => ({
+  symbolIndex: index,
+  parser: {} as any,
+  cache: {} as any,
+  workspaceScanner: {} as any,
+  hybridSearch: {} as any,
+});
+
+const call = (args: Record<string, unknown>) => ({
+  method: 'tools/call' as const,
+  params: { name: 'get_object_info', arguments: args },
+});
+
+describe('workflow XML parsing', () => {
+  it('reads document, category, menu items, handlers and supported elements of a type', async () => {
+    const result = await new XppMetadataParser().parseWorkflowTypeFile(writeTmp('t.xml', WORKFLOW_TYPE_XML));
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      name: 'ConDemoNoteWfType',
+      document: 'ConDemoNoteWfDocument',
+      category: 'ConDemoNoteWfCategory',
+      documentMenuItem: 'ConDemoNoteTable',
+      submitMenuItem: 'ConDemoNoteWfSubmit',
+      cancelMenuItem: 'ConDemoNoteWfCancel',
+    });
+    expect(result.data!.eventHandlers).toEqual([
+      { event: 'Completed', handler: 'ConDemoNoteWfTypeEventHandler' },
+      { event: 'Started', handler: 'ConDemoNoteWfTypeEventHandler' },
+    ]);
+    expect(result.data!.supportedElements).toEqual([
+      { name: 'ConDemoNoteWfApproval', elementType: 'Approval' },
+      { name: 'ConDemoNoteWfTask', elementType: 'Task' },
+    ]);
+  });
+
+  it('reads approval outcomes with their action menu items', async () => {
+    const result = await new XppMetadataParser().parseWorkflowElementFile(writeTmp('a.xml', WORKFLOW_APPROVAL_XML), 'approval');
+
+    expect(result.success).toBe(true);
+    expect(result.data!.outcomes.map(o => [o.name, o.actionMenuItem])).toEqual([
+      ['Approve', 'ConDemoNoteWfApprove'],
+      ['Reject', 'ConDemoNoteWfReject'],
+    ]);
+    expect(result.data!.eventHandlers).toEqual([{ event: 'Canceled', handler: 'ConDemoNoteWfApprovalEventHandler' }]);
+  });
+
+  it('refuses a file of the wrong element kind', async () => {
+    const result = await new XppMetadataParser().parseWorkflowElementFile(writeTmp('a.xml', WORKFLOW_APPROVAL_XML), 'task');
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('workflow artifact indexing', () => {
+  it('indexes each artifact under its own symbol type', async () => {
+    const index = await buildIndex();
+    const rows = index.getReadDb()
+      .prepare(`SELECT name, type, signature FROM symbols WHERE type LIKE 'workflow-%' ORDER BY type`)
+      .all() as Array<{ name: string; type: string; signature: string }>;
+
+    expect(rows).toEqual([
+      { name: 'ConDemoNoteWfApproval', type: 'workflow-approval', signature: 'ConDemoNoteWfDocument' },
+      { name: 'ConDemoNoteWfCategory', type: 'workflow-category', signature: 'SalesOrder' },
+      { name: 'ConDemoNoteWfType', type: 'workflow-type', signature: 'ConDemoNoteWfDocument' },
+    ]);
+    index.close();
+  });
+
+  it('makes the workflow type searchable by its submit menu item', async () => {
+    const index = await buildIndex();
+    const hits = index.searchSymbols('ConDemoNoteWfSubmit', 10, ['workflow-type']);
+    expect(hits.map(h => h.name)).toContain('ConDemoNoteWfType');
+    index.close();
+  });
+
+  it('clears the workflow side tables with the model', async () => {
+    const index = await buildIndex();
+    index.clearModels(['ConDemo']);
+    const db = index.getReadDb();
+    for (const table of ['workflow_types', 'workflow_elements', 'workflow_type_elements']) {
+      expect((db.prepare(`SELECT COUNT(*) AS n FROM ${table}`).get() as { n: number }).n).toBe(0);
+    }
+    index.close();
+  });
+});
+
+describe('get_object_info(objectType="workflow-type")', () => {
+  it('shows document class, category, menu items, handlers and linked elements', async () => {
+    const index = await buildIndex();
+    const res = await getObjectInfoTool(call({ objectType: 'workflow-type', name: 'ConDemoNoteWfType' }), ctx(index));
+    const text = res.content[0].text;
+
+    expect(res.isError).toBeFalsy();
+    expect(text).toContain('# AxWorkflowType: `ConDemoNoteWfType`');
+    expect(text).toContain('**Document class:** `ConDemoNoteWfDocument`');
+    expect(text).toContain('**Category:** `ConDemoNoteWfCategory`');
+    expect(text).toContain('Submit to workflow: `ConDemoNoteWfSubmit`');
+    expect(text).toContain('Started: `ConDemoNoteWfTypeEventHandler`');
+    expect(text).toContain('### Approval: `ConDemoNoteWfApproval`');
+    expect(text).toContain('| Approve | Complete | `ConDemoNoteWfApprove` |');
+    // The task is linked but its model was not built — say so, do not drop it.
+    expect(text).toContain('### Task: `ConDemoNoteWfTask`');
+    expect(text).toContain('not indexed');
+    index.close();
+  });
+
+  it('answers the reverse lookup for a document class', async () => {
+    const index = await buildIndex();
+    const res = await getObjectInfoTool(call({ objectType: 'workflow-type', name: 'ConDemoNoteWfDocument' }), ctx(index));
+    const text = res.content[0].text;
+
+    expect(res.isError).toBeFalsy();
+    expect(text).toContain('| `ConDemoNoteWfType` | document class | ConDemo |');
+    index.close();
+  });
+
+  it('answers the reverse lookup for a resubmit menu item in any casing', async () => {
+    const index = await buildIndex();
+    const res = await getObjectInfoTool(call({ objectType: 'workflow-type', name: 'condemonotewfresubmit' }), ctx(index));
+    const text = res.content[0].text;
+
+    expect(res.isError).toBeFalsy();
+    expect(text).toContain('| `ConDemoNoteWfType` | resubmit menu item | ConDemo |');
+    index.close();
+  });
+
+  it('reports an unknown name as not found', async () => {
+    const index = await buildIndex();
+    const res = await getObjectInfoTool(call({ objectType: 'workflow-type', name: 'Nope' }), ctx(index));
+    expect(res.isError).toBe(true);
+    expect(res.content[0].text).toContain('not found');
+    index.close();
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * d365fo_file(action="changeset") — create/modify/label writes across objects,
+ * gated up front and rolled back as a unit when one of them fails.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { CallToolRequest } from '@modelcontextprotocol/sdk/types.js';
+import { changeSetTool, planChangeSet } from '../../src/tools/write/changeSet';
+import { INDEX_UPSERT_FAILED } from '../../src/tools/write/inlineIndexUpsert';
+import {
+  captureJournalPreImage, readJournal, runWithChangeScope, setChangeJournalRoot,
+} from '../../src/workspace/changeJournal';
+
+vi.mock('../../src/utils/configManager', () => ({
+  getConfigManager: vi.fn(() => ({
+    getModelName: vi.fn(() => null),
+  })),
+}));
+
+const context = {
+  symbolIndex: {
+    removeSymbolsByFile: vi.fn(() => ({ deletedCount: 0 })),
+    removeLabelsByFile: vi.fn(() => 0),
+  },
+} as any;
+
+let tmpDir: string;
+let modelDir: string;
+
+function file(...parts: string[]): string {
+  return path.join(modelDir, ...parts);
+}
+
+function read(filePath: string): string | null {
+  return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+}
+
+/** A handler stand-in that writes like the real ones: capture, then write. */
+function writer(pathOf: (args: any) => string, contentOf: (args: any) => string, calls: string[]) {
+  return vi.fn(async (req: CallToolRequest) => {
+    const args = req.params.arguments as any;
+    calls.push(`${req.params.name} ${args.objectName ?? args.labelId}${args.operation ? ` ${args.operation}` : ''}`);
+    const target = pathOf(args);
+    await captureJournalPreImage(target);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, contentOf(args));
+    return { content: [{ type: 'text', text: `✅ wrote ${path.basename(target)}` }] };
+  });
+}
+
+const FEATURE = {
+  modelName: 'ContosoExt',
+  changes: [
+    { action: 'label', labelId: 'WarrantyDays', labelFileId: 'ContosoExt', translations: [{ language: 'en-US', text: 'Warranty days' }] },
+    { action: 'create', objectType: 'table-extension', objectName: 'CustTable.ContosoExt' },
+    {
+      action: 'modify', objectType: 'table-extension', objectName: 'CustTable.ContosoExt',
+      operations: [{ operation: 'add-field', params: { fieldName: 'WarrantyDays' } }, { operation: 'add-field-to-field-group' }],
+    },
+    { action: 'modify', objectType: 'class', objectName: 'ContosoWarranty', operation: 'add-method' },
+  ],
+};
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'change-set-'));
+  modelDir = path.join(tmpDir, 'ContosoExt', 'ContosoExt');
+  fs.mkdirSync(file('AxClass'), { recursive: true });
+  fs.mkdirSync(file('AxLabelFile'), { recursive: true });
+  fs.writeFileSync(file('AxClass', 'ContosoWarranty.xml'), 'class v1');
+  fs.writeFileSync(file('AxLabelFile', 'ContosoExt.en-US.label.txt'), 'Existing=Existing\n');
+});
+
+afterEach(() => {
+  setChangeJournalRoot(null);
+  try { fs.rmSync(tmpDir, { recursive: true, force: true }); } catch { /* ignore */ }
+});
+
+function runners(calls: string[], failOn?: (args: any) => any) {
+  const runCreate = writer(a => file('AxTableExtension', `${a.objectName}.xml`), () => '<AxTableExtension />', calls);
+  const modifyWrite = writer(
+    a => file(a.objectType === 'class' ? 'AxClass' : 'AxTableExtension', `${a.objectName}.xml`),
+    a => `modified by ${a.operation}`,
+    calls,
+  );
+  const runModify = vi.fn(async (req: CallToolRequest, ctx: any) => {
+    const result = await modifyWrite(req, ctx);
+    return failOn?.(req.params.arguments) ?? result;
+  });
+  const runLabel = writer(() => file('AxLabelFile', 'ContosoExt.en-US.label.txt'), a => `Existing=Existing\n${a.labelId}=Warranty days\n`, calls);
+  return { runCreate, runModify, runLabel };
+}
+
+describe('change set — planning', () => {
+  it('flattens entries into steps, sharing top-level keys and expanding operations[]', () => {
+    const { steps, problems } = planChangeSet(FEATURE);
+    expect(problems).toEqual([]);
+    expect(steps.map(s => s.label)).toEqual([
+      '#1 label WarrantyDays',
+      '#2 create table-extension CustTable.ContosoExt',
+      '#3 modify table-extension CustTable.ContosoExt (add-field)',
+      '#4 modify table-extension CustTable.ContosoExt (add-field-to-field-group)',
+      '#5 modify class ContosoWarranty (add-method)',
+    ]);
+    expect(steps[0].args).toMatchObject({ model: 'ContosoExt', labelId: 'WarrantyDays' });
+    expect(steps[2].args).toMatchObject({
+      modelName: 'ContosoExt', fieldName: 'WarrantyDays', peerOperations: ['add-field', 'add-field-to-field-group'],
+    });
+    expect(steps[2].args).not.toHaveProperty('operations');
+  });
+
+  it('reports every malformed entry', () => {
+    const { problems } = planChangeSet({
+      changes: [{ action: 'delete', objectType: 'class', objectName: 'A' }, { action: 'modify', objectType: 'class', objectName: 'B' }, 'x'],
+    });
+    expect(problems).toEqual([
+      'changes[0]: action must be "create", "modify" or "label" (got "delete") — delete and generate do not run in a change set.',
+      'changes[1]: modify needs an `operation`.',
+      'changes[2]: not an object — expected { action, objectType, objectName, … }',
+    ]);
+  });
+});
+
+describe('change set — applying', () => {
+  it('applies every step in order', async () => {
+    const calls: string[] = [];
+    const { runCreate, runModify, runLabel } = runners(calls);
+    const result = await changeSetTool(FEATURE, context, runCreate, runModify, runLabel);
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].text).toContain('✅ d365fo_file(action="changeset") — 5 step(s) applied across 2 object(s).');
+    expect(calls).toEqual([
+      'create_label WarrantyDays',
+      'create_d365fo_file CustTable.ContosoExt',
+      'modify_d365fo_file CustTable.ContosoExt add-field',
+      'modify_d365fo_file CustTable.ContosoExt add-field-to-field-group',
+      'modify_d365fo_file ContosoWarranty add-method',
+    ]);
+    expect(read(file('AxClass', 'ContosoWarranty.xml'))).toBe('modified by add-method');
+  });
+
+  it('refuses the whole set when one step would fail its gate, before writing anything', async () => {
+    const calls: string[] = [];
+    const { runCreate, runModify, runLabel } = runners(calls);
+    const result = await changeSetTool({
+      changes: [
+        ...FEATURE.changes,
+        { action: 'create', objectType: 'form-extension', objectName: 'CustTable.ContosoExt', xmlContent: '<AxFormControlExtension />' },
+      ],
+    }, context, runCreate, runModify, runLabel);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('1 of 6 step(s) would be refused; nothing was written.');
+    expect(result.content[0].text).toContain('### ❌ #6 create form-extension CustTable.ContosoExt');
+    expect(calls).toEqual([]);
+  });
+
+  it('rolls every file back when a write fails, and skips the steps after it', async () => {
+    const calls: string[] = [];
+    const { runCreate, runModify, runLabel } = runners(calls, a => (a.operation === 'add-field-to-field-group'
+      ? { content: [{ type: 'text', text: '❌ field group not found' }], isError: true }
+      : undefined));
+    const result = await changeSetTool(FEATURE, context, runCreate, runModify, runLabel);
+    const text = result.content[0].text;
+    expect(result.isError).toBe(true);
+    expect(text).toContain('#4 modify table-extension CustTable.ContosoExt (add-field-to-field-group) failed (the write failed); ' +
+      'rolled back, nothing from this change set is applied.');
+    expect(text).toContain('Rolled back: CustTable.ContosoExt.xml (deleted), ContosoExt.en-US.label.txt (restored)');
+    expect(text).toContain('1 later step(s) not attempted.');
+    expect(read(file('AxTableExtension', 'CustTable.ContosoExt.xml'))).toBeNull();
+    expect(read(file('AxLabelFile', 'ContosoExt.en-US.label.txt'))).toBe('Existing=Existing\n');
+    expect(read(file('AxClass', 'ContosoWarranty.xml'))).toBe('class v1');
+  });
+
+  it('treats a failed index upsert as a failed step', async () => {
+    const calls: string[] = [];
+    const { runCreate, runModify, runLabel } = runners(calls, a => (a.operation === 'add-method'
+      ? { content: [{ type: 'text', text: `✅ modified\n${INDEX_UPSERT_FAILED}: parse error` }] }
+      : undefined));
+    const result = await changeSetTool(FEATURE, context, runCreate, runModify, runLabel);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('failed (the symbol index upsert failed)');
+    expect(read(file('AxClass', 'ContosoWarranty.xml'))).toBe('class v1');
+  });
+
+  it('leaves nothing in the change journal when it rolls back', async () => {
+    setChangeJournalRoot(path.join(tmpDir, 'journal'));
+    const calls: string[] = [];
+    const { runCreate, runModify, runLabel } = runners(calls, a => (a.operation === 'add-method'
+      ? { content: [{ type: 'text', text: '❌ no' }], isError: true }
+      : undefined));
+    await runWithChangeScope({ tool: 'd365fo_file', summary: 'changeset' },
+      () => changeSetTool(FEATURE, context, runCreate, runModify, runLabel));
+    expect(await readJournal('ContosoExt')).toEqual([]);
+  });
+});
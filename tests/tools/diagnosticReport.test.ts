@@ -0,0 +1,110 @@
+/**
+ * outputFormat of run_bp_check / build_d365fo_project — the findings the tools'
+ * own parsers produce, as the SARIF, JUnit and JSON a pipeline publishes.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseXppcDiagnostics } from '../../src/tools/sdlc/buildProject';
+import { parseBpFindings } from '../../src/tools/sdlc/runBpCheck';
+import {
+  bpDiagnostics,
+  isDiagnosticOutputFormat,
+  renderDiagnosticReport,
+  xppcDiagnostics,
+  type DiagnosticReport,
+} from '../../src/tools/sdlc/diagnosticReport';
+
+/** Real xppbp plain-text shapes, as in tests/tools/runBpCheckFindings.test.ts. */
+const BP_OUTPUT =
+  'BPErrorTableMissingFormRef: K:\\Pkg\\Contoso\\Contoso\\AxTable\\ConDemoTicket.xml\n' +
+  'BPWarningTableFieldGroupEmpty: K:\\Pkg\\Contoso\\Contoso\\AxTable\\ConDemoLine.xml\n' +
+  'BPError: LocalVariableNotUsed\n' +
+  'Errors: 2\n';
+
+const XPPC_LOG =
+  "Compile Error: Class Method dynamics://MyModel/MyClass/myMethod: [(28,27),(28,28)]: ';' expected.\n" +
+  "Compile Warning: Class Method dynamics://MyModel/MyClass/other: [(7,5)]: The 'Server' keyword has been deprecated.\n";
+
+function bpReport(): DiagnosticReport {
+  return {
+    tool: 'xppbp',
+    model: 'Contoso',
+    runs: [{ name: 'Contoso', diagnostics: bpDiagnostics(parseBpFindings(BP_OUTPUT), 'Contoso') }],
+  };
+}
+
+describe('diagnostic report — from the tools\' findings', () => {
+  it('takes the severity from the BP name family and the object from the target', () => {
+    const diags = bpDiagnostics(parseBpFindings(BP_OUTPUT), 'Contoso');
+    expect(diags.map(d => [d.rule, d.severity, d.object])).toEqual([
+      ['BPErrorTableMissingFormRef', 'error', 'ConDemoTicket'],
+      ['BPWarningTableFieldGroupEmpty', 'warning', 'ConDemoLine'],
+      ['LocalVariableNotUsed', 'error', 'Contoso'],
+    ]);
+    expect(diags[0].file).toBe('K:\\Pkg\\Contoso\\Contoso\\AxTable\\ConDemoTicket.xml');
+  });
+
+  it('locates a compiler diagnostic by model, object and member', () => {
+    const [error] = xppcDiagnostics(parseXppcDiagnostics(XPPC_LOG), 'MyModel');
+    expect(error).toMatchObject({
+      rule: 'XppcError',
+      severity: 'error',
+      object: 'MyClass',
+      logicalLocation: 'MyModel/MyClass/myMethod',
+      line: 28,
+      column: 27,
+    });
+  });
+
+  it('accepts only the three formats', () => {
+    expect(isDiagnosticOutputFormat('junit')).toBe(true);
+    expect(isDiagnosticOutputFormat('xml')).toBe(false);
+  });
+});
+
+describe('diagnostic report — formats', () => {
+  it('writes SARIF with a file URI for an xppbp path and a logical location otherwise', () => {
+    const log = JSON.parse(renderDiagnosticReport(bpReport(), 'sarif'));
+    expect(log.version).toBe('2.1.0');
+    const [missingRef, , unnamed] = log.runs[0].results;
+    expect(missingRef.level).toBe('error');
+    expect(missingRef.locations[0].physicalLocation.artifactLocation.uri)
+      .toBe('file:///K:/Pkg/Contoso/Contoso/AxTable/ConDemoTicket.xml');
+    expect(unnamed.locations[0].logicalLocations[0].fullyQualifiedName).toBe('Contoso');
+
+    const build = JSON.parse(renderDiagnosticReport({
+      tool: 'xppc',
+      model: 'MyModel',
+      runs: [{ name: 'MyModel', diagnostics: xppcDiagnostics(parseXppcDiagnostics(XPPC_LOG), 'MyModel') }],
+    }, 'sarif'));
+    expect(build.runs[0].tool.driver.name).toBe('xppc');
+    expect(build.runs[0].results[0].locations[0].logicalLocations[0].fullyQualifiedName).toBe('MyModel/MyClass/myMethod');
+  });
+
+  it('writes one JUnit case per object — failed on an error, warnings in its output', () => {
+    const xml = renderDiagnosticReport(bpReport(), 'junit');
+    expect(xml).toContain('<testsuites tests="3" failures="2" errors="0">');
+    expect(xml).toContain('<testcase name="ConDemoTicket" classname="xppbp.Contoso">');
+    expect(xml).toContain('<failure message="BPErrorTableMissingFormRef: ');
+    expect(xml).toContain('<system-out>warning BPWarningTableFieldGroupEmpty: ');
+  });
+
+  it('reports a clean run as one passing case and a run that never happened as a failure', () => {
+    const xml = renderDiagnosticReport({
+      tool: 'xppbp',
+      model: 'Contoso',
+      runs: [
+        { name: 'ConDemoTicket', diagnostics: [] },
+        { name: 'ConDemoLine', diagnostics: [], notRun: 'xppbp printed no summary.' },
+      ],
+    }, 'junit');
+    expect(xml).toContain('<testcase name="ConDemoTicket" classname="xppbp.Contoso" />');
+    expect(xml).toContain('<failure message="NotChecked: xppbp printed no summary." type="NotChecked">');
+  });
+
+  it('counts errors and warnings in the JSON report', () => {
+    const json = JSON.parse(renderDiagnosticReport(bpReport(), 'json'));
+    expect(json).toMatchObject({ schemaVersion: 1, tool: 'xppbp', model: 'Contoso', errors: 2, warnings: 1 });
+    expect(json.runs[0].diagnostics).toHaveLength(3);
+  });
+});
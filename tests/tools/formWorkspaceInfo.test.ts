@@ -0,0 +1,229 @@
+/**
+ * get_object_info(objectType="form", options={mode:"workspace"}).
+ *
+ * The plain form reader dumps an operational workspace as a control tree. The
+ * workspace view rebuilds it as tiles (with count query), list panels (part
+ * form + datasource) and link groups, and flags every tile or part whose menu
+ * item no indexed role reaches — the chain security_info(mode="coverage")
+ * follows, so such an entry point is hidden for every role.
+ *
+ * Driven through the explicit-filePath bypass against a real in-memory index.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// pathContainment has its own suites; here it would only force every fixture
+// path to sit under a real package root.
+vi.mock('../../src/utils/pathContainment.js', () => ({
+  assertWritePathAllowed: vi.fn(async () => ({ ok: true })),
+}));
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { XppSymbolIndex } from '../../src/metadata/symbolIndex';
+import { getFormInfoTool } from '../../src/tools/readers/formInfo';
+import type { XppServerContext } from '../../src/types/context';
+
+const WORKSPACE_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxForm xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+  <Name>ConDemoNoteWorkspace</Name>
+  <DataSources>
+    <AxFormDataSource xmlns="">
+      <Name>ConDemoNoteTable</Name>
+      <Table>ConDemoNoteTable</Table>
+    </AxFormDataSource>
+  </DataSources>
+  <Design>
+    <Pattern xmlns="">WorkspaceOperational</Pattern>
+    <PatternVersion xmlns="">1.1</PatternVersion>
+    <Controls xmlns="">
+      <AxFormControl xmlns="" i:type="AxFormActionPaneControl">
+        <Name>ActionPane</Name>
+        <Type>ActionPane</Type>
+        <Controls>
+          <AxFormControl xmlns="" i:type="AxFormMenuFunctionButtonControl">
+            <Name>ConfigureButton</Name>
+            <Type>MenuFunctionButton</Type>
+            <MenuItemName>ConDemoNoteParameters</MenuItemName>
+          </AxFormControl>
+        </Controls>
+      </AxFormControl>
+      <AxFormControl xmlns="" i:type="AxFormTabControl">
+        <Name>PanoramaBody</Name>
+        <Type>Tab</Type>
+        <Controls>
+          <AxFormControl xmlns="" i:type="AxFormTabPageControl">
+            <Name>SummaryTabPage</Name>
+            <Type>TabPage</Type>
+            <Controls>
+              <AxFormControl xmlns="" i:type="AxFormTileButtonControl">
+                <Name>OpenNotesTile</Name>
+                <Type>TileButton</Type>
+                <Tile>ConDemoOpenNotesTile</Tile>
+              </AxFormControl>
+              <AxFormControl xmlns="" i:type="AxFormTileButtonControl">
+                <Name>LateNotesTile</Name>
+                <Type>TileButton</Type>
+                <Tile>ConDemoLateNotesTile</Tile>
+              </AxFormControl>
+            </Controls>
+          </AxFormControl>
+          <AxFormControl xmlns="" i:type="AxFormTabPageControl">
+            <Name>ListTabPage</Name>
+            <Type>TabPage</Type>
+            <Controls>
+              <AxFormControl xmlns="" i:type="AxFormPartControl">
+                <Name>RecentNotesPart</Name>
+                <Type>Part</Type>
+                <DataSource>ConDemoNoteTable</DataSource>
+                <MenuItemName>ConDemoRecentNotesPart</MenuItemName>
+              </AxFormControl>
+              <AxFormControl xmlns="" i:type="AxFormGridControl">
+                <Name>NoteGrid</Name>
+                <Type>Grid</Type>
+                <DataSource>ConDemoNoteTable</DataSource>
+              </AxFormControl>
+            </Controls>
+          </AxFormControl>
+          <AxFormControl xmlns="" i:type="AxFormTabPageControl">
+            <Name>LinksTabPage</Name>
+            <Type>TabPage</Type>
+            <Controls>
+              <AxFormControl xmlns="" i:type="AxFormGroupControl">
+                <Name>SetupLinks</Name>
+                <Type>Group</Type>
+                <Controls>
+                  <AxFormControl xmlns="" i:type="AxFormMenuFunctionButtonControl">
+                    <Name>NoteTypesLink</Name>
+                    <Type>MenuFunctionButton</Type>
+                    <MenuItemName>ConDemoNoteTypes</MenuItemName>
+                    <MenuItemType>Display</MenuItemType>
+                  </AxFormControl>
+                </Controls>
+              </AxFormControl>
+            </Controls>
+          </AxFormControl>
+        </Controls>
+      </AxFormControl>
+    </Controls>
+  </Design>
+</AxForm>`;
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ws-form-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function writeJson(folder: string, data: Record<string, unknown>): void {
+  const dir = path.join(tmpDir, 'extracted', 'ConDemo', folder);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, `${data.name}.json`), JSON.stringify(data), 'utf-8');
+}
+
+async function buildIndex(): Promise<XppSymbolIndex> {
+  writeJson('tiles', { name: 'ConDemoOpenNotesTile', menuItemName: 'ConDemoNoteListPage', query: 'ConDemoOpenNotes' });
+  writeJson('tiles', { name: 'ConDemoLateNotesTile', menuItemName: 'ConDemoLateNoteListPage', query: 'ConDemoLateNotes' });
+  writeJson('menu-item-displays', { name: 'ConDemoRecentNotesPart', targetObject: 'ConDemoRecentNotesPartForm', targetType: 'Form' });
+  // The open-notes tile reaches a role through privilege and duty; the part's
+  // privilege is in no duty, and nothing grants the late-notes tile.
+  writeJson('security-privileges', {
+    name: 'ConDemoNoteView',
+    entryPoints: [{ name: 'ConDemoNoteListPage', objectType: 'MenuItemDisplay', accessLevel: 'Read' }],
+  });
+  writeJson('security-privileges', {
+    name: 'ConDemoRecentNotesView',
+    entryPoints: [{ name: 'ConDemoRecentNotesPart', objectType: 'MenuItemDisplay', accessLevel: 'Read' }],
+  });
+  writeJson('security-duties', { name: 'ConDemoNoteInquire', privileges: ['ConDemoNoteView'] });
+  writeJson('security-roles', { name: 'ConDemoNoteClerk', duties: ['ConDemoNoteInquire'] });
+
+  const index = new XppSymbolIndex(':memory:', ':memory:');
+  await index.indexMetadataDirectory(path.join(tmpDir, 'extracted'));
+  return index;
+}
+
+const ctx = (index: XppSymbolIndex): XppServerContext => ({
+  symbolIndex: index,
+  parser: {} as any,
+  cache: {} as any,
+  workspaceScanner: {} as any,
+  hybridSearch: {} as any,
+});
+
+async function readWorkspace(index: XppSymbolIndex, xml = WORKSPACE_XML): Promise<string> {
+  const filePath = path.join(tmpDir, 'ConDemoNoteWorkspace.xml');
+  fs.writeFileSync(filePath, xml, 'utf-8');
+  const res = await getFormInfoTool({
+    method: 'tools/call',
+    params: { name: 'get_form_info', arguments: { formName: 'ConDemoNoteWorkspace', filePath, mode: 'workspace' } },
+  }, ctx(index));
+  expect(res.isError).toBeFalsy();
+  return res.content[0].text;
+}
+
+describe('get_object_info(form, mode="workspace")', () => {
+  it('lists each tile with its count query, menu item and granting privilege', async () => {
+    const index = await buildIndex();
+    const text = await readWorkspace(index);
+
+    expect(text).toContain('# Workspace: `ConDemoNoteWorkspace`');
+    expect(text).toContain('**Pattern:** WorkspaceOperational 1.1');
+    expect(text).toContain('| OpenNotesTile | `ConDemoOpenNotesTile` | `ConDemoOpenNotes` | `ConDemoNoteListPage` | ✅ `ConDemoNoteView` |');
+    expect(text).toContain('| LateNotesTile | `ConDemoLateNotesTile` | `ConDemoLateNotes` | `ConDemoLateNoteListPage` | ⚠️ no privilege |');
+    index.close();
+  });
+
+  it('resolves a part to its part form and a grid to its datasource table', async () => {
+    const index = await buildIndex();
+    const text = await readWorkspace(index);
+
+    expect(text).toContain('| RecentNotesPart | part | `ConDemoRecentNotesPartForm` | `ConDemoRecentNotesPart` | ConDemoNoteTable (`ConDemoNoteTable`) | ⚠️ `ConDemoRecentNotesView` in no role |');
+    expect(text).toContain('| NoteGrid | grid | — | — | ConDemoNoteTable (`ConDemoNoteTable`) |');
+    index.close();
+  });
+
+  it('groups link buttons but leaves the action pane out', async () => {
+    const index = await buildIndex();
+    const text = await readWorkspace(index);
+
+    expect(text).toContain('## Link groups (1)');
+    expect(text).toContain('### SetupLinks');
+    expect(text).toContain('- `ConDemoNoteTypes` (Display) — button NoteTypesLink');
+    expect(text).not.toContain('ConDemoNoteParameters');
+    index.close();
+  });
+
+  it('summarises the tiles and parts no role reaches, granted or not', async () => {
+    const index = await buildIndex();
+    const text = await readWorkspace(index);
+
+    expect(text).toContain('## ⚠️ Not reachable by any role (2)');
+    expect(text).toContain('- tile `ConDemoLateNotesTile` (menu item `ConDemoLateNoteListPage`) — no privilege grants it');
+    expect(text).toContain('- part `RecentNotesPart` (menu item `ConDemoRecentNotesPart`) — `ConDemoRecentNotesView` in no duty of any role');
+    expect(text).not.toContain('tile `ConDemoOpenNotesTile` (menu item');
+    index.close();
+  });
+
+  it('marks a tile missing from the index as unknown rather than unreachable', async () => {
+    const index = new XppSymbolIndex(':memory:', ':memory:');
+    const text = await readWorkspace(index);
+
+    expect(text).toContain('| OpenNotesTile | `ConDemoOpenNotesTile` | ? | ? | ? (tile not indexed) |');
+    expect(text).not.toContain('tile `ConDemoOpenNotesTile`');
+    index.close();
+  });
+
+  it('warns when the form is not on a Workspace pattern', async () => {
+    const index = new XppSymbolIndex(':memory:', ':memory:');
+    const text = await readWorkspace(index, WORKSPACE_XML.replace('WorkspaceOperational', 'SimpleList'));
+
+    expect(text).toContain('not on a Workspace pattern');
+    index.close();
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * generate_object(mode="security") — least-privilege privileges, a duty and the
+ * role attachment for a form, derived from its data sources and the menu items
+ * on it, returned as XML plus one d365fo_file changeset.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from '../../src/database/sqlite.js';
+import { generateObjectTool } from '../../src/tools/generateObject';
+import { planSecurityGrants } from '../../src/tools/smart/generateSecurityScaffold';
+import { addSecurityReference } from '../../src/tools/xml/securityDutyRoleXml';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'security-scaffold-'));
+  process.env.EXTENSION_PREFIX = 'Contoso';
+});
+
+afterEach(() => {
+  delete process.env.EXTENSION_PREFIX;
+  try { fs.rmSync(dir, { recursive: true, force: true }); } catch { /* ignore */ }
+});
+
+const FORM_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxForm xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+\t<Name>ContosoWarranty</Name>
+\t<Design>
+\t\t<Controls xmlns="">
+\t\t\t<AxFormControl xmlns="" i:type="AxFormActionPaneControl">
+\t\t\t\t<Name>ActionPane</Name>
+\t\t\t\t<Type>ActionPane</Type>
+\t\t\t\t<Controls>
+\t\t\t\t\t<AxFormControl xmlns="" i:type="AxFormMenuFunctionButtonControl">
+\t\t\t\t\t\t<Name>Post</Name>
+\t\t\t\t\t\t<Type>MenuFunctionButton</Type>
+\t\t\t\t\t\t<MenuItemName>ContosoWarrantyPost</MenuItemName>
+\t\t\t\t\t\t<MenuItemType>Action</MenuItemType>
+\t\t\t\t\t</AxFormControl>
+\t\t\t\t\t<AxFormControl xmlns="" i:type="AxFormMenuFunctionButtonControl">
+\t\t\t\t\t\t<Name>Print</Name>
+\t\t\t\t\t\t<Type>MenuFunctionButton</Type>
+\t\t\t\t\t\t<MenuItemName>ContosoWarrantyReport</MenuItemName>
+\t\t\t\t\t\t<MenuItemType>Output</MenuItemType>
+\t\t\t\t\t</AxFormControl>
+\t\t\t\t\t<AxFormControl xmlns="" i:type="AxFormMenuFunctionButtonControl">
+\t\t\t\t\t\t<Name>Customer</Name>
+\t\t\t\t\t\t<Type>MenuFunctionButton</Type>
+\t\t\t\t\t\t<MenuItemName>CustTable</MenuItemName>
+\t\t\t\t\t</AxFormControl>
+\t\t\t\t</Controls>
+\t\t\t</AxFormControl>
+\t\t</Controls>
+\t</Design>
+</AxForm>`;
+
+const ROLE_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxSecurityRole xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+\t<Name>ContosoWarrantyClerk</Name>
+\t<Label>@TODO:LabelId</Label>
+\t<DirectAccessPermissions />
+\t<Duties>
+\t\t<AxSecurityDutyReference>
+\t\t\t<Name>ContosoClaimProcess</Name>
+\t\t</AxSecurityDutyReference>
+\t</Duties>
+\t<Privileges />
+\t<SubRoles />
+</AxSecurityRole>`;
+
+function makeDb(formPath: string, rolePath: string) {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE symbols (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL, type TEXT NOT NULL, parent_name TEXT,
+      signature TEXT, file_path TEXT, model TEXT, description TEXT, extends_class TEXT
+    );
+    CREATE VIRTUAL TABLE symbols_fts USING fts5(name, type, parent_name, signature, description, tags);
+    CREATE TABLE menu_item_targets (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, menu_item_name TEXT NOT NULL, menu_item_type TEXT NOT NULL,
+      target_object TEXT, target_type TEXT, security_privilege TEXT, label TEXT, model TEXT NOT NULL
+    );
+    CREATE TABLE form_datasources (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, form_name TEXT NOT NULL, datasource_name TEXT NOT NULL,
+      table_name TEXT NOT NULL, allow_edit INTEGER DEFAULT 1, allow_create INTEGER DEFAULT 1,
+      allow_delete INTEGER DEFAULT 1, model TEXT NOT NULL
+    );
+    CREATE TABLE security_role_duties (role_name TEXT, duty_name TEXT, model TEXT);
+    CREATE TABLE security_duty_privileges (duty_name TEXT, privilege_name TEXT, model TEXT);
+    CREATE TABLE security_privilege_entries (
+      privilege_name TEXT, entry_point_name TEXT, object_type TEXT, access_level TEXT, model TEXT
+    );
+    INSERT INTO menu_item_targets (menu_item_name, menu_item_type, target_object, model) VALUES
+      ('ContosoWarranty', 'menu-item-display', 'ContosoWarranty', 'ContosoCore'),
+      ('ContosoWarrantyPost', 'action', 'ContosoWarrantyPostService', 'ContosoCore'),
+      ('ContosoWarrantyReport', 'output', 'ContosoWarrantyController', 'ContosoCore'),
+      ('ContosoWarrantyListPage', 'display', 'ContosoWarrantyList', 'ContosoCore'),
+      ('ContosoStatusView', 'display', 'ContosoStatusView', 'ContosoCore'),
+      ('ContosoWarrantyInquiry', 'display', 'ContosoWarrantyInquiry', 'ContosoCore');
+    INSERT INTO form_datasources (form_name, datasource_name, table_name, allow_edit, allow_create, allow_delete, model) VALUES
+      ('ContosoWarranty', 'ContosoWarrantyTable', 'ContosoWarrantyTable', 1, 0, 0, 'ContosoCore'),
+      ('ContosoWarranty', 'CustTable', 'CustTable', 0, 0, 0, 'ContosoCore'),
+      ('ContosoWarrantyList', 'ContosoWarrantyTable', 'ContosoWarrantyTable', 0, 0, 0, 'ContosoCore'),
+      ('ContosoStatusView', 'ContosoStatus', 'ContosoStatus', 0, 0, 0, 'ContosoCore');
+    INSERT INTO security_privilege_entries VALUES
+      ('ContosoWarrantyListView', 'ContosoWarrantyListPage', 'MenuItemDisplay', 'Read', 'ContosoCore');
+    INSERT INTO security_duty_privileges VALUES ('ContosoWarrantyInquire', 'ContosoWarrantyListView', 'ContosoCore');
+    INSERT INTO security_role_duties VALUES ('AccountsReceivableClerk', 'ContosoWarrantyInquire', 'ApplicationSuite');
+  `);
+  const insert = db.prepare('INSERT INTO symbols (name, type, file_path, model) VALUES (?, ?, ?, ?)');
+  insert.run('ContosoWarranty', 'form', formPath, 'ContosoCore');
+  insert.run('ContosoStatusView', 'form', path.join(dir, 'absent.xml'), 'ContosoCore');
+  insert.run('AccountsReceivableClerk', 'security-role', null, 'ApplicationSuite');
+  insert.run('ContosoWarrantyClerk', 'security-role', rolePath, 'ContosoCore');
+  db.exec('INSERT INTO symbols_fts (rowid, name, type) SELECT id, name, type FROM symbols');
+  return db;
+}
+
+const run = async (db: Database, params: Record<string, unknown>) => {
+  const context = { symbolIndex: { getReadDb: () => db } } as any;
+  const result: any = await generateObjectTool(
+    { method: 'tools/call', params: { name: 'generate_object', arguments: { mode: 'security', modelName: 'ContosoCore', ...params } } },
+    context,
+  );
+  return { result, text: result.content[0].text as string };
+};
+
+describe('generate_object(mode="security")', () => {
+  it('derives grants from the data sources and the form\'s menu items, and suggests the role', async () => {
+    const formPath = path.join(dir, 'ContosoWarranty.xml');
+    fs.writeFileSync(formPath, FORM_XML, 'utf-8');
+    const { result, text } = await run(makeDb(formPath, path.join(dir, 'role.xml')), { name: 'ContosoWarranty' });
+
+    expect(result.isError).toBeFalsy();
+    expect(text).toContain('Data sources: ContosoWarrantyTable (ContosoWarrantyTable: edit), CustTable (CustTable: read-only)');
+    expect(text).toContain('Menu items on the form: ContosoWarrantyPost (action), ContosoWarrantyReport (output)');
+    expect(text).toContain('• privilege ContosoWarrantyView — ContosoWarranty [Read], ContosoWarrantyReport [Read]');
+    expect(text).toContain(
+      '• privilege ContosoWarrantyMaintain — ContosoWarranty [Read, Update], ContosoWarrantyReport [Read], ContosoWarrantyPost [Delete]');
+    expect(text).toContain('• duty ContosoWarrantyProcess — ContosoWarrantyView, ContosoWarrantyMaintain');
+    expect(text).toMatch(/• role extension AccountsReceivableClerk\.\w+Extension \(suggested: reaches 1 other form\(s\) over ContosoWarrantyTable, CustTable/);
+    expect(text).not.toContain('CustTable [');
+
+    const call = /changes=(\[[\s\S]*?\n\])\)/.exec(text);
+    const changes = JSON.parse(call![1]);
+    expect(changes.map((c: any) => `${c.objectType} ${c.objectName}`)).toEqual([
+      'security-privilege ContosoWarrantyView',
+      'security-privilege ContosoWarrantyMaintain',
+      'security-duty ContosoWarrantyProcess',
+      expect.stringMatching(/^security-role-extension AccountsReceivableClerk\.\w+Extension$/),
+    ]);
+    expect(changes[1].properties.entryPoints[0]).toEqual(
+      { objectName: 'ContosoWarranty', objectType: 'MenuItemDisplay', grant: ['Read', 'Update'] });
+    expect(text).toContain('### AxSecurityPrivilege/ContosoWarrantyMaintain.xml');
+    expect(text).toContain('<ObjectName>ContosoWarrantyPost</ObjectName>\n\t\t\t<ObjectType>MenuItemAction</ObjectType>');
+  });
+
+  it('leaves Maintain out for a read-only form and adds the duty to a role of the same model', async () => {
+    const rolePath = path.join(dir, 'ContosoWarrantyClerk.xml');
+    fs.writeFileSync(rolePath, ROLE_XML, 'utf-8');
+    const { result, text } = await run(makeDb(path.join(dir, 'none.xml'), rolePath),
+      { name: 'ContosoStatusView', params: { role: 'contosowarrantyclerk' } });
+
+    expect(result.isError).toBeFalsy();
+    expect(text).toContain('no Maintain privilege — every data source is read-only');
+    expect(text).toContain('is not readable here — action and output menu items on the form are not included');
+    expect(text).toContain('• security-role ContosoWarrantyClerk — + duty ContosoStatusViewProcess (the existing file, rewritten)');
+    const changes = JSON.parse(/changes=(\[[\s\S]*?\n\])\)/.exec(text)![1]);
+    expect(changes).toHaveLength(3);
+    expect(changes[2]).toMatchObject({ action: 'create', objectType: 'security-role', overwrite: true });
+    expect(changes[2].xmlContent).toContain(
+      '<Name>ContosoClaimProcess</Name>\n\t\t</AxSecurityDutyReference>\n\t\t<AxSecurityDutyReference>\n' +
+      '\t\t\t<Name>ContosoStatusViewProcess</Name>\n\t\t</AxSecurityDutyReference>\n\t</Duties>');
+  });
+
+  it('refuses an action menu item and an unknown name', async () => {
+    const db = makeDb(path.join(dir, 'none.xml'), path.join(dir, 'role.xml'));
+    const action = await run(db, { name: 'ContosoWarrantyPost' });
+    expect(action.result.isError).toBe(true);
+    expect(action.text).toContain('is an action menu item');
+
+    const unknown = await run(db, { name: 'ContosoNothing' });
+    expect(unknown.result.isError).toBe(true);
+    expect(unknown.text).toContain('no form or display menu item named "ContosoNothing"');
+  });
+});
+
+describe('planSecurityGrants', () => {
+  it('grants every write when no data source is known', () => {
+    const plan = planSecurityGrants(['ContosoWarranty'], [], []);
+    expect(plan.maintain?.[0].grant).toEqual(['Read', 'Update', 'Create', 'Delete']);
+  });
+});
+
+describe('addSecurityReference', () => {
+  it('expands an empty collection and leaves an existing reference alone', () => {
+    const xml = '<AxSecurityRoleExtension>\n\t<Name>R.Ext</Name>\n\t<Duties />\n</AxSecurityRoleExtension>';
+    const added = addSecurityReference(xml, 'Duties', 'AxSecurityDutyReference', 'MyDuty')!;
+    expect(added).toBe('<AxSecurityRoleExtension>\n\t<Name>R.Ext</Name>\n\t<Duties>\n\t\t<AxSecurityDutyReference>\n' +
+      '\t\t\t<Name>MyDuty</Name>\n\t\t</AxSecurityDutyReference>\n\t</Duties>\n</AxSecurityRoleExtension>');
+    expect(addSecurityReference(added, 'Duties', 'AxSecurityDutyReference', 'myduty')).toBe(added);
+    expect(addSecurityReference(xml, 'Privileges', 'AxSecurityPrivilegeReference', 'P')).toBeNull();
+  });
+});
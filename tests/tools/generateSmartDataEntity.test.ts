@@ -0,0 +1,209 @@
+/**
+ * generate_object(mode="scaffold", objectType="data-entity") — an entity built
+ * from an existing table: system fields left out, the key from the table's
+ * alternate key, RecId foreign keys replaced by the referenced table's natural
+ * key, and the optional staging table and privileges.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from '../../src/database/sqlite.js';
+import { XppMetadataParser } from '../../src/metadata/xmlParser.js';
+import { generateObjectTool } from '../../src/tools/generateObject';
+import { entityCategoryFor } from '../../src/tools/smart/generateSmartDataEntity';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'data-entity-scaffold-'));
+  process.env.EXTENSION_PREFIX = 'Contoso';
+});
+
+afterEach(() => {
+  delete process.env.EXTENSION_PREFIX;
+  try { fs.rmSync(dir, { recursive: true, force: true }); } catch { /* ignore */ }
+});
+
+const field = (type: string, name: string, edt?: string) =>
+  `\t\t<AxTableField xmlns="" i:type="AxTableField${type}">\n\t\t\t<Name>${name}</Name>\n` +
+  `${edt ? `\t\t\t<ExtendedDataType>${edt}</ExtendedDataType>\n` : ''}\t\t</AxTableField>\n`;
+
+const index = (name: string, fields: string[]) =>
+  `\t\t<AxTableIndex>\n\t\t\t<Name>${name}</Name>\n\t\t\t<AlternateKey>Yes</AlternateKey>\n\t\t\t<AllowDuplicates>No</AllowDuplicates>\n\t\t\t<Fields>\n` +
+  fields.map(f => `\t\t\t\t<AxTableIndexField>\n\t\t\t\t\t<DataField>${f}</DataField>\n\t\t\t\t</AxTableIndexField>\n`).join('') +
+  `\t\t\t</Fields>\n\t\t</AxTableIndex>\n`;
+
+const table = (name: string, props: string, fields: string, indexes: string) =>
+  `<?xml version="1.0" encoding="utf-8"?>\n<AxTable xmlns:i="http://www.w3.org/2001/XMLSchema-instance">\n` +
+  `\t<Name>${name}</Name>\n${props}\t<Fields>\n${fields}\t</Fields>\n\t<Indexes>\n${indexes}\t</Indexes>\n</AxTable>\n`;
+
+const RENTAL_LINE = table(
+  'ContosoRentalLine',
+  '\t<Label>@Contoso:RentalLine</Label>\n\t<TableGroup>WorksheetLine</TableGroup>\n\t<PrimaryIndex>RentalLineIdx</PrimaryIndex>\n',
+  field('String', 'RentalId', 'ContosoRentalId') + field('Int64', 'Customer', 'CustRecId') +
+    field('Int64', 'Worker', 'HcmWorkerRecId') + field('String', 'CustGroup', 'CustGroupId') +
+    field('Real', 'Amount', 'AmountMST') + field('String', 'DataAreaId', 'DataAreaId'),
+  index('RecIdIdx', ['RecId']) + index('RentalLineIdx', ['RentalId', 'Customer']),
+);
+
+const CUST_TABLE = table(
+  'CustTable',
+  '\t<PrimaryIndex>AccountIdx</PrimaryIndex>\n',
+  field('String', 'AccountNum', 'CustAccount') + field('String', 'CustGroup', 'CustGroupId'),
+  index('AccountIdx', ['AccountNum']),
+);
+
+function makeDb() {
+  const write = (name: string, xml: string) => {
+    const file = path.join(dir, `${name}.xml`);
+    fs.writeFileSync(file, xml, 'utf-8');
+    return file;
+  };
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE symbols (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL, type TEXT NOT NULL, parent_name TEXT,
+      signature TEXT, file_path TEXT, model TEXT, description TEXT, extends_class TEXT
+    );
+    CREATE VIRTUAL TABLE symbols_fts USING fts5(name, type, parent_name, signature, description, tags);
+    CREATE TABLE table_relations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, source_table TEXT NOT NULL, target_table TEXT NOT NULL,
+      relation_name TEXT NOT NULL, constraint_fields TEXT, model TEXT NOT NULL
+    );
+    INSERT INTO table_relations (source_table, target_table, relation_name, constraint_fields, model) VALUES
+      ('ContosoRentalLine', 'CustTable', 'CustTable', '[{"field":"Customer","relatedField":"RecId"}]', 'ContosoCore'),
+      ('ContosoRentalLine', 'HcmWorker', 'HcmWorker', '[{"field":"Worker","relatedField":"RecId"}]', 'ContosoCore'),
+      ('ContosoRentalLine', 'CustGroup', 'CustGroup', '[{"field":"CustGroup","relatedField":"CustGroup"}]', 'ContosoCore');
+  `);
+  const insert = db.prepare('INSERT INTO symbols (name, type, parent_name, signature, file_path, model) VALUES (?, ?, ?, ?, ?, ?)');
+  insert.run('ContosoRentalLine', 'table', null, null, write('ContosoRentalLine', RENTAL_LINE), 'ContosoCore');
+  insert.run('CustTable', 'table', null, null, write('CustTable', CUST_TABLE), 'ApplicationSuite');
+  insert.run('ContosoRentalRate', 'table', null, null, null, 'ContosoCore');
+  insert.run('RateCode', 'field', 'ContosoRentalRate', 'ContosoRateCode', null, 'ContosoCore');
+  insert.run('Rate', 'field', 'ContosoRentalRate', 'Price', null, 'ContosoCore');
+  insert.run('RecId', 'field', 'ContosoRentalRate', 'RecId', null, 'ContosoCore');
+  db.exec('INSERT INTO symbols_fts (rowid, name, type) SELECT id, name, type FROM symbols');
+  return db;
+}
+
+const run = async (db: Database, params: Record<string, unknown>, extra: Record<string, unknown> = {}) => {
+  const context = { symbolIndex: { getReadDb: () => db }, parser: new XppMetadataParser(), ...extra } as any;
+  const result: any = await generateObjectTool(
+    { method: 'tools/call', params: { name: 'generate_object', arguments: { mode: 'scaffold', objectType: 'data-entity', modelName: 'ContosoCore', params } } },
+    context,
+  );
+  return { result, text: result.content[0].text as string };
+};
+
+describe('generate_object(mode="scaffold", objectType="data-entity")', () => {
+  it('maps the table without system fields and expands RecId foreign keys to natural keys', async () => {
+    const { result, text } = await run(makeDb(), { fromTable: 'contosorentalline' });
+
+    expect(result.isError).toBeFalsy();
+    expect(text).toContain('Data entity ContosoRentalLineEntity on table ContosoRentalLine (read from its XML), model ContosoCore');
+    expect(text).toContain('Category: Transaction');
+    expect(text).toContain('Key: RentalId, CustomerAccountNum');
+    expect(text).toContain('Fields (5): RentalId, Worker, CustGroup, Amount, CustomerAccountNum (Customer.AccountNum)');
+    expect(text).toContain('Left out (system fields): DataAreaId');
+    expect(text).toContain('• Customer → CustTable (relation CustTable) — mapped as CustomerAccountNum');
+    expect(text).toContain('⚠️ Worker refers to HcmWorker by RecId, and no natural key of HcmWorker is known');
+
+    const changes = JSON.parse(/changes=(\[[\s\S]*?\n\])\)/.exec(text)![1]);
+    expect(changes.map((c: any) => `${c.objectType} ${c.objectName}`)).toEqual(['data-entity ContosoRentalLineEntity']);
+    const xml: string = changes[0].xmlContent;
+    expect(xml).toContain('<Label>@Contoso:RentalLine</Label>');
+    expect(xml).not.toContain('DataManagementEnabled');
+    expect(xml).toContain('<DataField>AccountNum</DataField>\n\t\t\t<DataSource>Customer</DataSource>');
+    expect(xml).toContain(
+      '\t\t\t\t\t\t<Name>Customer</Name>\n\t\t\t\t\t\t<Table>CustTable</Table>\n');
+    expect(xml).toContain(
+      '\t\t\t\t\t\t\t\t<Name>CustTable</Name>\n\t\t\t\t\t\t\t\t<Field>Customer</Field>\n' +
+      '\t\t\t\t\t\t\t\t<JoinDataSource>ContosoRentalLine</JoinDataSource>\n\t\t\t\t\t\t\t\t<RelatedField>RecId</RelatedField>\n');
+    expect(xml).not.toMatch(/<Name>Customer<\/Name>\n\t\t\t\t\t\t<Field>Customer<\/Field>/);
+  });
+
+  it('needs keyFields for a table known only to the symbol index, and adds staging and privileges', async () => {
+    const db = makeDb();
+    const keyless = await run(db, { fromTable: 'ContosoRentalRate' });
+    expect(keyless.result.isError).toBe(true);
+    expect(keyless.text).toContain('its indexes are unknown. Pass params.keyFields');
+
+    const { result, text } = await run(db, {
+      fromTable: 'ContosoRentalRate', keyFields: ['RateCode'], staging: true, privileges: true, name: 'RentalRateEntity',
+    });
+    expect(result.isError).toBeFalsy();
+    expect(text).toContain('(read from the symbol index (no index metadata))');
+    expect(text).toContain('Category: Master');
+    const changes = JSON.parse(/changes=(\[[\s\S]*?\n\])\)/.exec(text)![1]);
+    expect(changes.map((c: any) => `${c.objectType} ${c.objectName}`)).toEqual([
+      'data-entity ContosoRentalRateEntity',
+      'table ContosoRentalRateEntityStaging',
+      'security-privilege ContosoRentalRateEntityView',
+      'security-privilege ContosoRentalRateEntityMaintain',
+    ]);
+    expect(changes[0].xmlContent).toContain(
+      '<DataManagementEnabled>Yes</DataManagementEnabled>\n\t<DataManagementStagingTable>ContosoRentalRateEntityStaging</DataManagementStagingTable>');
+    const staging: string = changes[1].xmlContent;
+    expect(staging).toContain('<Name>TransferStatus</Name>\n\t\t\t<EnumType>DMFTransferStatus</EnumType>');
+    expect(staging).toContain('<Name>Rate</Name>\n\t\t\t<ExtendedDataType>Price</ExtendedDataType>');
+    expect(staging).toMatch(/<Name>StagingIdx<\/Name>[\s\S]*?DefinitionGroup[\s\S]*?ExecutionId[\s\S]*?RateCode/);
+    expect(changes[3].xmlContent).toContain('<Delete>Allow</Delete>');
+    expect(changes[3].xmlContent).toContain('<Name>ContosoRentalRateEntity</Name>\n\t\t\t<Fields />');
+  });
+
+  it('reports an unknown table and an entity named like its table', async () => {
+    const { result, text } = await run(makeDb(), { fromTable: 'NoSuchTable' });
+    expect(result.isError).toBe(true);
+    expect(text).toContain('table "NoSuchTable" not found');
+
+    const clash = await run(makeDb(), { fromTable: 'ContosoRentalRate', keyFields: ['RateCode'], name: 'RentalRate' });
+    expect(clash.result.isError).toBe(true);
+    expect(clash.text).toContain('entity name ContosoRentalRate is the name of the table');
+  });
+
+  it('keys a bridge-read table on its alternate key, not on any non-duplicate index', async () => {
+    const db = makeDb();
+    const bridge = {
+      isReady: true,
+      metadataAvailable: true,
+      readTable: async () => ({
+        name: 'ContosoRentalRate',
+        fields: [
+          { name: 'RateCode', fieldType: 'String', extendedDataType: 'ContosoRateCode', mandatory: true },
+          { name: 'Rate', fieldType: 'Real', extendedDataType: 'Price', mandatory: false },
+        ],
+        indexes: [
+          { name: 'RateIdx', allowDuplicates: false, alternateKey: false, fields: [{ dataField: 'Rate', includedColumn: false }] },
+          // An included column rides on the index but is not part of the key.
+          {
+            name: 'RateCodeIdx', allowDuplicates: false, alternateKey: true,
+            fields: [{ dataField: 'RateCode', includedColumn: false }, { dataField: 'Rate', includedColumn: true }],
+          },
+        ],
+        relations: [],
+      }),
+    };
+    const { result, text } = await run(db, { fromTable: 'ContosoRentalRate' }, { bridge });
+    expect(result.isError).toBeFalsy();
+    expect(text).toContain('(read from the bridge)');
+    expect(text).toContain('Key: RateCode\n');
+  });
+
+  it('asks for fromTable with the spec', async () => {
+    const { result, text } = await run(makeDb(), {});
+    expect(result.isError).toBe(true);
+    expect(text).toContain('missing required parameter(s) fromTable');
+  });
+});
+
+describe('entityCategoryFor', () => {
+  it('follows the table group', () => {
+    expect(entityCategoryFor('Parameter')).toBe('Parameters');
+    expect(entityCategoryFor('Group')).toBe('Reference');
+    expect(entityCategoryFor('Main')).toBe('Master');
+    expect(entityCategoryFor(undefined)).toBe('Master');
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * analyze_code(mode="impact") — the transitive walk from an EDT, a field or a
+ * method through the index tables, ranked and split custom/standard.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import Database from '../../src/database/sqlite.js';
+import { analyzeImpactTool, buildImpactReport, type ImpactReport } from '../../src/tools/analysis/impactAnalysis';
+import { clearAutoDetectedModels, registerCustomModel } from '../../src/utils/modelClassifier';
+
+function makeDb() {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE edt_metadata (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      edt_name TEXT NOT NULL, extends TEXT, enum_type TEXT, reference_table TEXT,
+      relation_type TEXT, string_size TEXT, database_string_size TEXT,
+      display_length TEXT, label TEXT, model TEXT NOT NULL
+    );
+    CREATE TABLE symbols (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL, type TEXT NOT NULL, parent_name TEXT,
+      signature TEXT, file_path TEXT, model TEXT, source_snippet TEXT, extends_class TEXT
+    );
+    CREATE VIRTUAL TABLE symbols_fts USING fts5(name, type, parent_name, signature, source_snippet);
+    CREATE TABLE table_relations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      source_table TEXT NOT NULL, target_table TEXT NOT NULL, relation_name TEXT NOT NULL,
+      constraint_fields TEXT, model TEXT NOT NULL
+    );
+    CREATE TABLE form_datasources (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      form_name TEXT NOT NULL, datasource_name TEXT NOT NULL, table_name TEXT NOT NULL,
+      model TEXT NOT NULL
+    );
+  `);
+
+  const insSym = db.prepare(
+    'INSERT INTO symbols (name, type, parent_name, signature, model, source_snippet) VALUES (?, ?, ?, ?, ?, ?)');
+  const insFts = db.prepare(
+    'INSERT INTO symbols_fts (rowid, name, type, parent_name, signature, source_snippet) VALUES (?, ?, ?, ?, ?, ?)');
+  const sym = (name: string, type: string, parent: string | null, signature: string | null, model: string, source: string | null = null) => {
+    const info = insSym.run(name, type, parent, signature, model, source);
+    insFts.run(info.lastInsertRowid, name, type, parent, signature, source);
+  };
+
+  const insEdt = db.prepare('INSERT INTO edt_metadata (edt_name, extends, model) VALUES (?, ?, ?)');
+  const edt = (name: string, parent: string, model: string) => {
+    insEdt.run(name, parent, model);
+    sym(name, 'edt', null, null, model);
+  };
+  edt('CustAccount', 'AccountNum', 'ApplicationSuite');
+  edt('CustInvoiceAccount', 'CustAccount', 'ApplicationSuite');
+  edt('ConCustRef', 'CustInvoiceAccount', 'ContosoCore');
+  edt('VendAccount', 'AccountNum', 'ApplicationSuite');
+
+  sym('CustTable', 'table', null, null, 'ApplicationSuite');
+  sym('AccountNum', 'field', 'CustTable', 'CustAccount', 'ApplicationSuite');
+  sym('SalesTable', 'table', null, null, 'ApplicationSuite');
+  sym('InvoiceAccount', 'field', 'SalesTable', 'CustInvoiceAccount', 'ApplicationSuite');
+  sym('ConCustRefTable', 'table', null, null, 'ContosoCore');
+  sym('CustRef', 'field', 'ConCustRefTable', 'ConCustRef', 'ContosoCore');
+  sym('VendTable', 'table', null, null, 'ApplicationSuite');
+  sym('AccountNum', 'field', 'VendTable', 'VendAccount', 'ApplicationSuite');
+
+  sym('CustCustomerV3Entity', 'view', null, 'data-entity', 'ApplicationSuite');
+  sym('CustomerAccount', 'field', 'CustCustomerV3Entity', 'AccountNum', 'ApplicationSuite');
+
+  sym('accountNum', 'method', 'CustInvoiceJour', 'CustAccount accountNum()', 'ApplicationSuite');
+  sym('describe', 'method', 'ConCustHelper', 'str describe()', 'ContosoCore',
+    'str describe()\n{\n    return jour.accountNum() + custTable.AccountNum;\n}');
+  sym('run', 'method', 'CustPrintout', 'void run()', 'ApplicationSuite',
+    'void run()\n{\n    info(CustInvoiceJour::accountNum());\n}');
+
+  db.prepare('INSERT INTO table_relations (source_table, target_table, relation_name, constraint_fields, model) VALUES (?, ?, ?, ?, ?)')
+    .run('SalesTable', 'CustTable', 'CustTable', JSON.stringify([{ field: 'CustAccount', relatedField: 'AccountNum' }]), 'ApplicationSuite');
+  db.prepare('INSERT INTO table_relations (source_table, target_table, relation_name, constraint_fields, model) VALUES (?, ?, ?, ?, ?)')
+    .run('SalesTable', 'CustTable', 'InvoiceAccount', JSON.stringify([{ field: 'InvoiceAccount', relatedField: 'AccountNum' }]), 'ApplicationSuite');
+  db.prepare('INSERT INTO form_datasources (form_name, datasource_name, table_name, model) VALUES (?, ?, ?, ?)')
+    .run('CustTable', 'CustTable', 'CustTable', 'ApplicationSuite');
+  db.prepare('INSERT INTO form_datasources (form_name, datasource_name, table_name, model) VALUES (?, ?, ?, ?)')
+    .run('ConCustRefForm', 'Ref', 'ConCustRefTable', 'ContosoCore');
+  return db;
+}
+
+const group = (report: ImpactReport, key: string) => report.groups.find(g => g.key === key);
+const names = (report: ImpactReport, key: string) =>
+  group(report, key)?.items.map(i => (i.member ? `${i.object}.${i.member}` : i.object)) ?? [];
+
+let db: any;
+
+beforeAll(() => {
+  registerCustomModel('ContosoCore');
+  db = makeDb();
+});
+
+afterAll(() => {
+  clearAutoDetectedModels();
+});
+
+describe('impact analysis — from an EDT', () => {
+  it('follows the EDT hierarchy down, custom first', async () => {
+    const report = await buildImpactReport(db, undefined, 'custaccount') as ImpactReport;
+    expect(report.target).toBe('CustAccount');
+    expect(names(report, 'edts')).toEqual(['ConCustRef', 'CustInvoiceAccount']);
+    expect(group(report, 'edts')!.items[0]).toMatchObject({ custom: true, via: 'extends CustInvoiceAccount' });
+  });
+
+  it('reaches the fields typed by any of them — not a sibling EDT\'s', async () => {
+    const report = await buildImpactReport(db, undefined, 'CustAccount') as ImpactReport;
+    expect(names(report, 'fields')).toEqual(['ConCustRefTable.CustRef', 'CustTable.AccountNum', 'SalesTable.InvoiceAccount']);
+  });
+
+  it('reaches entities, relations and forms through those fields', async () => {
+    const report = await buildImpactReport(db, undefined, 'CustAccount') as ImpactReport;
+    expect(names(report, 'entities')).toEqual(['CustCustomerV3Entity.CustomerAccount']);
+    expect(names(report, 'relations')).toEqual(['SalesTable.CustTable', 'SalesTable.InvoiceAccount']);
+    expect(names(report, 'forms')).toEqual(['ConCustRefForm.Ref', 'CustTable.CustTable']);
+  });
+
+  it('reaches methods returning the type and, without the bridge, their callers by name', async () => {
+    const report = await buildImpactReport(db, undefined, 'CustAccount') as ImpactReport;
+    expect(names(report, 'methods')).toEqual(['CustInvoiceJour.accountNum']);
+    expect(names(report, 'callers')).toEqual(['ConCustHelper.describe', 'CustPrintout.run']);
+    expect(group(report, 'callers')!.basis).toContain('xref bridge was not available');
+  });
+
+  it('takes the callers from the xref bridge when it answers', async () => {
+    db.exec(`INSERT INTO symbols (name, type, model) VALUES ('CustInvoiceJour', 'table', 'ApplicationSuite')`);
+    const bridge = {
+      isReady: true,
+      xrefAvailable: true,
+      findReferences: vi.fn(async () => ({
+        objectPath: '', count: 1,
+        references: [{ sourcePath: '/Classes/ConInvoicePost/Methods/post', sourceModule: 'ContosoCore', line: 4, column: 9, callerClass: 'ConInvoicePost', callerMethod: 'post' }],
+      })),
+    } as any;
+    const report = await buildImpactReport(db, bridge, 'CustAccount') as ImpactReport;
+    expect(bridge.findReferences).toHaveBeenCalledWith('/Tables/CustInvoiceJour/Methods/accountNum');
+    expect(names(report, 'callers')).toEqual(['ConInvoicePost.post']);
+    expect(group(report, 'callers')!.basis).toContain('scoped to the declaring type');
+  });
+});
+
+describe('impact analysis — from a field or a method', () => {
+  it('a field target skips the EDT groups and adds X++ access', async () => {
+    const report = await buildImpactReport(db, undefined, 'CustTable.AccountNum') as ImpactReport;
+    expect(report.kind).toBe('field');
+    expect(group(report, 'edts')).toBeUndefined();
+    expect(names(report, 'relations')).toEqual(['SalesTable.CustTable', 'SalesTable.InvoiceAccount']);
+    expect(names(report, 'code')).toEqual(['ConCustHelper.describe']);
+  });
+
+  it('a method target reports its callers', async () => {
+    const report = await buildImpactReport(db, undefined, 'CustInvoiceJour.accountNum', 'method') as ImpactReport;
+    expect(report.kind).toBe('method');
+    expect(report.groups.map(g => g.key)).toEqual(['callers']);
+  });
+
+  it('says what to qualify when the target is not found', async () => {
+    expect(await buildImpactReport(db, undefined, 'NoSuchEdt')).toEqual({
+      error: expect.stringContaining('"Table.field"'),
+    });
+  });
+});
+
+describe('impact analysis — the report', () => {
+  it('renders ranked groups with the custom/standard split and the blast radius', async () => {
+    const result: any = await analyzeImpactTool(
+      { method: 'tools/call', params: { name: 'analyze_impact', arguments: { target: 'CustAccount', limit: 1 } } },
+      { symbolIndex: { getReadDb: () => db } } as any,
+    );
+    const text: string = result.content[0].text;
+    expect(result.isError).toBeUndefined();
+    expect(text).toContain('# Impact of changing `CustAccount` (EDT)');
+    expect(text).toMatch(/\*\*Blast radius:\*\* \d+ object\(s\) — \d+ custom, \d+ standard/);
+    expect(text).toContain('## 1. Derived EDTs (2 — 1 custom, 1 standard)');
+    expect(text.indexOf('## 1. Derived EDTs')).toBeLessThan(text.indexOf('## 2. Table fields'));
+    expect(text).toContain('_… and 1 more — raise `limit` to see them._');
+  });
+});
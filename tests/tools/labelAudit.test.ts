@@ -0,0 +1,155 @@
+/**
+ * labels(action="audit") — unused labels, duplicate texts and hardcoded
+ * strings of one model, from the label index and the model's XML on disk.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { buildLabelAudit, formatLabelAudit, labelAuditTool, scanObjectXml } from '../../src/tools/analysis/labelAudit';
+import { clearAutoDetectedModels, registerCustomModel } from '../../src/utils/modelClassifier';
+
+vi.mock('../../src/utils/configManager', () => ({
+  getConfigManager: vi.fn(() => ({
+    getDevEnvironmentType: vi.fn(async () => 'traditional'),
+    getPackagePath: vi.fn(() => null),
+  })),
+}));
+
+const FORM_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxForm xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+\t<Name>ConDemoForm</Name>
+\t<SourceCode>
+\t\t<Methods>
+\t\t\t<Method>
+\t\t\t\t<Name>init</Name>
+\t\t\t\t<Source><![CDATA[
+    public void init()
+    {
+        super();
+        info("Customer");
+        warning(literalStr("@ContosoExt:CustomerName"));
+    }
+]]></Source>
+\t\t\t</Method>
+\t\t</Methods>
+\t</SourceCode>
+\t<Design>
+\t\t<Caption>Customers &amp; vendors</Caption>
+\t\t<HelpText>@ContosoExt:CustomerHelp</HelpText>
+\t\t<Label>%1</Label>
+\t</Design>
+</AxForm>
+`;
+
+const LABELS = [
+  { labelId: 'CustomerHelp', labelFileId: 'ContosoExt', text: 'Select a customer' },
+  { labelId: 'CustomerName', labelFileId: 'ContosoExt', text: 'Customer name' },
+  { labelId: 'CustName', labelFileId: 'ContosoExt', text: 'customer name ' },
+  { labelId: 'OldCaption', labelFileId: 'ContosoExt', text: 'Old caption' },
+  { labelId: 'UsedElsewhere', labelFileId: 'ContosoExt', text: 'Used by another model' },
+];
+
+const STANDARD = [
+  { labelId: '@SYS7149', labelFileId: 'SYS', model: 'ApplicationPlatform', text: 'Customer' },
+  { labelId: 'Customer', labelFileId: 'ContosoOther', model: 'ContosoOther', text: 'Customer' },
+];
+
+const symbolIndex = {
+  getModelLabels: vi.fn(() => LABELS),
+  searchLabels: vi.fn((query: string) => STANDARD.filter(l => l.text.toLowerCase().includes(query.toLowerCase()))),
+} as any;
+
+let root: string;
+let modelDir: string;
+
+beforeAll(() => {
+  registerCustomModel('ContosoExt');
+  registerCustomModel('ContosoOther');
+  root = mkdtempSync(path.join(tmpdir(), 'label-audit-'));
+  modelDir = path.join(root, 'ContosoExt', 'ContosoExt');
+  mkdirSync(path.join(modelDir, 'AxForm'), { recursive: true });
+  writeFileSync(path.join(modelDir, 'AxForm', 'ConDemoForm.xml'), FORM_XML);
+  // Label resources are not objects — a reference-looking line there must not count.
+  mkdirSync(path.join(modelDir, 'AxLabelFile'), { recursive: true });
+  writeFileSync(path.join(modelDir, 'AxLabelFile', 'ContosoExt_en-US.xml'), '<Name>@ContosoExt:OldCaption</Name>');
+});
+
+afterAll(() => {
+  clearAutoDetectedModels();
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe('label audit — scanning an object', () => {
+  it('collects references and the literal properties and infolog calls, not text without letters', () => {
+    const scan = scanObjectXml(FORM_XML, 'AxForm/ConDemoForm');
+    expect(scan.refs).toEqual(['ContosoExt:CustomerName', 'ContosoExt:CustomerHelp']);
+    expect(scan.hardcoded.map(h => [h.where, h.text])).toEqual([
+      ['<Caption>', 'Customers & vendors'],
+      ['info("Customer"', 'Customer'],
+    ]);
+    expect(scan.hardcoded[0].line).toBe(20);
+    expect(scan.hardcoded[1].line).toBe(12);
+  });
+});
+
+describe('label audit — the model', () => {
+  it('without the bridge, unused = not referenced in the model, with the caveat', async () => {
+    const report = await buildLabelAudit(symbolIndex, undefined, modelDir, { model: 'ContosoExt' });
+    expect(report.unused.map(u => u.ref)).toEqual(['@ContosoExt:CustName', '@ContosoExt:OldCaption', '@ContosoExt:UsedElsewhere']);
+    expect(report.basis).toContain('xref bridge was not available');
+  });
+
+  it('asks the xref DB about the rest when the bridge is up', async () => {
+    const bridge = {
+      isReady: true,
+      xrefAvailable: true,
+      findReferences: vi.fn(async (target: string) => ({
+        objectPath: target,
+        count: 0,
+        references: target === '/Labels/@ContosoExt:UsedElsewhere'
+          ? [{ sourcePath: '/Forms/OtherForm', sourceModule: 'ContosoOther', line: 1, column: 1 }]
+          : [],
+      })),
+    } as any;
+    const report = await buildLabelAudit(symbolIndex, bridge, modelDir, { model: 'ContosoExt' });
+    expect(bridge.findReferences).toHaveBeenCalledTimes(3);
+    expect(report.unused.map(u => u.ref)).toEqual(['@ContosoExt:CustName', '@ContosoExt:OldCaption']);
+    expect(report.basis).toContain('cross-reference DB');
+  });
+
+  it('groups duplicate texts case-insensitively and keeps the referenced ID', async () => {
+    const report = await buildLabelAudit(symbolIndex, undefined, modelDir, { model: 'ContosoExt' });
+    expect(report.duplicates).toEqual([{
+      text: 'Customer name',
+      refs: ['@ContosoExt:CustomerName', '@ContosoExt:CustName'],
+      keep: '@ContosoExt:CustomerName',
+    }]);
+  });
+
+  it('proposes a standard label with exactly the literal text — never another custom model\'s', async () => {
+    const report = await buildLabelAudit(symbolIndex, undefined, modelDir, { model: 'ContosoExt' });
+    const byText = Object.fromEntries(report.hardcoded.map(h => [h.text, h.proposal]));
+    expect(byText).toEqual({ 'Customers & vendors': undefined, Customer: '@SYS7149' });
+  });
+
+  it('renders the three sections through the tool', async () => {
+    const result: any = await labelAuditTool(
+      { method: 'tools/call', params: { name: 'label_audit', arguments: { model: 'ContosoExt', packagePath: root, limit: 1 } } },
+      { symbolIndex } as any,
+    );
+    const text: string = result.content[0].text;
+    expect(result.isError).toBeUndefined();
+    expect(text).toContain('**5** label(s) in en-US · **3** unused · **1** duplicate text(s) · **2** hardcoded string(s)');
+    expect(text).toContain('## 1. Unused labels (3)');
+    expect(text).toContain('_… and 2 more — raise `limit` to see them._');
+    expect(text).toContain('AxForm/ConDemoForm:20 `<Caption>` "Customers & vendors" → no label has this exact text');
+  });
+
+  it('says when the model has no indexed labels', () => {
+    const text = formatLabelAudit(
+      { model: 'ContosoExt', labelCount: 0, unused: [], duplicates: [], hardcoded: [], basis: '', files: 0 }, 10);
+    expect(text).toContain('INCLUDE_LABELS=true');
+  });
+});
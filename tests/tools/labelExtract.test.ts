@@ -0,0 +1,180 @@
+/**
+ * labels(action="extract") — one object's hardcoded strings moved into labels,
+ * the source rewritten through d365fo_file's modify operations.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import type { CallToolRequest } from '@modelcontextprotocol/sdk/types.js';
+import { labelExtractTool, labelIdFromText, planLabelExtraction } from '../../src/tools/write/labelExtract';
+import { clearAutoDetectedModels, registerCustomModel } from '../../src/utils/modelClassifier';
+
+vi.mock('../../src/utils/configManager', () => ({
+  getConfigManager: vi.fn(() => ({
+    ensureLoaded: vi.fn(async () => undefined),
+    getPackagePath: vi.fn(() => '/nonexistent'),
+    getCustomPackagesPath: vi.fn(async () => null),
+  })),
+}));
+
+const FORM_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxForm xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+\t<Name>ConDemoForm</Name>
+\t<SourceCode>
+\t\t<Methods>
+\t\t\t<Method>
+\t\t\t\t<Name>init</Name>
+\t\t\t\t<Source><![CDATA[
+    public void init()
+    {
+        super();
+        info("Customer");
+        warning("Check the vendor");
+        if (element.args())
+        {
+            error("Nothing selected");
+        }
+        else
+        {
+            error("Nothing selected");
+        }
+    }
+]]></Source>
+\t\t\t</Method>
+\t\t</Methods>
+\t</SourceCode>
+\t<Design>
+\t\t<Caption>Customers &amp; vendors</Caption>
+\t\t<Controls>
+\t\t\t<AxFormControl>
+\t\t\t\t<Name>Grid</Name>
+\t\t\t\t<Caption>Open lines</Caption>
+\t\t\t</AxFormControl>
+\t\t</Controls>
+\t</Design>
+</AxForm>
+`;
+
+const STANDARD = [{ labelId: '@SYS7149', labelFileId: 'SYS', model: 'ApplicationPlatform', text: 'Customer' }];
+
+const context = {
+  symbolIndex: {
+    getModelLabels: vi.fn(() => [{ labelId: 'CustomersVendors', labelFileId: 'ContosoExt', text: 'Other' }]),
+    searchLabels: vi.fn((query: string) => STANDARD.filter(l => l.text.toLowerCase().includes(query.toLowerCase()))),
+  },
+} as any;
+
+let root: string;
+let filePath: string;
+
+function call(args: Record<string, unknown>, runLabel?: any, runModify?: any) {
+  const request: CallToolRequest = { method: 'tools/call', params: { name: 'label_extract', arguments: args } };
+  return labelExtractTool(request, context, runLabel, runModify) as Promise<any>;
+}
+
+beforeAll(() => {
+  registerCustomModel('ContosoExt');
+  root = mkdtempSync(path.join(tmpdir(), 'label-extract-'));
+  const dir = path.join(root, 'ContosoExt', 'ContosoExt', 'AxForm');
+  mkdirSync(dir, { recursive: true });
+  filePath = path.join(dir, 'ConDemoForm.xml');
+  writeFileSync(filePath, FORM_XML);
+});
+
+afterAll(() => {
+  clearAutoDetectedModels();
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe('label extract — planning', () => {
+  it('derives an ID from the words of the text, numbered past the taken ones', () => {
+    const taken = new Set(['customersvendors']);
+    expect(labelIdFromText('Customers & vendors', taken)).toBe('CustomersVendors2');
+    expect(labelIdFromText('Déjà vu', taken)).toBe('DejaVu');
+    expect(labelIdFromText('100 %', taken)).toBe('Label100');
+  });
+
+  it('reuses an exact standard label, creates the rest, and addresses what modify can reach', () => {
+    const plan = planLabelExtraction(context, FORM_XML, { objectType: 'form', objectName: 'ConDemoForm', model: 'ContosoExt' });
+    expect(plan.map(l => [l.text, l.ref, l.created])).toEqual([
+      ['Customers & vendors', '@ContosoExt:CustomersVendors2', true],
+      ['Open lines', '@ContosoExt:OpenLines', true],
+      ['Customer', '@SYS7149', false],
+      ['Check the vendor', '@ContosoExt:CheckTheVendor', true],
+      ['Nothing selected', '@ContosoExt:NothingSelected', true],
+      ['Nothing selected', '@ContosoExt:NothingSelected', true],
+    ]);
+    expect(plan[0].edit).toEqual({ operation: 'modify-property', propertyPath: 'Caption', propertyValue: '@ContosoExt:CustomersVendors2' });
+    expect(plan[1].skipped).toContain("a control's <Caption>");
+    expect(plan[2].edit).toEqual({ operation: 'replace-code', oldCode: 'info("Customer"', newCode: 'info("@SYS7149"' });
+    expect(plan[4].skipped).toContain('repeats verbatim');
+  });
+});
+
+describe('label extract — the tool', () => {
+  it('dry run diffs in memory and writes nothing', async () => {
+    const runLabel = vi.fn();
+    const runModify = vi.fn();
+    const result = await call({ objectType: 'form', objectName: 'ConDemoForm', model: 'ContosoExt', packagePath: root, dryRun: true },
+      runLabel, runModify);
+    const text: string = result.content[0].text;
+    expect(result.isError).toBeUndefined();
+    expect(runLabel).not.toHaveBeenCalled();
+    expect(runModify).not.toHaveBeenCalled();
+    expect(text).toContain('6 hardcoded string(s), 4 new label(s), 1 existing label(s) reused');
+    expect(text).toContain('+        info("@SYS7149");');
+    expect(text).toContain('<Caption xmlns="">@ContosoExt:CustomersVendors2</Caption>');
+    expect(text).toContain('line 32 `<Caption>` "Open lines" → `@ContosoExt:OpenLines`');
+    expect(readFileSync(filePath, 'utf-8')).toBe(FORM_XML);
+  });
+
+  it('creates the labels before rewriting, and returns the diff of the file on disk', async () => {
+    const order: string[] = [];
+    const runLabel = vi.fn(async (req: CallToolRequest) => {
+      const a = req.params.arguments as any;
+      order.push(`label ${a.labelId}`);
+      expect(a).toMatchObject({ labelFileId: 'ContosoExt', model: 'ContosoExt', packagePath: root });
+      return { content: [{ type: 'text', text: '✅ created' }] };
+    });
+    const runModify = vi.fn(async (req: CallToolRequest) => {
+      const a = req.params.arguments as any;
+      order.push(a.operation);
+      expect(a).toMatchObject({ objectType: 'form', objectName: 'ConDemoForm', modelName: 'ContosoExt', filePath });
+      if (a.operation === 'replace-code') {
+        writeFileSync(filePath, readFileSync(filePath, 'utf-8').replace(a.oldCode, a.newCode));
+      }
+      return { content: [{ type: 'text', text: '✅ modified' }] };
+    });
+    const result = await call({ objectType: 'form', objectName: 'ConDemoForm', model: 'ContosoExt', packagePath: root },
+      runLabel, runModify);
+    expect(order).toEqual([
+      'label CustomersVendors2', 'label OpenLines', 'label CheckTheVendor', 'label NothingSelected',
+      'modify-property', 'replace-code', 'replace-code',
+    ]);
+    const text: string = result.content[0].text;
+    expect(result.isError).toBeUndefined();
+    expect(text).toContain('+        warning("@ContosoExt:CheckTheVendor");');
+    writeFileSync(filePath, FORM_XML);
+  });
+
+  it('does not point the source at a label it failed to create', async () => {
+    const runLabel = vi.fn(async (req: CallToolRequest) => (req.params.arguments as any).labelId === 'CheckTheVendor'
+      ? { content: [{ type: 'text', text: '❌ already exists' }], isError: true }
+      : { content: [{ type: 'text', text: '✅ created' }] });
+    const runModify = vi.fn(async () => ({ content: [{ type: 'text', text: '✅ modified' }] }));
+    const result = await call({ objectType: 'form', objectName: 'ConDemoForm', model: 'ContosoExt', packagePath: root },
+      runLabel, runModify);
+    expect(result.isError).toBe(true);
+    expect(runModify.mock.calls.map(([req]: any) => req.params.arguments.oldCode ?? req.params.arguments.propertyPath))
+      .toEqual(['Caption', 'info("Customer"']);
+    expect(result.content[0].text).toContain('label `@ContosoExt:CheckTheVendor`: ❌ already exists');
+  });
+
+  it('says where it looked when the object is not there', async () => {
+    const result = await call({ objectType: 'class', objectName: 'NoSuchClass', model: 'ContosoExt', packagePath: root });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('class "NoSuchClass" not found in model ContosoExt');
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * labels(action="gaps") — missing, untranslated and orphaned labels per
+ * language, and the XLIFF round trip a translator works through.
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import type { CallToolRequest } from '@modelcontextprotocol/sdk/types.js';
+import {
+  collectLabelGaps,
+  gapsToXliff,
+  importLabelXliff,
+  labelGapsTool,
+} from '../../src/tools/analysis/labelGaps';
+import { buildXliff, parseXliff } from '../../src/utils/xliff';
+import type { SingleLabelRunner } from '../../src/tools/write/createLabel';
+
+vi.mock('../../src/utils/configManager', () => ({
+  getConfigManager: vi.fn(() => ({
+    getDevEnvironmentType: vi.fn(async () => 'traditional'),
+    getPackagePath: vi.fn(() => null),
+  })),
+}));
+
+const BOM = '﻿';
+let root: string;
+let modelDir: string;
+
+function labelFile(lang: string, content: string, labelFileId = 'ContosoExt') {
+  const dir = path.join(modelDir, 'AxLabelFile', 'LabelResources', lang);
+  mkdirSync(dir, { recursive: true });
+  writeFileSync(path.join(dir, `${labelFileId}.${lang}.label.txt`), BOM + content);
+}
+
+function call(args: Record<string, unknown>) {
+  const request: CallToolRequest = { method: 'tools/call', params: { name: 'label_gaps', arguments: args } };
+  return labelGapsTool(request, {} as any) as Promise<any>;
+}
+
+beforeAll(() => {
+  root = mkdtempSync(path.join(tmpdir(), 'label-gaps-'));
+  modelDir = path.join(root, 'ContosoExt', 'ContosoExt');
+  labelFile('en-US',
+    'CustomerName=Customer name\r\n ;Shown on the customer form\r\n' +
+    'InvoiceDate=Invoice date\r\n' +
+    'Ratio=%1 / %2\r\n' +
+    'Status=Status\r\n');
+  labelFile('cs', 'CustomerName=Jméno zákazníka\r\nRatio=%1 / %2\r\nStatus=Status\r\nOldCaption=Starý titulek\r\n');
+  labelFile('de', 'CustomerName=Customer name\r\nInvoiceDate=Rechnungsdatum\r\nRatio=%1 / %2\r\nStatus=Status\r\n');
+});
+
+afterAll(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe('label gaps — comparing the language files', () => {
+  it('reports missing, identical and orphaned IDs per language', async () => {
+    const [file] = await collectLabelGaps(modelDir, 'ContosoExt', { sourceLanguage: 'en-US' });
+    expect(file).toMatchObject({ labelFileId: 'ContosoExt', sourceCount: 4 });
+    const [cs, de] = file.languages!;
+    expect(cs.language).toBe('cs');
+    expect(cs.missing.map(l => l.labelId)).toEqual(['InvoiceDate']);
+    expect(cs.identical.map(l => l.labelId)).toEqual(['Status']);
+    expect(cs.orphaned).toEqual(['OldCaption']);
+    expect(de.identical.map(l => l.labelId)).toEqual(['CustomerName', 'Status']);
+  });
+
+  it('does not report a text without letters as untranslated', async () => {
+    const [file] = await collectLabelGaps(modelDir, 'ContosoExt', { sourceLanguage: 'en-US' });
+    expect(file.languages!.flatMap(l => l.identical.map(i => i.labelId))).not.toContain('Ratio');
+  });
+
+  it('renders the per-language table through the tool', async () => {
+    const result = await call({ model: 'ContosoExt', packagePath: root, languages: ['cs'] });
+    const text: string = result.content[0].text;
+    expect(result.isError).toBeUndefined();
+    expect(text).toContain('## ContosoExt — 4 label(s) in en-US');
+    expect(text).toContain('| cs | 1 | 1 | 1 |');
+    expect(text).not.toContain('| de |');
+    expect(text).toContain('- Orphaned (not in en-US): OldCaption');
+  });
+
+  it('says where it looked when the model has no label files', async () => {
+    const result = await call({ model: 'NoSuchModel', packagePath: root });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('reads the files on disk, not the index');
+  });
+});
+
+describe('label gaps — XLIFF', () => {
+  it('exports missing labels empty and identical ones pre-filled, with the comment as a note', async () => {
+    const gaps = await collectLabelGaps(modelDir, 'ContosoExt', { sourceLanguage: 'en-US' });
+    const files = gapsToXliff(gaps, 'en-US');
+    expect(files.map(f => `${f.original}/${f.targetLanguage}`)).toEqual(['ContosoExt/cs', 'ContosoExt/de']);
+    expect(files[1].units[0]).toEqual({
+      id: 'CustomerName', source: 'Customer name', target: 'Customer name',
+      state: 'needs-translation', note: 'Shown on the customer form',
+    });
+    expect(files[0].units.find(u => u.id === 'InvoiceDate')!.target).toBeUndefined();
+  });
+
+  it('round-trips through the XML, escaping included', async () => {
+    const xml = buildXliff([{
+      original: 'ContosoExt', sourceLanguage: 'en-US', targetLanguage: 'de',
+      units: [{ id: 'Terms', source: 'Terms & <conditions>', target: 'AGB & <Bedingungen>', state: 'translated' }],
+    }]);
+    expect(xml).toContain('<source>Terms &amp; &lt;conditions&gt;</source>');
+    const [file] = await parseXliff(xml);
+    expect(file).toMatchObject({ original: 'ContosoExt', sourceLanguage: 'en-US', targetLanguage: 'de' });
+    expect(file.units).toEqual([{ id: 'Terms', source: 'Terms & <conditions>', target: 'AGB & <Bedingungen>', state: 'translated' }]);
+  });
+
+  it('writes the export to outputPath', async () => {
+    const outputPath = path.join(root, 'ContosoExt.xlf');
+    const result = await call({ model: 'ContosoExt', packagePath: root, format: 'xliff', outputPath });
+    expect(result.content[0].text).toContain('ContosoExt/cs (2), ContosoExt/de (2)');
+    expect(readFileSync(outputPath, 'utf-8')).toContain('<file original="ContosoExt" source-language="en-US" target-language="cs"');
+  });
+
+  it('imports translated units through the single-label update, one language each', async () => {
+    const calls: Array<Record<string, unknown>> = [];
+    const runner: SingleLabelRunner = async (req) => {
+      calls.push(req.params.arguments as Record<string, unknown>);
+      return { content: [{ type: 'text', text: '✅ updated' }] };
+    };
+    const files = await parseXliff(buildXliff([{
+      original: 'ContosoExt', sourceLanguage: 'en-US', targetLanguage: 'cs',
+      units: [
+        { id: 'InvoiceDate', source: 'Invoice date', target: 'Datum faktury', note: 'Header' },
+        { id: 'Status', source: 'Status', target: 'Status', state: 'needs-translation' },
+        { id: 'Empty', source: 'Empty' },
+      ],
+    }]));
+    const result = await importLabelXliff(files, { model: 'ContosoExt' }, {} as any, runner);
+    expect(calls).toEqual([{
+      model: 'ContosoExt',
+      labelId: 'InvoiceDate',
+      labelFileId: 'ContosoExt',
+      translations: [{ language: 'cs', text: 'Datum faktury', comment: 'Header' }],
+      languages: ['cs'],
+      overwriteExisting: true,
+      addToProject: false,
+    }]);
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].text).toContain('1 written, 0 failed, 2 skipped');
+  });
+
+  it('rejects a document that is not XLIFF without writing anything', async () => {
+    const result = await call({ model: 'ContosoExt', xliff: '<resources><string/></resources>' });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('no <xliff> root element');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * d365fo_file(action="merge") over a real git conflict — two branches that each
+ * added a field to the same table, which git's line merge cannot combine.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { mergeD365FileTool } from '../../src/tools/write/mergeD365File';
+
+const REL = 'ContosoPkg/ContosoExt/AxTable/ContosoWarranty.xml';
+
+const table = (fields: string, label = '@Contoso:Warranty') => `<?xml version="1.0" encoding="utf-8"?>
+<AxTable xmlns:i="http://www.w3.org/2001/XMLSchema-instance" xmlns="Microsoft.Dynamics.AX.Metadata.V6">
+\t<Name>ContosoWarranty</Name>
+\t<Label>${label}</Label>
+\t<TableGroup>Main</TableGroup>
+\t<Fields>${fields}
+\t</Fields>
+</AxTable>
+`;
+
+const field = (name: string) => `
+\t\t<AxTableField xmlns="" i:type="AxTableFieldString">
+\t\t\t<Name>${name}</Name>
+\t\t\t<ExtendedDataType>${name}</ExtendedDataType>
+\t\t</AxTableField>`;
+
+let repo: string;
+let file: string;
+
+function git(...args: string[]): void {
+  execFileSync('git', args, { cwd: repo, windowsHide: true, stdio: 'ignore' });
+}
+
+function commit(content: string, message: string): void {
+  fs.writeFileSync(file, content, 'utf-8');
+  git('add', '-A');
+  git('commit', '-m', message);
+}
+
+/** Two branches off one table, merged into a conflict git leaves in the index. */
+function conflictingMerge(ours: string, theirs: string): void {
+  git('checkout', '-b', 'feature');
+  commit(theirs, 'theirs');
+  git('checkout', 'main');
+  commit(ours, 'ours');
+  try { git('merge', 'feature'); } catch { /* the conflict is the point */ }
+}
+
+beforeEach(() => {
+  repo = fs.realpathSync.native(fs.mkdtempSync(path.join(os.tmpdir(), 'merge-d365fo-')));
+  file = path.join(repo, REL);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  git('init', '-b', 'main');
+  git('config', 'user.email', 'test@example.com');
+  git('config', 'user.name', 'test');
+  commit(table(field('ItemId')), 'base');
+});
+
+afterEach(() => {
+  try { fs.rmSync(repo, { recursive: true, force: true }); } catch { /* ignore */ }
+});
+
+describe('d365fo_file(action="merge")', () => {
+  it('merges a conflicted table from the git stages and writes it back', async () => {
+    conflictingMerge(table(field('ItemId') + field('WarrantyDays')), table(field('ItemId') + field('ServiceLevel')));
+    expect(fs.readFileSync(file, 'utf-8')).toContain('<<<<<<<');
+
+    const result = await mergeD365FileTool({ filePath: file, packagePath: repo }, {} as any);
+    expect(result.isError).toBeFalsy();
+    expect(result.content[0].text).toContain('No conflicts');
+    const merged = fs.readFileSync(file, 'utf-8');
+    expect(merged).not.toContain('<<<<<<<');
+    for (const name of ['ItemId', 'WarrantyDays', 'ServiceLevel']) expect(merged).toContain(`<Name>${name}</Name>`);
+  });
+
+  it('reports a true conflict without writing, and resolves it with prefer', async () => {
+    conflictingMerge(table(field('ItemId'), '@Contoso:Ours'), table(field('ItemId'), '@Contoso:Theirs'));
+    const before = fs.readFileSync(file, 'utf-8');
+
+    const refused = await mergeD365FileTool({ filePath: file, packagePath: repo }, {} as any);
+    expect(refused.isError).toBe(true);
+    expect(refused.content[0].text).toContain('1 conflict(s) in AxTable `ContosoWarranty` — nothing written');
+    expect(refused.content[0].text).toContain('"reason": "both-changed"');
+    expect(fs.readFileSync(file, 'utf-8')).toBe(before);
+
+    const resolved = await mergeD365FileTool({ filePath: file, packagePath: repo, prefer: 'theirs' }, {} as any);
+    expect(resolved.isError).toBeFalsy();
+    expect(fs.readFileSync(file, 'utf-8')).toContain('<Label>@Contoso:Theirs</Label>');
+  });
+
+  it('refuses a file that is not conflicted', async () => {
+    const result = await mergeD365FileTool({ filePath: file }, {} as any);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('is not conflicted in a git merge');
+  });
+});
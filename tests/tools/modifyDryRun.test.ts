@@ -0,0 +1,278 @@
+/**
+ * dryRun on operations the bridge writes — add-method, remove-method, add-field,
+ * add-index, modify-property. The bridge cannot write without saving, so the
+ * preview is the same change spliced into the XML in memory; the bridge is never
+ * called and nothing reaches the disk.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { modifyD365FileTool } from '../../src/tools/write/modifyD365File';
+import type { XppServerContext } from '../../src/types/context';
+import type { CallToolRequest } from '@modelcontextprotocol/sdk/types.js';
+
+const CLASS_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxClass xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+\t<Name>ConDemoService</Name>
+\t<SourceCode>
+\t\t<Declaration><![CDATA[
+public class ConDemoService
+{
+}
+]]></Declaration>
+\t\t<Methods>
+\t\t\t<Method>
+\t\t\t\t<Name>run</Name>
+\t\t\t\t<Source><![CDATA[
+    public void run()
+    {
+        if (this.count() <this.limit() && true)
+        {
+        }
+    }
+
+]]></Source>
+\t\t\t</Method>
+\t\t</Methods>
+\t</SourceCode>
+</AxClass>`;
+
+/** A field group's own <Fields> comes first — the splice must pass it by. */
+const TABLE_XML = `<?xml version="1.0" encoding="utf-8"?>
+<AxTable xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+\t<Name>ConDemoTable</Name>
+\t<SourceCode>
+\t\t<Declaration><![CDATA[
+public class ConDemoTable extends common
+{
+}
+]]></Declaration>
+\t\t<Methods />
+\t</SourceCode>
+\t<Label>@Contoso:Demo</Label>
+\t<DeleteActions />
+\t<FieldGroups>
+\t\t<AxTableFieldGroup>
+\t\t\t<Name>Overview</Name>
+\t\t\t<Fields>
+\t\t\t\t<AxTableFieldGroupField>
+\t\t\t\t\t<DataField>ItemId</DataField>
+\t\t\t\t</AxTableFieldGroupField>
+\t\t\t</Fields>
+\t\t</AxTableFieldGroup>
+\t</FieldGroups>
+\t<Fields>
+\t\t<AxTableField xmlns=""
+\t\t\ti:type="AxTableFieldString">
+\t\t\t<Name>ItemId</Name>
+\t\t\t<ExtendedDataType>ItemId</ExtendedDataType>
+\t\t</AxTableField>
+\t</Fields>
+\t<FullTextIndexes />
+\t<Indexes />
+\t<Mappings />
+\t<Relations />
+\t<StateMachines />
+</AxTable>`;
+
+const { mockWriteFile, files } = vi.hoisted(() => ({
+  mockWriteFile: vi.fn(async () => {}),
+  files: new Map<string, string>(),
+}));
+
+vi.mock('fs/promises', () => ({
+  readFile: vi.fn(async (p: string) => {
+    const hit = typeof p === 'string' ? files.get(p.replace(/^.*[\\/]/, '')) : undefined;
+    if (hit !== undefined) return hit;
+    if (typeof p === 'string' && p.endsWith('.rnrproj')) return `<Project><ItemGroup></ItemGroup></Project>`;
+    throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+  }),
+  writeFile: mockWriteFile,
+  mkdir: vi.fn(async () => {}),
+  access: vi.fn(async () => {}),
+  stat: vi.fn(async () => ({ isFile: () => true, isDirectory: () => false })),
+  readdir: vi.fn(async () => []),
+  copyFile: vi.fn(async () => {}),
+  rename: vi.fn(async () => {}),
+  rm: vi.fn(async () => {}),
+}));
+
+vi.mock('../../src/utils/configManager', () => ({
+  getConfigManager: vi.fn(() => ({
+    ensureLoaded: vi.fn(async () => {}),
+    getPackagePath: vi.fn(() => 'K:\\PackagesLocalDirectory'),
+    getModelName: vi.fn(() => 'MyModel'),
+    getWriteAnchorModel: vi.fn(() => 'MyModel'),
+    getToolProjectSwitch: vi.fn(() => null),
+    getPackageNameFromWorkspacePath: vi.fn(() => 'MyPackage'),
+    getProjectPath: vi.fn(async () => null),
+    getSolutionPath: vi.fn(async () => null),
+    getDevEnvironmentType: vi.fn(async () => 'traditional'),
+    getCustomPackagesPath: vi.fn(async () => null),
+    getMicrosoftPackagesPath: vi.fn(async () => null),
+  })),
+  fallbackPackagePath: vi.fn(() => 'C:\\AosService\\PackagesLocalDirectory'),
+  extractModelFromFilePath: vi.fn(() => null),
+}));
+
+vi.mock('../../src/utils/packageResolver', () => ({
+  PackageResolver: vi.fn().mockImplementation(() => ({
+    resolve: vi.fn(async (m: string) => ({ packageName: m, modelName: m, rootPath: 'K:\\PackagesLocalDirectory' })),
+    resolveWithPackage: vi.fn((m: string, p: string) => ({ packageName: p, modelName: m, rootPath: 'K:\\PackagesLocalDirectory' })),
+  })),
+}));
+
+vi.mock('../../src/utils/modelClassifier', () => ({
+  registerCustomModel: vi.fn(),
+  resolveObjectPrefix: vi.fn(() => ''),
+  applyObjectPrefix: vi.fn((name: string) => name),
+  getObjectSuffix: vi.fn(() => ''),
+  applyObjectSuffix: vi.fn((name: string) => name),
+  isCustomModel: vi.fn(() => true),
+  isStandardModel: vi.fn(() => false),
+}));
+
+const ROOT = 'K:\\PackagesLocalDirectory\\MyPackage\\MyModel';
+
+const req = (args: Record<string, unknown>): CallToolRequest => ({
+  method: 'tools/call',
+  params: { name: 'modify_d365fo_file', arguments: { dryRun: true, ...args } },
+});
+const onClass = (args: Record<string, unknown>) =>
+  req({ objectType: 'class', objectName: 'ConDemoService', filePath: `${ROOT}\\AxClass\\ConDemoService.xml`, ...args });
+const onTable = (args: Record<string, unknown>) =>
+  req({ objectType: 'table', objectName: 'ConDemoTable', filePath: `${ROOT}\\AxTable\\ConDemoTable.xml`, ...args });
+
+/** Every bridge write method, so a test can prove none of them ran. */
+const bridgeWrites = {
+  addMethod: vi.fn(), removeMethod: vi.fn(), addField: vi.fn(), modifyField: vi.fn(),
+  addIndex: vi.fn(), setProperty: vi.fn(), replaceCode: vi.fn(),
+};
+
+const buildContext = (): XppServerContext => {
+  const stmt = { all: vi.fn(() => []), get: vi.fn(() => undefined), run: vi.fn() };
+  return {
+    symbolIndex: {
+      searchSymbols: vi.fn(() => []),
+      getSymbolByName: vi.fn(() => undefined),
+      getCustomModels: vi.fn(() => ['MyModel']),
+      db: { prepare: vi.fn(() => stmt) },
+      getReadDb: vi.fn(function (this: any) { return this.db; }),
+    } as any,
+    parser: {} as any,
+    cache: { get: vi.fn(async () => null), set: vi.fn(async () => {}), generateSearchKey: vi.fn((q: string) => `k:${q}`) } as any,
+    workspaceScanner: {} as any,
+    hybridSearch: {} as any,
+    bridge: { isReady: true, metadataAvailable: true, ...bridgeWrites } as any,
+  };
+};
+
+/** The +/- lines of the reply's diff, without the file headers. */
+const changed = (text: string): string[] =>
+  (text.match(/```diff\n([\s\S]*?)\n```/g) ?? []).join('\n').split('\n')
+    .filter(l => /^[-+]/.test(l) && !/^(---|\+\+\+) /.test(l));
+
+let ctx: XppServerContext;
+
+beforeEach(() => {
+  mockWriteFile.mockClear();
+  for (const fn of Object.values(bridgeWrites)) fn.mockClear();
+  files.clear();
+  files.set('ConDemoService.xml', CLASS_XML);
+  files.set('ConDemoTable.xml', TABLE_XML);
+  ctx = buildContext();
+});
+
+describe('dryRun on bridge operations', () => {
+  it('splices add-method into the methods and says the bridge makes the real change', async () => {
+    const result = await modifyD365FileTool(onClass({
+      operation: 'add-method', methodName: 'stop', sourceCode: 'private void stop()\n{\n}',
+    }), ctx);
+
+    expect(result.isError).toBeFalsy();
+    const text = result.content[0].text as string;
+    expect(text).toContain('🔍 Dry run — add-method on class "ConDemoService": nothing was written.');
+    expect(text).toContain('_The bridge writes this change;');
+    expect(changed(text)).toEqual([
+      '+\t\t\t<Method>',
+      '+\t\t\t\t<Name>stop</Name>',
+      '+\t\t\t\t<Source><![CDATA[',
+      '+    private void stop()',
+      '+    {',
+      '+    }',
+      '+',
+      '+]]></Source>',
+      '+\t\t\t</Method>',
+    ]);
+    expect(bridgeWrites.addMethod).not.toHaveBeenCalled();
+    expect(mockWriteFile).not.toHaveBeenCalled();
+  });
+
+  it('replaces a method of the same name, as the bridge does', async () => {
+    const result = await modifyD365FileTool(onClass({
+      operation: 'add-method', methodName: 'Run', sourceCode: 'public void run()\n{\n    this.stop();\n}',
+    }), ctx);
+
+    expect(result.isError).toBeFalsy();
+    const text = result.content[0].text as string;
+    expect(changed(text)).toContain('+        this.stop();');
+    expect(changed(text)).toContain('-        if (this.count() <this.limit() && true)');
+    expect(text).toContain("applied via this server's XML splice");
+    expect(changed(text).filter(l => /<Name>/.test(l))).toEqual(['-\t\t\t\t<Name>run</Name>', '+\t\t\t\t<Name>Run</Name>']);
+  });
+
+  it('takes a method out with remove-method', async () => {
+    const result = await modifyD365FileTool(onClass({ operation: 'remove-method', methodName: 'run' }), ctx);
+    expect(result.isError).toBeFalsy();
+    expect(changed(result.content[0].text as string)).toContain('-\t\t\t\t<Name>run</Name>');
+    expect(bridgeWrites.removeMethod).not.toHaveBeenCalled();
+  });
+
+  it('adds a table field to the table fields, not to a field group', async () => {
+    const result = await modifyD365FileTool(onTable({
+      operation: 'add-field', fieldName: 'ConNote', fieldType: 'Description', fieldBaseType: 'String',
+    }), ctx);
+
+    expect(result.isError).toBeFalsy();
+    const text = result.content[0].text as string;
+    expect(changed(text)).toEqual([
+      '+\t\t<AxTableField xmlns=""',
+      '+\t\t\ti:type="AxTableFieldString">',
+      '+\t\t\t<Name>ConNote</Name>',
+      '+\t\t\t<ExtendedDataType>Description</ExtendedDataType>',
+      '+\t\t</AxTableField>',
+    ]);
+    expect(text).toMatch(/<\/AxTableField>\n\+\t\t<AxTableField xmlns=""/);
+    expect(bridgeWrites.addField).not.toHaveBeenCalled();
+  });
+
+  it('previews add-index and modify-property through their XML fallback writers', async () => {
+    const index = await modifyD365FileTool(onTable({
+      operation: 'add-index', indexName: 'NoteIdx', indexFields: [{ fieldName: 'ConNote' }],
+    }), ctx);
+    expect(index.isError).toBeFalsy();
+    expect(changed(index.content[0].text as string)).toContain('+\t\t\t<Name>NoteIdx</Name>');
+
+    const property = await modifyD365FileTool(onTable({
+      operation: 'modify-property', propertyPath: 'Label', propertyValue: '@Contoso:Notes',
+    }), ctx);
+    expect(property.isError).toBeFalsy();
+    expect(changed(property.content[0].text as string)).toEqual([
+      '-\t<Label>@Contoso:Demo</Label>',
+      '+\t<Label>@Contoso:Notes</Label>',
+    ]);
+
+    expect(bridgeWrites.addIndex).not.toHaveBeenCalled();
+    expect(bridgeWrites.setProperty).not.toHaveBeenCalled();
+    expect(mockWriteFile).not.toHaveBeenCalled();
+  });
+
+  it('refuses a method on a form data source, which the splice cannot reach', async () => {
+    files.set('ConDemoForm.xml', '<AxForm>\n\t<Name>ConDemoForm</Name>\n\t<SourceCode>\n\t\t<Methods />\n\t</SourceCode>\n</AxForm>');
+    const result = await modifyD365FileTool(req({
+      objectType: 'form', objectName: 'ConDemoForm', filePath: `${ROOT}\\AxForm\\ConDemoForm.xml`,
+      operation: 'add-method', methodName: 'ConDemoTable.init', sourceCode: 'public void init()\n{\n}',
+    }), ctx);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text as string).toContain("dryRun cannot preview 'ConDemoTable.init'");
+  });
+});
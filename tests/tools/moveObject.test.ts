@@ -0,0 +1,206 @@
+/**
+ * d365fo_file(action="move") between two custom models on disk — the object and
+ * its extension move and re-prefix, its labels follow it, and both projects and
+ * descriptors are updated; the cross-model guard covers both ends.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { moveObjectTool } from '../../src/tools/write/moveObject';
+import { getConfigManager } from '../../src/utils/configManager';
+import { clearAutoDetectedModels, registerCustomModel } from '../../src/utils/modelClassifier';
+
+let root: string;
+let coreProject: string;
+let serviceProject: string;
+
+const write = (rel: string, content: string) => {
+  const file = path.join(root, rel);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content, 'utf-8');
+  return file;
+};
+const read = (rel: string) => fs.readFileSync(path.join(root, rel), 'utf-8');
+const exists = (rel: string) => fs.existsSync(path.join(root, rel));
+
+const descriptor = (model: string, refs: string[]) => `<?xml version="1.0" encoding="utf-8"?>
+<AxModelInfo xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+\t<ModelModule>${model}</ModelModule>
+\t<ModuleReferences xmlns:d2p1="http://schemas.microsoft.com/2003/10/Serialization/Arrays">
+${refs.map(r => `\t\t<d2p1:string>${r}</d2p1:string>`).join('\n')}
+\t</ModuleReferences>
+\t<Name>${model}</Name>
+</AxModelInfo>
+`;
+
+const project = (includes: string[]) => [
+  '<Project>', '  <ItemGroup>',
+  ...includes.map(i => `    <Content Include="${i}" />`),
+  '  </ItemGroup>', '</Project>', '',
+].join('\n');
+
+beforeEach(() => {
+  root = fs.realpathSync.native(fs.mkdtempSync(path.join(os.tmpdir(), 'move-object-')));
+  delete process.env.EXTENSION_PREFIX;
+  registerCustomModel('ContosoCore');
+  registerCustomModel('ContosoService');
+
+  write('ContosoCore/Descriptor/ContosoCore.xml', descriptor('ContosoCore', ['ApplicationPlatform', 'ApplicationSuite']));
+  write('ContosoCore/ContosoCore/AxTable/ContosoCoreWarranty.xml', `<?xml version="1.0" encoding="utf-8"?>
+<AxTable xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+\t<Name>ContosoCoreWarranty</Name>
+\t<Label>@ContosoCore:Warranty</Label>
+\t<SourceCode>
+\t\t<Methods>
+\t\t\t<Method>
+\t\t\t\t<Name>days</Name>
+\t\t\t\t<Source><![CDATA[
+public int days()
+{
+    return ContosoCoreParameters::find().WarrantyDays;
+}
+]]></Source>
+\t\t\t</Method>
+\t\t</Methods>
+\t</SourceCode>
+</AxTable>
+`);
+  write('ContosoCore/ContosoCore/AxTableExtension/ContosoCoreWarranty.ContosoCoreAudit.xml',
+    '<AxTableExtension>\n\t<Name>ContosoCoreWarranty.ContosoCoreAudit</Name>\n</AxTableExtension>\n');
+  write('ContosoCore/ContosoCore/AxClass/ContosoCoreParameters.xml', '<AxClass>\n\t<Name>ContosoCoreParameters</Name>\n</AxClass>\n');
+  write('ContosoCore/ContosoCore/AxForm/ContosoCoreWarrantyForm.xml', `<AxForm>
+\t<Name>ContosoCoreWarrantyForm</Name>
+\t<DataSources>
+\t\t<AxFormDataSource>
+\t\t\t<Name>ContosoCoreWarranty</Name>
+\t\t\t<Table>ContosoCoreWarranty</Table>
+\t\t</AxFormDataSource>
+\t</DataSources>
+</AxForm>
+`);
+  write('ContosoCore/ContosoCore/AxLabelFile/LabelResources/en-US/ContosoCore.en-US.label.txt',
+    '\uFEFFWarranty=Warranty\n ;Table label\n');
+
+  write('ContosoService/Descriptor/ContosoService.xml', descriptor('ContosoService', ['ApplicationPlatform']));
+  write('ContosoService/ContosoService/AxLabelFile/LabelResources/en-US/ContosoService.en-US.label.txt',
+    '\uFEFFContract=Contract\n');
+
+  coreProject = write('ContosoCore.rnrproj', project([
+    'AxTable\\ContosoCoreWarranty', 'AxTableExtension\\ContosoCoreWarranty.ContosoCoreAudit', 'AxForm\\ContosoCoreWarrantyForm',
+  ]));
+  serviceProject = write('ContosoService.rnrproj', project([]));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  delete process.env.D365FO_CROSS_MODEL_WRITE_MODELS;
+  clearAutoDetectedModels();
+  try { fs.rmSync(root, { recursive: true, force: true }); } catch { /* ignore */ }
+});
+
+const args = (extra: Record<string, unknown> = {}) => ({
+  objectType: 'table',
+  objectName: 'ContosoCoreWarranty',
+  targetModel: 'ContosoService',
+  filePath: path.join(root, 'ContosoCore', 'ContosoCore', 'AxTable', 'ContosoCoreWarranty.xml'),
+  packagePath: root,
+  projectPath: coreProject,
+  targetProjectPath: serviceProject,
+  ...extra,
+});
+
+describe('d365fo_file(action="move")', () => {
+  it('lists the move on a dry run and writes nothing', async () => {
+    const result = await moveObjectTool(args({ dryRun: true }), undefined);
+    const text = result.content[0].text;
+    expect(result.isError).toBeFalsy();
+    expect(text).toContain('ContosoCore → ContosoService as `ContosoServiceWarranty`');
+    expect(text).toMatch(/AxTable[\\/]ContosoCoreWarranty\.xml → ContosoService[\\/]ContosoService[\\/]AxTable[\\/]ContosoServiceWarranty\.xml/);
+    expect(text).toContain('ContosoServiceWarranty.ContosoServiceAudit.xml');
+    expect(text).toContain('1 label reference(s) → @ContosoService');
+    expect(text).toContain('+ ModuleReferences ApplicationSuite, ContosoCore');
+    expect(text).toContain('project ContosoService — + AxTable\\ContosoServiceWarranty');
+    expect(text).toContain('Prefix: "ContosoCore"');
+    expect(exists('ContosoService/ContosoService/AxTable/ContosoServiceWarranty.xml')).toBe(false);
+  });
+
+  it('moves and re-prefixes the object and its extension, with labels, projects and descriptors', async () => {
+    const result = await moveObjectTool(args(), undefined);
+    expect(result.isError).toBeFalsy();
+
+    expect(exists('ContosoCore/ContosoCore/AxTable/ContosoCoreWarranty.xml')).toBe(false);
+    const table = read('ContosoService/ContosoService/AxTable/ContosoServiceWarranty.xml');
+    expect(table).toContain('<Name>ContosoServiceWarranty</Name>');
+    expect(table).toContain('<Label>@ContosoService:Warranty</Label>');
+    expect(read('ContosoService/ContosoService/AxTableExtension/ContosoServiceWarranty.ContosoServiceAudit.xml'))
+      .toContain('<Name>ContosoServiceWarranty.ContosoServiceAudit</Name>');
+    // What stays behind follows the rename.
+    expect(read('ContosoCore/ContosoCore/AxForm/ContosoCoreWarrantyForm.xml')).toContain('<Table>ContosoServiceWarranty</Table>');
+
+    const labels = read('ContosoService/ContosoService/AxLabelFile/LabelResources/en-US/ContosoService.en-US.label.txt');
+    expect(labels).toBe('\uFEFFContract=Contract\nWarranty=Warranty\n ;Table label\n');
+    expect(read('ContosoCore/ContosoCore/AxLabelFile/LabelResources/en-US/ContosoCore.en-US.label.txt')).toContain('Warranty=Warranty');
+
+    expect(read('ContosoService/Descriptor/ContosoService.xml'))
+      .toContain('\t\t<d2p1:string>ApplicationPlatform</d2p1:string>\n\t\t<d2p1:string>ApplicationSuite</d2p1:string>\n\t\t<d2p1:string>ContosoCore</d2p1:string>\n');
+    // The form still uses the table, but ContosoService now references ContosoCore.
+    expect(read('ContosoCore/Descriptor/ContosoCore.xml')).not.toContain('ContosoService');
+    expect(result.content[0].text).toContain('referencing "ContosoService" back would be circular');
+
+    expect(fs.readFileSync(coreProject, 'utf-8')).not.toContain('ContosoCoreWarranty"');
+    expect(fs.readFileSync(coreProject, 'utf-8')).toContain('AxForm\\ContosoCoreWarrantyForm');
+    const joined = fs.readFileSync(serviceProject, 'utf-8');
+    expect(joined).toContain('AxTable\\ContosoServiceWarranty');
+    expect(joined).toContain('AxTableExtension\\ContosoServiceWarranty.ContosoServiceAudit');
+  });
+
+  it('re-prefixes the type but not a variable named after it', async () => {
+    write('ContosoCore/ContosoCore/AxClass/ContosoCoreWarrantyService.xml', `<AxClass>
+\t<Name>ContosoCoreWarrantyService</Name>
+\t<SourceCode>
+\t\t<Declaration><![CDATA[
+class ContosoCoreWarrantyService
+{
+    public int days(RecId _recId)
+    {
+        ContosoCoreWarranty contosoCoreWarranty = ContosoCoreWarranty::findRecId(_recId);
+        return contosoCoreWarranty.days();
+    }
+}
+]]></Declaration>
+\t</SourceCode>
+</AxClass>
+`);
+    const result = await moveObjectTool(args(), undefined);
+    expect(result.isError).toBeFalsy();
+    expect(read('ContosoCore/ContosoCore/AxClass/ContosoCoreWarrantyService.xml')).toContain(
+      '        ContosoServiceWarranty contosoCoreWarranty = ContosoServiceWarranty::findRecId(_recId);\n' +
+      '        return contosoCoreWarranty.days();');
+    expect(result.content[0].text).toContain('ContosoCoreWarrantyService (2)');
+  });
+
+  it('keeps names and labels where asked', async () => {
+    const result = await moveObjectTool(args({ reprefix: false, moveLabels: false, includeExtensions: false }), undefined);
+    expect(result.isError).toBeFalsy();
+    const table = read('ContosoService/ContosoService/AxTable/ContosoCoreWarranty.xml');
+    expect(table).toContain('<Label>@ContosoCore:Warranty</Label>');
+    expect(exists('ContosoCore/ContosoCore/AxTableExtension/ContosoCoreWarranty.ContosoCoreAudit.xml')).toBe(true);
+    expect(result.content[0].text).toContain('label(s) stay in "ContosoCore" (moveLabels=false)');
+  });
+
+  it('is refused by the cross-model guard unless the other model is allowed', async () => {
+    vi.spyOn(getConfigManager(), 'resolveWriteAnchorModel').mockResolvedValue('ContosoCore');
+    const refused = await moveObjectTool(args(), undefined);
+    expect(refused.isError).toBe(true);
+    expect(refused.content[0].text).toContain('Refusing to move "ContosoCoreWarranty" in model "ContosoService"');
+    expect(refused.content[0].text).not.toContain('Extend it from');
+    expect(exists('ContosoCore/ContosoCore/AxTable/ContosoCoreWarranty.xml')).toBe(true);
+
+    process.env.D365FO_CROSS_MODEL_WRITE_MODELS = 'ContosoService';
+    const allowed = await moveObjectTool(args(), undefined);
+    expect(allowed.isError).toBeFalsy();
+    expect(allowed.content[0].text).toContain('Cross-model write permitted by configuration');
+  });
+});
@@ -546,4 +546,38 @@ describe('data-entity query ranges via the modify surface', () => {
     );
     expect(result.content[0].text as string).not.toMatch(/overwrite=true/);
   });
+  describe('dryRun', () => {
+    it('returns the range as a diff computed in memory and writes nothing', async () => {
+      const result = await modifyD365FileTool(
+        req({ operation: 'add-query-range', dataSourceName: 'ConDemoTable', rangeField: 'IsActive', rangeValue: '1', dryRun: true }),
+        ctx,
+      );
+
+      expect(result.isError).toBeFalsy();
+      const text = result.content[0].text as string;
+      expect(text).toContain('🔍 Dry run — add-query-range on data-entity "ConDemoEntity": nothing was written.');
+      expect(text).toContain('```diff\n--- a/ConDemoEntity.xml\n+++ b/ConDemoEntity.xml');
+      expect(text).toContain('+\t\t\t\t\t\t<Name>IsActive</Name>');
+      expect(mockWriteFile).not.toHaveBeenCalled();
+    });
+
+    it('runs the offline best-practice rules on the previewed XML when bpCheck is set', async () => {
+      const result = await modifyD365FileTool(
+        req({ operation: 'add-query-range', dataSourceName: 'ConDemoTable', rangeField: 'IsActive', rangeValue: '1', dryRun: true, bpCheck: true }),
+        ctx,
+      );
+      expect(result.content[0].text as string).toContain('### Best-practice check (bpCheck=true — offline rules on the previewed XML');
+      expect(mockWriteFile).not.toHaveBeenCalled();
+    });
+
+    it('refuses an operation with no XML splice', async () => {
+      const result = await modifyD365FileTool(
+        req({ objectType: 'enum', objectName: 'ConDemoStatus', operation: 'add-enum-value', enumValueName: 'Closed', dryRun: true }),
+        ctx,
+      );
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text as string).toContain("dryRun is not available for 'add-enum-value' on enum");
+      expect(mockWriteFile).not.toHaveBeenCalled();
+    });
+  });
 });
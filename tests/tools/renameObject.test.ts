@@ -0,0 +1,180 @@
+/**
+ * d365fo_file(action="rename") over a model on disk — the object, its
+ * extension objects, the files referencing it and the project includes all
+ * move together, and a standard-model reference stops the rename.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { renameObjectTool } from '../../src/tools/write/renameObject';
+import { clearAutoDetectedModels, registerCustomModel } from '../../src/utils/modelClassifier';
+
+let root: string;
+let modelDir: string;
+let project: string;
+
+const write = (rel: string, content: string) => {
+  const file = path.join(modelDir, rel);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content, 'utf-8');
+  return file;
+};
+const read = (rel: string) => fs.readFileSync(path.join(modelDir, rel), 'utf-8');
+
+beforeEach(() => {
+  root = fs.realpathSync.native(fs.mkdtempSync(path.join(os.tmpdir(), 'rename-object-')));
+  modelDir = path.join(root, 'ContosoPkg', 'ContosoExt');
+  registerCustomModel('ContosoExt');
+
+  write('AxTable/ContosoWarranty.xml', `<?xml version="1.0" encoding="utf-8"?>
+<AxTable xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+\t<Name>ContosoWarranty</Name>
+\t<SourceCode>
+\t\t<Methods>
+\t\t\t<Method>
+\t\t\t\t<Name>find</Name>
+\t\t\t\t<Source><![CDATA[
+public static ContosoWarranty find(ItemId _itemId)
+{
+    ContosoWarranty warranty;
+    select firstonly warranty where warranty.ItemId == _itemId;
+    return warranty;
+}
+]]></Source>
+\t\t\t</Method>
+\t\t</Methods>
+\t</SourceCode>
+</AxTable>
+`);
+  write('AxTableExtension/ContosoWarranty.ContosoAudit.xml',
+    '<AxTableExtension>\n\t<Name>ContosoWarranty.ContosoAudit</Name>\n</AxTableExtension>\n');
+  write('AxClass/ContosoWarranty_Extension.xml', `<AxClass>
+\t<Name>ContosoWarranty_Extension</Name>
+\t<SourceCode>
+\t\t<Declaration><![CDATA[
+[ExtensionOf(tableStr(ContosoWarranty))]
+final class ContosoWarranty_Extension
+{
+}
+]]></Declaration>
+\t</SourceCode>
+</AxClass>
+`);
+  write('AxForm/ContosoWarrantyForm.xml', `<AxForm>
+\t<Name>ContosoWarrantyForm</Name>
+\t<DataSources>
+\t\t<AxFormDataSource>
+\t\t\t<Name>ContosoWarranty</Name>
+\t\t\t<Table>ContosoWarranty</Table>
+\t\t</AxFormDataSource>
+\t</DataSources>
+</AxForm>
+`);
+  write('AxClass/ContosoUnrelated.xml', '<AxClass>\n\t<Name>ContosoUnrelated</Name>\n</AxClass>\n');
+  project = path.join(root, 'ContosoExt.rnrproj');
+  fs.writeFileSync(project, [
+    '<Project>', '  <ItemGroup>',
+    '    <Content Include="AxTable\\ContosoWarranty" />',
+    '    <Content Include="AxTableExtension\\ContosoWarranty.ContosoAudit" />',
+    '    <Content Include="AxClass\\ContosoWarranty_Extension" />',
+    '    <Content Include="AxForm\\ContosoWarrantyForm" />',
+    '  </ItemGroup>', '</Project>', '',
+  ].join('\n'), 'utf-8');
+});
+
+afterEach(() => {
+  clearAutoDetectedModels();
+  try { fs.rmSync(root, { recursive: true, force: true }); } catch { /* ignore */ }
+});
+
+const args = (extra: Record<string, unknown> = {}) => ({
+  objectType: 'table',
+  objectName: 'ContosoWarranty',
+  newName: 'ContosoContract',
+  filePath: path.join(modelDir, 'AxTable', 'ContosoWarranty.xml'),
+  packagePath: root,
+  projectPath: project,
+  ...extra,
+});
+
+describe('d365fo_file(action="rename")', () => {
+  it('lists every file it would touch on a dry run and writes nothing', async () => {
+    const result = await renameObjectTool(args({ dryRun: true }), undefined);
+    const text = result.content[0].text;
+    expect(result.isError).toBeFalsy();
+    expect(text).toContain('5 file(s) would change, nothing written');
+    expect(text).toMatch(/AxTable[\\/]ContosoWarranty\.xml → ContosoContract\.xml — renamed to ContosoContract; 2 X\+\+ references/);
+    expect(text).toContain('→ ContosoContract.ContosoAudit.xml');
+    expect(text).toContain('→ ContosoContract_Extension.xml');
+    expect(text).toMatch(/AxForm[\\/]ContosoWarrantyForm\.xml — 1 property/);
+    expect(text).toContain('ContosoExt — 3 project include(s)');
+    expect(text).not.toContain('ContosoUnrelated');
+    expect(fs.existsSync(path.join(modelDir, 'AxTable', 'ContosoContract.xml'))).toBe(false);
+  });
+
+  it('renames the object, its extensions and its references, and the project includes', async () => {
+    const result = await renameObjectTool(args(), undefined);
+    expect(result.isError).toBeFalsy();
+    expect(fs.existsSync(path.join(modelDir, 'AxTable', 'ContosoWarranty.xml'))).toBe(false);
+    const table = read('AxTable/ContosoContract.xml');
+    expect(table).toContain('<Name>ContosoContract</Name>');
+    expect(table).toContain('public static ContosoContract find(ItemId _itemId)');
+    expect(read('AxTableExtension/ContosoContract.ContosoAudit.xml')).toContain('<Name>ContosoContract.ContosoAudit</Name>');
+    expect(read('AxClass/ContosoContract_Extension.xml')).toContain('[ExtensionOf(tableStr(ContosoContract))]\nfinal class ContosoContract_Extension');
+    expect(read('AxForm/ContosoWarrantyForm.xml')).toContain('<Table>ContosoContract</Table>');
+    const includes = fs.readFileSync(project, 'utf-8');
+    expect(includes).toContain('Include="AxTable\\ContosoContract"');
+    expect(includes).toContain('Include="AxClass\\ContosoContract_Extension"');
+    expect(includes).toContain('Include="AxForm\\ContosoWarrantyForm"');
+  });
+
+  it('keeps a variable named after the object and reports it', async () => {
+    write('AxClass/ContosoWarrantyService.xml', `<AxClass>
+\t<Name>ContosoWarrantyService</Name>
+\t<SourceCode>
+\t\t<Declaration><![CDATA[
+class ContosoWarrantyService
+{
+    ContosoWarranty contosoWarranty;
+
+    void run()
+    {
+        info(contosoWarranty.ItemId);
+    }
+}
+]]></Declaration>
+\t</SourceCode>
+</AxClass>
+`);
+    const result = await renameObjectTool(args(), undefined);
+    expect(result.isError).toBeFalsy();
+    expect(read('AxClass/ContosoWarrantyService.xml')).toContain(
+      '    ContosoContract contosoWarranty;\n\n    void run()\n    {\n        info(contosoWarranty.ItemId);');
+    expect(result.content[0].text).toContain('in another casing outside a type position were left as written');
+    expect(result.content[0].text).toMatch(/ContosoWarrantyService\.xml \(2\)/);
+  });
+
+  it('refuses when a standard model references the object', async () => {
+    const bridge = {
+      isReady: true,
+      xrefAvailable: true,
+      findReferences: async () => ({
+        references: [{ sourcePath: '/Classes/SalesFormLetter/Methods/run', sourceModule: 'ApplicationSuite', line: 1, column: 1 }],
+      }),
+    };
+    const result = await renameObjectTool(args(), { bridge } as any);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('1 reference(s) from standard models (cross-reference DB)');
+    expect(result.content[0].text).toContain('/Classes/SalesFormLetter/Methods/run (ApplicationSuite)');
+    expect(fs.existsSync(path.join(modelDir, 'AxTable', 'ContosoWarranty.xml'))).toBe(true);
+  });
+
+  it('refuses a name that is already taken', async () => {
+    write('AxTable/ContosoContract.xml', '<AxTable>\n\t<Name>ContosoContract</Name>\n</AxTable>\n');
+    const result = await renameObjectTool(args(), undefined);
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('AxTable\\ContosoContract already exists');
+  });
+});
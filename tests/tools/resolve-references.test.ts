@@ -376,6 +376,104 @@ describe('resolveXppReferences — arity checks', () => {
   });
 });
 
+// ─── Type inference ──────────────────────────────────────────────────────────
+
+describe('resolveXppReferences — inferred member access', () => {
+  const kinds = (code: string) =>
+    resolveXppReferences(code, deps).violations.map(v => `${v.severity}:${v.kind}:${v.identifier}`);
+
+  it('types a call through its return type', () => {
+    expect(kinds('CustTable::find("c1").FakeField = 1;'))
+      .toEqual(['error:unknown-field:CustTable.FakeField']);
+    expect(kinds('if (CustTable::find("c1").Blocked) {}')).toEqual([]);
+  });
+
+  it('types this, and this.orig(), as the table an extension wraps', () => {
+    const code = `
+[ExtensionOf(tableStr(CustTable))]
+final class CustTableContoso_Extension
+{
+    public boolean validateWrite()
+    {
+        boolean ret = next validateWrite();
+        if (this.AccountNum != this.orig().AccountNum && this.orig().FakeOrig)
+        {
+            this.NewField = 1;
+        }
+        return ret;
+    }
+}`;
+    // this.NewField may be added by the same task's XML — a warning, not a block.
+    expect(kinds(code)).toEqual([
+      'error:unknown-field:CustTable.FakeOrig',
+      'warning:unknown-field:CustTable.NewField',
+    ]);
+  });
+
+  it('holds an instance call to the declared arity', () => {
+    const code = `
+ContosoChild child = new ContosoChild();
+child.doStuff();
+child.doStuff(1);
+child.doStuff(1, "b", 3);`;
+    const arity = resolveXppReferences(code, deps).violations.filter(v => v.kind === 'arity-mismatch');
+    expect(arity.map(v => v.line)).toEqual([3, 5]);
+    expect(arity[0].identifier).toBe('ContosoChild.doStuff');
+  });
+
+  it('infers var from its initializer', () => {
+    expect(kinds('var child = new ContosoChild();\nchild.noSuchMethod();'))
+      .toEqual(['warning:unknown-method:ContosoChild.noSuchMethod()']);
+  });
+
+  it('checks this against the methods of a class the snippet declares', () => {
+    const code = `
+class ContosoNewHelper
+{
+    private int twice(int _x)
+    {
+        return _x * 2;
+    }
+
+    public void run()
+    {
+        this.twice(1, 2);
+        this.thrice(1);
+    }
+}`;
+    expect(kinds(code)).toEqual([
+      'error:arity-mismatch:ContosoNewHelper.twice',
+      'warning:unknown-method:ContosoNewHelper.thrice()',
+    ]);
+  });
+
+  it('scopes locals to their method', () => {
+    const code = `
+class ContosoScopes
+{
+    public void a()
+    {
+        CustTable buffer;
+        buffer.AccountNum = "";
+    }
+
+    public void b()
+    {
+        SalesTable buffer;
+        buffer.SalesId = "";
+    }
+}`;
+    expect(errorsOf(code)).toEqual([]);
+  });
+
+  it('does not type a lambda parameter that shadows a local', () => {
+    const code = `
+CustTable row;
+list.forEach((row) => { row.Anything = 1; });`;
+    expect(errorsOf(code)).toEqual([]);
+  });
+});
+
 // ─── Model visibility ────────────────────────────────────────────────────────
 
 describe('resolveXppReferences — Descriptor visibility', () => {
@@ -0,0 +1,192 @@
+/**
+ * Custom rule packs — loaded from files, run next to the built-in rules by
+ * validate_code(mode="syntax") and the write-time gate.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { loadRulePacks } from '../../src/tools/analysis/rulePacks';
+import { runRules, validateXppTool } from '../../src/tools/analysis/validateXpp';
+import { validateWrittenXpp } from '../../src/tools/write/inlineXppValidation';
+
+const ORIGINAL = process.env.D365FO_RULE_PACKS;
+let dir: string;
+
+const writePack = (name: string, pack: unknown) =>
+  fs.writeFileSync(path.join(dir, name), typeof pack === 'string' ? pack : JSON.stringify(pack));
+
+const HOUSE_RULES = {
+  prefix: 'CON',
+  disabledModels: ['ContosoLegacy'],
+  rules: [
+    {
+      id: 'CON001', severity: 'warning', fix: 'Name the fields.',
+      ast: { kind: 'SelectQuery', name: '^InventTrans$', empty: ['fields'] },
+    },
+    {
+      id: 'CON002', severity: 'error', fix: 'Check _args.caller().',
+      ast: { kind: 'Method', name: '^main$', hasNot: { kind: 'Call', name: '^caller$' } },
+    },
+    { id: 'CON003', severity: 'warning', fix: 'No doUpdate.', pattern: String.raw`\bdoUpdate\s*\(` },
+    {
+      id: 'CON004', severity: 'warning', fix: 'Label every field.',
+      xpath: '//AxTableField[not(Label)]', enabledModels: ['ContosoCore'],
+    },
+  ],
+};
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rule-packs-'));
+  process.env.D365FO_RULE_PACKS = dir;
+});
+
+afterEach(() => {
+  if (ORIGINAL === undefined) delete process.env.D365FO_RULE_PACKS;
+  else process.env.D365FO_RULE_PACKS = ORIGINAL;
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('rule pack matchers', () => {
+  it('runs AST queries and patterns over X++', () => {
+    writePack('house.json', HOUSE_RULES);
+    const { rules, problems } = loadRulePacks('ContosoCore');
+    expect(problems).toEqual([]);
+
+    const code = `
+class ContosoPostBatch
+{
+    public static void main(Args _args)
+    {
+        InventTrans inventTrans;
+        select firstOnly inventTrans where inventTrans.ItemId == 'A';
+        select firstOnly Qty from inventTrans;
+        inventTrans.doUpdate();
+        str s = "select inventTrans";
+    }
+}`;
+    const hits = runRules(code, 'xpp', undefined, rules)
+      .filter(v => v.rule.startsWith('CON'))
+      .map(v => `${v.rule}@${v.line}`);
+    expect(hits).toEqual(['CON001@7', 'CON002@4', 'CON003@9']);
+  });
+
+  it('a query with hasNot is satisfied by the descendant it names', () => {
+    writePack('house.json', HOUSE_RULES);
+    const code = 'public static void main(Args _args) { if (_args.caller()) {} }';
+    expect(runRules(code, 'xpp', undefined, loadRulePacks('ContosoCore').rules).map(v => v.rule))
+      .not.toContain('CON002');
+  });
+
+  it('runs XPath rules over XML', () => {
+    writePack('house.json', HOUSE_RULES);
+    const xml = `<AxTable>
+  <Name>ContosoTable</Name>
+  <Fields>
+    <AxTableField><Name>A</Name><Label>@Con:A</Label></AxTableField>
+    <AxTableField>
+      <Name>B</Name>
+    </AxTableField>
+  </Fields>
+</AxTable>`;
+    const hits = runRules(xml, 'xml-any', undefined, loadRulePacks('ContosoCore').rules)
+      .filter(v => v.rule === 'CON004');
+    expect(hits.map(v => v.line)).toEqual([5]);
+  });
+});
+
+describe('rule pack scope and errors', () => {
+  it('honours enabledModels and disabledModels', () => {
+    writePack('house.json', HOUSE_RULES);
+    expect(loadRulePacks('ContosoCore').rules.map(r => r.id)).toEqual(['CON001', 'CON002', 'CON003', 'CON004']);
+    expect(loadRulePacks('ContosoOther').rules.map(r => r.id)).toEqual(['CON001', 'CON002', 'CON003']);
+    expect(loadRulePacks('ContosoLegacy').rules).toEqual([]);
+  });
+
+  it('skips a bad rule or pack and says why', () => {
+    writePack('a.json', {
+      prefix: 'CON',
+      rules: [
+        { id: 'CON001', severity: 'warning', fix: 'x', pattern: '(' },
+        { id: 'OTH001', severity: 'warning', fix: 'x', pattern: 'y' },
+        { id: 'CON002', severity: 'warning', fix: 'x', pattern: 'y', xpath: '//A' },
+        { id: 'CON003', severity: 'warning', fix: 'x', pattern: 'ok' },
+      ],
+    });
+    writePack('b.json', { prefix: 'BPX', rules: [] });
+    writePack('c.json', '{ not json');
+    writePack('d.json', { prefix: 'CON', rules: [{ id: 'CON003', severity: 'error', fix: 'x', pattern: 'z' }] });
+
+    const { rules, problems } = loadRulePacks('Any');
+    expect(rules.map(r => r.id)).toEqual(['CON003']);
+    expect(problems.join('\n')).toMatch(/CON001 — Invalid regular expression/);
+    expect(problems.join('\n')).toMatch(/OTH001 does not start with the pack prefix/);
+    expect(problems.join('\n')).toMatch(/exactly one of pattern, ast or xpath/);
+    expect(problems.join('\n')).toMatch(/prefix "BPX" collides/);
+    expect(problems.join('\n')).toMatch(/c\.json/);
+    expect(problems.join('\n')).toMatch(/CON003 is already defined/);
+  });
+
+  it('refuses a built-in rule id under a shorter prefix and takes flags the schema allows', () => {
+    writePack('co.json', {
+      prefix: 'CO',
+      rules: [
+        { id: 'COC001', severity: 'warning', fix: 'x', pattern: 'y' },
+        { id: 'CO001', severity: 'warning', fix: 'x', pattern: '^\\s*ttsBegin', flags: 'm' },
+      ],
+    });
+    const { rules, problems } = loadRulePacks('Any');
+    expect(rules.map(r => r.id)).toEqual(['CO001']);
+    expect(problems.join('\n')).toMatch(/COC001 is a built-in rule id/);
+    expect(rules[0].match).toMatchObject({ by: 'pattern' });
+    expect((rules[0].match as { regex: RegExp }).regex.flags).toBe('gm');
+  });
+
+  it('refuses a form-pattern rule id too', () => {
+    writePack('fp.json', { prefix: 'FP', rules: [{ id: 'FP003', severity: 'warning', fix: 'x', pattern: 'y' }] });
+    const { rules, problems } = loadRulePacks('Any');
+    expect(rules).toEqual([]);
+    expect(problems.join('\n')).toMatch(/FP003 is a built-in rule id/);
+  });
+
+  it('re-reads a JSON pack when it changes', () => {
+    writePack('house.json', { prefix: 'CON', rules: [] });
+    expect(loadRulePacks('Any').rules).toEqual([]);
+    writePack('house.json', HOUSE_RULES);
+    const file = path.join(dir, 'house.json');
+    const later = new Date(Date.now() + 5000);
+    fs.utimesSync(file, later, later);
+    expect(loadRulePacks('Any').rules.length).toBe(3);
+  });
+
+  it('loads a TypeScript pack through its default export', () => {
+    writePack('naming.ts', `
+const pack: { prefix: string; rules: unknown[] } = {
+  prefix: 'NAM',
+  rules: [{ id: 'NAM001', severity: 'warning', fix: 'x', ast: { kind: 'Class', name: '^Tmp' } }],
+};
+export default pack;
+`);
+    const { rules, problems } = loadRulePacks('Any');
+    expect(problems).toEqual([]);
+    expect(rules.map(r => r.id)).toEqual(['NAM001']);
+  });
+});
+
+describe('rule packs in the tools', () => {
+  it('validate_code(syntax) reports pack violations and pack problems', async () => {
+    writePack('house.json', HOUSE_RULES);
+    writePack('broken.json', '{');
+    const result = await validateXppTool({ code: 'custTable.doUpdate();', codeType: 'xpp' });
+    const text = result.content[0].text as string;
+    expect(text).toContain('[CON003]');
+    expect(text).toMatch(/Rule pack problems[\s\S]*broken\.json/);
+  });
+
+  it('the write-time gate applies the packs of the model written to', () => {
+    writePack('house.json', HOUSE_RULES);
+    expect(validateWrittenXpp('custTable.doUpdate();', null, 'ContosoCore')).toContain('[CON003]');
+    expect(validateWrittenXpp('custTable.doUpdate();', null, 'ContosoLegacy')).not.toContain('[CON003]');
+  });
+});
@@ -65,6 +65,13 @@ describe('parseBpFindings', () => {
     expect(findings[0].moniker).toBe(REAL_MONIKER);
   });
 
+  it('takes the severity from the name family', () => {
+    const findings = parseBpFindings(
+      'BPErrorTableMissingFormRef: a.xml\nBPWarningTableFieldGroupEmpty: b.xml\nBPInfo: c.xml\nBPCheckFoo: d.xml\n',
+    );
+    expect(findings.map(f => f.severity)).toEqual(['error', 'warning', 'note', 'warning']);
+  });
+
   it('returns an empty array for clean output with no findings', () => {
     expect(parseBpFindings('X++ Best Practice Check\nErrors: 0\nWarnings: 0\n')).toEqual([]);
   });
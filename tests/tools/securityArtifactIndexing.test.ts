@@ -23,6 +23,7 @@ import os from 'os';
 import path from 'path';
 import Database from '../../src/database/sqlite.js';
 import { XppMetadataParser } from '../../src/metadata/xmlParser';
+import { XppSymbolIndex } from '../../src/metadata/symbolIndex';
 import { securityArtifactInfoTool } from '../../src/tools/readers/securityArtifactInfo';
 
 function writeTmp(name: string, xml: string): string {
@@ -82,6 +83,63 @@ describe('security artifact parsing feeds the index (#34)', () => {
   });
 });
 
+// ── role-file and extension links stored at build time ───────────────────────
+
+const ROLE_WITH_LINKS = ROLE_STANDARD_SHAPE.replace('</AxSecurityRole>', `  <Privileges>
+    <AxSecurityPrivilegeReference>
+      <Name>ConDemoNoteViewPrivilege</Name>
+    </AxSecurityPrivilegeReference>
+  </Privileges>
+  <SubRoles>
+    <AxSecurityRoleReference>
+      <Name>SystemUser</Name>
+    </AxSecurityRoleReference>
+  </SubRoles>
+</AxSecurityRole>`);
+
+const ROLE_EXTENSION = `<?xml version="1.0" encoding="utf-8"?>
+<AxSecurityRoleExtension xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+  <Name>ConDemoNoteReaderRole.ContosoExtension</Name>
+  <Duties>
+    <AxSecurityDutyReference>
+      <Name>ConDemoNoteApproveDuty</Name>
+    </AxSecurityDutyReference>
+  </Duties>
+  <Privileges />
+  <SubRoles />
+</AxSecurityRoleExtension>`;
+
+describe('security links feed the index', () => {
+  it('stores direct privileges, sub-roles and what an extension adds in security_links', async () => {
+    const parser = new XppMetadataParser();
+    const role = (await parser.parseSecurityRoleFile(writeTmp('ConDemoNoteReaderRole.xml', ROLE_WITH_LINKS))).data!;
+    expect(role.privileges).toEqual(['ConDemoNoteViewPrivilege']);
+    expect(role.subRoles).toEqual(['SystemUser']);
+    const extension = (await parser.parseExtensionFile(
+      writeTmp('ConDemoNoteReaderRole.ContosoExtension.xml', ROLE_EXTENSION), 'security-role-extension')).data!;
+    expect(extension).toMatchObject({ duties: ['ConDemoNoteApproveDuty'], privileges: [], subRoles: [] });
+
+    const extracted = fs.mkdtempSync(path.join(os.tmpdir(), 'seclinks-'));
+    for (const [folder, data] of [['security-roles', role], ['security-role-extensions', extension]] as const) {
+      fs.mkdirSync(path.join(extracted, 'Contoso', folder), { recursive: true });
+      fs.writeFileSync(path.join(extracted, 'Contoso', folder, `${data.name}.json`), JSON.stringify(data), 'utf-8');
+    }
+    const index = new XppSymbolIndex(':memory:', ':memory:');
+    await index.indexMetadataDirectory(extracted);
+
+    expect(index.db.prepare(
+      'SELECT owner_type, owner_name, link_type, member_name, via FROM security_links ORDER BY link_type, member_name').all())
+      .toEqual([
+        { owner_type: 'role', owner_name: 'ConDemoNoteReaderRole', link_type: 'duty', member_name: 'ConDemoNoteApproveDuty',
+          via: 'ConDemoNoteReaderRole.ContosoExtension' },
+        { owner_type: 'role', owner_name: 'ConDemoNoteReaderRole', link_type: 'privilege', member_name: 'ConDemoNoteViewPrivilege', via: null },
+        { owner_type: 'role', owner_name: 'ConDemoNoteReaderRole', link_type: 'sub-role', member_name: 'SystemUser', via: null },
+      ]);
+    index.close();
+    fs.rmSync(extracted, { recursive: true, force: true });
+  });
+});
+
 // ── honest "no data" reporting ───────────────────────────────────────────────
 
 function makeSecurityDb() {
@@ -0,0 +1,199 @@
+/**
+ * security_info(mode="matrix") — one role's entry points as CSV, with the
+ * highest access, every granting path, role/duty extensions, sub-roles and the
+ * role file's own privileges merged, and the security policies on the forms' tables.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from '../../src/database/sqlite.js';
+import { securityInfoTool } from '../../src/tools/readers/securityInfo';
+import { grantsOf, maxAccess } from '../../src/tools/readers/securityMatrixInfo';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'security-matrix-'));
+});
+
+afterEach(() => {
+  try { fs.rmSync(dir, { recursive: true, force: true }); } catch { /* ignore */ }
+});
+
+const write = (name: string, xml: string) => {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, xml, 'utf-8');
+  return file;
+};
+
+const ROLE = `<?xml version="1.0" encoding="utf-8"?>
+<AxSecurityRole xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+\t<Name>VendClerk</Name>
+\t<Duties>
+\t\t<AxSecurityDutyReference>
+\t\t\t<Name>VendVendorMaintain</Name>
+\t\t</AxSecurityDutyReference>
+\t</Duties>
+\t<Privileges>
+\t\t<AxSecurityPrivilegeReference>
+\t\t\t<Name>VendVendorServiceRead</Name>
+\t\t</AxSecurityPrivilegeReference>
+\t</Privileges>
+\t<SubRoles>
+\t\t<AxSecurityRoleReference>
+\t\t\t<Name>EmployeeSelfService</Name>
+\t\t</AxSecurityRoleReference>
+\t</SubRoles>
+</AxSecurityRole>`;
+
+const ROLE_EXTENSION = `<AxSecurityRoleExtension>
+\t<Name>VendClerk.ContosoExtension</Name>
+\t<Duties>
+\t\t<AxSecurityDutyReference>
+\t\t\t<Name>VendPaymentApprove</Name>
+\t\t</AxSecurityDutyReference>
+\t</Duties>
+\t<Privileges />
+</AxSecurityRoleExtension>`;
+
+const DUTY_EXTENSION = `<AxSecurityDutyExtension>
+\t<Name>VendVendorMaintain.ContosoExtension</Name>
+\t<Privileges>
+\t\t<AxSecurityPrivilegeReference>
+\t\t\t<Name>VendBankAccountMaintain</Name>
+\t\t</AxSecurityPrivilegeReference>
+\t</Privileges>
+</AxSecurityDutyExtension>`;
+
+function makeDb(files: { role: string; roleExtension: string; dutyExtension: string }) {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE symbols (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL, type TEXT NOT NULL, parent_name TEXT,
+      signature TEXT, file_path TEXT, model TEXT, description TEXT, extends_class TEXT
+    );
+    CREATE VIRTUAL TABLE symbols_fts USING fts5(name, type, parent_name, signature, description, tags);
+    CREATE TABLE security_role_duties (role_name TEXT, duty_name TEXT, model TEXT);
+    CREATE TABLE security_duty_privileges (duty_name TEXT, privilege_name TEXT, model TEXT);
+    CREATE TABLE security_privilege_entries (
+      privilege_name TEXT, entry_point_name TEXT, object_type TEXT, access_level TEXT, model TEXT
+    );
+    CREATE TABLE menu_item_targets (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, menu_item_name TEXT NOT NULL, menu_item_type TEXT NOT NULL,
+      target_object TEXT, target_type TEXT, security_privilege TEXT, label TEXT, model TEXT NOT NULL
+    );
+    CREATE TABLE form_datasources (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, form_name TEXT NOT NULL, datasource_name TEXT NOT NULL,
+      table_name TEXT NOT NULL, allow_edit INTEGER DEFAULT 1, allow_create INTEGER DEFAULT 1,
+      allow_delete INTEGER DEFAULT 1, model TEXT NOT NULL
+    );
+    CREATE TABLE security_policies (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, policy_name TEXT NOT NULL, primary_table TEXT, query_name TEXT,
+      operation TEXT, constrained_table INTEGER NOT NULL DEFAULT 0, label TEXT, model TEXT NOT NULL
+    );
+    INSERT INTO security_role_duties VALUES
+      ('VendClerk', 'VendVendorMaintain', 'ApplicationSuite'),
+      ('EmployeeSelfService', 'HcmEmployeeSelfServiceView', 'ApplicationSuite');
+    INSERT INTO security_duty_privileges VALUES
+      ('VendVendorMaintain', 'VendTableMaintain', 'ApplicationSuite'),
+      ('VendVendorMaintain', 'VendTableView', 'ApplicationSuite'),
+      ('VendPaymentApprove', 'VendPaymApprove', 'ApplicationSuite'),
+      ('HcmEmployeeSelfServiceView', 'HcmWorkerSelfServiceView', 'ApplicationSuite');
+    INSERT INTO security_privilege_entries VALUES
+      ('VendTableMaintain', 'VendTable', 'MenuItemDisplay', 'Read:Allow,Update:Allow,Delete:Allow', 'ApplicationSuite'),
+      ('VendTableView', 'VendTable', 'MenuItemDisplay', 'Read:Allow', 'ApplicationSuite'),
+      ('VendPaymApprove', 'VendPaymApproveJournal', 'MenuItemAction', 'Invoke:Allow', 'ApplicationSuite'),
+      ('VendBankAccountMaintain', 'VendBankAccounts', 'MenuItemDisplay', 'Read:Allow,Create:Allow', 'ApplicationSuite'),
+      ('VendVendorServiceRead', 'VendVendorService.read', 'ServiceOperation', 'Read:Allow', 'ApplicationSuite'),
+      ('HcmWorkerSelfServiceView', 'HcmWorkerSelfService', 'MenuItemDisplay', 'Read:Allow', 'ApplicationSuite');
+    INSERT INTO menu_item_targets (menu_item_name, menu_item_type, target_object, target_type, model) VALUES
+      ('VendTable', 'display', 'VendTable', 'Form', 'ApplicationSuite'),
+      ('VendPaymApproveJournal', 'action', 'VendPaymApproveService', 'Class', 'ApplicationSuite');
+    INSERT INTO form_datasources (form_name, datasource_name, table_name, model) VALUES
+      ('VendTable', 'VendTable', 'VendTable', 'ApplicationSuite'),
+      ('VendTable', 'DirPartyTable', 'DirPartyTable', 'ApplicationSuite');
+    INSERT INTO security_policies (policy_name, primary_table, operation, model) VALUES
+      ('ContosoVendGroupPolicy', 'VendTable', 'Select', 'Contoso');
+  `);
+  const insert = db.prepare('INSERT INTO symbols (name, type, parent_name, file_path, model) VALUES (?, ?, ?, ?, ?)');
+  insert.run('VendClerk', 'security-role', null, files.role, 'ApplicationSuite');
+  insert.run('VendClerk.ContosoExtension', 'security-role-extension', 'VendClerk', files.roleExtension, 'Contoso');
+  insert.run('VendVendorMaintain.ContosoExtension', 'security-duty-extension', 'VendVendorMaintain', files.dutyExtension, 'Contoso');
+  insert.run('EmptyRole', 'security-role', null, null, 'Contoso');
+  db.exec('INSERT INTO symbols_fts (rowid, name, type) SELECT id, name, type FROM symbols');
+  return db;
+}
+
+const run = async (db: Database, args: Record<string, unknown>) => {
+  const context = { symbolIndex: { getReadDb: () => db } } as any;
+  const result: any = await securityInfoTool(
+    { method: 'tools/call', params: { name: 'security_info', arguments: { mode: 'matrix', ...args } } }, context);
+  return { result, text: result.content[0].text as string };
+};
+
+describe('security_info(mode="matrix")', () => {
+  it('lists every entry point of the role as CSV with max access, paths and policies', async () => {
+    const db = makeDb({
+      role: write('VendClerk.xml', ROLE),
+      roleExtension: write('VendClerk.ContosoExtension.xml', ROLE_EXTENSION),
+      dutyExtension: write('VendVendorMaintain.ContosoExtension.xml', DUTY_EXTENSION),
+    });
+    const { result, text } = await run(db, { role: 'vendclerk' });
+
+    expect(result.isError).toBeFalsy();
+    expect(text).toContain('Effective permission matrix — role VendClerk (ApplicationSuite): 5 entry point(s) through 3 duty(ies) and 6 privilege(s)');
+    expect(text).toContain('Sub-roles merged: EmployeeSelfService');
+    expect(text).toContain('Extensions merged: VendClerk.ContosoExtension, VendVendorMaintain.ContosoExtension');
+    expect(text).not.toContain('not in the index');
+    const csv = /```csv\n([\s\S]*?)\n```/.exec(text)![1].split('\n');
+    expect(csv).toEqual([
+      'Role,EntryPoint,ObjectType,Target,MaxAccess,Grants,Paths,SecurityPolicies',
+      'VendClerk,VendPaymApproveJournal,MenuItemAction,VendPaymApproveService,Invoke,Invoke,' +
+        'VendPaymentApprove (via VendClerk.ContosoExtension) > VendPaymApprove,',
+      'VendClerk,HcmWorkerSelfService,MenuItemDisplay,,Read,Read,' +
+        'sub-role EmployeeSelfService > HcmEmployeeSelfServiceView > HcmWorkerSelfServiceView,',
+      'VendClerk,VendBankAccounts,MenuItemDisplay,,Create,Read;Create,' +
+        'VendVendorMaintain > VendBankAccountMaintain (via VendVendorMaintain.ContosoExtension),',
+      'VendClerk,VendTable,MenuItemDisplay,VendTable,Delete,Read;Update;Delete,' +
+        'VendVendorMaintain > VendTableMaintain | VendVendorMaintain > VendTableView,ContosoVendGroupPolicy on VendTable [Select]',
+      'VendClerk,VendVendorService.read,ServiceOperation,,Read,Read,(role) > VendVendorServiceRead,',
+    ]);
+  });
+
+  it('says which extensions and files it could not read', async () => {
+    const db = makeDb({ role: path.join(dir, 'absent.xml'), roleExtension: path.join(dir, 'gone.xml'), dutyExtension: 'x.json' });
+    const { text } = await run(db, { role: 'VendClerk' });
+    expect(text).toContain('NOT merged (XML not readable): VendClerk.ContosoExtension, VendVendorMaintain.ContosoExtension');
+    expect(text).toContain('Role file(s) not readable here: VendClerk');
+    expect(text).not.toContain('HcmWorkerSelfService');
+    expect(text).not.toContain('VendVendorService.read');
+  });
+
+  it('requires a known role and does not call an unindexed one empty', async () => {
+    const db = makeDb({ role: '', roleExtension: '', dutyExtension: '' });
+    const missing = await run(db, {});
+    expect(missing.result.isError).toBe(true);
+    expect(missing.text).toContain('requires `role`');
+
+    const unknown = await run(db, { role: 'NoSuchRole' });
+    expect(unknown.result.isError).toBe(true);
+    expect(unknown.text).toContain('Security role "NoSuchRole" not found');
+
+    const empty = await run(db, { role: 'EmptyRole' });
+    expect(empty.text).toContain('NO DATA');
+    expect(empty.text).not.toContain('```csv');
+  });
+});
+
+describe('grantsOf / maxAccess', () => {
+  it('reads the serialized grant and the bare level of older extractions', () => {
+    expect(grantsOf('Delete:Allow,Read:Allow,Update:Deny')).toEqual(['Read', 'Delete']);
+    expect(grantsOf('Invoke')).toEqual(['Invoke']);
+    expect(grantsOf('')).toEqual([]);
+    expect(maxAccess(['Read', 'Update', 'Invoke'])).toBe('Update');
+    expect(maxAccess(['Read', 'Invoke'])).toBe('Invoke');
+  });
+});
@@ -207,6 +207,22 @@ describe('buildAxSecurityPrivilegeXml', () => {
     expect(xml).toContain('<Label>@MyModel:PrivilegeLabel</Label>');
   });
 
+  it('writes several entry points, each with its own grant in serializer order', () => {
+    const xml = buildAxSecurityPrivilegeXml('MyPrivilege', {
+      entryPoints: [
+        { objectName: 'MyForm', grant: ['Delete', 'Read', 'Update'] },
+        { objectName: 'MyPost', objectType: 'MenuItemAction', grant: ['Delete'] },
+      ],
+    });
+    expect(xml).toContain(
+      '\t\t\t<Name>MyForm</Name>\n\t\t\t<Grant>\n\t\t\t\t<Read>Allow</Read>\n\t\t\t\t<Update>Allow</Update>\n' +
+      '\t\t\t\t<Delete>Allow</Delete>\n\t\t\t</Grant>\n\t\t\t<ObjectName>MyForm</ObjectName>\n\t\t\t<ObjectType>MenuItemDisplay</ObjectType>');
+    expect(xml).toContain('<Delete>Allow</Delete>\n\t\t\t</Grant>\n\t\t\t<ObjectName>MyPost</ObjectName>\n\t\t\t<ObjectType>MenuItemAction</ObjectType>');
+    expect(removeSecurityEntryPoint(xml, { name: 'MyPost' }).kind).toBe('removed');
+    expect(() => buildAxSecurityPrivilegeXml('P', { entryPoints: [{ objectName: 'X', grant: ['Full'] }] }))
+      .toThrow(/grant \["Full"\] is not supported/);
+  });
+
   it('is byte-identical to the createD365File and generateD365Xml wrappers', async () => {
     // Both XmlTemplateGenerator classes delegate here precisely so they cannot
     // drift. If either grows its own copy, this catches it.
@@ -0,0 +1,207 @@
+/**
+ * security_info(mode="sod") — every role against segregation-of-duties rules
+ * from a repo file, with role/duty extensions folded in from their XML and the
+ * privilege paths behind each conflict in the report.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from '../../src/database/sqlite.js';
+import { securityInfoTool } from '../../src/tools/readers/securityInfo';
+import { evaluateSodRules, type SecurityGraph } from '../../src/tools/readers/securitySodInfo';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'security-sod-'));
+});
+
+afterEach(() => {
+  try { fs.rmSync(dir, { recursive: true, force: true }); } catch { /* ignore */ }
+});
+
+const RULES = {
+  rules: [
+    {
+      id: 'SOD001',
+      description: 'No role may both maintain vendors and approve vendor payments',
+      exemptRoles: ['SystemAdministrator'],
+      sides: [
+        { name: 'Maintain vendors', privileges: ['VendTableMaintain'] },
+        { name: 'Approve vendor payments', entryPoints: ['VendPaymApprove*'] },
+      ],
+    },
+    {
+      id: 'SOD002',
+      description: 'Post ledger journals vs approve them',
+      severity: 'medium',
+      sides: [
+        { name: 'Post', duties: ['LedgerJournalPost'] },
+        { name: 'Approve', duties: ['LedgerJournalApprove'] },
+      ],
+    },
+  ],
+};
+
+function makeDb(roleExtensionPath: string) {
+  const db = new Database(':memory:');
+  db.exec(`
+    CREATE TABLE symbols (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL, type TEXT NOT NULL, parent_name TEXT,
+      signature TEXT, file_path TEXT, model TEXT, description TEXT, extends_class TEXT
+    );
+    CREATE TABLE security_role_duties (role_name TEXT, duty_name TEXT, model TEXT);
+    CREATE TABLE security_duty_privileges (duty_name TEXT, privilege_name TEXT, model TEXT);
+    CREATE TABLE security_privilege_entries (
+      privilege_name TEXT, entry_point_name TEXT, object_type TEXT, access_level TEXT, model TEXT
+    );
+    INSERT INTO symbols (name, type, model) VALUES
+      ('VendClerk', 'security-role', 'ApplicationSuite'),
+      ('VendPaymentsClerk', 'security-role', 'ApplicationSuite'),
+      ('SystemAdministrator', 'security-role', 'ApplicationPlatform');
+    INSERT INTO security_role_duties VALUES
+      ('VendClerk', 'VendVendorMaintain', 'ApplicationSuite'),
+      ('VendPaymentsClerk', 'VendPaymentApprove', 'ApplicationSuite'),
+      ('SystemAdministrator', 'VendVendorMaintain', 'ApplicationPlatform'),
+      ('SystemAdministrator', 'VendPaymentApprove', 'ApplicationPlatform');
+    INSERT INTO security_duty_privileges VALUES
+      ('VendVendorMaintain', 'VendTableMaintain', 'ApplicationSuite'),
+      ('VendPaymentApprove', 'VendPaymApprovePrivilege', 'ApplicationSuite');
+    INSERT INTO security_privilege_entries VALUES
+      ('VendTableMaintain', 'VendTable', 'MenuItemDisplay', 'Delete', 'ApplicationSuite'),
+      ('VendPaymApprovePrivilege', 'VendPaymApproveJournal', 'MenuItemAction', 'Invoke', 'ApplicationSuite');
+  `);
+  db.prepare(`INSERT INTO symbols (name, type, parent_name, file_path, model) VALUES (?, ?, ?, ?, ?)`)
+    .run('VendClerk.ContosoExtension', 'security-role-extension', 'VendClerk', roleExtensionPath, 'Contoso');
+  db.prepare(`INSERT INTO symbols (name, type, parent_name, file_path, model) VALUES (?, ?, ?, ?, ?)`)
+    .run('VendVendorMaintain.ContosoExtension', 'security-duty-extension', 'VendVendorMaintain',
+      path.join(dir, 'missing.xml'), 'Contoso');
+  return db;
+}
+
+const ROLE_EXTENSION = `<?xml version="1.0" encoding="utf-8"?>
+<AxSecurityRoleExtension xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+\t<Name>VendClerk.ContosoExtension</Name>
+\t<DirectAccessPermissions />
+\t<Duties>
+\t\t<AxSecurityDutyReference>
+\t\t\t<Name>VendPaymentApprove</Name>
+\t\t</AxSecurityDutyReference>
+\t</Duties>
+\t<Privileges />
+</AxSecurityRoleExtension>`;
+
+const run = async (db: Database, args: Record<string, unknown>) => {
+  const context = { symbolIndex: { getReadDb: () => db } } as any;
+  const result: any = await securityInfoTool(
+    { method: 'tools/call', params: { name: 'security_info', arguments: { mode: 'sod', ...args } } }, context);
+  return { result, text: result.content[0].text as string };
+};
+
+describe('security_info(mode="sod")', () => {
+  it('reports a role that reaches both sides through its extension, with the paths', async () => {
+    const extension = path.join(dir, 'VendClerk.ContosoExtension.xml');
+    fs.writeFileSync(extension, ROLE_EXTENSION, 'utf-8');
+    const rules = path.join(dir, 'sod.json');
+    fs.writeFileSync(rules, JSON.stringify(RULES), 'utf-8');
+
+    const { result, text } = await run(makeDb(extension), { rulesPath: rules });
+
+    expect(result.isError).toBeFalsy();
+    expect(text).toContain('3 role(s) evaluated');
+    expect(text).toContain('❌ SOD001 — No role may both maintain vendors and approve vendor payments [high]: 1 conflicting role(s)');
+    expect(text).toContain('  VendClerk (ApplicationSuite)\n    Maintain vendors:\n      VendClerk → VendVendorMaintain → VendTableMaintain\n');
+    expect(text).toContain(
+      '    Approve vendor payments:\n      VendClerk → VendPaymentApprove (via VendClerk.ContosoExtension) → ' +
+      'VendPaymApprovePrivilege → VendPaymApproveJournal [Invoke]\n');
+    expect(text).not.toContain('VendPaymentsClerk (');
+    expect(text).toContain('Exempt by rule: SystemAdministrator');
+    expect(text).toContain('✅ SOD002 — Post ledger journals vs approve them [medium]: no conflicting role');
+    expect(text).toContain('Role/duty extensions: 1 of 2 read — NOT evaluated (XML not readable): VendVendorMaintain.ContosoExtension');
+  });
+
+  it('reads direct privileges and sub-roles from the role files, through a sub-role cycle', async () => {
+    const roleFile = (name: string, privileges: string[], subRoles: string[]) => {
+      const file = path.join(dir, `${name}.xml`);
+      const refs = (tag: string, names: string[]) => names.length === 0 ? `\t<${tag} />\n` :
+        `\t<${tag}>\n${names.map(n => `\t\t<AxSecurityRoleReference>\n\t\t\t<Name>${n}</Name>\n\t\t</AxSecurityRoleReference>\n`).join('')}\t</${tag}>\n`;
+      fs.writeFileSync(file, `<?xml version="1.0" encoding="utf-8"?>\n<AxSecurityRole xmlns:i="http://www.w3.org/2001/XMLSchema-instance">\n` +
+        `\t<Name>${name}</Name>\n\t<Duties />\n${refs('Privileges', privileges)}${refs('SubRoles', subRoles)}</AxSecurityRole>`, 'utf-8');
+      return file;
+    };
+    const db = makeDb(path.join(dir, 'none.xml'));
+    const setFile = db.prepare(`UPDATE symbols SET file_path = ? WHERE name = ? AND type = 'security-role'`);
+    // ContosoApSupervisor grants vendor maintenance directly and takes VendPaymentsClerk
+    // as a sub-role, which in turn lists ContosoApSupervisor back.
+    db.prepare(`INSERT INTO symbols (name, type, model) VALUES ('ContosoApSupervisor', 'security-role', 'Contoso')`).run();
+    setFile.run(roleFile('ContosoApSupervisor', ['VendTableMaintain'], ['VendPaymentsClerk']), 'ContosoApSupervisor');
+    setFile.run(roleFile('VendPaymentsClerk', [], ['ContosoApSupervisor']), 'VendPaymentsClerk');
+    const rules = path.join(dir, 'sod.json');
+    fs.writeFileSync(rules, JSON.stringify(RULES), 'utf-8');
+
+    const { result, text } = await run(db, { rulesPath: rules });
+
+    expect(result.isError).toBeFalsy();
+    expect(text).toContain(
+      '  ContosoApSupervisor (Contoso)\n    Maintain vendors:\n      ContosoApSupervisor → VendTableMaintain\n' +
+      '    Approve vendor payments:\n      ContosoApSupervisor → sub-role VendPaymentsClerk → VendPaymentApprove → ' +
+      'VendPaymApprovePrivilege → VendPaymApproveJournal [Invoke]\n');
+    // The cycle makes VendPaymentsClerk reach the supervisor's privilege as well.
+    expect(text).toContain('      VendPaymentsClerk → sub-role ContosoApSupervisor → VendTableMaintain\n');
+    expect(text).toContain('Role files (direct privileges, sub-roles): 2 of 4 read — NOT evaluated (XML not readable): SystemAdministrator, VendClerk');
+    expect(text).not.toContain('Not covered');
+  });
+
+  it('refuses a missing or malformed rule file with the reason', async () => {
+    const db = makeDb(path.join(dir, 'none.xml'));
+    const missing = await run(db, { rulesPath: path.join(dir, 'absent.json') });
+    expect(missing.result.isError).toBe(true);
+    expect(missing.text).toContain('No SoD rule file at');
+    expect(missing.text).toContain('"sides"');
+
+    const rules = path.join(dir, 'bad.json');
+    fs.writeFileSync(rules, JSON.stringify({ rules: [{ id: 'SOD1', description: 'x', sides: [{ name: 'A' }] }] }), 'utf-8');
+    const bad = await run(db, { rulesPath: rules });
+    expect(bad.result.isError).toBe(true);
+    expect(bad.text).toContain('Invalid SoD rule file');
+    expect(bad.text).toContain('rules.0.sides');
+  });
+
+  it('does not call an empty role index clean', async () => {
+    const db = new Database(':memory:');
+    db.exec('CREATE TABLE security_role_duties (role_name TEXT, duty_name TEXT, model TEXT)');
+    const rules = path.join(dir, 'sod.json');
+    fs.writeFileSync(rules, JSON.stringify(RULES), 'utf-8');
+
+    const { result, text } = await run(db, { rulesPath: rules });
+    expect(result.isError).toBeFalsy();
+    expect(text).toContain('NO DATA');
+    expect(text).not.toContain('✅');
+  });
+});
+
+describe('evaluateSodRules', () => {
+  it('matches names by wildcard in any case and stops a path at the side it reaches', () => {
+    const graph: SecurityGraph = {
+      roles: new Map([['ContosoApRole', 'Contoso']]),
+      roleDuties: new Map([['ContosoApRole', [{ name: 'VendInvoiceApprove' }]]]),
+      rolePrivileges: new Map([['ContosoApRole', [{ name: 'VendTableMaintain', via: 'ContosoApRole.Ext' }]]]),
+      subRoles: new Map(),
+      dutyPrivileges: new Map([['VendInvoiceApprove', [{ name: 'VendInvoiceApprovePrivilege' }]]]),
+      privilegeEntries: new Map(),
+    };
+    const [result] = evaluateSodRules(graph, [{
+      id: 'SOD1',
+      description: 'x',
+      sides: [{ name: 'A', privileges: ['vendtable*'] }, { name: 'B', duties: ['*InvoiceApprove'] }],
+    }]);
+    expect(result.conflicts).toEqual([{
+      role: 'ContosoApRole',
+      model: 'Contoso',
+      paths: [['ContosoApRole → VendTableMaintain (via ContosoApRole.Ext)'], ['ContosoApRole → VendInvoiceApprove']],
+    }]);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * undo_last_modification over the change journal — multi-step undo, named
+ * checkpoints and the history, from pre-images kept on disk so they outlive
+ * the process that recorded them.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { undoLastModificationTool } from '../../src/tools/sdlc/undoLastModification';
+import {
+  captureJournalPreImage, liveChanges, modelOfPath, readJournal, runWithChangeScope, setChangeJournalRoot,
+} from '../../src/workspace/changeJournal';
+
+vi.mock('../../src/utils/configManager', () => ({
+  getConfigManager: vi.fn(() => ({
+    getModelName: vi.fn(() => null),
+  })),
+}));
+
+const context = {
+  symbolIndex: {
+    removeSymbolsByFile: vi.fn(() => ({ deletedCount: 0 })),
+    removeLabelsByFile: vi.fn(() => 0),
+  },
+} as any;
+
+let tmpDir: string;
+let classDir: string;
+
+/** One write tool call: capture, then write (or delete) each file. */
+async function write(summary: string, files: Record<string, string | null>): Promise<void> {
+  await runWithChangeScope({ tool: 'd365fo_file', summary }, async () => {
+    for (const [name, content] of Object.entries(files)) {
+      const filePath = path.join(classDir, name);
+      await captureJournalPreImage(filePath);
+      if (content === null) fs.rmSync(filePath, { force: true });
+      else fs.writeFileSync(filePath, content, 'utf-8');
+    }
+  });
+}
+
+function read(name: string): string | null {
+  const filePath = path.join(classDir, name);
+  return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+}
+
+async function undo(args: Record<string, unknown>): Promise<{ text: string; isError?: boolean }> {
+  const result: any = await undoLastModificationTool({ model: 'ContosoExt', ...args }, context);
+  return { text: result.content[0].text, isError: result.isError };
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'undo-journal-'));
+  classDir = path.join(tmpDir, 'packages', 'ContosoExt', 'ContosoExt', 'AxClass');
+  fs.mkdirSync(classDir, { recursive: true });
+  setChangeJournalRoot(path.join(tmpDir, 'journal'));
+});
+
+afterEach(() => {
+  setChangeJournalRoot(null);
+  try { fs.rmSync(tmpDir, { recursive: true, force: true }); } catch { /* ignore */ }
+});
+
+describe('change journal — recording', () => {
+  it('files a change under the model its path belongs to, skipping files the call left as they were', async () => {
+    expect(modelOfPath(path.join(classDir, 'A.xml'))).toBe('ContosoExt');
+    fs.writeFileSync(path.join(classDir, 'A.xml'), 'v1');
+    await write('modify class A', { 'A.xml': 'v2', 'B.xml': 'new' });
+    await runWithChangeScope({ tool: 'd365fo_file', summary: 'no-op' }, async () => {
+      await captureJournalPreImage(path.join(classDir, 'A.xml'));
+    });
+
+    const entries = await readJournal('ContosoExt');
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ kind: 'change', tool: 'd365fo_file', summary: 'modify class A' });
+    const files = (entries[0] as any).files;
+    expect(files.map((f: any) => [path.basename(f.path), f.before === null, f.after === null]))
+      .toEqual([['A.xml', false, false], ['B.xml', true, false]]);
+  });
+
+  it('records nothing outside a scope, and nothing at all with no root', async () => {
+    await captureJournalPreImage(path.join(classDir, 'A.xml'));
+    setChangeJournalRoot(null);
+    await write('create class A', { 'A.xml': 'v1' });
+    setChangeJournalRoot(path.join(tmpDir, 'journal'));
+    expect(await readJournal('ContosoExt')).toEqual([]);
+  });
+});
+
+describe('undo_last_modification — journal', () => {
+  it('undoes the last N changes newest first, deleting files a change created', async () => {
+    fs.writeFileSync(path.join(classDir, 'A.xml'), 'v1');
+    await write('modify class A', { 'A.xml': 'v2' });
+    await write('create class B', { 'B.xml': 'b1' });
+    await write('modify class A again', { 'A.xml': 'v3' });
+
+    const result = await undo({ steps: 2 });
+    expect(result.isError).toBeUndefined();
+    expect(result.text).toContain('Undid 2 change(s) in ContosoExt');
+    expect(read('A.xml')).toBe('v2');
+    expect(read('B.xml')).toBeNull();
+
+    expect((await undo({})).isError).toBeUndefined();
+    expect(read('A.xml')).toBe('v1');
+    expect((await undo({})).text).toContain('Nothing to undo');
+  });
+
+  it('restores a deleted file', async () => {
+    fs.writeFileSync(path.join(classDir, 'A.xml'), 'v1');
+    await write('delete class A', { 'A.xml': null });
+    await undo({});
+    expect(read('A.xml')).toBe('v1');
+  });
+
+  it('rolls back to a named checkpoint', async () => {
+    await write('create class A', { 'A.xml': 'v1' });
+    expect((await undo({ checkpoint: 'before-refactor' })).text).toContain('Checkpoint "before-refactor" set');
+    await write('modify class A', { 'A.xml': 'v2' });
+    await write('create class B', { 'B.xml': 'b1' });
+
+    const result = await undo({ toCheckpoint: 'before-refactor' });
+    expect(result.text).toContain('Undid 2 change(s)');
+    expect(read('A.xml')).toBe('v1');
+    expect(read('B.xml')).toBeNull();
+    expect((await undo({ toCheckpoint: 'nope' })).text).toContain('No checkpoint "nope" in ContosoExt. Known: before-refactor.');
+  });
+
+  it('refuses when a file changed outside the journal, unless forced', async () => {
+    await write('create class A', { 'A.xml': 'v1' });
+    await write('modify class A', { 'A.xml': 'v2' });
+    fs.writeFileSync(path.join(classDir, 'A.xml'), 'hand edit');
+
+    const refused = await undo({});
+    expect(refused.isError).toBe(true);
+    expect(refused.text).toContain('Undo refused');
+    expect(read('A.xml')).toBe('hand edit');
+
+    expect((await undo({ force: true })).text).toContain('forced over 1 conflict(s)');
+    expect(read('A.xml')).toBe('v1');
+  });
+
+  it('refuses more steps than there are changes, and writes nothing', async () => {
+    await write('create class A', { 'A.xml': 'v1' });
+    const result = await undo({ steps: 3 });
+    expect(result.text).toContain('Only 1 change(s) in ContosoExt can be undone');
+    expect(read('A.xml')).toBe('v1');
+  });
+
+  it('lists the history, newest first, with undone changes marked', async () => {
+    await write('create class A', { 'A.xml': 'v1' });
+    await undo({ checkpoint: 'cp1' });
+    await write('modify class A', { 'A.xml': 'v2' });
+    await undo({});
+
+    const { text } = await undo({ history: true });
+    expect(text).toContain('# Change history — ContosoExt');
+    expect(text).toContain('1 change(s) can be undone');
+    const lines = text.split('\n').filter(l => l.startsWith('- '));
+    expect(lines[0]).toContain('undo of 1 change(s)');
+    expect(lines[1]).toMatch(/modify class A — A\.xml · undone$/);
+    expect(lines[2]).toContain('checkpoint "cp1"');
+    expect(lines[3]).toMatch(/create class A — A\.xml \(new\)$/);
+  });
+
+  it('survives a restart — the journal is read back from disk, the model found on its own', async () => {
+    fs.writeFileSync(path.join(classDir, 'A.xml'), 'v1');
+    await write('modify class A', { 'A.xml': 'v2' });
+    // A fresh process: same root, nothing in memory.
+    setChangeJournalRoot(null);
+    setChangeJournalRoot(path.join(tmpDir, 'journal'));
+
+    const result: any = await undoLastModificationTool({}, context);
+    expect(result.content[0].text).toContain('Undid 1 change(s) in ContosoExt');
+    expect(read('A.xml')).toBe('v1');
+    expect(liveChanges(await readJournal('ContosoExt'))).toEqual([]);
+  });
+});
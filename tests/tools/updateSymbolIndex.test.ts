@@ -162,6 +162,14 @@ describe('update_symbol_index AOT folder type mapping', () => {
     ['AxMenuItemDisplayExtension', 'menu-item-display-extension'],
     ['AxMenuItemActionExtension', 'menu-item-action-extension'],
     ['AxMenuItemOutputExtension', 'menu-item-output-extension'],
+    ['AxWorkflowType', 'workflow-type'],
+    ['AxWorkflowApproval', 'workflow-approval'],
+    ['AxWorkflowTask', 'workflow-task'],
+    ['AxWorkflowCategory', 'workflow-category'],
+    ['AxTile', 'tile'],
+    ['AxKPI', 'kpi'],
+    ['AxAggregateMeasurement', 'aggregate-measurement'],
+    ['AxAggregateDimension', 'aggregate-dimension'],
   ])('classifies a file under %s as %s (not the class fallback)', async (folder, expectedType) => {
     const filePath = `K:\\PackagesLocalDirectory\\MyPackage\\MyModel\\${folder}\\MyObject.xml`;
     existsSyncMock.mockReturnValue(true);
@@ -211,7 +219,7 @@ describe('update_symbol_index AOT folder type mapping', () => {
   it('does not claim an unmapped AOT folder is a class (#34)', async () => {
     // Any Ax* element folder we cannot map must yield a truthful derived type,
     // never a confident "class".
-    const filePath = 'K:\\PackagesLocalDirectory\\Contoso\\Contoso\\AxWorkflowType\\ConDemoWf.xml';
+    const filePath = 'K:\\PackagesLocalDirectory\\Contoso\\Contoso\\AxWorkflowProvider\\ConDemoWf.xml';
     existsSyncMock.mockReturnValue(true);
 
     await updateSymbolIndexTool({ filePath }, context);
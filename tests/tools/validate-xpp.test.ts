@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { validateXppTool } from '../../src/tools/analysis/validateXpp';
+import { fixViolations, validateXppTool } from '../../src/tools/analysis/validateXpp';
 import type { CallToolRequest } from '@modelcontextprotocol/sdk/types.js';
 
 const req = (args: Record<string, unknown> = {}): CallToolRequest => ({
@@ -167,6 +167,19 @@ describe('COC rules', () => {
   // get_method's CoC template deliberately omits them — so the modifier-anchored
   // form of this rule missed the single most likely source of the defect: an
   // agent pasting that template verbatim.
+  it('COC001: does not flag a helper method that calls no next', async () => {
+    const code = `
+      [ExtensionOf(classStr(SalesFormLetter))]
+      final class SalesFormLetter_MyExt_Extension {
+        private str conCaption(str _prefix = 'Sales') {
+          return _prefix;
+        }
+      }
+    `;
+    const result = await validateXppTool(req({ code, codeType: 'xpp' }));
+    expect(getText(result)).not.toContain('COC001');
+  });
+
   it('COC001: flags a default param on a wrapper with no access modifier', async () => {
     const code = `
 [ExtensionOf(classStr(SalesFormLetter))]
@@ -461,3 +474,103 @@ describe('XML property rules — mined statistics', () => {
     expect(getText(result)).toContain('XML005');
   });
 });
+
+// ─── Auto-fix (fix: true) ────────────────────────────────────────────────────
+
+describe('auto-fix', () => {
+  const coc = [
+    '[ExtensionOf(classStr(SalesFormLetter))]',
+    'class SalesFormLetter_Extension',
+    '{',
+    '    public void run(boolean _showDialog = true, int _copies=1)',
+    '    {',
+    '        TransDate d = today();',
+    '        pause;',
+    '        if (d) print d;',
+    '        next run(_showDialog, _copies);',
+    '    }',
+    '}',
+  ].join('\n');
+
+  it('rewrites today(), final, CoC defaults and pause/print in one pass', () => {
+    const { code, applied } = fixViolations(coc, 'xpp');
+    expect(code).toContain('final class SalesFormLetter_Extension');
+    expect(code).toContain('public void run(boolean _showDialog, int _copies)');
+    expect(code).toContain('TransDate d = DateTimeUtil::getToday(DateTimeUtil::getUserPreferredTimeZone());');
+    expect(code).not.toContain('pause');
+    expect(code.split('\n')).toHaveLength(10); // the pause line is gone, not blanked
+    expect(applied.map(f => f.rule)).toEqual(['COC002', 'COC001', 'COC001', 'SEL001', 'BP004']);
+  });
+
+  it('keeps the default of a helper in the extension class that calls no next', () => {
+    const code = [
+      '[ExtensionOf(classStr(SalesFormLetter))]',
+      'final class SalesFormLetter_Extension',
+      '{',
+      '    public void run(boolean _showDialog = true)',
+      '    {',
+      '        next run(_showDialog);',
+      '        this.conLog();',
+      '    }',
+      '',
+      '    private void conLog(str _prefix = \'SalesFormLetter\')',
+      '    {',
+      '        info(_prefix);',
+      '    }',
+      '}',
+    ].join('\n');
+    const { code: fixed, applied } = fixViolations(code, 'xpp');
+    expect(fixed).toContain('public void run(boolean _showDialog)');
+    expect(fixed).toContain("private void conLog(str _prefix = 'SalesFormLetter')");
+    expect(applied.map(f => f.rule)).toEqual(['COC001']);
+  });
+
+  it('leaves a print that is the whole body of a brace-less if', () => {
+    expect(fixViolations(coc, 'xpp').code).toContain('if (d) print d;');
+  });
+
+  it('returns the diff and the fixed source, and reports only what is left', async () => {
+    const text = getText(await validateXppTool(req({ code: coc, fix: true })));
+    expect(text).toContain('Auto-fix: applied 5 fix(es)');
+    expect(text).toContain('--- original\n+++ fixed\n@@ -1,');
+    expect(text).toContain('-class SalesFormLetter_Extension\n+final class SalesFormLetter_Extension');
+    expect(text).toContain('Fixed source:');
+    expect(text).toContain('left after the fixes');
+    expect(text).toContain('[BP004] (line 7)'); // the print in the brace-less if
+    expect(text).not.toContain('🔴 [SEL001]');
+  });
+
+  it('says so when nothing is fixable', async () => {
+    const text = getText(await validateXppTool(req({ code: 'void run()\n{\n}', fix: true })));
+    expect(text).toContain('nothing mechanically fixable');
+    expect(text).toContain('no violations found after the fixes');
+  });
+
+  it('XML006: reorders the AxTable elements and fixes the X++ in its methods', () => {
+    const xml = [
+      '<AxTable>',
+      '  <Name>ConAsset</Name>',
+      '  <SourceCode>',
+      '    <Methods>',
+      '      <Method>',
+      '        <Name>check</Name>',
+      '        <Source><![CDATA[',
+      '    public boolean check()',
+      '    {',
+      '        return this.Date &lt; today();',
+      '    }',
+      ']]></Source>',
+      '      </Method>',
+      '    </Methods>',
+      '  </SourceCode>',
+      '  <TableGroup>Main</TableGroup>',
+      '  <Label>@Con:Asset</Label>',
+      '</AxTable>',
+    ].join('\n');
+    const { code, applied } = fixViolations(xml, 'xml-table');
+    expect(applied.map(f => f.rule)).toEqual(['SEL001', 'XML006']);
+    expect(code).toContain('this.Date &lt; DateTimeUtil::getToday(DateTimeUtil::getUserPreferredTimeZone());');
+    expect(code).toContain('  </SourceCode>\n  <Label>@Con:Asset</Label>\n  <TableGroup>Main</TableGroup>\n</AxTable>');
+    expect(fixViolations(code, 'xml-table').applied).toEqual([]);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * d365fo_file(action="modify", dryRun=true) — the XML writer's output stays in
+ * memory and comes back as a unified diff; the disk and the journal are untouched.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  isPreviewRun, previewKind, previewWrites, readTargetXml, renderPreview, writeTargetXml,
+} from '../../src/tools/write/writePreview';
+import { readJournal, runWithChangeScope, setChangeJournalRoot } from '../../src/workspace/changeJournal';
+
+vi.mock('../../src/utils/configManager', () => ({
+  getConfigManager: vi.fn(() => ({
+    getModelName: vi.fn(() => null),
+  })),
+}));
+
+let tmpDir: string;
+let classDir: string;
+
+function file(name: string): string {
+  return path.join(classDir, name);
+}
+
+function read(name: string): string | null {
+  return fs.existsSync(file(name)) ? fs.readFileSync(file(name), 'utf-8') : null;
+}
+
+/** An XML writer stand-in: write each file through the writer's seam, then report. */
+function write(files: Record<string, string>, reply = '✅ modified') {
+  return async () => {
+    for (const [name, content] of Object.entries(files)) await writeTargetXml(file(name), content);
+    return { content: [{ type: 'text' as const, text: reply }] };
+  };
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'write-preview-'));
+  classDir = path.join(tmpDir, 'packages', 'ContosoExt', 'ContosoExt', 'AxClass');
+  fs.mkdirSync(classDir, { recursive: true });
+});
+
+afterEach(() => {
+  setChangeJournalRoot(null);
+  try { fs.rmSync(tmpDir, { recursive: true, force: true }); } catch { /* ignore */ }
+});
+
+describe('write preview', () => {
+  it('returns a unified diff of the write and leaves the file alone', async () => {
+    fs.writeFileSync(file('A.xml'), '\uFEFF<AxClass>\r\n\t<Name>A</Name>\r\n</AxClass>\r\n');
+    const before = read('A.xml');
+    const { result, diffs } = await previewWrites(
+      write({ 'A.xml': '<AxClass>\n\t<Name>A</Name>\n\t<Extends>B</Extends>\n</AxClass>\n' }),
+    );
+
+    expect(result.content[0].text).toBe('✅ modified');
+    expect(diffs).toHaveLength(1);
+    expect(diffs[0]).toMatch(/^```diff\n--- a\/A\.xml\n\+\+\+ b\/A\.xml\n/);
+    expect(diffs[0]).toContain('+\t<Extends>B</Extends>');
+    // BOM and CRLF are normalized away — the only change shown is the real one.
+    expect(diffs[0].split('\n').filter(l => /^[-+][^-+]/.test(l))).toEqual(['+\t<Extends>B</Extends>']);
+    expect(read('A.xml')).toBe(before);
+  });
+
+  it('shows a new file against /dev/null and never creates it', async () => {
+    const { diffs } = await previewWrites(write({ 'New.xml': '<AxClass />\n' }));
+    expect(diffs[0]).toContain('--- /dev/null\n+++ b/New.xml');
+    expect(read('New.xml')).toBeNull();
+  });
+
+  it('lets a later write read the earlier one and diffs the pair against the disk', async () => {
+    fs.writeFileSync(file('A.xml'), 'v1\n');
+    const { result, diffs } = await previewWrites(async () => {
+      await writeTargetXml(file('A.xml'), 'v2\n');
+      const seen = await readTargetXml(file('A.xml'));
+      await writeTargetXml(file('A.xml'), `${seen}v3\n`);
+      return isPreviewRun();
+    });
+    expect(result).toBe(true);
+    expect(diffs[0].split('\n').filter(l => /^[-+][^-+]/.test(l))).toEqual(['-v1', '+v2', '+v3']);
+    expect(read('A.xml')).toBe('v1\n');
+    expect(isPreviewRun()).toBe(false);
+  });
+
+  it('writes to disk outside a preview', async () => {
+    await writeTargetXml(file('A.xml'), 'v1');
+    expect(read('A.xml')).toBe('v1');
+  });
+
+  it('records nothing in the change journal', async () => {
+    setChangeJournalRoot(path.join(tmpDir, 'journal'));
+    fs.writeFileSync(file('A.xml'), 'v1');
+    await runWithChangeScope({ tool: 'd365fo_file', summary: 'modify class A' },
+      () => previewWrites(write({ 'A.xml': 'v2' })));
+    expect(await readJournal('ContosoExt')).toEqual([]);
+    expect(read('A.xml')).toBe('v1');
+  });
+
+  it('tells the XML writer operations from the spliced bridge ones and the rest', () => {
+    expect(previewKind('add-query-range', 'data-entity')).toBe('written');
+    expect(previewKind('add-control', 'form-extension')).toBe('written');
+    expect(previewKind('add-method', 'class')).toBe('spliced');
+    expect(previewKind('add-field', 'table')).toBe('spliced');
+    expect(previewKind('add-field', 'view')).toBeNull();
+    expect(previewKind('add-control', 'form')).toBeNull();
+    expect(previewKind('add-enum-value', 'enum')).toBeNull();
+  });
+});
+
+describe('write preview — reply', () => {
+  it('leads with the diff and keeps what the write reported', () => {
+    const reply = renderPreview('add-method on class "A"', { content: [{ text: '✅ Method added' }] }, ['```diff\n+x\n```']);
+    expect(reply.isError).toBeUndefined();
+    expect(reply.content[0].text).toBe(
+      '🔍 Dry run — add-method on class "A": nothing was written. Re-send without dryRun to apply.\n\n' +
+      '```diff\n+x\n```\n\n### What the write reported\n✅ Method added',
+    );
+  });
+
+  it('says when the bridge makes the real change', () => {
+    const reply = renderPreview('add-method on class "A"', { content: [{ text: '✅' }] }, ['```diff\n+x\n```'], true);
+    expect(reply.content[0].text).toContain('_The bridge writes this change; the diff is the same change spliced into the XML');
+  });
+
+  it('says so when the write would change nothing', () => {
+    const reply = renderPreview('modify-property on table "T"', { content: [{ text: '✅ done' }] }, []);
+    expect(reply.content[0].text).toContain('_The operation would leave the file unchanged._');
+  });
+
+  it('reports a refused write as the error it would be', () => {
+    const reply = renderPreview('add-field on table-extension "T.Ext"', {
+      content: [{ text: '⛔ grounding token missing' }], isError: true,
+    }, []);
+    expect(reply.isError).toBe(true);
+    expect(reply.content[0].text).toBe(
+      '🔍 Dry run — add-field on table-extension "T.Ext" would fail; nothing was written.\n\n⛔ grounding token missing',
+    );
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * The text side of a move between models — names re-prefixed for the target
+ * model, the objects that travel with one, and label references re-pointed.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  isExtensionOfObject, labelReferencesIn, movedExtensionName, reprefixObjectName, repointLabelReferences,
+} from '../../src/utils/aotObjectMove';
+
+const core = { regular: 'ConCore', infix: 'ConCore' };
+const svc = { regular: 'ConSvc', infix: 'ConSvc' };
+
+describe('reprefixObjectName', () => {
+  it('swaps the regular token, the extension infix and the CoC infix', () => {
+    expect(reprefixObjectName('ConCoreWarranty', core, svc)).toBe('ConSvcWarranty');
+    expect(reprefixObjectName('CustTable.ConCoreExtension', core, svc)).toBe('CustTable.ConSvcExtension');
+    expect(reprefixObjectName('SalesFormLetterConCore_Extension', core, svc)).toBe('SalesFormLetterConSvc_Extension');
+    expect(reprefixObjectName('CC_Warranty', { regular: 'CC_', infix: 'Cc' }, svc)).toBe('ConSvcWarranty');
+  });
+
+  it('keeps a name that does not carry the source prefix', () => {
+    expect(reprefixObjectName('WarrantyHelper', core, svc)).toBe('WarrantyHelper');
+    expect(reprefixObjectName('ConCore', core, svc)).toBe('ConCore');
+  });
+});
+
+describe('objects that move with it', () => {
+  it('follows extension elements and CoC classes of the object', () => {
+    expect(isExtensionOfObject('AxTableExtension', 'ConCoreWarranty.ConCoreAudit', '', 'AxTable', 'ConCoreWarranty')).toBe(true);
+    expect(isExtensionOfObject('AxTableExtension', 'ConCoreWarrantyLine.ConCoreAudit', '', 'AxTable', 'ConCoreWarranty')).toBe(false);
+    const coc = '<![CDATA[[ExtensionOf(formStr(ConCoreWarrantyForm))]\nfinal class ConCoreWarrantyForm_Extension\n{\n}]]>';
+    expect(isExtensionOfObject('AxClass', 'ConCoreWarrantyForm_Extension', coc, 'AxForm', 'ConCoreWarrantyForm')).toBe(true);
+    expect(movedExtensionName('ConCoreWarranty.ConCoreAudit', 'ConCoreWarranty', 'ConSvcWarranty', core, svc))
+      .toBe('ConSvcWarranty.ConSvcAudit');
+    expect(movedExtensionName('ConCoreWarranty_Extension', 'ConCoreWarranty', 'ConSvcWarranty', core, svc))
+      .toBe('ConSvcWarranty_Extension');
+  });
+});
+
+describe('label references', () => {
+  it('finds the source file\'s references and re-points only the moved ones', () => {
+    const xml = '<Label>@ConCore:Warranty</Label><HelpText>@concore:WarrantyHelp</HelpText><DevDoc>@SYS1234</DevDoc>' +
+      '<Source><![CDATA[info("@ConCore:Expired");]]></Source>';
+    expect(labelReferencesIn(xml, ['ConCore'])).toEqual([
+      { labelFileId: 'ConCore', labelId: 'Warranty' },
+      { labelFileId: 'ConCore', labelId: 'WarrantyHelp' },
+      { labelFileId: 'ConCore', labelId: 'Expired' },
+    ]);
+    const { xml: out, count } = repointLabelReferences(xml, new Set(['ConCore:Warranty', 'ConCore:Expired']), 'ConSvc');
+    expect(count).toBe(2);
+    expect(out).toBe('<Label>@ConSvc:Warranty</Label><HelpText>@concore:WarrantyHelp</HelpText><DevDoc>@SYS1234</DevDoc>' +
+      '<Source><![CDATA[info("@ConSvc:Expired");]]></Source>');
+  });
+});
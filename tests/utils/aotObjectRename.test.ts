@@ -0,0 +1,122 @@
+/**
+ * The text side of an object rename — which X++ identifiers and metadata
+ * properties name the object, and which names are derived from it.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  derivedObjectName, renameAotReferences, renameAotRoot, renameProjectIncludes, renameXppIdentifier,
+} from '../../src/utils/aotObjectRename';
+
+describe('renameXppIdentifier', () => {
+  it('renames the type and leaves strings, comments, members and enum values alone', () => {
+    const source = [
+      'public static ContosoWarranty find(ItemId _itemId)',
+      '{',
+      '    ContosoWarranty warranty; // ContosoWarranty buffer',
+      '    select firstonly warranty where warranty.ItemId == _itemId;',
+      '    info(strFmt("ContosoWarranty %1", tableStr(ContosoWarranty)));',
+      '    this.ContosoWarranty = ContosoKind::ContosoWarranty;',
+      '    return ContosoWarrantyLine::findParent(warranty);',
+      '}',
+    ].join('\n');
+    const { text, count } = renameXppIdentifier(source, 'ContosoWarranty', 'ContosoWarrantyContract');
+    expect(count).toBe(3);
+    expect(text).toContain('public static ContosoWarrantyContract find(');
+    expect(text).toContain('    ContosoWarrantyContract warranty; // ContosoWarranty buffer');
+    expect(text).toContain('info(strFmt("ContosoWarranty %1", tableStr(ContosoWarrantyContract)));');
+    expect(text).toContain('this.ContosoWarranty = ContosoKind::ContosoWarranty;');
+    expect(text).toContain('ContosoWarrantyLine::findParent');
+  });
+
+  it('matches another casing in a type position and writes the new name as given', () => {
+    const { text, count } = renameXppIdentifier(
+      'contosowarranty w = CONTOSOWARRANTY::construct(); str t = tablestr(contosoWarranty); w = new contosoWarranty();',
+      'ContosoWarranty', 'ContosoWarrantyContract');
+    expect(count).toBe(4);
+    expect(text).toBe(
+      'ContosoWarrantyContract w = ContosoWarrantyContract::construct(); ' +
+      'str t = tablestr(ContosoWarrantyContract); w = new ContosoWarrantyContract();');
+  });
+
+  it('leaves a variable named after the type alone and counts it', () => {
+    const source = [
+      'ContosoWarranty contosoWarranty;',
+      'select firstonly contosoWarranty where contosoWarranty.ItemId == _itemId;',
+      'info(int642Str(contosoWarranty.RecId));',
+      'return contosoWarranty;',
+    ].join('\n');
+    const { text, count, caseVariants } = renameXppIdentifier(source, 'ContosoWarranty', 'ContosoGuarantee');
+    expect(count).toBe(1);
+    expect(caseVariants).toBe(5);
+    expect(text).toBe(source.replace('ContosoWarranty contosoWarranty;', 'ContosoGuarantee contosoWarranty;'));
+  });
+});
+
+describe('renameAotReferences', () => {
+  it('renames a class menu item target, but not a form one of the same name', () => {
+    const menuItem = (objectType: string) => `<?xml version="1.0" encoding="utf-8"?>
+<AxMenuItemAction xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+\t<Name>ContosoWarrantyPost</Name>
+\t<Object>ContosoWarrantyPost</Object>
+${objectType}</AxMenuItemAction>`;
+    const asClass = renameAotReferences(menuItem('\t<ObjectType>Class</ObjectType>\n'), 'class', 'ContosoWarrantyPost', 'ContosoWarrantyPoster')!;
+    expect(asClass.properties).toBe(1);
+    expect(asClass.xml).toContain('<Name>ContosoWarrantyPost</Name>');
+    expect(asClass.xml).toContain('<Object>ContosoWarrantyPoster</Object>');
+    expect(renameAotReferences(menuItem(''), 'class', 'ContosoWarrantyPost', 'ContosoWarrantyPoster')!.properties).toBe(0);
+  });
+
+  it('renames table references in data sources, relations and privileges, and X++ in CDATA', () => {
+    const form = `<AxForm>
+\t<Name>ContosoWarrantyForm</Name>
+\t<SourceCode>
+\t\t<Methods>
+\t\t\t<Method>
+\t\t\t\t<Name>init</Name>
+\t\t\t\t<Source><![CDATA[void init() { ContosoWarranty w = ContosoWarranty::find(''); }]]></Source>
+\t\t\t</Method>
+\t\t</Methods>
+\t</SourceCode>
+\t<DataSources>
+\t\t<AxFormDataSource>
+\t\t\t<Name>ContosoWarranty</Name>
+\t\t\t<Table>ContosoWarranty</Table>
+\t\t</AxFormDataSource>
+\t</DataSources>
+</AxForm>`;
+    const result = renameAotReferences(form, 'table', 'ContosoWarranty', 'ContosoWarrantyContract')!;
+    expect(result).toMatchObject({ code: 2, properties: 1 });
+    // The data source keeps its name: X++ on the form addresses it by that name.
+    expect(result.xml).toContain('<Name>ContosoWarranty</Name>\n\t\t\t<Table>ContosoWarrantyContract</Table>');
+    expect(result.xml).toContain('ContosoWarrantyContract w = ContosoWarrantyContract::find');
+
+    const privilege = '<AxSecurityPrivilege><Name>ContosoWarrantyView</Name><DataEntityPermissions>' +
+      '<AxSecurityDataEntityPermission><Grant><Read>Allow</Read></Grant><Name>ContosoWarranty</Name></AxSecurityDataEntityPermission>' +
+      '</DataEntityPermissions></AxSecurityPrivilege>';
+    expect(renameAotReferences(privilege, 'table', 'ContosoWarranty', 'ContosoWarrantyContract')!.xml)
+      .toContain('<Name>ContosoWarrantyContract</Name></AxSecurityDataEntityPermission>');
+  });
+});
+
+describe('derived names and project includes', () => {
+  it('follows table extensions and CoC classes of the object', () => {
+    expect(derivedObjectName('AxTableExtension', 'ContosoWarranty.ContosoAudit', '', 'table', 'ContosoWarranty', 'ContosoContract'))
+      .toBe('ContosoContract.ContosoAudit');
+    const coc = '<![CDATA[[ExtensionOf(tableStr(ContosoWarranty))]\nfinal class ContosoWarranty_Extension\n{\n}]]>';
+    expect(derivedObjectName('AxClass', 'ContosoWarranty_Extension', coc, 'table', 'ContosoWarranty', 'ContosoContract'))
+      .toBe('ContosoContract_Extension');
+    expect(derivedObjectName('AxClass', 'ContosoWarrantyHelper', '', 'table', 'ContosoWarranty', 'ContosoContract')).toBeNull();
+    expect(renameAotRoot('<AxTable>\n\t<Name>ContosoWarranty</Name>\n</AxTable>', 'ContosoContract'))
+      .toBe('<AxTable>\n\t<Name>ContosoContract</Name>\n</AxTable>');
+  });
+
+  it('renames .rnrproj includes with either slash and with or without .xml', () => {
+    const project = '<Content Include="AxTable\\ContosoWarranty" />\n<Content Include="AxTable/contosowarranty.xml" />\n' +
+      '<Content Include="AxTable\\ContosoWarrantyLine" />';
+    const { xml, count } = renameProjectIncludes(project, [{ axFolder: 'AxTable', from: 'ContosoWarranty', to: 'ContosoContract' }]);
+    expect(count).toBe(2);
+    expect(xml).toBe('<Content Include="AxTable\\ContosoContract" />\n<Content Include="AxTable/ContosoContract.xml" />\n' +
+      '<Content Include="AxTable\\ContosoWarrantyLine" />');
+  });
+});
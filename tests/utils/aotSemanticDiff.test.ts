@@ -0,0 +1,172 @@
+/**
+ * Semantic AOT diff — what changed in a table, form or class, item by item,
+ * with element order, X++ whitespace and regenerated names left out.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffAotXml, renderAotSemanticDiff } from '../../src/utils/aotSemanticDiff';
+
+const table = (opts: { fields: string; index: string; validateWrite: string; label?: string }) => `\uFEFF<?xml version="1.0" encoding="utf-8"?>
+<AxTable xmlns:i="http://www.w3.org/2001/XMLSchema-instance" xmlns="Microsoft.Dynamics.AX.Metadata.V6">
+\t<Name>ContosoWarranty</Name>
+\t<SourceCode>
+\t\t<Declaration><![CDATA[
+public class ContosoWarranty extends common
+{
+}
+]]></Declaration>
+\t\t<Methods>
+\t\t\t<Method>
+\t\t\t\t<Name>validateWrite</Name>
+\t\t\t\t<Source><![CDATA[${opts.validateWrite}]]></Source>
+\t\t\t</Method>
+\t\t</Methods>
+\t</SourceCode>
+\t<Label>${opts.label ?? '@Contoso:Warranty'}</Label>
+\t<TableGroup>Main</TableGroup>
+\t<DeleteActions />
+\t<FieldGroups>
+\t\t<AxTableFieldGroup>
+\t\t\t<Name>Overview</Name>
+\t\t\t<Fields>
+\t\t\t\t<AxTableFieldGroupField>
+\t\t\t\t\t<DataField>ItemId</DataField>
+\t\t\t\t</AxTableFieldGroupField>
+\t\t\t</Fields>
+\t\t</AxTableFieldGroup>
+\t</FieldGroups>
+\t<Fields>${opts.fields}
+\t</Fields>
+\t<Indexes>
+\t\t<AxTableIndex>
+\t\t\t<Name>ItemIdx</Name>
+\t\t\t<Fields>${opts.index}
+\t\t\t</Fields>
+\t\t</AxTableIndex>
+\t</Indexes>
+</AxTable>`;
+
+const ITEM_ID = `
+\t\t<AxTableField xmlns="" i:type="AxTableFieldString">
+\t\t\t<Name>ItemId</Name>
+\t\t\t<ExtendedDataType>ItemId</ExtendedDataType>
+\t\t</AxTableField>`;
+const DAYS = `
+\t\t<AxTableField xmlns="" i:type="AxTableFieldInt">
+\t\t\t<Name>WarrantyDays</Name>
+\t\t\t<ExtendedDataType>ContosoWarrantyDays</ExtendedDataType>
+\t\t</AxTableField>`;
+const indexOn = (...fields: string[]) => fields.map(f => `
+\t\t\t\t<AxTableIndexField>
+\t\t\t\t\t<DataField>${f}</DataField>
+\t\t\t\t</AxTableIndexField>`).join('');
+
+const VALIDATE = `
+public boolean validateWrite()
+{
+    boolean ret = super();
+    return ret;
+}
+`;
+
+describe('diffAotXml — tables and code', () => {
+  it('reports a new field, changed index fields and a changed method body', () => {
+    const before = table({ fields: ITEM_ID, index: indexOn('ItemId'), validateWrite: VALIDATE });
+    const after = table({
+      fields: DAYS + ITEM_ID,
+      index: indexOn('ItemId', 'WarrantyDays'),
+      validateWrite: VALIDATE.replace('    return ret;', '    ret = ret && this.WarrantyDays >= 0;\n    return ret;'),
+    });
+    const diff = diffAotXml(before, after)!;
+    expect(diff).toMatchObject({ objectType: 'AxTable', objectName: 'ContosoWarranty' });
+    expect(diff.changes.map(c => `${c.kind} ${c.name} ${c.action}: ${c.details.join('; ')}`)).toEqual([
+      'method validateWrite changed: body',
+      'index ItemIdx changed: Fields: ItemId → ItemId, WarrantyDays',
+      'field WarrantyDays added: Int, ExtendedDataType ContosoWarrantyDays',
+    ]);
+    expect(diff.changes[0].codeDiff).toContain('+    ret = ret && this.WarrantyDays >= 0;');
+  });
+
+  it('ignores element order and whitespace-only X++ edits', () => {
+    const before = table({ fields: ITEM_ID + DAYS, index: indexOn('ItemId'), validateWrite: VALIDATE });
+    const after = table({ fields: DAYS + ITEM_ID, index: indexOn('ItemId'), validateWrite: VALIDATE.replace(/ {4}/g, '\t') + '\r\n' });
+    const diff = diffAotXml(before, after)!;
+    expect(diff.changes).toEqual([]);
+    expect(renderAotSemanticDiff(diff)).toEqual(['- _No semantic change — element order, whitespace or regenerated identifiers only._']);
+  });
+
+  it('reports object properties, removals and a new file', () => {
+    const before = table({ fields: ITEM_ID + DAYS, index: indexOn('ItemId'), validateWrite: VALIDATE });
+    const after = table({ fields: ITEM_ID, index: indexOn('ItemId'), validateWrite: VALIDATE, label: '@Contoso:Warranties' });
+    expect(renderAotSemanticDiff(diffAotXml(before, after)!)).toEqual([
+      '- property `Label` changed — @Contoso:Warranty → @Contoso:Warranties',
+      '- field `WarrantyDays` removed',
+    ]);
+    const created = diffAotXml(null, after)!;
+    expect(created.changes.map(c => `${c.kind} ${c.name} ${c.action}`)).toContain('declaration classDeclaration added');
+  });
+
+  it('declines input that is not AOT XML', () => {
+    expect(diffAotXml('<AxTable><Name>A</Name>', '<AxTable />')).toBeNull();
+    expect(diffAotXml('<AxTable />', '<AxClass />')).toBeNull();
+    expect(diffAotXml('<project />', '<project />')).toBeNull();
+  });
+});
+
+const formExtension = (parent: string, controlId: string) => `<?xml version="1.0" encoding="utf-8"?>
+<AxFormExtension xmlns:i="http://www.w3.org/2001/XMLSchema-instance" xmlns="Microsoft.Dynamics.AX.Metadata.V6">
+\t<Name>CustTable.ContosoExt</Name>
+\t<Controls>
+\t\t<AxFormExtensionControl xmlns="">
+\t\t\t<Name>FormExtensionControl${controlId}</Name>
+\t\t\t<FormControl xmlns="" i:type="AxFormIntegerControl">
+\t\t\t\t<Name>ContosoWarrantyDays</Name>
+\t\t\t\t<Type>Integer</Type>
+\t\t\t\t<FormControlExtension i:nil="true" />
+\t\t\t\t<DataField>WarrantyDays</DataField>
+\t\t\t\t<DataSource>CustTable</DataSource>
+\t\t\t</FormControl>
+\t\t\t<Parent>${parent}</Parent>
+\t\t</AxFormExtensionControl>
+\t</Controls>
+</AxFormExtension>`;
+
+const form = (grid: string, group: string) => `<?xml version="1.0" encoding="utf-8"?>
+<AxForm xmlns:i="http://www.w3.org/2001/XMLSchema-instance" xmlns="Microsoft.Dynamics.AX.Metadata.V6">
+\t<Name>ContosoWarranty</Name>
+\t<Design>
+\t\t<Caption xmlns="">@Contoso:Warranty</Caption>
+\t\t<Controls xmlns="">
+\t\t\t<AxFormControl xmlns="" i:type="AxFormGridControl">
+\t\t\t\t<Name>Grid</Name>
+\t\t\t\t<Type>Grid</Type>
+\t\t\t\t<Controls>${grid}</Controls>
+\t\t\t</AxFormControl>
+\t\t\t<AxFormControl xmlns="" i:type="AxFormGroupControl">
+\t\t\t\t<Name>Details</Name>
+\t\t\t\t<Type>Group</Type>
+\t\t\t\t<Controls>${group}</Controls>
+\t\t\t</AxFormControl>
+\t\t</Controls>
+\t</Design>
+</AxForm>`;
+
+const DAYS_CONTROL = `
+\t\t\t\t\t<AxFormControl xmlns="" i:type="AxFormIntegerControl">
+\t\t\t\t\t\t<Name>WarrantyDays</Name>
+\t\t\t\t\t\t<Type>Integer</Type>
+\t\t\t\t\t\t<DataField>WarrantyDays</DataField>
+\t\t\t\t\t</AxFormControl>`;
+
+describe('diffAotXml — forms', () => {
+  it('reports a control moved between groups', () => {
+    const diff = diffAotXml(form(DAYS_CONTROL, ''), form('', DAYS_CONTROL))!;
+    expect(renderAotSemanticDiff(diff)).toEqual(['- control `WarrantyDays` moved — Grid → Details']);
+  });
+
+  it('keys an extension control by its form control, not the regenerated envelope name', () => {
+    expect(diffAotXml(formExtension('Grid', 'a1b2c3'), formExtension('Grid', 'x9y8z7'))!.changes).toEqual([]);
+    expect(renderAotSemanticDiff(diffAotXml(formExtension('Grid', 'a1b2c3'), formExtension('TabGeneral', 'x9y8z7'))!))
+      .toEqual(['- control `ContosoWarrantyDays` moved — Grid → TabGeneral']);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Three-way AOT XML merge — collections merged by member name, properties by
+ * value, and only a real disagreement reported as a conflict.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergeAotXml } from '../../src/utils/aotXmlMerge';
+import { diffAotXml } from '../../src/utils/aotSemanticDiff';
+import { parseNodes } from '../../src/utils/xmlNodeTree';
+
+const field = (name: string, edt = name) => `
+\t\t<AxTableField xmlns="" i:type="AxTableFieldString">
+\t\t\t<Name>${name}</Name>
+\t\t\t<ExtendedDataType>${edt}</ExtendedDataType>
+\t\t</AxTableField>`;
+
+const method = (name: string, body: string) => `
+\t\t\t<Method>
+\t\t\t\t<Name>${name}</Name>
+\t\t\t\t<Source><![CDATA[
+public void ${name}()
+{
+${body}
+}
+]]></Source>
+\t\t\t</Method>`;
+
+const table = (opts: { fields: string; methods?: string; label?: string; extra?: string }) => `\uFEFF<?xml version="1.0" encoding="utf-8"?>
+<AxTable xmlns:i="http://www.w3.org/2001/XMLSchema-instance" xmlns="Microsoft.Dynamics.AX.Metadata.V6">
+\t<Name>ContosoWarranty</Name>
+\t<SourceCode>
+\t\t<Methods>${opts.methods ?? ''}
+\t\t</Methods>
+\t</SourceCode>
+\t<Label>${opts.label ?? '@Contoso:Warranty'}</Label>
+${opts.extra ?? ''}\t<TableGroup>Main</TableGroup>
+\t<DeleteActions />
+\t<Fields>${opts.fields}
+\t</Fields>
+</AxTable>
+`;
+
+const BASE = table({ fields: field('ItemId'), methods: method('init', '    super();') });
+
+describe('mergeAotXml', () => {
+  it('merges fields and methods both branches added, keeping both', () => {
+    const ours = table({ fields: field('ItemId') + field('WarrantyDays'), methods: method('init', '    super();') });
+    const theirs = table({
+      fields: field('ItemId') + field('ServiceLevel'),
+      methods: method('init', '    super();') + method('clear', '    this.ServiceLevel = \'\';'),
+    });
+    const result = mergeAotXml(BASE, ours, theirs)!;
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged.startsWith('\uFEFF<?xml')).toBe(true);
+    expect(parseNodes(result.merged.slice(1))).not.toBeNull();
+
+    const fromBase = diffAotXml(BASE, result.merged)!.changes.map(c => `${c.kind} ${c.name} ${c.action}`);
+    expect(fromBase.sort()).toEqual(['field ServiceLevel added', 'field WarrantyDays added', 'method clear added']);
+    expect(result.merged.indexOf('<Name>WarrantyDays</Name>')).toBeLessThan(result.merged.indexOf('<Name>ServiceLevel</Name>'));
+  });
+
+  it('takes the side that changed a property, and a removal the other side left alone', () => {
+    const ours = table({ fields: '', methods: method('init', '    super();') });
+    const theirs = table({ fields: field('ItemId'), methods: method('init', '    super();'), label: '@Contoso:Warranties' });
+    const result = mergeAotXml(BASE, ours, theirs)!;
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged).toContain('<Label>@Contoso:Warranties</Label>');
+    expect(result.merged).not.toContain('<Name>ItemId</Name>');
+  });
+
+  it('places a new AxTable property by the canonical element order', () => {
+    const theirs = table({ fields: field('ItemId'), methods: method('init', '    super();'), extra: '\t<FormRef>ContosoWarranty</FormRef>\n' });
+    const ours = table({ fields: field('ItemId') + field('WarrantyDays'), methods: method('init', '    super();') });
+    const { merged } = mergeAotXml(BASE, ours, theirs)!;
+    expect(merged.indexOf('<FormRef>')).toBeGreaterThan(-1);
+    expect(merged.indexOf('<FormRef>')).toBeLessThan(merged.indexOf('<Label>'));
+  });
+
+  it('reports the same element changed differently, and resolves it only when told which side wins', () => {
+    const ours = table({ fields: field('ItemId', 'ItemIdSmall'), methods: method('init', '    super();\n    this.clear();') });
+    const theirs = table({ fields: field('ItemId', 'ItemIdLarge'), methods: method('init', '\tsuper();') });
+    const result = mergeAotXml(BASE, ours, theirs)!;
+    // The X++ on theirs only re-indented, so init is not a conflict; the EDT is.
+    expect(result.conflicts).toEqual([{
+      path: 'AxTable › Fields › ItemId › ExtendedDataType',
+      kind: 'field',
+      name: 'ItemId',
+      reason: 'both-changed',
+      base: 'ItemId',
+      ours: 'ItemIdSmall',
+      theirs: 'ItemIdLarge',
+      resolvedTo: null,
+    }]);
+    expect(result.merged).toContain('this.clear();');
+
+    const theirsWins = mergeAotXml(BASE, ours, theirs, 'theirs')!;
+    expect(theirsWins.conflicts[0].resolvedTo).toBe('theirs');
+    expect(theirsWins.merged).toContain('<ExtendedDataType>ItemIdLarge</ExtendedDataType>');
+  });
+
+  it('marks a conflict in the output when asked, each side whole and the markers at the line start', () => {
+    const ours = table({ fields: field('ItemId', 'ItemIdSmall') + field('WarrantyDays') });
+    const theirs = table({ fields: field('ItemId', 'ItemIdLarge') });
+    const result = mergeAotXml(BASE, ours, theirs, undefined, true)!;
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.merged).toContain(
+      '\t\t\t<Name>ItemId</Name>\n' +
+      '<<<<<<< ours\n\t\t\t<ExtendedDataType>ItemIdSmall</ExtendedDataType>\n' +
+      '=======\n\t\t\t<ExtendedDataType>ItemIdLarge</ExtendedDataType>\n' +
+      '>>>>>>> theirs\n\t\t</AxTableField>',
+    );
+    expect(result.merged).toContain('<Name>WarrantyDays</Name>');
+    // A side that is told to win leaves no markers.
+    expect(mergeAotXml(BASE, ours, theirs, 'ours', true)!.merged).not.toContain('<<<<<<<');
+  });
+
+  it('reports a change on one side against a removal on the other', () => {
+    const ours = table({ fields: field('ItemId'), methods: method('init', '    super();\n    this.clear();') });
+    const theirs = table({ fields: field('ItemId') });
+    const [conflict] = mergeAotXml(BASE, ours, theirs)!.conflicts;
+    expect(conflict).toMatchObject({ kind: 'method', name: 'init', reason: 'changed-and-removed', theirs: '(absent)' });
+  });
+
+  it('keeps one envelope for an extension control both sides added, whatever its regenerated name', () => {
+    const extension = (controlId: string) => `<?xml version="1.0" encoding="utf-8"?>
+<AxFormExtension xmlns:i="http://www.w3.org/2001/XMLSchema-instance" xmlns="Microsoft.Dynamics.AX.Metadata.V6">
+\t<Name>CustTable.ContosoExt</Name>
+\t<Controls>
+\t\t<AxFormExtensionControl xmlns="">
+\t\t\t<Name>FormExtensionControl${controlId}</Name>
+\t\t\t<FormControl xmlns="" i:type="AxFormIntegerControl">
+\t\t\t\t<Name>ContosoWarrantyDays</Name>
+\t\t\t\t<DataField>WarrantyDays</DataField>
+\t\t\t</FormControl>
+\t\t\t<Parent>Grid</Parent>
+\t\t</AxFormExtensionControl>
+\t</Controls>
+</AxFormExtension>`;
+    const result = mergeAotXml(null, extension('a1b2c3'), extension('x9y8z7'))!;
+    expect(result.conflicts).toEqual([]);
+    expect(result.merged.match(/<AxFormExtensionControl /g)).toHaveLength(1);
+    expect(result.merged).toContain('FormExtensionControla1b2c3');
+  });
+
+  it('declines files that are not the same AOT object type', () => {
+    expect(mergeAotXml(BASE, BASE, '<AxClass><Name>A</Name></AxClass>')).toBeNull();
+    expect(mergeAotXml(BASE, '<<<<<<< HEAD', BASE)).toBeNull();
+  });
+});
@@ -149,7 +149,7 @@ describe('countModelXmlFiles', () => {
     const modelPath = await makeModel('Mixed', {
       AxClass: ['A.xml', 'A.xml.bak', 'readme.md'],
       AxLabelFile: ['L.xml'],       // labels are indexed by build-database, not here
-      AxWorkflowTask: ['W.xml'],    // nothing extracts this
+      AxWorkflowHierarchyAssignmentProvider: ['W.xml'], // nothing extracts this
     });
 
     expect(await countModel(modelPath)).toBe(1);
@@ -99,8 +99,82 @@ const CHARS_PER_TOKEN = 4;
 //
 // Raised by ~50 chars for add-query-range / remove-query-range — two XML-only
 // operations for inserting/removing ViewMetadata filter ranges on data entities.
-const TOTAL_BUDGET = 52_150;
-const LARGEST_TOOL_BUDGET = 5_700;
+//
+// Raised by ~200 chars for the tile / kpi / aggregate-measurement /
+// aggregate-dimension object types of get_object_info. The cost is the enum
+// (published twice: single and objects[]) plus the description list; the
+// alternative is reading the raw XML, which hides the menu-item, query, measure
+// and workspace links the readers resolve from the index.
+//
+// Raised by ~30 chars so the options hint names both readers that take `mode`
+// (edt: hierarchy; form: workspace). Unlisted, the workspace view of a form is
+// a flag no agent would guess.
+//
+// Raised by ~150 chars for validate_code's `fix` flag. Without it the agent
+// hand-applies the same five mechanical fixes (today(), final, CoC defaults,
+// pause/print, AxTable element order) on every generated file.
+//
+// Raised by ~220 chars for `outputFormat` on run_bp_check and
+// build_d365fo_project. A pipeline agent that cannot ask for SARIF/JUnit
+// re-parses the readable summary into them, which loses the rule IDs.
+//
+// Raised by ~170 chars for analyze_code(mode="impact") and its `target`. The
+// alternative is a chain of find_references / get_object_info calls per EDT,
+// field and relation, each paying the full reader payload.
+//
+// Raised by ~440 chars for labels(action="gaps") and its format / outputPath /
+// xliff. Without it a translation pass means reading every .label.txt of every
+// language into the context to diff them by eye.
+//
+// Raised by ~120 chars for labels(action="audit"): one enum value and one line.
+// It reuses the gaps parameters, so the cost is the action alone.
+//
+// Raised by ~300 chars for labels(action="extract") and its objectType /
+// objectName. Both are required for the action, so they cannot move to the
+// op-spec the way the write plumbing did.
+//
+// Raised by ~450 chars for the change journal in undo_last_modification:
+// steps / toCheckpoint / checkpoint / history / limit / model / force. The tool
+// has no op-spec to park them in, so the descriptions are kept to a few words.
+//
+// Raised by ~150 chars for d365fo_file(action="changeset"): one enum value and
+// one line. changes[] is not a wire property — it travels like every other
+// op-specific value and its contract is op-spec topic="changeset". d365fo_file
+// was already at its cap, so that cap (and the largest-tool one) moves to 5_900.
+//
+// Raised by ~30 chars for modify's params.dryRun: the modify line now points at
+// the preview instead of saying there is none. The parameter itself is op-spec.
+//
+// Raised by ~90 chars for review_workspace_changes: one sentence saying AOT XML
+// is reviewed as a semantic diff, so the agent reads it instead of asking for
+// the raw files. No new parameter.
+//
+// Raised by ~60 chars for d365fo_file(action="merge"): one enum value and one
+// line; its parameters live in op-spec topic="merge". d365fo_file's cap (and
+// the largest-tool one) moves to 6_000.
+//
+// Raised by ~60 chars for d365fo_file(action="rename"), the same way: one enum
+// value and one line, the contract in op-spec topic="rename". Caps to 6_050.
+//
+// Raised by ~60 chars for d365fo_file(action="move"), likewise: one enum value
+// and one line, the contract in op-spec topic="move". Caps to 6_110.
+//
+// Raised by ~340 chars for security_info(mode="sod"): one enum value, one mode
+// line and the `rulesPath` property. The rule-file format lives in the tool's
+// error message for a missing file, not in the schema.
+//
+// Raised by ~170 chars for generate_object(mode="security"): one enum value,
+// one mode line and the name hint. `role` lives in op-spec topic="security".
+//
+// Raised by ~250 chars for security_info(mode="matrix"): one enum value, one
+// mode line and the `role` property. The CSV columns are explained in the
+// tool's output, not here.
+//
+// Raised by ~110 chars for d365fo_file's dryRun line: bridge operations are now
+// previewed too, and the line names the ones that still cannot be, so an agent
+// does not find out by being refused. The exact list is in every modify op-spec.
+const TOTAL_BUDGET = 55_700;
+const LARGEST_TOOL_BUDGET = 6_300;
 
 async function getTools(): Promise<Array<{ name: string }>> {
   const ctx: any = { symbolIndex: {}, parser: {} };
@@ -147,7 +221,7 @@ describe('tool schema token budget', () => {
     const tools = await getTools();
     const byName = new Map(tools.map(t => [t.name, t]));
 
-    for (const [name, cap] of [['d365fo_file', 5_700], ['generate_object', 3_400]] as const) {
+    for (const [name, cap] of [['d365fo_file', 6_300], ['generate_object', 3_400]] as const) {
       const tool: any = byName.get(name);
       expect(tool, `${name} is not published`).toBeDefined();
       const chars = JSON.stringify(tool).length;
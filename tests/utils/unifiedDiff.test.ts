@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { unifiedDiff } from '../../src/utils/unifiedDiff';
+
+describe('unifiedDiff', () => {
+  it('is empty for equal texts, and for texts that differ only in line endings', () => {
+    expect(unifiedDiff('a\nb', 'a\nb')).toBe('');
+    expect(unifiedDiff('a\r\nb', 'a\nb')).toBe('');
+  });
+
+  it('shows a change with three lines of context', () => {
+    const before = ['1', '2', '3', '4', '5', '6', '7', '8', '9'].join('\n');
+    const after = before.replace('5', 'five');
+    expect(unifiedDiff(before, after)).toBe(
+      ['--- a', '+++ b', '@@ -2,7 +2,7 @@', ' 2', ' 3', ' 4', '-5', '+five', ' 6', ' 7', ' 8'].join('\n'),
+    );
+  });
+
+  it('splits changes further apart than twice the context into separate hunks', () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const after = [...lines];
+    after[1] = 'changed 2';
+    after[18] = 'changed 19';
+    const diff = unifiedDiff(lines.join('\n'), after.join('\n'), { fromFile: 'old', toFile: 'new' });
+    expect(diff.split('\n').filter(l => l.startsWith('@@'))).toEqual(['@@ -1,5 +1,5 @@', '@@ -16,5 +16,5 @@']);
+    expect(diff.startsWith('--- old\n+++ new\n')).toBe(true);
+  });
+
+  it('counts a removed line and an added one on their own sides', () => {
+    expect(unifiedDiff('a\nb\nc', 'a\nc\nd')).toBe(
+      ['--- a', '+++ b', '@@ -1,3 +1,3 @@', ' a', '-b', ' c', '+d'].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseXpp,
+  walkXpp,
+  selectQueriesOf,
+  classesOf,
+  type XppNode,
+} from '../../src/utils/xppParser';
+import { runRules } from '../../src/tools/analysis/validateXpp';
+
+const kinds = (source: string): string[] => {
+  const found: string[] = [];
+  walkXpp(parseXpp(source), node => { found.push(node.kind); });
+  return found;
+};
+
+const rulesOf = (code: string) => runRules(code, 'xpp').map(v => v.rule);
+
+describe('parseXpp — declarations', () => {
+  it('reads an extension class, its attribute, modifiers and methods', () => {
+    const unit = parseXpp(`
+      [ExtensionOf(tableStr(CustTable))]
+      final class CustTable_Extension
+      {
+          public boolean validateWrite(boolean _skip = false)
+          {
+              boolean ret = next validateWrite(_skip);
+              return ret;
+          }
+      }
+    `);
+    const [cls] = classesOf(unit);
+    expect(cls.name).toBe('CustTable_Extension');
+    expect(cls.modifiers).toContain('final');
+    expect(cls.attributes[0].name).toBe('ExtensionOf');
+    const method = cls.members.find(m => m.kind === 'Method');
+    expect(method?.kind === 'Method' && method.parameters[0].defaultValue).toBeTruthy();
+  });
+
+  it('parses loose statements and a half-written method without throwing', () => {
+    expect(() => parseXpp('info("x");\nwhile select custTable { ')).not.toThrow();
+    expect(() => parseXpp('<AxTable><Name>T</Name></AxTable>')).not.toThrow();
+    expect(kinds('info("x");')).toContain('Call');
+  });
+
+  it('stops at pathological nesting with a diagnostic instead of overflowing the stack', () => {
+    for (const source of [
+      `x = ${'('.repeat(20000)}1${')'.repeat(20000)};`,
+      `${'{'.repeat(20000)}${'}'.repeat(20000)}`,
+      `x = ${'!'.repeat(20000)}y;`,
+      `if (a) ${'if (a) '.repeat(20000)}info("x");`,
+    ]) {
+      let unit: ReturnType<typeof parseXpp> | undefined;
+      expect(() => { unit = parseXpp(source); }).not.toThrow();
+      expect(unit!.diagnostics).toHaveLength(1);
+      expect(unit!.diagnostics[0].message).toMatch(/nesting deeper than \d+ levels/);
+      expect(() => walkXpp(unit!, () => true)).not.toThrow();
+    }
+    const ordinary = parseXpp(`x = ${'('.repeat(100)}1${')'.repeat(100)};`);
+    expect(ordinary.diagnostics).toEqual([]);
+  });
+});
+
+describe('parseXpp — select grammar', () => {
+  it('keeps the where clause of a join separate from the driving select', () => {
+    const [query] = selectQueriesOf(parseXpp(`
+      select firstOnly sum(Qty) from inventTrans
+          where inventTrans.ItemId == itemId
+             && inventTrans.StatusIssue == StatusIssue::Sold
+          exists join inventDim
+              where inventDim.InventDimId == inventTrans.InventDimId;
+    `));
+    expect(query.options.map(o => o.name)).toEqual(['firstOnly']);
+    expect(query.table).toBe('inventTrans');
+    expect(query.where?.kind).toBe('Binary');
+    expect(query.joins).toHaveLength(1);
+    expect(query.joins[0].joinType).toBe('exists');
+    expect(query.joins[0].query.table).toBe('inventDim');
+    expect(query.misplacedWhere).toEqual([]);
+  });
+
+  it('sets a second where after a join aside as misplaced', () => {
+    const [query] = selectQueriesOf(parseXpp(`
+      select firstOnly detail
+          exists join tracking where tracking.RecId == detail.Tracking
+          where detail.Dim == dim;
+    `));
+    expect(query.joins[0].query.misplacedWhere).toHaveLength(1);
+  });
+
+  it('reads a parenthesised select as an expression', () => {
+    expect(kinds('x = (select count(RecId) from custTable).RecId;')).toContain('SelectExpression');
+  });
+});
+
+describe('rules on the AST', () => {
+  it('SEL004: two loops one after the other are not nested', () => {
+    const code = `
+      while select custTable { info(custTable.AccountNum); }
+      while select vendTable { info(vendTable.AccountNum); }
+    `;
+    expect(rulesOf(code)).not.toContain('SEL004');
+  });
+
+  it('SEL004: a nested loop is flagged even when another select joins', () => {
+    const code = `
+      select firstOnly a join b where b.Id == a.Id;
+      while select custTable
+      {
+          while select custTrans where custTrans.AccountNum == custTable.AccountNum
+          {
+          }
+      }
+    `;
+    expect(rulesOf(code)).toContain('SEL004');
+  });
+
+  it('SEL005: an aggregate in a join field list is not inside the where clause', () => {
+    const code = `
+      select firstOnly inventTrans
+          where inventTrans.ItemId == itemId
+          join sum(Qty) from inventDim
+              where inventDim.InventDimId == inventTrans.InventDimId;
+    `;
+    expect(rulesOf(code)).not.toContain('SEL005');
+  });
+
+  it('SEL005: a call on a later line of a multi-line where clause is found', () => {
+    const code = `
+      select firstOnly custTable
+          where custTable.AccountNum == accountNum
+             && custTable.Blocked == CustVendorBlocked::No
+             && custTable.CreditMax > this.creditLimit();
+    `;
+    expect(rulesOf(code)).toContain('SEL005');
+  });
+
+  it('COC004: a return inside a lambda handed to a delegate does not skip next', () => {
+    const code = `
+      [ExtensionOf(classStr(SalesFormLetter))]
+      final class SalesFormLetter_Extension
+      {
+          public void run()
+          {
+              this.onPosted += (sender, args) => { return; };
+              next run();
+          }
+      }
+    `;
+    expect(rulesOf(code)).not.toContain('COC004');
+  });
+
+  it('COC004: next as an operand of && is conditional', () => {
+    const code = `
+      [ExtensionOf(tableStr(CustTable))]
+      final class CustTable_Extension
+      {
+          public boolean validateWrite()
+          {
+              boolean ret = this.AccountNum != '' && next validateWrite();
+              return ret;
+          }
+      }
+    `;
+    expect(rulesOf(code)).toContain('COC004');
+  });
+
+  it('keywords inside strings and comments never reach a rule', () => {
+    const code = `
+      // while select a { while select b { } }
+      str s = "ttsbegin; pause; select forceLiterals t";
+    `;
+    expect(rulesOf(code)).toEqual([]);
+  });
+});
+
+describe('walkXpp', () => {
+  it('skips a subtree when the visitor returns false', () => {
+    const seen: XppNode['kind'][] = [];
+    walkXpp(parseXpp('foo(bar(1));'), node => {
+      seen.push(node.kind);
+      return node.kind !== 'Call';
+    });
+    expect(seen.filter(k => k === 'Call')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Semantic workspace changes over a real git repo — what review_workspace_changes
+ * and workspace://semantic-changes report for uncommitted AOT XML.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { collectSemanticChanges } from '../../src/workspace/semanticChanges';
+import { reviewWorkspaceChangesTool } from '../../src/tools/sdlc/reviewWorkspaceChanges';
+
+const classXml = (body: string) => `<?xml version="1.0" encoding="utf-8"?>
+<AxClass xmlns:i="http://www.w3.org/2001/XMLSchema-instance">
+\t<Name>ContosoWarranty</Name>
+\t<SourceCode>
+\t\t<Declaration><![CDATA[
+class ContosoWarranty
+{
+}
+]]></Declaration>
+\t\t<Methods>
+\t\t\t<Method>
+\t\t\t\t<Name>days</Name>
+\t\t\t\t<Source><![CDATA[
+public int days()
+{
+${body}
+}
+]]></Source>
+\t\t\t</Method>
+\t\t</Methods>
+\t</SourceCode>
+</AxClass>
+`;
+
+let repo: string;
+
+function git(...args: string[]): void {
+  execFileSync('git', args, { cwd: repo, windowsHide: true, stdio: 'ignore' });
+}
+
+function write(rel: string, content: string): void {
+  fs.mkdirSync(path.dirname(path.join(repo, rel)), { recursive: true });
+  fs.writeFileSync(path.join(repo, rel), content, 'utf-8');
+}
+
+beforeEach(() => {
+  // Resolved the way git reports it, so rev-parse and the test agree on the root.
+  repo = fs.realpathSync.native(fs.mkdtempSync(path.join(os.tmpdir(), 'semantic-changes-')));
+  git('init');
+  git('config', 'user.email', 'test@example.com');
+  git('config', 'user.name', 'test');
+  write('ContosoExt/AxClass/ContosoWarranty.xml', classXml('    return 30;'));
+  write('notes.txt', 'one\n');
+  git('add', '-A');
+  git('commit', '-m', 'baseline');
+});
+
+afterEach(() => {
+  try { fs.rmSync(repo, { recursive: true, force: true }); } catch { /* ignore */ }
+});
+
+describe('semantic workspace changes', () => {
+  it('reads changed and untracked AOT files item by item', async () => {
+    write('ContosoExt/AxClass/ContosoWarranty.xml', classXml('\treturn 60;'));
+    write('ContosoExt/AxEnum/ContosoWarrantyKind.xml', '<AxEnum><Name>ContosoWarrantyKind</Name><EnumValues /></AxEnum>');
+
+    const report = await collectSemanticChanges(repo);
+    expect(report.repoRoot).toBe(repo);
+    expect(report.files.map(f => [f.path, f.status, f.objectType])).toEqual([
+      ['ContosoExt/AxClass/ContosoWarranty.xml', 'modified', 'AxClass'],
+      ['ContosoExt/AxEnum/ContosoWarrantyKind.xml', 'added', 'AxEnum'],
+    ]);
+    expect(report.files[0].changes).toMatchObject([{ kind: 'method', name: 'days', action: 'changed', details: ['body'] }]);
+    expect(report.files[0].changes[0].codeDiff).toContain('-    return 30;\n+\treturn 60;');
+  });
+
+  it('is empty outside a git repo', async () => {
+    const plain = fs.mkdtempSync(path.join(os.tmpdir(), 'semantic-changes-plain-'));
+    try {
+      expect(await collectSemanticChanges(plain)).toMatchObject({ repoRoot: null, files: [] });
+    } finally {
+      fs.rmSync(plain, { recursive: true, force: true });
+    }
+  });
+
+  it('review_workspace_changes reviews AOT XML semantically and keeps the line diff for the rest', async () => {
+    write('ContosoExt/AxClass/ContosoWarranty.xml', classXml('    return 60;'));
+    write('notes.txt', 'two\n');
+
+    const result = await reviewWorkspaceChangesTool({ directoryPath: repo }, {});
+    const text = result.content[0].text;
+    expect(result.isError).toBeFalsy();
+    expect(text).toContain('Code Review Target (Semantic AOT changes):\n' +
+      '### AxClass `ContosoWarranty` (modified) — ContosoExt/AxClass/ContosoWarranty.xml\n' +
+      '- method `days` changed — body');
+    const lineDiff = text.split('Code Review Target (Git Diff):\n')[1].split('## Changed files')[0];
+    expect(lineDiff).toContain('+two');
+    expect(lineDiff).not.toContain('ContosoWarranty.xml');
+  });
+});